@@ -9,9 +9,15 @@
 import express, { NextFunction, Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
+import { timingSafeEqual } from 'node:crypto';
 
+import { isAuthDevMode } from './src/config/auth';
 import { createAppContainer } from './src/container';
+import { ConsoleLogger } from './src/services/ConsoleLogger';
+import { PeriodicTask } from './src/services/PeriodicTask';
+import { createRequestAuthenticator } from './src/routes/authentication';
 import { executeRoute } from './src/routes/handler';
+import { createIdempotencyGuard } from './src/routes/idempotency';
 import { HttpRequest, RouteHandler } from './src/routes/types';
 
 // Load environment variables before bootstrapping dependencies
@@ -25,7 +31,14 @@ const container = createAppContainer();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(
+  express.json({
+    verify: (req, _res, buffer) => {
+      // Keep the exact payload so webhook signatures can be checked against what was signed
+      (req as Request & { rawBody?: string }).rawBody = buffer.toString('utf8');
+    },
+  }),
+);
 app.use(express.urlencoded({ extended: true }));
 
 // Request logging middleware (basic dev logger)
@@ -78,31 +91,54 @@ const normalizeQuery = (query: Request['query']): Record<string, string | undefi
   return normalized;
 };
 
-const ACCESS_TOKEN_REGEX = /^access-([0-9a-fA-F-]{36})-[0-9a-fA-F-]{36}$/;
-
-const resolveUserId = (req: Request): string | undefined => {
-  const userHeader = req.headers['x-user-id'] ?? req.headers['x-userid'];
-  if (Array.isArray(userHeader)) {
-    const candidate = userHeader.find((value) => typeof value === 'string' && value.trim().length > 0);
-    if (candidate) {
-      return candidate.trim();
-    }
-  } else if (typeof userHeader === 'string' && userHeader.trim().length > 0) {
-    return userHeader.trim();
-  }
-
-  const authHeader = req.header('authorization');
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    const token = authHeader.slice('Bearer '.length).trim();
-    const match = ACCESS_TOKEN_REGEX.exec(token);
-    if (match) {
-      return match[1];
-    }
+/**
+ * Back-office callers authenticate with an `X-Admin-Key` header. Keys are configured as
+ * `ADMIN_API_KEYS=alice:key-one,bob:key-two`; the name before the colon is recorded as the
+ * acting admin.
+ */
+const adminApiKeys = (process.env.ADMIN_API_KEYS ?? '')
+  .split(',')
+  .map((entry) => entry.trim())
+  .filter((entry) => entry.includes(':'))
+  .map((entry) => {
+    const separator = entry.indexOf(':');
+    return { adminId: entry.slice(0, separator).trim(), key: Buffer.from(entry.slice(separator + 1).trim()) };
+  })
+  .filter((entry) => entry.adminId.length > 0 && entry.key.length > 0);
+
+const resolveAdminId = (req: Request): string | undefined => {
+  const provided = req.header('x-admin-key');
+  if (!provided) {
+    return undefined;
   }
 
-  return undefined;
+  const candidate = Buffer.from(provided.trim());
+  const match = adminApiKeys.find(
+    (entry) => entry.key.length === candidate.length && timingSafeEqual(entry.key, candidate),
+  );
+  return match?.adminId;
 };
 
+// Auth middleware: the signed-in user comes from a verified Bearer access token, or from
+// X-User-Id only when AUTH_DEV_MODE is explicitly enabled
+const authDevMode = isAuthDevMode();
+const authenticate = createRequestAuthenticator({
+  tokenService: container.services.tokenService,
+  sessionService: container.services.sessionService,
+  trustUserIdHeader: authDevMode,
+});
+
+app.use(async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const identity = await authenticate(normalizeHeaders(req.headers));
+    res.locals.userId = identity?.userId;
+    res.locals.deviceSessionId = identity?.deviceSessionId;
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
 const adaptRoute = <TRequest extends HttpRequest = HttpRequest>(handler: RouteHandler<TRequest>) => {
   return async (req: Request, res: Response, next: NextFunction) => {
     const headers = normalizeHeaders(req.headers);
@@ -115,11 +151,30 @@ const adaptRoute = <TRequest extends HttpRequest = HttpRequest>(handler: RouteHa
       headers,
     };
 
-    const userId = resolveUserId(req);
+    if (req.ip) {
+      request.ipAddress = req.ip;
+    }
+
+    const rawBody = (req as Request & { rawBody?: string }).rawBody;
+    if (rawBody !== undefined) {
+      request.rawBody = rawBody;
+    }
+
+    const userId = res.locals.userId as string | undefined;
     if (userId) {
       request.userId = userId;
     }
 
+    const deviceSessionId = res.locals.deviceSessionId as string | undefined;
+    if (deviceSessionId) {
+      request.deviceSessionId = deviceSessionId;
+    }
+
+    const adminId = resolveAdminId(req);
+    if (adminId) {
+      request.adminId = adminId;
+    }
+
     try {
       const response = await executeRoute(handler as RouteHandler, request);
       if (response.headers) {
@@ -128,6 +183,8 @@ const adaptRoute = <TRequest extends HttpRequest = HttpRequest>(handler: RouteHa
 
       if (response.body === undefined) {
         res.status(response.status).end();
+      } else if (Buffer.isBuffer(response.body)) {
+        res.status(response.status).send(response.body);
       } else if (typeof response.body === 'object' && response.body !== null) {
         res.status(response.status).json(response.body);
       } else {
@@ -139,12 +196,31 @@ const adaptRoute = <TRequest extends HttpRequest = HttpRequest>(handler: RouteHa
   };
 };
 
+// Money-moving routes return their first response again when retried with the same Idempotency-Key
+const idempotent = createIdempotencyGuard({
+  repository: container.repositories.idempotencyKeyRepository,
+  logger: new ConsoleLogger(),
+});
+
+const postIdempotent = <TRequest extends HttpRequest>(path: string, handler: RouteHandler<TRequest>) => {
+  app.post(path, adaptRoute(idempotent(`POST ${path}`, handler)));
+};
+
 // Authentication
 app.post('/auth/register', adaptRoute(container.routes.auth.register));
 app.post('/auth/login', adaptRoute(container.routes.auth.login));
 app.post('/auth/verify-otp', adaptRoute(container.routes.auth.verifyOtp));
+app.post('/auth/refresh', adaptRoute(container.routes.auth.refresh));
+app.post('/auth/logout', adaptRoute(container.routes.auth.logout));
 app.post('/auth/setup-pin', adaptRoute(container.routes.auth.setupPin));
 app.post('/auth/verify-pin', adaptRoute(container.routes.auth.verifyPin));
+app.post('/auth/pin-recovery/start', adaptRoute(container.routes.pinRecovery.start));
+app.post('/auth/pin-recovery/verify-otp', adaptRoute(container.routes.pinRecovery.verifyOtp));
+app.post('/auth/pin-recovery/complete', adaptRoute(container.routes.pinRecovery.complete));
+app.post('/auth/pin-recovery/cancel', adaptRoute(container.routes.pinRecovery.cancel));
+app.get('/auth/pin-recovery/:recoveryId', adaptRoute(container.routes.pinRecovery.getStatus));
+app.post('/auth/step-up/:challengeId/otp', adaptRoute(container.routes.stepUp.sendOtp));
+app.post('/auth/step-up/:challengeId/verify', adaptRoute(container.routes.stepUp.verify));
 app.patch('/auth/profile', adaptRoute(container.routes.auth.updateProfile));
 app.put('/auth/profile', adaptRoute(container.routes.auth.updateProfile));
 
@@ -153,16 +229,32 @@ app.get('/users/lookup', adaptRoute(container.routes.users.lookupUser));
 
 // Wallets
 app.get('/wallets', adaptRoute(container.routes.wallets.listWallets));
-app.post('/wallets/:walletId/withdraw', adaptRoute(container.routes.wallets.withdraw));
-app.post('/wallets/transfer-to-savings', adaptRoute(container.routes.wallets.transferToSavings));
-app.post('/wallets/transfer-from-savings', adaptRoute(container.routes.wallets.transferFromSavings));
+postIdempotent('/wallets/:walletId/withdraw', container.routes.wallets.withdraw);
+postIdempotent('/wallets/transfer-to-savings', container.routes.wallets.transferToSavings);
+postIdempotent('/wallets/transfer-from-savings', container.routes.wallets.transferFromSavings);
 
 // Payments
 app.post('/payments/preview', adaptRoute(container.routes.payments.previewTransfer));
 app.post('/payments/verify', adaptRoute(container.routes.payments.verifyPayment));
-app.post('/payments/merchant', adaptRoute(container.routes.payments.payMerchant));
-app.post('/payments/transfer', adaptRoute(container.routes.payments.transferPeer));
-app.post('/payments/topup', adaptRoute(container.routes.payments.topUpWallet));
+postIdempotent('/payments/merchant', container.routes.payments.payMerchant);
+postIdempotent('/payments/transfer', container.routes.payments.transferPeer);
+postIdempotent('/payments/topup', container.routes.payments.topUpWallet);
+app.post('/payments/:transactionId/refund', adaptRoute(container.routes.refunds.refundPayment));
+
+// Fees
+app.get('/fees/schedule', adaptRoute(container.routes.fees.getSchedule));
+
+// Limits
+app.get('/limits', adaptRoute(container.routes.limits.getLimits));
+
+// Sessions
+app.get('/sessions', adaptRoute(container.routes.sessions.listSessions));
+app.post('/sessions/revoke-others', adaptRoute(container.routes.sessions.revokeOtherSessions));
+app.delete('/sessions/:sessionId', adaptRoute(container.routes.sessions.revokeSession));
+
+// Account
+app.post('/account/export', adaptRoute(container.routes.account.exportData));
+postIdempotent('/account/close', container.routes.account.close);
 
 // Savings goals
 app.get('/savings-goals', adaptRoute(container.routes.savings.listGoals));
@@ -170,15 +262,15 @@ app.post('/savings-goals', adaptRoute(container.routes.savings.createGoal));
 app.put('/savings-goals/:goalId', adaptRoute(container.routes.savings.updateGoal));
 app.patch('/savings-goals/:goalId', adaptRoute(container.routes.savings.updateGoal));
 app.delete('/savings-goals/:goalId', adaptRoute(container.routes.savings.deleteGoal));
-app.post('/savings-goals/:goalId/deposit', adaptRoute(container.routes.savings.depositToGoal));
-app.post('/savings-goals/:goalId/withdraw', adaptRoute(container.routes.savings.withdrawFromGoal));
+postIdempotent('/savings-goals/:goalId/deposit', container.routes.savings.depositToGoal);
+postIdempotent('/savings-goals/:goalId/withdraw', container.routes.savings.withdrawFromGoal);
 app.post('/savings-goals/:goalId/cancel', adaptRoute(container.routes.savings.cancelGoal));
 
 // Savings investments (Phase 1 yield-on-savings)
 app.get('/investments/savings/summary', adaptRoute(container.routes.investments.getSummary));
 app.post('/investments/savings/preferences', adaptRoute(container.routes.investments.updatePreference));
-app.post('/investments/savings/allocate', adaptRoute(container.routes.investments.allocate));
-app.post('/investments/savings/redeem', adaptRoute(container.routes.investments.redeem));
+postIdempotent('/investments/savings/allocate', container.routes.investments.allocate);
+postIdempotent('/investments/savings/redeem', container.routes.investments.redeem);
 app.post('/investments/savings/claim-interest', adaptRoute(container.routes.investments.claimInterest));
 
 // Round-up rules
@@ -196,10 +288,40 @@ app.patch('/transactions/:transactionId/category', adaptRoute(container.routes.t
 // KYC
 app.get('/kyc/documents', adaptRoute(container.routes.kyc.listDocuments));
 app.post('/kyc/documents', adaptRoute(container.routes.kyc.initiateUpload));
+// Signed links: the signature in the query string authorises these, so clients send no bearer token
+app.put(
+  '/kyc/uploads/:documentId',
+  express.raw({ type: () => true, limit: '10mb' }),
+  adaptRoute(container.routes.kyc.uploadDocumentFile),
+);
+app.get('/kyc/documents/:documentId/file', adaptRoute(container.routes.kyc.downloadDocumentFile));
 
 // Webhooks
 app.post('/webhooks/paystack', adaptRoute(container.routes.webhooks.handlePaystackWebhook));
 
+// Admin
+app.get('/admin/webhooks/events', adaptRoute(container.routes.webhooks.listWebhookEvents));
+app.post('/admin/webhooks/replay', adaptRoute(container.routes.webhooks.replayFailedEvents));
+app.get('/admin/reconciliation/reports/:date', adaptRoute(container.routes.reconciliation.getReport));
+app.post('/admin/reconciliation/run', adaptRoute(container.routes.reconciliation.runSweep));
+app.get('/admin/wallets/:walletId/ledger', adaptRoute(container.routes.ledger.getWalletLedger));
+app.get('/admin/kyc/documents', adaptRoute(container.routes.admin.listKycQueue));
+app.get('/admin/kyc/documents/:documentId', adaptRoute(container.routes.admin.getKycDocument));
+app.post('/admin/kyc/documents/:documentId/review', adaptRoute(container.routes.admin.reviewKycDocument));
+app.patch('/admin/kyc/documents/:documentId/extracted-data', adaptRoute(container.routes.admin.updateExtractedData));
+app.get('/admin/kyc/review-cases', adaptRoute(container.routes.admin.listKycReviewCases));
+app.post('/admin/kyc/review-cases/:caseId/resolve', adaptRoute(container.routes.admin.resolveKycReviewCase));
+app.get('/admin/screening/cases', adaptRoute(container.routes.admin.listScreeningCases));
+app.post('/admin/screening/cases/:caseId/resolve', adaptRoute(container.routes.admin.resolveScreeningCase));
+app.get('/admin/aml/alerts', adaptRoute(container.routes.admin.listAmlAlerts));
+app.post('/admin/aml/alerts/:alertId/resolve', adaptRoute(container.routes.admin.resolveAmlAlert));
+app.get('/admin/users', adaptRoute(container.routes.admin.searchUsers));
+app.get('/admin/users/:userId', adaptRoute(container.routes.admin.getUser));
+app.post('/admin/users/:userId/kyc-status', adaptRoute(container.routes.admin.setUserKycStatus));
+app.post('/admin/users/:userId/suspend', adaptRoute(container.routes.admin.suspendUser));
+app.post('/admin/users/:userId/reactivate', adaptRoute(container.routes.admin.reactivateUser));
+app.get('/admin/audit-log', adaptRoute(container.routes.admin.listAuditLog));
+
 // Error handling middleware
 app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
   console.error('Unhandled error:', err);
@@ -218,6 +340,88 @@ app.use((req: Request, res: Response) => {
   });
 });
 
+// Background jobs
+const jobLogger = new ConsoleLogger();
+const retryWorkerIntervalMs = Number(process.env.RETRY_WORKER_INTERVAL_MS ?? 30_000);
+if (retryWorkerIntervalMs > 0) {
+  new PeriodicTask({
+    name: 'retry-worker',
+    intervalMs: retryWorkerIntervalMs,
+    run: () => container.services.retryWorker.runOnce(),
+    logger: jobLogger,
+  }).start();
+}
+
+const reconciliationIntervalMs = Number(process.env.RECONCILIATION_INTERVAL_MS ?? 15 * 60_000);
+if (reconciliationIntervalMs > 0) {
+  new PeriodicTask({
+    name: 'paystack-reconciliation',
+    intervalMs: reconciliationIntervalMs,
+    run: () => container.services.reconciliationService.sweep(),
+    logger: jobLogger,
+  }).start();
+}
+
+const idempotencyPurgeIntervalMs = Number(process.env.IDEMPOTENCY_PURGE_INTERVAL_MS ?? 60 * 60_000);
+if (idempotencyPurgeIntervalMs > 0) {
+  new PeriodicTask({
+    name: 'idempotency-key-purge',
+    intervalMs: idempotencyPurgeIntervalMs,
+    run: () => container.repositories.idempotencyKeyRepository.deleteExpired(new Date()),
+    logger: jobLogger,
+  }).start();
+}
+
+const fundHoldExpiryIntervalMs = Number(process.env.FUND_HOLD_EXPIRY_INTERVAL_MS ?? 5 * 60_000);
+if (fundHoldExpiryIntervalMs > 0) {
+  new PeriodicTask({
+    name: 'fund-hold-expiry',
+    intervalMs: fundHoldExpiryIntervalMs,
+    run: () => container.services.walletService.expireHolds(),
+    logger: jobLogger,
+  }).start();
+}
+
+const pinRecoveryIntervalMs = Number(process.env.PIN_RECOVERY_INTERVAL_MS ?? 5 * 60_000);
+if (pinRecoveryIntervalMs > 0) {
+  new PeriodicTask({
+    name: 'pin-recovery-completion',
+    intervalMs: pinRecoveryIntervalMs,
+    run: () => container.services.pinRecoveryService.completeDueRecoveries(),
+    logger: jobLogger,
+  }).start();
+}
+
+const accountAnonymisationIntervalMs = Number(process.env.ACCOUNT_ANONYMISATION_INTERVAL_MS ?? 60 * 60_000);
+if (accountAnonymisationIntervalMs > 0) {
+  new PeriodicTask({
+    name: 'account-anonymisation',
+    intervalMs: accountAnonymisationIntervalMs,
+    run: () => container.services.accountService.anonymiseDueAccounts(),
+    logger: jobLogger,
+  }).start();
+}
+
+const kycExpiryIntervalMs = Number(process.env.KYC_EXPIRY_CHECK_INTERVAL_MS ?? 60 * 60_000);
+if (kycExpiryIntervalMs > 0) {
+  new PeriodicTask({
+    name: 'kyc-document-expiry',
+    intervalMs: kycExpiryIntervalMs,
+    run: () => container.services.kycService.checkDocumentExpiry(),
+    logger: jobLogger,
+  }).start();
+}
+
+const amlMonitoringIntervalMs = Number(process.env.AML_MONITORING_INTERVAL_MS ?? 5 * 60_000);
+if (amlMonitoringIntervalMs > 0) {
+  new PeriodicTask({
+    name: 'aml-monitoring',
+    intervalMs: amlMonitoringIntervalMs,
+    run: () => container.services.amlMonitoringService.scan(),
+    logger: jobLogger,
+  }).start();
+}
+
 // Start server
 app.listen(PORT, () => {
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
@@ -226,6 +430,9 @@ app.listen(PORT, () => {
   console.log(`  🚀 Server running on: http://localhost:${PORT}`);
   console.log(`  📝 Health check: http://localhost:${PORT}/health`);
   console.log(`  🔐 Environment: ${process.env.NODE_ENV ?? 'development'}`);
+  if (authDevMode) {
+    console.log('  ⚠️  AUTH_DEV_MODE: X-User-Id headers are trusted');
+  }
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 });
 
@@ -0,0 +1,18 @@
+import { DEFAULT_DATA_RETENTION_DAYS } from '../models/AccountClosure';
+
+/**
+ * How many days a closed account's personal data is kept before it is anonymised, from
+ * ACCOUNT_DATA_RETENTION_DAYS. An invalid value stops startup.
+ */
+export function loadAccountRetentionDays(): number {
+  const raw = process.env.ACCOUNT_DATA_RETENTION_DAYS;
+  if (raw === undefined || raw === '') {
+    return DEFAULT_DATA_RETENTION_DAYS;
+  }
+
+  const days = Number(raw);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error('ACCOUNT_DATA_RETENTION_DAYS must be a whole number of days');
+  }
+  return days;
+}
@@ -0,0 +1,21 @@
+import { readFileSync } from 'node:fs';
+
+import { AmlRule, AmlRuleJson, DEFAULT_AML_RULES, fromJson } from '../models/AmlRule';
+
+/**
+ * Transaction monitoring rules from the JSON file at AML_RULES_PATH, or the built-in defaults when it
+ * is not set. A file that cannot be read or fails validation stops startup rather than monitoring
+ * with rules nobody meant.
+ */
+export function loadAmlRules(): AmlRule[] {
+  const path = process.env.AML_RULES_PATH;
+  if (!path) {
+    return DEFAULT_AML_RULES;
+  }
+
+  try {
+    return fromJson(JSON.parse(readFileSync(path, 'utf8')) as { rules: AmlRuleJson[] });
+  } catch (error) {
+    throw new Error(`Invalid AML rules in ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,62 @@
+import { randomBytes } from 'node:crypto';
+
+export interface TokenConfig {
+  secret: string;
+  accessTokenTtlSeconds?: number;
+  refreshTokenTtlSeconds?: number;
+}
+
+/**
+ * Token signing settings from AUTH_TOKEN_SECRET, ACCESS_TOKEN_TTL_SECONDS and
+ * REFRESH_TOKEN_TTL_SECONDS. Without a configured secret the in-memory API signs with a random one
+ * per process (everyone is signed out on restart); otherwise startup stops.
+ */
+export function loadTokenConfig(options: { requireSecret: boolean }): TokenConfig {
+  const secret = process.env.AUTH_TOKEN_SECRET;
+  if (!secret && options.requireSecret) {
+    throw new Error('AUTH_TOKEN_SECRET must be set to sign access tokens');
+  }
+
+  return {
+    secret: secret ?? randomBytes(32).toString('hex'),
+    accessTokenTtlSeconds: readSeconds('ACCESS_TOKEN_TTL_SECONDS'),
+    refreshTokenTtlSeconds: readSeconds('REFRESH_TOKEN_TTL_SECONDS'),
+  };
+}
+
+/**
+ * Secret pepper mixed into PIN hashes, from PIN_HASH_PEPPER. It has to stay the same for stored
+ * hashes to keep verifying. Like the token secret, the in-memory API falls back to a random one.
+ */
+export function loadPinHashPepper(options: { requirePepper: boolean }): string {
+  const pepper = process.env.PIN_HASH_PEPPER;
+  if (!pepper && options.requirePepper) {
+    throw new Error('PIN_HASH_PEPPER must be set to hash transaction PINs');
+  }
+  return pepper ?? randomBytes(32).toString('hex');
+}
+
+/**
+ * AUTH_DEV_MODE=true lets local tools act as any user by sending X-User-Id instead of an access
+ * token. It is refused in production.
+ */
+export function isAuthDevMode(): boolean {
+  const enabled = process.env.AUTH_DEV_MODE === 'true';
+  if (enabled && process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_DEV_MODE cannot be enabled in production');
+  }
+  return enabled;
+}
+
+function readSeconds(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isInteger(seconds) || seconds <= 0) {
+    throw new Error(`${name} must be a positive number of seconds`);
+  }
+  return seconds;
+}
@@ -0,0 +1,58 @@
+import { randomBytes } from 'node:crypto';
+
+export type DocumentStorageDriver = 'supabase' | 'local';
+
+export interface DocumentStorageConfig {
+  driver: DocumentStorageDriver;
+  /** Supabase Storage bucket, used by the `supabase` driver. */
+  bucket: string;
+  /** Directory files are written under, used by the `local` driver. */
+  directory: string;
+  /** 32-byte key that encrypts every document's own key. */
+  masterKey: Buffer;
+  /** Signs the upload and download links. */
+  urlSecret: string;
+  /** Where clients reach the API, the base of the signed links. */
+  publicBaseUrl: string;
+}
+
+/**
+ * KYC document storage settings from KYC_STORAGE_DRIVER (`supabase` or `local`), KYC_STORAGE_BUCKET,
+ * KYC_STORAGE_DIR, KYC_DOCUMENT_MASTER_KEY (32 bytes as base64 or 64 hex characters),
+ * KYC_DOCUMENT_URL_SECRET and API_PUBLIC_URL. Without the key and secret the in-memory API uses
+ * random ones per process; otherwise startup stops, as it does for any invalid value.
+ */
+export function loadDocumentStorageConfig(options: { requireSecrets: boolean }): DocumentStorageConfig {
+  const driver = process.env.KYC_STORAGE_DRIVER || 'supabase';
+  if (driver !== 'supabase' && driver !== 'local') {
+    throw new Error('KYC_STORAGE_DRIVER must be supabase or local');
+  }
+
+  const rawKey = process.env.KYC_DOCUMENT_MASTER_KEY;
+  if (!rawKey && options.requireSecrets) {
+    throw new Error('KYC_DOCUMENT_MASTER_KEY must be set to encrypt KYC documents');
+  }
+  const masterKey = rawKey ? parseKey(rawKey) : randomBytes(32);
+
+  const urlSecret = process.env.KYC_DOCUMENT_URL_SECRET;
+  if (!urlSecret && options.requireSecrets) {
+    throw new Error('KYC_DOCUMENT_URL_SECRET must be set to sign KYC document links');
+  }
+
+  return {
+    driver,
+    bucket: process.env.KYC_STORAGE_BUCKET || 'kyc-documents',
+    directory: process.env.KYC_STORAGE_DIR || './storage/kyc-documents',
+    masterKey,
+    urlSecret: urlSecret ?? randomBytes(32).toString('hex'),
+    publicBaseUrl: process.env.API_PUBLIC_URL || `http://localhost:${process.env.API_PORT ?? 3000}`,
+  };
+}
+
+function parseKey(raw: string): Buffer {
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new Error('KYC_DOCUMENT_MASTER_KEY must be 32 bytes, as base64 or 64 hex characters');
+  }
+  return key;
+}
@@ -0,0 +1,20 @@
+import { readFileSync } from 'node:fs';
+
+import { DEFAULT_FEE_SCHEDULE, FeeSchedule, FeeScheduleJson, fromJson } from '../models/FeeSchedule';
+
+/**
+ * The fee schedule from the JSON file at FEE_SCHEDULE_PATH, or the built-in default when it is not
+ * set. A file that cannot be read or fails validation stops startup rather than charging wrong fees.
+ */
+export function loadFeeSchedule(): FeeSchedule {
+  const path = process.env.FEE_SCHEDULE_PATH;
+  if (!path) {
+    return DEFAULT_FEE_SCHEDULE;
+  }
+
+  try {
+    return fromJson(JSON.parse(readFileSync(path, 'utf8')) as FeeScheduleJson);
+  } catch (error) {
+    throw new Error(`Invalid fee schedule in ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,32 @@
+import { DEFAULT_FACE_MATCH_THRESHOLD } from '../services/KYCService';
+
+export type KYCVerificationProviderName = 'none' | 'fake';
+
+export interface KYCVerificationConfig {
+  provider: KYCVerificationProviderName;
+  faceMatchThreshold: number;
+}
+
+/**
+ * KYC verification settings from KYC_VERIFICATION_PROVIDER (`none` leaves every document to an
+ * admin, `fake` uses the deterministic local provider) and KYC_FACE_MATCH_THRESHOLD (0–1). An
+ * invalid value stops startup.
+ */
+export function loadKycVerificationConfig(): KYCVerificationConfig {
+  const rawProvider = process.env.KYC_VERIFICATION_PROVIDER;
+  const provider = rawProvider === undefined || rawProvider === '' ? 'none' : rawProvider;
+  if (provider !== 'none' && provider !== 'fake') {
+    throw new Error('KYC_VERIFICATION_PROVIDER must be none or fake');
+  }
+
+  const rawThreshold = process.env.KYC_FACE_MATCH_THRESHOLD;
+  let faceMatchThreshold = DEFAULT_FACE_MATCH_THRESHOLD;
+  if (rawThreshold !== undefined && rawThreshold !== '') {
+    faceMatchThreshold = Number(rawThreshold);
+    if (!Number.isFinite(faceMatchThreshold) || faceMatchThreshold < 0 || faceMatchThreshold > 1) {
+      throw new Error('KYC_FACE_MATCH_THRESHOLD must be a number between 0 and 1');
+    }
+  }
+
+  return { provider, faceMatchThreshold };
+}
@@ -0,0 +1,50 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+
+import { fromCsv, fromJson, WatchlistEntry, WatchlistEntryJson, WatchlistFormat } from '../models/Watchlist';
+import { DEFAULT_NAME_MATCH_THRESHOLD } from '../services/ScreeningService';
+
+export interface ScreeningConfig {
+  watchlist: WatchlistEntry[];
+  nameMatchThreshold: number;
+}
+
+/**
+ * Sanctions and PEP screening settings from SCREENING_WATCHLIST_PATH, SCREENING_WATCHLIST_FORMAT
+ * (`json` or `csv`; taken from the file extension when unset) and SCREENING_NAME_MATCH_THRESHOLD
+ * (0–1). Without a watchlist the in-memory API screens against an empty list; otherwise startup
+ * stops, as it does for a file that cannot be read or fails validation.
+ */
+export function loadScreeningConfig(options: { requireWatchlist: boolean }): ScreeningConfig {
+  const rawThreshold = process.env.SCREENING_NAME_MATCH_THRESHOLD;
+  let nameMatchThreshold = DEFAULT_NAME_MATCH_THRESHOLD;
+  if (rawThreshold !== undefined && rawThreshold !== '') {
+    nameMatchThreshold = Number(rawThreshold);
+    if (!Number.isFinite(nameMatchThreshold) || nameMatchThreshold <= 0 || nameMatchThreshold > 1) {
+      throw new Error('SCREENING_NAME_MATCH_THRESHOLD must be a number above 0 and at most 1');
+    }
+  }
+
+  const path = process.env.SCREENING_WATCHLIST_PATH;
+  if (!path) {
+    if (options.requireWatchlist) {
+      throw new Error('SCREENING_WATCHLIST_PATH must be set to screen customers and payouts');
+    }
+    return { watchlist: [], nameMatchThreshold };
+  }
+
+  const format = process.env.SCREENING_WATCHLIST_FORMAT || (extname(path).toLowerCase() === '.csv' ? 'csv' : 'json');
+  if (format !== 'json' && format !== 'csv') {
+    throw new Error('SCREENING_WATCHLIST_FORMAT must be json or csv');
+  }
+
+  try {
+    return { watchlist: parseWatchlist(readFileSync(path, 'utf8'), format), nameMatchThreshold };
+  } catch (error) {
+    throw new Error(`Invalid watchlist in ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function parseWatchlist(text: string, format: WatchlistFormat): WatchlistEntry[] {
+  return format === 'csv' ? fromCsv(text) : fromJson(JSON.parse(text) as WatchlistEntryJson[]);
+}
@@ -0,0 +1,22 @@
+import { DEFAULT_STEP_UP_POLICY, StepUpPolicy } from '../models/StepUpChallenge';
+
+/**
+ * Step-up policy from STEP_UP_AMOUNT_THRESHOLD (cents) and STEP_UP_NEW_RECIPIENTS, falling back to
+ * the defaults for anything not set. An invalid threshold stops startup.
+ */
+export function loadStepUpPolicy(): StepUpPolicy {
+  const rawThreshold = process.env.STEP_UP_AMOUNT_THRESHOLD;
+  let amountThreshold = DEFAULT_STEP_UP_POLICY.amountThreshold;
+  if (rawThreshold !== undefined && rawThreshold !== '') {
+    amountThreshold = Number(rawThreshold);
+    if (!Number.isInteger(amountThreshold) || amountThreshold <= 0) {
+      throw new Error('STEP_UP_AMOUNT_THRESHOLD must be a positive number of cents');
+    }
+  }
+
+  const rawNewRecipients = process.env.STEP_UP_NEW_RECIPIENTS;
+  return {
+    amountThreshold,
+    newRecipients: rawNewRecipients === undefined || rawNewRecipients === '' ? DEFAULT_STEP_UP_POLICY.newRecipients : rawNewRecipients === 'true',
+  };
+}
@@ -8,17 +8,54 @@ import { SupabaseSavingsInvestmentPositionRepository } from './repositories/Supa
 import { SupabaseTransactionRepository } from './repositories/SupabaseTransactionRepository';
 import { SupabaseUserRepository } from './repositories/SupabaseUserRepository';
 import { SupabaseWalletRepository } from './repositories/SupabaseWalletRepository';
+import { SupabaseWebhookEventRepository } from './repositories/SupabaseWebhookEventRepository';
+import { SupabaseReconciliationReportRepository } from './repositories/SupabaseReconciliationReportRepository';
+import { SupabaseIdempotencyKeyRepository } from './repositories/SupabaseIdempotencyKeyRepository';
+import { SupabaseLedgerRepository } from './repositories/SupabaseLedgerRepository';
+import { SupabaseFundHoldRepository } from './repositories/SupabaseFundHoldRepository';
+import { SupabaseRefreshTokenRepository } from './repositories/SupabaseRefreshTokenRepository';
+import { SupabaseDeviceSessionRepository } from './repositories/SupabaseDeviceSessionRepository';
+import { SupabasePinRecoveryRepository } from './repositories/SupabasePinRecoveryRepository';
+import { SupabaseStepUpChallengeRepository } from './repositories/SupabaseStepUpChallengeRepository';
+import { SupabaseAccountClosureRepository } from './repositories/SupabaseAccountClosureRepository';
+import { SupabaseAdminAuditLogRepository } from './repositories/SupabaseAdminAuditLogRepository';
+import { SupabaseAmlAlertRepository } from './repositories/SupabaseAmlAlertRepository';
+import { SupabaseAmlScanCursorRepository } from './repositories/SupabaseAmlScanCursorRepository';
+import { SupabaseKYCUploadAttemptRepository } from './repositories/SupabaseKYCUploadAttemptRepository';
+import { SupabaseKYCReviewCaseRepository } from './repositories/SupabaseKYCReviewCaseRepository';
+import { SupabaseScreeningCaseRepository } from './repositories/SupabaseScreeningCaseRepository';
+import { SupabaseUnitOfWorkCommitter } from './repositories/SupabaseUnitOfWorkCommitter';
+import { AccountService } from './services/AccountService';
+import { AdminService } from './services/AdminService';
+import { AmlMonitoringService } from './services/AmlMonitoringService';
 import { AutoAnalyzeService } from './services/AutoAnalyzeService';
 import { AuthService } from './services/AuthService';
 import { CategorizationService } from './services/CategorizationService';
 import { CryptoPinHasher } from './services/CryptoPinHasher';
 import { InMemoryRateLimiter } from './services/InMemoryRateLimiter';
+import { FakeKYCVerificationProvider } from './services/FakeKYCVerificationProvider';
 import { KYCService } from './services/KYCService';
+import { KYCDocumentVault } from './services/KYCDocumentVault';
+import { LocalDocumentStorage } from './services/LocalDocumentStorage';
+import { SignedDocumentUrls } from './services/SignedDocumentUrls';
+import { SupabaseDocumentStorage } from './services/SupabaseDocumentStorage';
+import { LedgerService } from './services/LedgerService';
+import { FeeService } from './services/FeeService';
+import { LimitService } from './services/LimitService';
 import { PaymentService } from './services/PaymentService';
-import { RandomTokenService } from './services/RandomTokenService';
+import { PaymentSettlementService } from './services/PaymentSettlementService';
+import { PinRecoveryService } from './services/PinRecoveryService';
+import { StepUpService } from './services/StepUpService';
+import { RetryWorker } from './services/RetryWorker';
+import { ReconciliationService } from './services/ReconciliationService';
+import { RefundService } from './services/RefundService';
+import { ScreeningService } from './services/ScreeningService';
 import { SavingsGoalService } from './services/SavingsGoalService';
 import { SavingsInvestmentService } from './services/SavingsInvestmentService';
+import { SessionService } from './services/SessionService';
+import { SignedTokenService } from './services/SignedTokenService';
 import { SupabasePinTokenService } from './services/SupabasePinTokenService';
+import { BufferedUnitOfWork } from './services/UnitOfWork';
 import { SupabaseRetryQueue } from './services/SupabaseRetryQueue';
 import { TransactionService } from './services/TransactionService';
 import { WalletService } from './services/WalletService';
@@ -38,6 +75,24 @@ import { createSavingsGoalRoutes } from './routes/savings-goals';
 import { createSavingsInvestmentRoutes } from './routes/savings-investments';
 import { createKYCRoutes } from './routes/kyc';
 import { createWebhookRoutes } from './routes/webhooks';
+import { createReconciliationRoutes } from './routes/reconciliation';
+import { createRefundRoutes } from './routes/refunds';
+import { createLedgerRoutes } from './routes/ledger';
+import { createPinRecoveryRoutes } from './routes/pin-recovery';
+import { createStepUpRoutes } from './routes/step-up';
+import { createFeeRoutes } from './routes/fees';
+import { createLimitRoutes } from './routes/limits';
+import { createSessionRoutes } from './routes/sessions';
+import { createAccountRoutes } from './routes/account';
+import { createAdminRoutes } from './routes/admin';
+import { loadFeeSchedule } from './config/fees';
+import { loadPinHashPepper, loadTokenConfig } from './config/auth';
+import { loadStepUpPolicy } from './config/stepUp';
+import { loadAccountRetentionDays } from './config/account';
+import { loadKycVerificationConfig } from './config/kyc';
+import { loadDocumentStorageConfig } from './config/documents';
+import { loadScreeningConfig } from './config/screening';
+import { loadAmlRules } from './config/aml';
 import { createInMemoryAppContainer, InMemoryPaystackClient, logInMemoryStartup } from './dev/inMemoryAppContainer';
 import { RegistrationService } from './services/RegistrationService';
 import { SupabaseIdentityProvider } from './services/IdentityProvider';
@@ -66,7 +121,23 @@ export function createAppContainer() {
   const savingsInvestmentPreferenceRepository = new SupabaseSavingsInvestmentPreferenceRepository(supabase);
   const savingsInvestmentPositionRepository = new SupabaseSavingsInvestmentPositionRepository(supabase);
   const kycDocumentRepository = new SupabaseKYCDocumentRepository(supabase);
+  const kycUploadAttemptRepository = new SupabaseKYCUploadAttemptRepository(supabase);
+  const kycReviewCaseRepository = new SupabaseKYCReviewCaseRepository(supabase);
+  const screeningCaseRepository = new SupabaseScreeningCaseRepository(supabase);
+  const amlAlertRepository = new SupabaseAmlAlertRepository(supabase);
+  const amlScanCursorRepository = new SupabaseAmlScanCursorRepository(supabase);
   const authSessionRepository = new SupabaseAuthSessionRepository(supabase);
+  const webhookEventRepository = new SupabaseWebhookEventRepository(supabase);
+  const reconciliationReportRepository = new SupabaseReconciliationReportRepository(supabase);
+  const idempotencyKeyRepository = new SupabaseIdempotencyKeyRepository(supabase);
+  const ledgerRepository = new SupabaseLedgerRepository(supabase);
+  const fundHoldRepository = new SupabaseFundHoldRepository(supabase);
+  const refreshTokenRepository = new SupabaseRefreshTokenRepository(supabase);
+  const deviceSessionRepository = new SupabaseDeviceSessionRepository(supabase);
+  const pinRecoveryRepository = new SupabasePinRecoveryRepository(supabase);
+  const stepUpChallengeRepository = new SupabaseStepUpChallengeRepository(supabase);
+  const accountClosureRepository = new SupabaseAccountClosureRepository(supabase);
+  const adminAuditLogRepository = new SupabaseAdminAuditLogRepository(supabase);
   const pinTokenService = new SupabasePinTokenService(supabase);
   const retryQueue = new SupabaseRetryQueue(supabase);
 
@@ -97,17 +168,50 @@ export function createAppContainer() {
   if (!isSmtpConfigured) {
     logger.warn('SMTP not fully configured. Using Supabase native OTP delivery.');
   }
-  const tokenService = new RandomTokenService();
-  const pinHasher = new CryptoPinHasher();
+  const tokenConfig = loadTokenConfig({ requireSecret: true });
+  const tokenService = new SignedTokenService({ ...tokenConfig, refreshTokenRepository, logger });
+  const sessionService = new SessionService({
+    deviceSessionRepository,
+    refreshTokenRepository,
+    notificationService,
+    sessionTtlSeconds: tokenConfig.refreshTokenTtlSeconds,
+    logger,
+  });
+  const pinHasher = new CryptoPinHasher({ pepper: loadPinHashPepper({ requirePepper: true }) });
   const rateLimiter = new InMemoryRateLimiter();
 
+  const limitService = new LimitService({
+    userRepository,
+    walletRepository,
+    transactionRepository,
+    logger,
+  });
+
   const transactionService = new TransactionService({
     transactionRepository,
+    limitService,
+    logger,
+  });
+
+  const ledgerService = new LedgerService({
+    ledgerRepository,
+    logger,
+  });
+
+  const unitOfWork = new BufferedUnitOfWork({
+    walletRepository,
+    transactionRepository,
+    ledgerRepository,
+    fundHoldRepository,
+    committer: new SupabaseUnitOfWorkCommitter(supabase),
     logger,
   });
 
   const walletService = new WalletService({
     walletRepository,
+    fundHoldRepository,
+    ledgerService,
+    unitOfWork,
     logger,
   });
 
@@ -135,12 +239,48 @@ export function createAppContainer() {
     logger,
   });
 
+  const documentStorageConfig = loadDocumentStorageConfig({ requireSecrets: true });
+  const documentStorage =
+    documentStorageConfig.driver === 'local'
+      ? new LocalDocumentStorage({ root: documentStorageConfig.directory })
+      : new SupabaseDocumentStorage({ client: supabase, bucket: documentStorageConfig.bucket });
+  const documentUrls = new SignedDocumentUrls({
+    secret: documentStorageConfig.urlSecret,
+    baseUrl: documentStorageConfig.publicBaseUrl,
+  });
+  const screeningConfig = loadScreeningConfig({ requireWatchlist: true });
+  const screeningService = new ScreeningService({
+    watchlist: screeningConfig.watchlist,
+    caseRepository: screeningCaseRepository,
+    userRepository,
+    nameMatchThreshold: screeningConfig.nameMatchThreshold,
+    logger,
+  });
+  const amlMonitoringService = new AmlMonitoringService({
+    rules: loadAmlRules(),
+    alertRepository: amlAlertRepository,
+    cursorRepository: amlScanCursorRepository,
+    transactionRepository,
+    userRepository,
+    logger,
+  });
+  const kycVerificationConfig = loadKycVerificationConfig();
+  const documentVault = new KYCDocumentVault({ storage: documentStorage, masterKey: documentStorageConfig.masterKey });
   const kycService = new KYCService({
     repository: kycDocumentRepository,
+    uploadAttemptRepository: kycUploadAttemptRepository,
+    reviewCaseRepository: kycReviewCaseRepository,
+    userRepository,
+    documentVault,
     notificationService,
+    verificationProvider: kycVerificationConfig.provider === 'fake' ? new FakeKYCVerificationProvider() : null,
+    faceMatchThreshold: kycVerificationConfig.faceMatchThreshold,
+    screeningService,
     logger,
   });
 
+  const feeService = new FeeService({ schedule: loadFeeSchedule(), logger });
+
   const paystackSecret = process.env.PAYSTACK_SECRET_KEY;
   const paystackClient = paystackSecret
     ? new HttpPaystackClient({
@@ -159,6 +299,7 @@ export function createAppContainer() {
     authSessionRepository,
     otpSender,
     tokenService,
+    sessionService,
     pinHasher,
     pinTokenService,
     rateLimiter,
@@ -167,11 +308,28 @@ export function createAppContainer() {
     emailOtpStrategy: isSmtpConfigured ? 'custom' : 'supabase',
   });
 
+  const pinRecoveryService = new PinRecoveryService({
+    authService,
+    userRepository,
+    kycDocumentRepository,
+    pinRecoveryRepository,
+    pinHasher,
+    notificationService,
+    logger,
+  });
+  const stepUpService = new StepUpService({
+    authService,
+    userRepository,
+    stepUpChallengeRepository,
+    logger,
+  });
+
   const identityProvider = new SupabaseIdentityProvider(supabase);
   const registrationService = new RegistrationService({
     userRepository,
     identityProvider,
     authService,
+    screeningService,
   });
 
   const paymentService = new PaymentService({
@@ -181,15 +339,90 @@ export function createAppContainer() {
     paystackClient,
     roundUpRuleRepository,
     retryQueue,
+    unitOfWork,
+    stepUpService,
+    stepUpPolicy: loadStepUpPolicy(),
+    screeningService,
+    logger,
+  });
+  const settlementService = new PaymentSettlementService({
+    transactionRepository,
+    transactionService,
+    walletService,
+    ledgerService,
+    unitOfWork,
+    notificationService,
+    logger,
+  });
+  const refundService = new RefundService({
+    transactionRepository,
+    transactionService,
+    walletService,
+    notificationService,
+    unitOfWork,
+    logger,
+  });
+  const retryWorker = new RetryWorker({
+    retryQueue,
+    transactionRepository,
+    paystackClient,
+    settlementService,
+    logger,
+  });
+  const reconciliationService = new ReconciliationService({
+    transactionRepository,
+    paystackClient,
+    settlementService,
+    reportRepository: reconciliationReportRepository,
+    logger,
+  });
+  const accountService = new AccountService({
+    userRepository,
+    walletRepository,
+    transactionRepository,
+    savingsGoalRepository,
+    roundUpRuleRepository,
+    positionRepository: savingsInvestmentPositionRepository,
+    preferenceRepository: savingsInvestmentPreferenceRepository,
+    kycDocumentRepository,
+    accountClosureRepository,
+    documentVault,
+    walletService,
+    transactionService,
+    paymentService,
+    settlementService,
+    sessionService,
+    notificationService,
+    unitOfWork,
+    retentionDays: loadAccountRetentionDays(),
+    logger,
+  });
+  const adminService = new AdminService({
+    userRepository,
+    walletRepository,
+    transactionRepository,
+    kycDocumentRepository,
+    kycReviewCaseRepository,
+    auditLogRepository: adminAuditLogRepository,
+    kycService,
+    screeningService,
+    paymentService,
+    amlMonitoringService,
+    sessionService,
     logger,
   });
 
   const authRoutes = createAuthRoutes({ authService, registrationService });
+  const pinRecoveryRoutes = createPinRecoveryRoutes({ pinRecoveryService });
+  const stepUpRoutes = createStepUpRoutes({ stepUpService });
   const userRoutes = createUserRoutes({ userRepository, logger });
   const paymentRoutes = createPaymentRoutes({
     paymentService,
+    settlementService,
     authService,
     walletService,
+    feeService,
+    limitService,
     userRepository,
     transactionRepository,
     roundUpRuleRepository,
@@ -200,6 +433,8 @@ export function createAppContainer() {
     transactionService,
     authService,
     savingsInvestmentService,
+    feeService,
+    unitOfWork,
     logger,
   });
   const transactionRoutes = createTransactionRoutes({
@@ -216,8 +451,16 @@ export function createAppContainer() {
   });
   const savingsRoutes = createSavingsGoalRoutes({ savingsGoalService, walletService, logger });
   const savingsInvestmentRoutes = createSavingsInvestmentRoutes({ savingsInvestmentService, logger });
-  const kycRoutes = createKYCRoutes({ kycService, logger });
-  const webhookRoutes = createWebhookRoutes({ logger });
+  const kycRoutes = createKYCRoutes({ kycService, documentUrls, logger });
+  const webhookRoutes = createWebhookRoutes({ settlementService, refundService, webhookEventRepository, logger });
+  const reconciliationRoutes = createReconciliationRoutes({ reconciliationService, logger });
+  const refundRoutes = createRefundRoutes({ refundService, logger });
+  const ledgerRoutes = createLedgerRoutes({ ledgerService, walletRepository });
+  const feeRoutes = createFeeRoutes({ feeService });
+  const limitRoutes = createLimitRoutes({ limitService });
+  const sessionRoutes = createSessionRoutes({ sessionService });
+  const accountRoutes = createAccountRoutes({ accountService, authService });
+  const adminRoutes = createAdminRoutes({ adminService });
 
   return {
     repositories: {
@@ -227,24 +470,56 @@ export function createAppContainer() {
       savingsGoalRepository,
       roundUpRuleRepository,
       kycDocumentRepository,
+      kycUploadAttemptRepository,
+      kycReviewCaseRepository,
+      screeningCaseRepository,
+      amlAlertRepository,
       authSessionRepository,
       savingsInvestmentPreferenceRepository,
       savingsInvestmentPositionRepository,
+      webhookEventRepository,
+      reconciliationReportRepository,
+      idempotencyKeyRepository,
+      ledgerRepository,
+      fundHoldRepository,
+      refreshTokenRepository,
+      deviceSessionRepository,
+      pinRecoveryRepository,
+      stepUpChallengeRepository,
+      accountClosureRepository,
+      adminAuditLogRepository,
     },
     services: {
       authService,
+      tokenService,
+      sessionService,
+      pinRecoveryService,
+      stepUpService,
       registrationService,
       transactionService,
+      ledgerService,
       walletService,
       paymentService,
+      settlementService,
+      refundService,
+      retryWorker,
+      reconciliationService,
       savingsGoalService,
       kycService,
+      screeningService,
+      amlMonitoringService,
       categorizationService,
       autoAnalyzeService,
       savingsInvestmentService,
+      feeService,
+      limitService,
+      accountService,
+      adminService,
     },
     routes: {
       auth: authRoutes,
+      pinRecovery: pinRecoveryRoutes,
+      stepUp: stepUpRoutes,
       users: userRoutes,
       payments: paymentRoutes,
       wallets: walletRoutes,
@@ -254,6 +529,14 @@ export function createAppContainer() {
       investments: savingsInvestmentRoutes,
       kyc: kycRoutes,
       webhooks: webhookRoutes,
+      reconciliation: reconciliationRoutes,
+      refunds: refundRoutes,
+      ledger: ledgerRoutes,
+      fees: feeRoutes,
+      limits: limitRoutes,
+      sessions: sessionRoutes,
+      account: accountRoutes,
+      admin: adminRoutes,
     },
   };
 }
@@ -1,52 +1,106 @@
 import { randomUUID } from 'node:crypto';
 
-import { createUser, User } from '../models/User';
+import { ComplianceHold, createUser, setComplianceHold, User } from '../models/User';
 import { createWallet, Wallet } from '../models/Wallet';
 import { createRoundUpRule, RoundUpRule } from '../models/RoundUpRule';
 import { createSavingsGoal, SavingsGoal } from '../models/SavingsGoal';
-import { createKYCDocument, KYCDocument } from '../models/KYCDocument';
+import { createKYCDocument, KYCDocument, KYCDocumentStatus, KYCDocumentType } from '../models/KYCDocument';
 import { createAuthSession, AuthSession } from '../models/AuthSession';
-import { Transaction } from '../models/Transaction';
-import { UUID } from '../models/base';
+import { Transaction, TransactionStatus, TransactionType } from '../models/Transaction';
+import { ReconciliationReport, validateReconciliationReport } from '../models/ReconciliationReport';
+import { IdempotencyRecord, validateIdempotencyRecord } from '../models/IdempotencyRecord';
+import { LedgerEntry, createOpeningBalanceEntry, validateLedgerEntry } from '../models/LedgerEntry';
+import { WebhookEvent } from '../models/WebhookEvent';
+import { FundHold } from '../models/FundHold';
+import { RefreshToken } from '../models/RefreshToken';
+import { DeviceSession } from '../models/DeviceSession';
+import { PinRecovery, PinRecoveryStatus } from '../models/PinRecovery';
+import { StepUpChallenge } from '../models/StepUpChallenge';
+import { AccountClosure } from '../models/AccountClosure';
+import { AdminAuditEntry, AdminAuditTargetType } from '../models/AdminAuditEntry';
+import { KYCUploadAttempt } from '../models/KYCUploadAttempt';
+import { KYCReviewCase, KYCReviewCaseStatus } from '../models/KYCReviewCase';
+import { ScreeningCase, ScreeningCaseStatus } from '../models/ScreeningCase';
+import { AmlAlert, AmlAlertStatus } from '../models/AmlAlert';
+import { ConcurrencyError, UUID } from '../models/base';
 import { createDefaultPreference, SavingsInvestmentPreference } from '../models/SavingsInvestmentPreference';
 import { createSavingsInvestmentPosition, SavingsInvestmentPosition } from '../models/SavingsInvestmentPosition';
 import { AuthService } from '../services/AuthService';
 import { WalletService } from '../services/WalletService';
 import { TransactionService } from '../services/TransactionService';
 import { PaymentService } from '../services/PaymentService';
+import { PaymentSettlementService } from '../services/PaymentSettlementService';
+import { RetryWorker } from '../services/RetryWorker';
+import { ReconciliationService } from '../services/ReconciliationService';
+import { RefundService } from '../services/RefundService';
+import { ScreeningService } from '../services/ScreeningService';
+import { LedgerService } from '../services/LedgerService';
+import { FeeService } from '../services/FeeService';
+import { LimitService } from '../services/LimitService';
+import { BufferedUnitOfWork } from '../services/UnitOfWork';
 import { SavingsGoalService } from '../services/SavingsGoalService';
 import { AutoAnalyzeService } from '../services/AutoAnalyzeService';
 import { CategorizationService } from '../services/CategorizationService';
 import { KYCService } from '../services/KYCService';
+import { KYCDocumentVault } from '../services/KYCDocumentVault';
+import { SignedDocumentUrls } from '../services/SignedDocumentUrls';
+import { FakeKYCVerificationProvider } from '../services/FakeKYCVerificationProvider';
 import { ConsoleNotificationService } from '../services/ConsoleNotificationService';
 import { ConsoleOtpSender } from '../services/ConsoleOtpSender';
 import { SmtpOtpSender } from '../services/SmtpOtpSender';
-import { RandomTokenService } from '../services/RandomTokenService';
+import { SignedTokenService } from '../services/SignedTokenService';
+import { SessionService } from '../services/SessionService';
+import { PinRecoveryService } from '../services/PinRecoveryService';
+import { StepUpService } from '../services/StepUpService';
+import { AccountService } from '../services/AccountService';
+import { AdminService } from '../services/AdminService';
+import { AmlMonitoringService } from '../services/AmlMonitoringService';
 import { CryptoPinHasher } from '../services/CryptoPinHasher';
 import { InMemoryRateLimiter } from '../services/InMemoryRateLimiter';
 import { ConsoleLogger } from '../services/ConsoleLogger';
 import { RegistrationService } from '../services/RegistrationService';
 import { InMemoryIdentityProvider } from '../services/IdentityProvider';
 import {
+  AccountClosureRepository,
+  AdminAuditLogRepository,
+  AmlAlertRepository,
+  AmlScanCursorRepository,
   AuthSessionRepository,
+  DocumentStorage,
+  FundHoldRepository,
+  IdempotencyKeyRepository,
   IdentityProvider,
   KYCDocumentRepository,
+  KYCReviewCaseRepository,
+  KYCUploadAttemptRepository,
+  LedgerRepository,
   Logger,
   NotificationService,
   OtpSender,
   PaystackClient,
   PinHasher,
+  PinRecoveryRepository,
   PinTokenService,
   RateLimiter,
+  ReconciliationReportRepository,
+  RefreshTokenRepository,
+  DeviceSessionRepository,
+  RetryJob,
   RetryQueue,
   RoundUpRuleRepository,
   SavingsGoalRepository,
   SavingsInvestmentPositionRepository,
   SavingsInvestmentPreferenceRepository,
+  ScreeningCaseRepository,
+  StepUpChallengeRepository,
   TokenService,
+  TransactionCursor,
   TransactionRepository,
+  UnitOfWorkChanges,
+  UnitOfWorkCommitter,
   UserRepository,
   WalletRepository,
+  WebhookEventRepository,
 } from '../services/types';
 import { createAuthRoutes } from '../routes/auth';
 import { createWalletRoutes } from '../routes/wallets';
@@ -57,6 +111,23 @@ import { createRoundUpRuleRoutes } from '../routes/round-up-rules';
 import { createKYCRoutes } from '../routes/kyc';
 import { createTransactionRoutes } from '../routes/transactions';
 import { createWebhookRoutes } from '../routes/webhooks';
+import { createReconciliationRoutes } from '../routes/reconciliation';
+import { createRefundRoutes } from '../routes/refunds';
+import { createLedgerRoutes } from '../routes/ledger';
+import { createFeeRoutes } from '../routes/fees';
+import { createLimitRoutes } from '../routes/limits';
+import { createSessionRoutes } from '../routes/sessions';
+import { createPinRecoveryRoutes } from '../routes/pin-recovery';
+import { createStepUpRoutes } from '../routes/step-up';
+import { createAccountRoutes } from '../routes/account';
+import { createAdminRoutes } from '../routes/admin';
+import { loadStepUpPolicy } from '../config/stepUp';
+import { loadAccountRetentionDays } from '../config/account';
+import { loadFeeSchedule } from '../config/fees';
+import { loadPinHashPepper, loadTokenConfig } from '../config/auth';
+import { loadDocumentStorageConfig } from '../config/documents';
+import { loadScreeningConfig } from '../config/screening';
+import { loadAmlRules } from '../config/aml';
 import { SavingsInvestmentService } from '../services/SavingsInvestmentService';
 import { createSavingsInvestmentRoutes } from '../routes/savings-investments';
 
@@ -76,6 +147,8 @@ function cloneUser(user: User): User {
     kycApprovedAt: cloneDate(user.kycApprovedAt),
     pinSetAt: cloneDate(user.pinSetAt),
     lastFailedAttemptAt: cloneDate(user.lastFailedAttemptAt),
+    transfersFrozenUntil: cloneDate(user.transfersFrozenUntil),
+    complianceHolds: user.complianceHolds ? [...user.complianceHolds] : [],
     notificationPreferences: { ...user.notificationPreferences },
   };
 }
@@ -172,6 +245,16 @@ function cloneSession(session: AuthSession): AuthSession {
   };
 }
 
+function cloneWebhookEvent(event: WebhookEvent): WebhookEvent {
+  return {
+    ...event,
+    payload: JSON.parse(JSON.stringify(event.payload)) as Record<string, unknown>,
+    createdAt: cloneDate(event.createdAt)!,
+    updatedAt: cloneDate(event.updatedAt)!,
+    processedAt: cloneDate(event.processedAt),
+  };
+}
+
 class InMemoryUserRepository implements UserRepository {
   private readonly users = new Map<UUID, User>();
 
@@ -221,6 +304,25 @@ class InMemoryUserRepository implements UserRepository {
     return cloneUser(merged);
   }
 
+  async setComplianceHold(userId: UUID, hold: ComplianceHold, held: boolean, now: Date): Promise<User | null> {
+    const existing = this.users.get(userId);
+    if (!existing) {
+      return null;
+    }
+    const updated: User = cloneUser({ ...existing, complianceHolds: setComplianceHold(existing, hold, held), updatedAt: now });
+    this.users.set(userId, updated);
+    return cloneUser(updated);
+  }
+
+  async search(query: string, options: { limit: number }): Promise<User[]> {
+    const term = query.toLowerCase();
+    return [...this.users.values()]
+      .filter((user) => [user.email, user.phone, user.firstName, user.lastName].some((value) => value?.toLowerCase().includes(term)))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, options.limit)
+      .map(cloneUser);
+  }
+
   upsert(user: User): void {
     this.users.set(user.id, cloneUser(user));
   }
@@ -254,11 +356,19 @@ class InMemoryWalletRepository implements WalletRepository {
   }
 
   async save(wallet: Wallet): Promise<Wallet> {
-    const copy = cloneWallet(wallet);
+    const existing = this.wallets.get(wallet.id);
+    if (existing && existing.version !== wallet.version) {
+      throw new ConcurrencyError(`Wallet ${wallet.id} changed since version ${wallet.version} was read`);
+    }
+    const copy = cloneWallet({ ...wallet, version: wallet.version + 1 });
     this.wallets.set(copy.id, copy);
     return cloneWallet(copy);
   }
 
+  versionOf(walletId: UUID): number | null {
+    return this.wallets.get(walletId)?.version ?? null;
+  }
+
   upsert(wallet: Wallet): void {
     this.wallets.set(wallet.id, cloneWallet(wallet));
   }
@@ -279,14 +389,41 @@ class InMemoryTransactionRepository implements TransactionRepository {
     return cloneTransaction(copy);
   }
 
-  async sumUserTransactionsForDay(userId: UUID, dayStart: Date): Promise<number> {
-    let sum = 0;
+  async recordRetry(transactionId: UUID, retry: { lastRetryAt: Date; nextRetryAt: Date | null }): Promise<Transaction | null> {
+    const stored = this.transactions.get(transactionId);
+    if (!stored) {
+      return null;
+    }
+    stored.retry = {
+      retryCount: stored.retry.retryCount + 1,
+      lastRetryAt: cloneDate(retry.lastRetryAt),
+      nextRetryAt: cloneDate(retry.nextRetryAt),
+    };
+    stored.updatedAt = cloneDate(retry.lastRetryAt)!;
+    return cloneTransaction(stored);
+  }
+
+  upsert(transaction: Transaction): void {
+    this.transactions.set(transaction.id, cloneTransaction(transaction));
+  }
+
+  statusOf(transactionId: UUID): TransactionStatus | null {
+    return this.transactions.get(transactionId)?.status ?? null;
+  }
+
+  async sumUserTransactionsByType(userId: UUID, since: Date): Promise<Partial<Record<TransactionType, number>>> {
+    const totals: Partial<Record<TransactionType, number>> = {};
     for (const transaction of this.transactions.values()) {
-      if (transaction.userId === userId && transaction.createdAt >= dayStart) {
-        sum += transaction.amount;
+      if (
+        transaction.userId === userId &&
+        transaction.createdAt >= since &&
+        transaction.status !== 'failed' &&
+        transaction.status !== 'cancelled'
+      ) {
+        totals[transaction.type] = (totals[transaction.type] ?? 0) + transaction.amount;
       }
     }
-    return sum;
+    return totals;
   }
 
   async listRecentTransactions(userId: UUID, since: Date): Promise<Transaction[]> {
@@ -336,6 +473,51 @@ class InMemoryTransactionRepository implements TransactionRepository {
     }
     return null;
   }
+
+  async findByExternalTransactionId(externalTransactionId: string): Promise<Transaction | null> {
+    for (const transaction of this.transactions.values()) {
+      if (transaction.externalTransactionId === externalTransactionId) {
+        return cloneTransaction(transaction);
+      }
+    }
+    return null;
+  }
+
+  async listPendingCreatedBefore(
+    cutoff: Date,
+    options: { types: TransactionType[]; limit: number },
+  ): Promise<Transaction[]> {
+    return [...this.transactions.values()]
+      .filter(
+        (transaction) =>
+          transaction.status === 'pending' &&
+          options.types.includes(transaction.type) &&
+          transaction.createdAt.getTime() <= cutoff.getTime(),
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, options.limit)
+      .map(cloneTransaction);
+  }
+
+  async listCompletedAfter(cursor: TransactionCursor, options: { limit: number }): Promise<Transaction[]> {
+    const byPosition = (a: TransactionCursor, b: TransactionCursor) =>
+      a.updatedAt.getTime() - b.updatedAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+    return [...this.transactions.values()]
+      .filter((transaction) => transaction.status === 'completed' && byPosition(transaction, cursor) > 0)
+      .sort(byPosition)
+      .slice(0, options.limit)
+      .map(cloneTransaction);
+  }
+
+  async listCompletedByUser(userId: UUID, since: Date): Promise<Transaction[]> {
+    return [...this.transactions.values()]
+      .filter(
+        (transaction) =>
+          transaction.userId === userId && transaction.status === 'completed' && transaction.createdAt.getTime() >= since.getTime(),
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(cloneTransaction);
+  }
 }
 
 class InMemorySavingsGoalRepository implements SavingsGoalRepository {
@@ -462,12 +644,14 @@ class InMemoryKYCDocumentRepository implements KYCDocumentRepository {
   }
 
   async findByUserAndType(userId: UUID, type: KYCDocument['documentType']): Promise<KYCDocument | null> {
-    for (const document of this.documents.values()) {
-      if (document.userId === userId && document.documentType === type) {
-        return cloneDocument(document);
-      }
-    }
-    return null;
+    // Insertion order breaks ties between documents created in the same millisecond
+    const latest = [...this.documents.values()]
+      .filter((document) => document.userId === userId && document.documentType === type)
+      .reduce<KYCDocument | null>(
+        (current, document) => (!current || document.createdAt.getTime() >= current.createdAt.getTime() ? document : current),
+        null,
+      );
+    return latest ? cloneDocument(latest) : null;
   }
 
   async findById(documentId: UUID): Promise<KYCDocument | null> {
@@ -478,6 +662,26 @@ class InMemoryKYCDocumentRepository implements KYCDocumentRepository {
   async listByUser(userId: UUID): Promise<KYCDocument[]> {
     return [...this.documents.values()].filter((document) => document.userId === userId).map(cloneDocument);
   }
+
+  async listByStatus(
+    statuses: KYCDocumentStatus[],
+    options: { documentType?: KYCDocumentType; limit: number; offset: number },
+  ): Promise<KYCDocument[]> {
+    return [...this.documents.values()]
+      .filter((document) => statuses.includes(document.status))
+      .filter((document) => !options.documentType || document.documentType === options.documentType)
+      .sort((a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime())
+      .slice(options.offset, options.offset + options.limit)
+      .map(cloneDocument);
+  }
+
+  async listApprovedExpiringBefore(cutoff: Date, options: { limit: number }): Promise<KYCDocument[]> {
+    return [...this.documents.values()]
+      .filter((document) => document.status === 'approved' && document.expiresAt && document.expiresAt.getTime() < cutoff.getTime())
+      .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime())
+      .slice(0, options.limit)
+      .map(cloneDocument);
+  }
 }
 
 class InMemoryAuthSessionRepository implements AuthSessionRepository {
@@ -506,38 +710,868 @@ class InMemoryAuthSessionRepository implements AuthSessionRepository {
 }
 
 class InMemoryPinTokenService implements PinTokenService {
-  private readonly tokens = new Map<string, { userId: UUID; expiresAt: Date }>();
+  private readonly tokens = new Map<string, { userId: UUID; intentHash: string | null; expiresAt: Date }>();
 
-  async issue(userId: UUID, token: string, ttlSeconds: number): Promise<void> {
-    this.tokens.set(token, { userId, expiresAt: new Date(Date.now() + ttlSeconds * 1000) });
+  async issue(userId: UUID, token: string, ttlSeconds: number, intentHash: string | null = null): Promise<void> {
+    this.tokens.set(token, { userId, intentHash, expiresAt: new Date(Date.now() + ttlSeconds * 1000) });
   }
 
-  async validate(userId: UUID, token: string): Promise<boolean> {
+  async validate(userId: UUID, token: string, intentHash: string | null = null): Promise<boolean> {
     const record = this.tokens.get(token);
     if (!record) return false;
     if (record.userId !== userId) return false;
+    if (record.intentHash !== intentHash) return false;
     if (record.expiresAt.getTime() < Date.now()) return false;
     return true;
   }
 
+  async consume(userId: UUID, token: string, intentHash: string | null = null): Promise<boolean> {
+    const valid = await this.validate(userId, token, intentHash);
+    if (valid) {
+      this.tokens.delete(token);
+    }
+    return valid;
+  }
+
   async invalidate(token: string): Promise<void> {
     this.tokens.delete(token);
   }
 }
 
-class InMemoryRetryQueue implements RetryQueue {
-  private readonly jobs: Array<{ id: string; runAt: Date; payload: Record<string, unknown> }> = [];
+export class InMemoryWebhookEventRepository implements WebhookEventRepository {
+  private readonly events = new Map<UUID, WebhookEvent>();
+
+  async create(event: WebhookEvent): Promise<WebhookEvent> {
+    if (event.signatureValid && (await this.findByEventId(event.eventId))) {
+      throw new Error(`Webhook event ${event.eventId} already recorded`);
+    }
+    this.events.set(event.id, cloneWebhookEvent(event));
+    return cloneWebhookEvent(event);
+  }
+
+  async update(event: WebhookEvent): Promise<WebhookEvent> {
+    this.events.set(event.id, cloneWebhookEvent(event));
+    return cloneWebhookEvent(event);
+  }
+
+  async findByEventId(eventId: string): Promise<WebhookEvent | null> {
+    for (const event of this.events.values()) {
+      if (event.eventId === eventId && event.signatureValid) {
+        return cloneWebhookEvent(event);
+      }
+    }
+    return null;
+  }
+
+  async listByStatus(status: WebhookEvent['status'], options: { limit: number }): Promise<WebhookEvent[]> {
+    return [...this.events.values()]
+      .filter((event) => event.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, options.limit)
+      .map(cloneWebhookEvent);
+  }
+}
+
+const cloneIdempotencyRecord = (record: IdempotencyRecord): IdempotencyRecord => ({
+  ...record,
+  responseBody: record.responseBody === undefined ? null : JSON.parse(JSON.stringify(record.responseBody)),
+  expiresAt: new Date(record.expiresAt.getTime()),
+  createdAt: new Date(record.createdAt.getTime()),
+  updatedAt: new Date(record.updatedAt.getTime()),
+});
+
+export class InMemoryIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  private readonly records = new Map<UUID, IdempotencyRecord>();
+
+  async create(record: IdempotencyRecord): Promise<IdempotencyRecord> {
+    validateIdempotencyRecord(record);
+    if (await this.findByKey(record.userId, record.key)) {
+      throw new Error(`Idempotency key ${record.key} already recorded`);
+    }
+    this.records.set(record.id, cloneIdempotencyRecord(record));
+    return cloneIdempotencyRecord(record);
+  }
+
+  async update(record: IdempotencyRecord): Promise<IdempotencyRecord> {
+    validateIdempotencyRecord(record);
+    this.records.set(record.id, cloneIdempotencyRecord(record));
+    return cloneIdempotencyRecord(record);
+  }
+
+  async findByKey(userId: UUID, key: string): Promise<IdempotencyRecord | null> {
+    for (const record of this.records.values()) {
+      if (record.userId === userId && record.key === key) {
+        return cloneIdempotencyRecord(record);
+      }
+    }
+    return null;
+  }
+
+  async delete(recordId: UUID): Promise<void> {
+    this.records.delete(recordId);
+  }
+
+  async deleteExpired(before: Date): Promise<number> {
+    let removed = 0;
+    for (const [id, record] of this.records) {
+      if (record.expiresAt.getTime() < before.getTime()) {
+        this.records.delete(id);
+        removed += 1;
+      }
+    }
+    return removed;
+  }
+}
+
+const cloneLedgerEntry = (entry: LedgerEntry): LedgerEntry => ({
+  ...entry,
+  lines: entry.lines.map((line) => ({ ...line })),
+  postedAt: new Date(entry.postedAt.getTime()),
+  createdAt: new Date(entry.createdAt.getTime()),
+});
+
+export class InMemoryLedgerRepository implements LedgerRepository {
+  private readonly entries: LedgerEntry[];
+
+  constructor(seed: LedgerEntry[] = []) {
+    this.entries = seed.map(cloneLedgerEntry);
+  }
+
+  async append(entry: LedgerEntry): Promise<LedgerEntry> {
+    this.insert(entry);
+    return cloneLedgerEntry(entry);
+  }
+
+  insert(entry: LedgerEntry): void {
+    validateLedgerEntry(entry);
+    if (this.entries.some((existing) => existing.id === entry.id)) {
+      throw new Error(`Ledger entry ${entry.id} already exists`);
+    }
+    this.entries.push(cloneLedgerEntry(entry));
+  }
+
+  async listByAccount(accountId: string, options: { asOf?: Date; limit: number }): Promise<LedgerEntry[]> {
+    return this.entriesFor(accountId, options.asOf)
+      .reverse()
+      .slice(0, options.limit)
+      .map(cloneLedgerEntry);
+  }
+
+  async totalsForAccount(accountId: string, asOf?: Date): Promise<{ debits: number; credits: number }> {
+    const totals = { debits: 0, credits: 0 };
+    for (const entry of this.entriesFor(accountId, asOf)) {
+      for (const line of entry.lines) {
+        if (line.accountId !== accountId) {
+          continue;
+        }
+        if (line.direction === 'debit') {
+          totals.debits += line.amount;
+        } else {
+          totals.credits += line.amount;
+        }
+      }
+    }
+    return totals;
+  }
+
+  private entriesFor(accountId: string, asOf?: Date): LedgerEntry[] {
+    return this.entries.filter(
+      (entry) =>
+        entry.lines.some((line) => line.accountId === accountId) &&
+        (!asOf || entry.postedAt.getTime() <= asOf.getTime()),
+    );
+  }
+}
+
+const cloneFundHold = (hold: FundHold): FundHold => ({
+  ...hold,
+  expiresAt: cloneDate(hold.expiresAt),
+  settledAt: cloneDate(hold.settledAt),
+  createdAt: new Date(hold.createdAt.getTime()),
+  updatedAt: new Date(hold.updatedAt.getTime()),
+});
+
+export class InMemoryFundHoldRepository implements FundHoldRepository {
+  private readonly holds = new Map<UUID, FundHold>();
+
+  async create(hold: FundHold): Promise<FundHold> {
+    if (this.holds.has(hold.id)) {
+      throw new Error(`Fund hold ${hold.id} already exists`);
+    }
+    this.upsert(hold);
+    return cloneFundHold(hold);
+  }
+
+  async update(hold: FundHold): Promise<FundHold> {
+    if (!this.holds.has(hold.id)) {
+      throw new Error(`Fund hold ${hold.id} not found`);
+    }
+    this.upsert(hold);
+    return cloneFundHold(hold);
+  }
+
+  upsert(hold: FundHold): void {
+    this.holds.set(hold.id, cloneFundHold(hold));
+  }
+
+  async findLatestByTransactionId(transactionId: UUID): Promise<FundHold | null> {
+    const matches = [...this.holds.values()].filter((hold) => hold.transactionId === transactionId);
+    const latest = matches.reduce<FundHold | null>(
+      (current, hold) => (!current || hold.createdAt.getTime() >= current.createdAt.getTime() ? hold : current),
+      null,
+    );
+    return latest ? cloneFundHold(latest) : null;
+  }
+
+  async listExpired(now: Date, options: { limit: number }): Promise<FundHold[]> {
+    return [...this.holds.values()]
+      .filter((hold) => hold.status === 'held' && hold.expiresAt !== null && hold.expiresAt.getTime() <= now.getTime())
+      .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime())
+      .slice(0, options.limit)
+      .map(cloneFundHold);
+  }
+}
+
+const cloneRefreshToken = (token: RefreshToken): RefreshToken => ({
+  ...token,
+  expiresAt: new Date(token.expiresAt.getTime()),
+  rotatedAt: cloneDate(token.rotatedAt),
+  revokedAt: cloneDate(token.revokedAt),
+  createdAt: new Date(token.createdAt.getTime()),
+  updatedAt: new Date(token.updatedAt.getTime()),
+});
+
+export class InMemoryRefreshTokenRepository implements RefreshTokenRepository {
+  private readonly tokens = new Map<UUID, RefreshToken>();
+
+  async create(token: RefreshToken): Promise<RefreshToken> {
+    if ([...this.tokens.values()].some((existing) => existing.tokenHash === token.tokenHash)) {
+      throw new Error('Refresh token already exists');
+    }
+    this.tokens.set(token.id, cloneRefreshToken(token));
+    return cloneRefreshToken(token);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<RefreshToken | null> {
+    const token = [...this.tokens.values()].find((candidate) => candidate.tokenHash === tokenHash);
+    return token ? cloneRefreshToken(token) : null;
+  }
+
+  async markRotated(tokenId: UUID, at: Date): Promise<boolean> {
+    const token = this.tokens.get(tokenId);
+    if (!token || token.rotatedAt) {
+      return false;
+    }
+    this.tokens.set(tokenId, { ...token, rotatedAt: new Date(at.getTime()), updatedAt: new Date(at.getTime()) });
+    return true;
+  }
+
+  async revokeFamily(familyId: UUID, at: Date): Promise<void> {
+    for (const token of this.tokens.values()) {
+      if (token.familyId === familyId && !token.revokedAt) {
+        this.tokens.set(token.id, { ...token, revokedAt: new Date(at.getTime()), updatedAt: new Date(at.getTime()) });
+      }
+    }
+  }
+}
+
+const cloneDeviceSession = (session: DeviceSession): DeviceSession => ({
+  ...session,
+  firstSeenAt: new Date(session.firstSeenAt.getTime()),
+  lastSeenAt: new Date(session.lastSeenAt.getTime()),
+  expiresAt: new Date(session.expiresAt.getTime()),
+  revokedAt: cloneDate(session.revokedAt),
+  createdAt: new Date(session.createdAt.getTime()),
+  updatedAt: new Date(session.updatedAt.getTime()),
+});
+
+export class InMemoryDeviceSessionRepository implements DeviceSessionRepository {
+  private readonly sessions = new Map<UUID, DeviceSession>();
+
+  async create(session: DeviceSession): Promise<DeviceSession> {
+    if (this.sessions.has(session.id)) {
+      throw new Error('Device session already exists');
+    }
+    this.sessions.set(session.id, cloneDeviceSession(session));
+    return cloneDeviceSession(session);
+  }
+
+  async update(session: DeviceSession): Promise<DeviceSession> {
+    if (!this.sessions.has(session.id)) {
+      throw new Error('Device session not found');
+    }
+    this.sessions.set(session.id, cloneDeviceSession(session));
+    return cloneDeviceSession(session);
+  }
+
+  async findById(sessionId: UUID): Promise<DeviceSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? cloneDeviceSession(session) : null;
+  }
+
+  async listByUser(userId: UUID): Promise<DeviceSession[]> {
+    return [...this.sessions.values()]
+      .filter((session) => session.userId === userId)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+      .map(cloneDeviceSession);
+  }
+}
+
+const clonePinRecovery = (recovery: PinRecovery): PinRecovery => ({
+  ...recovery,
+  expiresAt: new Date(recovery.expiresAt.getTime()),
+  effectiveAt: cloneDate(recovery.effectiveAt),
+  completedAt: cloneDate(recovery.completedAt),
+  cancelledAt: cloneDate(recovery.cancelledAt),
+  createdAt: new Date(recovery.createdAt.getTime()),
+  updatedAt: new Date(recovery.updatedAt.getTime()),
+});
+
+export class InMemoryPinRecoveryRepository implements PinRecoveryRepository {
+  private readonly recoveries = new Map<UUID, PinRecovery>();
+
+  async create(recovery: PinRecovery): Promise<PinRecovery> {
+    if (this.recoveries.has(recovery.id)) {
+      throw new Error('PIN recovery already exists');
+    }
+    this.recoveries.set(recovery.id, clonePinRecovery(recovery));
+    return clonePinRecovery(recovery);
+  }
+
+  async updateIfStatus(recovery: PinRecovery, expected: PinRecoveryStatus): Promise<PinRecovery | null> {
+    const stored = this.recoveries.get(recovery.id);
+    if (!stored) {
+      throw new Error('PIN recovery not found');
+    }
+    if (stored.status !== expected) {
+      return null;
+    }
+    const updated = { ...clonePinRecovery(recovery), identityAttempts: stored.identityAttempts };
+    this.recoveries.set(recovery.id, updated);
+    return clonePinRecovery(updated);
+  }
+
+  async findById(recoveryId: UUID): Promise<PinRecovery | null> {
+    const recovery = this.recoveries.get(recoveryId);
+    return recovery ? clonePinRecovery(recovery) : null;
+  }
+
+  async findLatestByUser(userId: UUID): Promise<PinRecovery | null> {
+    // Insertion order breaks ties between recoveries created in the same millisecond
+    const latest = [...this.recoveries.values()]
+      .filter((recovery) => recovery.userId === userId)
+      .reduce<PinRecovery | null>(
+        (current, recovery) => (!current || recovery.createdAt.getTime() >= current.createdAt.getTime() ? recovery : current),
+        null,
+      );
+    return latest ? clonePinRecovery(latest) : null;
+  }
+
+  async recordIdentityAttempt(
+    recoveryId: UUID,
+    options: { since: Date; maxAttempts: number; now: Date },
+  ): Promise<{ recovery: PinRecovery; attemptsInWindow: number } | null> {
+    const stored = this.recoveries.get(recoveryId);
+    if (!stored || stored.status !== 'verified') {
+      return null;
+    }
+
+    const attemptsInWindow = [...this.recoveries.values()]
+      .filter((recovery) => recovery.userId === stored.userId && recovery.createdAt.getTime() >= options.since.getTime())
+      .reduce((total, recovery) => total + recovery.identityAttempts, 0);
+    const updated: PinRecovery =
+      attemptsInWindow >= options.maxAttempts
+        ? { ...stored, status: 'failed', updatedAt: new Date(options.now.getTime()) }
+        : { ...stored, identityAttempts: stored.identityAttempts + 1, updatedAt: new Date(options.now.getTime()) };
+    this.recoveries.set(recoveryId, updated);
+    return {
+      recovery: clonePinRecovery(updated),
+      attemptsInWindow: updated.status === 'failed' ? attemptsInWindow : attemptsInWindow + 1,
+    };
+  }
+
+  async listDue(now: Date, options: { limit: number }): Promise<PinRecovery[]> {
+    return [...this.recoveries.values()]
+      .filter((recovery) => recovery.status === 'cooling_off' && recovery.effectiveAt && recovery.effectiveAt.getTime() <= now.getTime())
+      .sort((a, b) => a.effectiveAt!.getTime() - b.effectiveAt!.getTime())
+      .slice(0, options.limit)
+      .map(clonePinRecovery);
+  }
+}
+
+const cloneAccountClosure = (closure: AccountClosure): AccountClosure => ({
+  ...closure,
+  payoutTransactionIds: [...closure.payoutTransactionIds],
+  closedAt: new Date(closure.closedAt.getTime()),
+  anonymiseAfter: new Date(closure.anonymiseAfter.getTime()),
+  anonymisedAt: cloneDate(closure.anonymisedAt),
+  createdAt: new Date(closure.createdAt.getTime()),
+  updatedAt: new Date(closure.updatedAt.getTime()),
+});
+
+export class InMemoryAccountClosureRepository implements AccountClosureRepository {
+  private readonly closures = new Map<UUID, AccountClosure>();
+
+  async create(closure: AccountClosure): Promise<AccountClosure> {
+    if ([...this.closures.values()].some((existing) => existing.userId === closure.userId)) {
+      throw new Error('Account closure already exists');
+    }
+    this.closures.set(closure.id, cloneAccountClosure(closure));
+    return cloneAccountClosure(closure);
+  }
+
+  async update(closure: AccountClosure): Promise<AccountClosure> {
+    if (!this.closures.has(closure.id)) {
+      throw new Error('Account closure not found');
+    }
+    this.closures.set(closure.id, cloneAccountClosure(closure));
+    return cloneAccountClosure(closure);
+  }
+
+  async findByUserId(userId: UUID): Promise<AccountClosure | null> {
+    const closure = [...this.closures.values()].find((candidate) => candidate.userId === userId);
+    return closure ? cloneAccountClosure(closure) : null;
+  }
+
+  async listDue(now: Date, options: { limit: number }): Promise<AccountClosure[]> {
+    return [...this.closures.values()]
+      .filter((closure) => closure.status === 'closed' && closure.anonymiseAfter.getTime() <= now.getTime())
+      .sort((a, b) => a.anonymiseAfter.getTime() - b.anonymiseAfter.getTime())
+      .slice(0, options.limit)
+      .map(cloneAccountClosure);
+  }
+}
+
+const cloneAdminAuditEntry = (entry: AdminAuditEntry): AdminAuditEntry => ({
+  ...entry,
+  details: { ...entry.details },
+  createdAt: new Date(entry.createdAt.getTime()),
+});
+
+export class InMemoryAdminAuditLogRepository implements AdminAuditLogRepository {
+  private readonly entries: AdminAuditEntry[] = [];
+
+  async append(entry: AdminAuditEntry): Promise<AdminAuditEntry> {
+    this.entries.push(cloneAdminAuditEntry(entry));
+    return cloneAdminAuditEntry(entry);
+  }
+
+  async listByTarget(
+    targetType: AdminAuditTargetType,
+    targetId: UUID,
+    options: { limit: number },
+  ): Promise<AdminAuditEntry[]> {
+    return this.entries
+      .filter((entry) => entry.targetType === targetType && entry.targetId === targetId)
+      .reverse()
+      .slice(0, options.limit)
+      .map(cloneAdminAuditEntry);
+  }
+
+  /** Every entry in the order it was recorded. */
+  list(): AdminAuditEntry[] {
+    return this.entries.map(cloneAdminAuditEntry);
+  }
+}
+
+export class InMemoryDocumentStorage implements DocumentStorage {
+  private readonly files = new Map<string, Buffer>();
+
+  async put(path: string, content: Buffer): Promise<void> {
+    this.files.set(path, Buffer.from(content));
+  }
+
+  async get(path: string): Promise<Buffer | null> {
+    const content = this.files.get(path);
+    return content ? Buffer.from(content) : null;
+  }
+
+  async delete(path: string): Promise<void> {
+    this.files.delete(path);
+  }
+}
+
+const cloneKYCUploadAttempt = (attempt: KYCUploadAttempt): KYCUploadAttempt => ({
+  ...attempt,
+  lastAttemptAt: cloneDate(attempt.lastAttemptAt),
+  blockedUntil: cloneDate(attempt.blockedUntil),
+  updatedAt: new Date(attempt.updatedAt.getTime()),
+});
+
+export class InMemoryKYCUploadAttemptRepository implements KYCUploadAttemptRepository {
+  private readonly attempts = new Map<string, KYCUploadAttempt>();
+
+  async find(userId: UUID, documentType: KYCDocumentType): Promise<KYCUploadAttempt | null> {
+    const attempt = this.attempts.get(`${userId}:${documentType}`);
+    return attempt ? cloneKYCUploadAttempt(attempt) : null;
+  }
+
+  async listByUser(userId: UUID): Promise<KYCUploadAttempt[]> {
+    return [...this.attempts.values()].filter((attempt) => attempt.userId === userId).map(cloneKYCUploadAttempt);
+  }
+
+  async save(attempt: KYCUploadAttempt): Promise<KYCUploadAttempt> {
+    this.attempts.set(`${attempt.userId}:${attempt.documentType}`, cloneKYCUploadAttempt(attempt));
+    return cloneKYCUploadAttempt(attempt);
+  }
+}
+
+const cloneKYCReviewCase = (reviewCase: KYCReviewCase): KYCReviewCase => ({
+  ...reviewCase,
+  retryAt: new Date(reviewCase.retryAt.getTime()),
+  resolvedAt: cloneDate(reviewCase.resolvedAt),
+  createdAt: new Date(reviewCase.createdAt.getTime()),
+  updatedAt: new Date(reviewCase.updatedAt.getTime()),
+});
+
+export class InMemoryKYCReviewCaseRepository implements KYCReviewCaseRepository {
+  private readonly cases = new Map<UUID, KYCReviewCase>();
+
+  async create(reviewCase: KYCReviewCase): Promise<KYCReviewCase> {
+    if (reviewCase.status === 'open' && (await this.findOpen(reviewCase.userId, reviewCase.documentType))) {
+      throw new Error('An open KYC review case already exists');
+    }
+    this.cases.set(reviewCase.id, cloneKYCReviewCase(reviewCase));
+    return cloneKYCReviewCase(reviewCase);
+  }
+
+  async update(reviewCase: KYCReviewCase): Promise<KYCReviewCase> {
+    if (!this.cases.has(reviewCase.id)) {
+      throw new Error('KYC review case not found');
+    }
+    this.cases.set(reviewCase.id, cloneKYCReviewCase(reviewCase));
+    return cloneKYCReviewCase(reviewCase);
+  }
+
+  async findById(caseId: UUID): Promise<KYCReviewCase | null> {
+    const reviewCase = this.cases.get(caseId);
+    return reviewCase ? cloneKYCReviewCase(reviewCase) : null;
+  }
+
+  async findOpen(userId: UUID, documentType: KYCDocumentType): Promise<KYCReviewCase | null> {
+    const reviewCase = [...this.cases.values()].find(
+      (candidate) => candidate.userId === userId && candidate.documentType === documentType && candidate.status === 'open',
+    );
+    return reviewCase ? cloneKYCReviewCase(reviewCase) : null;
+  }
+
+  async listByStatus(status: KYCReviewCaseStatus, options: { limit: number; offset: number }): Promise<KYCReviewCase[]> {
+    return [...this.cases.values()]
+      .filter((reviewCase) => reviewCase.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(options.offset, options.offset + options.limit)
+      .map(cloneKYCReviewCase);
+  }
+}
+
+const cloneScreeningCase = (screeningCase: ScreeningCase): ScreeningCase => ({
+  ...screeningCase,
+  subjectDateOfBirth: cloneDate(screeningCase.subjectDateOfBirth),
+  payoutRecipient: screeningCase.payoutRecipient ? { ...screeningCase.payoutRecipient } : null,
+  matches: screeningCase.matches.map((match) => ({ ...match })),
+  resolvedAt: cloneDate(screeningCase.resolvedAt),
+  createdAt: new Date(screeningCase.createdAt.getTime()),
+  updatedAt: new Date(screeningCase.updatedAt.getTime()),
+});
+
+export class InMemoryScreeningCaseRepository implements ScreeningCaseRepository {
+  private readonly cases = new Map<UUID, ScreeningCase>();
+
+  async create(screeningCase: ScreeningCase): Promise<ScreeningCase> {
+    if (this.cases.has(screeningCase.id)) {
+      throw new Error('Screening case already exists');
+    }
+    this.cases.set(screeningCase.id, cloneScreeningCase(screeningCase));
+    return cloneScreeningCase(screeningCase);
+  }
+
+  async update(screeningCase: ScreeningCase): Promise<ScreeningCase> {
+    if (!this.cases.has(screeningCase.id)) {
+      throw new Error('Screening case not found');
+    }
+    this.cases.set(screeningCase.id, cloneScreeningCase(screeningCase));
+    return cloneScreeningCase(screeningCase);
+  }
+
+  async findById(caseId: UUID): Promise<ScreeningCase | null> {
+    const screeningCase = this.cases.get(caseId);
+    return screeningCase ? cloneScreeningCase(screeningCase) : null;
+  }
+
+  async listByUser(userId: UUID): Promise<ScreeningCase[]> {
+    return [...this.cases.values()]
+      .filter((screeningCase) => screeningCase.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(cloneScreeningCase);
+  }
+
+  async listByStatus(status: ScreeningCaseStatus, options: { limit: number; offset: number }): Promise<ScreeningCase[]> {
+    return [...this.cases.values()]
+      .filter((screeningCase) => screeningCase.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(options.offset, options.offset + options.limit)
+      .map(cloneScreeningCase);
+  }
+}
+
+const cloneAmlAlert = (alert: AmlAlert): AmlAlert => ({
+  ...alert,
+  transactions: alert.transactions.map((transaction) => ({ ...transaction, occurredAt: new Date(transaction.occurredAt.getTime()) })),
+  details: { ...alert.details },
+  resolvedAt: cloneDate(alert.resolvedAt),
+  createdAt: new Date(alert.createdAt.getTime()),
+  updatedAt: new Date(alert.updatedAt.getTime()),
+});
+
+export class InMemoryAmlAlertRepository implements AmlAlertRepository {
+  private readonly alerts = new Map<UUID, AmlAlert>();
+
+  async create(alert: AmlAlert): Promise<AmlAlert> {
+    if (this.alerts.has(alert.id)) {
+      throw new Error('AML alert already exists');
+    }
+    // Mirrors the unique index on open alerts per user and rule
+    const open = [...this.alerts.values()].some(
+      (existing) => existing.userId === alert.userId && existing.ruleId === alert.ruleId && existing.status === 'open',
+    );
+    if (alert.status === 'open' && open) {
+      throw new ConcurrencyError(`User ${alert.userId} already has an open ${alert.ruleId} alert`);
+    }
+    this.alerts.set(alert.id, cloneAmlAlert(alert));
+    return cloneAmlAlert(alert);
+  }
+
+  async update(alert: AmlAlert): Promise<AmlAlert> {
+    if (!this.alerts.has(alert.id)) {
+      throw new Error('AML alert not found');
+    }
+    this.alerts.set(alert.id, cloneAmlAlert(alert));
+    return cloneAmlAlert(alert);
+  }
+
+  async updateIfUnchanged(alert: AmlAlert, expectedUpdatedAt: Date): Promise<AmlAlert> {
+    const stored = this.alerts.get(alert.id);
+    if (!stored) {
+      throw new Error('AML alert not found');
+    }
+    if (stored.updatedAt.getTime() !== expectedUpdatedAt.getTime()) {
+      throw new ConcurrencyError(`AML alert ${alert.id} changed since it was read`);
+    }
+    this.alerts.set(alert.id, cloneAmlAlert(alert));
+    return cloneAmlAlert(alert);
+  }
+
+  async findById(alertId: UUID): Promise<AmlAlert | null> {
+    const alert = this.alerts.get(alertId);
+    return alert ? cloneAmlAlert(alert) : null;
+  }
+
+  async listByUser(userId: UUID): Promise<AmlAlert[]> {
+    return [...this.alerts.values()]
+      .filter((alert) => alert.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(cloneAmlAlert);
+  }
+
+  async listByStatus(status: AmlAlertStatus, options: { limit: number; offset: number }): Promise<AmlAlert[]> {
+    return [...this.alerts.values()]
+      .filter((alert) => alert.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(options.offset, options.offset + options.limit)
+      .map(cloneAmlAlert);
+  }
+}
+
+export class InMemoryAmlScanCursorRepository implements AmlScanCursorRepository {
+  private cursor: TransactionCursor | null = null;
+
+  async find(): Promise<TransactionCursor | null> {
+    return this.cursor ? { updatedAt: new Date(this.cursor.updatedAt.getTime()), id: this.cursor.id } : null;
+  }
+
+  async save(cursor: TransactionCursor): Promise<void> {
+    this.cursor = { updatedAt: new Date(cursor.updatedAt.getTime()), id: cursor.id };
+  }
+}
+
+const cloneStepUpChallenge = (challenge: StepUpChallenge): StepUpChallenge => ({
+  ...challenge,
+  reasons: [...challenge.reasons],
+  methods: [...challenge.methods],
+  expiresAt: new Date(challenge.expiresAt.getTime()),
+  verifiedAt: cloneDate(challenge.verifiedAt),
+  consumedAt: cloneDate(challenge.consumedAt),
+  createdAt: new Date(challenge.createdAt.getTime()),
+  updatedAt: new Date(challenge.updatedAt.getTime()),
+});
+
+export class InMemoryStepUpChallengeRepository implements StepUpChallengeRepository {
+  private readonly challenges = new Map<UUID, StepUpChallenge>();
+
+  async create(challenge: StepUpChallenge): Promise<StepUpChallenge> {
+    if (this.challenges.has(challenge.id)) {
+      throw new Error('Step-up challenge already exists');
+    }
+    this.challenges.set(challenge.id, cloneStepUpChallenge(challenge));
+    return cloneStepUpChallenge(challenge);
+  }
+
+  async update(challenge: StepUpChallenge): Promise<StepUpChallenge> {
+    if (!this.challenges.has(challenge.id)) {
+      throw new Error('Step-up challenge not found');
+    }
+    this.challenges.set(challenge.id, cloneStepUpChallenge(challenge));
+    return cloneStepUpChallenge(challenge);
+  }
+
+  async findById(challengeId: UUID): Promise<StepUpChallenge | null> {
+    const challenge = this.challenges.get(challengeId);
+    return challenge ? cloneStepUpChallenge(challenge) : null;
+  }
+}
+
+/**
+ * Applies a unit of work's writes without yielding to the event loop, so no other request can
+ * interleave with a commit. Wallet versions are checked before anything is written.
+ */
+export class InMemoryUnitOfWorkCommitter implements UnitOfWorkCommitter {
+  constructor(
+    private readonly stores: {
+      wallets: { versionOf(walletId: UUID): number | null; upsert(wallet: Wallet): void };
+      transactions: { statusOf(transactionId: UUID): TransactionStatus | null; upsert(transaction: Transaction): void };
+      ledger: { insert(entry: LedgerEntry): void };
+      holds: { upsert(hold: FundHold): void };
+    },
+  ) {}
+
+  async commit(changes: UnitOfWorkChanges): Promise<void> {
+    for (const { wallet, expectedVersion } of changes.wallets) {
+      if (this.stores.wallets.versionOf(wallet.id) !== expectedVersion) {
+        throw new ConcurrencyError(`Wallet ${wallet.id} changed since version ${expectedVersion} was read`);
+      }
+    }
+    for (const { transaction, expectedStatus } of changes.transactions) {
+      const status = this.stores.transactions.statusOf(transaction.id);
+      if (expectedStatus !== null && status !== expectedStatus) {
+        throw new ConcurrencyError(`Transaction ${transaction.id} is ${status} but was read as ${expectedStatus}`);
+      }
+    }
+    changes.ledgerEntries.forEach(validateLedgerEntry);
+
+    changes.wallets.forEach(({ wallet }) => this.stores.wallets.upsert(wallet));
+    changes.transactions.forEach(({ transaction }) => this.stores.transactions.upsert(transaction));
+    changes.ledgerEntries.forEach((entry) => this.stores.ledger.insert(entry));
+    changes.fundHolds.forEach(({ hold }) => this.stores.holds.upsert(hold));
+  }
+}
+
+const cloneReconciliationReport = (report: ReconciliationReport): ReconciliationReport => ({
+  ...report,
+  mismatches: report.mismatches.map((entry) => ({ ...entry, detectedAt: new Date(entry.detectedAt.getTime()) })),
+  createdAt: new Date(report.createdAt.getTime()),
+  updatedAt: new Date(report.updatedAt.getTime()),
+});
 
-  async enqueue(job: { id: string; runAt: Date; payload: Record<string, unknown> }): Promise<void> {
-    this.jobs.push({ ...job, runAt: new Date(job.runAt.getTime()) });
+export class InMemoryReconciliationReportRepository implements ReconciliationReportRepository {
+  private readonly reports = new Map<string, ReconciliationReport>();
+
+  async findByDate(reportDate: string): Promise<ReconciliationReport | null> {
+    const report = this.reports.get(reportDate);
+    return report ? cloneReconciliationReport(report) : null;
   }
 
-  list(): Array<{ id: string; runAt: Date; payload: Record<string, unknown> }> {
-    return this.jobs.map((job) => ({ ...job, runAt: new Date(job.runAt.getTime()), payload: { ...job.payload } }));
+  async save(report: ReconciliationReport): Promise<ReconciliationReport> {
+    validateReconciliationReport(report);
+    this.reports.set(report.reportDate, cloneReconciliationReport(report));
+    return cloneReconciliationReport(report);
+  }
+}
+
+const DEFAULT_RETRY_MAX_ATTEMPTS = 5;
+
+const cloneRetryJob = (job: RetryJob): RetryJob => ({
+  ...job,
+  runAt: new Date(job.runAt.getTime()),
+  payload: { ...job.payload },
+  lockedUntil: job.lockedUntil ? new Date(job.lockedUntil.getTime()) : null,
+  createdAt: new Date(job.createdAt.getTime()),
+  updatedAt: new Date(job.updatedAt.getTime()),
+});
+
+export class InMemoryRetryQueue implements RetryQueue {
+  private readonly jobs = new Map<string, RetryJob>();
+
+  async enqueue(job: { id: string; runAt: Date; payload: Record<string, unknown>; maxAttempts?: number }): Promise<void> {
+    const now = new Date();
+    this.jobs.set(job.id, {
+      id: job.id,
+      runAt: new Date(job.runAt.getTime()),
+      payload: { ...job.payload },
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: job.maxAttempts ?? DEFAULT_RETRY_MAX_ATTEMPTS,
+      lockedBy: null,
+      lockedUntil: null,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  async claimDue(options: { workerId: string; now: Date; leaseMs: number; limit: number }): Promise<RetryJob[]> {
+    const nowMs = options.now.getTime();
+    const due = [...this.jobs.values()]
+      .filter(
+        (job) =>
+          (job.status === 'pending' && job.runAt.getTime() <= nowMs) ||
+          (job.status === 'running' && job.lockedUntil !== null && job.lockedUntil.getTime() < nowMs),
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, options.limit);
+
+    return due.map((job) => {
+      job.status = 'running';
+      job.attempts += 1;
+      job.lockedBy = options.workerId;
+      job.lockedUntil = new Date(nowMs + options.leaseMs);
+      job.updatedAt = new Date(options.now.getTime());
+      return cloneRetryJob(job);
+    });
+  }
+
+  async complete(jobId: string, workerId: string): Promise<void> {
+    this.release(jobId, workerId, { status: 'completed' });
+  }
+
+  async reschedule(jobId: string, workerId: string, options: { runAt: Date; error: string }): Promise<void> {
+    this.release(jobId, workerId, {
+      status: 'pending',
+      runAt: new Date(options.runAt.getTime()),
+      lastError: options.error,
+    });
+  }
+
+  async deadLetter(jobId: string, workerId: string, options: { error: string }): Promise<void> {
+    this.release(jobId, workerId, { status: 'dead', lastError: options.error });
+  }
+
+  list(): RetryJob[] {
+    return [...this.jobs.values()].map(cloneRetryJob);
+  }
+
+  private release(jobId: string, workerId: string, changes: Partial<RetryJob>): void {
+    const job = this.jobs.get(jobId);
+    // A worker whose lease expired and was taken over must not overwrite the new owner's result
+    if (!job || job.lockedBy !== workerId) {
+      return;
+    }
+    Object.assign(job, changes, { lockedBy: null, lockedUntil: null, updatedAt: new Date() });
   }
 }
 
 export class InMemoryPaystackClient implements PaystackClient {
+  private readonly chargeAmounts = new Map<string, { amount: number; currency: string }>();
+
   async initializeTransaction(payload: {
     email: string;
     amount: number;
@@ -554,6 +1588,7 @@ export class InMemoryPaystackClient implements PaystackClient {
     expiresAt?: Date | undefined;
     raw: Record<string, unknown>;
   }> {
+    this.chargeAmounts.set(payload.reference, { amount: payload.amount, currency: payload.currency });
     return {
       authorizationUrl: `https://checkout.paystack.com/${payload.reference}`,
       accessCode: `access_${payload.reference}`,
@@ -577,10 +1612,11 @@ export class InMemoryPaystackClient implements PaystackClient {
     metadata?: Record<string, unknown> | undefined;
     raw: Record<string, unknown>;
   }> {
+    const charge = this.chargeAmounts.get(reference);
     return {
       status: 'success',
-      amount: 0,
-      currency: 'KES',
+      amount: charge?.amount ?? 0,
+      currency: charge?.currency ?? 'KES',
       paidAt: new Date(),
       channel: 'mobile_money',
       fees: 0,
@@ -643,9 +1679,11 @@ export class InMemoryPaystackClient implements PaystackClient {
 
 interface InMemoryContainerOptions {
   logger: Logger;
+  /** Replaces the always-successful Paystack stub, e.g. with a fake that scripts outcomes in tests. */
+  paystackClient?: PaystackClient;
 }
 
-export function createInMemoryAppContainer({ logger }: InMemoryContainerOptions) {
+export function createInMemoryAppContainer({ logger, ...overrides }: InMemoryContainerOptions) {
   const notificationService: NotificationService = new ConsoleNotificationService();
   const smtpHost = process.env.SMTP_HOST;
   const smtpUser = process.env.SMTP_USER;
@@ -664,12 +1702,26 @@ export function createInMemoryAppContainer({ logger }: InMemoryContainerOptions)
         fromAddress: smtpFrom,
       })
     : new ConsoleOtpSender();
-  const tokenService: TokenService = new RandomTokenService();
-  const pinHasher: PinHasher = new CryptoPinHasher();
+  const tokenConfig = loadTokenConfig({ requireSecret: false });
+  const refreshTokenRepository = new InMemoryRefreshTokenRepository();
+  const deviceSessionRepository = new InMemoryDeviceSessionRepository();
+  const pinRecoveryRepository = new InMemoryPinRecoveryRepository();
+  const stepUpChallengeRepository = new InMemoryStepUpChallengeRepository();
+  const accountClosureRepository = new InMemoryAccountClosureRepository();
+  const adminAuditLogRepository = new InMemoryAdminAuditLogRepository();
+  const tokenService: TokenService = new SignedTokenService({ ...tokenConfig, refreshTokenRepository, logger });
+  const sessionService = new SessionService({
+    deviceSessionRepository,
+    refreshTokenRepository,
+    notificationService,
+    sessionTtlSeconds: tokenConfig.refreshTokenTtlSeconds,
+    logger,
+  });
+  const pinHasher: PinHasher = new CryptoPinHasher({ pepper: loadPinHashPepper({ requirePepper: false }) });
   const pinTokenService: PinTokenService = new InMemoryPinTokenService();
   const rateLimiter: RateLimiter = new InMemoryRateLimiter();
   const retryQueue: RetryQueue = new InMemoryRetryQueue();
-  const paystackClient: PaystackClient = new InMemoryPaystackClient();
+  const paystackClient: PaystackClient = overrides.paystackClient ?? new InMemoryPaystackClient();
   const identityProvider: IdentityProvider = new InMemoryIdentityProvider();
 
   const demoUserId = randomUUID();
@@ -714,7 +1766,22 @@ export function createInMemoryAppContainer({ logger }: InMemoryContainerOptions)
   const savingsGoalRepository = new InMemorySavingsGoalRepository();
   const roundUpRuleRepository = new InMemoryRoundUpRuleRepository([roundUpRule]);
   const kycDocumentRepository = new InMemoryKYCDocumentRepository();
+  const kycUploadAttemptRepository = new InMemoryKYCUploadAttemptRepository();
+  const kycReviewCaseRepository = new InMemoryKYCReviewCaseRepository();
+  const screeningCaseRepository = new InMemoryScreeningCaseRepository();
+  const amlAlertRepository = new InMemoryAmlAlertRepository();
+  const amlScanCursorRepository = new InMemoryAmlScanCursorRepository();
   const authSessionRepository = new InMemoryAuthSessionRepository();
+  const webhookEventRepository = new InMemoryWebhookEventRepository();
+  const reconciliationReportRepository = new InMemoryReconciliationReportRepository();
+  const idempotencyKeyRepository = new InMemoryIdempotencyKeyRepository();
+  const fundHoldRepository = new InMemoryFundHoldRepository();
+  // The demo wallets start funded, so their balances enter the ledger as opening balances
+  const ledgerRepository = new InMemoryLedgerRepository(
+    [mainWallet, savingsWallet].map((wallet) =>
+      createOpeningBalanceEntry({ id: randomUUID(), walletId: wallet.id, amount: wallet.balance }),
+    ),
+  );
   const savingsInvestmentPreferenceRepository = new InMemorySavingsInvestmentPreferenceRepository();
   const savingsInvestmentPositionRepository = new InMemorySavingsInvestmentPositionRepository();
 
@@ -723,20 +1790,71 @@ export function createInMemoryAppContainer({ logger }: InMemoryContainerOptions)
     authSessionRepository,
     otpSender,
     tokenService,
+    sessionService,
     pinHasher,
     pinTokenService,
     rateLimiter,
     logger,
   });
 
+  // An empty watchlist unless one is configured, so local sign-ups are not held
+  const screeningConfig = loadScreeningConfig({ requireWatchlist: false });
+  const screeningService = new ScreeningService({
+    watchlist: screeningConfig.watchlist,
+    caseRepository: screeningCaseRepository,
+    userRepository,
+    nameMatchThreshold: screeningConfig.nameMatchThreshold,
+    logger,
+  });
+  const amlMonitoringService = new AmlMonitoringService({
+    rules: loadAmlRules(),
+    alertRepository: amlAlertRepository,
+    cursorRepository: amlScanCursorRepository,
+    transactionRepository,
+    userRepository,
+    logger,
+  });
+
   const registrationService = new RegistrationService({
     userRepository,
     identityProvider,
     authService,
+    screeningService,
   });
 
-  const walletService = new WalletService({ walletRepository, logger });
-  const transactionService = new TransactionService({ transactionRepository, logger });
+  const pinRecoveryService = new PinRecoveryService({
+    authService,
+    userRepository,
+    kycDocumentRepository,
+    pinRecoveryRepository,
+    pinHasher,
+    notificationService,
+    logger,
+  });
+  const stepUpService = new StepUpService({
+    authService,
+    userRepository,
+    stepUpChallengeRepository,
+    logger,
+  });
+
+  const ledgerService = new LedgerService({ ledgerRepository, logger });
+  const unitOfWork = new BufferedUnitOfWork({
+    walletRepository,
+    transactionRepository,
+    ledgerRepository,
+    fundHoldRepository,
+    committer: new InMemoryUnitOfWorkCommitter({
+      wallets: walletRepository,
+      transactions: transactionRepository,
+      ledger: ledgerRepository,
+      holds: fundHoldRepository,
+    }),
+    logger,
+  });
+  const walletService = new WalletService({ walletRepository, fundHoldRepository, ledgerService, unitOfWork, logger });
+  const limitService = new LimitService({ userRepository, walletRepository, transactionRepository, logger });
+  const transactionService = new TransactionService({ transactionRepository, limitService, logger });
   const paymentService = new PaymentService({
     transactionService,
     transactionRepository,
@@ -744,6 +1862,41 @@ export function createInMemoryAppContainer({ logger }: InMemoryContainerOptions)
     paystackClient,
     roundUpRuleRepository,
     retryQueue,
+    unitOfWork,
+    stepUpService,
+    stepUpPolicy: loadStepUpPolicy(),
+    screeningService,
+    logger,
+  });
+  const settlementService = new PaymentSettlementService({
+    transactionRepository,
+    transactionService,
+    walletService,
+    ledgerService,
+    unitOfWork,
+    notificationService,
+    logger,
+  });
+  const refundService = new RefundService({
+    transactionRepository,
+    transactionService,
+    walletService,
+    notificationService,
+    unitOfWork,
+    logger,
+  });
+  const retryWorker = new RetryWorker({
+    retryQueue,
+    transactionRepository,
+    paystackClient,
+    settlementService,
+    logger,
+  });
+  const reconciliationService = new ReconciliationService({
+    transactionRepository,
+    paystackClient,
+    settlementService,
+    reportRepository: reconciliationReportRepository,
     logger,
   });
   const savingsGoalService = new SavingsGoalService({ repository: savingsGoalRepository, notificationService, logger });
@@ -756,7 +1909,60 @@ export function createInMemoryAppContainer({ logger }: InMemoryContainerOptions)
   });
   const autoAnalyzeService = new AutoAnalyzeService({ transactionRepository, roundUpRuleRepository, logger });
   const categorizationService = new CategorizationService({ transactionRepository, logger });
-  const kycService = new KYCService({ repository: kycDocumentRepository, notificationService, logger });
+  // Files are kept in memory like everything else here, encrypted with a per-process key unless one is configured
+  const documentStorageConfig = loadDocumentStorageConfig({ requireSecrets: false });
+  const documentUrls = new SignedDocumentUrls({
+    secret: documentStorageConfig.urlSecret,
+    baseUrl: documentStorageConfig.publicBaseUrl,
+  });
+  const documentVault = new KYCDocumentVault({ storage: new InMemoryDocumentStorage(), masterKey: documentStorageConfig.masterKey });
+  const kycService = new KYCService({
+    repository: kycDocumentRepository,
+    uploadAttemptRepository: kycUploadAttemptRepository,
+    reviewCaseRepository: kycReviewCaseRepository,
+    userRepository,
+    documentVault,
+    notificationService,
+    verificationProvider: new FakeKYCVerificationProvider(),
+    screeningService,
+    logger,
+  });
+  const feeService = new FeeService({ schedule: loadFeeSchedule(), logger });
+  const accountService = new AccountService({
+    userRepository,
+    walletRepository,
+    transactionRepository,
+    savingsGoalRepository,
+    roundUpRuleRepository,
+    positionRepository: savingsInvestmentPositionRepository,
+    preferenceRepository: savingsInvestmentPreferenceRepository,
+    kycDocumentRepository,
+    accountClosureRepository,
+    documentVault,
+    walletService,
+    transactionService,
+    paymentService,
+    settlementService,
+    sessionService,
+    notificationService,
+    unitOfWork,
+    retentionDays: loadAccountRetentionDays(),
+    logger,
+  });
+  const adminService = new AdminService({
+    userRepository,
+    walletRepository,
+    transactionRepository,
+    kycDocumentRepository,
+    kycReviewCaseRepository,
+    auditLogRepository: adminAuditLogRepository,
+    kycService,
+    screeningService,
+    paymentService,
+    amlMonitoringService,
+    sessionService,
+    logger,
+  });
 
   const authRoutes = createAuthRoutes({ authService, registrationService });
   const userRoutes = createUserRoutes({ userRepository, logger });
@@ -765,12 +1971,17 @@ export function createInMemoryAppContainer({ logger }: InMemoryContainerOptions)
     transactionService,
     authService,
     savingsInvestmentService,
+    feeService,
+    unitOfWork,
     logger,
   });
   const paymentRoutes = createPaymentRoutes({
     paymentService,
+    settlementService,
     authService,
     walletService,
+    feeService,
+    limitService,
     userRepository,
     transactionRepository,
     roundUpRuleRepository,
@@ -784,14 +1995,24 @@ export function createInMemoryAppContainer({ logger }: InMemoryContainerOptions)
     autoAnalyzeService,
     logger,
   });
-  const kycRoutes = createKYCRoutes({ kycService, logger });
+  const kycRoutes = createKYCRoutes({ kycService, documentUrls, logger });
   const transactionRoutes = createTransactionRoutes({
     transactionService,
     categorizationService,
     transactionRepository,
     logger,
   });
-  const webhookRoutes = createWebhookRoutes({ logger });
+  const webhookRoutes = createWebhookRoutes({ settlementService, refundService, webhookEventRepository, logger });
+  const reconciliationRoutes = createReconciliationRoutes({ reconciliationService, logger });
+  const refundRoutes = createRefundRoutes({ refundService, logger });
+  const ledgerRoutes = createLedgerRoutes({ ledgerService, walletRepository });
+  const feeRoutes = createFeeRoutes({ feeService });
+  const limitRoutes = createLimitRoutes({ limitService });
+  const sessionRoutes = createSessionRoutes({ sessionService });
+  const pinRecoveryRoutes = createPinRecoveryRoutes({ pinRecoveryService });
+  const stepUpRoutes = createStepUpRoutes({ stepUpService });
+  const accountRoutes = createAccountRoutes({ accountService, authService });
+  const adminRoutes = createAdminRoutes({ adminService });
 
   return {
     seedUser: {
@@ -805,24 +2026,56 @@ export function createInMemoryAppContainer({ logger }: InMemoryContainerOptions)
       savingsGoalRepository,
       roundUpRuleRepository,
       kycDocumentRepository,
+      kycUploadAttemptRepository,
+      kycReviewCaseRepository,
+      screeningCaseRepository,
+      amlAlertRepository,
       authSessionRepository,
       savingsInvestmentPreferenceRepository,
       savingsInvestmentPositionRepository,
+      webhookEventRepository,
+      reconciliationReportRepository,
+      idempotencyKeyRepository,
+      ledgerRepository,
+      fundHoldRepository,
+      refreshTokenRepository,
+      deviceSessionRepository,
+      pinRecoveryRepository,
+      stepUpChallengeRepository,
+      accountClosureRepository,
+      adminAuditLogRepository,
     },
     services: {
       authService,
+      tokenService,
+      sessionService,
+      pinRecoveryService,
+      stepUpService,
       registrationService,
+      ledgerService,
       walletService,
       transactionService,
       paymentService,
+      settlementService,
+      refundService,
+      retryWorker,
+      reconciliationService,
       savingsGoalService,
       autoAnalyzeService,
       categorizationService,
       kycService,
+      screeningService,
+      amlMonitoringService,
       savingsInvestmentService,
+      feeService,
+      limitService,
+      accountService,
+      adminService,
     },
     routes: {
       auth: authRoutes,
+      pinRecovery: pinRecoveryRoutes,
+      stepUp: stepUpRoutes,
       users: userRoutes,
       wallets: walletRoutes,
       payments: paymentRoutes,
@@ -832,6 +2085,14 @@ export function createInMemoryAppContainer({ logger }: InMemoryContainerOptions)
       kyc: kycRoutes,
       transactions: transactionRoutes,
       webhooks: webhookRoutes,
+      reconciliation: reconciliationRoutes,
+      refunds: refundRoutes,
+      ledger: ledgerRoutes,
+      fees: feeRoutes,
+      limits: limitRoutes,
+      sessions: sessionRoutes,
+      account: accountRoutes,
+      admin: adminRoutes,
     },
   };
 }
@@ -0,0 +1,117 @@
+/**
+ * AccountClosure records a user closing their account. The user is blocked from signing in as soon
+ * as the account closes; their personal data is kept for the regulatory retention period and then
+ * anonymised, while the financial records themselves stay for the ledger and audits.
+ */
+
+import { UUID, TimestampedEntity, assert } from './base';
+
+/**
+ * - closed: the account is closed and personal data is retained until anonymiseAfter
+ * - anonymised: the retention period is over and personal data was scrubbed
+ */
+export type AccountClosureStatus = 'closed' | 'anonymised';
+
+export interface AccountClosure extends TimestampedEntity {
+  id: UUID;
+  userId: UUID;
+  status: AccountClosureStatus;
+  reason: string | null;
+  /** Withdrawals that paid the remaining balances out when the account closed. */
+  payoutTransactionIds: UUID[];
+  closedAt: Date;
+  anonymiseAfter: Date;
+  anonymisedAt: Date | null;
+}
+
+export interface AccountClosureRow {
+  id: string;
+  user_id: string;
+  status: AccountClosureStatus;
+  reason?: string | null;
+  payout_transaction_ids: string[];
+  closed_at: string;
+  anonymise_after: string;
+  anonymised_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAX_CLOSURE_REASON_LENGTH = 500;
+/** Personal data of closed accounts is kept seven years, the record-keeping period for payment providers. */
+export const DEFAULT_DATA_RETENTION_DAYS = 7 * 365;
+
+export function createAccountClosure(input: {
+  id: UUID;
+  userId: UUID;
+  reason?: string | null;
+  payoutTransactionIds?: UUID[];
+  anonymiseAfter: Date;
+  now?: Date;
+}): AccountClosure {
+  const now = input.now ?? new Date();
+  const closure: AccountClosure = {
+    id: input.id,
+    userId: input.userId,
+    status: 'closed',
+    reason: input.reason?.trim() || null,
+    payoutTransactionIds: [...(input.payoutTransactionIds ?? [])],
+    closedAt: now,
+    anonymiseAfter: input.anonymiseAfter,
+    anonymisedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  validateAccountClosure(closure);
+  return closure;
+}
+
+export function validateAccountClosure(closure: AccountClosure): void {
+  assert(
+    !closure.reason || closure.reason.length <= MAX_CLOSURE_REASON_LENGTH,
+    `Closure reason must be at most ${MAX_CLOSURE_REASON_LENGTH} characters`,
+  );
+  assert(closure.anonymiseAfter.getTime() >= closure.closedAt.getTime(), 'Anonymisation cannot be due before the account closed');
+  if (closure.status === 'anonymised') {
+    assert(closure.anonymisedAt !== null, 'An anonymised account needs the time it was anonymised');
+  }
+}
+
+/** Whether the retention period is over and the user's personal data is due to be anonymised. */
+export function isAnonymisationDue(closure: AccountClosure, now: Date): boolean {
+  return closure.status === 'closed' && closure.anonymiseAfter.getTime() <= now.getTime();
+}
+
+export function fromRow(row: AccountClosureRow): AccountClosure {
+  const closure: AccountClosure = {
+    id: row.id,
+    userId: row.user_id,
+    status: row.status,
+    reason: row.reason ?? null,
+    payoutTransactionIds: row.payout_transaction_ids ?? [],
+    closedAt: new Date(row.closed_at),
+    anonymiseAfter: new Date(row.anonymise_after),
+    anonymisedAt: row.anonymised_at ? new Date(row.anonymised_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validateAccountClosure(closure);
+  return closure;
+}
+
+export function toRow(closure: AccountClosure): AccountClosureRow {
+  validateAccountClosure(closure);
+  return {
+    id: closure.id,
+    user_id: closure.userId,
+    status: closure.status,
+    reason: closure.reason,
+    payout_transaction_ids: [...closure.payoutTransactionIds],
+    closed_at: closure.closedAt.toISOString(),
+    anonymise_after: closure.anonymiseAfter.toISOString(),
+    anonymised_at: closure.anonymisedAt ? closure.anonymisedAt.toISOString() : null,
+    created_at: closure.createdAt.toISOString(),
+    updated_at: closure.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * AdminAuditEntry records one back-office action: which admin did what to which document, case or user,
+ * and why. Entries are append-only so the trail cannot be rewritten after the fact.
+ */
+
+import { UUID, assert } from './base';
+
+export type AdminAuditAction =
+  | 'aml_alert_cleared'
+  | 'aml_alert_confirmed'
+  | 'kyc_document_approved'
+  | 'kyc_document_rejected'
+  | 'kyc_extracted_data_updated'
+  | 'kyc_review_case_resolved'
+  | 'screening_case_cleared'
+  | 'screening_case_confirmed'
+  | 'user_kyc_status_changed'
+  | 'user_suspended'
+  | 'user_reactivated'
+  | 'users_searched'
+  | 'user_viewed';
+
+export type AdminAuditTargetType = 'aml_alert' | 'kyc_document' | 'kyc_review_case' | 'screening_case' | 'user';
+
+export interface AdminAuditEntry {
+  id: UUID;
+  adminId: string;
+  action: AdminAuditAction;
+  targetType: AdminAuditTargetType;
+  /** Null for actions that do not touch a single record, such as a user search. */
+  targetId: UUID | null;
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface AdminAuditEntryRow {
+  id: string;
+  admin_id: string;
+  action: AdminAuditAction;
+  target_type: AdminAuditTargetType;
+  target_id?: string | null;
+  details?: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export function createAdminAuditEntry(input: {
+  id: UUID;
+  adminId: string;
+  action: AdminAuditAction;
+  targetType: AdminAuditTargetType;
+  targetId?: UUID | null;
+  details?: Record<string, unknown>;
+  now?: Date;
+}): AdminAuditEntry {
+  const entry: AdminAuditEntry = {
+    id: input.id,
+    adminId: input.adminId,
+    action: input.action,
+    targetType: input.targetType,
+    targetId: input.targetId ?? null,
+    details: { ...(input.details ?? {}) },
+    createdAt: input.now ?? new Date(),
+  };
+
+  validateAdminAuditEntry(entry);
+  return entry;
+}
+
+export function validateAdminAuditEntry(entry: AdminAuditEntry): void {
+  assert(entry.adminId.trim().length > 0, 'Audit entries need the acting admin');
+  if (entry.action !== 'users_searched') {
+    assert(entry.targetId !== null, 'Audit entries for a single record need its id');
+  }
+}
+
+export function fromRow(row: AdminAuditEntryRow): AdminAuditEntry {
+  const entry: AdminAuditEntry = {
+    id: row.id,
+    adminId: row.admin_id,
+    action: row.action,
+    targetType: row.target_type,
+    targetId: row.target_id ?? null,
+    details: row.details ?? {},
+    createdAt: new Date(row.created_at),
+  };
+  validateAdminAuditEntry(entry);
+  return entry;
+}
+
+export function toRow(entry: AdminAuditEntry): AdminAuditEntryRow {
+  validateAdminAuditEntry(entry);
+  return {
+    id: entry.id,
+    admin_id: entry.adminId,
+    action: entry.action,
+    target_type: entry.targetType,
+    target_id: entry.targetId,
+    details: entry.details,
+    created_at: entry.createdAt.toISOString(),
+  };
+}
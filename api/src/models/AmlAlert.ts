@@ -0,0 +1,161 @@
+/**
+ * AmlAlert records a transaction monitoring rule hit for an admin to rule on, with the transactions
+ * that set it off. A high-severity alert freezes the user's outgoing transfers as it is raised;
+ * clearing it as a false positive lifts the freeze, confirming it keeps the freeze in place.
+ */
+
+import { UUID, TimestampedEntity, assert } from './base';
+import { AmlRuleKind, AmlSeverity } from './AmlRule';
+import { TransactionType } from './Transaction';
+
+export type AmlAlertStatus = 'open' | 'cleared' | 'confirmed';
+
+export type AmlDecision = 'clear' | 'confirm';
+
+/** What the rule saw of a transaction when it fired. */
+export interface AmlEvidenceTransaction {
+  id: UUID;
+  type: TransactionType;
+  amount: number;
+  occurredAt: Date;
+}
+
+export interface AmlAlert extends TimestampedEntity {
+  id: UUID;
+  userId: UUID;
+  ruleId: string;
+  ruleKind: AmlRuleKind;
+  severity: AmlSeverity;
+  summary: string;
+  /** Oldest first. Later hits of the same rule add to an open alert instead of raising another. */
+  transactions: AmlEvidenceTransaction[];
+  /** The rule's figures, e.g. how many transactions or how much money. */
+  details: Record<string, number>;
+  /** Whether the alert froze the user's outgoing transfers when it was raised. */
+  freezesAccount: boolean;
+  status: AmlAlertStatus;
+  resolvedBy: string | null;
+  resolutionNotes: string | null;
+  resolvedAt: Date | null;
+}
+
+export interface AmlEvidenceTransactionRow {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  occurred_at: string;
+}
+
+export interface AmlAlertRow {
+  id: string;
+  user_id: string;
+  rule_id: string;
+  rule_kind: AmlRuleKind;
+  severity: AmlSeverity;
+  summary: string;
+  transactions: AmlEvidenceTransactionRow[];
+  details: Record<string, number>;
+  freezes_account: boolean;
+  status: AmlAlertStatus;
+  resolved_by?: string | null;
+  resolution_notes?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function createAmlAlert(input: {
+  id: UUID;
+  userId: UUID;
+  ruleId: string;
+  ruleKind: AmlRuleKind;
+  severity: AmlSeverity;
+  summary: string;
+  transactions: AmlEvidenceTransaction[];
+  details: Record<string, number>;
+  freezesAccount: boolean;
+  now?: Date;
+}): AmlAlert {
+  const now = input.now ?? new Date();
+  const alert: AmlAlert = {
+    id: input.id,
+    userId: input.userId,
+    ruleId: input.ruleId,
+    ruleKind: input.ruleKind,
+    severity: input.severity,
+    summary: input.summary,
+    transactions: input.transactions,
+    details: input.details,
+    freezesAccount: input.freezesAccount,
+    status: 'open',
+    resolvedBy: null,
+    resolutionNotes: null,
+    resolvedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  validateAmlAlert(alert);
+  return alert;
+}
+
+export function validateAmlAlert(alert: AmlAlert): void {
+  assert(alert.ruleId.trim().length > 0, 'An AML alert needs the rule that raised it');
+  assert(alert.transactions.length > 0, 'An AML alert needs at least one transaction as evidence');
+  if (alert.status !== 'open') {
+    assert(alert.resolvedBy !== null && alert.resolvedAt !== null, 'A resolved alert needs the resolving admin and time');
+  }
+}
+
+export function fromRow(row: AmlAlertRow): AmlAlert {
+  const alert: AmlAlert = {
+    id: row.id,
+    userId: row.user_id,
+    ruleId: row.rule_id,
+    ruleKind: row.rule_kind,
+    severity: row.severity,
+    summary: row.summary,
+    transactions: row.transactions.map((transaction) => ({
+      id: transaction.id,
+      type: transaction.type,
+      amount: transaction.amount,
+      occurredAt: new Date(transaction.occurred_at),
+    })),
+    details: row.details ?? {},
+    freezesAccount: row.freezes_account,
+    status: row.status,
+    resolvedBy: row.resolved_by ?? null,
+    resolutionNotes: row.resolution_notes ?? null,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validateAmlAlert(alert);
+  return alert;
+}
+
+export function toRow(alert: AmlAlert): AmlAlertRow {
+  validateAmlAlert(alert);
+  return {
+    id: alert.id,
+    user_id: alert.userId,
+    rule_id: alert.ruleId,
+    rule_kind: alert.ruleKind,
+    severity: alert.severity,
+    summary: alert.summary,
+    transactions: alert.transactions.map((transaction) => ({
+      id: transaction.id,
+      type: transaction.type,
+      amount: transaction.amount,
+      occurred_at: transaction.occurredAt.toISOString(),
+    })),
+    details: alert.details,
+    freezes_account: alert.freezesAccount,
+    status: alert.status,
+    resolved_by: alert.resolvedBy,
+    resolution_notes: alert.resolutionNotes,
+    resolved_at: alert.resolvedAt ? alert.resolvedAt.toISOString() : null,
+    created_at: alert.createdAt.toISOString(),
+    updated_at: alert.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,382 @@
+/**
+ * AML monitoring rules. Each rule is data, a kind with its thresholds, so compliance can tune the set
+ * from a JSON file without a release. A rule looks at one user's completed transactions and picks out
+ * the ones that together make a suspicious pattern; the transactions it picks are the evidence.
+ */
+
+import { UUID, assert } from './base';
+import { Transaction, TransactionType } from './Transaction';
+import { findTypeLimit, LimitTier, OUTGOING_TRANSACTION_TYPES } from './TransactionLimits';
+
+export type AmlSeverity = 'low' | 'medium' | 'high';
+
+export type AmlRuleKind = 'structuring' | 'rapid_movement' | 'distinct_senders' | 'volume_spike';
+
+export const AML_SEVERITIES: AmlSeverity[] = ['low', 'medium', 'high'];
+export const AML_RULE_KINDS: AmlRuleKind[] = ['structuring', 'rapid_movement', 'distinct_senders', 'volume_spike'];
+
+/** Money coming into the user's wallets from outside. */
+export const INCOMING_TRANSACTION_TYPES: TransactionType[] = ['deposit', 'transfer_in'];
+
+interface AmlRuleBase {
+  id: string;
+  severity: AmlSeverity;
+  /** How long a stretch of time the pattern has to fit in. */
+  windowMinutes: number;
+}
+
+/** Several transactions of the given types, each just under the user's per-transaction limit. */
+export interface StructuringRule extends AmlRuleBase {
+  kind: 'structuring';
+  transactionTypes: TransactionType[];
+  minCount: number;
+  /** How close to the limit counts as just under it, e.g. 0.9 for within 10%. */
+  nearLimitRatio: number;
+}
+
+/** Money that comes in and most of it goes straight out again. */
+export interface RapidMovementRule extends AmlRuleBase {
+  kind: 'rapid_movement';
+  /** Smallest incoming amount worth following, in cents. */
+  minAmount: number;
+  /** Share of the incoming amount that has to leave within the window, 0–1. */
+  minOutgoingShare: number;
+}
+
+/** Transfers in from many different Zanari users. */
+export interface DistinctSendersRule extends AmlRuleBase {
+  kind: 'distinct_senders';
+  minSenders: number;
+}
+
+/**
+ * Money moved in and out over the window compared with the user's average for a window of the same
+ * length over the days before it. Without any earlier activity only minAmount applies.
+ */
+export interface VolumeSpikeRule extends AmlRuleBase {
+  kind: 'volume_spike';
+  baselineDays: number;
+  multiplier: number;
+  /** Volumes below this never count as a spike, in cents. */
+  minAmount: number;
+}
+
+export type AmlRule = StructuringRule | RapidMovementRule | DistinctSendersRule | VolumeSpikeRule;
+
+export interface AmlRuleHit {
+  rule: AmlRule;
+  summary: string;
+  /** The transactions that make up the pattern, oldest first. */
+  transactions: Transaction[];
+  details: Record<string, number>;
+}
+
+/** The snake_case form read from AML_RULES_PATH. */
+export interface AmlRuleJson {
+  id: string;
+  kind: AmlRuleKind;
+  severity: AmlSeverity;
+  window_minutes: number;
+  transaction_types?: TransactionType[];
+  min_count?: number;
+  near_limit_ratio?: number;
+  min_amount?: number;
+  min_outgoing_share?: number;
+  min_senders?: number;
+  baseline_days?: number;
+  multiplier?: number;
+}
+
+const DAY_MINUTES = 24 * 60;
+const MINUTE_MS = 60_000;
+
+/**
+ * Three transactions within 10% of the limit in a day freeze outgoing transfers straight away; the
+ * other patterns only raise an alert for review.
+ */
+export const DEFAULT_AML_RULES: AmlRule[] = [
+  {
+    id: 'structuring_near_limit',
+    kind: 'structuring',
+    severity: 'high',
+    windowMinutes: DAY_MINUTES,
+    transactionTypes: ['transfer_out', 'withdrawal', 'deposit'],
+    minCount: 3,
+    nearLimitRatio: 0.9,
+  },
+  {
+    id: 'top_up_then_withdraw',
+    kind: 'rapid_movement',
+    severity: 'medium',
+    windowMinutes: 60,
+    minAmount: 300_000,
+    minOutgoingShare: 0.8,
+  },
+  {
+    id: 'many_senders_in_a_day',
+    kind: 'distinct_senders',
+    severity: 'medium',
+    windowMinutes: DAY_MINUTES,
+    minSenders: 10,
+  },
+  {
+    id: 'daily_volume_spike',
+    kind: 'volume_spike',
+    severity: 'low',
+    windowMinutes: DAY_MINUTES,
+    baselineDays: 30,
+    multiplier: 5,
+    minAmount: 2_000_000,
+  },
+];
+
+export function validateAmlRules(rules: AmlRule[]): void {
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    assert(typeof rule.id === 'string' && rule.id.trim().length > 0, 'AML rule id is required');
+    assert(!seen.has(rule.id), `AML rule ${rule.id} is defined more than once`);
+    seen.add(rule.id);
+    assert(AML_RULE_KINDS.includes(rule.kind), `AML rule ${rule.id} has unknown kind ${rule.kind}`);
+    assert(AML_SEVERITIES.includes(rule.severity), `AML rule ${rule.id} has unknown severity ${rule.severity}`);
+    assert(isPositiveInteger(rule.windowMinutes), `AML rule ${rule.id} needs a whole number of window minutes`);
+
+    switch (rule.kind) {
+      case 'structuring':
+        assert(rule.transactionTypes.length > 0, `AML rule ${rule.id} must cover a transaction type`);
+        assert(isPositiveInteger(rule.minCount) && rule.minCount >= 2, `AML rule ${rule.id} needs a minimum count of at least 2`);
+        assert(isShare(rule.nearLimitRatio), `AML rule ${rule.id} near-limit ratio must be above 0 and at most 1`);
+        break;
+      case 'rapid_movement':
+        assert(isPositiveInteger(rule.minAmount), `AML rule ${rule.id} needs a minimum amount in cents`);
+        assert(isShare(rule.minOutgoingShare), `AML rule ${rule.id} outgoing share must be above 0 and at most 1`);
+        break;
+      case 'distinct_senders':
+        assert(isPositiveInteger(rule.minSenders) && rule.minSenders >= 2, `AML rule ${rule.id} needs at least 2 senders`);
+        break;
+      case 'volume_spike':
+        assert(isPositiveInteger(rule.baselineDays), `AML rule ${rule.id} needs a whole number of baseline days`);
+        assert(Number.isFinite(rule.multiplier) && rule.multiplier > 1, `AML rule ${rule.id} multiplier must be above 1`);
+        assert(isPositiveInteger(rule.minAmount), `AML rule ${rule.id} needs a minimum amount in cents`);
+        break;
+    }
+  }
+}
+
+export function fromJson(json: { rules: AmlRuleJson[] }): AmlRule[] {
+  assert(Array.isArray(json?.rules), 'AML rules must be listed under rules');
+  const rules = json.rules.map((rule): AmlRule => {
+    const base = { id: rule.id, severity: rule.severity, windowMinutes: rule.window_minutes };
+    switch (rule.kind) {
+      case 'structuring':
+        return {
+          ...base,
+          kind: 'structuring',
+          transactionTypes: rule.transaction_types ?? [],
+          minCount: rule.min_count ?? 0,
+          nearLimitRatio: rule.near_limit_ratio ?? 0,
+        };
+      case 'rapid_movement':
+        return { ...base, kind: 'rapid_movement', minAmount: rule.min_amount ?? 0, minOutgoingShare: rule.min_outgoing_share ?? 0 };
+      case 'distinct_senders':
+        return { ...base, kind: 'distinct_senders', minSenders: rule.min_senders ?? 0 };
+      case 'volume_spike':
+        return {
+          ...base,
+          kind: 'volume_spike',
+          baselineDays: rule.baseline_days ?? 0,
+          multiplier: rule.multiplier ?? 0,
+          minAmount: rule.min_amount ?? 0,
+        };
+      default:
+        throw new Error(`AML rule ${rule.id} has unknown kind ${String((rule as { kind?: unknown }).kind)}`);
+    }
+  });
+
+  validateAmlRules(rules);
+  return rules;
+}
+
+/** How far back a rule needs to see, so callers know which transactions to load. */
+export function ruleReachMs(rule: AmlRule): number {
+  const baselineMinutes = rule.kind === 'volume_spike' ? rule.baselineDays * DAY_MINUTES : 0;
+  return (rule.windowMinutes + baselineMinutes) * MINUTE_MS;
+}
+
+/** When the transaction took effect: its completion, or creation for those recorded already completed. */
+export function occurredAt(transaction: Transaction): Date {
+  return transaction.completedAt ?? transaction.createdAt;
+}
+
+/**
+ * Runs a rule over one user's transactions. Only completed ones count. The pattern is looked for in
+ * every window ending at one of the transactions, not just the window ending now, so a scan that runs
+ * late still sees it; the most recent occurrence is reported.
+ */
+export function evaluateAmlRule(rule: AmlRule, input: { transactions: Transaction[]; tier: LimitTier }): AmlRuleHit | null {
+  const completed = input.transactions
+    .filter((transaction) => transaction.status === 'completed')
+    .sort((a, b) => occurredAt(a).getTime() - occurredAt(b).getTime());
+
+  switch (rule.kind) {
+    case 'structuring':
+      return evaluateStructuring(rule, completed, input.tier);
+    case 'rapid_movement':
+      return evaluateRapidMovement(rule, completed);
+    case 'distinct_senders':
+      return evaluateDistinctSenders(rule, completed);
+    case 'volume_spike':
+      return evaluateVolumeSpike(rule, completed);
+  }
+}
+
+function evaluateStructuring(rule: StructuringRule, transactions: Transaction[], tier: LimitTier): AmlRuleHit | null {
+  const nearLimit = transactions.filter((transaction) => {
+    const limit = rule.transactionTypes.includes(transaction.type) ? findTypeLimit(tier, transaction.type) : null;
+    return limit !== null && transaction.amount >= limit.perTransaction * rule.nearLimitRatio && transaction.amount <= limit.perTransaction;
+  });
+
+  const window = latestWindow(nearLimit, rule.windowMinutes, (members) => members.length >= rule.minCount);
+  if (!window) {
+    return null;
+  }
+  return {
+    rule,
+    summary: `${window.length} transactions just under the per-transaction limit within ${describeMinutes(rule.windowMinutes)}`,
+    transactions: window,
+    details: { count: window.length, total_amount: sum(window) },
+  };
+}
+
+function evaluateRapidMovement(rule: RapidMovementRule, transactions: Transaction[]): AmlRuleHit | null {
+  const windowMs = rule.windowMinutes * MINUTE_MS;
+  for (let index = transactions.length - 1; index >= 0; index -= 1) {
+    const incoming = transactions[index]!;
+    if (!INCOMING_TRANSACTION_TYPES.includes(incoming.type) || incoming.amount < rule.minAmount) {
+      continue;
+    }
+
+    const arrivedAt = occurredAt(incoming).getTime();
+    const outgoing = transactions.slice(index + 1).filter((transaction) => {
+      const at = occurredAt(transaction).getTime();
+      return OUTGOING_TRANSACTION_TYPES.includes(transaction.type) && at - arrivedAt <= windowMs;
+    });
+    const outgoingAmount = sum(outgoing);
+    if (outgoing.length > 0 && outgoingAmount >= incoming.amount * rule.minOutgoingShare) {
+      return {
+        rule,
+        summary: `${Math.round((outgoingAmount / incoming.amount) * 100)}% of an incoming ${incoming.type} left within ${describeMinutes(rule.windowMinutes)}`,
+        transactions: [incoming, ...outgoing],
+        details: { incoming_amount: incoming.amount, outgoing_amount: outgoingAmount },
+      };
+    }
+  }
+  return null;
+}
+
+function evaluateDistinctSenders(rule: DistinctSendersRule, transactions: Transaction[]): AmlRuleHit | null {
+  const received = transactions.filter((transaction) => transaction.type === 'transfer_in' && senderOf(transaction) !== null);
+  const window = latestWindow(received, rule.windowMinutes, (members) => new Set(members.map(senderOf)).size >= rule.minSenders);
+  if (!window) {
+    return null;
+  }
+  const senders = new Set(window.map(senderOf)).size;
+  return {
+    rule,
+    summary: `Transfers from ${senders} different senders within ${describeMinutes(rule.windowMinutes)}`,
+    transactions: window,
+    details: { senders, total_amount: sum(window) },
+  };
+}
+
+function evaluateVolumeSpike(rule: VolumeSpikeRule, transactions: Transaction[]): AmlRuleHit | null {
+  const windowMs = rule.windowMinutes * MINUTE_MS;
+  const baselineMs = rule.baselineDays * DAY_MINUTES * MINUTE_MS;
+  const moving = transactions.filter(
+    (transaction) => INCOMING_TRANSACTION_TYPES.includes(transaction.type) || OUTGOING_TRANSACTION_TYPES.includes(transaction.type),
+  );
+
+  for (let index = moving.length - 1; index >= 0; index -= 1) {
+    const end = occurredAt(moving[index]!).getTime();
+    const window = moving.filter((transaction) => {
+      const at = occurredAt(transaction).getTime();
+      return at > end - windowMs && at <= end;
+    });
+    const volume = sum(window);
+    if (volume < rule.minAmount) {
+      continue;
+    }
+
+    const baseline = sum(
+      moving.filter((transaction) => {
+        const at = occurredAt(transaction).getTime();
+        return at > end - windowMs - baselineMs && at <= end - windowMs;
+      }),
+    );
+    const baselineAverage = Math.round((baseline * windowMs) / baselineMs);
+    if (volume >= baselineAverage * rule.multiplier) {
+      return {
+        rule,
+        summary: `Moved ${formatKes(volume)} within ${describeMinutes(rule.windowMinutes)} against a usual ${formatKes(baselineAverage)}`,
+        transactions: window,
+        details: { volume, baseline_average: baselineAverage },
+      };
+    }
+  }
+  return null;
+}
+
+/** The Zanari user who sent a transfer_in, recorded in its external reference. */
+function senderOf(transaction: Transaction): UUID | null {
+  if (!transaction.externalReference) {
+    return null;
+  }
+  try {
+    const reference = JSON.parse(transaction.externalReference) as { senderUserId?: unknown };
+    return typeof reference.senderUserId === 'string' ? reference.senderUserId : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The transactions in the latest window of the given length, ending at one of them, that satisfies the test. */
+function latestWindow(
+  transactions: Transaction[],
+  windowMinutes: number,
+  satisfies: (members: Transaction[]) => boolean,
+): Transaction[] | null {
+  const windowMs = windowMinutes * MINUTE_MS;
+  for (let end = transactions.length - 1; end >= 0; end -= 1) {
+    const endAt = occurredAt(transactions[end]!).getTime();
+    const members = transactions.slice(0, end + 1).filter((transaction) => endAt - occurredAt(transaction).getTime() < windowMs);
+    if (satisfies(members)) {
+      return members;
+    }
+  }
+  return null;
+}
+
+function sum(transactions: Transaction[]): number {
+  return transactions.reduce((total, transaction) => total + transaction.amount, 0);
+}
+
+function describeMinutes(minutes: number): string {
+  if (minutes % DAY_MINUTES === 0) {
+    return minutes === DAY_MINUTES ? 'a day' : `${minutes / DAY_MINUTES} days`;
+  }
+  if (minutes % 60 === 0) {
+    return minutes === 60 ? 'an hour' : `${minutes / 60} hours`;
+  }
+  return `${minutes} minutes`;
+}
+
+function formatKes(cents: number): string {
+  return `KES ${(cents / 100).toFixed(2)}`;
+}
+
+function isPositiveInteger(value: number): boolean {
+  return Number.isInteger(value) && value > 0;
+}
+
+function isShare(value: number): boolean {
+  return Number.isFinite(value) && value > 0 && value <= 1;
+}
@@ -0,0 +1,145 @@
+/**
+ * DeviceSession is one signed-in device: it starts when an OTP is verified and lasts while its
+ * refresh tokens keep being rotated. Its id is the family id of those refresh tokens and the `sid`
+ * claim of its access tokens, so revoking the session signs the device out at once.
+ */
+
+import { isIPv4, isIPv6 } from 'node:net';
+
+import { UUID, TimestampedEntity, assert } from './base';
+
+export interface DeviceInfo {
+  clientPlatform: string | null; // X-Client-Platform, e.g. "ios"
+  clientVersion: string | null; // X-Client-Version
+  ipAddress: string | null;
+}
+
+export interface DeviceSession extends TimestampedEntity {
+  id: UUID;
+  userId: UUID;
+  clientPlatform: string | null;
+  clientVersion: string | null;
+  /** The client's network rather than its address, e.g. "203.0.113.0/24". */
+  ipAddress: string | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+}
+
+export interface DeviceSessionRow {
+  id: string;
+  user_id: string;
+  client_platform?: string | null;
+  client_version?: string | null;
+  ip_address?: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  revoked_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAX_CLIENT_FIELD_LENGTH = 64;
+
+export function createDeviceSession(input: {
+  id: UUID;
+  userId: UUID;
+  device: DeviceInfo;
+  expiresAt: Date;
+  now?: Date;
+}): DeviceSession {
+  const now = input.now ?? new Date();
+  const session: DeviceSession = {
+    id: input.id,
+    userId: input.userId,
+    clientPlatform: input.device.clientPlatform,
+    clientVersion: input.device.clientVersion,
+    ipAddress: approximateIpAddress(input.device.ipAddress),
+    firstSeenAt: now,
+    lastSeenAt: now,
+    expiresAt: input.expiresAt,
+    revokedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  validateDeviceSession(session);
+  return session;
+}
+
+export function validateDeviceSession(session: DeviceSession): void {
+  assert(
+    (session.clientPlatform ?? '').length <= MAX_CLIENT_FIELD_LENGTH &&
+      (session.clientVersion ?? '').length <= MAX_CLIENT_FIELD_LENGTH,
+    `Client platform and version cannot exceed ${MAX_CLIENT_FIELD_LENGTH} characters`,
+  );
+  assert(session.lastSeenAt.getTime() >= session.firstSeenAt.getTime(), 'Session cannot be last seen before it was first seen');
+}
+
+export function isDeviceSessionActive(session: DeviceSession, now: Date): boolean {
+  return !session.revokedAt && session.expiresAt.getTime() > now.getTime();
+}
+
+/** Whether the device reports the same platform and version as the one that started the session. */
+export function isSameDevice(session: DeviceSession, device: DeviceInfo): boolean {
+  return session.clientPlatform === device.clientPlatform && session.clientVersion === device.clientVersion;
+}
+
+/**
+ * Keeps only the network part of an address: /24 for IPv4 and /48 for IPv6. Enough to tell where a
+ * session signed in from without storing where the user is.
+ */
+export function approximateIpAddress(ipAddress: string | null): string | null {
+  if (!ipAddress) {
+    return null;
+  }
+
+  const address = ipAddress.startsWith('::ffff:') && isIPv4(ipAddress.slice(7)) ? ipAddress.slice(7) : ipAddress;
+  if (isIPv4(address)) {
+    return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+  if (isIPv6(address)) {
+    const [head = '', tail = ''] = address.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const groups = [...headGroups, ...Array(Math.max(0, 8 - headGroups.length - tailGroups.length)).fill('0'), ...tailGroups];
+    return `${groups.slice(0, 3).map((group) => group.toLowerCase().replace(/^0+(?=.)/, '')).join(':')}::/48`;
+  }
+  return null;
+}
+
+export function fromRow(row: DeviceSessionRow): DeviceSession {
+  const session: DeviceSession = {
+    id: row.id,
+    userId: row.user_id,
+    clientPlatform: row.client_platform ?? null,
+    clientVersion: row.client_version ?? null,
+    ipAddress: row.ip_address ?? null,
+    firstSeenAt: new Date(row.first_seen_at),
+    lastSeenAt: new Date(row.last_seen_at),
+    expiresAt: new Date(row.expires_at),
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validateDeviceSession(session);
+  return session;
+}
+
+export function toRow(session: DeviceSession): DeviceSessionRow {
+  validateDeviceSession(session);
+  return {
+    id: session.id,
+    user_id: session.userId,
+    client_platform: session.clientPlatform,
+    client_version: session.clientVersion,
+    ip_address: session.ipAddress,
+    first_seen_at: session.firstSeenAt.toISOString(),
+    last_seen_at: session.lastSeenAt.toISOString(),
+    expires_at: session.expiresAt.toISOString(),
+    revoked_at: session.revokedAt ? session.revokedAt.toISOString() : null,
+    created_at: session.createdAt.toISOString(),
+    updated_at: session.updatedAt.toISOString(),
+  };
+}
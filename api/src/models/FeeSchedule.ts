@@ -0,0 +1,238 @@
+/**
+ * FeeSchedule prices money movements. Each rule covers one transaction type paid with one payment
+ * method and splits amounts into bands, each charging a flat fee plus a percentage. Promotions
+ * waive matching fees for a window of time.
+ */
+
+import { assert } from './base';
+
+export type FeeTransactionType = 'transfer' | 'withdrawal' | 'merchant_payment' | 'top_up';
+
+export type FeePaymentMethod = 'wallet' | 'mpesa' | 'card';
+
+export const FEE_TRANSACTION_TYPES: FeeTransactionType[] = ['transfer', 'withdrawal', 'merchant_payment', 'top_up'];
+export const FEE_PAYMENT_METHODS: FeePaymentMethod[] = ['wallet', 'mpesa', 'card'];
+
+export interface FeeBand {
+  minAmount: number; // cents, inclusive
+  maxAmount: number | null; // cents, inclusive; null for no upper bound
+  flatFee: number; // cents
+  percentageBps: number; // basis points of the amount, added to flatFee
+}
+
+export interface FeeRule {
+  transactionType: FeeTransactionType;
+  paymentMethod: FeePaymentMethod;
+  bands: FeeBand[];
+}
+
+export interface FeePromotion {
+  name: string;
+  transactionTypes: FeeTransactionType[];
+  /** Null waives the fee whatever the payment method. */
+  paymentMethods: FeePaymentMethod[] | null;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface FeeSchedule {
+  rules: FeeRule[];
+  promotions: FeePromotion[];
+}
+
+export interface FeeQuote {
+  transactionType: FeeTransactionType;
+  paymentMethod: FeePaymentMethod;
+  amount: number;
+  /** What the customer pays: standardFee, or zero while a promotion applies. */
+  fee: number;
+  standardFee: number;
+  band: FeeBand | null;
+  promotion: string | null;
+}
+
+interface FeeBandJson {
+  min_amount: number;
+  max_amount: number | null;
+  flat_fee: number;
+  percentage_bps: number;
+}
+
+interface FeeRuleJson {
+  transaction_type: FeeTransactionType;
+  payment_method: FeePaymentMethod;
+  bands: FeeBandJson[];
+}
+
+interface FeePromotionJson {
+  name: string;
+  transaction_types: FeeTransactionType[];
+  payment_methods: FeePaymentMethod[] | null;
+  starts_at: string;
+  ends_at: string;
+}
+
+/** The snake_case form read from FEE_SCHEDULE_PATH and returned by GET /fees/schedule. */
+export interface FeeScheduleJson {
+  rules: FeeRuleJson[];
+  promotions?: FeePromotionJson[];
+}
+
+/**
+ * Transfers between Zanari wallets are free and card or M-Pesa funded transfers cost KES 10.
+ * M-Pesa withdrawals are tiered; merchant payments and top-ups carry no fee.
+ */
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  rules: [
+    { transactionType: 'transfer', paymentMethod: 'wallet', bands: [band(0, null, 0)] },
+    { transactionType: 'transfer', paymentMethod: 'mpesa', bands: [band(0, null, 1_000)] },
+    { transactionType: 'transfer', paymentMethod: 'card', bands: [band(0, null, 1_000)] },
+    {
+      transactionType: 'withdrawal',
+      paymentMethod: 'mpesa',
+      bands: [band(0, 10_000, 0), band(10_001, 100_000, 700), band(100_001, null, 1_500)],
+    },
+    { transactionType: 'merchant_payment', paymentMethod: 'wallet', bands: [band(0, null, 0)] },
+    { transactionType: 'top_up', paymentMethod: 'mpesa', bands: [band(0, null, 0)] },
+    { transactionType: 'top_up', paymentMethod: 'card', bands: [band(0, null, 0)] },
+  ],
+  promotions: [],
+};
+
+function band(minAmount: number, maxAmount: number | null, flatFee: number, percentageBps = 0): FeeBand {
+  return { minAmount, maxAmount, flatFee, percentageBps };
+}
+
+export function validateFeeSchedule(schedule: FeeSchedule): void {
+  const seen = new Set<string>();
+  for (const rule of schedule.rules) {
+    const key = `${rule.transactionType}:${rule.paymentMethod}`;
+    assert(FEE_TRANSACTION_TYPES.includes(rule.transactionType), `Unknown fee transaction type ${rule.transactionType}`);
+    assert(FEE_PAYMENT_METHODS.includes(rule.paymentMethod), `Unknown fee payment method ${rule.paymentMethod}`);
+    assert(!seen.has(key), `Fee schedule has more than one rule for ${key}`);
+    assert(rule.bands.length > 0, `Fee rule ${key} needs at least one band`);
+    seen.add(key);
+
+    rule.bands.forEach((current, index) => {
+      assert(Number.isInteger(current.minAmount) && current.minAmount >= 0, `Fee rule ${key} has an invalid band minimum`);
+      assert(
+        current.maxAmount === null || (Number.isInteger(current.maxAmount) && current.maxAmount >= current.minAmount),
+        `Fee rule ${key} has a band whose maximum is below its minimum`,
+      );
+      assert(Number.isInteger(current.flatFee) && current.flatFee >= 0, `Fee rule ${key} has an invalid flat fee`);
+      assert(
+        Number.isInteger(current.percentageBps) && current.percentageBps >= 0 && current.percentageBps <= 10_000,
+        `Fee rule ${key} has an invalid percentage`,
+      );
+
+      const previous = rule.bands[index - 1];
+      if (previous) {
+        assert(
+          previous.maxAmount !== null && current.minAmount === previous.maxAmount + 1,
+          `Fee rule ${key} bands must be in ascending order without gaps or overlaps`,
+        );
+      }
+    });
+  }
+
+  for (const promotion of schedule.promotions) {
+    assert(promotion.name.trim().length > 0, 'Fee promotion name is required');
+    assert(promotion.transactionTypes.length > 0, `Fee promotion ${promotion.name} must cover a transaction type`);
+    assert(
+      promotion.endsAt.getTime() > promotion.startsAt.getTime(),
+      `Fee promotion ${promotion.name} must end after it starts`,
+    );
+  }
+}
+
+/**
+ * Price an amount against the schedule. A transaction type and payment method without a rule, or
+ * an amount outside every band, is free.
+ */
+export function calculateFee(
+  schedule: FeeSchedule,
+  input: { transactionType: FeeTransactionType; paymentMethod: FeePaymentMethod; amount: number; at: Date },
+): FeeQuote {
+  const rule = schedule.rules.find(
+    (candidate) => candidate.transactionType === input.transactionType && candidate.paymentMethod === input.paymentMethod,
+  );
+  const matched =
+    rule?.bands.find(
+      (candidate) =>
+        input.amount >= candidate.minAmount && (candidate.maxAmount === null || input.amount <= candidate.maxAmount),
+    ) ?? null;
+  const standardFee = matched ? matched.flatFee + Math.round((input.amount * matched.percentageBps) / 10_000) : 0;
+
+  const promotion =
+    standardFee > 0
+      ? schedule.promotions.find(
+          (candidate) =>
+            candidate.transactionTypes.includes(input.transactionType) &&
+            (candidate.paymentMethods === null || candidate.paymentMethods.includes(input.paymentMethod)) &&
+            candidate.startsAt.getTime() <= input.at.getTime() &&
+            input.at.getTime() < candidate.endsAt.getTime(),
+        )
+      : undefined;
+
+  return {
+    transactionType: input.transactionType,
+    paymentMethod: input.paymentMethod,
+    amount: input.amount,
+    fee: promotion ? 0 : standardFee,
+    standardFee,
+    band: matched,
+    promotion: promotion?.name ?? null,
+  };
+}
+
+export function fromJson(json: FeeScheduleJson): FeeSchedule {
+  assert(Array.isArray(json?.rules), 'Fee schedule must list its rules');
+  const schedule: FeeSchedule = {
+    rules: json.rules.map((rule) => ({
+      transactionType: rule.transaction_type,
+      paymentMethod: rule.payment_method,
+      bands: (rule.bands ?? []).map((entry) => ({
+        minAmount: entry.min_amount,
+        maxAmount: entry.max_amount ?? null,
+        flatFee: entry.flat_fee ?? 0,
+        percentageBps: entry.percentage_bps ?? 0,
+      })),
+    })),
+    promotions: (json.promotions ?? []).map((promotion) => ({
+      name: promotion.name,
+      transactionTypes: promotion.transaction_types,
+      paymentMethods: promotion.payment_methods ?? null,
+      startsAt: new Date(promotion.starts_at),
+      endsAt: new Date(promotion.ends_at),
+    })),
+  };
+
+  validateFeeSchedule(schedule);
+  return schedule;
+}
+
+export function toJson(schedule: FeeSchedule): Required<FeeScheduleJson> {
+  return {
+    rules: schedule.rules.map((rule) => ({
+      transaction_type: rule.transactionType,
+      payment_method: rule.paymentMethod,
+      bands: rule.bands.map(bandToJson),
+    })),
+    promotions: schedule.promotions.map((promotion) => ({
+      name: promotion.name,
+      transaction_types: promotion.transactionTypes,
+      payment_methods: promotion.paymentMethods,
+      starts_at: promotion.startsAt.toISOString(),
+      ends_at: promotion.endsAt.toISOString(),
+    })),
+  };
+}
+
+export function bandToJson(entry: FeeBand): FeeBandJson {
+  return {
+    min_amount: entry.minAmount,
+    max_amount: entry.maxAmount,
+    flat_fee: entry.flatFee,
+    percentage_bps: entry.percentageBps,
+  };
+}
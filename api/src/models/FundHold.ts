@@ -0,0 +1,124 @@
+/**
+ * FundHold reserves part of a wallet's available balance for a pending payment, transfer or
+ * withdrawal. While held, the money stays in the wallet balance but cannot be spent; settling the
+ * transaction captures the hold (the money leaves the wallet) or releases it (the money becomes
+ * spendable again).
+ */
+
+import { UUID, TimestampedEntity, assert } from './base';
+
+/**
+ * - held: reserved against availableBalance and waiting for the transaction to settle
+ * - captured: the transaction settled and the amount was taken from the wallet balance
+ * - released: the transaction failed or was reversed and the amount is spendable again
+ * - expired: nothing settled the transaction before expiresAt, so the amount was released
+ */
+export type FundHoldStatus = 'held' | 'captured' | 'released' | 'expired';
+
+export interface FundHold extends TimestampedEntity {
+  id: UUID;
+  walletId: UUID;
+  userId: UUID;
+  transactionId: UUID;
+  amount: number; // cents
+  /** Charged on top of amount when the hold is captured; held alongside it until then. */
+  fee: number; // cents
+  status: FundHoldStatus;
+  /** Ledger description used when the hold is captured, e.g. "Merchant payment". */
+  description: string;
+  /** Null for a hold that stays until its transaction settles, such as a payout held for screening. */
+  expiresAt: Date | null;
+  settledAt: Date | null;
+}
+
+export interface FundHoldRow {
+  id: string;
+  wallet_id: string;
+  user_id: string;
+  transaction_id: string;
+  amount: number;
+  fee?: number;
+  status: FundHoldStatus;
+  description: string;
+  expires_at: string | null;
+  settled_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function createFundHold(input: {
+  id: UUID;
+  walletId: UUID;
+  userId: UUID;
+  transactionId: UUID;
+  amount: number;
+  fee?: number;
+  description: string;
+  expiresAt: Date | null;
+  now?: Date;
+}): FundHold {
+  const now = input.now ?? new Date();
+  const hold: FundHold = {
+    id: input.id,
+    walletId: input.walletId,
+    userId: input.userId,
+    transactionId: input.transactionId,
+    amount: input.amount,
+    fee: input.fee ?? 0,
+    status: 'held',
+    description: input.description,
+    expiresAt: input.expiresAt,
+    settledAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  validateFundHold(hold);
+  return hold;
+}
+
+export function validateFundHold(hold: FundHold): void {
+  assert(Number.isInteger(hold.amount), 'Hold amount must be an integer representing cents', 'INVALID_AMOUNT');
+  assert(hold.amount > 0, 'Hold amount must be positive', 'INVALID_AMOUNT');
+  assert(Number.isInteger(hold.fee) && hold.fee >= 0, 'Hold fee must be a non-negative integer in cents');
+  assert(hold.description.trim().length > 0, 'Hold description is required');
+  assert(hold.expiresAt === null || hold.expiresAt.getTime() > hold.createdAt.getTime(), 'Hold must expire after it is placed');
+  assert((hold.status === 'held') === (hold.settledAt === null), 'Only settled holds have a settledAt time');
+}
+
+export function fromRow(row: FundHoldRow): FundHold {
+  const hold: FundHold = {
+    id: row.id,
+    walletId: row.wallet_id,
+    userId: row.user_id,
+    transactionId: row.transaction_id,
+    amount: row.amount,
+    fee: row.fee ?? 0,
+    status: row.status,
+    description: row.description,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+    settledAt: row.settled_at ? new Date(row.settled_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validateFundHold(hold);
+  return hold;
+}
+
+export function toRow(hold: FundHold): FundHoldRow {
+  validateFundHold(hold);
+  return {
+    id: hold.id,
+    wallet_id: hold.walletId,
+    user_id: hold.userId,
+    transaction_id: hold.transactionId,
+    amount: hold.amount,
+    fee: hold.fee,
+    status: hold.status,
+    description: hold.description,
+    expires_at: hold.expiresAt ? hold.expiresAt.toISOString() : null,
+    settled_at: hold.settledAt ? hold.settledAt.toISOString() : null,
+    created_at: hold.createdAt.toISOString(),
+    updated_at: hold.updatedAt.toISOString(),
+  };
+}
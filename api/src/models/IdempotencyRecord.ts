@@ -0,0 +1,116 @@
+/**
+ * IdempotencyRecord remembers the first response to a money-moving request sent with an
+ * Idempotency-Key, so a retried request gets the same answer instead of moving money twice.
+ */
+
+import { UUID, TimestampedEntity, assert } from './base';
+
+/**
+ * - in_progress: the first request with this key is still running
+ * - completed: the response below is replayed for later requests with this key
+ */
+export type IdempotencyRecordStatus = 'in_progress' | 'completed';
+
+export interface IdempotencyRecord extends TimestampedEntity {
+  id: UUID;
+  userId: UUID;
+  key: string;
+  scope: string; // e.g. "POST /payments/merchant"
+  requestHash: string;
+  status: IdempotencyRecordStatus;
+  responseStatus: number | null;
+  responseBody: unknown;
+  expiresAt: Date;
+}
+
+export interface IdempotencyRecordRow {
+  id: string;
+  user_id: string;
+  idempotency_key: string;
+  scope: string;
+  request_hash: string;
+  status: IdempotencyRecordStatus;
+  response_status?: number | null;
+  response_body?: unknown;
+  expires_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+export function createIdempotencyRecord(input: {
+  id: UUID;
+  userId: UUID;
+  key: string;
+  scope: string;
+  requestHash: string;
+  expiresAt: Date;
+  now?: Date;
+}): IdempotencyRecord {
+  const now = input.now ?? new Date();
+  const record: IdempotencyRecord = {
+    id: input.id,
+    userId: input.userId,
+    key: input.key,
+    scope: input.scope,
+    requestHash: input.requestHash,
+    status: 'in_progress',
+    responseStatus: null,
+    responseBody: null,
+    expiresAt: input.expiresAt,
+    createdAt: now,
+    updatedAt: now,
+  };
+  validateIdempotencyRecord(record);
+  return record;
+}
+
+export function validateIdempotencyRecord(record: IdempotencyRecord): void {
+  assert(record.key.trim().length > 0, 'Idempotency key is required', 'INVALID_IDEMPOTENCY_KEY');
+  assert(
+    record.key.length <= MAX_IDEMPOTENCY_KEY_LENGTH,
+    `Idempotency key cannot exceed ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+    'INVALID_IDEMPOTENCY_KEY',
+  );
+  assert(record.requestHash.length > 0, 'Idempotency request hash is required');
+  if (record.status === 'completed') {
+    assert(record.responseStatus !== null, 'Completed idempotency records must store a response status');
+  }
+  assert(record.expiresAt.getTime() > record.createdAt.getTime(), 'Idempotency record must expire after it is created');
+}
+
+export function fromRow(row: IdempotencyRecordRow): IdempotencyRecord {
+  const record: IdempotencyRecord = {
+    id: row.id,
+    userId: row.user_id,
+    key: row.idempotency_key,
+    scope: row.scope,
+    requestHash: row.request_hash,
+    status: row.status,
+    responseStatus: row.response_status ?? null,
+    responseBody: row.response_body ?? null,
+    expiresAt: new Date(row.expires_at),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validateIdempotencyRecord(record);
+  return record;
+}
+
+export function toRow(record: IdempotencyRecord): IdempotencyRecordRow {
+  validateIdempotencyRecord(record);
+  return {
+    id: record.id,
+    user_id: record.userId,
+    idempotency_key: record.key,
+    scope: record.scope,
+    request_hash: record.requestHash,
+    status: record.status,
+    response_status: record.responseStatus,
+    response_body: record.responseBody ?? null,
+    expires_at: record.expiresAt.toISOString(),
+    created_at: record.createdAt.toISOString(),
+    updated_at: record.updatedAt.toISOString(),
+  };
+}
@@ -5,7 +5,8 @@
 import { UUID, TimestampedEntity, assert } from './base';
 
 export type KYCDocumentType = 'national_id' | 'passport' | 'driving_license' | 'selfie';
-export type KYCDocumentStatus = 'uploaded' | 'processing' | 'approved' | 'rejected';
+export type KYCDocumentStatus = 'uploaded' | 'processing' | 'approved' | 'rejected' | 'expired';
+export type KYCExpiryState = 'valid' | 'expiring_soon' | 'expired';
 
 export interface ExtractedData {
   fullName?: string | null;
@@ -19,25 +20,35 @@ export interface KYCDocument extends TimestampedEntity {
   id: UUID;
   userId: UUID;
   documentType: KYCDocumentType;
-  filePath: string;
+  /** Where the encrypted file is stored; null once the file has been deleted. */
+  filePath: string | null;
   fileName: string;
   fileSize: number;
   mimeType: string;
   status: KYCDocumentStatus;
   verificationNotes?: string | null;
+  /** Whether the file has been received and is stored encrypted. */
   encrypted: boolean;
+  /** SHA-256 of the file once received; a random placeholder until then. */
   accessHash: string;
+  /** The document's own encryption key, itself encrypted with the storage master key. */
+  encryptedDataKey?: string | null;
   uploadedAt: Date;
   processedAt?: Date | null;
+  /** The day the document stops being valid, kept in step with `extractedData.expiryDate`. */
   expiresAt?: Date | null;
+  /** The last expiry warning sent, in days before expiry (30, then 7); null before the first. */
+  expiryWarningDays?: number | null;
   extractedData?: ExtractedData | null;
+  /** How closely a selfie matches the photo on the user's identity document, from 0 to 1. */
+  faceMatchScore?: number | null;
 }
 
 export interface KYCDocumentRow {
   id: string;
   user_id: string;
   document_type: KYCDocumentType;
-  file_path: string;
+  file_path: string | null;
   file_name: string;
   file_size: number;
   mime_type: string;
@@ -45,9 +56,11 @@ export interface KYCDocumentRow {
   verification_notes?: string | null;
   encrypted: boolean;
   access_hash: string;
+  encrypted_data_key?: string | null;
   uploaded_at: string;
   processed_at?: string | null;
   expires_at?: string | null;
+  expiry_warning_days?: number | null;
   extracted_data?: {
     full_name?: string | null;
     id_number?: string | null;
@@ -55,6 +68,7 @@ export interface KYCDocumentRow {
     issue_date?: string | null;
     expiry_date?: string | null;
   } | null;
+  face_match_score?: number | string | null;
   created_at: string;
   updated_at: string;
 }
@@ -72,21 +86,85 @@ export interface CreateKYCDocumentInput {
   expiresAt?: Date | null;
 }
 
+/** Users are warned this many days before an approved document expires, once per threshold. */
+export const KYC_EXPIRY_WARNING_DAYS = [30, 7];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10MB
 const ALLOWED_MIME_TYPES = new Set(['image/jpeg', 'image/png', 'application/pdf']);
 
+/**
+ * Whether a name read off a document belongs to the user: every part of the profile's first and
+ * last name has to appear in it, ignoring case, accents, punctuation and extra middle names.
+ */
+export function extractedNameMatches(fullName: string, firstName: string, lastName: string): boolean {
+  const extracted = new Set(nameParts(fullName));
+  const profile = [...nameParts(firstName), ...nameParts(lastName)];
+  return profile.length > 0 && profile.every((part) => extracted.has(part));
+}
+
+function nameParts(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((part) => part.length > 0);
+}
+
+/** Whole days left before the document expires, rounded up; zero or less once it has. Null without an expiry date. */
+export function daysUntilExpiry(document: KYCDocument, now: Date): number | null {
+  if (!document.expiresAt) {
+    return null;
+  }
+  return Math.ceil((document.expiresAt.getTime() - now.getTime()) / DAY_MS);
+}
+
+/**
+ * Where the document stands against its expiry date. A document stops being valid at the start of
+ * that day, and counts as expiring soon from the first warning on. Null without an expiry date.
+ */
+export function kycExpiryState(document: KYCDocument, now: Date): KYCExpiryState | null {
+  if (document.status === 'expired') {
+    return 'expired';
+  }
+  const days = daysUntilExpiry(document, now);
+  if (days === null) {
+    return null;
+  }
+  if (days <= 0) {
+    return 'expired';
+  }
+  return days <= Math.max(...KYC_EXPIRY_WARNING_DAYS) ? 'expiring_soon' : 'valid';
+}
+
+const FILE_SIGNATURES: Array<{ mimeType: string; bytes: number[] }> = [
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+];
+
+/** The MIME type the file's leading bytes identify, or null for anything other than JPEG, PNG or PDF. */
+export function detectDocumentMimeType(content: Uint8Array): string | null {
+  const match = FILE_SIGNATURES.find(({ bytes }) => bytes.every((byte, index) => content[index] === byte));
+  return match?.mimeType ?? null;
+}
+
 function validateExtractedData(data: ExtractedData | null | undefined): void {
   if (!data) return;
   // No-op: date validations handled at ingestion time
 }
 
 export function validateKYCDocument(document: KYCDocument): void {
-  assert(document.filePath.length > 0, 'File path required');
+  assert(document.filePath === null || document.filePath.length > 0, 'File path required');
   assert(document.fileName.length > 0, 'File name required');
   assert(document.fileSize > 0 && document.fileSize <= MAX_FILE_SIZE_BYTES, 'File size must be between 0 and 10MB', 'INVALID_FILE_SIZE');
   assert(ALLOWED_MIME_TYPES.has(document.mimeType), `Unsupported MIME type: ${document.mimeType}`, 'INVALID_MIME_TYPE');
   assert(document.accessHash.length >= 16, 'accessHash must be secure');
   validateExtractedData(document.extractedData ?? null);
+  if (document.faceMatchScore !== null && document.faceMatchScore !== undefined) {
+    assert(document.faceMatchScore >= 0 && document.faceMatchScore <= 1, 'Face match score must be between 0 and 1');
+  }
 }
 
 export function createKYCDocument(input: CreateKYCDocumentInput): KYCDocument {
@@ -103,10 +181,13 @@ export function createKYCDocument(input: CreateKYCDocumentInput): KYCDocument {
     verificationNotes: null,
     encrypted: input.encrypted,
     accessHash: input.accessHash,
+    encryptedDataKey: null,
     uploadedAt: now,
     processedAt: null,
     expiresAt: input.expiresAt ?? null,
+    expiryWarningDays: null,
     extractedData: null,
+    faceMatchScore: null,
     createdAt: now,
     updatedAt: now,
   };
@@ -120,7 +201,7 @@ export function fromRow(row: KYCDocumentRow): KYCDocument {
     id: row.id,
     userId: row.user_id,
     documentType: row.document_type,
-    filePath: row.file_path,
+    filePath: row.file_path ?? null,
     fileName: row.file_name,
     fileSize: row.file_size,
     mimeType: row.mime_type,
@@ -128,9 +209,11 @@ export function fromRow(row: KYCDocumentRow): KYCDocument {
     verificationNotes: row.verification_notes ?? null,
     encrypted: row.encrypted,
     accessHash: row.access_hash,
+    encryptedDataKey: row.encrypted_data_key ?? null,
     uploadedAt: new Date(row.uploaded_at),
     processedAt: row.processed_at ? new Date(row.processed_at) : null,
     expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+    expiryWarningDays: row.expiry_warning_days ?? null,
     extractedData: row.extracted_data
       ? {
           fullName: row.extracted_data.full_name ?? null,
@@ -140,6 +223,7 @@ export function fromRow(row: KYCDocumentRow): KYCDocument {
           expiryDate: row.extracted_data.expiry_date ? new Date(row.extracted_data.expiry_date) : null,
         }
       : null,
+    faceMatchScore: row.face_match_score === null || row.face_match_score === undefined ? null : Number(row.face_match_score),
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
@@ -163,9 +247,11 @@ export function toRow(document: KYCDocument): KYCDocumentRow {
     verification_notes: document.verificationNotes ?? null,
     encrypted: document.encrypted,
     access_hash: document.accessHash,
+    encrypted_data_key: document.encryptedDataKey ?? null,
     uploaded_at: document.uploadedAt.toISOString(),
     processed_at: document.processedAt ? document.processedAt.toISOString() : null,
     expires_at: document.expiresAt ? document.expiresAt.toISOString() : null,
+    expiry_warning_days: document.expiryWarningDays ?? null,
     extracted_data: document.extractedData
       ? {
           full_name: document.extractedData.fullName ?? null,
@@ -177,6 +263,7 @@ export function toRow(document: KYCDocument): KYCDocumentRow {
           expiry_date: document.extractedData.expiryDate ? document.extractedData.expiryDate.toISOString().split('T')[0] : null,
         }
       : null,
+    face_match_score: document.faceMatchScore ?? null,
     created_at: document.createdAt.toISOString(),
     updated_at: document.updatedAt.toISOString(),
   };
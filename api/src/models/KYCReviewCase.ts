@@ -0,0 +1,107 @@
+/**
+ * KYCReviewCase asks an admin to look at a user's verification by hand, for example after they used
+ * every upload attempt for a document type. Resolving the case lets the user upload again straight
+ * away instead of waiting for the block to run out.
+ */
+
+import { UUID, TimestampedEntity, assert } from './base';
+import { KYCDocumentType } from './KYCDocument';
+
+export type KYCReviewCaseReason = 'upload_attempts_exhausted';
+
+export type KYCReviewCaseStatus = 'open' | 'resolved';
+
+export interface KYCReviewCase extends TimestampedEntity {
+  id: UUID;
+  userId: UUID;
+  documentType: KYCDocumentType;
+  reason: KYCReviewCaseReason;
+  status: KYCReviewCaseStatus;
+  /** When the user may upload again if no admin resolves the case first. */
+  retryAt: Date;
+  resolvedBy: string | null;
+  resolutionNotes: string | null;
+  resolvedAt: Date | null;
+}
+
+export interface KYCReviewCaseRow {
+  id: string;
+  user_id: string;
+  document_type: KYCDocumentType;
+  reason: KYCReviewCaseReason;
+  status: KYCReviewCaseStatus;
+  retry_at: string;
+  resolved_by?: string | null;
+  resolution_notes?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function createKYCReviewCase(input: {
+  id: UUID;
+  userId: UUID;
+  documentType: KYCDocumentType;
+  reason: KYCReviewCaseReason;
+  retryAt: Date;
+  now?: Date;
+}): KYCReviewCase {
+  const now = input.now ?? new Date();
+  const reviewCase: KYCReviewCase = {
+    id: input.id,
+    userId: input.userId,
+    documentType: input.documentType,
+    reason: input.reason,
+    status: 'open',
+    retryAt: input.retryAt,
+    resolvedBy: null,
+    resolutionNotes: null,
+    resolvedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  validateKYCReviewCase(reviewCase);
+  return reviewCase;
+}
+
+export function validateKYCReviewCase(reviewCase: KYCReviewCase): void {
+  if (reviewCase.status === 'resolved') {
+    assert(reviewCase.resolvedBy !== null && reviewCase.resolvedAt !== null, 'A resolved case needs the resolving admin and time');
+  }
+}
+
+export function fromRow(row: KYCReviewCaseRow): KYCReviewCase {
+  const reviewCase: KYCReviewCase = {
+    id: row.id,
+    userId: row.user_id,
+    documentType: row.document_type,
+    reason: row.reason,
+    status: row.status,
+    retryAt: new Date(row.retry_at),
+    resolvedBy: row.resolved_by ?? null,
+    resolutionNotes: row.resolution_notes ?? null,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validateKYCReviewCase(reviewCase);
+  return reviewCase;
+}
+
+export function toRow(reviewCase: KYCReviewCase): KYCReviewCaseRow {
+  validateKYCReviewCase(reviewCase);
+  return {
+    id: reviewCase.id,
+    user_id: reviewCase.userId,
+    document_type: reviewCase.documentType,
+    reason: reviewCase.reason,
+    status: reviewCase.status,
+    retry_at: reviewCase.retryAt.toISOString(),
+    resolved_by: reviewCase.resolvedBy,
+    resolution_notes: reviewCase.resolutionNotes,
+    resolved_at: reviewCase.resolvedAt ? reviewCase.resolvedAt.toISOString() : null,
+    created_at: reviewCase.createdAt.toISOString(),
+    updated_at: reviewCase.updatedAt.toISOString(),
+  };
+}
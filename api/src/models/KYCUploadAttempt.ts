@@ -0,0 +1,82 @@
+/**
+ * KYCUploadAttempt counts a user's uploads of one document type. Once the count reaches the limit,
+ * uploads of that type are blocked until `blockedUntil` and a review case is opened for an admin.
+ */
+
+import { UUID, assert } from './base';
+import { KYCDocumentType } from './KYCDocument';
+
+export interface KYCUploadAttempt {
+  userId: UUID;
+  documentType: KYCDocumentType;
+  attempts: number;
+  lastAttemptAt: Date | null;
+  blockedUntil: Date | null;
+  updatedAt: Date;
+}
+
+export interface KYCUploadAttemptRow {
+  user_id: string;
+  document_type: KYCDocumentType;
+  attempts: number;
+  last_attempt_at?: string | null;
+  blocked_until?: string | null;
+  updated_at: string;
+}
+
+export const MAX_UPLOAD_ATTEMPTS_PER_TYPE = 3;
+/** How long uploads stay blocked after the last attempt is used, while an admin reviews the case. */
+export const UPLOAD_BLOCK_HOURS = 48;
+
+export function createKYCUploadAttempt(input: { userId: UUID; documentType: KYCDocumentType; now?: Date }): KYCUploadAttempt {
+  return {
+    userId: input.userId,
+    documentType: input.documentType,
+    attempts: 0,
+    lastAttemptAt: null,
+    blockedUntil: null,
+    updatedAt: input.now ?? new Date(),
+  };
+}
+
+export function validateKYCUploadAttempt(attempt: KYCUploadAttempt): void {
+  assert(Number.isInteger(attempt.attempts) && attempt.attempts >= 0, 'Upload attempts must be a non-negative integer');
+}
+
+/** Whether uploads of this type are blocked at `now`. */
+export function isUploadBlocked(attempt: KYCUploadAttempt, now: Date): boolean {
+  return attempt.blockedUntil !== null && attempt.blockedUntil.getTime() > now.getTime();
+}
+
+/** Attempts left before the block, counting a block that has run out as a fresh start. */
+export function remainingUploadAttempts(attempt: KYCUploadAttempt | null | undefined, now: Date): number {
+  if (!attempt || (attempt.blockedUntil && !isUploadBlocked(attempt, now))) {
+    return MAX_UPLOAD_ATTEMPTS_PER_TYPE;
+  }
+  return Math.max(0, MAX_UPLOAD_ATTEMPTS_PER_TYPE - attempt.attempts);
+}
+
+export function fromRow(row: KYCUploadAttemptRow): KYCUploadAttempt {
+  const attempt: KYCUploadAttempt = {
+    userId: row.user_id,
+    documentType: row.document_type,
+    attempts: row.attempts,
+    lastAttemptAt: row.last_attempt_at ? new Date(row.last_attempt_at) : null,
+    blockedUntil: row.blocked_until ? new Date(row.blocked_until) : null,
+    updatedAt: new Date(row.updated_at),
+  };
+  validateKYCUploadAttempt(attempt);
+  return attempt;
+}
+
+export function toRow(attempt: KYCUploadAttempt): KYCUploadAttemptRow {
+  validateKYCUploadAttempt(attempt);
+  return {
+    user_id: attempt.userId,
+    document_type: attempt.documentType,
+    attempts: attempt.attempts,
+    last_attempt_at: attempt.lastAttemptAt ? attempt.lastAttemptAt.toISOString() : null,
+    blocked_until: attempt.blockedUntil ? attempt.blockedUntil.toISOString() : null,
+    updated_at: attempt.updatedAt.toISOString(),
+  };
+}
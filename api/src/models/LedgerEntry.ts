@@ -0,0 +1,181 @@
+/**
+ * LedgerEntry is one balanced journal entry in the append-only double-entry ledger that sits
+ * underneath wallet balances. Every change to a wallet balance posts an entry whose debit and
+ * credit legs sum to the same amount, so any balance can be rebuilt from the ledger at any point
+ * in time.
+ */
+
+import { UUID, assert } from './base';
+
+export type LedgerDirection = 'debit' | 'credit';
+
+/**
+ * Accounts that sit on the other side of wallet movements:
+ * - paystack_clearing: money held at Paystack for top-ups, payments, withdrawals and refunds
+ * - fees: fee revenue charged to users
+ * - interest_expense: yield paid out to users' savings
+ * - transfers_in_transit: P2P transfers debited from the sender but not yet credited
+ * - savings_goals: money users have set aside in savings goals
+ * - investment_pool: savings allocated to the yield pool
+ * - opening_balances: balances that existed before the ledger was introduced
+ */
+export type SystemLedgerAccount =
+  | 'paystack_clearing'
+  | 'fees'
+  | 'interest_expense'
+  | 'transfers_in_transit'
+  | 'savings_goals'
+  | 'investment_pool'
+  | 'opening_balances';
+
+// Assets and expenses grow with debits; wallets, revenue and everything owed to users grow with credits
+const DEBIT_NORMAL_ACCOUNTS = new Set<SystemLedgerAccount>(['paystack_clearing', 'interest_expense', 'opening_balances']);
+
+export interface LedgerLine {
+  accountId: string; // "wallet:<walletId>" or "system:<SystemLedgerAccount>"
+  direction: LedgerDirection;
+  amount: number; // cents, always positive
+}
+
+export interface LedgerEntry {
+  id: UUID;
+  transactionId?: UUID | null;
+  description: string;
+  lines: LedgerLine[];
+  postedAt: Date;
+  createdAt: Date;
+}
+
+export interface LedgerEntryRow {
+  id: string;
+  transaction_id?: string | null;
+  description: string;
+  posted_at: string;
+  created_at: string;
+}
+
+export interface LedgerLineRow {
+  entry_id: string;
+  line_number: number;
+  account_id: string;
+  direction: LedgerDirection;
+  amount: number;
+  posted_at: string;
+}
+
+export interface CreateLedgerEntryInput {
+  id: UUID;
+  transactionId?: UUID | null;
+  description: string;
+  lines: LedgerLine[];
+  postedAt?: Date;
+}
+
+export function walletAccountId(walletId: UUID): string {
+  return `wallet:${walletId}`;
+}
+
+export function systemAccountId(account: SystemLedgerAccount): string {
+  return `system:${account}`;
+}
+
+export function isDebitNormal(accountId: string): boolean {
+  return accountId.startsWith('system:') && DEBIT_NORMAL_ACCOUNTS.has(accountId.slice('system:'.length) as SystemLedgerAccount);
+}
+
+/**
+ * Signed balance of an account from its debit and credit totals, positive on the account's
+ * normal side. A wallet account's balance is what the wallet should hold.
+ */
+export function accountBalance(accountId: string, totals: { debits: number; credits: number }): number {
+  return isDebitNormal(accountId) ? totals.debits - totals.credits : totals.credits - totals.debits;
+}
+
+export function createLedgerEntry(input: CreateLedgerEntryInput): LedgerEntry {
+  const now = new Date();
+  const entry: LedgerEntry = {
+    id: input.id,
+    transactionId: input.transactionId ?? null,
+    description: input.description,
+    lines: input.lines.map((line) => ({ ...line })),
+    postedAt: input.postedAt ?? now,
+    createdAt: now,
+  };
+
+  validateLedgerEntry(entry);
+  return entry;
+}
+
+/**
+ * Records a wallet balance that existed before the ledger did, so wallets funded outside the
+ * ledger still reconcile.
+ */
+export function createOpeningBalanceEntry(input: { id: UUID; walletId: UUID; amount: number; postedAt?: Date }): LedgerEntry {
+  return createLedgerEntry({
+    id: input.id,
+    description: 'Opening balance',
+    lines: [
+      { accountId: systemAccountId('opening_balances'), direction: 'debit', amount: input.amount },
+      { accountId: walletAccountId(input.walletId), direction: 'credit', amount: input.amount },
+    ],
+    postedAt: input.postedAt,
+  });
+}
+
+export function validateLedgerEntry(entry: LedgerEntry): void {
+  assert(entry.description.trim().length > 0, 'Ledger entry description is required');
+  assert(entry.lines.length >= 2, 'Ledger entries need at least two lines', 'UNBALANCED_LEDGER_ENTRY');
+
+  let debits = 0;
+  let credits = 0;
+  for (const line of entry.lines) {
+    assert(line.accountId.trim().length > 0, 'Ledger line account is required');
+    assert(Number.isInteger(line.amount), 'Ledger line amount must be an integer representing cents');
+    assert(line.amount > 0, 'Ledger line amount must be positive');
+    if (line.direction === 'debit') {
+      debits += line.amount;
+    } else {
+      credits += line.amount;
+    }
+  }
+
+  assert(debits === credits, 'Ledger entry debits and credits must balance', 'UNBALANCED_LEDGER_ENTRY');
+}
+
+export function fromRow(row: LedgerEntryRow, lineRows: LedgerLineRow[]): LedgerEntry {
+  const entry: LedgerEntry = {
+    id: row.id,
+    transactionId: row.transaction_id ?? null,
+    description: row.description,
+    lines: [...lineRows]
+      .sort((a, b) => a.line_number - b.line_number)
+      .map((line) => ({ accountId: line.account_id, direction: line.direction, amount: line.amount })),
+    postedAt: new Date(row.posted_at),
+    createdAt: new Date(row.created_at),
+  };
+
+  validateLedgerEntry(entry);
+  return entry;
+}
+
+export function toRow(entry: LedgerEntry): { entry: LedgerEntryRow; lines: LedgerLineRow[] } {
+  validateLedgerEntry(entry);
+  const postedAt = entry.postedAt.toISOString();
+  return {
+    entry: {
+      id: entry.id,
+      transaction_id: entry.transactionId ?? null,
+      description: entry.description,
+      posted_at: postedAt,
+      created_at: entry.createdAt.toISOString(),
+    },
+    lines: entry.lines.map((line, index) => ({
+      entry_id: entry.id,
+      line_number: index + 1,
+      account_id: line.accountId,
+      direction: line.direction,
+      amount: line.amount,
+      posted_at: postedAt,
+    })),
+  };
+}
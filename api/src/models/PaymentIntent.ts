@@ -0,0 +1,45 @@
+/**
+ * PaymentIntent describes the payment a PIN token is issued for: its type, amount and recipient.
+ * Tokens bound to an intent only authorise that exact payment.
+ */
+
+import { createHash } from 'node:crypto';
+
+import { UUID, assert } from './base';
+import { MerchantInfo } from './Transaction';
+
+export type PaymentIntentType = 'payment' | 'transfer_out';
+
+export interface PaymentIntent {
+  transactionType: PaymentIntentType;
+  amount: number; // cents
+  /** From merchantRecipientKey or userRecipientKey. */
+  recipientKey: string;
+}
+
+export function validatePaymentIntent(intent: PaymentIntent): void {
+  assert(
+    intent.transactionType === 'payment' || intent.transactionType === 'transfer_out',
+    'Payment intent type must be payment or transfer_out',
+    'INVALID_PAYMENT_INTENT',
+  );
+  assert(Number.isInteger(intent.amount) && intent.amount > 0, 'Payment intent amount must be a positive integer', 'INVALID_PAYMENT_INTENT');
+  assert(intent.recipientKey.trim().length > 0, 'Payment intent recipient is required', 'INVALID_PAYMENT_INTENT');
+}
+
+export function hashPaymentIntent(intent: PaymentIntent): string {
+  return createHash('sha256')
+    .update(`${intent.transactionType}|${intent.amount}|${intent.recipientKey}`)
+    .digest('hex');
+}
+
+export function merchantRecipientKey(merchant: Pick<MerchantInfo, 'tillNumber' | 'paybillNumber' | 'accountNumber'>): string {
+  if (merchant.tillNumber) {
+    return `till:${merchant.tillNumber}`;
+  }
+  return `paybill:${merchant.paybillNumber ?? ''}:${merchant.accountNumber ?? ''}`;
+}
+
+export function userRecipientKey(recipientUserId: UUID): string {
+  return `user:${recipientUserId}`;
+}
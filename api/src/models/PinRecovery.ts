@@ -0,0 +1,130 @@
+/**
+ * PinRecovery resets a forgotten PIN. It opens once the user proves they hold their phone or email
+ * with an OTP; KYC-approved users must also answer an identity question. The new PIN only replaces
+ * the old one after a cooling-off period, during which the user's outgoing transfers are frozen and
+ * the reset can still be cancelled from a signed-in device.
+ */
+
+import { UUID, TimestampedEntity, assert } from './base';
+
+/**
+ * - verified: the OTP was verified and the new PIN (and identity answer) are awaited until expiresAt
+ * - cooling_off: the new PIN is chosen and takes effect at effectiveAt
+ * - completed: the new PIN replaced the old one
+ * - cancelled: the user cancelled the reset, started another one or let it expire
+ * - failed: the identity question was answered wrong too many times
+ */
+export type PinRecoveryStatus = 'verified' | 'cooling_off' | 'completed' | 'cancelled' | 'failed';
+
+export interface PinRecovery extends TimestampedEntity {
+  id: UUID;
+  userId: UUID;
+  status: PinRecoveryStatus;
+  identityCheckRequired: boolean;
+  identityAttempts: number;
+  /** Hash of the chosen PIN, kept until the cooling-off period ends. */
+  newPinHash: string | null;
+  expiresAt: Date;
+  effectiveAt: Date | null;
+  completedAt: Date | null;
+  cancelledAt: Date | null;
+}
+
+export interface PinRecoveryRow {
+  id: string;
+  user_id: string;
+  status: PinRecoveryStatus;
+  identity_check_required: boolean;
+  identity_attempts: number;
+  new_pin_hash?: string | null;
+  expires_at: string;
+  effective_at?: string | null;
+  completed_at?: string | null;
+  cancelled_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAX_IDENTITY_ATTEMPTS = 3;
+
+export function createPinRecovery(input: {
+  id: UUID;
+  userId: UUID;
+  identityCheckRequired: boolean;
+  expiresAt: Date;
+  now?: Date;
+}): PinRecovery {
+  const now = input.now ?? new Date();
+  const recovery: PinRecovery = {
+    id: input.id,
+    userId: input.userId,
+    status: 'verified',
+    identityCheckRequired: input.identityCheckRequired,
+    identityAttempts: 0,
+    newPinHash: null,
+    expiresAt: input.expiresAt,
+    effectiveAt: null,
+    completedAt: null,
+    cancelledAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  validatePinRecovery(recovery);
+  return recovery;
+}
+
+export function validatePinRecovery(recovery: PinRecovery): void {
+  assert(
+    recovery.identityAttempts >= 0 && recovery.identityAttempts <= MAX_IDENTITY_ATTEMPTS,
+    `Identity attempts must be between 0 and ${MAX_IDENTITY_ATTEMPTS}`,
+  );
+  if (recovery.status === 'cooling_off' || recovery.status === 'completed') {
+    assert(Boolean(recovery.newPinHash) && recovery.effectiveAt !== null, 'A chosen PIN needs its hash and the time it takes effect');
+  }
+  if (recovery.newPinHash) {
+    assert(recovery.newPinHash.length >= 32, 'PIN hash must be stored securely');
+  }
+}
+
+/** Whether the chosen PIN is due to replace the old one. */
+export function isPinRecoveryDue(recovery: PinRecovery, now: Date): boolean {
+  return recovery.status === 'cooling_off' && recovery.effectiveAt !== null && recovery.effectiveAt.getTime() <= now.getTime();
+}
+
+export function fromRow(row: PinRecoveryRow): PinRecovery {
+  const recovery: PinRecovery = {
+    id: row.id,
+    userId: row.user_id,
+    status: row.status,
+    identityCheckRequired: row.identity_check_required,
+    identityAttempts: row.identity_attempts,
+    newPinHash: row.new_pin_hash ?? null,
+    expiresAt: new Date(row.expires_at),
+    effectiveAt: row.effective_at ? new Date(row.effective_at) : null,
+    completedAt: row.completed_at ? new Date(row.completed_at) : null,
+    cancelledAt: row.cancelled_at ? new Date(row.cancelled_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validatePinRecovery(recovery);
+  return recovery;
+}
+
+export function toRow(recovery: PinRecovery): PinRecoveryRow {
+  validatePinRecovery(recovery);
+  return {
+    id: recovery.id,
+    user_id: recovery.userId,
+    status: recovery.status,
+    identity_check_required: recovery.identityCheckRequired,
+    identity_attempts: recovery.identityAttempts,
+    new_pin_hash: recovery.newPinHash,
+    expires_at: recovery.expiresAt.toISOString(),
+    effective_at: recovery.effectiveAt ? recovery.effectiveAt.toISOString() : null,
+    completed_at: recovery.completedAt ? recovery.completedAt.toISOString() : null,
+    cancelled_at: recovery.cancelledAt ? recovery.cancelledAt.toISOString() : null,
+    created_at: recovery.createdAt.toISOString(),
+    updated_at: recovery.updatedAt.toISOString(),
+  };
+}
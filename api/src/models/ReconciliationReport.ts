@@ -0,0 +1,160 @@
+/**
+ * ReconciliationReport collects, per UTC day, the pending transactions whose local state disagreed
+ * with Paystack when the reconciliation sweeper checked them.
+ */
+
+import { UUID, TimestampedEntity, assert } from './base';
+import { TransactionStatus, TransactionType } from './Transaction';
+
+/**
+ * - missed_settlement: Paystack reached a final state but neither the callback nor a webhook arrived
+ * - abandoned_checkout: the customer never completed checkout and the transaction was failed
+ * - amount_mismatch: Paystack collected less than the transaction expects; left pending
+ * - provider_error: Paystack could not be queried; left pending
+ * - settlement_error: applying Paystack's result failed; left pending
+ */
+export type ReconciliationMismatchReason =
+  | 'missed_settlement'
+  | 'abandoned_checkout'
+  | 'amount_mismatch'
+  | 'provider_error'
+  | 'settlement_error';
+
+export type ReconciliationAction = 'completed' | 'failed' | 'cancelled' | 'none';
+
+export interface ReconciliationMismatch {
+  transactionId: UUID;
+  userId: UUID;
+  transactionType: TransactionType;
+  reference: string | null;
+  localStatus: TransactionStatus;
+  providerStatus: string | null;
+  expectedAmount: number;
+  providerAmount: number | null;
+  reason: ReconciliationMismatchReason;
+  action: ReconciliationAction;
+  detail: string | null;
+  detectedAt: Date;
+}
+
+export interface ReconciliationReport extends TimestampedEntity {
+  id: UUID;
+  reportDate: string; // YYYY-MM-DD (UTC)
+  sweeps: number;
+  checked: number;
+  resolved: number;
+  mismatches: ReconciliationMismatch[];
+}
+
+interface ReconciliationMismatchRow {
+  transaction_id: string;
+  user_id: string;
+  transaction_type: TransactionType;
+  reference: string | null;
+  local_status: TransactionStatus;
+  provider_status: string | null;
+  expected_amount: number;
+  provider_amount: number | null;
+  reason: ReconciliationMismatchReason;
+  action: ReconciliationAction;
+  detail: string | null;
+  detected_at: string;
+}
+
+export interface ReconciliationReportRow {
+  id: string;
+  report_date: string;
+  sweeps: number;
+  checked: number;
+  resolved: number;
+  mismatches: ReconciliationMismatchRow[];
+  created_at: string;
+  updated_at: string;
+}
+
+const REPORT_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function reconciliationReportDate(at: Date): string {
+  return at.toISOString().slice(0, 10);
+}
+
+export function isReconciliationReportDate(value: string): boolean {
+  return REPORT_DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+export function createReconciliationReport(input: { id: UUID; reportDate: string; now?: Date }): ReconciliationReport {
+  const now = input.now ?? new Date();
+  const report: ReconciliationReport = {
+    id: input.id,
+    reportDate: input.reportDate,
+    sweeps: 0,
+    checked: 0,
+    resolved: 0,
+    mismatches: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  validateReconciliationReport(report);
+  return report;
+}
+
+export function validateReconciliationReport(report: ReconciliationReport): void {
+  assert(isReconciliationReportDate(report.reportDate), 'Report date must be formatted as YYYY-MM-DD');
+  assert(report.sweeps >= 0 && report.checked >= 0 && report.resolved >= 0, 'Report counters cannot be negative');
+  assert(report.resolved <= report.checked, 'Resolved count cannot exceed checked count');
+}
+
+export function fromRow(row: ReconciliationReportRow): ReconciliationReport {
+  const report: ReconciliationReport = {
+    id: row.id,
+    reportDate: row.report_date,
+    sweeps: row.sweeps,
+    checked: row.checked,
+    resolved: row.resolved,
+    mismatches: (row.mismatches ?? []).map((entry) => ({
+      transactionId: entry.transaction_id,
+      userId: entry.user_id,
+      transactionType: entry.transaction_type,
+      reference: entry.reference ?? null,
+      localStatus: entry.local_status,
+      providerStatus: entry.provider_status ?? null,
+      expectedAmount: entry.expected_amount,
+      providerAmount: entry.provider_amount ?? null,
+      reason: entry.reason,
+      action: entry.action,
+      detail: entry.detail ?? null,
+      detectedAt: new Date(entry.detected_at),
+    })),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validateReconciliationReport(report);
+  return report;
+}
+
+export function toRow(report: ReconciliationReport): ReconciliationReportRow {
+  validateReconciliationReport(report);
+  return {
+    id: report.id,
+    report_date: report.reportDate,
+    sweeps: report.sweeps,
+    checked: report.checked,
+    resolved: report.resolved,
+    mismatches: report.mismatches.map((entry) => ({
+      transaction_id: entry.transactionId,
+      user_id: entry.userId,
+      transaction_type: entry.transactionType,
+      reference: entry.reference,
+      local_status: entry.localStatus,
+      provider_status: entry.providerStatus,
+      expected_amount: entry.expectedAmount,
+      provider_amount: entry.providerAmount,
+      reason: entry.reason,
+      action: entry.action,
+      detail: entry.detail,
+      detected_at: entry.detectedAt.toISOString(),
+    })),
+    created_at: report.createdAt.toISOString(),
+    updated_at: report.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * RefreshToken records a refresh token issued at sign-in. Only a hash of the token is stored. Each
+ * refresh rotates the token: the presented one is marked rotated and a new one joins the same
+ * family, so a rotated token presented again reveals that it was copied.
+ */
+
+import { UUID, TimestampedEntity, assert } from './base';
+
+export interface RefreshToken extends TimestampedEntity {
+  id: UUID;
+  userId: UUID;
+  familyId: UUID; // shared by every token rotated from one sign-in
+  tokenHash: string;
+  expiresAt: Date;
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export interface RefreshTokenRow {
+  id: string;
+  user_id: string;
+  family_id: string;
+  token_hash: string;
+  expires_at: string;
+  rotated_at?: string | null;
+  revoked_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function createRefreshToken(input: {
+  id: UUID;
+  userId: UUID;
+  familyId: UUID;
+  tokenHash: string;
+  expiresAt: Date;
+  now?: Date;
+}): RefreshToken {
+  const now = input.now ?? new Date();
+  const token: RefreshToken = {
+    id: input.id,
+    userId: input.userId,
+    familyId: input.familyId,
+    tokenHash: input.tokenHash,
+    expiresAt: input.expiresAt,
+    rotatedAt: null,
+    revokedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  validateRefreshToken(token);
+  return token;
+}
+
+export function validateRefreshToken(token: RefreshToken): void {
+  assert(token.tokenHash.length > 0, 'Refresh token hash is required');
+  assert(token.expiresAt.getTime() > token.createdAt.getTime(), 'Refresh token must expire after it is issued');
+}
+
+export function fromRow(row: RefreshTokenRow): RefreshToken {
+  const token: RefreshToken = {
+    id: row.id,
+    userId: row.user_id,
+    familyId: row.family_id,
+    tokenHash: row.token_hash,
+    expiresAt: new Date(row.expires_at),
+    rotatedAt: row.rotated_at ? new Date(row.rotated_at) : null,
+    revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validateRefreshToken(token);
+  return token;
+}
+
+export function toRow(token: RefreshToken): RefreshTokenRow {
+  validateRefreshToken(token);
+  return {
+    id: token.id,
+    user_id: token.userId,
+    family_id: token.familyId,
+    token_hash: token.tokenHash,
+    expires_at: token.expiresAt.toISOString(),
+    rotated_at: token.rotatedAt ? token.rotatedAt.toISOString() : null,
+    revoked_at: token.revokedAt ? token.revokedAt.toISOString() : null,
+    created_at: token.createdAt.toISOString(),
+    updated_at: token.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * ScreeningCase holds a possible watchlist match for an admin to rule on. A hit on a customer puts
+ * their account on hold; a hit on a payout recipient holds that one payout. Clearing the case as a
+ * false positive lets the account or payout carry on, confirming it keeps the account held or
+ * cancels the payout.
+ */
+
+import { UUID, TimestampedEntity, assert } from './base';
+import { WatchlistCategory } from './Watchlist';
+
+export type ScreeningTrigger = 'registration' | 'kyc_approval' | 'payout';
+
+export type ScreeningCaseStatus = 'open' | 'cleared' | 'confirmed';
+
+export type ScreeningDecision = 'clear' | 'confirm';
+
+export interface ScreeningMatch {
+  entryId: string;
+  listName: string;
+  category: WatchlistCategory;
+  /** The entry's name or alias that scored highest. */
+  matchedName: string;
+  score: number;
+  /** Null when the entry or the subject has no date of birth to compare. */
+  dateOfBirthMatch: boolean | null;
+}
+
+/** Where a held payout was going, so it can be sent once the case is cleared. */
+export interface PayoutRecipient {
+  name: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface ScreeningCase extends TimestampedEntity {
+  id: UUID;
+  /** The customer screened, or who sent the payout. */
+  userId: UUID;
+  trigger: ScreeningTrigger;
+  subjectName: string;
+  subjectDateOfBirth: Date | null;
+  /** The held transfer_out, for payout cases. */
+  transactionId: UUID | null;
+  payoutRecipient: PayoutRecipient | null;
+  matches: ScreeningMatch[];
+  status: ScreeningCaseStatus;
+  resolvedBy: string | null;
+  resolutionNotes: string | null;
+  resolvedAt: Date | null;
+}
+
+export interface ScreeningMatchRow {
+  entry_id: string;
+  list_name: string;
+  category: WatchlistCategory;
+  matched_name: string;
+  score: number;
+  date_of_birth_match: boolean | null;
+}
+
+export interface ScreeningCaseRow {
+  id: string;
+  user_id: string;
+  trigger: ScreeningTrigger;
+  subject_name: string;
+  subject_date_of_birth?: string | null;
+  transaction_id?: string | null;
+  payout_recipient?: PayoutRecipient | null;
+  matches: ScreeningMatchRow[];
+  status: ScreeningCaseStatus;
+  resolved_by?: string | null;
+  resolution_notes?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function createScreeningCase(input: {
+  id: UUID;
+  userId: UUID;
+  trigger: ScreeningTrigger;
+  subjectName: string;
+  subjectDateOfBirth?: Date | null;
+  transactionId?: UUID | null;
+  payoutRecipient?: PayoutRecipient | null;
+  matches: ScreeningMatch[];
+  now?: Date;
+}): ScreeningCase {
+  const now = input.now ?? new Date();
+  const screeningCase: ScreeningCase = {
+    id: input.id,
+    userId: input.userId,
+    trigger: input.trigger,
+    subjectName: input.subjectName,
+    subjectDateOfBirth: input.subjectDateOfBirth ?? null,
+    transactionId: input.transactionId ?? null,
+    payoutRecipient: input.payoutRecipient ?? null,
+    matches: input.matches,
+    status: 'open',
+    resolvedBy: null,
+    resolutionNotes: null,
+    resolvedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  validateScreeningCase(screeningCase);
+  return screeningCase;
+}
+
+export function validateScreeningCase(screeningCase: ScreeningCase): void {
+  assert(screeningCase.matches.length > 0, 'A screening case needs at least one match');
+  if (screeningCase.trigger === 'payout') {
+    assert(
+      screeningCase.transactionId !== null && screeningCase.payoutRecipient !== null,
+      'A payout case needs the held transaction and its recipient',
+    );
+  }
+  if (screeningCase.status !== 'open') {
+    assert(screeningCase.resolvedBy !== null && screeningCase.resolvedAt !== null, 'A resolved case needs the resolving admin and time');
+  }
+}
+
+export function fromRow(row: ScreeningCaseRow): ScreeningCase {
+  const screeningCase: ScreeningCase = {
+    id: row.id,
+    userId: row.user_id,
+    trigger: row.trigger,
+    subjectName: row.subject_name,
+    subjectDateOfBirth: row.subject_date_of_birth ? new Date(row.subject_date_of_birth) : null,
+    transactionId: row.transaction_id ?? null,
+    payoutRecipient: row.payout_recipient ?? null,
+    matches: row.matches.map((match) => ({
+      entryId: match.entry_id,
+      listName: match.list_name,
+      category: match.category,
+      matchedName: match.matched_name,
+      score: match.score,
+      dateOfBirthMatch: match.date_of_birth_match ?? null,
+    })),
+    status: row.status,
+    resolvedBy: row.resolved_by ?? null,
+    resolutionNotes: row.resolution_notes ?? null,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validateScreeningCase(screeningCase);
+  return screeningCase;
+}
+
+export function toRow(screeningCase: ScreeningCase): ScreeningCaseRow {
+  validateScreeningCase(screeningCase);
+  return {
+    id: screeningCase.id,
+    user_id: screeningCase.userId,
+    trigger: screeningCase.trigger,
+    subject_name: screeningCase.subjectName,
+    subject_date_of_birth: screeningCase.subjectDateOfBirth ? screeningCase.subjectDateOfBirth.toISOString().split('T')[0] : null,
+    transaction_id: screeningCase.transactionId,
+    payout_recipient: screeningCase.payoutRecipient,
+    matches: screeningCase.matches.map((match) => ({
+      entry_id: match.entryId,
+      list_name: match.listName,
+      category: match.category,
+      matched_name: match.matchedName,
+      score: match.score,
+      date_of_birth_match: match.dateOfBirthMatch,
+    })),
+    status: screeningCase.status,
+    resolved_by: screeningCase.resolvedBy,
+    resolution_notes: screeningCase.resolutionNotes,
+    resolved_at: screeningCase.resolvedAt ? screeningCase.resolvedAt.toISOString() : null,
+    created_at: screeningCase.createdAt.toISOString(),
+    updated_at: screeningCase.updatedAt.toISOString(),
+  };
+}
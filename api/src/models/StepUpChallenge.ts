@@ -0,0 +1,168 @@
+/**
+ * StepUpChallenge asks for verification on top of the PIN before a risky payment goes through: one
+ * above the step-up threshold or to a recipient the user has not paid before. It is bound to the
+ * payment it was raised for, so a verified challenge cannot authorise a different amount or recipient.
+ */
+
+import { UUID, TimestampedEntity, assert } from './base';
+import { TransactionType } from './Transaction';
+
+export type StepUpMethod = 'otp' | 'biometric';
+
+export type StepUpReason = 'amount_threshold' | 'new_recipient';
+
+/**
+ * - pending: waiting for the user to verify with one of the allowed methods until expiresAt
+ * - verified: the user verified; the payment it was raised for can be retried once
+ * - consumed: a payment went through with it
+ */
+export type StepUpChallengeStatus = 'pending' | 'verified' | 'consumed';
+
+/** When a payment needs step-up on top of the PIN. */
+export interface StepUpPolicy {
+  /** Payments of at least this many cents need step-up. */
+  amountThreshold: number;
+  /** Whether paying a recipient the user has not paid recently needs step-up. */
+  newRecipients: boolean;
+}
+
+export const DEFAULT_STEP_UP_POLICY: StepUpPolicy = {
+  amountThreshold: 1_000_000, // KES 10,000
+  newRecipients: true,
+};
+
+export interface StepUpChallenge extends TimestampedEntity {
+  id: UUID;
+  userId: UUID;
+  /** Device session the challenge was raised on; biometric confirmation is only accepted from it. */
+  deviceSessionId: UUID | null;
+  transactionType: TransactionType;
+  amount: number; // cents
+  /** Who the payment goes to, e.g. `user:<id>` or `till:<number>`. */
+  recipientKey: string;
+  reasons: StepUpReason[];
+  methods: StepUpMethod[];
+  status: StepUpChallengeStatus;
+  /** OTP session sent for this challenge, if the user asked for a code. */
+  otpSessionId: UUID | null;
+  verifiedMethod: StepUpMethod | null;
+  expiresAt: Date;
+  verifiedAt: Date | null;
+  consumedAt: Date | null;
+}
+
+export interface StepUpChallengeRow {
+  id: string;
+  user_id: string;
+  device_session_id?: string | null;
+  transaction_type: TransactionType;
+  amount: number;
+  recipient_key: string;
+  reasons: StepUpReason[];
+  methods: StepUpMethod[];
+  status: StepUpChallengeStatus;
+  otp_session_id?: string | null;
+  verified_method?: StepUpMethod | null;
+  expires_at: string;
+  verified_at?: string | null;
+  consumed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function createStepUpChallenge(input: {
+  id: UUID;
+  userId: UUID;
+  deviceSessionId?: UUID | null;
+  transactionType: TransactionType;
+  amount: number;
+  recipientKey: string;
+  reasons: StepUpReason[];
+  methods: StepUpMethod[];
+  expiresAt: Date;
+  now?: Date;
+}): StepUpChallenge {
+  const now = input.now ?? new Date();
+  const challenge: StepUpChallenge = {
+    id: input.id,
+    userId: input.userId,
+    deviceSessionId: input.deviceSessionId ?? null,
+    transactionType: input.transactionType,
+    amount: input.amount,
+    recipientKey: input.recipientKey,
+    reasons: [...input.reasons],
+    methods: [...input.methods],
+    status: 'pending',
+    otpSessionId: null,
+    verifiedMethod: null,
+    expiresAt: input.expiresAt,
+    verifiedAt: null,
+    consumedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  validateStepUpChallenge(challenge);
+  return challenge;
+}
+
+export function validateStepUpChallenge(challenge: StepUpChallenge): void {
+  assert(Number.isInteger(challenge.amount) && challenge.amount > 0, 'Step-up amount must be a positive integer');
+  assert(challenge.recipientKey.trim().length > 0, 'Step-up recipient is required');
+  assert(challenge.reasons.length > 0, 'A step-up challenge needs a reason');
+  assert(challenge.methods.length > 0, 'A step-up challenge needs at least one method');
+  if (challenge.status !== 'pending') {
+    assert(
+      challenge.verifiedMethod !== null && challenge.methods.includes(challenge.verifiedMethod) && challenge.verifiedAt !== null,
+      'A verified challenge needs an allowed method and the time it was verified',
+    );
+  }
+  if (challenge.status === 'consumed') {
+    assert(challenge.consumedAt !== null, 'A consumed challenge needs the time it was used');
+  }
+}
+
+export function fromRow(row: StepUpChallengeRow): StepUpChallenge {
+  const challenge: StepUpChallenge = {
+    id: row.id,
+    userId: row.user_id,
+    deviceSessionId: row.device_session_id ?? null,
+    transactionType: row.transaction_type,
+    amount: row.amount,
+    recipientKey: row.recipient_key,
+    reasons: row.reasons ?? [],
+    methods: row.methods ?? [],
+    status: row.status,
+    otpSessionId: row.otp_session_id ?? null,
+    verifiedMethod: row.verified_method ?? null,
+    expiresAt: new Date(row.expires_at),
+    verifiedAt: row.verified_at ? new Date(row.verified_at) : null,
+    consumedAt: row.consumed_at ? new Date(row.consumed_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validateStepUpChallenge(challenge);
+  return challenge;
+}
+
+export function toRow(challenge: StepUpChallenge): StepUpChallengeRow {
+  validateStepUpChallenge(challenge);
+  return {
+    id: challenge.id,
+    user_id: challenge.userId,
+    device_session_id: challenge.deviceSessionId,
+    transaction_type: challenge.transactionType,
+    amount: challenge.amount,
+    recipient_key: challenge.recipientKey,
+    reasons: challenge.reasons,
+    methods: challenge.methods,
+    status: challenge.status,
+    otp_session_id: challenge.otpSessionId,
+    verified_method: challenge.verifiedMethod,
+    expires_at: challenge.expiresAt.toISOString(),
+    verified_at: challenge.verifiedAt ? challenge.verifiedAt.toISOString() : null,
+    consumed_at: challenge.consumedAt ? challenge.consumedAt.toISOString() : null,
+    created_at: challenge.createdAt.toISOString(),
+    updated_at: challenge.updatedAt.toISOString(),
+  };
+}
@@ -14,7 +14,8 @@ export type TransactionType =
   | 'deposit'
   | 'investment_allocation'
   | 'investment_redemption'
-  | 'interest_payout';
+  | 'interest_payout'
+  | 'refund';
 
 export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
 
@@ -30,6 +31,12 @@ export type TransactionCategory =
   | 'transfer'
   | 'other';
 
+/**
+ * Dispute raised against a completed payment. Accepted disputes are refunded to the payer;
+ * declined ones leave the payment standing.
+ */
+export type DisputeStatus = 'open' | 'under_review' | 'accepted' | 'declined';
+
 export type PaymentMethod = 'mpesa' | 'card' | 'internal';
 
 export interface MerchantInfo {
@@ -66,6 +73,10 @@ export interface Transaction extends TimestampedEntity {
   paymentMethod?: PaymentMethod | null;
   merchantInfo?: MerchantInfo | null;
   roundUpDetails?: RoundUpDetails | null;
+  relatedTransactionId?: UUID | null; // refunds point at the payment they reverse
+  refundedAmount?: number;
+  disputeStatus?: DisputeStatus | null;
+  heldForScreening?: boolean; // a payout waiting on an admin's screening decision, not yet sent
   category: TransactionCategory;
   autoCategorized: boolean;
   description?: string | null;
@@ -97,6 +108,10 @@ export interface TransactionRow {
     round_up_rule: string;
     related_transaction_id: string;
   } | null;
+  related_transaction_id?: string | null;
+  refunded_amount?: number | null;
+  dispute_status?: DisputeStatus | null;
+  held_for_screening?: boolean | null;
   category: TransactionCategory;
   auto_categorized: boolean;
   description?: string | null;
@@ -122,6 +137,8 @@ export interface CreateTransactionInput {
   paymentMethod?: PaymentMethod | null;
   merchantInfo?: MerchantInfo | null;
   roundUpDetails?: RoundUpDetails | null;
+  relatedTransactionId?: UUID | null;
+  heldForScreening?: boolean;
   category: TransactionCategory;
   autoCategorized?: boolean;
   description?: string | null;
@@ -151,6 +168,16 @@ function validateRoundUp(details: RoundUpDetails | null | undefined, amount: num
   assert(details.roundUpAmount <= details.originalAmount, 'Round-up amount cannot exceed original transaction amount');
 }
 
+function validateRefunds(transaction: Transaction): void {
+  const refunded = transaction.refundedAmount ?? 0;
+  assert(Number.isInteger(refunded), 'refundedAmount must be expressed in cents (integer)');
+  assert(refunded >= 0, 'refundedAmount cannot be negative');
+  assert(refunded <= transaction.amount, 'refundedAmount cannot exceed the transaction amount', 'REFUND_EXCEEDS_AMOUNT');
+  if (transaction.type === 'refund') {
+    assert(Boolean(transaction.relatedTransactionId), 'Refunds must reference the transaction they reverse');
+  }
+}
+
 function validateRetry(retry: RetryInfo): void {
   assert(retry.retryCount >= 0, 'Retry count cannot be negative');
 }
@@ -160,6 +187,7 @@ export function validateTransaction(transaction: Transaction): void {
   validateFee(transaction.fee);
   validateMerchantInfo(transaction.merchantInfo);
   validateRoundUp(transaction.roundUpDetails, transaction.amount);
+  validateRefunds(transaction);
   validateRetry(transaction.retry);
 }
 
@@ -179,6 +207,10 @@ export function createTransaction(input: CreateTransactionInput): Transaction {
     paymentMethod: input.paymentMethod ?? null,
     merchantInfo: input.merchantInfo ?? null,
     roundUpDetails: input.roundUpDetails ?? null,
+    relatedTransactionId: input.relatedTransactionId ?? null,
+    refundedAmount: 0,
+    disputeStatus: null,
+    heldForScreening: input.heldForScreening ?? false,
     category: input.category,
     autoCategorized: input.autoCategorized ?? true,
     description: input.description ?? null,
@@ -225,6 +257,10 @@ export function fromRow(row: TransactionRow): Transaction {
           relatedTransactionId: row.round_up_details.related_transaction_id,
         }
       : null,
+    relatedTransactionId: row.related_transaction_id ?? null,
+    refundedAmount: row.refunded_amount ?? 0,
+    disputeStatus: row.dispute_status ?? null,
+    heldForScreening: row.held_for_screening ?? false,
     category: row.category,
     autoCategorized: row.auto_categorized,
     description: row.description ?? null,
@@ -273,6 +309,10 @@ export function toRow(transaction: Transaction): TransactionRow {
           related_transaction_id: transaction.roundUpDetails.relatedTransactionId,
         }
       : null,
+    related_transaction_id: transaction.relatedTransactionId ?? null,
+    refunded_amount: transaction.refundedAmount ?? 0,
+    dispute_status: transaction.disputeStatus ?? null,
+    held_for_screening: transaction.heldForScreening ?? false,
     category: transaction.category,
     auto_categorized: transaction.autoCategorized,
     description: transaction.description ?? null,
@@ -0,0 +1,78 @@
+/**
+ * Transaction limits by KYC tier. Each tier caps single transactions and daily and monthly totals
+ * per transaction type, plus the most a user may hold across their wallets.
+ */
+
+import { TransactionType } from './Transaction';
+import { KYCStatus } from './User';
+
+export type LimitTierName = 'basic' | 'verified';
+
+export type LimitedTransactionType = Extract<
+  TransactionType,
+  'payment' | 'bill_payment' | 'transfer_out' | 'withdrawal' | 'deposit'
+>;
+
+export interface TransactionTypeLimit {
+  transactionType: LimitedTransactionType;
+  perTransaction: number; // cents
+  daily: number; // cents, per calendar day
+  monthly: number; // cents, per calendar month
+}
+
+export interface LimitTier {
+  name: LimitTierName;
+  /** Most the user may hold across their wallets; top-ups and incoming transfers above it are refused. */
+  balanceCap: number; // cents
+  limits: TransactionTypeLimit[];
+}
+
+/** Transaction types that add to the user's balance and so count against the balance cap. */
+export const BALANCE_CAPPED_TRANSACTION_TYPES: TransactionType[] = ['deposit', 'transfer_in'];
+
+/** Transaction types that take money out of the user's wallets; a transfer freeze refuses them. */
+export const OUTGOING_TRANSACTION_TYPES: TransactionType[] = ['payment', 'bill_payment', 'transfer_out', 'withdrawal'];
+
+export const KYC_LIMIT_TIERS: Record<KYCStatus, LimitTierName> = {
+  not_started: 'basic',
+  pending: 'basic',
+  rejected: 'basic',
+  approved: 'verified',
+};
+
+/**
+ * Unverified users keep the original KES 5,000 per transaction and KES 20,000 per day. Verifying
+ * identity raises them to KES 150,000 and KES 300,000.
+ */
+export const DEFAULT_LIMIT_TIERS: Record<LimitTierName, LimitTier> = {
+  basic: {
+    name: 'basic',
+    balanceCap: 5_000_000,
+    limits: [
+      limit('payment', 500_000, 2_000_000, 5_000_000),
+      limit('bill_payment', 500_000, 2_000_000, 5_000_000),
+      limit('transfer_out', 500_000, 2_000_000, 5_000_000),
+      limit('withdrawal', 500_000, 2_000_000, 5_000_000),
+      limit('deposit', 500_000, 2_000_000, 5_000_000),
+    ],
+  },
+  verified: {
+    name: 'verified',
+    balanceCap: 50_000_000,
+    limits: [
+      limit('payment', 15_000_000, 30_000_000, 100_000_000),
+      limit('bill_payment', 15_000_000, 30_000_000, 100_000_000),
+      limit('transfer_out', 15_000_000, 30_000_000, 100_000_000),
+      limit('withdrawal', 15_000_000, 30_000_000, 100_000_000),
+      limit('deposit', 15_000_000, 30_000_000, 100_000_000),
+    ],
+  },
+};
+
+function limit(transactionType: LimitedTransactionType, perTransaction: number, daily: number, monthly: number): TransactionTypeLimit {
+  return { transactionType, perTransaction, daily, monthly };
+}
+
+export function findTypeLimit(tier: LimitTier, transactionType: TransactionType): TransactionTypeLimit | null {
+  return tier.limits.find((candidate) => candidate.transactionType === transactionType) ?? null;
+}
@@ -6,6 +6,8 @@ import { UUID, TimestampedEntity, assert } from './base';
 
 export type KYCStatus = 'not_started' | 'pending' | 'approved' | 'rejected';
 export type UserStatus = 'active' | 'suspended' | 'closed';
+/** Why compliance stopped the account from sending money until an admin reviews it. */
+export type ComplianceHold = 'sanctions_screening' | 'aml_alert';
 
 export interface NotificationPreferences {
   pushEnabled: boolean;
@@ -29,6 +31,13 @@ export interface User extends TimestampedEntity {
   pinSetAt?: Date | null;
   failedPinAttempts: number;
   lastFailedAttemptAt?: Date | null;
+  /** Outgoing payments, transfers and withdrawals are refused until then, e.g. while a PIN reset cools off. */
+  transfersFrozenUntil?: Date | null;
+  /**
+   * Outgoing payments, transfers and withdrawals are refused until an admin lifts every hold. Each
+   * review lifts only its own, so clearing a watchlist match leaves an AML freeze in place.
+   */
+  complianceHolds?: ComplianceHold[];
   status: UserStatus;
 }
 
@@ -54,6 +63,8 @@ export interface UserRow {
   pin_set_at?: string | null;
   failed_pin_attempts: number;
   last_failed_attempt_at?: string | null;
+  transfers_frozen_until?: string | null;
+  compliance_holds?: ComplianceHold[] | null;
   status: UserStatus;
 }
 
@@ -107,6 +118,8 @@ export function createUser(input: CreateUserInput): User {
     pinSetAt: null,
     failedPinAttempts: 0,
     lastFailedAttemptAt: null,
+    transfersFrozenUntil: null,
+    complianceHolds: [],
     status: 'active',
     createdAt: now,
     updatedAt: now,
@@ -130,6 +143,12 @@ export function validateUser(user: User): void {
   validateNotificationPreferences(user.notificationPreferences);
 }
 
+/** The user's compliance holds with one placed or lifted, leaving the others as they are. */
+export function setComplianceHold(user: User, hold: ComplianceHold, held: boolean): ComplianceHold[] {
+  const others = (user.complianceHolds ?? []).filter((existing) => existing !== hold);
+  return held ? [...others, hold] : others;
+}
+
 export function fromRow(row: UserRow): User {
   const user: User = {
     id: row.id,
@@ -151,6 +170,8 @@ export function fromRow(row: UserRow): User {
     pinSetAt: row.pin_set_at ? new Date(row.pin_set_at) : null,
     failedPinAttempts: row.failed_pin_attempts,
     lastFailedAttemptAt: row.last_failed_attempt_at ? new Date(row.last_failed_attempt_at) : null,
+    transfersFrozenUntil: row.transfers_frozen_until ? new Date(row.transfers_frozen_until) : null,
+    complianceHolds: row.compliance_holds ?? [],
     status: row.status,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
@@ -185,6 +206,8 @@ export function toRow(user: User): UserRow {
     pin_set_at: user.pinSetAt ? user.pinSetAt.toISOString() : null,
     failed_pin_attempts: user.failedPinAttempts,
     last_failed_attempt_at: user.lastFailedAttemptAt ? user.lastFailedAttemptAt.toISOString() : null,
+    transfers_frozen_until: user.transfersFrozenUntil ? user.transfersFrozenUntil.toISOString() : null,
+    compliance_holds: user.complianceHolds ?? [],
     status: user.status,
   };
 }
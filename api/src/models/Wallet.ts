@@ -19,6 +19,7 @@ export interface Wallet extends TimestampedEntity {
   availableBalance: number; // cents
   lastTransactionAt?: Date | null;
   withdrawalRestrictions?: SavingsWithdrawalRestrictions | null;
+  version: number; // bumped on every save; saves only apply to the version they read
 }
 
 export interface WalletRow {
@@ -34,6 +35,7 @@ export interface WalletRow {
     min_settlement_delay_minutes: number;
     locked_until?: string | null;
   } | null;
+  version?: number;
 }
 
 export interface CreateWalletInput {
@@ -54,6 +56,7 @@ export function validateWallet(wallet: Wallet): void {
   validateAmount(wallet.balance, 'balance');
   validateAmount(wallet.availableBalance, 'availableBalance');
   assert(wallet.availableBalance <= wallet.balance, 'availableBalance cannot exceed balance');
+  assert(Number.isInteger(wallet.version) && wallet.version >= 0, 'version must be a non-negative integer');
   if (wallet.withdrawalRestrictions) {
     assert(wallet.walletType === 'savings', 'Withdrawal restrictions only apply to savings wallets');
     assert(Number.isInteger(wallet.withdrawalRestrictions.minSettlementDelayMinutes), 'minSettlementDelayMinutes must be integer minutes');
@@ -71,6 +74,7 @@ export function createWallet(input: CreateWalletInput): Wallet {
     availableBalance: input.availableBalance ?? 0,
     lastTransactionAt: null,
     withdrawalRestrictions: input.withdrawalRestrictions ?? null,
+    version: 0,
     createdAt: now,
     updatedAt: now,
   };
@@ -95,6 +99,7 @@ export function fromRow(row: WalletRow): Wallet {
             : null,
         }
       : null,
+    version: row.version ?? 0,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
@@ -123,5 +128,6 @@ export function toRow(wallet: Wallet): WalletRow {
             : null,
         }
       : null,
+    version: wallet.version,
   };
 }
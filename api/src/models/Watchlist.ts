@@ -0,0 +1,236 @@
+/**
+ * Watchlist of sanctioned people and politically exposed persons (PEPs) that customers and payout
+ * recipients are screened against. Entries come from a file exported from the consolidated lists,
+ * as JSON or CSV, and names are compared fuzzily so transliterations and typos still match.
+ */
+
+import { assert } from './base';
+
+export type WatchlistCategory = 'sanctions' | 'pep';
+
+export type WatchlistFormat = 'json' | 'csv';
+
+export const WATCHLIST_CATEGORIES: WatchlistCategory[] = ['sanctions', 'pep'];
+export const WATCHLIST_FORMATS: WatchlistFormat[] = ['json', 'csv'];
+
+export interface WatchlistEntry {
+  /** The list's own reference, e.g. the UN or OFAC entry number. */
+  id: string;
+  name: string;
+  aliases: string[];
+  /** YYYY-MM-DD, or just YYYY when the list only gives the year of birth. */
+  dateOfBirth: string | null;
+  /** Which list the entry came from, e.g. UN Consolidated or OFAC SDN. */
+  listName: string;
+  category: WatchlistCategory;
+}
+
+/** The snake_case form read from SCREENING_WATCHLIST_PATH when it is JSON. */
+export interface WatchlistEntryJson {
+  id: string;
+  name: string;
+  aliases?: string[] | null;
+  date_of_birth?: string | null;
+  list_name: string;
+  category: WatchlistCategory;
+}
+
+/** CSV files need these columns, in any order; aliases are separated by semicolons. */
+export const WATCHLIST_CSV_COLUMNS = ['id', 'name', 'aliases', 'date_of_birth', 'list_name', 'category'] as const;
+
+const DATE_OF_BIRTH_PATTERN = /^\d{4}(-\d{2}-\d{2})?$/;
+
+export function validateWatchlistEntry(entry: WatchlistEntry): void {
+  assert(entry.id.trim().length > 0, 'Watchlist entry id is required');
+  assert(normalizeName(entry.name).length > 0, `Watchlist entry ${entry.id} needs a name`);
+  assert(entry.listName.trim().length > 0, `Watchlist entry ${entry.id} needs a list name`);
+  assert(WATCHLIST_CATEGORIES.includes(entry.category), `Watchlist entry ${entry.id} has unknown category ${entry.category}`);
+  assert(
+    entry.dateOfBirth === null || DATE_OF_BIRTH_PATTERN.test(entry.dateOfBirth),
+    `Watchlist entry ${entry.id} date of birth must be YYYY-MM-DD or YYYY`,
+  );
+}
+
+export function fromJson(json: WatchlistEntryJson[] | { entries: WatchlistEntryJson[] }): WatchlistEntry[] {
+  const entries = Array.isArray(json) ? json : json?.entries;
+  assert(Array.isArray(entries), 'Watchlist must be a list of entries');
+  return entries.map((entry) =>
+    toEntry({
+      id: entry.id,
+      name: entry.name,
+      aliases: entry.aliases ?? [],
+      dateOfBirth: entry.date_of_birth ?? null,
+      listName: entry.list_name,
+      category: entry.category,
+    }),
+  );
+}
+
+export function fromCsv(text: string): WatchlistEntry[] {
+  const [header, ...rows] = parseCsv(text).filter((row) => row.some((cell) => cell.trim().length > 0));
+  assert(header !== undefined, 'Watchlist CSV is empty');
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const missing = WATCHLIST_CSV_COLUMNS.filter((column) => !columns.includes(column));
+  assert(missing.length === 0, `Watchlist CSV is missing columns ${missing.join(', ')}`);
+
+  return rows.map((row) => {
+    const cell = (column: (typeof WATCHLIST_CSV_COLUMNS)[number]) => (row[columns.indexOf(column)] ?? '').trim();
+    return toEntry({
+      id: cell('id'),
+      name: cell('name'),
+      aliases: cell('aliases').split(';'),
+      dateOfBirth: cell('date_of_birth') || null,
+      listName: cell('list_name'),
+      category: cell('category').toLowerCase() as WatchlistCategory,
+    });
+  });
+}
+
+function toEntry(entry: WatchlistEntry): WatchlistEntry {
+  const normalized: WatchlistEntry = {
+    ...entry,
+    id: String(entry.id ?? '').trim(),
+    name: String(entry.name ?? '').trim(),
+    aliases: entry.aliases.map((alias) => alias.trim()).filter((alias) => alias.length > 0),
+    listName: String(entry.listName ?? '').trim(),
+  };
+  validateWatchlistEntry(normalized);
+  return normalized;
+}
+
+// RFC 4180: fields may be quoted, and quoted fields may hold commas, newlines and doubled quotes
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Lower case without accents, punctuation or repeated spaces, so "Núñez-Ortega" reads "nunez ortega". */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * How alike two names are, from 0 to 1. Word order does not matter: each word of the name with
+ * fewer words is paired with its closest word in the other, and the score is the average Jaro-Winkler
+ * similarity of those pairs, so a missing middle name still matches. A one-word name is compared with
+ * the whole of the other name instead, so a lone first name does not match everyone who shares it.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a).split(' ').filter(Boolean);
+  const right = normalizeName(b).split(' ').filter(Boolean);
+  if (left.length === 0 || right.length === 0) {
+    return 0;
+  }
+
+  const whole = jaroWinkler([...left].sort().join(' '), [...right].sort().join(' '));
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  if (shorter.length < 2) {
+    return whole;
+  }
+
+  const paired = shorter.reduce((total, word) => total + Math.max(...longer.map((other) => jaroWinkler(word, other))), 0);
+  return Math.max(whole, paired / shorter.length);
+}
+
+/**
+ * Null when either side is unknown, otherwise whether the two agree. An entry with only a year of
+ * birth agrees with any date in that year.
+ */
+export function dateOfBirthMatches(entry: WatchlistEntry, dateOfBirth: Date | null | undefined): boolean | null {
+  if (!entry.dateOfBirth || !dateOfBirth) {
+    return null;
+  }
+  const subject = dateOfBirth.toISOString().slice(0, 10);
+  return entry.dateOfBirth.length === 4 ? subject.startsWith(entry.dateOfBirth) : subject === entry.dateOfBirth;
+}
+
+function jaroWinkler(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j += 1) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches += 1;
+        break;
+      }
+    }
+  }
+  if (matches === 0) {
+    return 0;
+  }
+
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    if (!aMatched[i]) {
+      continue;
+    }
+    while (!bMatched[j]) {
+      j += 1;
+    }
+    if (a[i] !== b[j]) {
+      transpositions += 1;
+    }
+    j += 1;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
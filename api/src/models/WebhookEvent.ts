@@ -0,0 +1,123 @@
+/**
+ * WebhookEvent records every payment-provider callback received, so duplicates can be skipped
+ * and failed deliveries investigated or replayed.
+ */
+
+import { UUID, TimestampedEntity, assert } from './base';
+
+export type WebhookProvider = 'paystack';
+
+/**
+ * - received: stored, processing has not finished
+ * - processed: handled successfully
+ * - failed: handling threw; eligible for replay
+ * - ignored: valid event of a type we do not act on
+ * - rejected: signature did not verify; never processed
+ */
+export type WebhookEventStatus = 'received' | 'processed' | 'failed' | 'ignored' | 'rejected';
+
+export interface WebhookEvent extends TimestampedEntity {
+  id: UUID;
+  provider: WebhookProvider;
+  eventId: string;
+  eventType: string;
+  reference: string | null;
+  payload: Record<string, unknown>;
+  signatureValid: boolean;
+  status: WebhookEventStatus;
+  attempts: number;
+  lastError: string | null;
+  processedAt: Date | null;
+}
+
+export interface WebhookEventRow {
+  id: string;
+  provider: WebhookProvider;
+  event_id: string;
+  event_type: string;
+  reference?: string | null;
+  payload: Record<string, unknown>;
+  signature_valid: boolean;
+  status: WebhookEventStatus;
+  attempts: number;
+  last_error?: string | null;
+  processed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function createWebhookEvent(input: {
+  id: UUID;
+  provider?: WebhookProvider;
+  eventId: string;
+  eventType: string;
+  reference?: string | null;
+  payload: Record<string, unknown>;
+  signatureValid: boolean;
+  status?: WebhookEventStatus;
+}): WebhookEvent {
+  const now = new Date();
+  const event: WebhookEvent = {
+    id: input.id,
+    provider: input.provider ?? 'paystack',
+    eventId: input.eventId,
+    eventType: input.eventType,
+    reference: input.reference ?? null,
+    payload: input.payload,
+    signatureValid: input.signatureValid,
+    status: input.status ?? (input.signatureValid ? 'received' : 'rejected'),
+    attempts: 0,
+    lastError: null,
+    processedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  validateWebhookEvent(event);
+  return event;
+}
+
+export function validateWebhookEvent(event: WebhookEvent): void {
+  assert(event.eventId.trim().length > 0, 'Webhook event id is required');
+  assert(event.eventType.trim().length > 0, 'Webhook event type is required');
+  assert(Number.isInteger(event.attempts) && event.attempts >= 0, 'Webhook attempts cannot be negative');
+  assert(event.signatureValid || event.status === 'rejected', 'Unsigned webhook events must be rejected');
+}
+
+export function fromRow(row: WebhookEventRow): WebhookEvent {
+  const event: WebhookEvent = {
+    id: row.id,
+    provider: row.provider,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    reference: row.reference ?? null,
+    payload: row.payload ?? {},
+    signatureValid: row.signature_valid,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error ?? null,
+    processedAt: row.processed_at ? new Date(row.processed_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+  validateWebhookEvent(event);
+  return event;
+}
+
+export function toRow(event: WebhookEvent): WebhookEventRow {
+  validateWebhookEvent(event);
+  return {
+    id: event.id,
+    provider: event.provider,
+    event_id: event.eventId,
+    event_type: event.eventType,
+    reference: event.reference,
+    payload: event.payload,
+    signature_valid: event.signatureValid,
+    status: event.status,
+    attempts: event.attempts,
+    last_error: event.lastError,
+    processed_at: event.processedAt ? event.processedAt.toISOString() : null,
+    created_at: event.createdAt.toISOString(),
+    updated_at: event.updatedAt.toISOString(),
+  };
+}
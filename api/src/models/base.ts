@@ -15,11 +15,26 @@ export interface SoftDeleteEntity {
 
 export class ValidationError extends Error {
   public readonly code: string;
+  public readonly details?: Record<string, unknown>;
 
-  constructor(message: string, code = 'VALIDATION_ERROR') {
+  constructor(message: string, code = 'VALIDATION_ERROR', details?: Record<string, unknown>) {
     super(message);
     this.name = 'ValidationError';
     this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Thrown when a record changed between being read and being saved, so the save would overwrite
+ * someone else's update. The caller can re-read and try again.
+ */
+export class ConcurrencyError extends Error {
+  public readonly code = 'CONCURRENT_UPDATE';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConcurrencyError';
   }
 }
 
@@ -0,0 +1,68 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { AccountClosure, AccountClosureRow, fromRow, toRow } from '../models/AccountClosure';
+import { UUID } from '../models/base';
+import { AccountClosureRepository } from '../services/types';
+
+export class SupabaseAccountClosureRepository implements AccountClosureRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(closure: AccountClosure): Promise<AccountClosure> {
+    const { data, error } = await this.client
+      .from('account_closures')
+      .insert(toRow(closure))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create account closure: ${error.message}`);
+    }
+
+    return fromRow(data as AccountClosureRow);
+  }
+
+  async update(closure: AccountClosure): Promise<AccountClosure> {
+    const { data, error } = await this.client
+      .from('account_closures')
+      .update(toRow(closure))
+      .eq('id', closure.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update account closure: ${error.message}`);
+    }
+
+    return fromRow(data as AccountClosureRow);
+  }
+
+  async findByUserId(userId: UUID): Promise<AccountClosure | null> {
+    const { data, error } = await this.client
+      .from('account_closures')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find account closure: ${error.message}`);
+    }
+
+    return data ? fromRow(data as AccountClosureRow) : null;
+  }
+
+  async listDue(now: Date, options: { limit: number }): Promise<AccountClosure[]> {
+    const { data, error } = await this.client
+      .from('account_closures')
+      .select('*')
+      .eq('status', 'closed')
+      .lte('anonymise_after', now.toISOString())
+      .order('anonymise_after', { ascending: true })
+      .limit(options.limit);
+
+    if (error) {
+      throw new Error(`Failed to list account closures due for anonymisation: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as AccountClosureRow));
+  }
+}
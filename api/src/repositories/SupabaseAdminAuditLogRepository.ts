@@ -0,0 +1,43 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { AdminAuditEntry, AdminAuditEntryRow, AdminAuditTargetType, fromRow, toRow } from '../models/AdminAuditEntry';
+import { UUID } from '../models/base';
+import { AdminAuditLogRepository } from '../services/types';
+
+export class SupabaseAdminAuditLogRepository implements AdminAuditLogRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async append(entry: AdminAuditEntry): Promise<AdminAuditEntry> {
+    const { data, error } = await this.client
+      .from('admin_audit_log')
+      .insert(toRow(entry))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record admin audit entry: ${error.message}`);
+    }
+
+    return fromRow(data as AdminAuditEntryRow);
+  }
+
+  async listByTarget(
+    targetType: AdminAuditTargetType,
+    targetId: UUID,
+    options: { limit: number },
+  ): Promise<AdminAuditEntry[]> {
+    const { data, error } = await this.client
+      .from('admin_audit_log')
+      .select('*')
+      .eq('target_type', targetType)
+      .eq('target_id', targetId)
+      .order('created_at', { ascending: false })
+      .limit(options.limit);
+
+    if (error) {
+      throw new Error(`Failed to list admin audit entries: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as AdminAuditEntryRow));
+  }
+}
@@ -0,0 +1,96 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { AmlAlert, AmlAlertRow, AmlAlertStatus, fromRow, toRow } from '../models/AmlAlert';
+import { ConcurrencyError, UUID } from '../models/base';
+import { AmlAlertRepository } from '../services/types';
+
+export class SupabaseAmlAlertRepository implements AmlAlertRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(alert: AmlAlert): Promise<AmlAlert> {
+    const { data, error } = await this.client.from('aml_alerts').insert(toRow(alert)).select('*').single();
+
+    // Unique violation of idx_aml_alerts_open_rule: another scan opened the rule's alert first
+    if (error?.code === '23505') {
+      throw new ConcurrencyError(`User ${alert.userId} already has an open ${alert.ruleId} alert`);
+    }
+    if (error) {
+      throw new Error(`Failed to create AML alert: ${error.message}`);
+    }
+
+    return fromRow(data as AmlAlertRow);
+  }
+
+  async update(alert: AmlAlert): Promise<AmlAlert> {
+    const { data, error } = await this.client
+      .from('aml_alerts')
+      .update(toRow(alert))
+      .eq('id', alert.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update AML alert: ${error.message}`);
+    }
+
+    return fromRow(data as AmlAlertRow);
+  }
+
+  async updateIfUnchanged(alert: AmlAlert, expectedUpdatedAt: Date): Promise<AmlAlert> {
+    const { data, error } = await this.client
+      .from('aml_alerts')
+      .update(toRow(alert))
+      .eq('id', alert.id)
+      .eq('updated_at', expectedUpdatedAt.toISOString())
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update AML alert: ${error.message}`);
+    }
+    if (!data) {
+      throw new ConcurrencyError(`AML alert ${alert.id} changed since it was read`);
+    }
+
+    return fromRow(data as AmlAlertRow);
+  }
+
+  async findById(alertId: UUID): Promise<AmlAlert | null> {
+    const { data, error } = await this.client.from('aml_alerts').select('*').eq('id', alertId).maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find AML alert: ${error.message}`);
+    }
+
+    return data ? fromRow(data as AmlAlertRow) : null;
+  }
+
+  async listByUser(userId: UUID): Promise<AmlAlert[]> {
+    const { data, error } = await this.client
+      .from('aml_alerts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list AML alerts for user: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as AmlAlertRow));
+  }
+
+  async listByStatus(status: AmlAlertStatus, options: { limit: number; offset: number }): Promise<AmlAlert[]> {
+    const { data, error } = await this.client
+      .from('aml_alerts')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: true })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list AML alerts: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as AmlAlertRow));
+  }
+}
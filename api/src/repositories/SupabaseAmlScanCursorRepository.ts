@@ -0,0 +1,39 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { AmlScanCursorRepository, TransactionCursor } from '../services/types';
+
+interface AmlScanCursorRow {
+  id: boolean;
+  scanned_until: string;
+  last_transaction_id: string;
+  updated_at: string;
+}
+
+export class SupabaseAmlScanCursorRepository implements AmlScanCursorRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async find(): Promise<TransactionCursor | null> {
+    const { data, error } = await this.client.from('aml_scan_cursor').select('*').eq('id', true).maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find AML scan cursor: ${error.message}`);
+    }
+
+    const row = data as AmlScanCursorRow | null;
+    return row ? { updatedAt: new Date(row.scanned_until), id: row.last_transaction_id } : null;
+  }
+
+  async save(cursor: TransactionCursor): Promise<void> {
+    const row: AmlScanCursorRow = {
+      id: true,
+      scanned_until: cursor.updatedAt.toISOString(),
+      last_transaction_id: cursor.id,
+      updated_at: new Date().toISOString(),
+    };
+    const { error } = await this.client.from('aml_scan_cursor').upsert(row, { onConflict: 'id' });
+
+    if (error) {
+      throw new Error(`Failed to save AML scan cursor: ${error.message}`);
+    }
+  }
+}
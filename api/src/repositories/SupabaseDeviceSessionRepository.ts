@@ -0,0 +1,66 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { DeviceSession, DeviceSessionRow, fromRow, toRow } from '../models/DeviceSession';
+import { UUID } from '../models/base';
+import { DeviceSessionRepository } from '../services/types';
+
+export class SupabaseDeviceSessionRepository implements DeviceSessionRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(session: DeviceSession): Promise<DeviceSession> {
+    const { data, error } = await this.client
+      .from('device_sessions')
+      .insert(toRow(session))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create device session: ${error.message}`);
+    }
+
+    return fromRow(data as DeviceSessionRow);
+  }
+
+  async update(session: DeviceSession): Promise<DeviceSession> {
+    const { data, error } = await this.client
+      .from('device_sessions')
+      .update(toRow(session))
+      .eq('id', session.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update device session: ${error.message}`);
+    }
+
+    return fromRow(data as DeviceSessionRow);
+  }
+
+  async findById(sessionId: UUID): Promise<DeviceSession | null> {
+    const { data, error } = await this.client
+      .from('device_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find device session: ${error.message}`);
+    }
+
+    return data ? fromRow(data as DeviceSessionRow) : null;
+  }
+
+  async listByUser(userId: UUID): Promise<DeviceSession[]> {
+    const { data, error } = await this.client
+      .from('device_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_seen_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list device sessions: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as DeviceSessionRow));
+  }
+}
@@ -0,0 +1,70 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { UUID } from '../models/base';
+import { FundHold, FundHoldRow, fromRow, toRow } from '../models/FundHold';
+import { FundHoldRepository } from '../services/types';
+
+export class SupabaseFundHoldRepository implements FundHoldRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(hold: FundHold): Promise<FundHold> {
+    const { data, error } = await this.client
+      .from('fund_holds')
+      .insert(toRow(hold))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create fund hold: ${error.message}`);
+    }
+
+    return fromRow(data as FundHoldRow);
+  }
+
+  async update(hold: FundHold): Promise<FundHold> {
+    const { data, error } = await this.client
+      .from('fund_holds')
+      .update(toRow(hold))
+      .eq('id', hold.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update fund hold: ${error.message}`);
+    }
+
+    return fromRow(data as FundHoldRow);
+  }
+
+  async findLatestByTransactionId(transactionId: UUID): Promise<FundHold | null> {
+    const { data, error } = await this.client
+      .from('fund_holds')
+      .select('*')
+      .eq('transaction_id', transactionId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find fund hold: ${error.message}`);
+    }
+
+    return data ? fromRow(data as FundHoldRow) : null;
+  }
+
+  async listExpired(now: Date, options: { limit: number }): Promise<FundHold[]> {
+    const { data, error } = await this.client
+      .from('fund_holds')
+      .select('*')
+      .eq('status', 'held')
+      .lte('expires_at', now.toISOString())
+      .order('expires_at', { ascending: true })
+      .limit(options.limit);
+
+    if (error) {
+      throw new Error(`Failed to list expired fund holds: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as FundHoldRow));
+  }
+}
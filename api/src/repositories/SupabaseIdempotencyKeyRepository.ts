@@ -0,0 +1,75 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { IdempotencyRecord, IdempotencyRecordRow, fromRow, toRow } from '../models/IdempotencyRecord';
+import { UUID } from '../models/base';
+import { IdempotencyKeyRepository } from '../services/types';
+
+export class SupabaseIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(record: IdempotencyRecord): Promise<IdempotencyRecord> {
+    const { data, error } = await this.client
+      .from('idempotency_keys')
+      .insert(toRow(record))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to store idempotency key: ${error.message}`);
+    }
+
+    return fromRow(data as IdempotencyRecordRow);
+  }
+
+  async update(record: IdempotencyRecord): Promise<IdempotencyRecord> {
+    const { data, error } = await this.client
+      .from('idempotency_keys')
+      .update(toRow(record))
+      .eq('id', record.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update idempotency key: ${error.message}`);
+    }
+
+    return fromRow(data as IdempotencyRecordRow);
+  }
+
+  async findByKey(userId: UUID, key: string): Promise<IdempotencyRecord | null> {
+    const { data, error } = await this.client
+      .from('idempotency_keys')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('idempotency_key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find idempotency key: ${error.message}`);
+    }
+
+    return data ? fromRow(data as IdempotencyRecordRow) : null;
+  }
+
+  async delete(recordId: UUID): Promise<void> {
+    const { error } = await this.client.from('idempotency_keys').delete().eq('id', recordId);
+
+    if (error) {
+      throw new Error(`Failed to delete idempotency key: ${error.message}`);
+    }
+  }
+
+  async deleteExpired(before: Date): Promise<number> {
+    const { data, error } = await this.client
+      .from('idempotency_keys')
+      .delete()
+      .lt('expires_at', before.toISOString())
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to purge idempotency keys: ${error.message}`);
+    }
+
+    return (data ?? []).length;
+  }
+}
@@ -1,6 +1,6 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 
-import { KYCDocument, KYCDocumentRow, toRow, fromRow } from '../models/KYCDocument';
+import { KYCDocument, KYCDocumentRow, KYCDocumentStatus, KYCDocumentType, toRow, fromRow } from '../models/KYCDocument';
 import { UUID } from '../models/base';
 import { KYCDocumentRepository } from '../services/types';
 
@@ -46,6 +46,8 @@ export class SupabaseKYCDocumentRepository implements KYCDocumentRepository {
       .select('*')
       .eq('user_id', userId)
       .eq('document_type', type)
+      .order('created_at', { ascending: false })
+      .limit(1)
       .maybeSingle();
 
     if (error) {
@@ -82,4 +84,41 @@ export class SupabaseKYCDocumentRepository implements KYCDocumentRepository {
 
     return (data as KYCDocumentRow[]).map(fromRow);
   }
+
+  async listByStatus(
+    statuses: KYCDocumentStatus[],
+    options: { documentType?: KYCDocumentType; limit: number; offset: number },
+  ): Promise<KYCDocument[]> {
+    let query = this.client.from('kyc_documents').select('*').in('status', statuses);
+    if (options.documentType) {
+      query = query.eq('document_type', options.documentType);
+    }
+
+    const { data, error } = await query
+      .order('uploaded_at', { ascending: true })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list KYC documents by status: ${error.message}`);
+    }
+
+    return (data as KYCDocumentRow[]).map(fromRow);
+  }
+
+  async listApprovedExpiringBefore(cutoff: Date, options: { limit: number }): Promise<KYCDocument[]> {
+    const { data, error } = await this.client
+      .from('kyc_documents')
+      .select('*')
+      .eq('status', 'approved')
+      .not('expires_at', 'is', null)
+      .lt('expires_at', cutoff.toISOString())
+      .order('expires_at', { ascending: true })
+      .limit(options.limit);
+
+    if (error) {
+      throw new Error(`Failed to list expiring KYC documents: ${error.message}`);
+    }
+
+    return (data as KYCDocumentRow[]).map(fromRow);
+  }
 }
@@ -0,0 +1,80 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { KYCDocumentType } from '../models/KYCDocument';
+import { KYCReviewCase, KYCReviewCaseRow, KYCReviewCaseStatus, fromRow, toRow } from '../models/KYCReviewCase';
+import { UUID } from '../models/base';
+import { KYCReviewCaseRepository } from '../services/types';
+
+export class SupabaseKYCReviewCaseRepository implements KYCReviewCaseRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(reviewCase: KYCReviewCase): Promise<KYCReviewCase> {
+    const { data, error } = await this.client
+      .from('kyc_review_cases')
+      .insert(toRow(reviewCase))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create KYC review case: ${error.message}`);
+    }
+
+    return fromRow(data as KYCReviewCaseRow);
+  }
+
+  async update(reviewCase: KYCReviewCase): Promise<KYCReviewCase> {
+    const { data, error } = await this.client
+      .from('kyc_review_cases')
+      .update(toRow(reviewCase))
+      .eq('id', reviewCase.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update KYC review case: ${error.message}`);
+    }
+
+    return fromRow(data as KYCReviewCaseRow);
+  }
+
+  async findById(caseId: UUID): Promise<KYCReviewCase | null> {
+    const { data, error } = await this.client.from('kyc_review_cases').select('*').eq('id', caseId).maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find KYC review case: ${error.message}`);
+    }
+
+    return data ? fromRow(data as KYCReviewCaseRow) : null;
+  }
+
+  async findOpen(userId: UUID, documentType: KYCDocumentType): Promise<KYCReviewCase | null> {
+    const { data, error } = await this.client
+      .from('kyc_review_cases')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('document_type', documentType)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find open KYC review case: ${error.message}`);
+    }
+
+    return data ? fromRow(data as KYCReviewCaseRow) : null;
+  }
+
+  async listByStatus(status: KYCReviewCaseStatus, options: { limit: number; offset: number }): Promise<KYCReviewCase[]> {
+    const { data, error } = await this.client
+      .from('kyc_review_cases')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: true })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list KYC review cases: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as KYCReviewCaseRow));
+  }
+}
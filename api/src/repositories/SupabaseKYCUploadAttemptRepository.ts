@@ -0,0 +1,49 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { KYCDocumentType } from '../models/KYCDocument';
+import { KYCUploadAttempt, KYCUploadAttemptRow, fromRow, toRow } from '../models/KYCUploadAttempt';
+import { UUID } from '../models/base';
+import { KYCUploadAttemptRepository } from '../services/types';
+
+export class SupabaseKYCUploadAttemptRepository implements KYCUploadAttemptRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async find(userId: UUID, documentType: KYCDocumentType): Promise<KYCUploadAttempt | null> {
+    const { data, error } = await this.client
+      .from('kyc_upload_attempts')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('document_type', documentType)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find KYC upload attempts: ${error.message}`);
+    }
+
+    return data ? fromRow(data as KYCUploadAttemptRow) : null;
+  }
+
+  async listByUser(userId: UUID): Promise<KYCUploadAttempt[]> {
+    const { data, error } = await this.client.from('kyc_upload_attempts').select('*').eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to list KYC upload attempts: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as KYCUploadAttemptRow));
+  }
+
+  async save(attempt: KYCUploadAttempt): Promise<KYCUploadAttempt> {
+    const { data, error } = await this.client
+      .from('kyc_upload_attempts')
+      .upsert(toRow(attempt), { onConflict: 'user_id,document_type' })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save KYC upload attempts: ${error.message}`);
+    }
+
+    return fromRow(data as KYCUploadAttemptRow);
+  }
+}
@@ -0,0 +1,90 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { LedgerEntry, LedgerEntryRow, LedgerLineRow, fromRow, toRow } from '../models/LedgerEntry';
+import { LedgerRepository } from '../services/types';
+
+export class SupabaseLedgerRepository implements LedgerRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async append(entry: LedgerEntry): Promise<LedgerEntry> {
+    const rows = toRow(entry);
+
+    const { error: entryError } = await this.client.from('ledger_entries').insert(rows.entry);
+    if (entryError) {
+      throw new Error(`Failed to append ledger entry: ${entryError.message}`);
+    }
+
+    // All legs go in one statement so an entry is never left half-posted
+    const { error: linesError } = await this.client.from('ledger_lines').insert(rows.lines);
+    if (linesError) {
+      throw new Error(`Failed to append ledger lines: ${linesError.message}`);
+    }
+
+    return entry;
+  }
+
+  async listByAccount(accountId: string, options: { asOf?: Date; limit: number }): Promise<LedgerEntry[]> {
+    let query = this.client
+      .from('ledger_lines')
+      .select('entry_id')
+      .eq('account_id', accountId)
+      .order('posted_at', { ascending: false })
+      .limit(options.limit);
+    if (options.asOf) {
+      query = query.lte('posted_at', options.asOf.toISOString());
+    }
+
+    const { data: matches, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list ledger entries: ${error.message}`);
+    }
+
+    const entryIds = Array.from(new Set((matches ?? []).map((row) => (row as { entry_id: string }).entry_id)));
+    if (entryIds.length === 0) {
+      return [];
+    }
+
+    const [{ data: entryRows, error: entriesError }, { data: lineRows, error: linesError }] = await Promise.all([
+      this.client.from('ledger_entries').select('*').in('id', entryIds),
+      this.client.from('ledger_lines').select('*').in('entry_id', entryIds),
+    ]);
+    if (entriesError || linesError) {
+      throw new Error(`Failed to load ledger entries: ${(entriesError ?? linesError)?.message}`);
+    }
+
+    const linesByEntry = new Map<string, LedgerLineRow[]>();
+    for (const line of (lineRows ?? []) as LedgerLineRow[]) {
+      const lines = linesByEntry.get(line.entry_id) ?? [];
+      lines.push(line);
+      linesByEntry.set(line.entry_id, lines);
+    }
+
+    return ((entryRows ?? []) as LedgerEntryRow[])
+      .map((row) => fromRow(row, linesByEntry.get(row.id) ?? []))
+      .sort((a, b) => b.postedAt.getTime() - a.postedAt.getTime());
+  }
+
+  async totalsForAccount(accountId: string, asOf?: Date): Promise<{ debits: number; credits: number }> {
+    let query = this.client.from('ledger_lines').select('direction, amount').eq('account_id', accountId);
+    if (asOf) {
+      query = query.lte('posted_at', asOf.toISOString());
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to total ledger account: ${error.message}`);
+    }
+
+    return ((data ?? []) as Pick<LedgerLineRow, 'direction' | 'amount'>[]).reduce(
+      (totals, line) => {
+        if (line.direction === 'debit') {
+          totals.debits += Number(line.amount);
+        } else {
+          totals.credits += Number(line.amount);
+        }
+        return totals;
+      },
+      { debits: 0, credits: 0 },
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { PinRecovery, PinRecoveryRow, PinRecoveryStatus, fromRow, toRow } from '../models/PinRecovery';
+import { UUID } from '../models/base';
+import { PinRecoveryRepository } from '../services/types';
+
+export class SupabasePinRecoveryRepository implements PinRecoveryRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(recovery: PinRecovery): Promise<PinRecovery> {
+    const { data, error } = await this.client
+      .from('pin_recoveries')
+      .insert(toRow(recovery))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create PIN recovery: ${error.message}`);
+    }
+
+    return fromRow(data as PinRecoveryRow);
+  }
+
+  async updateIfStatus(recovery: PinRecovery, expected: PinRecoveryStatus): Promise<PinRecovery | null> {
+    // Identity attempts are only ever counted by record_pin_recovery_identity_attempt
+    const { identity_attempts: _identityAttempts, ...row } = toRow(recovery);
+    const { data, error } = await this.client
+      .from('pin_recoveries')
+      .update(row)
+      .eq('id', recovery.id)
+      .eq('status', expected)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to update PIN recovery: ${error.message}`);
+    }
+
+    return data ? fromRow(data as PinRecoveryRow) : null;
+  }
+
+  async findById(recoveryId: UUID): Promise<PinRecovery | null> {
+    const { data, error } = await this.client
+      .from('pin_recoveries')
+      .select('*')
+      .eq('id', recoveryId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find PIN recovery: ${error.message}`);
+    }
+
+    return data ? fromRow(data as PinRecoveryRow) : null;
+  }
+
+  async findLatestByUser(userId: UUID): Promise<PinRecovery | null> {
+    const { data, error } = await this.client
+      .from('pin_recoveries')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find PIN recovery: ${error.message}`);
+    }
+
+    return data ? fromRow(data as PinRecoveryRow) : null;
+  }
+
+  async recordIdentityAttempt(
+    recoveryId: UUID,
+    options: { since: Date; maxAttempts: number; now: Date },
+  ): Promise<{ recovery: PinRecovery; attemptsInWindow: number } | null> {
+    const { data, error } = await this.client.rpc('record_pin_recovery_identity_attempt', {
+      p_recovery_id: recoveryId,
+      p_since: options.since.toISOString(),
+      p_max_attempts: options.maxAttempts,
+      p_now: options.now.toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to record PIN recovery identity attempt: ${error.message}`);
+    }
+
+    const result = data as { recovery: PinRecoveryRow; attempts_in_window: number } | null;
+    return result ? { recovery: fromRow(result.recovery), attemptsInWindow: result.attempts_in_window } : null;
+  }
+
+  async listDue(now: Date, options: { limit: number }): Promise<PinRecovery[]> {
+    const { data, error } = await this.client
+      .from('pin_recoveries')
+      .select('*')
+      .eq('status', 'cooling_off')
+      .lte('effective_at', now.toISOString())
+      .order('effective_at', { ascending: true })
+      .limit(options.limit);
+
+    if (error) {
+      throw new Error(`Failed to list due PIN recoveries: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as PinRecoveryRow));
+  }
+}
@@ -0,0 +1,36 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { ReconciliationReport, ReconciliationReportRow, fromRow, toRow } from '../models/ReconciliationReport';
+import { ReconciliationReportRepository } from '../services/types';
+
+export class SupabaseReconciliationReportRepository implements ReconciliationReportRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async findByDate(reportDate: string): Promise<ReconciliationReport | null> {
+    const { data, error } = await this.client
+      .from('reconciliation_reports')
+      .select('*')
+      .eq('report_date', reportDate)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find reconciliation report: ${error.message}`);
+    }
+
+    return data ? fromRow(data as ReconciliationReportRow) : null;
+  }
+
+  async save(report: ReconciliationReport): Promise<ReconciliationReport> {
+    const { data, error } = await this.client
+      .from('reconciliation_reports')
+      .upsert(toRow(report), { onConflict: 'report_date' })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save reconciliation report: ${error.message}`);
+    }
+
+    return fromRow(data as ReconciliationReportRow);
+  }
+}
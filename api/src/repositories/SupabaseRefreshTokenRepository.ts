@@ -0,0 +1,64 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { RefreshToken, RefreshTokenRow, fromRow, toRow } from '../models/RefreshToken';
+import { UUID } from '../models/base';
+import { RefreshTokenRepository } from '../services/types';
+
+export class SupabaseRefreshTokenRepository implements RefreshTokenRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(token: RefreshToken): Promise<RefreshToken> {
+    const { data, error } = await this.client
+      .from('refresh_tokens')
+      .insert(toRow(token))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to store refresh token: ${error.message}`);
+    }
+
+    return fromRow(data as RefreshTokenRow);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<RefreshToken | null> {
+    const { data, error } = await this.client
+      .from('refresh_tokens')
+      .select('*')
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find refresh token: ${error.message}`);
+    }
+
+    return data ? fromRow(data as RefreshTokenRow) : null;
+  }
+
+  async markRotated(tokenId: UUID, at: Date): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('refresh_tokens')
+      .update({ rotated_at: at.toISOString(), updated_at: at.toISOString() })
+      .eq('id', tokenId)
+      .is('rotated_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to rotate refresh token: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  async revokeFamily(familyId: UUID, at: Date): Promise<void> {
+    const { error } = await this.client
+      .from('refresh_tokens')
+      .update({ revoked_at: at.toISOString(), updated_at: at.toISOString() })
+      .eq('family_id', familyId)
+      .is('revoked_at', null);
+
+    if (error) {
+      throw new Error(`Failed to revoke refresh tokens: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { ScreeningCase, ScreeningCaseRow, ScreeningCaseStatus, fromRow, toRow } from '../models/ScreeningCase';
+import { UUID } from '../models/base';
+import { ScreeningCaseRepository } from '../services/types';
+
+export class SupabaseScreeningCaseRepository implements ScreeningCaseRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(screeningCase: ScreeningCase): Promise<ScreeningCase> {
+    const { data, error } = await this.client
+      .from('screening_cases')
+      .insert(toRow(screeningCase))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create screening case: ${error.message}`);
+    }
+
+    return fromRow(data as ScreeningCaseRow);
+  }
+
+  async update(screeningCase: ScreeningCase): Promise<ScreeningCase> {
+    const { data, error } = await this.client
+      .from('screening_cases')
+      .update(toRow(screeningCase))
+      .eq('id', screeningCase.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update screening case: ${error.message}`);
+    }
+
+    return fromRow(data as ScreeningCaseRow);
+  }
+
+  async findById(caseId: UUID): Promise<ScreeningCase | null> {
+    const { data, error } = await this.client.from('screening_cases').select('*').eq('id', caseId).maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find screening case: ${error.message}`);
+    }
+
+    return data ? fromRow(data as ScreeningCaseRow) : null;
+  }
+
+  async listByUser(userId: UUID): Promise<ScreeningCase[]> {
+    const { data, error } = await this.client
+      .from('screening_cases')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list screening cases for user: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as ScreeningCaseRow));
+  }
+
+  async listByStatus(status: ScreeningCaseStatus, options: { limit: number; offset: number }): Promise<ScreeningCase[]> {
+    const { data, error } = await this.client
+      .from('screening_cases')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: true })
+      .range(options.offset, options.offset + options.limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to list screening cases: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as ScreeningCaseRow));
+  }
+}
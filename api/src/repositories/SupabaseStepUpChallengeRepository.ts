@@ -0,0 +1,52 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { StepUpChallenge, StepUpChallengeRow, fromRow, toRow } from '../models/StepUpChallenge';
+import { UUID } from '../models/base';
+import { StepUpChallengeRepository } from '../services/types';
+
+export class SupabaseStepUpChallengeRepository implements StepUpChallengeRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(challenge: StepUpChallenge): Promise<StepUpChallenge> {
+    const { data, error } = await this.client
+      .from('step_up_challenges')
+      .insert(toRow(challenge))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create step-up challenge: ${error.message}`);
+    }
+
+    return fromRow(data as StepUpChallengeRow);
+  }
+
+  async update(challenge: StepUpChallenge): Promise<StepUpChallenge> {
+    const { data, error } = await this.client
+      .from('step_up_challenges')
+      .update(toRow(challenge))
+      .eq('id', challenge.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update step-up challenge: ${error.message}`);
+    }
+
+    return fromRow(data as StepUpChallengeRow);
+  }
+
+  async findById(challengeId: UUID): Promise<StepUpChallenge | null> {
+    const { data, error } = await this.client
+      .from('step_up_challenges')
+      .select('*')
+      .eq('id', challengeId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find step-up challenge: ${error.message}`);
+    }
+
+    return data ? fromRow(data as StepUpChallengeRow) : null;
+  }
+}
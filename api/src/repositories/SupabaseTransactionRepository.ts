@@ -3,13 +3,14 @@ import { SupabaseClient } from '@supabase/supabase-js';
 import {
   Transaction,
   TransactionRow,
+  TransactionType,
   fromRow,
   toRow,
 } from '../models/Transaction';
-import { UUID } from '../models/base';
-import { TransactionRepository } from '../services/types';
+import { ConcurrencyError, UUID } from '../models/base';
+import { TransactionCursor, TransactionRepository } from '../services/types';
 
-const OUTGOING_TRANSACTION_TYPES = ['payment', 'transfer_out', 'bill_payment', 'withdrawal'];
+const RECORD_RETRY_ATTEMPTS = 3;
 
 export class SupabaseTransactionRepository implements TransactionRepository {
   constructor(private readonly client: SupabaseClient) {}
@@ -47,27 +48,57 @@ export class SupabaseTransactionRepository implements TransactionRepository {
     return fromRow(data as TransactionRow);
   }
 
-  async sumUserTransactionsForDay(userId: UUID, dayStart: Date): Promise<number> {
-    const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+  async recordRetry(transactionId: UUID, retry: { lastRetryAt: Date; nextRetryAt: Date | null }): Promise<Transaction | null> {
+    // The count is only bumped from the value it was read at, so two runs recording at once both count
+    for (let attempt = 0; attempt < RECORD_RETRY_ATTEMPTS; attempt += 1) {
+      // eslint-disable-next-line no-await-in-loop
+      const current = await this.findById(transactionId);
+      if (!current) {
+        return null;
+      }
+
+      // eslint-disable-next-line no-await-in-loop
+      const { data, error } = await this.client
+        .from('transactions')
+        .update({
+          retry_count: current.retry.retryCount + 1,
+          last_retry_at: retry.lastRetryAt.toISOString(),
+          next_retry_at: retry.nextRetryAt ? retry.nextRetryAt.toISOString() : null,
+          updated_at: retry.lastRetryAt.toISOString(),
+        })
+        .eq('id', transactionId)
+        .eq('retry_count', current.retry.retryCount)
+        .select('*')
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Failed to record transaction retry: ${error.message}`);
+      }
+      if (data) {
+        return fromRow(data as TransactionRow);
+      }
+    }
+
+    throw new ConcurrencyError(`Retry count of transaction ${transactionId} kept changing`);
+  }
 
+  async sumUserTransactionsByType(userId: UUID, since: Date): Promise<Partial<Record<TransactionType, number>>> {
     const { data, error } = await this.client
       .from('transactions')
       .select('amount, type, status')
       .eq('user_id', userId)
-      .in('type', OUTGOING_TRANSACTION_TYPES)
-      .gte('created_at', dayStart.toISOString())
-      .lt('created_at', dayEnd.toISOString());
+      .gte('created_at', since.toISOString())
+      .not('status', 'in', '(failed,cancelled)');
 
     if (error) {
       throw new Error(`Failed to sum user transactions: ${error.message}`);
     }
 
-    return (data as { amount: number; status: string }[]).reduce((total, row) => {
-      if (row.status === 'failed' || row.status === 'cancelled') {
-        return total;
-      }
-      return total + Number(row.amount ?? 0);
-    }, 0);
+    const totals: Partial<Record<TransactionType, number>> = {};
+    for (const row of data as { amount: number; type: TransactionType }[]) {
+      totals[row.type] = (totals[row.type] ?? 0) + Number(row.amount ?? 0);
+    }
+    return totals;
   }
 
   async listRecentTransactions(userId: UUID, since: Date): Promise<Transaction[]> {
@@ -170,4 +201,72 @@ export class SupabaseTransactionRepository implements TransactionRepository {
 
     return data ? fromRow(data as TransactionRow) : null;
   }
+
+  async findByExternalTransactionId(externalTransactionId: string): Promise<Transaction | null> {
+    const { data, error } = await this.client
+      .from('transactions')
+      .select('*')
+      .eq('external_transaction_id', externalTransactionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find transaction by external transaction id: ${error.message}`);
+    }
+
+    return data ? fromRow(data as TransactionRow) : null;
+  }
+
+  async listPendingCreatedBefore(
+    cutoff: Date,
+    options: { types: TransactionType[]; limit: number },
+  ): Promise<Transaction[]> {
+    const { data, error } = await this.client
+      .from('transactions')
+      .select('*')
+      .eq('status', 'pending')
+      .in('type', options.types)
+      .lte('created_at', cutoff.toISOString())
+      .order('created_at', { ascending: true })
+      .limit(options.limit);
+
+    if (error) {
+      throw new Error(`Failed to list pending transactions: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as TransactionRow));
+  }
+
+  async listCompletedAfter(cursor: TransactionCursor, options: { limit: number }): Promise<Transaction[]> {
+    const updatedAt = cursor.updatedAt.toISOString();
+    const { data, error } = await this.client
+      .from('transactions')
+      .select('*')
+      .eq('status', 'completed')
+      .or(`updated_at.gt.${updatedAt},and(updated_at.eq.${updatedAt},id.gt.${cursor.id})`)
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(options.limit);
+
+    if (error) {
+      throw new Error(`Failed to list completed transactions: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as TransactionRow));
+  }
+
+  async listCompletedByUser(userId: UUID, since: Date): Promise<Transaction[]> {
+    const { data, error } = await this.client
+      .from('transactions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'completed')
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list completed transactions for user: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as TransactionRow));
+  }
 }
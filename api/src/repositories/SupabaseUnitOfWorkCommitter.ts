@@ -0,0 +1,45 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { ConcurrencyError } from '../models/base';
+import { toRow as fundHoldToRow } from '../models/FundHold';
+import { toRow as ledgerEntryToRow } from '../models/LedgerEntry';
+import { toRow as transactionToRow } from '../models/Transaction';
+import { toRow as walletToRow } from '../models/Wallet';
+import { UnitOfWorkChanges, UnitOfWorkCommitter } from '../services/types';
+
+/**
+ * Commits a unit of work through the commit_unit_of_work database function, which applies every
+ * write in one database transaction.
+ */
+export class SupabaseUnitOfWorkCommitter implements UnitOfWorkCommitter {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async commit(changes: UnitOfWorkChanges): Promise<void> {
+    const ledgerRows = changes.ledgerEntries.map(ledgerEntryToRow);
+
+    const { error } = await this.client.rpc('commit_unit_of_work', {
+      p_wallets: changes.wallets.map(({ wallet, expectedVersion }) => ({
+        expected_version: expectedVersion,
+        row: walletToRow(wallet),
+      })),
+      p_transactions: changes.transactions.map(({ transaction, isNew, expectedStatus }) => ({
+        is_new: isNew,
+        expected_status: expectedStatus,
+        row: transactionToRow(transaction),
+      })),
+      p_ledger_entries: ledgerRows.map((rows) => rows.entry),
+      p_ledger_lines: ledgerRows.flatMap((rows) => rows.lines),
+      p_fund_holds: changes.fundHolds.map(({ hold, isNew }) => ({
+        is_new: isNew,
+        row: fundHoldToRow(hold),
+      })),
+    });
+
+    if (error) {
+      if (error.message.includes('WALLET_VERSION_CONFLICT') || error.message.includes('TRANSACTION_STATUS_CONFLICT')) {
+        throw new ConcurrencyError(error.message);
+      }
+      throw new Error(`Failed to commit unit of work: ${error.message}`);
+    }
+  }
+}
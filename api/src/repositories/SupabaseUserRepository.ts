@@ -1,6 +1,6 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 
-import { User, UserRow, fromRow, toRow } from '../models/User';
+import { ComplianceHold, User, UserRow, fromRow, toRow } from '../models/User';
 import { UUID } from '../models/base';
 import { UserRepository } from '../services/types';
 
@@ -84,6 +84,45 @@ export class SupabaseUserRepository implements UserRepository {
     return fromRow(data);
   }
 
+  async search(query: string, options: { limit: number }): Promise<User[]> {
+    // Commas, parentheses and wildcards would change the meaning of the or() filter
+    const term = query.replace(/[,()%_*\\]/g, ' ').trim();
+    if (term.length === 0) {
+      return [];
+    }
+    const pattern = `%${term}%`;
+
+    const { data, error } = await this.client
+      .from('users')
+      .select('*')
+      .or(`email.ilike.${pattern},phone.ilike.${pattern},first_name.ilike.${pattern},last_name.ilike.${pattern}`)
+      .order('created_at', { ascending: false })
+      .limit(options.limit);
+
+    if (error) {
+      throw new Error(`Failed to search users: ${error.message}`);
+    }
+
+    return (data ?? []).map(fromRow);
+  }
+
+  async setComplianceHold(userId: UUID, hold: ComplianceHold, held: boolean, now: Date): Promise<User | null> {
+    const { data, error } = await this.client
+      .rpc('set_compliance_hold', {
+        p_user_id: userId,
+        p_hold: hold,
+        p_held: held,
+        p_now: now.toISOString(),
+      })
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to set compliance hold: ${error.message}`);
+    }
+
+    return data ? fromRow(data as UserRow) : null;
+  }
+
   private mapUpdate(update: Partial<User>): Partial<UserRow> {
     const patch: Partial<UserRow> = {};
 
@@ -132,6 +171,12 @@ export class SupabaseUserRepository implements UserRepository {
     if (update.lastFailedAttemptAt !== undefined) {
       patch.last_failed_attempt_at = update.lastFailedAttemptAt ? update.lastFailedAttemptAt.toISOString() : null;
     }
+    if (update.transfersFrozenUntil !== undefined) {
+      patch.transfers_frozen_until = update.transfersFrozenUntil ? update.transfersFrozenUntil.toISOString() : null;
+    }
+    if (update.complianceHolds !== undefined) {
+      patch.compliance_holds = update.complianceHolds ?? [];
+    }
     if (update.status !== undefined) {
       patch.status = update.status;
     }
@@ -1,7 +1,7 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 
 import { Wallet, WalletRow, fromRow, toRow } from '../models/Wallet';
-import { UUID } from '../models/base';
+import { ConcurrencyError, UUID } from '../models/base';
 import { WalletRepository } from '../services/types';
 
 export class SupabaseWalletRepository implements WalletRepository {
@@ -73,14 +73,18 @@ export class SupabaseWalletRepository implements WalletRepository {
 
     const { data, error } = await this.client
       .from('wallets')
-      .update(updateRow)
+      .update({ ...updateRow, version: wallet.version + 1 })
       .eq('id', wallet.id)
+      .eq('version', wallet.version)
       .select('*')
-      .single();
+      .maybeSingle();
 
     if (error) {
       throw new Error(`Failed to save wallet: ${error.message}`);
     }
+    if (!data) {
+      throw new ConcurrencyError(`Wallet ${wallet.id} changed since version ${wallet.version} was read`);
+    }
 
     return fromRow(data as WalletRow);
   }
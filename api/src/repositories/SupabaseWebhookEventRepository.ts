@@ -0,0 +1,68 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { WebhookEvent, WebhookEventRow, WebhookEventStatus, fromRow, toRow } from '../models/WebhookEvent';
+import { WebhookEventRepository } from '../services/types';
+
+export class SupabaseWebhookEventRepository implements WebhookEventRepository {
+  constructor(private readonly client: SupabaseClient) {}
+
+  async create(event: WebhookEvent): Promise<WebhookEvent> {
+    const { data, error } = await this.client
+      .from('webhook_events')
+      .insert(toRow(event))
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to store webhook event: ${error.message}`);
+    }
+
+    return fromRow(data as WebhookEventRow);
+  }
+
+  async update(event: WebhookEvent): Promise<WebhookEvent> {
+    const row = toRow(event);
+    const { data, error } = await this.client
+      .from('webhook_events')
+      .update(row)
+      .eq('id', event.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update webhook event: ${error.message}`);
+    }
+
+    return fromRow(data as WebhookEventRow);
+  }
+
+  async findByEventId(eventId: string): Promise<WebhookEvent | null> {
+    const { data, error } = await this.client
+      .from('webhook_events')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('signature_valid', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to find webhook event: ${error.message}`);
+    }
+
+    return data ? fromRow(data as WebhookEventRow) : null;
+  }
+
+  async listByStatus(status: WebhookEventStatus, options: { limit: number }): Promise<WebhookEvent[]> {
+    const { data, error } = await this.client
+      .from('webhook_events')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: true })
+      .limit(options.limit);
+
+    if (error) {
+      throw new Error(`Failed to list webhook events: ${error.message}`);
+    }
+
+    return (data ?? []).map((row) => fromRow(row as WebhookEventRow));
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Account routes: downloading everything stored about the user, and closing the account.
+ */
+
+import { ValidationError } from '../models/base';
+import { KYCDocument } from '../models/KYCDocument';
+import { AccountDataExport, AccountService } from '../services/AccountService';
+import { AuthService } from '../services/AuthService';
+import { HttpError, badRequest, fromValidationError } from './errors';
+import { ensureAuthenticated } from './handler';
+import { ok } from './responses';
+import {
+  serializeRoundUpRule,
+  serializeSavingsGoal,
+  serializeTransaction,
+  serializeUser,
+  serializeWallet,
+} from './serializers';
+import { HttpRequest } from './types';
+import { normalizeKenyanPhone } from './validation';
+
+/** Bumped whenever the archive layout changes in a way readers have to know about. */
+const EXPORT_FORMAT_VERSION = 1;
+
+// Closing is refused until the account is in a state that can close; the user can fix these
+const CLOSE_CONFLICT_CODES = new Set(['ACCOUNT_ALREADY_CLOSED', 'ACCOUNT_HAS_BALANCE', 'FUNDS_ON_HOLD', 'INVESTMENT_NOT_REDEEMED']);
+const CLOSE_FORBIDDEN_CODES = new Set(['ACCOUNT_NOT_ACTIVE', 'WALLET_LOCKED', 'TRANSFERS_FROZEN', 'ACCOUNT_ON_HOLD']);
+
+interface CloseAccountBody {
+  pin_token?: string;
+  reason?: unknown;
+  mpesa_phone?: string;
+}
+
+export interface AccountRouteDependencies {
+  accountService: AccountService;
+  authService: AuthService;
+}
+
+export function createAccountRoutes({ accountService, authService }: AccountRouteDependencies) {
+  return {
+    exportData: async (request: HttpRequest) => {
+      ensureAuthenticated(request);
+
+      const archive = await accountService.exportData(request.userId);
+      return ok(serializeExport(archive));
+    },
+
+    close: async (request: HttpRequest<CloseAccountBody>) => {
+      ensureAuthenticated(request);
+
+      const pinToken = request.body?.pin_token;
+      if (!pinToken) {
+        throw badRequest('PIN token is required', 'MISSING_PIN_TOKEN');
+      }
+      if (!/^txn_[a-zA-Z0-9]+$/.test(pinToken)) {
+        throw badRequest('Invalid PIN token format', 'INVALID_PIN_TOKEN_FORMAT');
+      }
+
+      const reason = request.body?.reason;
+      if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+        throw badRequest('reason must be a string', 'INVALID_REASON');
+      }
+      const mpesaPhone = request.body?.mpesa_phone ? normalizeKenyanPhone(request.body.mpesa_phone) : null;
+
+      const tokenValid = await authService.validatePinToken(request.userId, pinToken);
+      if (!tokenValid) {
+        throw new HttpError(401, 'PIN token expired', 'PIN_TOKEN_EXPIRED');
+      }
+
+      try {
+        const closure = await accountService.close({
+          userId: request.userId,
+          reason: reason ?? null,
+          finalPayout: mpesaPhone ? { mpesaPhone } : null,
+        });
+        await authService.invalidatePinToken(pinToken);
+
+        return ok({
+          closure_id: closure.id,
+          status: closure.status,
+          closed_at: closure.closedAt.toISOString(),
+          payout_transaction_ids: closure.payoutTransactionIds,
+          anonymise_after: closure.anonymiseAfter.toISOString(),
+        });
+      } catch (error) {
+        if (error instanceof ValidationError && error.code && CLOSE_CONFLICT_CODES.has(error.code)) {
+          throw fromValidationError(error, 409);
+        }
+        if (error instanceof ValidationError && error.code && CLOSE_FORBIDDEN_CODES.has(error.code)) {
+          throw fromValidationError(error, 403);
+        }
+        if (error instanceof ValidationError && error.code === 'PAYOUT_FAILED') {
+          throw fromValidationError(error, 503);
+        }
+        if (error instanceof ValidationError) {
+          throw fromValidationError(error);
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+function serializeExport(archive: AccountDataExport): Record<string, unknown> {
+  const { user, investmentPosition: position, investmentPreference: preference } = archive;
+  return {
+    format_version: EXPORT_FORMAT_VERSION,
+    generated_at: archive.generatedAt.toISOString(),
+    profile: {
+      ...serializeUser(user),
+      date_of_birth: user.dateOfBirth ? user.dateOfBirth.toISOString().split('T')[0] : null,
+      kyc_submitted_at: user.kycSubmittedAt ? user.kycSubmittedAt.toISOString() : null,
+      kyc_approved_at: user.kycApprovedAt ? user.kycApprovedAt.toISOString() : null,
+      pin_set_at: user.pinSetAt ? user.pinSetAt.toISOString() : null,
+    },
+    wallets: archive.wallets.map(serializeWallet),
+    transactions: archive.transactions.map(serializeTransaction),
+    savings_goals: archive.savingsGoals.map(serializeSavingsGoal),
+    round_up_rule: archive.roundUpRule ? serializeRoundUpRule(archive.roundUpRule) : null,
+    investment: {
+      position: position
+        ? {
+            product_code: position.productCode,
+            invested_amount: position.investedAmount,
+            accrued_interest: position.accruedInterest,
+            last_accrued_at: position.lastAccruedAt ? position.lastAccruedAt.toISOString() : null,
+          }
+        : null,
+      preference: preference
+        ? {
+            auto_invest_enabled: preference.autoInvestEnabled,
+            target_allocation_pct: preference.targetAllocationPct,
+            preferred_product_code: preference.preferredProductCode,
+          }
+        : null,
+    },
+    kyc_documents: archive.kycDocuments.map(serializeKYCMetadata),
+  };
+}
+
+/** What was submitted and how it was reviewed; storage paths and access hashes stay internal. */
+function serializeKYCMetadata(document: KYCDocument): Record<string, unknown> {
+  return {
+    id: document.id,
+    document_type: document.documentType,
+    status: document.status,
+    file_name: document.fileName,
+    file_size: document.fileSize,
+    mime_type: document.mimeType,
+    uploaded_at: document.uploadedAt.toISOString(),
+    processed_at: document.processedAt ? document.processedAt.toISOString() : null,
+    expires_at: document.expiresAt ? document.expiresAt.toISOString() : null,
+    verification_notes: document.verificationNotes ?? null,
+  };
+}
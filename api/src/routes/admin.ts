@@ -0,0 +1,529 @@
+/**
+ * Back-office routes for the KYC review queue and user support: reviewing documents and review
+ * cases, correcting extracted data, setting a user's KYC status, ruling on watchlist screening cases
+ * and AML alerts, and looking up, suspending and reactivating users. Every handler needs an admin key, and
+ * AdminService audit-logs each action with the admin's id.
+ */
+
+import { AdminAuditEntry, AdminAuditTargetType } from '../models/AdminAuditEntry';
+import { AmlAlert, AmlAlertStatus } from '../models/AmlAlert';
+import { ValidationError } from '../models/base';
+import { ExtractedData, KYCDocument, KYCDocumentStatus, KYCDocumentType } from '../models/KYCDocument';
+import { KYCReviewCase, KYCReviewCaseStatus } from '../models/KYCReviewCase';
+import { ScreeningCase, ScreeningCaseStatus } from '../models/ScreeningCase';
+import { KYCStatus } from '../models/User';
+import { AdminService, KYCReviewDecision } from '../services/AdminService';
+import { badRequest, conflict, fromValidationError, notFound } from './errors';
+import { ensureAdmin } from './handler';
+import { ok } from './responses';
+import { serializeTransaction, serializeUser, serializeWallet } from './serializers';
+import { HttpRequest } from './types';
+import { parsePagination } from './validation';
+
+const DOCUMENT_STATUSES: KYCDocumentStatus[] = ['uploaded', 'processing', 'approved', 'rejected', 'expired'];
+const DOCUMENT_TYPES: KYCDocumentType[] = ['national_id', 'passport', 'driving_license', 'selfie'];
+const REVIEW_CASE_STATUSES: KYCReviewCaseStatus[] = ['open', 'resolved'];
+const SCREENING_CASE_STATUSES: ScreeningCaseStatus[] = ['open', 'cleared', 'confirmed'];
+const AML_ALERT_STATUSES: AmlAlertStatus[] = ['open', 'cleared', 'confirmed'];
+const KYC_STATUSES: KYCStatus[] = ['not_started', 'pending', 'approved', 'rejected'];
+const AUDIT_TARGET_TYPES: AdminAuditTargetType[] = ['aml_alert', 'kyc_document', 'kyc_review_case', 'screening_case', 'user'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface ReviewQueueQuery extends Record<string, string | undefined> {
+  status?: string;
+  document_type?: string;
+  limit?: string;
+  offset?: string;
+}
+
+interface ReviewDocumentBody {
+  decision?: KYCReviewDecision;
+  notes?: string;
+}
+
+interface ExtractedDataBody {
+  full_name?: string | null;
+  id_number?: string | null;
+  date_of_birth?: string | null;
+  issue_date?: string | null;
+  expiry_date?: string | null;
+}
+
+interface SetKycStatusBody {
+  kyc_status?: KYCStatus;
+  reason?: string;
+}
+
+interface ResolveScreeningCaseBody {
+  decision?: string;
+  notes?: string;
+}
+
+interface ResolveAmlAlertBody {
+  decision?: string;
+  notes?: string;
+}
+
+interface ReasonBody {
+  reason?: string;
+}
+
+export interface AdminRouteDependencies {
+  adminService: AdminService;
+}
+
+export function createAdminRoutes({ adminService }: AdminRouteDependencies) {
+  return {
+    listKycQueue: async (request: HttpRequest<unknown, Record<string, string>, ReviewQueueQuery>) => {
+      ensureAdmin(request);
+
+      const statuses = parseList(request.query.status, DOCUMENT_STATUSES, 'INVALID_STATUS');
+      const [documentType] = parseList(request.query.document_type, DOCUMENT_TYPES, 'INVALID_DOCUMENT_TYPE');
+      const { limit, offset } = parsePagination(request.query);
+
+      const documents = await adminService.listReviewQueue({ statuses, documentType, limit, offset });
+      return ok({ documents: documents.map(serializeDocument), limit, offset });
+    },
+
+    getKycDocument: async (request: HttpRequest<unknown, { documentId: string }>) => {
+      ensureAdmin(request);
+
+      try {
+        const document = await adminService.getDocument(request.params.documentId);
+        return ok({ document: serializeDocument(document) });
+      } catch (error) {
+        throw mapAdminError(error);
+      }
+    },
+
+    reviewKycDocument: async (request: HttpRequest<ReviewDocumentBody, { documentId: string }>) => {
+      ensureAdmin(request);
+
+      const decision = request.body?.decision;
+      if (decision !== 'approve' && decision !== 'reject') {
+        throw badRequest('decision must be approve or reject', 'INVALID_DECISION');
+      }
+
+      try {
+        const document = await adminService.reviewDocument({
+          adminId: request.adminId,
+          documentId: request.params.documentId,
+          decision,
+          notes: typeof request.body?.notes === 'string' ? request.body.notes : null,
+        });
+        return ok({ document: serializeDocument(document) });
+      } catch (error) {
+        throw mapAdminError(error);
+      }
+    },
+
+    updateExtractedData: async (request: HttpRequest<ExtractedDataBody, { documentId: string }>) => {
+      ensureAdmin(request);
+
+      const extractedData = parseExtractedData(request.body ?? {});
+      try {
+        const document = await adminService.updateExtractedData({
+          adminId: request.adminId,
+          documentId: request.params.documentId,
+          extractedData,
+        });
+        return ok({ document: serializeDocument(document) });
+      } catch (error) {
+        throw mapAdminError(error);
+      }
+    },
+
+    listKycReviewCases: async (
+      request: HttpRequest<unknown, Record<string, string>, { status?: string; limit?: string; offset?: string }>,
+    ) => {
+      ensureAdmin(request);
+
+      const [status = 'open'] = parseList(request.query.status, REVIEW_CASE_STATUSES, 'INVALID_STATUS');
+      const { limit, offset } = parsePagination(request.query);
+
+      const cases = await adminService.listReviewCases({ status, limit, offset });
+      return ok({ cases: cases.map(serializeReviewCase), limit, offset });
+    },
+
+    resolveKycReviewCase: async (request: HttpRequest<{ notes?: string }, { caseId: string }>) => {
+      ensureAdmin(request);
+
+      try {
+        const reviewCase = await adminService.resolveReviewCase({
+          adminId: request.adminId,
+          caseId: request.params.caseId,
+          notes: typeof request.body?.notes === 'string' ? request.body.notes : null,
+        });
+        return ok({ case: serializeReviewCase(reviewCase) });
+      } catch (error) {
+        throw mapAdminError(error);
+      }
+    },
+
+    listScreeningCases: async (
+      request: HttpRequest<unknown, Record<string, string>, { status?: string; limit?: string; offset?: string }>,
+    ) => {
+      ensureAdmin(request);
+
+      const [status = 'open'] = parseList(request.query.status, SCREENING_CASE_STATUSES, 'INVALID_STATUS');
+      const { limit, offset } = parsePagination(request.query);
+
+      const cases = await adminService.listScreeningCases({ status, limit, offset });
+      return ok({ cases: cases.map(serializeScreeningCase), limit, offset });
+    },
+
+    resolveScreeningCase: async (request: HttpRequest<ResolveScreeningCaseBody, { caseId: string }>) => {
+      ensureAdmin(request);
+
+      const decision = request.body?.decision;
+      if (decision !== 'clear' && decision !== 'confirm') {
+        throw badRequest('decision must be clear or confirm', 'INVALID_DECISION');
+      }
+      const notes = typeof request.body?.notes === 'string' ? request.body.notes.trim() : '';
+      if (!notes) {
+        throw badRequest('notes are required to resolve a screening case', 'RESOLUTION_NOTES_REQUIRED');
+      }
+
+      try {
+        const { screeningCase, payout } = await adminService.resolveScreeningCase({
+          adminId: request.adminId,
+          caseId: request.params.caseId,
+          decision,
+          notes,
+        });
+        return ok({ case: serializeScreeningCase(screeningCase), payout: payout ? serializeTransaction(payout) : null });
+      } catch (error) {
+        throw mapAdminError(error);
+      }
+    },
+
+    listAmlAlerts: async (request: HttpRequest<unknown, Record<string, string>, { status?: string; limit?: string; offset?: string }>) => {
+      ensureAdmin(request);
+
+      const [status = 'open'] = parseList(request.query.status, AML_ALERT_STATUSES, 'INVALID_STATUS');
+      const { limit, offset } = parsePagination(request.query);
+
+      const alerts = await adminService.listAmlAlerts({ status, limit, offset });
+      return ok({ alerts: alerts.map(serializeAmlAlert), limit, offset });
+    },
+
+    resolveAmlAlert: async (request: HttpRequest<ResolveAmlAlertBody, { alertId: string }>) => {
+      ensureAdmin(request);
+
+      const decision = request.body?.decision;
+      if (decision !== 'clear' && decision !== 'confirm') {
+        throw badRequest('decision must be clear or confirm', 'INVALID_DECISION');
+      }
+      const notes = typeof request.body?.notes === 'string' ? request.body.notes.trim() : '';
+      if (!notes) {
+        throw badRequest('notes are required to resolve an AML alert', 'RESOLUTION_NOTES_REQUIRED');
+      }
+
+      try {
+        const alert = await adminService.resolveAmlAlert({
+          adminId: request.adminId,
+          alertId: request.params.alertId,
+          decision,
+          notes,
+        });
+        return ok({ alert: serializeAmlAlert(alert) });
+      } catch (error) {
+        throw mapAdminError(error);
+      }
+    },
+
+    setUserKycStatus: async (request: HttpRequest<SetKycStatusBody, { userId: string }>) => {
+      ensureAdmin(request);
+
+      const kycStatus = request.body?.kyc_status;
+      if (!kycStatus || !KYC_STATUSES.includes(kycStatus)) {
+        throw badRequest(`kyc_status must be one of ${KYC_STATUSES.join(', ')}`, 'INVALID_KYC_STATUS');
+      }
+
+      try {
+        const user = await adminService.setUserKycStatus({
+          adminId: request.adminId,
+          userId: request.params.userId,
+          kycStatus,
+          reason: request.body?.reason ?? null,
+        });
+        return ok({ user: serializeUser(user) });
+      } catch (error) {
+        throw mapAdminError(error);
+      }
+    },
+
+    searchUsers: async (request: HttpRequest<unknown, Record<string, string>, { q?: string; limit?: string }>) => {
+      ensureAdmin(request);
+
+      const { limit } = parsePagination({ limit: request.query.limit });
+      try {
+        const users = await adminService.searchUsers({ adminId: request.adminId, query: request.query.q ?? '', limit });
+        return ok({ users: users.map(serializeUser) });
+      } catch (error) {
+        throw mapAdminError(error);
+      }
+    },
+
+    getUser: async (
+      request: HttpRequest<unknown, { userId: string }, { limit?: string; offset?: string }>,
+    ) => {
+      ensureAdmin(request);
+
+      const { limit, offset } = parsePagination(request.query);
+      try {
+        const overview = await adminService.getUserOverview({
+          adminId: request.adminId,
+          userId: request.params.userId,
+          limit,
+          offset,
+        });
+        return ok({
+          user: serializeUser(overview.user),
+          wallets: overview.wallets.map(serializeWallet),
+          transactions: overview.transactions.map(serializeTransaction),
+          pagination: { limit, offset, total: overview.totalTransactions },
+        });
+      } catch (error) {
+        throw mapAdminError(error);
+      }
+    },
+
+    suspendUser: async (request: HttpRequest<ReasonBody, { userId: string }>) => {
+      ensureAdmin(request);
+
+      const reason = request.body?.reason;
+      if (typeof reason !== 'string' || reason.trim().length === 0) {
+        throw badRequest('reason is required', 'REASON_REQUIRED');
+      }
+
+      try {
+        const user = await adminService.suspendUser({ adminId: request.adminId, userId: request.params.userId, reason });
+        return ok({ user: serializeUser(user) });
+      } catch (error) {
+        throw mapAdminError(error);
+      }
+    },
+
+    reactivateUser: async (request: HttpRequest<ReasonBody, { userId: string }>) => {
+      ensureAdmin(request);
+
+      try {
+        const user = await adminService.reactivateUser({
+          adminId: request.adminId,
+          userId: request.params.userId,
+          reason: request.body?.reason ?? null,
+        });
+        return ok({ user: serializeUser(user) });
+      } catch (error) {
+        throw mapAdminError(error);
+      }
+    },
+
+    listAuditLog: async (
+      request: HttpRequest<unknown, Record<string, string>, { target_type?: string; target_id?: string; limit?: string }>,
+    ) => {
+      ensureAdmin(request);
+
+      const targetType = request.query.target_type as AdminAuditTargetType | undefined;
+      if (!targetType || !AUDIT_TARGET_TYPES.includes(targetType)) {
+        throw badRequest(`target_type must be one of ${AUDIT_TARGET_TYPES.join(', ')}`, 'INVALID_TARGET_TYPE');
+      }
+      const targetId = request.query.target_id?.trim();
+      if (!targetId) {
+        throw badRequest('target_id is required', 'MISSING_TARGET_ID');
+      }
+      const { limit } = parsePagination({ limit: request.query.limit });
+
+      const entries = await adminService.listAuditLog({ targetType, targetId, limit });
+      return ok({ entries: entries.map(serializeAuditEntry) });
+    },
+  };
+}
+
+function parseList<T extends string>(raw: string | undefined, allowed: T[], code: string): T[] {
+  if (!raw) {
+    return [];
+  }
+  const values = raw
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter((value) => value.length > 0);
+  const unknown = values.filter((value) => !allowed.includes(value as T));
+  if (unknown.length > 0) {
+    throw badRequest(`Unknown value ${unknown.join(', ')}; expected one of ${allowed.join(', ')}`, code);
+  }
+  return values as T[];
+}
+
+function parseExtractedData(body: ExtractedDataBody): ExtractedData {
+  const data: ExtractedData = {};
+
+  for (const [field, key] of [
+    ['full_name', 'fullName'],
+    ['id_number', 'idNumber'],
+  ] as const) {
+    const value = body[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value !== null && (typeof value !== 'string' || value.trim().length === 0)) {
+      throw badRequest(`${field} must be a non-empty string or null`, 'INVALID_EXTRACTED_DATA');
+    }
+    data[key] = value === null ? null : value.trim();
+  }
+
+  for (const [field, key] of [
+    ['date_of_birth', 'dateOfBirth'],
+    ['issue_date', 'issueDate'],
+    ['expiry_date', 'expiryDate'],
+  ] as const) {
+    const value = body[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null) {
+      data[key] = null;
+      continue;
+    }
+    const date = typeof value === 'string' && DATE_PATTERN.test(value) ? new Date(`${value}T00:00:00.000Z`) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      throw badRequest(`${field} must be a YYYY-MM-DD date or null`, 'INVALID_EXTRACTED_DATA');
+    }
+    data[key] = date;
+  }
+
+  return data;
+}
+
+function mapAdminError(error: unknown): unknown {
+  if (!(error instanceof ValidationError)) {
+    return error;
+  }
+
+  switch (error.code) {
+    case 'DOCUMENT_NOT_FOUND':
+    case 'REVIEW_CASE_NOT_FOUND':
+    case 'SCREENING_CASE_NOT_FOUND':
+    case 'AML_ALERT_NOT_FOUND':
+    case 'USER_NOT_FOUND':
+      return notFound(error.message, error.code);
+    case 'DOCUMENT_ALREADY_REVIEWED':
+    case 'REVIEW_CASE_ALREADY_RESOLVED':
+    case 'SCREENING_CASE_ALREADY_RESOLVED':
+    case 'AML_ALERT_ALREADY_RESOLVED':
+    case 'USER_NOT_ACTIVE':
+    case 'USER_NOT_SUSPENDED':
+      return conflict(error.message, error.code);
+    default:
+      return fromValidationError(error);
+  }
+}
+
+function serializeDocument(document: KYCDocument) {
+  const extracted = document.extractedData;
+  return {
+    id: document.id,
+    user_id: document.userId,
+    document_type: document.documentType,
+    status: document.status,
+    file_name: document.fileName,
+    file_size: document.fileSize,
+    mime_type: document.mimeType,
+    uploaded_at: document.uploadedAt.toISOString(),
+    processed_at: document.processedAt ? document.processedAt.toISOString() : null,
+    expires_at: document.expiresAt ? document.expiresAt.toISOString() : null,
+    verification_notes: document.verificationNotes ?? null,
+    face_match_score: document.faceMatchScore ?? null,
+    extracted_data: extracted
+      ? {
+          full_name: extracted.fullName ?? null,
+          id_number: extracted.idNumber ?? null,
+          date_of_birth: formatDate(extracted.dateOfBirth),
+          issue_date: formatDate(extracted.issueDate),
+          expiry_date: formatDate(extracted.expiryDate),
+        }
+      : null,
+  };
+}
+
+function serializeReviewCase(reviewCase: KYCReviewCase) {
+  return {
+    id: reviewCase.id,
+    user_id: reviewCase.userId,
+    document_type: reviewCase.documentType,
+    reason: reviewCase.reason,
+    status: reviewCase.status,
+    retry_at: reviewCase.retryAt.toISOString(),
+    resolved_by: reviewCase.resolvedBy,
+    resolution_notes: reviewCase.resolutionNotes,
+    resolved_at: reviewCase.resolvedAt ? reviewCase.resolvedAt.toISOString() : null,
+    created_at: reviewCase.createdAt.toISOString(),
+  };
+}
+
+function serializeScreeningCase(screeningCase: ScreeningCase) {
+  return {
+    id: screeningCase.id,
+    user_id: screeningCase.userId,
+    trigger: screeningCase.trigger,
+    subject_name: screeningCase.subjectName,
+    subject_date_of_birth: formatDate(screeningCase.subjectDateOfBirth),
+    transaction_id: screeningCase.transactionId,
+    payout_recipient: screeningCase.payoutRecipient,
+    matches: screeningCase.matches.map((match) => ({
+      entry_id: match.entryId,
+      list_name: match.listName,
+      category: match.category,
+      matched_name: match.matchedName,
+      score: match.score,
+      date_of_birth_match: match.dateOfBirthMatch,
+    })),
+    status: screeningCase.status,
+    resolved_by: screeningCase.resolvedBy,
+    resolution_notes: screeningCase.resolutionNotes,
+    resolved_at: screeningCase.resolvedAt ? screeningCase.resolvedAt.toISOString() : null,
+    created_at: screeningCase.createdAt.toISOString(),
+  };
+}
+
+function serializeAmlAlert(alert: AmlAlert) {
+  return {
+    id: alert.id,
+    user_id: alert.userId,
+    rule_id: alert.ruleId,
+    rule_kind: alert.ruleKind,
+    severity: alert.severity,
+    summary: alert.summary,
+    transactions: alert.transactions.map((transaction) => ({
+      id: transaction.id,
+      type: transaction.type,
+      amount: transaction.amount,
+      occurred_at: transaction.occurredAt.toISOString(),
+    })),
+    details: alert.details,
+    freezes_account: alert.freezesAccount,
+    status: alert.status,
+    resolved_by: alert.resolvedBy,
+    resolution_notes: alert.resolutionNotes,
+    resolved_at: alert.resolvedAt ? alert.resolvedAt.toISOString() : null,
+    created_at: alert.createdAt.toISOString(),
+    updated_at: alert.updatedAt.toISOString(),
+  };
+}
+
+function serializeAuditEntry(entry: AdminAuditEntry) {
+  return {
+    id: entry.id,
+    admin_id: entry.adminId,
+    action: entry.action,
+    target_type: entry.targetType,
+    target_id: entry.targetId,
+    details: entry.details,
+    created_at: entry.createdAt.toISOString(),
+  };
+}
+
+function formatDate(date: Date | null | undefined): string | null {
+  return date ? date.toISOString().slice(0, 10) : null;
+}
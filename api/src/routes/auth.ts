@@ -3,14 +3,16 @@
  */
 
 import { ValidationError } from '../models/base';
+import { PaymentIntent, merchantRecipientKey, userRecipientKey } from '../models/PaymentIntent';
 import { AuthService } from '../services/AuthService';
 import { RegistrationService } from '../services/RegistrationService';
+import { readDeviceInfo } from './authentication';
 import { HttpError, badRequest, fromValidationError, tooManyRequests } from './errors';
 import { ensureAuthenticated } from './handler';
 import { created, ok } from './responses';
 import { serializeUser } from './serializers';
 import { HttpRequest } from './types';
-import { requireString } from './validation';
+import { requireInteger, requireString } from './validation';
 
 interface LoginBody {
   email?: string;
@@ -29,6 +31,10 @@ interface VerifyOtpBody {
   otp_code?: string;
 }
 
+interface RefreshBody {
+  refresh_token?: string;
+}
+
 interface SetupPinBody {
   pin?: string;
   confirm_pin?: string;
@@ -36,6 +42,17 @@ interface SetupPinBody {
 
 interface VerifyPinBody {
   pin?: string;
+  /** The payment the token is for; the token then only authorises that payment. */
+  intent?: PaymentIntentPayload | null;
+}
+
+interface PaymentIntentPayload {
+  type?: string;
+  amount?: number;
+  till_number?: string;
+  paybill_number?: string;
+  account_number?: string;
+  recipient_user_id?: string;
 }
 
 interface UpdateProfileBody {
@@ -91,6 +108,9 @@ export function createAuthRoutes({ authService, registrationService }: AuthRoute
         if (error instanceof ValidationError && error.code === 'RATE_LIMIT_EXCEEDED') {
           throw tooManyRequests(error.message);
         }
+        if (error instanceof ValidationError && (error.code === 'ACCOUNT_CLOSED' || error.code === 'ACCOUNT_SUSPENDED')) {
+          throw fromValidationError(error, 403);
+        }
         if (error instanceof ValidationError) {
           throw fromValidationError(error);
         }
@@ -103,7 +123,7 @@ export function createAuthRoutes({ authService, registrationService }: AuthRoute
       const otpCode = requireString(request.body?.otp_code, 'otp_code is required', 'INVALID_OTP');
 
       try {
-        const result = await authService.verifyOtp({ sessionId, otpCode });
+        const result = await authService.verifyOtp({ sessionId, otpCode, device: readDeviceInfo(request) });
         return ok({
           access_token: result.accessToken,
           refresh_token: result.refreshToken,
@@ -111,6 +131,9 @@ export function createAuthRoutes({ authService, registrationService }: AuthRoute
           requires_pin_setup: result.requiresPinSetup,
         });
       } catch (error) {
+        if (error instanceof ValidationError && (error.code === 'ACCOUNT_CLOSED' || error.code === 'ACCOUNT_SUSPENDED')) {
+          throw fromValidationError(error, 403);
+        }
         if (error instanceof ValidationError) {
           throw fromValidationError(error);
         }
@@ -118,6 +141,37 @@ export function createAuthRoutes({ authService, registrationService }: AuthRoute
       }
     },
 
+    refresh: async (request: HttpRequest<RefreshBody>) => {
+      const refreshToken = requireString(
+        request.body?.refresh_token,
+        'refresh_token is required',
+        'INVALID_REFRESH_TOKEN',
+      );
+
+      try {
+        const result = await authService.refreshSession(refreshToken, readDeviceInfo(request));
+        return ok({
+          access_token: result.accessToken,
+          refresh_token: result.refreshToken,
+          user: serializeUser(result.user),
+        });
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw fromValidationError(error, 401);
+        }
+        throw error;
+      }
+    },
+
+    logout: async (request: HttpRequest) => {
+      ensureAuthenticated(request);
+
+      if (request.deviceSessionId) {
+        await authService.logout(request.userId, request.deviceSessionId);
+      }
+      return ok({ message: 'Signed out' });
+    },
+
     setupPin: async (request: HttpRequest<SetupPinBody>) => {
       ensureAuthenticated(request);
       const pin = requireString(request.body?.pin, 'PIN is required', 'INVALID_PIN_FORMAT');
@@ -148,9 +202,10 @@ export function createAuthRoutes({ authService, registrationService }: AuthRoute
       if (!/^[0-9]{4}$/.test(pin)) {
         throw badRequest('PIN must be 4 numeric digits', 'INVALID_PIN_FORMAT');
       }
+      const intent = parsePaymentIntent(request.body?.intent);
 
       try {
-        const result = await authService.verifyPin(request.userId, pin);
+        const result = await authService.verifyPin(request.userId, pin, intent);
         if (!result.verified) {
           const lockedUntil = result.lockedUntil ? result.lockedUntil.toISOString() : undefined;
           const details = {
@@ -215,3 +270,35 @@ export function createAuthRoutes({ authService, registrationService }: AuthRoute
     },
   };
 }
+
+function parsePaymentIntent(raw: PaymentIntentPayload | null | undefined): PaymentIntent | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+
+  const amount = requireInteger(raw.amount, 'Intent amount must be a positive integer in cents', 'INVALID_PAYMENT_INTENT');
+  if (amount <= 0) {
+    throw badRequest('Intent amount must be a positive integer in cents', 'INVALID_PAYMENT_INTENT');
+  }
+
+  if (raw.type === 'merchant_payment') {
+    const tillNumber = raw.till_number?.trim() || null;
+    const paybillNumber = raw.paybill_number?.trim() || null;
+    const accountNumber = raw.account_number?.trim() || null;
+    if (!tillNumber && !(paybillNumber && accountNumber)) {
+      throw badRequest('Merchant payment intents need a till number or paybill and account number', 'INVALID_PAYMENT_INTENT');
+    }
+    return {
+      transactionType: 'payment',
+      amount,
+      recipientKey: merchantRecipientKey({ tillNumber, paybillNumber, accountNumber }),
+    };
+  }
+
+  if (raw.type === 'transfer') {
+    const recipientUserId = requireString(raw.recipient_user_id, 'Transfer intents need recipient_user_id', 'INVALID_PAYMENT_INTENT');
+    return { transactionType: 'transfer_out', amount, recipientKey: userRecipientKey(recipientUserId) };
+  }
+
+  throw badRequest('Intent type must be merchant_payment or transfer', 'INVALID_PAYMENT_INTENT');
+}
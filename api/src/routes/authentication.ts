@@ -0,0 +1,62 @@
+/**
+ * Resolves the signed-in user of a request from its Bearer access token, and the device it was sent
+ * from.
+ */
+
+import { DeviceInfo, MAX_CLIENT_FIELD_LENGTH } from '../models/DeviceSession';
+import { SessionService } from '../services/SessionService';
+import { TokenService } from '../services/types';
+import { HttpRequest } from './types';
+
+export interface RequestAuthenticatorOptions {
+  tokenService: TokenService;
+  /** Refuses tokens of sessions that were signed out. */
+  sessionService?: SessionService;
+  /** Accept an X-User-Id header in place of a token. Only for AUTH_DEV_MODE. */
+  trustUserIdHeader?: boolean;
+}
+
+export interface RequestIdentity {
+  userId: string;
+  deviceSessionId?: string;
+}
+
+export function createRequestAuthenticator({
+  tokenService,
+  sessionService,
+  trustUserIdHeader = false,
+}: RequestAuthenticatorOptions) {
+  return async (headers: Record<string, string | undefined>): Promise<RequestIdentity | undefined> => {
+    if (trustUserIdHeader) {
+      const userId = (headers['x-user-id'] ?? headers['x-userid'])?.trim();
+      if (userId) {
+        return { userId };
+      }
+    }
+
+    const authorization = headers.authorization;
+    if (!authorization || !authorization.startsWith('Bearer ')) {
+      return undefined;
+    }
+
+    const claims = await tokenService.verifyAccessToken(authorization.slice('Bearer '.length).trim());
+    if (!claims || (sessionService && !(await sessionService.isActive(claims.deviceSessionId)))) {
+      return undefined;
+    }
+    return { userId: claims.userId, deviceSessionId: claims.deviceSessionId };
+  };
+}
+
+/** The device details the app sends with every request (X-Client-Platform, X-Client-Version). */
+export function readDeviceInfo(request: HttpRequest): DeviceInfo {
+  return {
+    clientPlatform: readClientHeader(request.headers['x-client-platform']),
+    clientVersion: readClientHeader(request.headers['x-client-version']),
+    ipAddress: request.ipAddress ?? null,
+  };
+}
+
+function readClientHeader(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.slice(0, MAX_CLIENT_FIELD_LENGTH) : null;
+}
@@ -43,5 +43,5 @@ export function tooManyRequests(message = 'Too Many Requests', retryAfterSeconds
 }
 
 export function fromValidationError(error: ValidationError, status = 400): HttpError {
-  return new HttpError(status, error.message, error.code ?? 'VALIDATION_ERROR');
+  return new HttpError(status, error.message, error.code ?? 'VALIDATION_ERROR', error.details);
 }
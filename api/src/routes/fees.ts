@@ -0,0 +1,81 @@
+/**
+ * Fee schedule route so the app can show what a movement will cost before the customer confirms.
+ */
+
+import {
+  FEE_PAYMENT_METHODS,
+  FEE_TRANSACTION_TYPES,
+  FeePaymentMethod,
+  FeeTransactionType,
+  bandToJson,
+  toJson,
+} from '../models/FeeSchedule';
+import { FeeService } from '../services/FeeService';
+import { badRequest } from './errors';
+import { ensureAuthenticated } from './handler';
+import { ok } from './responses';
+import { HttpRequest } from './types';
+
+export interface FeeRouteDependencies {
+  feeService: FeeService;
+}
+
+type FeeScheduleQuery = {
+  amount?: string;
+  transaction_type?: string;
+  payment_method?: string;
+};
+
+export function createFeeRoutes({ feeService }: FeeRouteDependencies) {
+  return {
+    getSchedule: async (request: HttpRequest<unknown, Record<string, string>, FeeScheduleQuery>) => {
+      ensureAuthenticated(request);
+
+      const schedule = toJson({ ...feeService.getSchedule(), promotions: feeService.listCurrentPromotions() });
+      const quoteRequest = parseQuoteQuery(request.query);
+      const quote = quoteRequest ? feeService.quote(quoteRequest) : null;
+
+      return ok({
+        ...schedule,
+        quote: quote
+          ? {
+              transaction_type: quote.transactionType,
+              payment_method: quote.paymentMethod,
+              amount: quote.amount,
+              fee: quote.fee,
+              standard_fee: quote.standardFee,
+              total: quote.amount + quote.fee,
+              band: quote.band ? bandToJson(quote.band) : null,
+              promotion: quote.promotion,
+            }
+          : null,
+      });
+    },
+  };
+}
+
+/** A quote is optional, but asking for one needs all three of amount, type and method. */
+function parseQuoteQuery(
+  query: FeeScheduleQuery,
+): { transactionType: FeeTransactionType; paymentMethod: FeePaymentMethod; amount: number } | null {
+  if (query.amount === undefined && query.transaction_type === undefined && query.payment_method === undefined) {
+    return null;
+  }
+
+  const amount = Number(query.amount);
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw badRequest('amount must be a positive integer in cents', 'INVALID_AMOUNT_FORMAT');
+  }
+  if (!FEE_TRANSACTION_TYPES.includes(query.transaction_type as FeeTransactionType)) {
+    throw badRequest(`transaction_type must be one of ${FEE_TRANSACTION_TYPES.join(', ')}`, 'INVALID_TRANSACTION_TYPE');
+  }
+  if (!FEE_PAYMENT_METHODS.includes(query.payment_method as FeePaymentMethod)) {
+    throw badRequest(`payment_method must be one of ${FEE_PAYMENT_METHODS.join(', ')}`, 'INVALID_PAYMENT_METHOD');
+  }
+
+  return {
+    transactionType: query.transaction_type as FeeTransactionType,
+    paymentMethod: query.payment_method as FeePaymentMethod,
+    amount,
+  };
+}
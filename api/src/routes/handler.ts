@@ -58,3 +58,9 @@ export function ensureAuthenticated<T extends HttpRequest>(request: T): asserts
     throw unauthorized('Authentication required', 'AUTH_REQUIRED');
   }
 }
+
+export function ensureAdmin<T extends HttpRequest>(request: T): asserts request is T & { adminId: string } {
+  if (!request.adminId) {
+    throw unauthorized('Admin authentication required', 'ADMIN_AUTH_REQUIRED');
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Idempotency-Key support for money-moving routes. The first response to a request carrying an
+ * `Idempotency-Key` header is stored per user and key; a retry with the same key and body gets
+ * that response back without running the handler again, and a retry with a different body is
+ * rejected with 422.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+
+import { MAX_IDEMPOTENCY_KEY_LENGTH, IdempotencyRecord, createIdempotencyRecord } from '../models/IdempotencyRecord';
+import { Clock, IdempotencyKeyRepository, Logger, NullLogger, SystemClock } from '../services/types';
+import { HttpError, badRequest, conflict } from './errors';
+import { executeRoute } from './handler';
+import { HttpRequest, HttpResponse, RouteHandler } from './types';
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const IDEMPOTENCY_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+export interface IdempotencyGuardDependencies {
+  repository: IdempotencyKeyRepository;
+  /** How long a stored response is replayed for. */
+  ttlMs?: number;
+  clock?: Clock;
+  logger?: Logger;
+}
+
+export type IdempotencyGuard = <TRequest extends HttpRequest>(
+  scope: string,
+  handler: RouteHandler<TRequest>,
+) => RouteHandler<TRequest>;
+
+export function createIdempotencyGuard({
+  repository,
+  ttlMs = DEFAULT_TTL_MS,
+  clock = new SystemClock(),
+  logger = NullLogger,
+}: IdempotencyGuardDependencies): IdempotencyGuard {
+  return <TRequest extends HttpRequest>(scope: string, handler: RouteHandler<TRequest>): RouteHandler<TRequest> =>
+    async (request: TRequest) => {
+      const key = readIdempotencyKey(request.headers);
+      // Unauthenticated requests fall through so the handler can reject them as usual
+      if (key === null || !request.userId) {
+        return handler(request);
+      }
+      if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+        throw badRequest(
+          `Idempotency-Key must be between 1 and ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+          'INVALID_IDEMPOTENCY_KEY',
+        );
+      }
+
+      const userId = request.userId;
+      const requestHash = hashRequest(scope, request);
+      const now = clock.now();
+
+      let existing = await repository.findByKey(userId, key);
+      if (existing && existing.expiresAt.getTime() <= now.getTime()) {
+        await repository.delete(existing.id);
+        existing = null;
+      }
+
+      let record: IdempotencyRecord | null = null;
+      if (!existing) {
+        try {
+          record = await repository.create(
+            createIdempotencyRecord({
+              id: randomUUID(),
+              userId,
+              key,
+              scope,
+              requestHash,
+              expiresAt: new Date(now.getTime() + ttlMs),
+              now,
+            }),
+          );
+        } catch (error) {
+          // A concurrent request with the same key won the insert
+          existing = await repository.findByKey(userId, key);
+          if (!existing) {
+            throw error;
+          }
+        }
+      }
+
+      if (existing) {
+        return replay(existing, requestHash, logger);
+      }
+
+      const stored = record as IdempotencyRecord;
+      const response = await executeRoute(handler as RouteHandler, request);
+
+      // Server errors are not remembered so the client can retry with the same key
+      if (response.status >= 500) {
+        await repository.delete(stored.id);
+        return response;
+      }
+
+      await repository.update({
+        ...stored,
+        status: 'completed',
+        responseStatus: response.status,
+        responseBody: response.body ?? null,
+        updatedAt: clock.now(),
+      });
+
+      return response;
+    };
+}
+
+function replay(record: IdempotencyRecord, requestHash: string, logger: Logger): HttpResponse {
+  if (record.requestHash !== requestHash) {
+    throw new HttpError(
+      422,
+      'Idempotency-Key was already used with a different request',
+      'IDEMPOTENCY_KEY_REUSED',
+    );
+  }
+
+  if (record.status !== 'completed' || record.responseStatus === null) {
+    throw conflict('A request with this Idempotency-Key is still being processed', 'IDEMPOTENCY_REQUEST_IN_PROGRESS');
+  }
+
+  logger.info('Replaying idempotent response', { userId: record.userId, scope: record.scope, key: record.key });
+  return {
+    status: record.responseStatus,
+    body: record.responseBody ?? undefined,
+    headers: { [IDEMPOTENCY_REPLAYED_HEADER]: 'true' },
+  };
+}
+
+function readIdempotencyKey(headers: Record<string, string | undefined>): string | null {
+  const value = headers['idempotency-key'] ?? headers['x-idempotency-key'];
+  return value === undefined ? null : value.trim();
+}
+
+/**
+ * The same key may only be replayed for the same route, path parameters and body. Body keys are
+ * sorted so that field order does not matter.
+ */
+function hashRequest(scope: string, request: HttpRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([scope, canonicalize(request.params ?? {}), canonicalize(request.body ?? null)]))
+    .digest('hex');
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return sorted;
+      }, {});
+  }
+  return value;
+}
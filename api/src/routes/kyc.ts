@@ -1,14 +1,23 @@
 /**
- * KYC document route handlers for retrieval and upload initialization.
+ * KYC document route handlers for retrieval, upload initialization, and receiving and serving the
+ * files themselves through signed, expiring links.
  */
 
 import { randomUUID } from 'node:crypto';
 
 import { ValidationError } from '../models/base';
-import { KYCDocument, KYCDocumentType } from '../models/KYCDocument';
+import { KYCDocument, KYCDocumentType, daysUntilExpiry, kycExpiryState } from '../models/KYCDocument';
+import {
+  KYCUploadAttempt,
+  MAX_UPLOAD_ATTEMPTS_PER_TYPE,
+  UPLOAD_BLOCK_HOURS,
+  isUploadBlocked,
+  remainingUploadAttempts,
+} from '../models/KYCUploadAttempt';
 import { KYCService } from '../services/KYCService';
+import { SignedDocumentUrls } from '../services/SignedDocumentUrls';
 import { Clock, Logger, NullLogger, SystemClock } from '../services/types';
-import { HttpError, badRequest, fromValidationError } from './errors';
+import { HttpError, badRequest, conflict, forbidden, fromValidationError, notFound } from './errors';
 import { ensureAuthenticated } from './handler';
 import { created, ok } from './responses';
 import { HttpRequest } from './types';
@@ -39,32 +48,28 @@ interface UploadDocumentBody {
   geo_location?: GeoLocation;
 }
 
+interface SignedLinkQuery extends Record<string, string | undefined> {
+  expires?: string;
+  signature?: string;
+}
+
 export interface KYCRouteDependencies {
   kycService: KYCService;
+  documentUrls: SignedDocumentUrls;
   clock?: Clock;
   logger?: Logger;
 }
 
 const ALLOWED_MIME_TYPES = new Set(['image/jpeg', 'image/png', 'application/pdf']);
 const MAX_FILE_SIZE_BYTES = 10_000_000;
-const SIGNED_URL_TTL_SECONDS = 600;
-const MAX_ATTEMPTS_PER_TYPE = 3;
-const MANUAL_REVIEW_DELAY_HOURS = 48;
 const REVIEW_ESTIMATE_MINUTES = 120;
 const STATUS_POLL_SECONDS = 300;
 
 const DOC_TYPES: KYCDocumentType[] = ['national_id', 'passport', 'driving_license', 'selfie'];
 
-type AttemptRecord = {
-  attempts: number;
-  lastAttemptAt: Date | null;
-  blockedUntil: Date | null;
-};
-
-const attemptStore = new Map<string, Map<KYCDocumentType, AttemptRecord>>();
-
 export function createKYCRoutes({
   kycService,
+  documentUrls,
   clock = new SystemClock(),
   logger = NullLogger,
 }: KYCRouteDependencies) {
@@ -89,17 +94,19 @@ export function createKYCRoutes({
         return true;
       });
 
-      const attemptMap = ensureAttemptTracker(request.userId);
+      const attempts = await kycService.listUploadAttempts(request.userId);
+      const attemptMap = new Map(attempts.map((attempt) => [attempt.documentType, attempt]));
       const serializedDocuments = filteredDocuments.map((doc) =>
-        serializeDocument(doc, attemptMap.get(doc.documentType), now),
+        serializeDocument(doc, attemptMap.get(doc.documentType), documentUrls, now),
       );
 
-      const remainingAttempts = buildRemainingAttempts(attemptMap);
+      const remainingAttempts = buildRemainingAttempts(attemptMap, now);
       const response = {
         documents: serializedDocuments,
         review_estimate_minutes: REVIEW_ESTIMATE_MINUTES,
         remaining_attempts: remainingAttempts,
         kyc_status: determineKycStatus(documents),
+        reverification_required: needsReverification(documents, now),
       };
 
       return ok(response);
@@ -110,20 +117,18 @@ export function createKYCRoutes({
       const parsed = parseUploadBody(request.body);
       const now = clock.now();
 
-      const tracker = ensureAttemptTracker(request.userId);
-      const record = ensureAttemptRecord(tracker, parsed.documentType);
-
-      if (record.blockedUntil && record.blockedUntil > now) {
-        throw buildAttemptsExceededError();
-      }
-      if (record.attempts >= MAX_ATTEMPTS_PER_TYPE) {
-        record.blockedUntil = addHours(now, MANUAL_REVIEW_DELAY_HOURS);
-        throw buildAttemptsExceededError();
+      try {
+        await kycService.assertCanUpload(request.userId, parsed.documentType);
+      } catch (error) {
+        if (error instanceof ValidationError && error.code === 'MAX_ATTEMPTS_REACHED') {
+          throw buildAttemptsExceededError(error.details?.retry_at);
+        }
+        throw error;
       }
 
       const existingDocs = await kycService.listDocuments(request.userId);
       const approvedDuplicate = existingDocs.find(
-        (doc) => doc.documentType === parsed.documentType && doc.status === 'approved',
+        (doc) => doc.documentType === parsed.documentType && doc.status === 'approved' && !kycService.isDueForReplacement(doc),
       );
       if (approvedDuplicate) {
         throw new HttpError(409, 'Document type already approved', 'DOCUMENT_TYPE_LOCKED', {
@@ -133,7 +138,7 @@ export function createKYCRoutes({
 
       const uploadId = `upload_${parsed.documentType}_${randomUUID().slice(0, 8)}`;
       const documentId = `kyc_${parsed.documentType}_${randomUUID()}`;
-      const filePath = `kyc/${request.userId}/${documentId}/${parsed.fileName}`;
+      const filePath = `kyc/${request.userId}/${documentId}/${parsed.fileName.replace(/[^A-Za-z0-9._-]/g, '_')}`;
 
       try {
         const createdDoc = await kycService.uploadDocument({
@@ -143,58 +148,33 @@ export function createKYCRoutes({
           fileName: parsed.fileName,
           fileSize: parsed.fileSize,
           mimeType: parsed.mimeType,
-          encrypted: true,
+          // Encrypted and hashed once the file arrives; until then the hash is a placeholder
+          encrypted: false,
           accessHash: randomUUID().replace(/-/g, ''),
         });
 
-        record.attempts += 1;
-        record.lastAttemptAt = now;
-
-        const remainingAttempts = Math.max(0, MAX_ATTEMPTS_PER_TYPE - record.attempts);
+        const attempt = await kycService.recordUploadAttempt(request.userId, parsed.documentType);
+        const remainingAttempts = remainingUploadAttempts(attempt, now);
         const requiresPairing = parsed.documentType === 'selfie';
 
         const ipHeader = request.headers['x-forwarded-for'] ?? request.headers['x-real-ip'];
         const auditTrail = buildAuditTrail(ipHeader, parsed.deviceMetadata, parsed.geoLocation);
-        const uploadUrl = createSignedUploadUrl(request.userId, documentId, parsed.fileName);
-
-        const shouldQueue = parsed.mimeType === 'application/pdf' || parsed.fileSize > 4_000_000;
-        if (shouldQueue) {
-          await kycService.updateStatus({ documentId: createdDoc.id, status: 'processing' });
-          return {
-            status: 202,
-            body: {
-              upload_id: uploadId,
-              document_id: createdDoc.id,
-              signed_upload_url: uploadUrl,
-              upload_headers: {
-                'x-upsert': 'true',
-                'Content-Type': parsed.mimeType,
-              },
-              status: 'processing' as const,
-              queued_at: now.toISOString(),
-              estimated_completion_minutes: 90,
-              next_status_check_after_seconds: STATUS_POLL_SECONDS,
-              remaining_attempts: remainingAttempts,
-              manual_review_threshold: MAX_ATTEMPTS_PER_TYPE,
-              ...(auditTrail ? { audit_trail: auditTrail } : {}),
-            },
-          };
-        }
+        const uploadUrl = documentUrls.uploadUrl(createdDoc.id);
 
         const responseBody: Record<string, unknown> = {
           upload_id: uploadId,
           document_id: createdDoc.id,
-          signed_upload_url: uploadUrl,
+          signed_upload_url: uploadUrl.url,
+          upload_method: 'PUT',
           upload_headers: {
-            'x-upsert': 'true',
             'Content-Type': parsed.mimeType,
           },
           max_bytes: MAX_FILE_SIZE_BYTES,
-          expires_in_seconds: SIGNED_URL_TTL_SECONDS,
+          expires_in_seconds: documentUrls.ttlSeconds,
           encryption_required: true,
           status: 'pending_upload',
           remaining_attempts: remainingAttempts,
-          manual_review_threshold: MAX_ATTEMPTS_PER_TYPE,
+          manual_review_threshold: MAX_UPLOAD_ATTEMPTS_PER_TYPE,
         };
 
         if (requiresPairing) {
@@ -217,9 +197,72 @@ export function createKYCRoutes({
         throw error;
       }
     },
+
+    /**
+     * Receives the file's bytes at the signed upload link. The link is the credential, so no access
+     * token is needed. Once the file checks out the document moves to processing.
+     */
+    uploadDocumentFile: async (request: HttpRequest<unknown, { documentId: string }, SignedLinkQuery>) => {
+      verifyLink(documentUrls, 'upload', request.params.documentId, request.query);
+
+      const content = request.body;
+      if (!Buffer.isBuffer(content) || content.length === 0) {
+        throw badRequest('Request body must be the file content', 'EMPTY_UPLOAD');
+      }
+      if (content.length > MAX_FILE_SIZE_BYTES) {
+        throw badRequest('File size exceeds 10MB limit', 'FILE_TOO_LARGE', { max_bytes: MAX_FILE_SIZE_BYTES });
+      }
+
+      try {
+        const document = await kycService.confirmUpload(request.params.documentId, content);
+        return ok({
+          document_id: document.id,
+          status: document.status,
+          next_status_check_after_seconds: STATUS_POLL_SECONDS,
+        });
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          throw error;
+        }
+        if (error.code === 'DOCUMENT_NOT_FOUND') {
+          throw notFound(error.message, error.code);
+        }
+        if (error.code === 'UPLOAD_ALREADY_RECEIVED') {
+          throw conflict(error.message, error.code);
+        }
+        throw fromValidationError(error);
+      }
+    },
+
+    /** Serves the decrypted file at the signed download link. */
+    downloadDocumentFile: async (request: HttpRequest<unknown, { documentId: string }, SignedLinkQuery>) => {
+      verifyLink(documentUrls, 'download', request.params.documentId, request.query);
+
+      const file = await kycService.readDocumentFile(request.params.documentId);
+      if (!file) {
+        throw notFound('No file has been received for this document', 'FILE_NOT_FOUND');
+      }
+
+      return ok(file.content, {
+        'Content-Type': file.document.mimeType,
+        'Content-Disposition': `attachment; filename="${file.document.fileName.replace(/[^A-Za-z0-9._-]/g, '_')}"`,
+        'Cache-Control': 'private, no-store',
+      });
+    },
   };
 }
 
+function verifyLink(documentUrls: SignedDocumentUrls, action: 'upload' | 'download', documentId: string, query: SignedLinkQuery) {
+  try {
+    documentUrls.verify(action, documentId, query);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw forbidden(error.message, error.code);
+    }
+    throw error;
+  }
+}
+
 function parseStatuses(raw: string | undefined) {
   if (!raw) {
     return null;
@@ -271,40 +314,27 @@ function parseUploadBody(body: UploadDocumentBody | undefined) {
   };
 }
 
-function ensureAttemptTracker(userId: string) {
-  if (!attemptStore.has(userId)) {
-    attemptStore.set(userId, new Map());
-  }
-  return attemptStore.get(userId)!;
-}
-
-function ensureAttemptRecord(
-  tracker: Map<KYCDocumentType, AttemptRecord>,
-  type: KYCDocumentType,
-): AttemptRecord {
-  if (!tracker.has(type)) {
-    tracker.set(type, {
-      attempts: 0,
-      lastAttemptAt: null,
-      blockedUntil: null,
-    });
-  }
-  return tracker.get(type)!;
-}
-
-function buildRemainingAttempts(tracker: Map<KYCDocumentType, AttemptRecord>) {
+function buildRemainingAttempts(attempts: Map<KYCDocumentType, KYCUploadAttempt>, now: Date) {
   const remaining: Record<string, number> = {};
   for (const type of DOC_TYPES) {
-    const record = tracker.get(type);
-    const attempts = record?.attempts ?? 0;
-    remaining[type] = Math.max(0, MAX_ATTEMPTS_PER_TYPE - attempts);
+    remaining[type] = remainingUploadAttempts(attempts.get(type), now);
   }
   return remaining;
 }
 
-function serializeDocument(document: KYCDocument, attempts: AttemptRecord | undefined, now: Date) {
-  const remainingRetries = Math.max(0, MAX_ATTEMPTS_PER_TYPE - (attempts?.attempts ?? 0));
-  const blockedUntil = attempts?.blockedUntil ?? (document.status === 'rejected' ? addHours(document.processedAt ?? now, MANUAL_REVIEW_DELAY_HOURS) : null);
+function serializeDocument(
+  document: KYCDocument,
+  attempt: KYCUploadAttempt | undefined,
+  documentUrls: SignedDocumentUrls,
+  now: Date,
+) {
+  const remainingRetries = remainingUploadAttempts(attempt, now);
+  const blockedUntil =
+    attempt?.blockedUntil && isUploadBlocked(attempt, now)
+      ? attempt.blockedUntil
+      : document.status === 'rejected'
+        ? addHours(document.processedAt ?? now, UPLOAD_BLOCK_HOURS)
+        : null;
 
   return {
     document_id: document.id,
@@ -315,9 +345,12 @@ function serializeDocument(document: KYCDocument, attempts: AttemptRecord | unde
     uploaded_at: document.uploadedAt.toISOString(),
     processed_at: document.processedAt ? document.processedAt.toISOString() : null,
     verification_notes: document.verificationNotes ?? null,
-    secure_download_url: createSignedDownloadUrl(document),
-    expires_in_seconds: SIGNED_URL_TTL_SECONDS,
+    secure_download_url: document.encryptedDataKey ? documentUrls.downloadUrl(document.id).url : null,
+    expires_in_seconds: documentUrls.ttlSeconds,
     extracted_data: serializeExtractedData(document),
+    expires_at: document.expiresAt ? formatDate(document.expiresAt) : null,
+    expiry_state: kycExpiryState(document, now),
+    days_until_expiry: document.status === 'approved' ? daysUntilExpiry(document, now) : null,
     next_allowed_upload_at: blockedUntil ? blockedUntil.toISOString() : null,
     remaining_retries: remainingRetries,
   };
@@ -340,15 +373,37 @@ function determineKycStatus(documents: KYCDocument[]) {
   if (documents.length === 0) {
     return 'not_started';
   }
-  if (documents.some((doc) => doc.status === 'rejected')) {
+  // Expired documents only matter until they have been replaced
+  const current = documents.filter((doc) => doc.status !== 'expired');
+  if (current.some((doc) => doc.status === 'rejected')) {
     return 'rejected';
   }
-  if (documents.every((doc) => doc.status === 'approved')) {
+  if (current.length > 0 && current.every((doc) => doc.status === 'approved')) {
     return 'approved';
   }
   return 'pending';
 }
 
+/**
+ * Whether an identity document has expired or is about to, with no replacement uploaded or approved
+ * yet, so the app should ask for a new one.
+ */
+function needsReverification(documents: KYCDocument[], now: Date) {
+  const isIdentity = (doc: KYCDocument) => doc.documentType !== 'selfie';
+  const lapsing = (doc: KYCDocument) => {
+    const state = kycExpiryState(doc, now);
+    return state === 'expiring_soon' || state === 'expired';
+  };
+
+  const needsReplacement = documents.some(
+    (doc) => isIdentity(doc) && (doc.status === 'approved' || doc.status === 'expired') && lapsing(doc),
+  );
+  const hasReplacement = documents.some(
+    (doc) => isIdentity(doc) && ['uploaded', 'processing', 'approved'].includes(doc.status) && !lapsing(doc),
+  );
+  return needsReplacement && !hasReplacement;
+}
+
 function buildAuditTrail(ip: string | undefined, device: DeviceMetadata | null, geo: GeoLocation | null) {
   if (!device && !geo) {
     return null;
@@ -374,16 +429,6 @@ function buildAuditTrail(ip: string | undefined, device: DeviceMetadata | null,
   return audit;
 }
 
-function createSignedDownloadUrl(document: KYCDocument) {
-  const token = randomUUID().replace(/-/g, '');
-  return `https://storage.supabase.io/kyc/${document.userId}/${document.id}?token=${token}&signed=true&expires=${SIGNED_URL_TTL_SECONDS}`;
-}
-
-function createSignedUploadUrl(userId: string, documentId: string, fileName: string) {
-  const token = randomUUID().replace(/-/g, '');
-  return `https://storage.supabase.io/kyc/uploads/${userId}/${documentId}/${encodeURIComponent(fileName)}?token=${token}&expires=${SIGNED_URL_TTL_SECONDS}`;
-}
-
 function addHours(date: Date, hours: number) {
   const result = new Date(date);
   result.setHours(result.getHours() + hours);
@@ -394,11 +439,12 @@ function formatDate(date: Date) {
   return date.toISOString().split('T')[0];
 }
 
-function buildAttemptsExceededError() {
+function buildAttemptsExceededError(retryAt: unknown) {
   return new HttpError(429, 'Maximum attempts reached for this document type', 'MAX_ATTEMPTS_REACHED', {
-    attempts_allowed: MAX_ATTEMPTS_PER_TYPE,
+    attempts_allowed: MAX_UPLOAD_ATTEMPTS_PER_TYPE,
     manual_review_required: true,
-    estimated_manual_review_time_hours: MANUAL_REVIEW_DELAY_HOURS,
+    estimated_manual_review_time_hours: UPLOAD_BLOCK_HOURS,
     retry_after_seconds: STATUS_POLL_SECONDS,
+    retry_at: retryAt ?? null,
   });
 }
@@ -0,0 +1,81 @@
+/**
+ * Back-office route for explaining a wallet balance from the ledger: the balance at any point in
+ * time, the entries that produced it, and whether the stored wallet balance still agrees.
+ */
+
+import { LedgerEntry, walletAccountId } from '../models/LedgerEntry';
+import { LedgerService } from '../services/LedgerService';
+import { WalletRepository } from '../services/types';
+import { badRequest, notFound } from './errors';
+import { ensureAdmin } from './handler';
+import { ok } from './responses';
+import { HttpRequest } from './types';
+import { parsePagination } from './validation';
+
+export interface LedgerRouteDependencies {
+  ledgerService: LedgerService;
+  walletRepository: WalletRepository;
+}
+
+export function createLedgerRoutes({ ledgerService, walletRepository }: LedgerRouteDependencies) {
+  return {
+    getWalletLedger: async (
+      request: HttpRequest<unknown, { walletId: string }, { as_of?: string; limit?: string }>,
+    ) => {
+      ensureAdmin(request);
+
+      let asOf: Date | undefined;
+      if (request.query.as_of !== undefined) {
+        asOf = new Date(request.query.as_of);
+        if (Number.isNaN(asOf.getTime())) {
+          throw badRequest('as_of must be an ISO 8601 timestamp', 'INVALID_AS_OF');
+        }
+      }
+      const { limit } = parsePagination({ limit: request.query.limit });
+
+      const wallet = await walletRepository.findById(request.params.walletId);
+      if (!wallet) {
+        throw notFound('Wallet not found', 'WALLET_NOT_FOUND');
+      }
+
+      const [check, balanceAsOf, entries] = await Promise.all([
+        ledgerService.checkWallet(wallet),
+        asOf ? ledgerService.getWalletBalance(wallet.id, asOf) : Promise.resolve(null),
+        ledgerService.listWalletEntries(wallet.id, { asOf, limit }),
+      ]);
+
+      const accountId = walletAccountId(wallet.id);
+      return ok({
+        wallet_id: wallet.id,
+        user_id: wallet.userId,
+        wallet_type: wallet.walletType,
+        wallet_balance: check.walletBalance,
+        ledger_balance: check.ledgerBalance,
+        difference: check.difference,
+        as_of: asOf?.toISOString() ?? null,
+        balance_as_of: balanceAsOf ?? check.ledgerBalance,
+        entries: entries.map((entry) => serializeEntry(entry, accountId)),
+      });
+    },
+  };
+}
+
+function serializeEntry(entry: LedgerEntry, accountId: string) {
+  // Credits raise a wallet's balance and debits lower it
+  const change = entry.lines
+    .filter((line) => line.accountId === accountId)
+    .reduce((total, line) => total + (line.direction === 'credit' ? line.amount : -line.amount), 0);
+
+  return {
+    id: entry.id,
+    transaction_id: entry.transactionId ?? null,
+    description: entry.description,
+    posted_at: entry.postedAt.toISOString(),
+    change,
+    lines: entry.lines.map((line) => ({
+      account_id: line.accountId,
+      direction: line.direction,
+      amount: line.amount,
+    })),
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Transaction limits route so the app can show the headroom left for the user's KYC tier before a
+ * payment is refused.
+ */
+
+import { LimitService, LimitUsage } from '../services/LimitService';
+import { ensureAuthenticated } from './handler';
+import { ok } from './responses';
+import { HttpRequest } from './types';
+
+export interface LimitRouteDependencies {
+  limitService: LimitService;
+}
+
+export function createLimitRoutes({ limitService }: LimitRouteDependencies) {
+  return {
+    getLimits: async (request: HttpRequest) => {
+      ensureAuthenticated(request);
+
+      const limits = await limitService.getLimits(request.userId);
+      return ok({
+        tier: limits.tier,
+        kyc_status: limits.kycStatus,
+        balance: usageToJson(limits.balance),
+        limits: limits.transactionTypes.map((headroom) => ({
+          transaction_type: headroom.transactionType,
+          per_transaction: headroom.perTransaction,
+          daily: usageToJson(headroom.daily),
+          monthly: usageToJson(headroom.monthly),
+          available_now: headroom.availableNow,
+        })),
+        transfers_frozen_until: limits.transfersFrozenUntil ? limits.transfersFrozenUntil.toISOString() : null,
+      });
+    },
+  };
+}
+
+function usageToJson(usage: LimitUsage) {
+  return { limit: usage.limit, used: usage.used, remaining: usage.remaining };
+}
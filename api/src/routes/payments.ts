@@ -5,8 +5,13 @@
 import { randomUUID } from 'node:crypto';
 
 import { ValidationError } from '../models/base';
+import { FeePaymentMethod } from '../models/FeeSchedule';
 import { AuthService } from '../services/AuthService';
-import { PaymentService } from '../services/PaymentService';
+import { FeeService } from '../services/FeeService';
+import { LimitService } from '../services/LimitService';
+import { PaymentIntent, merchantRecipientKey, userRecipientKey } from '../models/PaymentIntent';
+import { PaymentService, StepUpCheck } from '../services/PaymentService';
+import { PaymentSettlementService } from '../services/PaymentSettlementService';
 import { calculateRoundUp } from '../services/RoundUpService';
 import { WalletService } from '../services/WalletService';
 import {
@@ -20,6 +25,7 @@ import {
 import { HttpError, badRequest, fromValidationError } from './errors';
 import { ensureAuthenticated } from './handler';
 import { ok } from './responses';
+import { parseChallengeId, toStepUpHttpError } from './step-up';
 import { HttpRequest } from './types';
 import { normalizeEmail, normalizeKenyanPhone, requireNumber, requireString } from './validation';
 
@@ -35,6 +41,7 @@ interface MerchantPaymentBody {
   pin_token?: string;
   merchant_info?: MerchantInfoPayload;
   description?: string;
+  step_up_challenge_id?: string; // verified challenge when retrying after STEP_UP_REQUIRED
 }
 
 interface TransferRecipientPayload {
@@ -50,6 +57,7 @@ interface TransferPaymentBody {
   recipient_user_id?: string; // Zanari user ID from lookup
   description?: string;
   payment_method?: 'wallet' | 'mpesa' | 'card'; // Payment method selection
+  step_up_challenge_id?: string; // verified challenge when retrying after STEP_UP_REQUIRED
 }
 
 interface TopUpBody {
@@ -67,8 +75,11 @@ interface TransferPreviewBody {
 
 export interface PaymentRouteDependencies {
   paymentService: PaymentService;
+  settlementService: PaymentSettlementService;
   authService: AuthService;
   walletService: WalletService;
+  feeService: FeeService;
+  limitService: LimitService;
   userRepository: UserRepository;
   transactionRepository: TransactionRepository;
   roundUpRuleRepository: any; // RoundUpRuleRepository
@@ -77,16 +88,15 @@ export interface PaymentRouteDependencies {
 }
 
 const MIN_TRANSACTION_AMOUNT = 100; // cents → KES 1.00
-const MAX_TRANSACTION_AMOUNT = 500_000; // cents → KES 5,000.00
 const MAX_TOPUP_AMOUNT = 100_000_000; // cents → KES 1,000,000.00
-const DAILY_TRANSACTION_LIMIT = 2_000_000; // cents → KES 20,000.00
-const WALLET_TRANSFER_FEE = 0; // Free for wallet-to-wallet transfers
-const EXTERNAL_TRANSFER_FEE = 1000; // KES 10 for M-Pesa/Card transfers
 
 export function createPaymentRoutes({
   paymentService,
+  settlementService,
   authService,
   walletService,
+  feeService,
+  limitService,
   userRepository,
   transactionRepository,
   roundUpRuleRepository,
@@ -113,7 +123,7 @@ export function createPaymentRoutes({
 
       // Verify recipient exists
       const recipientUser = await userRepository.findById(recipientUserId);
-      if (!recipientUser) {
+      if (!recipientUser || recipientUser.status === 'closed') {
         throw badRequest('Recipient user not found', 'RECIPIENT_NOT_FOUND');
       }
 
@@ -121,8 +131,8 @@ export function createPaymentRoutes({
         throw badRequest('Cannot transfer money to yourself', 'SELF_TRANSFER_NOT_ALLOWED');
       }
 
-      // Calculate fee based on payment method
-      const fee = paymentMethod === 'wallet' ? WALLET_TRANSFER_FEE : EXTERNAL_TRANSFER_FEE;
+      const feeQuote = feeService.quote({ transactionType: 'transfer', paymentMethod, amount });
+      const fee = feeQuote.fee;
 
       // Get user's round-up rule
       const roundUpRule = await roundUpRuleRepository.findByUserId(request.userId);
@@ -146,6 +156,8 @@ export function createPaymentRoutes({
       return ok({
         amount,
         fee,
+        standard_fee: feeQuote.standardFee,
+        fee_promotion: feeQuote.promotion,
         round_up_amount: roundUpCalc.roundUpAmount,
         round_up_description: roundUpCalc.roundUpRule.incrementType,
         total,
@@ -191,128 +203,7 @@ export function createPaymentRoutes({
       }
 
       try {
-        // Update transaction status to completed
-        const updatedTransaction = await transactionRepository.update({
-          ...transaction,
-          status: 'completed',
-          updatedAt: clock.now(),
-        });
-
-        // Parse metadata from externalTransactionId (for external transfers)
-        let transferMetadata: {
-          recipientUserId?: string;
-          recipientName?: string;
-          senderName?: string;
-          transferType?: string;
-          senderUserId?: string;
-        } = {};
-        if (transaction.externalTransactionId) {
-          try {
-            transferMetadata = JSON.parse(transaction.externalTransactionId);
-          } catch {
-            // Not JSON metadata, skip
-          }
-        }
-
-        const recipientUserId = transferMetadata.recipientUserId;
-        const recipientName = transferMetadata.recipientName;
-        const senderName = transferMetadata.senderName;
-        const transferType = transferMetadata.transferType;
-
-        if (updatedTransaction.type === 'transfer_out' && transferType === 'external' && recipientUserId) {
-          // This is an external transfer to a Zanari user
-          // Credit the RECIPIENT's wallet
-          await walletService.credit({
-            userId: recipientUserId,
-            walletType: 'main',
-            amount: updatedTransaction.amount,
-          });
-
-          // Create transfer_in transaction for recipient
-          const recipientTxId = randomUUID();
-          await transactionRepository.create({
-            id: recipientTxId,
-            userId: recipientUserId,
-            type: 'transfer_in',
-            amount: updatedTransaction.amount,
-            category: 'transfer',
-            status: 'completed',
-            autoCategorized: false,
-            description: transaction.description ?? 'Received from Zanari user',
-            externalReference: JSON.stringify({
-              senderUserId: request.userId,
-              senderName: senderName || 'Zanari User',
-              relatedTransactionId: transaction.id,
-              transferType: 'external',
-            }),
-            createdAt: clock.now(),
-            updatedAt: clock.now(),
-            completedAt: clock.now(),
-            retry: {
-              retryCount: 0,
-              lastRetryAt: null,
-              nextRetryAt: null,
-            },
-          });
-
-          // Create round-up transaction for sender if applicable
-          const roundUpAmount = updatedTransaction.roundUpDetails?.roundUpAmount;
-          if (roundUpAmount && roundUpAmount > 0 && updatedTransaction.roundUpDetails) {
-            const roundUpTx = await transactionRepository.create({
-              id: randomUUID(),
-              userId: request.userId,
-              type: 'round_up',
-              amount: roundUpAmount,
-              category: 'savings',
-              status: 'completed',
-              autoCategorized: true,
-              description: 'Round-up savings for external transfer',
-              roundUpDetails: {
-                originalAmount: updatedTransaction.amount,
-                roundUpAmount,
-                roundUpRule: updatedTransaction.roundUpDetails.roundUpRule,
-                relatedTransactionId: transaction.id,
-              },
-              createdAt: clock.now(),
-              updatedAt: clock.now(),
-              completedAt: clock.now(),
-              retry: {
-                retryCount: 0,
-                lastRetryAt: null,
-                nextRetryAt: null,
-              },
-            });
-
-            // Apply round-up to sender's savings
-            await walletService.transferRoundUp(request.userId, roundUpAmount);
-
-            // Update sender transaction with round-up link
-            await transactionRepository.update({
-              ...updatedTransaction,
-              roundUpDetails: {
-                ...updatedTransaction.roundUpDetails,
-                relatedTransactionId: roundUpTx.id,
-              },
-              updatedAt: clock.now(),
-            });
-          }
-
-          logger.info('External transfer to recipient verified', {
-            senderId: request.userId,
-            recipientId: recipientUserId,
-            amount: updatedTransaction.amount,
-            reference,
-          });
-        } else if (updatedTransaction.type === 'deposit' && !recipientUserId) {
-          // Regular top-up - credit sender's wallet
-          await walletService.credit({ userId: request.userId, walletType: 'main', amount: updatedTransaction.amount });
-
-          logger.info('Wallet top-up verified', {
-            userId: request.userId,
-            amount: updatedTransaction.amount,
-            reference,
-          });
-        }
+        const { transaction: updatedTransaction } = await settlementService.completeCharge(transaction);
 
         logger.info('Payment verified successfully', {
           userId: request.userId,
@@ -343,6 +234,7 @@ export function createPaymentRoutes({
       const pinToken = parsePinToken(request.body?.pin_token, 'PIN token is required for payment authorization');
       const merchant = parseMerchantInfo(request.body?.merchant_info);
       const description = request.body?.description?.trim() ?? null;
+      const stepUpChallengeId = parseOptionalChallengeId(request.body?.step_up_challenge_id);
 
       const user = await userRepository.findById(request.userId);
       if (!user) {
@@ -359,27 +251,41 @@ export function createPaymentRoutes({
         }
       }
 
-      await enforceDailyLimit(transactionRepository, request.userId, amount, clock);
+      // Checked up front so nothing is held or sent to Paystack for a payment the limits refuse
+      await limitService.assertWithinLimits({ userId: request.userId, transactionType: 'payment', amount });
+      const { fee } = feeService.quote({ transactionType: 'merchant_payment', paymentMethod: 'wallet', amount });
 
       const mainWallet = await requireMainWallet(walletService, request.userId);
       const availableBefore = mainWallet.availableBalance;
-      if (availableBefore < amount) {
+      if (availableBefore < amount + fee) {
         throw new HttpError(402, 'Insufficient funds', 'INSUFFICIENT_FUNDS', {
           available_balance: availableBefore,
           round_up_skipped: false,
         });
       }
 
-      const pinValid = await authService.validatePinToken(request.userId, pinToken);
-      if (!pinValid) {
-        throw new HttpError(401, 'PIN token expired', 'PIN_TOKEN_EXPIRED');
-      }
+      const intent: PaymentIntent = {
+        transactionType: 'payment',
+        amount,
+        recipientKey: merchantRecipientKey(merchant.merchantInfo),
+      };
+      await requireIntentPinToken(authService, request.userId, pinToken, intent);
+
+      // The PIN token stays valid when step-up is required, so the payment can be retried with it
+      await authorizeStepUp(paymentService, {
+        userId: request.userId,
+        deviceSessionId: request.deviceSessionId ?? null,
+        ...intent,
+        challengeId: stepUpChallengeId,
+      });
+      await consumeIntentPinToken(authService, request.userId, pinToken, intent);
 
       try {
         const result = await paymentService.payMerchant({
           paymentId: randomUUID(),
           userId: request.userId,
           amount,
+          fee,
           pinToken,
           merchantInfo: merchant.merchantInfo,
           description,
@@ -390,8 +296,6 @@ export function createPaymentRoutes({
           callbackUrl: process.env.PAYSTACK_CALLBACK_URL ?? undefined,
         });
 
-        await authService.invalidatePinToken(pinToken);
-
         if (result.status === 'failed') {
           const retryAfter = computeRetryAfterSeconds(result.scheduledRetry?.runAt, clock.now());
           throw new HttpError(503, 'Payment service temporarily unavailable', 'PAYSTACK_UNAVAILABLE', {
@@ -402,7 +306,7 @@ export function createPaymentRoutes({
         const roundUpSkipped = determineRoundUpSkipped({
           roundUpAmount: result.roundUpAmount,
           roundUpTransactionId: result.roundUpTransaction?.id ?? null,
-          originalAmount: amount,
+          originalAmount: amount + fee,
           initialAvailable: availableBefore,
         });
 
@@ -411,6 +315,7 @@ export function createPaymentRoutes({
           payment_transaction_id: result.paymentTransaction.id,
           round_up_transaction_id: result.roundUpTransaction?.id ?? null,
           total_charged: result.totalCharged,
+          fee: result.fee,
           round_up_amount: result.roundUpAmount,
           paystack_reference: checkout?.reference ?? null,
           paystack_access_code: checkout?.accessCode ?? null,
@@ -469,6 +374,7 @@ export function createPaymentRoutes({
       const description = request.body?.description?.trim() ?? null;
       const paymentMethod = request.body?.payment_method ?? 'wallet';
       const recipientUserId = request.body?.recipient_user_id;
+      const stepUpChallengeId = parseOptionalChallengeId(request.body?.step_up_challenge_id);
 
       // Validate payment method
       if (paymentMethod !== 'wallet' && paymentMethod !== 'mpesa' && paymentMethod !== 'card') {
@@ -482,7 +388,7 @@ export function createPaymentRoutes({
 
       // Verify recipient exists and is not self
       const recipientUser = await userRepository.findById(recipientUserId);
-      if (!recipientUser) {
+      if (!recipientUser || recipientUser.status === 'closed') {
         throw badRequest('Recipient user not found', 'RECIPIENT_NOT_FOUND');
       }
 
@@ -496,29 +402,37 @@ export function createPaymentRoutes({
         throw new HttpError(404, 'User not found', 'USER_NOT_FOUND');
       }
 
-      await enforceDailyLimit(transactionRepository, request.userId, amount, clock);
+      await limitService.assertWithinLimits({ userId: request.userId, transactionType: 'transfer_out', amount });
 
-      // Calculate fee based on payment method
-      const fee = paymentMethod === 'wallet' ? WALLET_TRANSFER_FEE : EXTERNAL_TRANSFER_FEE;
+      const { fee } = feeService.quote({ transactionType: 'transfer', paymentMethod, amount });
 
       // Validate PIN for all transfer types (both wallet and external)
-      const pinValid = await authService.validatePinToken(request.userId, pinToken);
-      if (!pinValid) {
-        throw new HttpError(401, 'PIN token expired', 'PIN_TOKEN_EXPIRED');
-      }
+      const intent: PaymentIntent = {
+        transactionType: 'transfer_out',
+        amount,
+        recipientKey: userRecipientKey(recipientUserId),
+      };
+      await requireIntentPinToken(authService, request.userId, pinToken, intent);
+
+      await authorizeStepUp(paymentService, {
+        userId: request.userId,
+        deviceSessionId: request.deviceSessionId ?? null,
+        ...intent,
+        challengeId: stepUpChallengeId,
+      });
+      await consumeIntentPinToken(authService, request.userId, pinToken, intent);
 
       try {
         if (paymentMethod === 'wallet') {
-          // WALLET-TO-WALLET TRANSFER (Internal, FREE, Instant)
+          // WALLET-TO-WALLET TRANSFER (Internal, Instant)
 
           const mainWallet = await requireMainWallet(walletService, request.userId);
           const availableBefore = mainWallet.availableBalance;
 
-          // Check balance (amount only, no fee for wallet transfers)
-          if (availableBefore < amount) {
+          if (availableBefore < amount + fee) {
             throw new HttpError(402, 'Insufficient funds', 'INSUFFICIENT_FUNDS', {
               available_balance: availableBefore,
-              required_amount: amount,
+              required_amount: amount + fee,
             });
           }
 
@@ -528,6 +442,7 @@ export function createPaymentRoutes({
             userId: request.userId,
             recipientUserId,
             amount,
+            fee,
             description,
             senderName: senderUser.firstName && senderUser.lastName
               ? `${senderUser.firstName} ${senderUser.lastName}`
@@ -537,8 +452,6 @@ export function createPaymentRoutes({
               : recipientUser.firstName || 'Zanari User',
           });
 
-          await authService.invalidatePinToken(pinToken);
-
           logger.info('Internal peer transfer completed', {
             userId: request.userId,
             recipientUserId,
@@ -590,9 +503,6 @@ export function createPaymentRoutes({
               : recipientUser.firstName || 'Zanari User',
           });
 
-          // Invalidate PIN after successful Paystack initialization
-          await authService.invalidatePinToken(pinToken);
-
           logger.info('External peer transfer initialized', {
             userId: request.userId,
             recipientUserId,
@@ -659,6 +569,8 @@ export function createPaymentRoutes({
       }
 
       const amount = rawAmount;
+      const paymentMethod: FeePaymentMethod = request.body?.payment_method === 'card' ? 'card' : 'mpesa';
+      const { fee } = feeService.quote({ transactionType: 'top_up', paymentMethod, amount });
       const description = request.body?.description?.trim() ?? 'Wallet top-up';
       const pinToken = parsePinToken(request.body?.pin_token, 'PIN token is required for top-up authorization');
 
@@ -667,6 +579,8 @@ export function createPaymentRoutes({
         throw new HttpError(404, 'User not found', 'USER_NOT_FOUND');
       }
 
+      await limitService.assertWithinLimits({ userId: request.userId, transactionType: 'deposit', amount });
+
       const pinValid = await authService.validatePinToken(request.userId, pinToken);
       if (!pinValid) {
         throw new HttpError(401, 'PIN token expired', 'PIN_TOKEN_EXPIRED');
@@ -692,6 +606,7 @@ export function createPaymentRoutes({
           depositId,
           userId: request.userId,
           amount,
+          fee,
           description,
           customerEmail,
           customerPhone,
@@ -710,6 +625,8 @@ export function createPaymentRoutes({
         const responseBody = {
           deposit_transaction_id: depositId,
           amount: amount,
+          fee,
+          total_charged: amount + fee,
           paystack_reference: checkout.reference,
           paystack_access_code: checkout.accessCode,
           paystack_authorization_url: checkout.authorizationUrl,
@@ -760,12 +677,37 @@ function parseAmount(rawAmount: number | undefined, minMessage: string): number
   if (amount < MIN_TRANSACTION_AMOUNT) {
     throw badRequest(minMessage, 'AMOUNT_TOO_LOW');
   }
-  if (amount > MAX_TRANSACTION_AMOUNT) {
-    throw badRequest('Maximum single payment amount is KES 5,000.00', 'AMOUNT_TOO_HIGH');
-  }
   return amount;
 }
 
+function parseOptionalChallengeId(raw: string | undefined): string | null {
+  return raw === undefined || raw === null ? null : parseChallengeId(raw);
+}
+
+const PIN_TOKEN_INTENT_MESSAGE = 'PIN token expired or issued for a different payment';
+
+/** Merchant payments and transfers only accept a PIN token issued for that exact payment. */
+async function requireIntentPinToken(authService: AuthService, userId: string, pinToken: string, intent: PaymentIntent) {
+  if (!(await authService.validatePinToken(userId, pinToken, intent))) {
+    throw new HttpError(401, PIN_TOKEN_INTENT_MESSAGE, 'PIN_TOKEN_EXPIRED');
+  }
+}
+
+/** Uses the token up before money moves, so a concurrent request with it fails here. */
+async function consumeIntentPinToken(authService: AuthService, userId: string, pinToken: string, intent: PaymentIntent) {
+  if (!(await authService.consumePinToken(userId, pinToken, intent))) {
+    throw new HttpError(401, PIN_TOKEN_INTENT_MESSAGE, 'PIN_TOKEN_EXPIRED');
+  }
+}
+
+async function authorizeStepUp(paymentService: PaymentService, check: StepUpCheck): Promise<void> {
+  try {
+    await paymentService.authorizeStepUp(check);
+  } catch (error) {
+    throw toStepUpHttpError(error);
+  }
+}
+
 function parsePinToken(rawToken: string | undefined, message: string): string {
   const token = requireString(rawToken, message, 'MISSING_PIN_TOKEN');
   if (!/^txn_[a-zA-Z0-9]+$/.test(token)) {
@@ -899,24 +841,6 @@ async function parseRecipient(
   };
 }
 
-async function enforceDailyLimit(
-  transactionRepository: TransactionRepository,
-  userId: string,
-  amount: number,
-  clock: Clock,
-) {
-  const dayStart = startOfDay(clock.now());
-  const usedToday = await transactionRepository.sumUserTransactionsForDay(userId, dayStart);
-  const available = Math.max(0, DAILY_TRANSACTION_LIMIT - usedToday);
-  if (amount > available) {
-    throw new HttpError('400' as unknown as number, 'Daily transaction limit exceeded', 'DAILY_LIMIT_EXCEEDED', {
-      daily_limit: DAILY_TRANSACTION_LIMIT,
-      used_today: usedToday,
-      available_today: available,
-    });
-  }
-}
-
 async function requireMainWallet(walletService: WalletService, userId: string) {
   const wallet = await walletService.getWallet(userId, 'main');
   if (!wallet) {
@@ -967,9 +891,3 @@ function randomSuffix(seed: string): string {
   const suffix = Math.random().toString(36).slice(2, 10);
   return `${base.slice(0, 6)}${suffix}`;
 }
-
-function startOfDay(date: Date): Date {
-  const start = new Date(date);
-  start.setHours(0, 0, 0, 0);
-  return start;
-}
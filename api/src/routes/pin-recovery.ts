@@ -0,0 +1,148 @@
+/**
+ * Forgot-PIN routes. Apart from cancelling, they are reachable without an access token: the OTP and,
+ * for KYC-approved users, the identity question are what prove who the user is.
+ */
+
+import { ValidationError } from '../models/base';
+import { PinRecovery } from '../models/PinRecovery';
+import { PinRecoveryService } from '../services/PinRecoveryService';
+import { badRequest, fromValidationError, notFound, tooManyRequests } from './errors';
+import { ensureAuthenticated } from './handler';
+import { ok } from './responses';
+import { HttpRequest } from './types';
+import { requireString } from './validation';
+
+const RECOVERY_ID_REGEX = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+
+interface StartBody {
+  email?: string;
+  phone?: string;
+}
+
+interface VerifyOtpBody {
+  session_id?: string;
+  otp_code?: string;
+}
+
+interface CompleteBody {
+  recovery_id?: string;
+  new_pin?: string;
+  confirm_pin?: string;
+  id_number_last_digits?: unknown;
+}
+
+export interface PinRecoveryRouteDependencies {
+  pinRecoveryService: PinRecoveryService;
+}
+
+export function createPinRecoveryRoutes({ pinRecoveryService }: PinRecoveryRouteDependencies) {
+  return {
+    start: async (request: HttpRequest<StartBody>) => {
+      try {
+        const result = await pinRecoveryService.start(request.body ?? {});
+        return ok({
+          message: result.message,
+          session_id: result.sessionId,
+          delivery_channel: result.deliveryChannel,
+        });
+      } catch (error) {
+        throw toHttpError(error);
+      }
+    },
+
+    verifyOtp: async (request: HttpRequest<VerifyOtpBody>) => {
+      const sessionId = requireString(request.body?.session_id, 'session_id is required', 'INVALID_SESSION_ID');
+      const otpCode = requireString(request.body?.otp_code, 'otp_code is required', 'INVALID_OTP');
+
+      try {
+        const result = await pinRecoveryService.verifyOtp({ sessionId, otpCode });
+        return ok({
+          ...serializeRecovery(result.recovery),
+          identity_check: result.identityCheck,
+        });
+      } catch (error) {
+        throw toHttpError(error);
+      }
+    },
+
+    complete: async (request: HttpRequest<CompleteBody>) => {
+      const recoveryId = requireRecoveryId(request.body?.recovery_id);
+      const newPin = requireString(request.body?.new_pin, 'new_pin is required', 'INVALID_PIN_FORMAT');
+      const confirmPin = requireString(request.body?.confirm_pin, 'confirm_pin is required', 'INVALID_PIN_FORMAT');
+      const idNumberLastDigits = request.body?.id_number_last_digits;
+
+      if (!/^[0-9]{4}$/.test(newPin) || !/^[0-9]{4}$/.test(confirmPin)) {
+        throw badRequest('PIN must be 4 numeric digits', 'INVALID_PIN_FORMAT');
+      }
+      if (newPin !== confirmPin) {
+        throw badRequest('PIN and confirm PIN must match', 'PIN_MISMATCH');
+      }
+      if (idNumberLastDigits !== undefined && typeof idNumberLastDigits !== 'string') {
+        throw badRequest('id_number_last_digits must be a string', 'INVALID_IDENTITY_ANSWER');
+      }
+
+      try {
+        const recovery = await pinRecoveryService.complete({ recoveryId, newPin, idNumberLastDigits });
+        return ok(serializeRecovery(recovery));
+      } catch (error) {
+        throw toHttpError(error);
+      }
+    },
+
+    getStatus: async (request: HttpRequest<unknown, { recoveryId: string }>) => {
+      const recoveryId = requireRecoveryId(request.params.recoveryId);
+
+      try {
+        return ok(serializeRecovery(await pinRecoveryService.getStatus(recoveryId)));
+      } catch (error) {
+        throw toHttpError(error);
+      }
+    },
+
+    cancel: async (request: HttpRequest) => {
+      ensureAuthenticated(request);
+
+      try {
+        return ok(serializeRecovery(await pinRecoveryService.cancel(request.userId)));
+      } catch (error) {
+        throw toHttpError(error);
+      }
+    },
+  };
+}
+
+function requireRecoveryId(value: unknown): string {
+  const recoveryId = requireString(value, 'recovery_id is required', 'INVALID_RECOVERY_ID');
+  if (!RECOVERY_ID_REGEX.test(recoveryId)) {
+    throw badRequest('Invalid recovery ID format', 'INVALID_RECOVERY_ID');
+  }
+  return recoveryId;
+}
+
+function toHttpError(error: unknown): unknown {
+  if (!(error instanceof ValidationError)) {
+    return error;
+  }
+  switch (error.code) {
+    case 'RATE_LIMIT_EXCEEDED':
+      return tooManyRequests(error.message);
+    case 'RECOVERY_NOT_FOUND':
+      return notFound(error.message, error.code);
+    case 'RECOVERY_IN_PROGRESS':
+      return fromValidationError(error, 409);
+    case 'RECOVERY_LOCKED':
+      return fromValidationError(error, 429);
+    default:
+      return fromValidationError(error);
+  }
+}
+
+function serializeRecovery(recovery: PinRecovery) {
+  return {
+    recovery_id: recovery.id,
+    status: recovery.status,
+    identity_check_required: recovery.identityCheckRequired,
+    expires_at: recovery.expiresAt.toISOString(),
+    effective_at: recovery.effectiveAt ? recovery.effectiveAt.toISOString() : null,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Back-office routes for Paystack reconciliation: read a day's mismatch report or trigger a sweep
+ * outside the regular schedule.
+ */
+
+import { HttpRequest } from './types';
+import { ok } from './responses';
+import { badRequest, notFound } from './errors';
+import { ensureAdmin } from './handler';
+import {
+  ReconciliationMismatch,
+  ReconciliationReport,
+  isReconciliationReportDate,
+} from '../models/ReconciliationReport';
+import { ReconciliationService } from '../services/ReconciliationService';
+import { Logger, NullLogger } from '../services/types';
+
+interface RunReconciliationBody {
+  older_than_minutes?: number;
+}
+
+export interface ReconciliationRouteDependencies {
+  reconciliationService: ReconciliationService;
+  logger?: Logger;
+}
+
+export function createReconciliationRoutes({ reconciliationService, logger = NullLogger }: ReconciliationRouteDependencies) {
+  return {
+    getReport: async (request: HttpRequest<unknown, { date: string }>) => {
+      ensureAdmin(request);
+
+      const reportDate = request.params.date;
+      if (!isReconciliationReportDate(reportDate)) {
+        throw badRequest('Report date must be formatted as YYYY-MM-DD', 'INVALID_REPORT_DATE');
+      }
+
+      const report = await reconciliationService.getReport(reportDate);
+      if (!report) {
+        throw notFound('No reconciliation report for this date', 'REPORT_NOT_FOUND');
+      }
+
+      return ok(serializeReport(report));
+    },
+
+    runSweep: async (request: HttpRequest<RunReconciliationBody>) => {
+      ensureAdmin(request);
+
+      const olderThanMinutes = request.body?.older_than_minutes;
+      if (olderThanMinutes !== undefined && (!Number.isFinite(olderThanMinutes) || olderThanMinutes < 0)) {
+        throw badRequest('older_than_minutes must be a non-negative number', 'INVALID_THRESHOLD');
+      }
+
+      const result = await reconciliationService.sweep({
+        olderThanMs: olderThanMinutes === undefined ? undefined : olderThanMinutes * 60 * 1000,
+      });
+
+      logger.info('Manual reconciliation sweep', {
+        adminId: request.adminId,
+        checked: result.checked,
+        resolved: result.resolved,
+      });
+
+      return ok({
+        checked: result.checked,
+        resolved: result.resolved,
+        mismatches: result.mismatches.map(serializeMismatch),
+        report_date: result.report.reportDate,
+      });
+    },
+  };
+}
+
+function serializeReport(report: ReconciliationReport) {
+  return {
+    report_date: report.reportDate,
+    sweeps: report.sweeps,
+    checked: report.checked,
+    resolved: report.resolved,
+    mismatches: report.mismatches.map(serializeMismatch),
+    updated_at: report.updatedAt.toISOString(),
+  };
+}
+
+function serializeMismatch(entry: ReconciliationMismatch) {
+  return {
+    transaction_id: entry.transactionId,
+    user_id: entry.userId,
+    transaction_type: entry.transactionType,
+    reference: entry.reference,
+    local_status: entry.localStatus,
+    provider_status: entry.providerStatus,
+    expected_amount: entry.expectedAmount,
+    provider_amount: entry.providerAmount,
+    reason: entry.reason,
+    action: entry.action,
+    detail: entry.detail,
+    detected_at: entry.detectedAt.toISOString(),
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Back-office route for refunding completed merchant payments to the payer's wallet.
+ */
+
+import { ValidationError } from '../models/base';
+import { RefundService } from '../services/RefundService';
+import { Logger, NullLogger } from '../services/types';
+import { badRequest, conflict, fromValidationError, notFound } from './errors';
+import { ensureAdmin } from './handler';
+import { created } from './responses';
+import { HttpRequest } from './types';
+import { serializeTransaction } from './serializers';
+
+interface RefundPaymentBody {
+  amount?: number;
+  return_round_up?: boolean;
+  reason?: string;
+  provider_refund_id?: string;
+}
+
+export interface RefundRouteDependencies {
+  refundService: RefundService;
+  logger?: Logger;
+}
+
+export function createRefundRoutes({ refundService, logger = NullLogger }: RefundRouteDependencies) {
+  return {
+    refundPayment: async (request: HttpRequest<RefundPaymentBody, { transactionId: string }>) => {
+      ensureAdmin(request);
+
+      const body = request.body ?? {};
+      if (body.amount !== undefined && (!Number.isInteger(body.amount) || body.amount <= 0)) {
+        throw badRequest('amount must be a positive integer in cents', 'INVALID_AMOUNT');
+      }
+      if (body.return_round_up !== undefined && typeof body.return_round_up !== 'boolean') {
+        throw badRequest('return_round_up must be a boolean', 'INVALID_RETURN_ROUND_UP');
+      }
+
+      try {
+        const result = await refundService.refundPayment({
+          transactionId: request.params.transactionId,
+          amount: body.amount,
+          returnRoundUp: body.return_round_up,
+          reason: body.reason ?? null,
+          providerReference: body.provider_refund_id ?? null,
+        });
+
+        logger.info('Payment refunded by admin', {
+          adminId: request.adminId,
+          paymentId: result.payment.id,
+          refundId: result.refund.id,
+          amount: result.refund.amount,
+          applied: result.applied,
+        });
+
+        return created({
+          refund: serializeTransaction(result.refund),
+          payment: serializeTransaction(result.payment),
+          round_up_returned: result.roundUpReturned,
+          refundable_amount: result.payment.amount - (result.payment.refundedAmount ?? 0),
+        });
+      } catch (error) {
+        throw mapRefundError(error);
+      }
+    },
+  };
+}
+
+function mapRefundError(error: unknown): unknown {
+  if (!(error instanceof ValidationError)) {
+    return error;
+  }
+
+  switch (error.code) {
+    case 'PAYMENT_NOT_FOUND':
+      return notFound(error.message, error.code);
+    case 'PAYMENT_NOT_REFUNDABLE':
+    case 'REFUND_EXCEEDS_REFUNDABLE':
+      return conflict(error.message, error.code);
+    default:
+      return fromValidationError(error);
+  }
+}
@@ -433,6 +433,8 @@ export function createSavingsGoalRoutes({
         userId: request.userId,
         walletType: source_wallet,
         amount,
+        counterAccount: 'savings_goals',
+        description: 'Deposit to savings goal',
       });
 
       // Record the contribution to the goal
@@ -539,6 +541,8 @@ export function createSavingsGoalRoutes({
         userId: request.userId,
         walletType: destination_wallet,
         amount: amountToWithdraw,
+        counterAccount: 'savings_goals',
+        description: 'Withdrawal from savings goal',
       });
 
       // Update goal to zero balance
@@ -187,7 +187,10 @@ export function serializeTransaction(transaction: Transaction): Record<string, u
           related_transaction_id: transaction.roundUpDetails.relatedTransactionId,
         }
       : null,
-    parent_transaction_id: transaction.roundUpDetails ? transaction.roundUpDetails.relatedTransactionId : null,
+    parent_transaction_id:
+      transaction.relatedTransactionId ?? (transaction.roundUpDetails ? transaction.roundUpDetails.relatedTransactionId : null),
+    refunded_amount: transaction.refundedAmount ?? 0,
+    dispute_status: transaction.disputeStatus ?? null,
     savings_goal_id: deriveSavingsGoalId(transaction),
     paystack_reference: paystackReference,
     paystack_transaction_id: externalTransactionId,
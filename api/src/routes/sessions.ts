@@ -0,0 +1,74 @@
+/**
+ * Device session routes so users can see where they are signed in and sign devices out.
+ */
+
+import { ValidationError } from '../models/base';
+import { DeviceSession } from '../models/DeviceSession';
+import { SessionService } from '../services/SessionService';
+import { badRequest, fromValidationError, notFound } from './errors';
+import { ensureAuthenticated } from './handler';
+import { ok } from './responses';
+import { HttpRequest } from './types';
+import { requireString } from './validation';
+
+const SESSION_ID_REGEX = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+
+export interface SessionRouteDependencies {
+  sessionService: SessionService;
+}
+
+export function createSessionRoutes({ sessionService }: SessionRouteDependencies) {
+  return {
+    listSessions: async (request: HttpRequest) => {
+      ensureAuthenticated(request);
+
+      const sessions = await sessionService.listSessions(request.userId);
+      return ok({
+        sessions: sessions.map((session) => serializeSession(session, request.deviceSessionId)),
+      });
+    },
+
+    revokeSession: async (request: HttpRequest<unknown, { sessionId: string }>) => {
+      ensureAuthenticated(request);
+      const sessionId = requireString(request.params.sessionId, 'sessionId path parameter is required', 'INVALID_SESSION_ID');
+      if (!SESSION_ID_REGEX.test(sessionId)) {
+        throw badRequest('Invalid session ID format', 'INVALID_SESSION_ID');
+      }
+
+      try {
+        const session = await sessionService.revokeSession(request.userId, sessionId);
+        return ok({ session_id: session.id, revoked: true });
+      } catch (error) {
+        if (error instanceof ValidationError && error.code === 'SESSION_NOT_FOUND') {
+          throw notFound(error.message, error.code);
+        }
+        if (error instanceof ValidationError) {
+          throw fromValidationError(error);
+        }
+        throw error;
+      }
+    },
+
+    revokeOtherSessions: async (request: HttpRequest) => {
+      ensureAuthenticated(request);
+      if (!request.deviceSessionId) {
+        throw badRequest('The current session is unknown; sign in with an access token', 'SESSION_REQUIRED');
+      }
+
+      const revokedCount = await sessionService.revokeOtherSessions(request.userId, request.deviceSessionId);
+      return ok({ revoked_count: revokedCount });
+    },
+  };
+}
+
+function serializeSession(session: DeviceSession, currentSessionId: string | undefined) {
+  return {
+    id: session.id,
+    client_platform: session.clientPlatform,
+    client_version: session.clientVersion,
+    ip_address: session.ipAddress,
+    first_seen_at: session.firstSeenAt.toISOString(),
+    last_seen_at: session.lastSeenAt.toISOString(),
+    current: session.id === currentSessionId,
+  };
+}
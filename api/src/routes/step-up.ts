@@ -0,0 +1,100 @@
+/**
+ * Step-up routes for verifying the challenge a payment route answered with STEP_UP_REQUIRED. Once
+ * verified, the payment is retried with the same PIN token and `step_up_challenge_id`.
+ */
+
+import { ValidationError } from '../models/base';
+import { StepUpChallenge, StepUpMethod } from '../models/StepUpChallenge';
+import { StepUpService } from '../services/StepUpService';
+import { badRequest, fromValidationError, notFound, tooManyRequests } from './errors';
+import { ensureAuthenticated } from './handler';
+import { ok } from './responses';
+import { HttpRequest } from './types';
+import { requireString } from './validation';
+
+const CHALLENGE_ID_REGEX = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/;
+const STEP_UP_METHODS: StepUpMethod[] = ['otp', 'biometric'];
+
+interface VerifyBody {
+  method?: string;
+  otp_code?: string;
+}
+
+export interface StepUpRouteDependencies {
+  stepUpService: StepUpService;
+}
+
+export function createStepUpRoutes({ stepUpService }: StepUpRouteDependencies) {
+  return {
+    sendOtp: async (request: HttpRequest<unknown, { challengeId: string }>) => {
+      ensureAuthenticated(request);
+      const challengeId = parseChallengeId(request.params.challengeId);
+
+      try {
+        const result = await stepUpService.sendOtp(request.userId, challengeId);
+        return ok({ message: result.message, delivery_channel: result.deliveryChannel });
+      } catch (error) {
+        throw toStepUpHttpError(error);
+      }
+    },
+
+    verify: async (request: HttpRequest<VerifyBody, { challengeId: string }>) => {
+      ensureAuthenticated(request);
+      const challengeId = parseChallengeId(request.params.challengeId);
+      const method = request.body?.method as StepUpMethod | undefined;
+      if (!method || !STEP_UP_METHODS.includes(method)) {
+        throw badRequest('method must be otp or biometric', 'INVALID_STEP_UP_METHOD');
+      }
+      const otpCode = method === 'otp' ? requireString(request.body?.otp_code, 'otp_code is required', 'INVALID_OTP') : undefined;
+
+      try {
+        const challenge = await stepUpService.verify({
+          userId: request.userId,
+          challengeId,
+          method,
+          deviceSessionId: request.deviceSessionId ?? null,
+          otpCode,
+        });
+        return ok(serializeChallenge(challenge));
+      } catch (error) {
+        throw toStepUpHttpError(error);
+      }
+    },
+  };
+}
+
+/** Maps step-up errors, including STEP_UP_REQUIRED from PaymentService, to their HTTP status. */
+export function toStepUpHttpError(error: unknown): unknown {
+  if (!(error instanceof ValidationError)) {
+    return error;
+  }
+  switch (error.code) {
+    case 'STEP_UP_REQUIRED':
+      return fromValidationError(error, 403);
+    case 'STEP_UP_NOT_FOUND':
+      return notFound(error.message, error.code);
+    case 'RATE_LIMIT_EXCEEDED':
+      return tooManyRequests(error.message);
+    default:
+      return fromValidationError(error);
+  }
+}
+
+export function parseChallengeId(value: unknown): string {
+  const challengeId = requireString(value, 'Step-up challenge ID is required', 'INVALID_STEP_UP_CHALLENGE_ID');
+  if (!CHALLENGE_ID_REGEX.test(challengeId)) {
+    throw badRequest('Invalid step-up challenge ID format', 'INVALID_STEP_UP_CHALLENGE_ID');
+  }
+  return challengeId;
+}
+
+function serializeChallenge(challenge: StepUpChallenge) {
+  return {
+    challenge_id: challenge.id,
+    status: challenge.status,
+    reasons: challenge.reasons,
+    methods: challenge.methods,
+    verified_method: challenge.verifiedMethod,
+    expires_at: challenge.expiresAt.toISOString(),
+  };
+}
@@ -44,6 +44,7 @@ const TYPE_SET = new Set<TransactionType>([
   'investment_allocation',
   'investment_redemption',
   'interest_payout',
+  'refund',
 ]);
 
 const CATEGORY_CONFIG: Record<TransactionCategory, { displayName: string; description: string; icon: string; color: string; defaultIncrement: number; alignments: string[] }> = {
@@ -14,6 +14,14 @@ export interface HttpRequest<
   query: TQuery;
   headers: Record<string, string | undefined>;
   userId?: UUID;
+  /** Device session of the access token, when the request carried one. */
+  deviceSessionId?: UUID;
+  /** Client address as seen by the server. */
+  ipAddress?: string;
+  /** Operator identity for back-office routes, resolved from an admin API key. */
+  adminId?: string;
+  /** Unparsed request body, captured by the server for signature verification. */
+  rawBody?: string;
 }
 
 export interface HttpResponse<T = unknown> {
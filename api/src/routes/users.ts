@@ -67,7 +67,8 @@ export function createUserRoutes({
           }
         }
 
-        if (!user) {
+        // Closed accounts can no longer receive money
+        if (!user || user.status === 'closed') {
           logger.info('User lookup: not found', {
             userId: request.userId,
             phone: phone ?? null,
@@ -7,10 +7,11 @@ import { randomUUID } from 'node:crypto';
 import { ValidationError } from '../models/base';
 import { Transaction } from '../models/Transaction';
 import { AuthService } from '../services/AuthService';
+import { FeeService } from '../services/FeeService';
 import { TransactionService } from '../services/TransactionService';
 import { WalletService } from '../services/WalletService';
 import { SavingsInvestmentService } from '../services/SavingsInvestmentService';
-import { Clock, Logger, NullLogger, SystemClock } from '../services/types';
+import { Clock, Logger, NullLogger, SystemClock, UnitOfWork } from '../services/types';
 import { HttpError, badRequest, fromValidationError, notFound } from './errors';
 import { ensureAuthenticated } from './handler';
 import { ok } from './responses';
@@ -34,6 +35,8 @@ export interface WalletRouteDependencies {
   transactionService: TransactionService;
   authService: AuthService;
   savingsInvestmentService: SavingsInvestmentService;
+  feeService: FeeService;
+  unitOfWork: UnitOfWork;
   clock?: Clock;
   logger?: Logger;
 }
@@ -45,6 +48,8 @@ export function createWalletRoutes({
   transactionService,
   authService,
   savingsInvestmentService,
+  feeService,
+  unitOfWork,
   clock = new SystemClock(),
   logger = NullLogger,
 }: WalletRouteDependencies) {
@@ -97,9 +102,11 @@ export function createWalletRoutes({
         throw notFound('Wallet not found', 'WALLET_NOT_FOUND');
       }
 
-      if (wallet.availableBalance < rawAmount) {
+      const { fee } = feeService.quote({ transactionType: 'withdrawal', paymentMethod: 'mpesa', amount: rawAmount });
+      if (wallet.availableBalance < rawAmount + fee) {
         throw new HttpError(402, 'Insufficient funds', 'INSUFFICIENT_FUNDS', {
           available_balance: wallet.availableBalance,
+          required_amount: rawAmount + fee,
         });
       }
 
@@ -116,22 +123,33 @@ export function createWalletRoutes({
       const estimatedCompletion = new Date(now.getTime() + settlementDelay * 60 * 1000);
 
       try {
-        await walletService.debit({ userId: request.userId, walletType: wallet.walletType, amount: rawAmount });
-
         const transactionId = randomUUID();
-        const transaction = await transactionService.create({
-          id: transactionId,
-          userId: request.userId,
-          type: 'withdrawal',
-          amount: rawAmount,
-          category: 'transfer',
-          autoCategorized: false,
-          metadata: {
-            fromWalletId: wallet.id,
-            paymentMethod: 'mpesa',
+        const transaction = await unitOfWork.run(async (scope) => {
+          // Held until the payout is confirmed or fails
+          await walletService.forScope(scope).placeHold({
+            userId: request.userId,
+            walletType: wallet.walletType,
+            amount: rawAmount,
+            fee,
+            transactionId,
             description: `Withdrawal to ${mpesaPhone}`,
-            externalReference: `mpesa:${mpesaPhone}`,
-          } as Partial<Transaction>,
+          });
+
+          return transactionService.forScope(scope).create({
+            id: transactionId,
+            userId: request.userId,
+            type: 'withdrawal',
+            amount: rawAmount,
+            category: 'transfer',
+            autoCategorized: false,
+            metadata: {
+              fromWalletId: wallet.id,
+              fee,
+              paymentMethod: 'mpesa',
+              description: `Withdrawal to ${mpesaPhone}`,
+              externalReference: `mpesa:${mpesaPhone}`,
+            } as Partial<Transaction>,
+          });
         });
 
         await authService.invalidatePinToken(pinToken);
@@ -140,12 +158,15 @@ export function createWalletRoutes({
           userId: request.userId,
           walletId: wallet.id,
           amount: rawAmount,
+          fee,
           transactionId: transaction.id,
           settlementDelay,
         });
 
         return ok({
           transaction_id: transaction.id,
+          amount: rawAmount,
+          fee,
           settlement_delay_minutes: settlementDelay,
           estimated_completion: estimatedCompletion.toISOString(),
         });
@@ -197,26 +218,32 @@ export function createWalletRoutes({
           });
         }
 
-        // Debit main wallet
-        await walletService.debit({ userId: request.userId, walletType: 'main', amount: rawAmount });
-
-        // Credit savings wallet
-        await walletService.credit({ userId: request.userId, walletType: 'savings', amount: rawAmount });
-
-        // Create transfer transaction
+        // Move the money from main to savings and record the transfer transaction together
         const transactionId = randomUUID();
-        const transaction = await transactionService.create({
-          id: transactionId,
-          userId: request.userId,
-          type: 'deposit',
-          amount: rawAmount,
-          category: 'savings',
-          autoCategorized: true,
-          metadata: {
+        const transaction = await unitOfWork.run(async (scope) => {
+          await walletService.forScope(scope).transfer({
+            userId: request.userId,
             fromWalletType: 'main',
             toWalletType: 'savings',
-            description: 'Transfer to savings wallet',
-          } as Partial<Transaction>,
+            amount: rawAmount,
+            transactionId,
+          });
+
+          return transactionService.forScope(scope).create({
+            id: transactionId,
+            userId: request.userId,
+            type: 'deposit',
+            amount: rawAmount,
+            category: 'savings',
+            // Moves between the user's own wallets are not subject to transaction limits
+            skipLimits: true,
+            autoCategorized: true,
+            metadata: {
+              fromWalletType: 'main',
+              toWalletType: 'savings',
+              description: 'Transfer to savings wallet',
+            } as Partial<Transaction>,
+          });
         });
 
         await authService.invalidatePinToken(pinToken);
@@ -290,26 +317,31 @@ export function createWalletRoutes({
           });
         }
 
-        // Debit savings wallet
-        await walletService.debit({ userId: request.userId, walletType: 'savings', amount: rawAmount });
-
-        // Credit main wallet
-        await walletService.credit({ userId: request.userId, walletType: 'main', amount: rawAmount });
-
-        // Create transfer transaction
+        // Move the money from savings to main and record the transfer transaction together
         const transactionId = randomUUID();
-        const transaction = await transactionService.create({
-          id: transactionId,
-          userId: request.userId,
-          type: 'withdrawal',
-          amount: rawAmount,
-          category: 'transfer',
-          autoCategorized: true,
-          metadata: {
+        const transaction = await unitOfWork.run(async (scope) => {
+          await walletService.forScope(scope).transfer({
+            userId: request.userId,
             fromWalletType: 'savings',
             toWalletType: 'main',
-            description: 'Transfer from savings wallet',
-          } as Partial<Transaction>,
+            amount: rawAmount,
+            transactionId,
+          });
+
+          return transactionService.forScope(scope).create({
+            id: transactionId,
+            userId: request.userId,
+            type: 'withdrawal',
+            amount: rawAmount,
+            category: 'transfer',
+            autoCategorized: true,
+            skipLimits: true,
+            metadata: {
+              fromWalletType: 'savings',
+              toWalletType: 'main',
+              description: 'Transfer from savings wallet',
+            } as Partial<Transaction>,
+          });
         });
 
         await authService.invalidatePinToken(pinToken);
@@ -1,9 +1,10 @@
 /**
- * Webhook handler for Paystack events (OPTIONAL)
+ * Webhook handler for Paystack events
  * 
  * Note: Zanari2 uses a callback-based payment flow where the mobile app
  * handles payment confirmation via onSuccess callbacks. This webhook handler
- * is optional and provides backup verification for edge cases:
+ * reconciles the same transactions server-side (through PaymentSettlementService)
+ * so money still settles when the callback never arrives:
  * - User closes app before callback fires
  * - Network issues prevent callback from reaching backend
  * - Recurring subscription charges (future feature)
@@ -18,54 +19,178 @@
  * For local development, use ngrok or similar tunneling service.
  */
 
-import { createHmac } from 'node:crypto';
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
 import { HttpRequest, HttpResponse } from './types';
 import { ok } from './responses';
-import { Logger, NullLogger } from '../services/types';
+import { badRequest } from './errors';
+import { ensureAdmin } from './handler';
+import { parsePagination } from './validation';
+import { WebhookEvent, WebhookEventStatus, createWebhookEvent } from '../models/WebhookEvent';
+import { PaymentSettlementService } from '../services/PaymentSettlementService';
+import { RefundService } from '../services/RefundService';
+import { Clock, Logger, NullLogger, SystemClock, WebhookEventRepository } from '../services/types';
 
 interface PaystackWebhookBody {
   event: string;
   data: Record<string, unknown>;
 }
 
+interface ReplayWebhookEventsBody {
+  event_ids?: string[];
+  limit?: number;
+}
+
 export interface WebhookRouteDependencies {
+  settlementService: PaymentSettlementService;
+  refundService: RefundService;
+  webhookEventRepository: WebhookEventRepository;
+  webhookSecret?: string | null;
+  /** How long an event may stay `received` before it is treated as abandoned mid-processing. */
+  receivedLeaseMs?: number;
+  clock?: Clock;
   logger?: Logger;
 }
 
+const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ['received', 'processed', 'failed', 'ignored', 'rejected'];
+const MAX_REPLAY_BATCH = 50;
+// Handling an event takes seconds; one still received after this was dropped by a crash or timeout
+const DEFAULT_RECEIVED_LEASE_MS = 5 * 60 * 1000;
+
 /**
  * Verify Paystack webhook signature using HMAC SHA512
  * https://paystack.com/docs/payments/webhooks/#verify-event-origin
+ *
+ * Paystack signs the exact bytes it sent, so the raw request body is used whenever the
+ * server captured it. Re-serialising the parsed JSON is only a fallback for callers that
+ * invoke the handler directly.
  */
-function verifyWebhookSignature(body: unknown, signature: string | undefined, secret: string): boolean {
+export function verifyWebhookSignature(
+  payload: string,
+  signature: string | undefined,
+  secret: string,
+): boolean {
   if (!signature) {
     return false;
   }
 
-  const hash = createHmac('sha512', secret)
-    .update(JSON.stringify(body))
-    .digest('hex');
+  const expected = Buffer.from(createHmac('sha512', secret).update(payload).digest('hex'), 'utf8');
+  const received = Buffer.from(signature, 'utf8');
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Paystack resends the same event body on retries. The provider's object id (or, failing that,
+ * the reference) combined with the event type identifies a delivery; a hash of the payload is
+ * the last resort.
+ */
+export function resolveWebhookEventId(body: PaystackWebhookBody, rawPayload: string): string {
+  const data = body?.data ?? {};
+  const objectId = data.id;
+  if (typeof objectId === 'number' || (typeof objectId === 'string' && objectId.length > 0)) {
+    return `${body.event}:${objectId}`;
+  }
+
+  const reference = readString(data, 'reference') ?? readString(data, 'transfer_code');
+  if (reference) {
+    return `${body.event}:${reference}`;
+  }
 
-  return hash === signature;
+  return `${body?.event ?? 'unknown'}:${createHash('sha256').update(rawPayload).digest('hex')}`;
 }
 
 /**
  * Supported Paystack webhook events:
  * - charge.success: Payment completed successfully
- * - charge.failed: Payment failed
  * - transfer.success: Transfer completed
  * - transfer.failed: Transfer failed
  * - transfer.reversed: Transfer was reversed
- * - refund.processed: Refund completed
+ * - refund.processed: A merchant payment was refunded
+ * - charge.dispute.create / charge.dispute.remind: A payment was disputed
+ * - charge.dispute.resolve: A dispute was accepted (and refunded) or declined
  * 
  * See full list: https://paystack.com/docs/payments/webhooks/#types-of-events
  */
-export function createWebhookRoutes({ logger = NullLogger }: WebhookRouteDependencies) {
-  const secret = process.env.PAYSTACK_WEBHOOK_SECRET ?? process.env.PAYSTACK_SECRET_KEY ?? null;
+export function createWebhookRoutes({
+  settlementService,
+  refundService,
+  webhookEventRepository,
+  webhookSecret,
+  receivedLeaseMs = DEFAULT_RECEIVED_LEASE_MS,
+  clock = new SystemClock(),
+  logger = NullLogger,
+}: WebhookRouteDependencies) {
+  const secret = webhookSecret ?? process.env.PAYSTACK_WEBHOOK_SECRET ?? process.env.PAYSTACK_SECRET_KEY ?? null;
 
   if (!secret) {
     logger.warn('PAYSTACK webhook secret is not configured; webhook requests will be rejected.');
   }
 
+  /**
+   * Failed events, and received ones whose processing stopped without recording an outcome, are
+   * handled again on redelivery or replay. Settlement skips anything already settled, so an event
+   * that is in fact still being handled is not applied twice.
+   */
+  const isReprocessable = (event: WebhookEvent): boolean =>
+    event.status === 'failed' ||
+    (event.status === 'received' && clock.now().getTime() - event.updatedAt.getTime() >= receivedLeaseMs);
+
+  /**
+   * Run the handler for a stored event and persist the outcome. Errors are recorded on the
+   * event rather than thrown so they can be listed and replayed later.
+   */
+  const processStoredEvent = async (stored: WebhookEvent): Promise<WebhookEvent> => {
+    const attempt: WebhookEvent = {
+      ...stored,
+      attempts: stored.attempts + 1,
+      updatedAt: clock.now(),
+    };
+
+    try {
+      const handled = await dispatchEvent(stored.eventType, stored.payload, settlementService, refundService, logger);
+      return await webhookEventRepository.update({
+        ...attempt,
+        status: handled ? 'processed' : 'ignored',
+        lastError: null,
+        processedAt: clock.now(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Error processing Paystack webhook', {
+        event: stored.eventType,
+        eventId: stored.eventId,
+        attempts: attempt.attempts,
+        error: message,
+      });
+
+      return webhookEventRepository.update({
+        ...attempt,
+        status: 'failed',
+        lastError: message,
+      });
+    }
+  };
+
+  const recordRejectedEvent = async (body: PaystackWebhookBody, eventId: string): Promise<void> => {
+    try {
+      await webhookEventRepository.create(
+        createWebhookEvent({
+          id: randomUUID(),
+          eventId,
+          eventType: typeof body?.event === 'string' && body.event ? body.event : 'unknown',
+          reference: readString(body?.data ?? {}, 'reference'),
+          payload: body?.data ?? {},
+          signatureValid: false,
+        }),
+      );
+    } catch (error) {
+      logger.warn('Failed to record rejected webhook event', {
+        eventId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
   return {
     handlePaystackWebhook: async (request: HttpRequest<PaystackWebhookBody>): Promise<HttpResponse> => {
       if (!secret) {
@@ -80,13 +205,17 @@ export function createWebhookRoutes({ logger = NullLogger }: WebhookRouteDepende
       }
 
       const signature = request.headers['x-paystack-signature'];
+      const payload = request.rawBody ?? JSON.stringify(request.body);
+      const eventId = resolveWebhookEventId(request.body, payload);
       
       // Verify webhook signature before processing
-      if (!verifyWebhookSignature(request.body, signature, secret)) {
+      if (!verifyWebhookSignature(payload, signature, secret)) {
         logger.warn('Invalid Paystack webhook signature', {
           signature,
+          eventId,
           ip: request.headers['x-forwarded-for'] ?? request.headers['x-real-ip'],
         });
+        await recordRejectedEvent(request.body, eventId);
         
         // Return 200 to prevent retries for invalid signatures
         return ok({ received: false, reason: 'Invalid signature' });
@@ -96,97 +225,351 @@ export function createWebhookRoutes({ logger = NullLogger }: WebhookRouteDepende
       
       logger.info('Paystack webhook received', {
         event,
+        eventId,
         reference: data.reference ?? data.transfer_code ?? 'unknown',
       });
 
-      try {
-        // Process webhook events
-        switch (event) {
-          case 'charge.success':
-            await handleChargeSuccess(data, logger);
-            break;
-            
-          case 'transfer.success':
-            await handleTransferSuccess(data, logger);
-            break;
-            
-          case 'transfer.failed':
-            await handleTransferFailed(data, logger);
-            break;
-            
-          case 'transfer.reversed':
-            await handleTransferReversed(data, logger);
-            break;
-            
-          default:
-            logger.info('Unhandled Paystack webhook event', { event });
+      let stored = await webhookEventRepository.findByEventId(eventId);
+      if (stored && !isReprocessable(stored)) {
+        logger.info('Skipping duplicate Paystack webhook', { eventId, status: stored.status });
+        return ok({ received: true, duplicate: true });
+      }
+
+      if (!stored) {
+        try {
+          stored = await webhookEventRepository.create(
+            createWebhookEvent({
+              id: randomUUID(),
+              eventId,
+              eventType: event,
+              reference: readString(data, 'reference') ?? readString(data, 'transfer_code'),
+              payload: data,
+              signatureValid: true,
+            }),
+          );
+        } catch (error) {
+          // A concurrent delivery of the same event won the insert
+          const concurrent = await webhookEventRepository.findByEventId(eventId);
+          if (concurrent) {
+            return ok({ received: true, duplicate: true });
+          }
+          throw error;
         }
+      }
+
+      const outcome = await processStoredEvent(stored);
+
+      // Return 200 even when processing failed so Paystack stops retrying; the failure is
+      // kept in the event store for investigation and replay.
+      return outcome.status === 'failed'
+        ? ok({ received: true, processing_error: true })
+        : ok({ received: true });
+    },
 
-        // Return 200 OK to acknowledge receipt
-        return ok({ received: true });
-      } catch (error) {
-        logger.error('Error processing Paystack webhook', {
-          event,
-          error: error instanceof Error ? error.message : 'Unknown error',
+    listWebhookEvents: async (request: HttpRequest<unknown, Record<string, string>, { status?: string; limit?: string }>) => {
+      ensureAdmin(request);
+
+      const status = (request.query.status ?? 'failed') as WebhookEventStatus;
+      if (!WEBHOOK_EVENT_STATUSES.includes(status)) {
+        throw badRequest('Unknown webhook event status', 'INVALID_STATUS');
+      }
+      const { limit } = parsePagination({ limit: request.query.limit });
+
+      const events = await webhookEventRepository.listByStatus(status, { limit });
+      return ok({ events: events.map(serializeWebhookEvent) });
+    },
+
+    replayFailedEvents: async (request: HttpRequest<ReplayWebhookEventsBody>) => {
+      ensureAdmin(request);
+
+      const eventIds = request.body?.event_ids;
+      if (eventIds !== undefined && (!Array.isArray(eventIds) || eventIds.some((id) => typeof id !== 'string'))) {
+        throw badRequest('event_ids must be an array of strings', 'INVALID_EVENT_IDS');
+      }
+      const limit = Math.min(Math.max(Number(request.body?.limit ?? MAX_REPLAY_BATCH), 1), MAX_REPLAY_BATCH);
+
+      let candidates: WebhookEvent[];
+      if (eventIds && eventIds.length > 0) {
+        const found = await Promise.all(eventIds.slice(0, MAX_REPLAY_BATCH).map((id) => webhookEventRepository.findByEventId(id)));
+        candidates = found.filter((event): event is WebhookEvent => event !== null && isReprocessable(event));
+      } else {
+        const failed = await webhookEventRepository.listByStatus('failed', { limit });
+        const stalled = await webhookEventRepository.listByStatus('received', { limit });
+        candidates = [...failed, ...stalled.filter(isReprocessable)].slice(0, limit);
+      }
+
+      const results = [];
+      for (const candidate of candidates) {
+        // eslint-disable-next-line no-await-in-loop
+        const outcome = await processStoredEvent(candidate);
+        results.push({
+          event_id: outcome.eventId,
+          status: outcome.status,
+          attempts: outcome.attempts,
+          error: outcome.lastError,
         });
-        
-        // Return 200 to prevent retries for processing errors
-        // Log error for manual investigation
-        return ok({ received: true, processing_error: true });
       }
+
+      logger.info('Replayed failed Paystack webhooks', {
+        adminId: request.adminId,
+        replayed: results.length,
+        failed: results.filter((result) => result.status === 'failed').length,
+      });
+
+      return ok({ replayed: results });
     },
   };
 }
 
-async function handleChargeSuccess(data: Record<string, unknown>, logger: Logger): Promise<void> {
-  const reference = data.reference as string;
-  const amount = data.amount as number;
-  const status = data.status as string;
-  
-  logger.info('Processing charge.success webhook', { reference, amount, status });
+function serializeWebhookEvent(event: WebhookEvent) {
+  return {
+    event_id: event.eventId,
+    event_type: event.eventType,
+    reference: event.reference,
+    status: event.status,
+    signature_valid: event.signatureValid,
+    attempts: event.attempts,
+    last_error: event.lastError,
+    received_at: event.createdAt.toISOString(),
+    processed_at: event.processedAt ? event.processedAt.toISOString() : null,
+  };
+}
+
+/**
+ * Route an event to its handler. Returns false for event types we do not act on.
+ */
+async function dispatchEvent(
+  event: string,
+  data: Record<string, unknown>,
+  settlementService: PaymentSettlementService,
+  refundService: RefundService,
+  logger: Logger,
+): Promise<boolean> {
+  switch (event) {
+    case 'charge.success':
+      await handleChargeSuccess(data, settlementService, logger);
+      return true;
+
+    case 'transfer.success':
+      await handleTransferSuccess(data, settlementService, logger);
+      return true;
+
+    case 'transfer.failed':
+      await handleTransferFailed(data, settlementService, logger);
+      return true;
+
+    case 'transfer.reversed':
+      await handleTransferReversed(data, settlementService, logger);
+      return true;
+
+    case 'refund.processed':
+      await handleRefundProcessed(data, refundService, logger);
+      return true;
+
+    case 'charge.dispute.create':
+    case 'charge.dispute.remind':
+      await handleDisputeOpened(data, refundService, logger);
+      return true;
+
+    case 'charge.dispute.resolve':
+      await handleDisputeResolved(data, refundService, logger);
+      return true;
+
+    default:
+      logger.info('Unhandled Paystack webhook event', { event });
+      return false;
+  }
+}
+
+function readString(data: Record<string, unknown>, key: string): string | null {
+  const value = data[key];
+  return typeof value === 'string' && value.trim().length > 0 ? value : null;
+}
+
+async function handleChargeSuccess(
+  data: Record<string, unknown>,
+  settlementService: PaymentSettlementService,
+  logger: Logger,
+): Promise<void> {
+  const reference = readString(data, 'reference');
+  const amount = typeof data.amount === 'number' ? data.amount : null;
   
-  // TODO: Update transaction status in database
-  // - Find transaction by external_reference = reference
-  // - Update status to 'completed'
-  // - Set completed_at timestamp
-  // - Log success
+  logger.info('Processing charge.success webhook', { reference, amount });
+
+  const transaction = await settlementService.findByProviderReference(reference);
+  if (!transaction) {
+    throw new Error(`No transaction found for charge reference ${reference ?? 'unknown'}`);
+  }
+
+  if (transaction.type === 'transfer_in' || transaction.type === 'round_up') {
+    logger.warn('charge.success references a non-charge transaction', { reference, type: transaction.type });
+    return;
+  }
+
+  const expectedAmount = settlementService.expectedChargeAmount(transaction);
+  if (amount === null || amount < expectedAmount) {
+    throw new Error(
+      `Charge amount mismatch for ${transaction.id}: expected ${expectedAmount}, received ${amount ?? 'none'}`,
+    );
+  }
+
+  await settlementService.completeCharge(transaction);
 }
 
-async function handleTransferSuccess(data: Record<string, unknown>, logger: Logger): Promise<void> {
-  const transferCode = data.transfer_code as string;
-  const reference = data.reference as string;
+async function handleTransferSuccess(
+  data: Record<string, unknown>,
+  settlementService: PaymentSettlementService,
+  logger: Logger,
+): Promise<void> {
+  const transferCode = readString(data, 'transfer_code');
+  const reference = readString(data, 'reference');
   
   logger.info('Processing transfer.success webhook', { transferCode, reference });
-  
-  // TODO: Update transfer transaction status
-  // - Find transaction by external_transaction_id = transferCode
-  // - Update status to 'completed'
-  // - Notify user of successful transfer
+
+  const transaction = await findTransferTransaction(reference, transferCode, settlementService, logger);
+  if (transaction?.type === 'withdrawal') {
+    await settlementService.completeWithdrawal(transaction);
+  } else if (transaction) {
+    await settlementService.completeTransfer(transaction);
+  }
 }
 
-async function handleTransferFailed(data: Record<string, unknown>, logger: Logger): Promise<void> {
-  const transferCode = data.transfer_code as string;
-  const reference = data.reference as string;
+async function handleTransferFailed(
+  data: Record<string, unknown>,
+  settlementService: PaymentSettlementService,
+  logger: Logger,
+): Promise<void> {
+  const transferCode = readString(data, 'transfer_code');
+  const reference = readString(data, 'reference');
   
   logger.warn('Processing transfer.failed webhook', { transferCode, reference });
-  
-  // TODO: Handle failed transfer
-  // - Find transaction by external_transaction_id = transferCode
-  // - Update status to 'failed'
-  // - Reverse wallet debits
-  // - Notify user of failure
-  // - Optionally schedule retry
+
+  const transaction = await findTransferTransaction(reference, transferCode, settlementService, logger);
+  if (transaction?.type === 'withdrawal') {
+    await settlementService.failWithdrawal(transaction);
+  } else if (transaction) {
+    await settlementService.reverseTransfer(transaction, 'failed');
+  }
 }
 
-async function handleTransferReversed(data: Record<string, unknown>, logger: Logger): Promise<void> {
-  const transferCode = data.transfer_code as string;
-  const reference = data.reference as string;
+async function handleTransferReversed(
+  data: Record<string, unknown>,
+  settlementService: PaymentSettlementService,
+  logger: Logger,
+): Promise<void> {
+  const transferCode = readString(data, 'transfer_code');
+  const reference = readString(data, 'reference');
   
   logger.warn('Processing transfer.reversed webhook', { transferCode, reference });
-  
-  // TODO: Handle reversed transfer
-  // - Find transaction by external_transaction_id = transferCode
-  // - Update status to 'cancelled' or create reversal transaction
-  // - Credit user's wallet with reversed amount
-  // - Notify user of reversal
+
+  const transaction = await findTransferTransaction(reference, transferCode, settlementService, logger);
+  if (transaction?.type === 'withdrawal') {
+    await settlementService.failWithdrawal(transaction);
+  } else if (transaction) {
+    await settlementService.reverseTransfer(transaction, 'cancelled');
+  }
+}
+
+async function handleRefundProcessed(
+  data: Record<string, unknown>,
+  refundService: RefundService,
+  logger: Logger,
+): Promise<void> {
+  const reference = readString(data, 'transaction_reference');
+  const refundId = readIdentifier(data, 'id') ?? readString(data, 'refund_reference');
+  const amount = typeof data.amount === 'number' ? data.amount : undefined;
+
+  logger.info('Processing refund.processed webhook', { reference, refundId, amount });
+
+  if (!refundId) {
+    throw new Error(`Refund event for ${reference ?? 'unknown'} has no refund id`);
+  }
+
+  const payment = await findPaymentForEvent(reference, refundService);
+  await refundService.refundPayment({ transactionId: payment.id, amount, providerReference: refundId });
+}
+
+async function handleDisputeOpened(
+  data: Record<string, unknown>,
+  refundService: RefundService,
+  logger: Logger,
+): Promise<void> {
+  const reference = readDisputeTransactionReference(data);
+  const status = readString(data, 'status');
+
+  logger.warn('Processing dispute webhook', { reference, status });
+
+  const payment = await findPaymentForEvent(reference, refundService);
+  await refundService.openDispute(payment.id, status === 'awaiting-bank-feedback' ? 'under_review' : 'open');
+}
+
+async function handleDisputeResolved(
+  data: Record<string, unknown>,
+  refundService: RefundService,
+  logger: Logger,
+): Promise<void> {
+  const reference = readDisputeTransactionReference(data);
+  const resolution = readString(data, 'resolution');
+
+  logger.warn('Processing charge.dispute.resolve webhook', { reference, resolution });
+
+  if (resolution !== 'merchant-accepted' && resolution !== 'declined') {
+    throw new Error(`Unknown dispute resolution ${resolution ?? 'none'} for ${reference ?? 'unknown'}`);
+  }
+
+  const payment = await findPaymentForEvent(reference, refundService);
+  await refundService.resolveDispute({
+    transactionId: payment.id,
+    resolution: resolution === 'merchant-accepted' ? 'accepted' : 'declined',
+    refundAmount: typeof data.refund_amount === 'number' ? data.refund_amount : undefined,
+    providerReference: readIdentifier(data, 'id'),
+  });
+}
+
+async function findPaymentForEvent(reference: string | null, refundService: RefundService) {
+  const payment = reference ? await refundService.findPaymentByReference(reference) : null;
+  if (!payment) {
+    throw new Error(`No payment found for reference ${reference ?? 'unknown'}`);
+  }
+  return payment;
+}
+
+/**
+ * Dispute payloads nest the disputed charge under data.transaction.
+ */
+function readDisputeTransactionReference(data: Record<string, unknown>): string | null {
+  const transaction = data.transaction;
+  if (transaction && typeof transaction === 'object') {
+    return readString(transaction as Record<string, unknown>, 'reference');
+  }
+  return readString(data, 'transaction_reference');
+}
+
+function readIdentifier(data: Record<string, unknown>, key: string): string | null {
+  const value = data[key];
+  return typeof value === 'number' ? String(value) : readString(data, key);
+}
+
+async function findTransferTransaction(
+  reference: string | null,
+  transferCode: string | null,
+  settlementService: PaymentSettlementService,
+  logger: Logger,
+) {
+  const transaction = await settlementService.findByProviderReference(reference, transferCode);
+  if (!transaction) {
+    throw new Error(`No transaction found for transfer ${reference ?? transferCode ?? 'unknown'}`);
+  }
+
+  // Withdrawals are paid out as Paystack transfers too
+  if (transaction.type !== 'transfer_out' && transaction.type !== 'withdrawal') {
+    logger.warn('Transfer webhook references a non-transfer transaction', {
+      reference,
+      transferCode,
+      type: transaction.type,
+    });
+    return null;
+  }
+
+  return transaction;
 }
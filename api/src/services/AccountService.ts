@@ -0,0 +1,420 @@
+/**
+ * AccountService covers the end of an account's life: exporting the user's data in a portable form,
+ * closing the account, and anonymising the personal data of closed accounts once the retention
+ * period is over. Financial records outlive the personal data so the ledger and audits stay whole.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import {
+  AccountClosure,
+  DEFAULT_DATA_RETENTION_DAYS,
+  createAccountClosure,
+  isAnonymisationDue,
+} from '../models/AccountClosure';
+import { UUID, ValidationError } from '../models/base';
+import { KYCDocument } from '../models/KYCDocument';
+import { RoundUpRule } from '../models/RoundUpRule';
+import { SavingsGoal } from '../models/SavingsGoal';
+import { SavingsInvestmentPosition } from '../models/SavingsInvestmentPosition';
+import { SavingsInvestmentPreference } from '../models/SavingsInvestmentPreference';
+import { Transaction } from '../models/Transaction';
+import { User } from '../models/User';
+import { Wallet } from '../models/Wallet';
+import { KYCDocumentVault } from './KYCDocumentVault';
+import { PaymentService } from './PaymentService';
+import { PaymentSettlementService } from './PaymentSettlementService';
+import { SessionService } from './SessionService';
+import { TransactionService } from './TransactionService';
+import { WalletService } from './WalletService';
+import {
+  AccountClosureRepository,
+  Clock,
+  KYCDocumentRepository,
+  Logger,
+  NotificationService,
+  NullLogger,
+  RoundUpRuleRepository,
+  SavingsGoalRepository,
+  SavingsInvestmentPositionRepository,
+  SavingsInvestmentPreferenceRepository,
+  SystemClock,
+  TransactionRepository,
+  UnitOfWork,
+  UserRepository,
+  WalletRepository,
+} from './types';
+
+export interface AccountDataExport {
+  generatedAt: Date;
+  user: User;
+  wallets: Wallet[];
+  transactions: Transaction[];
+  savingsGoals: SavingsGoal[];
+  roundUpRule: RoundUpRule | null;
+  investmentPosition: SavingsInvestmentPosition | null;
+  investmentPreference: SavingsInvestmentPreference | null;
+  kycDocuments: KYCDocument[];
+}
+
+export interface CloseAccountInput {
+  userId: UUID;
+  reason?: string | null;
+  /** Where to pay out the remaining balances; without it every wallet must already be empty. */
+  finalPayout?: { mpesaPhone: string } | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPORT_TRANSACTION_PAGE_SIZE = 500;
+const DEFAULT_ANONYMISATION_BATCH_SIZE = 100;
+
+export class AccountService {
+  private readonly userRepository: UserRepository;
+  private readonly walletRepository: WalletRepository;
+  private readonly transactionRepository: TransactionRepository;
+  private readonly savingsGoalRepository: SavingsGoalRepository;
+  private readonly roundUpRuleRepository: RoundUpRuleRepository;
+  private readonly positionRepository: SavingsInvestmentPositionRepository;
+  private readonly preferenceRepository: SavingsInvestmentPreferenceRepository;
+  private readonly kycDocumentRepository: KYCDocumentRepository;
+  private readonly accountClosureRepository: AccountClosureRepository;
+  private readonly documentVault: KYCDocumentVault;
+  private readonly walletService: WalletService;
+  private readonly transactionService: TransactionService;
+  private readonly paymentService: PaymentService;
+  private readonly settlementService: PaymentSettlementService;
+  private readonly sessionService: SessionService;
+  private readonly notificationService: NotificationService;
+  private readonly unitOfWork: UnitOfWork;
+  private readonly retentionDays: number;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    userRepository: UserRepository;
+    walletRepository: WalletRepository;
+    transactionRepository: TransactionRepository;
+    savingsGoalRepository: SavingsGoalRepository;
+    roundUpRuleRepository: RoundUpRuleRepository;
+    positionRepository: SavingsInvestmentPositionRepository;
+    preferenceRepository: SavingsInvestmentPreferenceRepository;
+    kycDocumentRepository: KYCDocumentRepository;
+    accountClosureRepository: AccountClosureRepository;
+    documentVault: KYCDocumentVault;
+    walletService: WalletService;
+    transactionService: TransactionService;
+    paymentService: PaymentService;
+    settlementService: PaymentSettlementService;
+    sessionService: SessionService;
+    notificationService: NotificationService;
+    unitOfWork: UnitOfWork;
+    /** How long a closed account's personal data is kept before it is anonymised. */
+    retentionDays?: number;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.userRepository = options.userRepository;
+    this.walletRepository = options.walletRepository;
+    this.transactionRepository = options.transactionRepository;
+    this.savingsGoalRepository = options.savingsGoalRepository;
+    this.roundUpRuleRepository = options.roundUpRuleRepository;
+    this.positionRepository = options.positionRepository;
+    this.preferenceRepository = options.preferenceRepository;
+    this.kycDocumentRepository = options.kycDocumentRepository;
+    this.accountClosureRepository = options.accountClosureRepository;
+    this.documentVault = options.documentVault;
+    this.walletService = options.walletService;
+    this.transactionService = options.transactionService;
+    this.paymentService = options.paymentService;
+    this.settlementService = options.settlementService;
+    this.sessionService = options.sessionService;
+    this.notificationService = options.notificationService;
+    this.unitOfWork = options.unitOfWork;
+    this.retentionDays = options.retentionDays ?? DEFAULT_DATA_RETENTION_DAYS;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  /** Everything the user has stored with Zanari, for them to download. */
+  async exportData(userId: UUID): Promise<AccountDataExport> {
+    const user = await this.requireUser(userId);
+
+    const [wallets, transactions, savingsGoals, roundUpRule, investmentPosition, investmentPreference, kycDocuments] =
+      await Promise.all([
+        this.walletRepository.listByUser(userId),
+        this.listAllTransactions(userId),
+        this.savingsGoalRepository.listByUser(userId),
+        this.roundUpRuleRepository.findByUserId(userId),
+        this.positionRepository.findByUserId(userId),
+        this.preferenceRepository.findByUserId(userId),
+        this.kycDocumentRepository.listByUser(userId),
+      ]);
+
+    this.logger.info('Account data exported', { userId, transactions: transactions.length });
+    return {
+      generatedAt: this.clock.now(),
+      user,
+      wallets,
+      transactions,
+      savingsGoals,
+      roundUpRule,
+      investmentPosition,
+      investmentPreference,
+      kycDocuments,
+    };
+  }
+
+  /**
+   * Closes the account. Balances must be zero, or paid out to M-Pesa as a final fee-free withdrawal
+   * that Paystack accepts; funds still on hold or invested have to settle first. The user is signed
+   * out everywhere and cannot sign in again.
+   */
+  async close(input: CloseAccountInput): Promise<AccountClosure> {
+    const user = await this.requireUser(input.userId);
+    if (user.status === 'closed') {
+      throw new ValidationError('Account is already closed', 'ACCOUNT_ALREADY_CLOSED');
+    }
+    if (user.status !== 'active') {
+      throw new ValidationError('Only active accounts can be closed', 'ACCOUNT_NOT_ACTIVE', { status: user.status });
+    }
+
+    const wallets = await this.walletRepository.listByUser(user.id);
+    const held = wallets.filter((wallet) => wallet.balance !== wallet.availableBalance);
+    if (held.length > 0) {
+      throw new ValidationError('Wait for pending transactions to settle before closing the account', 'FUNDS_ON_HOLD', {
+        wallets: held.map((wallet) => wallet.walletType),
+      });
+    }
+
+    const position = await this.positionRepository.findByUserId(user.id);
+    if (position && position.investedAmount + position.accruedInterest > 0) {
+      throw new ValidationError('Redeem your investments before closing the account', 'INVESTMENT_NOT_REDEEMED', {
+        invested_amount: position.investedAmount,
+        accrued_interest: position.accruedInterest,
+      });
+    }
+
+    const funded = wallets.filter((wallet) => wallet.balance > 0);
+    let payoutTransactionIds: UUID[] = [];
+    if (funded.length > 0) {
+      if (!input.finalPayout) {
+        throw new ValidationError('Withdraw your balances or choose a final payout first', 'ACCOUNT_HAS_BALANCE', {
+          balances: Object.fromEntries(funded.map((wallet) => [wallet.walletType, wallet.balance])),
+        });
+      }
+      payoutTransactionIds = await this.payOut(user.id, funded, input.finalPayout.mpesaPhone);
+    }
+
+    const now = this.clock.now();
+    await this.userRepository.update(user.id, { status: 'closed', updatedAt: now });
+    const closure = await this.accountClosureRepository.create(
+      createAccountClosure({
+        id: randomUUID(),
+        userId: user.id,
+        reason: input.reason,
+        payoutTransactionIds,
+        anonymiseAfter: new Date(now.getTime() + this.retentionDays * DAY_MS),
+        now,
+      }),
+    );
+    const signedOut = await this.sessionService.revokeAllSessions(user.id);
+
+    await this.notify(user.id, {
+      title: 'Your account is closed',
+      body: payoutTransactionIds.length > 0
+        ? 'Your Zanari account is closed and your remaining balance is on its way to M-Pesa.'
+        : 'Your Zanari account is closed.',
+      data: { type: 'account_closed', closure_id: closure.id },
+    });
+
+    this.logger.info('Account closed', { userId: user.id, closureId: closure.id, payouts: payoutTransactionIds.length, signedOut });
+    return closure;
+  }
+
+  /**
+   * Anonymises every closed account whose retention period is over; run periodically. An account
+   * that fails, e.g. because a KYC file could not be deleted, is logged and retried on the next run.
+   */
+  async anonymiseDueAccounts(options: { now?: Date; limit?: number } = {}): Promise<AccountClosure[]> {
+    const now = options.now ?? this.clock.now();
+    const due = await this.accountClosureRepository.listDue(now, { limit: options.limit ?? DEFAULT_ANONYMISATION_BATCH_SIZE });
+
+    const anonymised: AccountClosure[] = [];
+    for (const candidate of due) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const closure = await this.anonymise(candidate, now);
+        if (closure) {
+          anonymised.push(closure);
+        }
+      } catch (error) {
+        this.logger.error('Failed to anonymise closed account', {
+          userId: candidate.userId,
+          closureId: candidate.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+    return anonymised;
+  }
+
+  private async anonymise(candidate: AccountClosure, now: Date): Promise<AccountClosure | null> {
+    const closure = await this.accountClosureRepository.findByUserId(candidate.userId);
+    if (!closure || !isAnonymisationDue(closure, now)) {
+      return null;
+    }
+
+    // Transactions, wallets and the ledger are kept; only what identifies the person goes
+    await this.userRepository.update(closure.userId, {
+      email: `deleted-${closure.userId}@anonymised.invalid`,
+      phone: null,
+      firstName: 'Deleted',
+      lastName: 'User',
+      dateOfBirth: null,
+      pinHash: null,
+      pinSetAt: null,
+      notificationPreferences: {
+        pushEnabled: false,
+        emailEnabled: false,
+        transactionAlerts: false,
+        savingsMilestones: false,
+      },
+      updatedAt: now,
+    });
+
+    // The stored files go too; a file that cannot be deleted leaves the account for the next run
+    const documents = await this.kycDocumentRepository.listByUser(closure.userId);
+    for (const document of documents) {
+      if (document.filePath) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.documentVault.delete(document.filePath);
+      }
+      // eslint-disable-next-line no-await-in-loop
+      await this.kycDocumentRepository.update({
+        ...document,
+        filePath: null,
+        encryptedDataKey: null,
+        fileName: `${document.documentType}-${document.id}`,
+        extractedData: null,
+        verificationNotes: null,
+        updatedAt: now,
+      });
+    }
+    await this.sessionService.scrubSessions(closure.userId);
+
+    const anonymised = await this.accountClosureRepository.update({
+      ...closure,
+      status: 'anonymised',
+      anonymisedAt: now,
+      updatedAt: now,
+    });
+
+    this.logger.info('Closed account anonymised', { userId: closure.userId, closureId: closure.id });
+    return anonymised;
+  }
+
+  /**
+   * Holds each funded wallet's whole balance against a pending M-Pesa withdrawal, all or nothing,
+   * then sends each one. A payout Paystack does not accept is failed back into its wallet and the
+   * account stays open; the accepted ones settle through the webhook or the reconciler.
+   */
+  private async payOut(userId: UUID, wallets: Wallet[], mpesaPhone: string): Promise<UUID[]> {
+    const now = this.clock.now();
+    const locked = wallets.find((wallet) => {
+      const lockedUntil = wallet.withdrawalRestrictions?.lockedUntil;
+      return lockedUntil && lockedUntil.getTime() > now.getTime();
+    });
+    if (locked) {
+      throw new ValidationError('Withdrawals are currently locked for this wallet', 'WALLET_LOCKED', {
+        wallet_type: locked.walletType,
+        locked_until: locked.withdrawalRestrictions!.lockedUntil!.toISOString(),
+      });
+    }
+
+    const payouts = await this.unitOfWork.run(async (scope) => {
+      const transactions: Transaction[] = [];
+      for (const wallet of wallets) {
+        const transactionId = randomUUID();
+        const description = `Final payout to ${mpesaPhone}`;
+        // eslint-disable-next-line no-await-in-loop
+        await this.walletService.forScope(scope).placeHold({
+          userId,
+          walletType: wallet.walletType,
+          amount: wallet.balance,
+          fee: 0,
+          transactionId,
+          description,
+        });
+        // eslint-disable-next-line no-await-in-loop
+        const transaction = await this.transactionService.forScope(scope).create({
+          id: transactionId,
+          userId,
+          type: 'withdrawal',
+          amount: wallet.balance,
+          category: 'transfer',
+          autoCategorized: false,
+          // Closing pays out everything left, which may be more than the tier lets the user send at once
+          skipLimits: true,
+          metadata: {
+            fromWalletId: wallet.id,
+            fee: 0,
+            paymentMethod: 'mpesa',
+            description,
+            externalReference: `mpesa:${mpesaPhone}`,
+          } as Partial<Transaction>,
+        });
+        transactions.push(transaction);
+      }
+      return transactions;
+    });
+
+    const unsent: UUID[] = [];
+    for (const payout of payouts) {
+      // eslint-disable-next-line no-await-in-loop
+      const sent = await this.paymentService.sendWithdrawal(payout, mpesaPhone);
+      if (!sent) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.settlementService.failWithdrawal(payout);
+        unsent.push(payout.id);
+      }
+    }
+    if (unsent.length > 0) {
+      throw new ValidationError('The final payout could not be sent; try closing the account again later', 'PAYOUT_FAILED', {
+        transaction_ids: unsent,
+      });
+    }
+    return payouts.map((payout) => payout.id);
+  }
+
+  private async listAllTransactions(userId: UUID): Promise<Transaction[]> {
+    const transactions: Transaction[] = [];
+    for (let offset = 0; ; offset += EXPORT_TRANSACTION_PAGE_SIZE) {
+      // eslint-disable-next-line no-await-in-loop
+      const page = await this.transactionRepository.listByUser(userId, { limit: EXPORT_TRANSACTION_PAGE_SIZE, offset });
+      transactions.push(...page);
+      if (page.length < EXPORT_TRANSACTION_PAGE_SIZE) {
+        return transactions;
+      }
+    }
+  }
+
+  private async requireUser(userId: UUID): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new ValidationError('User not found', 'USER_NOT_FOUND');
+    }
+    return user;
+  }
+
+  private async notify(userId: UUID, notification: { title: string; body: string; data: Record<string, unknown> }): Promise<void> {
+    try {
+      await this.notificationService.notifyUser(userId, notification);
+    } catch (error) {
+      this.logger.warn('Failed to send account notification', {
+        userId,
+        type: notification.data.type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * AdminService backs the back office: reviewing KYC documents and review cases, correcting what was
+ * read off documents, setting a user's KYC status, ruling on watchlist screening cases and AML
+ * monitoring alerts, and looking up, suspending and reactivating users. Every action is written to the admin audit log with the
+ * acting admin.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import {
+  AdminAuditAction,
+  AdminAuditEntry,
+  AdminAuditTargetType,
+  createAdminAuditEntry,
+} from '../models/AdminAuditEntry';
+import { AmlAlert, AmlAlertStatus, AmlDecision } from '../models/AmlAlert';
+import { UUID, ValidationError } from '../models/base';
+import { ExtractedData, KYCDocument, KYCDocumentStatus, KYCDocumentType } from '../models/KYCDocument';
+import { KYCReviewCase, KYCReviewCaseStatus } from '../models/KYCReviewCase';
+import { ScreeningCase, ScreeningCaseStatus, ScreeningDecision } from '../models/ScreeningCase';
+import { Transaction } from '../models/Transaction';
+import { KYCStatus, User } from '../models/User';
+import { Wallet } from '../models/Wallet';
+import { AmlMonitoringService } from './AmlMonitoringService';
+import { KYCService } from './KYCService';
+import { PaymentService } from './PaymentService';
+import { ScreeningService } from './ScreeningService';
+import { SessionService } from './SessionService';
+import {
+  AdminAuditLogRepository,
+  Clock,
+  KYCDocumentRepository,
+  KYCReviewCaseRepository,
+  Logger,
+  NullLogger,
+  SystemClock,
+  TransactionRepository,
+  UserRepository,
+  WalletRepository,
+} from './types';
+
+export type KYCReviewDecision = 'approve' | 'reject';
+
+export interface UserOverview {
+  user: User;
+  wallets: Wallet[];
+  transactions: Transaction[];
+  totalTransactions: number;
+}
+
+export interface ScreeningResolution {
+  screeningCase: ScreeningCase;
+  /** The held payout after it was sent or cancelled, for payout cases. */
+  payout: Transaction | null;
+}
+
+/** Documents waiting on a reviewer; approved and rejected ones have already been decided. */
+export const REVIEWABLE_DOCUMENT_STATUSES: KYCDocumentStatus[] = ['uploaded', 'processing'];
+export const MIN_USER_SEARCH_LENGTH = 3;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class AdminService {
+  private readonly userRepository: UserRepository;
+  private readonly walletRepository: WalletRepository;
+  private readonly transactionRepository: TransactionRepository;
+  private readonly kycDocumentRepository: KYCDocumentRepository;
+  private readonly kycReviewCaseRepository: KYCReviewCaseRepository;
+  private readonly auditLogRepository: AdminAuditLogRepository;
+  private readonly kycService: KYCService;
+  private readonly screeningService: ScreeningService;
+  private readonly paymentService: PaymentService;
+  private readonly amlMonitoringService: AmlMonitoringService;
+  private readonly sessionService: SessionService;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    userRepository: UserRepository;
+    walletRepository: WalletRepository;
+    transactionRepository: TransactionRepository;
+    kycDocumentRepository: KYCDocumentRepository;
+    kycReviewCaseRepository: KYCReviewCaseRepository;
+    auditLogRepository: AdminAuditLogRepository;
+    kycService: KYCService;
+    screeningService: ScreeningService;
+    paymentService: PaymentService;
+    amlMonitoringService: AmlMonitoringService;
+    sessionService: SessionService;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.userRepository = options.userRepository;
+    this.walletRepository = options.walletRepository;
+    this.transactionRepository = options.transactionRepository;
+    this.kycDocumentRepository = options.kycDocumentRepository;
+    this.kycReviewCaseRepository = options.kycReviewCaseRepository;
+    this.auditLogRepository = options.auditLogRepository;
+    this.kycService = options.kycService;
+    this.screeningService = options.screeningService;
+    this.paymentService = options.paymentService;
+    this.amlMonitoringService = options.amlMonitoringService;
+    this.sessionService = options.sessionService;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  /** Documents in the given statuses, oldest upload first; defaults to the ones still waiting on a reviewer. */
+  async listReviewQueue(input: {
+    statuses?: KYCDocumentStatus[];
+    documentType?: KYCDocumentType;
+    limit: number;
+    offset: number;
+  }): Promise<KYCDocument[]> {
+    const statuses = input.statuses && input.statuses.length > 0 ? input.statuses : REVIEWABLE_DOCUMENT_STATUSES;
+    return this.kycDocumentRepository.listByStatus(statuses, {
+      documentType: input.documentType,
+      limit: input.limit,
+      offset: input.offset,
+    });
+  }
+
+  async getDocument(documentId: UUID): Promise<KYCDocument> {
+    return this.requireDocument(documentId);
+  }
+
+  /** Approves or rejects a document; a rejection has to tell the user what to fix. */
+  async reviewDocument(input: {
+    adminId: string;
+    documentId: UUID;
+    decision: KYCReviewDecision;
+    notes?: string | null;
+  }): Promise<KYCDocument> {
+    const notes = input.notes?.trim() || null;
+    if (input.decision === 'reject' && !notes) {
+      throw new ValidationError('Rejections need notes for the user', 'REJECTION_NOTES_REQUIRED');
+    }
+
+    const document = await this.requireDocument(input.documentId);
+    if (!REVIEWABLE_DOCUMENT_STATUSES.includes(document.status)) {
+      throw new ValidationError('Document has already been reviewed', 'DOCUMENT_ALREADY_REVIEWED', {
+        status: document.status,
+      });
+    }
+
+    const reviewed = await this.kycService.updateStatus({
+      documentId: document.id,
+      status: input.decision === 'approve' ? 'approved' : 'rejected',
+      verificationNotes: notes,
+    });
+
+    await this.record(
+      input.adminId,
+      input.decision === 'approve' ? 'kyc_document_approved' : 'kyc_document_rejected',
+      'kyc_document',
+      document.id,
+      { user_id: document.userId, document_type: document.documentType, previous_status: document.status, notes },
+    );
+    return reviewed;
+  }
+
+  async updateExtractedData(input: { adminId: string; documentId: UUID; extractedData: ExtractedData }): Promise<KYCDocument> {
+    const fields = Object.keys(input.extractedData);
+    if (fields.length === 0) {
+      throw new ValidationError('No extracted data fields to update', 'NO_FIELDS_TO_UPDATE');
+    }
+
+    const document = await this.requireDocument(input.documentId);
+    const updated = await this.kycService.updateExtractedData(document.id, input.extractedData);
+
+    // Only the names of the corrected fields are logged; the values are identity data
+    await this.record(input.adminId, 'kyc_extracted_data_updated', 'kyc_document', document.id, {
+      user_id: document.userId,
+      fields,
+    });
+    return updated;
+  }
+
+  /** Review cases in the given status, oldest first. */
+  async listReviewCases(input: { status: KYCReviewCaseStatus; limit: number; offset: number }): Promise<KYCReviewCase[]> {
+    return this.kycReviewCaseRepository.listByStatus(input.status, { limit: input.limit, offset: input.offset });
+  }
+
+  /** Closes the case and lifts the upload block so the user can upload the document type again now. */
+  async resolveReviewCase(input: { adminId: string; caseId: UUID; notes?: string | null }): Promise<KYCReviewCase> {
+    const reviewCase = await this.kycReviewCaseRepository.findById(input.caseId);
+    if (!reviewCase) {
+      throw new ValidationError('KYC review case not found', 'REVIEW_CASE_NOT_FOUND');
+    }
+    if (reviewCase.status !== 'open') {
+      throw new ValidationError('Review case has already been resolved', 'REVIEW_CASE_ALREADY_RESOLVED');
+    }
+
+    const now = this.clock.now();
+    const notes = input.notes?.trim() || null;
+    const resolved = await this.kycReviewCaseRepository.update({
+      ...reviewCase,
+      status: 'resolved',
+      resolvedBy: input.adminId,
+      resolutionNotes: notes,
+      resolvedAt: now,
+      updatedAt: now,
+    });
+    await this.kycService.resetUploadAttempts(reviewCase.userId, reviewCase.documentType);
+
+    await this.record(input.adminId, 'kyc_review_case_resolved', 'kyc_review_case', reviewCase.id, {
+      user_id: reviewCase.userId,
+      document_type: reviewCase.documentType,
+      notes,
+    });
+    return resolved;
+  }
+
+  /** Screening cases in the given status, oldest first. */
+  async listScreeningCases(input: { status: ScreeningCaseStatus; limit: number; offset: number }): Promise<ScreeningCase[]> {
+    return this.screeningService.listCases(input);
+  }
+
+  /**
+   * Rules on a watchlist match. Clearing a false positive lifts the account hold or sends the held
+   * payout; confirming keeps the account held or cancels the payout and returns the funds.
+   */
+  async resolveScreeningCase(input: {
+    adminId: string;
+    caseId: UUID;
+    decision: ScreeningDecision;
+    notes?: string | null;
+  }): Promise<ScreeningResolution> {
+    const screeningCase = await this.screeningService.resolveCase(input);
+
+    let payout: Transaction | null = null;
+    if (screeningCase.trigger === 'payout') {
+      payout =
+        input.decision === 'clear'
+          ? await this.paymentService.releaseScreenedPayout(screeningCase)
+          : await this.paymentService.cancelScreenedPayout(screeningCase);
+    }
+
+    await this.record(
+      input.adminId,
+      input.decision === 'clear' ? 'screening_case_cleared' : 'screening_case_confirmed',
+      'screening_case',
+      screeningCase.id,
+      {
+        user_id: screeningCase.userId,
+        trigger: screeningCase.trigger,
+        entry_ids: screeningCase.matches.map((match) => match.entryId),
+        transaction_id: screeningCase.transactionId,
+        notes: screeningCase.resolutionNotes,
+      },
+    );
+    this.logger.warn('Screening case resolved by admin', {
+      caseId: screeningCase.id,
+      decision: input.decision,
+      adminId: input.adminId,
+    });
+    return { screeningCase, payout };
+  }
+
+  /** AML alerts in the given status, oldest first. */
+  async listAmlAlerts(input: { status: AmlAlertStatus; limit: number; offset: number }): Promise<AmlAlert[]> {
+    return this.amlMonitoringService.listAlerts(input);
+  }
+
+  /**
+   * Rules on an AML alert. Clearing a false positive lifts the freeze it put on outgoing transfers;
+   * confirming keeps it.
+   */
+  async resolveAmlAlert(input: { adminId: string; alertId: UUID; decision: AmlDecision; notes?: string | null }): Promise<AmlAlert> {
+    const alert = await this.amlMonitoringService.resolveAlert(input);
+
+    await this.record(input.adminId, input.decision === 'clear' ? 'aml_alert_cleared' : 'aml_alert_confirmed', 'aml_alert', alert.id, {
+      user_id: alert.userId,
+      rule_id: alert.ruleId,
+      severity: alert.severity,
+      transaction_ids: alert.transactions.map((transaction) => transaction.id),
+      notes: alert.resolutionNotes,
+    });
+    this.logger.warn('AML alert resolved by admin', { alertId: alert.id, decision: input.decision, adminId: input.adminId });
+    return alert;
+  }
+
+  async setUserKycStatus(input: {
+    adminId: string;
+    userId: UUID;
+    kycStatus: KYCStatus;
+    reason?: string | null;
+  }): Promise<User> {
+    const user = await this.requireUser(input.userId);
+    const now = this.clock.now();
+
+    const updated = await this.userRepository.update(user.id, {
+      kycStatus: input.kycStatus,
+      kycSubmittedAt: user.kycSubmittedAt ?? (input.kycStatus === 'not_started' ? null : now),
+      kycApprovedAt: input.kycStatus === 'approved' ? now : null,
+      updatedAt: now,
+    });
+
+    await this.record(input.adminId, 'user_kyc_status_changed', 'user', user.id, {
+      previous_status: user.kycStatus,
+      status: input.kycStatus,
+      reason: input.reason?.trim() || null,
+    });
+    this.logger.info('User KYC status changed by admin', { userId: user.id, status: input.kycStatus, adminId: input.adminId });
+    return updated;
+  }
+
+  /** Looks users up by email, phone, name or exact id. */
+  async searchUsers(input: { adminId: string; query: string; limit: number }): Promise<User[]> {
+    const query = input.query.trim();
+    if (query.length < MIN_USER_SEARCH_LENGTH) {
+      throw new ValidationError(`Search needs at least ${MIN_USER_SEARCH_LENGTH} characters`, 'QUERY_TOO_SHORT');
+    }
+
+    let users: User[];
+    if (UUID_PATTERN.test(query)) {
+      const user = await this.userRepository.findById(query);
+      users = user ? [user] : [];
+    } else {
+      // Phones are stored as 2547XXXXXXXX, while people usually read them out as 07XXXXXXXX
+      const term = /^0\d{9}$/.test(query) ? `254${query.slice(1)}` : query;
+      users = await this.userRepository.search(term, { limit: input.limit });
+    }
+
+    await this.record(input.adminId, 'users_searched', 'user', null, { query, results: users.length });
+    return users;
+  }
+
+  /** The user with their wallets and a page of their transactions, newest first. */
+  async getUserOverview(input: { adminId: string; userId: UUID; limit: number; offset: number }): Promise<UserOverview> {
+    const user = await this.requireUser(input.userId);
+    const [wallets, transactions, totalTransactions] = await Promise.all([
+      this.walletRepository.listByUser(user.id),
+      this.transactionRepository.listByUser(user.id, { limit: input.limit, offset: input.offset }),
+      this.transactionRepository.countByUser(user.id, {}),
+    ]);
+
+    await this.record(input.adminId, 'user_viewed', 'user', user.id, {});
+    return { user, wallets, transactions, totalTransactions };
+  }
+
+  /** Blocks the user from signing in and signs them out of every device. */
+  async suspendUser(input: { adminId: string; userId: UUID; reason: string }): Promise<User> {
+    const reason = input.reason.trim();
+    if (!reason) {
+      throw new ValidationError('A reason is required to suspend a user', 'REASON_REQUIRED');
+    }
+
+    const user = await this.requireUser(input.userId);
+    if (user.status !== 'active') {
+      throw new ValidationError('Only active users can be suspended', 'USER_NOT_ACTIVE', { status: user.status });
+    }
+
+    const updated = await this.userRepository.update(user.id, { status: 'suspended', updatedAt: this.clock.now() });
+    const sessionsRevoked = await this.sessionService.revokeAllSessions(user.id);
+
+    await this.record(input.adminId, 'user_suspended', 'user', user.id, { reason, sessions_revoked: sessionsRevoked });
+    this.logger.warn('User suspended by admin', { userId: user.id, adminId: input.adminId });
+    return updated;
+  }
+
+  async reactivateUser(input: { adminId: string; userId: UUID; reason?: string | null }): Promise<User> {
+    const user = await this.requireUser(input.userId);
+    if (user.status !== 'suspended') {
+      throw new ValidationError('Only suspended users can be reactivated', 'USER_NOT_SUSPENDED', { status: user.status });
+    }
+
+    const updated = await this.userRepository.update(user.id, { status: 'active', updatedAt: this.clock.now() });
+
+    await this.record(input.adminId, 'user_reactivated', 'user', user.id, { reason: input.reason?.trim() || null });
+    this.logger.info('User reactivated by admin', { userId: user.id, adminId: input.adminId });
+    return updated;
+  }
+
+  async listAuditLog(input: { targetType: AdminAuditTargetType; targetId: UUID; limit: number }): Promise<AdminAuditEntry[]> {
+    return this.auditLogRepository.listByTarget(input.targetType, input.targetId, { limit: input.limit });
+  }
+
+  private async record(
+    adminId: string,
+    action: AdminAuditAction,
+    targetType: AdminAuditTargetType,
+    targetId: UUID | null,
+    details: Record<string, unknown>,
+  ): Promise<void> {
+    await this.auditLogRepository.append(
+      createAdminAuditEntry({ id: randomUUID(), adminId, action, targetType, targetId, details, now: this.clock.now() }),
+    );
+  }
+
+  private async requireDocument(documentId: UUID): Promise<KYCDocument> {
+    const document = await this.kycDocumentRepository.findById(documentId);
+    if (!document) {
+      throw new ValidationError('KYC document not found', 'DOCUMENT_NOT_FOUND');
+    }
+    return document;
+  }
+
+  private async requireUser(userId: UUID): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new ValidationError('User not found', 'USER_NOT_FOUND');
+    }
+    return user;
+  }
+}
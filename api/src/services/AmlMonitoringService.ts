@@ -0,0 +1,259 @@
+/**
+ * AmlMonitoringService runs the transaction monitoring rules over completed transactions. Each scan
+ * picks up the transactions completed after a stored cursor and re-runs every rule for their users. A
+ * hit raises an alert for the back office with the transactions as evidence, or adds new ones to the
+ * rule's open alert; a high-severity alert also freezes the user's outgoing transfers until an admin
+ * clears it. As with watchlist matches, nothing tells the customer why.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { AmlAlert, AmlAlertStatus, AmlDecision, AmlEvidenceTransaction, createAmlAlert } from '../models/AmlAlert';
+import { AmlRule, AmlRuleHit, DEFAULT_AML_RULES, evaluateAmlRule, occurredAt, ruleReachMs } from '../models/AmlRule';
+import { ConcurrencyError, UUID, ValidationError } from '../models/base';
+import { Transaction } from '../models/Transaction';
+import { DEFAULT_LIMIT_TIERS, KYC_LIMIT_TIERS, LimitTier, LimitTierName } from '../models/TransactionLimits';
+import { User } from '../models/User';
+import {
+  AmlAlertRepository,
+  AmlScanCursorRepository,
+  Clock,
+  Logger,
+  NullLogger,
+  SystemClock,
+  TransactionCursor,
+  TransactionRepository,
+  UserRepository,
+} from './types';
+
+const DEFAULT_BATCH_SIZE = 500;
+/** How late a transaction may commit after its updated_at and still be scanned. */
+const DEFAULT_COMMIT_OVERLAP_MS = 5 * 60 * 1000;
+/** Sorts before every real id, so a cursor built from a time alone takes in all of that time's rows. */
+const FIRST_ID = '00000000-0000-0000-0000-000000000000';
+
+export interface AmlScanResult {
+  checkedUsers: number;
+  /** Alerts raised or given new evidence by the scan. */
+  alerts: AmlAlert[];
+}
+
+export class AmlMonitoringService {
+  private readonly rules: AmlRule[];
+  private readonly alertRepository: AmlAlertRepository;
+  private readonly cursorRepository: AmlScanCursorRepository;
+  private readonly transactionRepository: TransactionRepository;
+  private readonly userRepository: UserRepository;
+  private readonly tiers: Record<LimitTierName, LimitTier>;
+  private readonly batchSize: number;
+  private readonly overlapMs: number;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+  private readonly reachMs: number;
+
+  constructor(options: {
+    alertRepository: AmlAlertRepository;
+    cursorRepository: AmlScanCursorRepository;
+    transactionRepository: TransactionRepository;
+    userRepository: UserRepository;
+    rules?: AmlRule[];
+    tiers?: Record<LimitTierName, LimitTier>;
+    batchSize?: number;
+    /** How far behind now a scan that has caught up leaves the cursor, for transactions committed late. */
+    overlapMs?: number;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.rules = options.rules ?? DEFAULT_AML_RULES;
+    this.alertRepository = options.alertRepository;
+    this.cursorRepository = options.cursorRepository;
+    this.transactionRepository = options.transactionRepository;
+    this.userRepository = options.userRepository;
+    this.tiers = options.tiers ?? DEFAULT_LIMIT_TIERS;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.overlapMs = options.overlapMs ?? DEFAULT_COMMIT_OVERLAP_MS;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+    this.reachMs = Math.max(0, ...this.rules.map(ruleReachMs));
+  }
+
+  /**
+   * Checks every user with a transaction completed after the stored cursor, which never reaches
+   * further back than the rules do. A full batch moves the cursor to its last transaction and leaves
+   * the rest for the next run. Once caught up, the cursor stays the commit overlap behind now, so a
+   * transaction that commits late is still ahead of it; the ones read again raise nothing new.
+   */
+  async scan(): Promise<AmlScanResult> {
+    const now = this.clock.now();
+    const stored = await this.cursorRepository.find();
+    const reach = { updatedAt: new Date(now.getTime() - this.reachMs), id: FIRST_ID };
+    const cursor = stored ? latest(stored, reach) : reach;
+    const completed = await this.transactionRepository.listCompletedAfter(cursor, { limit: this.batchSize });
+
+    const userIds = [...new Set(completed.map((transaction) => transaction.userId))];
+    const alerts: AmlAlert[] = [];
+    for (const userId of userIds) {
+      // eslint-disable-next-line no-await-in-loop
+      alerts.push(...(await this.checkUser(userId)));
+    }
+
+    const last = completed[completed.length - 1];
+    const settled = { updatedAt: new Date(now.getTime() - this.overlapMs), id: FIRST_ID };
+    let next: TransactionCursor;
+    if (last && completed.length === this.batchSize) {
+      next = last;
+    } else {
+      next = latest(cursor, last && compareCursors(last, settled) < 0 ? last : settled);
+    }
+    await this.cursorRepository.save({ updatedAt: next.updatedAt, id: next.id });
+
+    if (alerts.length > 0) {
+      this.logger.info('AML monitoring scan raised alerts', { checkedUsers: userIds.length, alerts: alerts.length });
+    }
+    return { checkedUsers: userIds.length, alerts };
+  }
+
+  /** Runs every rule over the user's recent completed transactions. */
+  async checkUser(userId: UUID): Promise<AmlAlert[]> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      return [];
+    }
+
+    const now = this.clock.now();
+    const transactions = await this.transactionRepository.listCompletedByUser(userId, new Date(now.getTime() - this.reachMs));
+    const tier = this.tiers[KYC_LIMIT_TIERS[user.kycStatus]];
+
+    const alerts: AmlAlert[] = [];
+    for (const rule of this.rules) {
+      const hit = evaluateAmlRule(rule, { transactions, tier });
+      // eslint-disable-next-line no-await-in-loop
+      const alert = hit ? await this.record(user, hit, now) : null;
+      if (alert) {
+        alerts.push(alert);
+      }
+    }
+    return alerts;
+  }
+
+  /** Alerts in the given status, oldest first. */
+  async listAlerts(input: { status: AmlAlertStatus; limit: number; offset: number }): Promise<AmlAlert[]> {
+    return this.alertRepository.listByStatus(input.status, { limit: input.limit, offset: input.offset });
+  }
+
+  /**
+   * Records the admin's decision. Clearing the user's last freezing alert lifts the freeze, unless an
+   * earlier one was confirmed.
+   */
+  async resolveAlert(input: { adminId: string; alertId: UUID; decision: AmlDecision; notes?: string | null }): Promise<AmlAlert> {
+    const alert = await this.alertRepository.findById(input.alertId);
+    if (!alert) {
+      throw new ValidationError('AML alert not found', 'AML_ALERT_NOT_FOUND');
+    }
+    if (alert.status !== 'open') {
+      throw new ValidationError('AML alert has already been resolved', 'AML_ALERT_ALREADY_RESOLVED', { status: alert.status });
+    }
+
+    const now = this.clock.now();
+    const resolved = await this.alertRepository.update({
+      ...alert,
+      status: input.decision === 'clear' ? 'cleared' : 'confirmed',
+      resolvedBy: input.adminId,
+      resolutionNotes: input.notes?.trim() || null,
+      resolvedAt: now,
+      updatedAt: now,
+    });
+
+    if (resolved.freezesAccount && resolved.status === 'cleared') {
+      const freezing = (await this.alertRepository.listByUser(resolved.userId)).filter((other) => other.freezesAccount);
+      if (freezing.every((other) => other.status === 'cleared')) {
+        await this.setFreeze(resolved.userId, false, now);
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Raises an alert for the hit, or adds its new transactions to the rule's open alert. A hit made
+   * only of transactions an earlier alert already covered is left alone. When a scan running at the
+   * same time opens or changes the rule's alert first, the hit is recorded again against the alert
+   * as it now stands.
+   */
+  private async record(user: User, hit: AmlRuleHit, now: Date, retried = false): Promise<AmlAlert | null> {
+    const previous = (await this.alertRepository.listByUser(user.id)).filter((alert) => alert.ruleId === hit.rule.id);
+    const seen = new Set(previous.flatMap((alert) => alert.transactions.map((transaction) => transaction.id)));
+    const fresh = hit.transactions.filter((transaction) => !seen.has(transaction.id));
+    if (fresh.length === 0) {
+      return null;
+    }
+
+    const open = previous.find((alert) => alert.status === 'open');
+    const freezesAccount = hit.rule.severity === 'high';
+    let alert: AmlAlert;
+    try {
+      if (open) {
+        const updated = await this.alertRepository.updateIfUnchanged(
+          {
+            ...open,
+            summary: hit.summary,
+            transactions: [...open.transactions, ...fresh.map(toEvidence)].sort(
+              (a, b) => a.occurredAt.getTime() - b.occurredAt.getTime(),
+            ),
+            details: hit.details,
+            updatedAt: now,
+          },
+          open.updatedAt,
+        );
+        this.logger.warn('AML alert has new evidence', { userId: user.id, alertId: updated.id, ruleId: hit.rule.id });
+        return updated;
+      }
+
+      alert = await this.alertRepository.create(
+        createAmlAlert({
+          id: randomUUID(),
+          userId: user.id,
+          ruleId: hit.rule.id,
+          ruleKind: hit.rule.kind,
+          severity: hit.rule.severity,
+          summary: hit.summary,
+          transactions: hit.transactions.map(toEvidence),
+          details: hit.details,
+          freezesAccount,
+          now,
+        }),
+      );
+    } catch (error) {
+      if (error instanceof ConcurrencyError && !retried) {
+        return this.record(user, hit, now, true);
+      }
+      throw error;
+    }
+    if (freezesAccount) {
+      await this.setFreeze(user.id, true, now);
+    }
+
+    this.logger.warn(freezesAccount ? 'AML alert froze outgoing transfers' : 'AML alert raised', {
+      userId: user.id,
+      alertId: alert.id,
+      ruleId: hit.rule.id,
+      severity: hit.rule.severity,
+    });
+    return alert;
+  }
+
+  private async setFreeze(userId: UUID, frozen: boolean, now: Date): Promise<void> {
+    await this.userRepository.setComplianceHold(userId, 'aml_alert', frozen, now);
+  }
+}
+
+function compareCursors(a: TransactionCursor, b: TransactionCursor): number {
+  return a.updatedAt.getTime() - b.updatedAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+function latest(a: TransactionCursor, b: TransactionCursor): TransactionCursor {
+  return compareCursors(a, b) >= 0 ? a : b;
+}
+
+function toEvidence(transaction: Transaction): AmlEvidenceTransaction {
+  return { id: transaction.id, type: transaction.type, amount: transaction.amount, occurredAt: occurredAt(transaction) };
+}
@@ -8,6 +8,8 @@ import type { SupabaseClient } from '@supabase/supabase-js';
 
 import { AuthSession, SUPABASE_EMAIL_OTP_CODE, createAuthSession, generateOtpCode } from '../models/AuthSession';
 import { ValidationError, UUID } from '../models/base';
+import { DeviceInfo } from '../models/DeviceSession';
+import { PaymentIntent, hashPaymentIntent, validatePaymentIntent } from '../models/PaymentIntent';
 import { User, validateUser } from '../models/User';
 import {
   AuthSessionRepository,
@@ -22,6 +24,8 @@ import {
   TokenService,
   UserRepository,
 } from './types';
+import { assertPinPolicy } from './PinPolicy';
+import { SessionService } from './SessionService';
 
 export interface VerifyPinResult {
   verified: boolean;
@@ -44,6 +48,8 @@ export interface RequestOtpResult {
 export interface VerifyOtpInput {
   sessionId: string;
   otpCode: string;
+  /** The device signing in; recorded as a new device session. */
+  device?: DeviceInfo;
 }
 
 export interface VerifyOtpResult {
@@ -53,6 +59,12 @@ export interface VerifyOtpResult {
   requiresPinSetup: boolean;
 }
 
+export interface RefreshSessionResult {
+  accessToken: string;
+  refreshToken: string;
+  user: User;
+}
+
 const PIN_REGEX = /^[0-9]{4}$/;
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 const KENYAN_PHONE_REGEX = /^254[0-9]{9}$/;
@@ -61,6 +73,8 @@ const PROGRESSIVE_DELAYS_SECONDS = [0, 30, 120, 300, 900]; // 0, 30s, 2m, 5m, 15
 const OTP_TTL_SECONDS = 5 * 60; // 5 minutes
 const PIN_TOKEN_TTL_SECONDS = 5 * 60;
 
+const UNKNOWN_DEVICE: DeviceInfo = { clientPlatform: null, clientVersion: null, ipAddress: null };
+
 const NullRateLimiter: RateLimiter = {
   async consume() {
     return { allowed: true };
@@ -72,6 +86,7 @@ export class AuthService {
   private readonly authSessionRepository: AuthSessionRepository;
   private readonly otpSender: OtpSender;
   private readonly tokenService: TokenService;
+  private readonly sessionService: SessionService;
   private readonly pinHasher: PinHasher;
   private readonly pinTokenService: PinTokenService;
   private readonly rateLimiter: RateLimiter;
@@ -85,6 +100,7 @@ export class AuthService {
     authSessionRepository: AuthSessionRepository;
     otpSender: OtpSender;
     tokenService: TokenService;
+    sessionService: SessionService;
     pinHasher: PinHasher;
     pinTokenService: PinTokenService;
     rateLimiter?: RateLimiter;
@@ -97,6 +113,7 @@ export class AuthService {
     this.authSessionRepository = options.authSessionRepository;
     this.otpSender = options.otpSender;
     this.tokenService = options.tokenService;
+    this.sessionService = options.sessionService;
     this.pinHasher = options.pinHasher;
     this.pinTokenService = options.pinTokenService;
     this.rateLimiter = options.rateLimiter ?? NullRateLimiter;
@@ -123,6 +140,7 @@ export class AuthService {
     if (!user) {
       throw new ValidationError('Account not found', 'ACCOUNT_NOT_FOUND');
     }
+    this.assertCanSignIn(user);
 
     const useSupabaseEmailOtp = this.shouldUseSupabaseEmailOtp(contactType);
     const otpCode = useSupabaseEmailOtp ? SUPABASE_EMAIL_OTP_CODE : generateOtpCode();
@@ -169,6 +187,29 @@ export class AuthService {
   }
 
   async verifyOtp(input: VerifyOtpInput): Promise<VerifyOtpResult> {
+    const user = await this.verifyOtpChallenge(input);
+    // The account may have closed or been suspended after the code was sent
+    this.assertCanSignIn(user);
+    const deviceSession = await this.sessionService.startSession(user.id, input.device ?? UNKNOWN_DEVICE);
+
+    const [accessToken, refreshToken] = await Promise.all([
+      this.tokenService.issueAccessToken(user, deviceSession.id),
+      this.tokenService.issueRefreshToken(user, deviceSession.id),
+    ]);
+
+    return {
+      accessToken,
+      refreshToken,
+      user,
+      requiresPinSetup: !user.pinHash,
+    };
+  }
+
+  /**
+   * Checks the code of an OTP session and uses the session up, returning the user the code was sent
+   * to. Signing in and PIN recovery both step up through it.
+   */
+  async verifyOtpChallenge(input: { sessionId: string; otpCode: string }): Promise<User> {
     if (!/^[0-9]{6}$/.test(input.otpCode)) {
       throw new ValidationError('OTP must be a 6-digit code', 'INVALID_OTP');
     }
@@ -217,21 +258,45 @@ export class AuthService {
     session.attemptCount += 1;
     await this.authSessionRepository.save(session);
 
-    const user = await this.resolveUser(session);
+    return this.resolveUser(session);
+  }
 
-    const [accessToken, refreshToken] = await Promise.all([
-      this.tokenService.issueAccessToken(user),
-      this.tokenService.issueRefreshToken(user),
-    ]);
+  /**
+   * Exchanges a refresh token for a new access token and a rotated refresh token. Sessions of users
+   * that are gone or no longer active, and sessions whose refresh token was replayed, are revoked
+   * instead of renewed.
+   */
+  async refreshSession(refreshToken: string, device: DeviceInfo = UNKNOWN_DEVICE): Promise<RefreshSessionResult> {
+    const rotation = await this.tokenService.rotateRefreshToken(refreshToken);
+    if (rotation.status === 'invalid') {
+      throw new ValidationError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+    }
+    if (rotation.status === 'reused') {
+      await this.sessionService.endSession(rotation.deviceSessionId);
+      throw new ValidationError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+    }
+
+    const user = await this.userRepository.findById(rotation.userId);
+    const deviceSession = await this.sessionService.recordActivity(rotation.deviceSessionId, device);
+    if (!user || user.status !== 'active' || !deviceSession) {
+      await this.sessionService.endSession(rotation.deviceSessionId);
+      await this.tokenService.revokeRefreshToken(rotation.refreshToken);
+      throw new ValidationError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+    }
 
     return {
-      accessToken,
-      refreshToken,
+      accessToken: await this.tokenService.issueAccessToken(user, deviceSession.id),
+      refreshToken: rotation.refreshToken,
       user,
-      requiresPinSetup: !user.pinHash,
     };
   }
 
+  /** Signs the device of the request out: its access and refresh tokens stop working. */
+  async logout(userId: UUID, deviceSessionId: UUID): Promise<void> {
+    await this.sessionService.endSession(deviceSessionId);
+    this.logger.info('User logged out', { userId, sessionId: deviceSessionId });
+  }
+
   async updateProfile(
     userId: UUID,
     input: { firstName?: string; lastName?: string; email?: string; phone?: string },
@@ -324,7 +389,7 @@ export class AuthService {
   }
 
   async setupPin(userId: UUID, pin: string): Promise<User> {
-    this.assertValidPin(pin);
+    assertPinPolicy(pin);
 
     const user = await this.requireUser(userId);
     const hashed = await this.pinHasher.hash(pin);
@@ -343,8 +408,15 @@ export class AuthService {
     return updated;
   }
 
-  async verifyPin(userId: UUID, pin: string): Promise<VerifyPinResult> {
+  /**
+   * With an intent the token is bound to that payment and only payMerchant/transferPeer accept it for
+   * the same type, amount and recipient. Without one it authorises the other PIN-gated actions.
+   */
+  async verifyPin(userId: UUID, pin: string, intent?: PaymentIntent): Promise<VerifyPinResult> {
     this.assertValidPin(pin);
+    if (intent) {
+      validatePaymentIntent(intent);
+    }
 
     const user = await this.requireUser(userId);
     if (!user.pinHash) {
@@ -363,14 +435,20 @@ export class AuthService {
     }
 
     const token = this.generatePinToken();
+    // Hashes from an older format or cost are replaced now that the PIN is known
+    const rehashed = this.pinHasher.needsRehash(user.pinHash) ? await this.pinHasher.hash(pin) : null;
     const updated = await this.userRepository.update(user.id, {
       failedPinAttempts: 0,
       lastFailedAttemptAt: null,
+      ...(rehashed ? { pinHash: rehashed } : {}),
       updatedAt: now,
     });
     validateUser(updated);
+    if (rehashed) {
+      this.logger.info('PIN hash upgraded', { userId: user.id });
+    }
 
-    await this.pinTokenService.issue(user.id, token, PIN_TOKEN_TTL_SECONDS);
+    await this.pinTokenService.issue(user.id, token, PIN_TOKEN_TTL_SECONDS, intent ? hashPaymentIntent(intent) : null);
 
     return {
       verified: true,
@@ -379,11 +457,19 @@ export class AuthService {
     };
   }
 
-  async validatePinToken(userId: UUID, token: string): Promise<boolean> {
+  async validatePinToken(userId: UUID, token: string, intent?: PaymentIntent): Promise<boolean> {
+    if (!token.startsWith('txn_')) {
+      return false;
+    }
+    return this.pinTokenService.validate(userId, token, intent ? hashPaymentIntent(intent) : null);
+  }
+
+  /** Like validatePinToken, but also uses the token up so it cannot authorise anything else. */
+  async consumePinToken(userId: UUID, token: string, intent?: PaymentIntent): Promise<boolean> {
     if (!token.startsWith('txn_')) {
       return false;
     }
-    return this.pinTokenService.validate(userId, token);
+    return this.pinTokenService.consume(userId, token, intent ? hashPaymentIntent(intent) : null);
   }
 
   async invalidatePinToken(token: string): Promise<void> {
@@ -480,6 +566,15 @@ export class AuthService {
     };
   }
 
+  private assertCanSignIn(user: User): void {
+    if (user.status === 'closed') {
+      throw new ValidationError('This account has been closed', 'ACCOUNT_CLOSED');
+    }
+    if (user.status === 'suspended') {
+      throw new ValidationError('This account has been suspended', 'ACCOUNT_SUSPENDED');
+    }
+  }
+
   private async lookupUser(email: string | null, phone: string | null): Promise<User | null> {
     if (email) {
       const byEmail = await this.userRepository.findByEmail(email);
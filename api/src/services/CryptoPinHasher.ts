@@ -1,35 +1,97 @@
-import { pbkdf2, randomBytes } from 'node:crypto';
+import { createHmac, pbkdf2, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
 import { promisify } from 'node:util';
 
 import { PinHasher } from './types';
 
 const pbkdf2Async = promisify(pbkdf2);
-const ITERATIONS = 120_000;
+const scryptAsync = promisify(scrypt) as (
+  password: Buffer,
+  salt: Buffer,
+  keyLength: number,
+  options: { N: number; r: number; p: number; maxmem: number },
+) => Promise<Buffer>;
+
+const MIN_PEPPER_LENGTH = 32;
 const KEY_LENGTH = 32;
-const DIGEST = 'sha256';
+const SALT_LENGTH = 16;
+
+/** Current format: `v2$scrypt$N:r:p$salt$hash`, over an HMAC of the PIN keyed with the pepper. */
+const CURRENT_VERSION = 'v2';
+const SCRYPT_N = 32_768;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+
+/** Format before v2: `pbkdf2$iterations$salt$hash`, unpeppered. Still verified, then rehashed. */
+const LEGACY_PBKDF2_DIGEST = 'sha256';
 
 export class CryptoPinHasher implements PinHasher {
+  private readonly pepper: string;
+
+  constructor(options: { pepper: string }) {
+    if (options.pepper.length < MIN_PEPPER_LENGTH) {
+      throw new Error(`PIN hash pepper must be at least ${MIN_PEPPER_LENGTH} characters`);
+    }
+    this.pepper = options.pepper;
+  }
+
   async hash(pin: string): Promise<string> {
-    const salt = randomBytes(16);
-    const derived = await pbkdf2Async(pin, salt, ITERATIONS, KEY_LENGTH, DIGEST);
-    return `pbkdf2$${ITERATIONS}$${salt.toString('hex')}$${derived.toString('hex')}`;
+    const salt = randomBytes(SALT_LENGTH);
+    const derived = await this.deriveScrypt(pin, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P, KEY_LENGTH);
+    return [CURRENT_VERSION, 'scrypt', `${SCRYPT_N}:${SCRYPT_R}:${SCRYPT_P}`, salt.toString('hex'), derived.toString('hex')].join('$');
   }
 
   async compare(pin: string, hash: string): Promise<boolean> {
     const parts = hash.split('$');
-    if (parts.length !== 4 || parts[0] !== 'pbkdf2') {
-      return false;
+    if (parts[0] === CURRENT_VERSION && parts[1] === 'scrypt' && parts.length === 5) {
+      return this.compareScrypt(pin, parts[2]!, parts[3]!, parts[4]!);
+    }
+    if (parts[0] === 'pbkdf2' && parts.length === 4) {
+      return compareLegacyPbkdf2(pin, parts[1]!, parts[2]!, parts[3]!);
     }
+    return false;
+  }
 
-    const iterations = Number.parseInt(parts[1]!, 10);
-    const salt = Buffer.from(parts[2]!, 'hex');
-    const expected = Buffer.from(parts[3]!, 'hex');
+  needsRehash(hash: string): boolean {
+    const parts = hash.split('$');
+    return !(
+      parts.length === 5 &&
+      parts[0] === CURRENT_VERSION &&
+      parts[1] === 'scrypt' &&
+      parts[2] === `${SCRYPT_N}:${SCRYPT_R}:${SCRYPT_P}`
+    );
+  }
 
-    if (!Number.isFinite(iterations) || salt.length === 0 || expected.length === 0) {
+  private async compareScrypt(pin: string, params: string, saltHex: string, expectedHex: string): Promise<boolean> {
+    const [n, r, p] = params.split(':').map((value) => Number.parseInt(value, 10));
+    const salt = Buffer.from(saltHex, 'hex');
+    const expected = Buffer.from(expectedHex, 'hex');
+    if (!isPositiveInteger(n) || !isPositiveInteger(r) || !isPositiveInteger(p) || salt.length === 0 || expected.length === 0) {
       return false;
     }
 
-    const derived = await pbkdf2Async(pin, salt, iterations, expected.length, DIGEST);
-    return derived.equals(expected);
+    const derived = await this.deriveScrypt(pin, salt, n, r, p, expected.length);
+    return timingSafeEqual(derived, expected);
+  }
+
+  private deriveScrypt(pin: string, salt: Buffer, n: number, r: number, p: number, keyLength: number): Promise<Buffer> {
+    const peppered = createHmac('sha256', this.pepper).update(pin).digest();
+    return scryptAsync(peppered, salt, keyLength, { N: n, r, p, maxmem: 256 * n * r });
+  }
+}
+
+async function compareLegacyPbkdf2(pin: string, iterationsText: string, saltHex: string, expectedHex: string): Promise<boolean> {
+  const iterations = Number.parseInt(iterationsText, 10);
+  const salt = Buffer.from(saltHex, 'hex');
+  const expected = Buffer.from(expectedHex, 'hex');
+
+  if (!Number.isFinite(iterations) || salt.length === 0 || expected.length === 0) {
+    return false;
   }
+
+  const derived = await pbkdf2Async(pin, salt, iterations, expected.length, LEGACY_PBKDF2_DIGEST);
+  return timingSafeEqual(derived, expected);
+}
+
+function isPositiveInteger(value: number | undefined): value is number {
+  return value !== undefined && Number.isInteger(value) && value > 0;
 }
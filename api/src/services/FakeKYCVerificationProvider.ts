@@ -0,0 +1,78 @@
+import { createHash } from 'node:crypto';
+
+import { ExtractedData, KYCDocument } from '../models/KYCDocument';
+import { User } from '../models/User';
+import { Clock, KYCVerificationProvider, KYCVerificationRequest, KYCVerificationResult, SystemClock } from './types';
+
+const MATCHING_FACE_SCORE = 0.97;
+const LOW_FACE_SCORE = 0.42;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Deterministic stand-in for a KYC vendor, for local development and tests. Identity documents
+ * "read" the user's own profile, and selfies match. Words in the file name script the other outcomes:
+ * - `unreadable`: nothing can be read and the document is rejected
+ * - `mismatch`: the document carries someone else's name
+ * - `expired`: the document expired a year ago and is rejected
+ * - `lowmatch`: the selfie scores far below any match threshold
+ */
+export class FakeKYCVerificationProvider implements KYCVerificationProvider {
+  readonly name = 'fake';
+  private readonly clock: Clock;
+
+  constructor(options: { clock?: Clock } = {}) {
+    this.clock = options.clock ?? new SystemClock();
+  }
+
+  async verify({ document, user, identityDocument }: KYCVerificationRequest): Promise<KYCVerificationResult> {
+    const scenario = document.fileName.toLowerCase();
+
+    if (scenario.includes('unreadable')) {
+      return {
+        extractedData: null,
+        faceMatchScore: null,
+        suggestedStatus: 'rejected',
+        reasons: ['The document could not be read; upload a sharper photo'],
+      };
+    }
+
+    if (document.documentType === 'selfie') {
+      return {
+        extractedData: null,
+        faceMatchScore: identityDocument ? (scenario.includes('lowmatch') ? LOW_FACE_SCORE : MATCHING_FACE_SCORE) : null,
+        suggestedStatus: 'approved',
+        reasons: [],
+      };
+    }
+
+    const extractedData = this.readIdentityDocument(document, user, scenario);
+    if (extractedData.expiryDate && extractedData.expiryDate.getTime() < this.clock.now().getTime()) {
+      return { extractedData, faceMatchScore: null, suggestedStatus: 'rejected', reasons: ['The document has expired'] };
+    }
+    return { extractedData, faceMatchScore: null, suggestedStatus: 'approved', reasons: [] };
+  }
+
+  private readIdentityDocument(document: KYCDocument, user: User, scenario: string): ExtractedData {
+    const digits = String(Number.parseInt(createHash('sha256').update(user.id).digest('hex').slice(0, 12), 16) % 100_000_000).padStart(8, '0');
+    const now = this.clock.now();
+
+    let issueDate = startOfDay(new Date(now.getTime() - 2 * YEAR_MS));
+    let expiryDate: Date | null = document.documentType === 'national_id' ? null : startOfDay(new Date(issueDate.getTime() + 10 * YEAR_MS));
+    if (scenario.includes('expired')) {
+      expiryDate = startOfDay(new Date(now.getTime() - YEAR_MS));
+      issueDate = startOfDay(new Date(expiryDate.getTime() - 10 * YEAR_MS));
+    }
+
+    return {
+      fullName: scenario.includes('mismatch') ? 'John Kamau' : `${user.firstName} ${user.lastName}`,
+      idNumber: document.documentType === 'passport' ? `A${digits.slice(1)}` : digits,
+      dateOfBirth: user.dateOfBirth ?? null,
+      issueDate,
+      expiryDate,
+    };
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
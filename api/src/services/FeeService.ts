@@ -0,0 +1,53 @@
+/**
+ * FeeService quotes fees from the configured fee schedule. Routes quote before confirming a
+ * movement so the customer sees the same fee that is later charged.
+ */
+
+import {
+  DEFAULT_FEE_SCHEDULE,
+  FeePaymentMethod,
+  FeePromotion,
+  FeeQuote,
+  FeeSchedule,
+  FeeTransactionType,
+  calculateFee,
+  validateFeeSchedule,
+} from '../models/FeeSchedule';
+import { Clock, Logger, NullLogger, SystemClock } from './types';
+
+export class FeeService {
+  private readonly schedule: FeeSchedule;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: { schedule?: FeeSchedule; clock?: Clock; logger?: Logger } = {}) {
+    this.schedule = options.schedule ?? DEFAULT_FEE_SCHEDULE;
+    validateFeeSchedule(this.schedule);
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  getSchedule(): FeeSchedule {
+    return this.schedule;
+  }
+
+  /** Promotions running now or starting later; finished ones are left out. */
+  listCurrentPromotions(): FeePromotion[] {
+    const now = this.clock.now().getTime();
+    return this.schedule.promotions.filter((promotion) => promotion.endsAt.getTime() > now);
+  }
+
+  quote(input: { transactionType: FeeTransactionType; paymentMethod: FeePaymentMethod; amount: number }): FeeQuote {
+    const quote = calculateFee(this.schedule, { ...input, at: this.clock.now() });
+    if (quote.promotion) {
+      this.logger.info('Fee waived by promotion', {
+        transactionType: quote.transactionType,
+        paymentMethod: quote.paymentMethod,
+        amount: quote.amount,
+        standardFee: quote.standardFee,
+        promotion: quote.promotion,
+      });
+    }
+    return quote;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * KYCDocumentVault encrypts KYC files before they reach DocumentStorage. Every document gets its own
+ * random AES-256-GCM key; that key is stored on the document encrypted with the master key, so the
+ * storage bucket alone never holds anything readable.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+
+import { DocumentStorage } from './types';
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class KYCDocumentVault {
+  private readonly storage: DocumentStorage;
+  private readonly masterKey: Buffer;
+
+  constructor(options: { storage: DocumentStorage; masterKey: Buffer }) {
+    if (options.masterKey.length !== KEY_BYTES) {
+      throw new Error(`Document master key must be ${KEY_BYTES} bytes`);
+    }
+    this.storage = options.storage;
+    this.masterKey = options.masterKey;
+  }
+
+  /** Encrypts and stores the file, returning the document's key encrypted with the master key. */
+  async store(path: string, content: Buffer, contentType: string): Promise<{ encryptedDataKey: string }> {
+    const dataKey = randomBytes(KEY_BYTES);
+    await this.storage.put(path, seal(dataKey, content), contentType);
+    return { encryptedDataKey: seal(this.masterKey, dataKey).toString('base64') };
+  }
+
+  /** The decrypted file, or null when nothing is stored. Throws if the file or key was tampered with. */
+  async read(path: string, encryptedDataKey: string): Promise<Buffer | null> {
+    const sealed = await this.storage.get(path);
+    if (!sealed) {
+      return null;
+    }
+    const dataKey = open(this.masterKey, Buffer.from(encryptedDataKey, 'base64'));
+    return open(dataKey, sealed);
+  }
+
+  async delete(path: string): Promise<void> {
+    await this.storage.delete(path);
+  }
+}
+
+/** IV, then the GCM tag, then the ciphertext. */
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, sealed.subarray(0, IV_BYTES));
+  decipher.setAuthTag(sealed.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
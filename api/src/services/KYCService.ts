@@ -1,18 +1,54 @@
 /**
- * KYCService manages document uploads, verification status, and notifications.
+ * KYCService manages document uploads, verification status, and notifications. Files arrive after the
+ * document record is created and are checked and encrypted into storage before the document moves
+ * to `processing`. When a verification
+ * provider is configured, documents are checked automatically as they reach `processing`; anything
+ * the checks cannot settle stays in `processing` for an admin to review. It also counts upload
+ * attempts per document type, blocking the type and opening a review case once they run out, and
+ * watches approved documents for expiry: warning the user ahead of time and, once one expires,
+ * dropping them back to `pending` until a replacement is approved. Approved identity documents are
+ * screened against the sanctions and PEP watchlist with the name and date of birth read off them.
  */
 
-import { randomUUID } from 'node:crypto';
+import { createHash, randomUUID } from 'node:crypto';
 
-import { UUID } from '../models/base';
+import { UUID, ValidationError } from '../models/base';
 import {
+  ExtractedData,
   KYCDocument,
   KYCDocumentStatus,
   KYCDocumentType,
+  KYC_EXPIRY_WARNING_DAYS,
   createKYCDocument,
+  daysUntilExpiry,
+  detectDocumentMimeType,
+  extractedNameMatches,
+  kycExpiryState,
   validateKYCDocument,
 } from '../models/KYCDocument';
-import { Clock, KYCDocumentRepository, Logger, NullLogger, NotificationService, SystemClock } from './types';
+import { createKYCReviewCase } from '../models/KYCReviewCase';
+import {
+  KYCUploadAttempt,
+  MAX_UPLOAD_ATTEMPTS_PER_TYPE,
+  UPLOAD_BLOCK_HOURS,
+  createKYCUploadAttempt,
+  isUploadBlocked,
+} from '../models/KYCUploadAttempt';
+import { KYCDocumentVault } from './KYCDocumentVault';
+import { ScreeningService } from './ScreeningService';
+import {
+  Clock,
+  KYCDocumentRepository,
+  KYCReviewCaseRepository,
+  KYCUploadAttemptRepository,
+  KYCVerificationProvider,
+  KYCVerificationResult,
+  Logger,
+  NullLogger,
+  NotificationService,
+  SystemClock,
+  UserRepository,
+} from './types';
 
 export interface UploadDocumentInput {
   userId: UUID;
@@ -33,27 +69,70 @@ export interface UpdateDocumentStatusInput {
   extractedData?: KYCDocument['extractedData'];
 }
 
+export interface DocumentExpiryRun {
+  warned: KYCDocument[];
+  expired: KYCDocument[];
+}
+
+export const DEFAULT_FACE_MATCH_THRESHOLD = 0.8;
+
+const DEFAULT_EXPIRY_BATCH_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const IDENTITY_DOCUMENT_TYPES: KYCDocumentType[] = ['national_id', 'passport', 'driving_license'];
+
+const DOCUMENT_LABELS: Record<KYCDocumentType, string> = {
+  national_id: 'national ID',
+  passport: 'passport',
+  driving_license: 'driving licence',
+  selfie: 'selfie',
+};
+
 export class KYCService {
   private readonly repository: KYCDocumentRepository;
+  private readonly uploadAttemptRepository: KYCUploadAttemptRepository;
+  private readonly reviewCaseRepository: KYCReviewCaseRepository;
+  private readonly userRepository: UserRepository;
+  private readonly documentVault: KYCDocumentVault;
   private readonly notificationService: NotificationService;
+  private readonly verificationProvider: KYCVerificationProvider | null;
+  private readonly faceMatchThreshold: number;
+  private readonly screeningService: ScreeningService | null;
   private readonly clock: Clock;
   private readonly logger: Logger;
 
   constructor(options: {
     repository: KYCDocumentRepository;
+    uploadAttemptRepository: KYCUploadAttemptRepository;
+    reviewCaseRepository: KYCReviewCaseRepository;
+    userRepository: UserRepository;
+    documentVault: KYCDocumentVault;
     notificationService: NotificationService;
+    /** Without one, every document waits in `processing` for an admin. */
+    verificationProvider?: KYCVerificationProvider | null;
+    /** Selfies scoring below this against the ID photo go to manual review. */
+    faceMatchThreshold?: number;
+    /** Without it approved documents are not screened against the watchlist. */
+    screeningService?: ScreeningService;
     clock?: Clock;
     logger?: Logger;
   }) {
     this.repository = options.repository;
+    this.uploadAttemptRepository = options.uploadAttemptRepository;
+    this.reviewCaseRepository = options.reviewCaseRepository;
+    this.userRepository = options.userRepository;
+    this.documentVault = options.documentVault;
     this.notificationService = options.notificationService;
+    this.verificationProvider = options.verificationProvider ?? null;
+    this.faceMatchThreshold = options.faceMatchThreshold ?? DEFAULT_FACE_MATCH_THRESHOLD;
+    this.screeningService = options.screeningService ?? null;
     this.clock = options.clock ?? new SystemClock();
     this.logger = options.logger ?? NullLogger;
   }
 
   async uploadDocument(input: UploadDocumentInput): Promise<KYCDocument> {
     const existing = await this.repository.findByUserAndType(input.userId, input.documentType);
-    if (existing && existing.status === 'approved') {
+    if (existing && existing.status === 'approved' && !this.isDueForReplacement(existing)) {
       throw new Error('An approved document already exists for this type');
     }
 
@@ -75,36 +154,460 @@ export class KYCService {
     return saved;
   }
 
+  /**
+   * Takes the file for a document still waiting on it. The size has to match what was declared and
+   * the leading bytes the declared type; the file is then encrypted into storage, its SHA-256 kept
+   * as the access hash, and the document moves to `processing`.
+   */
+  async confirmUpload(documentId: UUID, content: Buffer): Promise<KYCDocument> {
+    const document = await this.repository.findById(documentId);
+    // A document whose file was deleted has been replaced, or belongs to an anonymised account
+    if (!document?.filePath) {
+      throw new ValidationError('KYC document not found', 'DOCUMENT_NOT_FOUND');
+    }
+    if (document.status !== 'uploaded' || document.encryptedDataKey) {
+      throw new ValidationError('The file for this document has already been received', 'UPLOAD_ALREADY_RECEIVED');
+    }
+    if (content.length !== document.fileSize) {
+      throw new ValidationError('File size does not match the size declared for the upload', 'FILE_SIZE_MISMATCH', {
+        declared_bytes: document.fileSize,
+        received_bytes: content.length,
+      });
+    }
+    const detectedMimeType = detectDocumentMimeType(content);
+    if (detectedMimeType !== document.mimeType) {
+      throw new ValidationError('File content does not match the declared type', 'FILE_TYPE_MISMATCH', {
+        declared_mime_type: document.mimeType,
+        detected_mime_type: detectedMimeType,
+      });
+    }
+
+    const { encryptedDataKey } = await this.documentVault.store(document.filePath, content, document.mimeType);
+    await this.repository.update({
+      ...document,
+      encrypted: true,
+      encryptedDataKey,
+      accessHash: createHash('sha256').update(content).digest('hex'),
+      updatedAt: this.clock.now(),
+    });
+    this.logger.info('KYC document file received', { documentId, bytes: content.length });
+
+    return this.updateStatus({ documentId, status: 'processing' });
+  }
+
+  /** The decrypted file, or null if it has not been received. Throws if it no longer matches its hash. */
+  async readDocumentFile(documentId: UUID): Promise<{ document: KYCDocument; content: Buffer } | null> {
+    const document = await this.repository.findById(documentId);
+    if (!document?.encryptedDataKey || !document.filePath) {
+      return null;
+    }
+
+    const content = await this.documentVault.read(document.filePath, document.encryptedDataKey);
+    if (!content) {
+      return null;
+    }
+    if (createHash('sha256').update(content).digest('hex') !== document.accessHash) {
+      this.logger.error('KYC document file failed its integrity check', { documentId });
+      throw new Error('KYC document file failed its integrity check');
+    }
+    return { document, content };
+  }
+
+  async listUploadAttempts(userId: UUID): Promise<KYCUploadAttempt[]> {
+    return this.uploadAttemptRepository.listByUser(userId);
+  }
+
+  /** Throws MAX_ATTEMPTS_REACHED, with the time the user can retry, while uploads of the type are blocked. */
+  async assertCanUpload(userId: UUID, documentType: KYCDocumentType): Promise<void> {
+    const attempt = await this.uploadAttemptRepository.find(userId, documentType);
+    if (attempt?.blockedUntil && isUploadBlocked(attempt, this.clock.now())) {
+      throw new ValidationError('Maximum attempts reached for this document type', 'MAX_ATTEMPTS_REACHED', {
+        retry_at: attempt.blockedUntil.toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Counts an upload of the type. The last allowed one blocks the type for UPLOAD_BLOCK_HOURS, opens
+   * a review case for the back office and tells the user when they can try again. A block that has
+   * run out starts the count afresh.
+   */
+  async recordUploadAttempt(userId: UUID, documentType: KYCDocumentType): Promise<KYCUploadAttempt> {
+    const now = this.clock.now();
+    const existing = await this.uploadAttemptRepository.find(userId, documentType);
+    const current =
+      !existing || (existing.blockedUntil && !isUploadBlocked(existing, now))
+        ? createKYCUploadAttempt({ userId, documentType, now })
+        : existing;
+
+    const attempts = current.attempts + 1;
+    const exhausted = attempts >= MAX_UPLOAD_ATTEMPTS_PER_TYPE;
+    const saved = await this.uploadAttemptRepository.save({
+      ...current,
+      attempts,
+      lastAttemptAt: now,
+      blockedUntil: exhausted ? new Date(now.getTime() + UPLOAD_BLOCK_HOURS * 60 * 60 * 1000) : null,
+      updatedAt: now,
+    });
+
+    if (saved.blockedUntil) {
+      await this.openReviewCase(saved, saved.blockedUntil);
+    }
+    return saved;
+  }
+
+  /** Clears the count and any block so the user can upload the type again straight away. */
+  async resetUploadAttempts(userId: UUID, documentType: KYCDocumentType): Promise<void> {
+    await this.uploadAttemptRepository.save(createKYCUploadAttempt({ userId, documentType, now: this.clock.now() }));
+    this.logger.info('KYC upload attempts reset', { userId, documentType });
+  }
+
   async listDocuments(userId: UUID): Promise<KYCDocument[]> {
     return this.repository.listByUser(userId);
   }
 
+  /** Approved documents inside the warning window or past expiry can be replaced by a new upload. */
+  isDueForReplacement(document: KYCDocument): boolean {
+    const state = kycExpiryState(document, this.clock.now());
+    return state === 'expiring_soon' || state === 'expired';
+  }
+
+  /**
+   * The scheduled expiry check. Approved documents get one warning as they pass 30 and then 7 days
+   * before expiry, and are marked `expired` once their expiry date arrives. An expired identity
+   * document drops an approved user back to `pending`, and so to the basic limits, unless another
+   * approved identity document is still valid.
+   */
+  async checkDocumentExpiry(options: { now?: Date; limit?: number } = {}): Promise<DocumentExpiryRun> {
+    const now = options.now ?? this.clock.now();
+    const cutoff = new Date(now.getTime() + Math.max(...KYC_EXPIRY_WARNING_DAYS) * DAY_MS);
+    const due = await this.repository.listApprovedExpiringBefore(cutoff, { limit: options.limit ?? DEFAULT_EXPIRY_BATCH_SIZE });
+
+    const run: DocumentExpiryRun = { warned: [], expired: [] };
+    for (const document of due) {
+      if (kycExpiryState(document, now) === 'expired') {
+        // eslint-disable-next-line no-await-in-loop
+        run.expired.push(await this.expire(document, now));
+        continue;
+      }
+      // eslint-disable-next-line no-await-in-loop
+      const warned = await this.warnOfExpiry(document, now);
+      if (warned) {
+        run.warned.push(warned);
+      }
+    }
+
+    if (run.warned.length > 0 || run.expired.length > 0) {
+      this.logger.info('KYC document expiry checked', { warned: run.warned.length, expired: run.expired.length });
+    }
+    return run;
+  }
+
   async getDocument(documentId: UUID): Promise<KYCDocument> {
     return this.requireDocument(documentId);
   }
 
   async updateStatus(input: UpdateDocumentStatusInput): Promise<KYCDocument> {
     const document = await this.requireDocument(input.documentId);
-    const now = this.clock.now();
-
-    const updated: KYCDocument = {
-      ...document,
+    const saved = await this.saveStatus(document, {
       status: input.status,
       verificationNotes: input.verificationNotes ?? document.verificationNotes ?? null,
-      processedAt: now,
       extractedData: input.extractedData ?? document.extractedData ?? null,
-      updatedAt: now,
+    });
+
+    if (saved.status === 'processing' && document.status !== 'processing' && this.verificationProvider) {
+      return this.verify(saved, this.verificationProvider);
+    }
+    return saved;
+  }
+
+  /** Corrects the fields read off the document without changing its review status. */
+  async updateExtractedData(documentId: UUID, extractedData: ExtractedData): Promise<KYCDocument> {
+    const document = await this.requireDocument(documentId);
+
+    const updated = withExpiryFromExtractedData({
+      ...document,
+      extractedData: { ...(document.extractedData ?? {}), ...extractedData },
+      updatedAt: this.clock.now(),
+    });
+
+    validateKYCDocument(updated);
+    const saved = await this.repository.update(updated);
+    this.logger.info('KYC extracted data updated', { documentId: saved.id, fields: Object.keys(extractedData) });
+    return saved;
+  }
+
+  /**
+   * Runs the provider and settles the document: approved only when the provider approves, the name
+   * read off it matches the profile and a selfie matches the ID photo; rejected when the provider
+   * rejects it; otherwise left in `processing` with the reasons for the reviewer.
+   */
+  private async verify(document: KYCDocument, provider: KYCVerificationProvider): Promise<KYCDocument> {
+    const user = await this.userRepository.findById(document.userId);
+    if (!user) {
+      throw new Error('KYC document owner not found');
+    }
+
+    let identityDocument: KYCDocument | null = null;
+    if (document.documentType === 'selfie') {
+      const documents = await this.repository.listByUser(document.userId);
+      identityDocument =
+        documents.find((candidate) => IDENTITY_DOCUMENT_TYPES.includes(candidate.documentType) && candidate.status !== 'rejected') ??
+        null;
+      if (!identityDocument) {
+        return this.holdForReview(document, ['No identity document to compare the selfie with']);
+      }
+    }
+
+    let result: KYCVerificationResult;
+    try {
+      result = await provider.verify({ document, user, identityDocument });
+    } catch (error) {
+      this.logger.error('KYC verification provider failed', {
+        documentId: document.id,
+        provider: provider.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return this.holdForReview(document, ['Automatic verification failed']);
+    }
+
+    const checked: KYCDocument = {
+      ...document,
+      extractedData: result.extractedData ? { ...(document.extractedData ?? {}), ...result.extractedData } : document.extractedData ?? null,
+      faceMatchScore: result.faceMatchScore,
     };
 
+    if (result.suggestedStatus === 'rejected') {
+      this.logger.info('KYC document rejected by verification', { documentId: document.id, provider: provider.name });
+      return this.saveStatus(checked, { status: 'rejected', verificationNotes: result.reasons.join('; ') || null });
+    }
+
+    const reasons = result.suggestedStatus === 'manual_review' ? [...result.reasons] : [];
+    const fullName = checked.extractedData?.fullName;
+    if (fullName && !extractedNameMatches(fullName, user.firstName, user.lastName)) {
+      reasons.push('Name on the document does not match the profile');
+    }
+    if (document.documentType === 'selfie' && (result.faceMatchScore ?? 0) < this.faceMatchThreshold) {
+      reasons.push(`Face match score ${result.faceMatchScore ?? 'missing'} is below ${this.faceMatchThreshold}`);
+    }
+
+    if (reasons.length > 0) {
+      return this.holdForReview(checked, reasons);
+    }
+    this.logger.info('KYC document approved by verification', { documentId: document.id, provider: provider.name });
+    return this.saveStatus(checked, { status: 'approved', verificationNotes: null });
+  }
+
+  private async holdForReview(document: KYCDocument, reasons: string[]): Promise<KYCDocument> {
+    this.logger.info('KYC document held for manual review', { documentId: document.id, reasons });
+    return this.saveStatus(document, { status: 'processing', verificationNotes: `Manual review: ${reasons.join('; ')}` });
+  }
+
+  private async saveStatus(
+    document: KYCDocument,
+    changes: { status: KYCDocumentStatus; verificationNotes: string | null; extractedData?: ExtractedData | null },
+  ): Promise<KYCDocument> {
+    const now = this.clock.now();
+    const updated = withExpiryFromExtractedData({
+      ...document,
+      status: changes.status,
+      verificationNotes: changes.verificationNotes,
+      processedAt: now,
+      extractedData: changes.extractedData !== undefined ? changes.extractedData : document.extractedData ?? null,
+      updatedAt: now,
+    });
+
     validateKYCDocument(updated);
     const saved = await this.repository.update(updated);
 
     await this.notifyStatusChange(saved);
     this.logger.info('KYC document status updated', { documentId: saved.id, status: saved.status });
 
+    if (saved.status === 'approved' && document.status !== 'approved') {
+      await this.screenApprovedDocument(saved);
+      await this.restoreAfterReverification(saved);
+      await this.deleteReplacedFiles(saved);
+    }
     return saved;
   }
 
+  /**
+   * Deletes the stored files of the user's earlier documents of the same type once a newer one is
+   * approved. Their records stay for the audit trail. A file that cannot be deleted is logged and
+   * kept on the record, so a later approval tries again.
+   */
+  private async deleteReplacedFiles(approved: KYCDocument): Promise<void> {
+    const documents = await this.repository.listByUser(approved.userId);
+    const replaced = documents.filter(
+      (document) =>
+        document.id !== approved.id &&
+        document.documentType === approved.documentType &&
+        document.filePath !== null &&
+        document.createdAt.getTime() <= approved.createdAt.getTime(),
+    );
+
+    for (const document of replaced) {
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        await this.documentVault.delete(document.filePath!);
+        // eslint-disable-next-line no-await-in-loop
+        await this.repository.update({ ...document, filePath: null, encryptedDataKey: null, updatedAt: this.clock.now() });
+        this.logger.info('Replaced KYC document file deleted', { documentId: document.id, replacedBy: approved.id });
+      } catch (error) {
+        this.logger.error('Failed to delete replaced KYC document file', {
+          documentId: document.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  /** Screens the holder of a newly approved identity document, preferring what was read off it to what they typed. */
+  private async screenApprovedDocument(document: KYCDocument): Promise<void> {
+    if (!this.screeningService || !IDENTITY_DOCUMENT_TYPES.includes(document.documentType)) {
+      return;
+    }
+    const user = await this.userRepository.findById(document.userId);
+    if (!user) {
+      return;
+    }
+    await this.screeningService.screenCustomer({
+      userId: user.id,
+      trigger: 'kyc_approval',
+      subject: {
+        name: document.extractedData?.fullName || `${user.firstName} ${user.lastName}`,
+        dateOfBirth: document.extractedData?.dateOfBirth ?? user.dateOfBirth ?? null,
+      },
+    });
+  }
+
+  /** Sends the warning for the threshold the document has just passed, unless it has already gone out. */
+  private async warnOfExpiry(document: KYCDocument, now: Date): Promise<KYCDocument | null> {
+    const daysLeft = daysUntilExpiry(document, now)!;
+    const threshold = Math.min(...KYC_EXPIRY_WARNING_DAYS.filter((days) => days >= daysLeft));
+    if (document.expiryWarningDays !== null && document.expiryWarningDays !== undefined && document.expiryWarningDays <= threshold) {
+      return null;
+    }
+
+    const saved = await this.repository.update({ ...document, expiryWarningDays: threshold, updatedAt: now });
+    const label = DOCUMENT_LABELS[document.documentType];
+    await this.notifyExpiry(document, {
+      title: `Your ${label} expires soon`,
+      body: `Your ${label} expires on ${formatDay(document.expiresAt!)}. Upload a new one before then to keep your current limits.`,
+      data: {
+        type: 'kyc_document_expiring',
+        documentId: document.id,
+        documentType: document.documentType,
+        expiresAt: document.expiresAt!.toISOString(),
+        daysLeft,
+      },
+    });
+    this.logger.info('KYC document expiry warning sent', { documentId: document.id, daysLeft });
+    return saved;
+  }
+
+  private async expire(document: KYCDocument, now: Date): Promise<KYCDocument> {
+    const expiryDay = formatDay(document.expiresAt!);
+    const saved = await this.repository.update({
+      ...document,
+      status: 'expired',
+      verificationNotes: `Expired on ${expiryDay}`,
+      updatedAt: now,
+    });
+
+    let downgraded = false;
+    const user = await this.userRepository.findById(document.userId);
+    if (user?.kycStatus === 'approved' && IDENTITY_DOCUMENT_TYPES.includes(document.documentType)) {
+      const documents = await this.repository.listByUser(document.userId);
+      const stillVerified = documents.some(
+        (candidate) =>
+          candidate.id !== document.id &&
+          IDENTITY_DOCUMENT_TYPES.includes(candidate.documentType) &&
+          candidate.status === 'approved' &&
+          kycExpiryState(candidate, now) !== 'expired',
+      );
+      if (!stillVerified) {
+        await this.userRepository.update(user.id, { kycStatus: 'pending', kycApprovedAt: null, updatedAt: now });
+        downgraded = true;
+      }
+    }
+
+    const label = DOCUMENT_LABELS[document.documentType];
+    await this.notifyExpiry(document, {
+      title: `Your ${label} has expired`,
+      body: downgraded
+        ? `Your ${label} expired on ${expiryDay}, so your limits have been reduced. Upload a new one to restore them.`
+        : `Your ${label} expired on ${expiryDay}. Upload a new one to keep your verification up to date.`,
+      data: { type: 'kyc_document_expired', documentId: document.id, documentType: document.documentType, limitsReduced: downgraded },
+    });
+    this.logger.warn('KYC document expired', { documentId: document.id, userId: document.userId, downgraded });
+    return saved;
+  }
+
+  /** A notification that fails is logged rather than stopping the expiry sweep for every other document. */
+  private async notifyExpiry(
+    document: KYCDocument,
+    notification: { title: string; body: string; data: Record<string, unknown> },
+  ): Promise<void> {
+    try {
+      await this.notificationService.notifyUser(document.userId, notification);
+    } catch (error) {
+      this.logger.warn('Failed to send KYC expiry notification', {
+        documentId: document.id,
+        type: notification.data.type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /** A newly approved identity document lifts a user whose verification lapsed with an expired one back to `approved`. */
+  private async restoreAfterReverification(document: KYCDocument): Promise<void> {
+    if (!IDENTITY_DOCUMENT_TYPES.includes(document.documentType) || kycExpiryState(document, this.clock.now()) === 'expired') {
+      return;
+    }
+    const user = await this.userRepository.findById(document.userId);
+    if (user?.kycStatus !== 'pending') {
+      return;
+    }
+    const documents = await this.repository.listByUser(document.userId);
+    const lapsed = documents.some((candidate) => candidate.status === 'expired' && IDENTITY_DOCUMENT_TYPES.includes(candidate.documentType));
+    if (!lapsed) {
+      return;
+    }
+
+    const now = this.clock.now();
+    await this.userRepository.update(user.id, { kycStatus: 'approved', kycApprovedAt: now, updatedAt: now });
+    this.logger.info('KYC status restored after re-verification', { userId: user.id, documentId: document.id });
+  }
+
+  private async openReviewCase(attempt: KYCUploadAttempt, retryAt: Date): Promise<void> {
+    const now = this.clock.now();
+    const open = await this.reviewCaseRepository.findOpen(attempt.userId, attempt.documentType);
+    const reviewCase = open
+      ? await this.reviewCaseRepository.update({ ...open, retryAt, updatedAt: now })
+      : await this.reviewCaseRepository.create(
+          createKYCReviewCase({
+            id: randomUUID(),
+            userId: attempt.userId,
+            documentType: attempt.documentType,
+            reason: 'upload_attempts_exhausted',
+            retryAt,
+            now,
+          }),
+        );
+
+    await this.notificationService.notifyUser(attempt.userId, {
+      title: 'KYC upload limit reached',
+      body: `You have used all ${MAX_UPLOAD_ATTEMPTS_PER_TYPE} uploads for your ${DOCUMENT_LABELS[attempt.documentType]}. Our team will review your verification, and you can upload again after ${retryAt.toUTCString()}.`,
+      data: { type: 'kyc_upload_blocked', documentType: attempt.documentType, caseId: reviewCase.id, retryAt: retryAt.toISOString() },
+    });
+    this.logger.warn('KYC upload attempts exhausted', {
+      userId: attempt.userId,
+      documentType: attempt.documentType,
+      caseId: reviewCase.id,
+    });
+  }
+
   private async notifyStatusChange(document: KYCDocument): Promise<void> {
     if (document.status === 'approved') {
       await this.notificationService.notifyUser(document.userId, {
@@ -129,3 +632,16 @@ export class KYCService {
     return document;
   }
 }
+
+/** Keeps `expiresAt` on the expiry date read off the document; a new date re-arms the warnings. */
+function withExpiryFromExtractedData(document: KYCDocument): KYCDocument {
+  const expiryDate = document.extractedData?.expiryDate;
+  if (!expiryDate || document.expiresAt?.getTime() === expiryDate.getTime()) {
+    return document;
+  }
+  return { ...document, expiresAt: expiryDate, expiryWarningDays: null };
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0]!;
+}
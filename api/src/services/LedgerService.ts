@@ -0,0 +1,93 @@
+/**
+ * LedgerService posts balanced journal entries to the append-only ledger and answers balance
+ * questions from it: what an account held at any point in time, which entries moved it, and
+ * whether a wallet's stored balance still matches the money that moved through it.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { UUID } from '../models/base';
+import {
+  LedgerEntry,
+  LedgerLine,
+  accountBalance,
+  createLedgerEntry,
+  walletAccountId,
+} from '../models/LedgerEntry';
+import { Wallet } from '../models/Wallet';
+import { Clock, LedgerRepository, Logger, NullLogger, SystemClock, UnitOfWorkScope } from './types';
+
+export interface PostLedgerEntryInput {
+  description: string;
+  lines: LedgerLine[];
+  transactionId?: UUID | null;
+}
+
+export interface WalletLedgerCheck {
+  walletId: UUID;
+  userId: UUID;
+  walletType: Wallet['walletType'];
+  walletBalance: number;
+  ledgerBalance: number;
+  /** walletBalance - ledgerBalance; zero when the wallet is in balance with the ledger. */
+  difference: number;
+}
+
+export class LedgerService {
+  private readonly ledgerRepository: LedgerRepository;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: { ledgerRepository: LedgerRepository; clock?: Clock; logger?: Logger }) {
+    this.ledgerRepository = options.ledgerRepository;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  /** The same service posting into an open unit of work. */
+  forScope(scope: UnitOfWorkScope): LedgerService {
+    return new LedgerService({ ledgerRepository: scope.ledgerRepository, clock: this.clock, logger: this.logger });
+  }
+
+  async post(input: PostLedgerEntryInput): Promise<LedgerEntry> {
+    const entry = createLedgerEntry({
+      id: randomUUID(),
+      transactionId: input.transactionId ?? null,
+      description: input.description,
+      lines: input.lines,
+      postedAt: this.clock.now(),
+    });
+
+    return this.ledgerRepository.append(entry);
+  }
+
+  async getAccountBalance(accountId: string, asOf?: Date): Promise<number> {
+    const totals = await this.ledgerRepository.totalsForAccount(accountId, asOf);
+    return accountBalance(accountId, totals);
+  }
+
+  async getWalletBalance(walletId: UUID, asOf?: Date): Promise<number> {
+    return this.getAccountBalance(walletAccountId(walletId), asOf);
+  }
+
+  async listWalletEntries(walletId: UUID, options: { asOf?: Date; limit: number }): Promise<LedgerEntry[]> {
+    return this.ledgerRepository.listByAccount(walletAccountId(walletId), options);
+  }
+
+  async checkWallet(wallet: Wallet): Promise<WalletLedgerCheck> {
+    const ledgerBalance = await this.getWalletBalance(wallet.id);
+    const check: WalletLedgerCheck = {
+      walletId: wallet.id,
+      userId: wallet.userId,
+      walletType: wallet.walletType,
+      walletBalance: wallet.balance,
+      ledgerBalance,
+      difference: wallet.balance - ledgerBalance,
+    };
+
+    if (check.difference !== 0) {
+      this.logger.warn('Wallet balance does not match ledger', { ...check });
+    }
+    return check;
+  }
+}
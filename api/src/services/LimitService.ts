@@ -0,0 +1,234 @@
+/**
+ * LimitService enforces transaction limits for the user's KYC tier and reports how much headroom
+ * is left, so the app can warn before a payment is refused.
+ */
+
+import { UUID, ValidationError } from '../models/base';
+import { TransactionType } from '../models/Transaction';
+import {
+  BALANCE_CAPPED_TRANSACTION_TYPES,
+  DEFAULT_LIMIT_TIERS,
+  KYC_LIMIT_TIERS,
+  LimitTier,
+  LimitTierName,
+  LimitedTransactionType,
+  OUTGOING_TRANSACTION_TYPES,
+  TransactionTypeLimit,
+  findTypeLimit,
+} from '../models/TransactionLimits';
+import { KYCStatus, User } from '../models/User';
+import { Clock, Logger, NullLogger, SystemClock, TransactionRepository, UserRepository, WalletRepository } from './types';
+
+/** Days and months are counted in Nairobi time (EAT, UTC+3 all year), whatever the server's zone. */
+const NAIROBI_UTC_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+export interface LimitUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+export interface TransactionTypeHeadroom {
+  transactionType: LimitedTransactionType;
+  perTransaction: number;
+  daily: LimitUsage;
+  monthly: LimitUsage;
+  /** The largest single transaction of this type allowed right now. */
+  availableNow: number;
+}
+
+export interface UserLimits {
+  tier: LimitTierName;
+  kycStatus: KYCStatus;
+  balance: LimitUsage;
+  transactionTypes: TransactionTypeHeadroom[];
+  /** Set while outgoing transactions are frozen, e.g. during a PIN reset. */
+  transfersFrozenUntil: Date | null;
+}
+
+export class LimitService {
+  private readonly userRepository: UserRepository;
+  private readonly walletRepository: WalletRepository;
+  private readonly transactionRepository: TransactionRepository;
+  private readonly tiers: Record<LimitTierName, LimitTier>;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    userRepository: UserRepository;
+    walletRepository: WalletRepository;
+    transactionRepository: TransactionRepository;
+    tiers?: Record<LimitTierName, LimitTier>;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.userRepository = options.userRepository;
+    this.walletRepository = options.walletRepository;
+    this.transactionRepository = options.transactionRepository;
+    this.tiers = options.tiers ?? DEFAULT_LIMIT_TIERS;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  async getLimits(userId: UUID): Promise<UserLimits> {
+    const { tier, user } = await this.resolveTier(userId);
+    const now = this.clock.now();
+    const [today, thisMonth, balance] = await Promise.all([
+      this.transactionRepository.sumUserTransactionsByType(userId, startOfDay(now)),
+      this.transactionRepository.sumUserTransactionsByType(userId, startOfMonth(now)),
+      this.totalBalance(userId),
+    ]);
+
+    return {
+      tier: tier.name,
+      kycStatus: user.kycStatus,
+      balance: usage(tier.balanceCap, balance),
+      transactionTypes: tier.limits.map((typeLimit) => {
+        const daily = usage(typeLimit.daily, today[typeLimit.transactionType] ?? 0);
+        const monthly = usage(typeLimit.monthly, thisMonth[typeLimit.transactionType] ?? 0);
+        return {
+          transactionType: typeLimit.transactionType,
+          perTransaction: typeLimit.perTransaction,
+          daily,
+          monthly,
+          availableNow: Math.min(typeLimit.perTransaction, daily.remaining, monthly.remaining),
+        };
+      }),
+      transfersFrozenUntil: frozenUntil(user, now),
+    };
+  }
+
+  /**
+   * Throws a ValidationError carrying the exceeded limit and the headroom left, or TRANSFERS_FROZEN
+   * and ACCOUNT_ON_HOLD for outgoing transactions while the user's transfers are frozen or held for
+   * compliance review. Transaction types the tier does not limit and that neither add to the balance
+   * nor take from it pass without any lookups.
+   */
+  async assertWithinLimits(input: { userId: UUID; transactionType: TransactionType; amount: number }): Promise<void> {
+    const capped = BALANCE_CAPPED_TRANSACTION_TYPES.includes(input.transactionType);
+    const outgoing = OUTGOING_TRANSACTION_TYPES.includes(input.transactionType);
+    const limited = Object.values(this.tiers).some((tier) => findTypeLimit(tier, input.transactionType));
+    if (!capped && !outgoing && !limited) {
+      return;
+    }
+
+    const { tier, user } = await this.resolveTier(input.userId);
+    if (outgoing && user.complianceHolds?.length) {
+      this.logger.warn('Transaction refused while the account is on hold', {
+        userId: input.userId,
+        transactionType: input.transactionType,
+        holds: user.complianceHolds,
+      });
+      // The reason stays with the back office; a sanctions hit or AML alert must not be disclosed to the user
+      throw new ValidationError('Account is on hold pending review', 'ACCOUNT_ON_HOLD');
+    }
+    const frozen = outgoing ? frozenUntil(user, this.clock.now()) : null;
+    if (frozen) {
+      this.logger.warn('Transaction refused while transfers are frozen', {
+        userId: input.userId,
+        transactionType: input.transactionType,
+        frozenUntil: frozen.toISOString(),
+      });
+      throw new ValidationError('Outgoing transfers are frozen', 'TRANSFERS_FROZEN', {
+        frozen_until: frozen.toISOString(),
+      });
+    }
+
+    const typeLimit = findTypeLimit(tier, input.transactionType);
+    if (typeLimit) {
+      await this.assertWithinTypeLimit(input.userId, tier, typeLimit, input.amount);
+    }
+    if (capped) {
+      await this.assertWithinBalanceCap(input.userId, tier, input.transactionType, input.amount);
+    }
+  }
+
+  private async assertWithinTypeLimit(userId: UUID, tier: LimitTier, typeLimit: TransactionTypeLimit, amount: number): Promise<void> {
+    if (amount > typeLimit.perTransaction) {
+      this.logRefusal(userId, tier, typeLimit.transactionType, 'per_transaction', amount);
+      throw new ValidationError('Single transaction limit exceeded', 'SINGLE_TRANSACTION_LIMIT_EXCEEDED', {
+        tier: tier.name,
+        transaction_limit: typeLimit.perTransaction,
+      });
+    }
+
+    const now = this.clock.now();
+    const today = await this.transactionRepository.sumUserTransactionsByType(userId, startOfDay(now));
+    const daily = usage(typeLimit.daily, today[typeLimit.transactionType] ?? 0);
+    if (amount > daily.remaining) {
+      this.logRefusal(userId, tier, typeLimit.transactionType, 'daily', amount);
+      throw new ValidationError('Daily transaction limit exceeded', 'DAILY_LIMIT_EXCEEDED', {
+        tier: tier.name,
+        daily_limit: daily.limit,
+        used_today: daily.used,
+        available_today: daily.remaining,
+      });
+    }
+
+    const thisMonth = await this.transactionRepository.sumUserTransactionsByType(userId, startOfMonth(now));
+    const monthly = usage(typeLimit.monthly, thisMonth[typeLimit.transactionType] ?? 0);
+    if (amount > monthly.remaining) {
+      this.logRefusal(userId, tier, typeLimit.transactionType, 'monthly', amount);
+      throw new ValidationError('Monthly transaction limit exceeded', 'MONTHLY_LIMIT_EXCEEDED', {
+        tier: tier.name,
+        monthly_limit: monthly.limit,
+        used_this_month: monthly.used,
+        available_this_month: monthly.remaining,
+      });
+    }
+  }
+
+  private async assertWithinBalanceCap(userId: UUID, tier: LimitTier, transactionType: TransactionType, amount: number): Promise<void> {
+    const balance = usage(tier.balanceCap, await this.totalBalance(userId));
+    if (amount <= balance.remaining) {
+      return;
+    }
+
+    this.logRefusal(userId, tier, transactionType, 'balance_cap', amount);
+    // The sender of an incoming transfer must not learn the recipient's balance
+    if (transactionType === 'transfer_in') {
+      throw new ValidationError('Recipient cannot receive this amount', 'RECIPIENT_LIMIT_EXCEEDED');
+    }
+    throw new ValidationError('Wallet balance limit exceeded', 'BALANCE_LIMIT_EXCEEDED', {
+      tier: tier.name,
+      balance_limit: balance.limit,
+      balance: balance.used,
+      available_to_receive: balance.remaining,
+    });
+  }
+
+  private async resolveTier(userId: UUID): Promise<{ tier: LimitTier; user: User }> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return { tier: this.tiers[KYC_LIMIT_TIERS[user.kycStatus]], user };
+  }
+
+  private async totalBalance(userId: UUID): Promise<number> {
+    const wallets = await this.walletRepository.listByUser(userId);
+    return wallets.reduce((total, wallet) => total + wallet.balance, 0);
+  }
+
+  private logRefusal(userId: UUID, tier: LimitTier, transactionType: TransactionType, limit: string, amount: number): void {
+    this.logger.warn('Transaction refused by limit', { userId, tier: tier.name, transactionType, limit, amount });
+  }
+}
+
+function frozenUntil(user: User, now: Date): Date | null {
+  return user.transfersFrozenUntil && user.transfersFrozenUntil.getTime() > now.getTime() ? user.transfersFrozenUntil : null;
+}
+
+function usage(limit: number, used: number): LimitUsage {
+  return { limit, used, remaining: Math.max(0, limit - used) };
+}
+
+function startOfDay(date: Date): Date {
+  const nairobi = new Date(date.getTime() + NAIROBI_UTC_OFFSET_MS);
+  return new Date(Date.UTC(nairobi.getUTCFullYear(), nairobi.getUTCMonth(), nairobi.getUTCDate()) - NAIROBI_UTC_OFFSET_MS);
+}
+
+function startOfMonth(date: Date): Date {
+  const nairobi = new Date(date.getTime() + NAIROBI_UTC_OFFSET_MS);
+  return new Date(Date.UTC(nairobi.getUTCFullYear(), nairobi.getUTCMonth(), 1) - NAIROBI_UTC_OFFSET_MS);
+}
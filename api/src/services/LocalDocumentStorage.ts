@@ -0,0 +1,46 @@
+/**
+ * DocumentStorage on the local filesystem, for development and self-hosted setups without Supabase
+ * Storage. Files land under the configured root directory; paths cannot escape it.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { DocumentStorage } from './types';
+
+export class LocalDocumentStorage implements DocumentStorage {
+  private readonly root: string;
+
+  constructor(options: { root: string }) {
+    this.root = path.resolve(options.root);
+  }
+
+  async put(filePath: string, content: Buffer): Promise<void> {
+    const target = this.resolve(filePath);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, content, { mode: 0o600 });
+  }
+
+  async get(filePath: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(filePath));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(filePath: string): Promise<void> {
+    await rm(this.resolve(filePath), { force: true });
+  }
+
+  private resolve(filePath: string): string {
+    const target = path.resolve(this.root, filePath);
+    if (!target.startsWith(`${this.root}${path.sep}`)) {
+      throw new Error('Document path escapes the storage root');
+    }
+    return target;
+  }
+}
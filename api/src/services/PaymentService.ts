@@ -1,23 +1,32 @@
 /**
- * PaymentService orchestrates merchant payments, Paystack integration, and round-up savings.
+ * PaymentService orchestrates merchant payments, Paystack integration, and round-up savings. It also
+ * decides when a payment needs step-up verification on top of the PIN, and holds payouts whose
+ * recipient matches the sanctions and PEP watchlist until an admin rules on them.
  */
 
 import { randomUUID } from 'node:crypto';
 
-import { UUID } from '../models/base';
+import { UUID, ValidationError } from '../models/base';
+import { merchantRecipientKey, userRecipientKey } from '../models/PaymentIntent';
 import { RoundUpRule } from '../models/RoundUpRule';
-import { Transaction } from '../models/Transaction';
+import { ScreeningCase, ScreeningMatch } from '../models/ScreeningCase';
+import { DEFAULT_STEP_UP_POLICY, StepUpMethod, StepUpPolicy, StepUpReason } from '../models/StepUpChallenge';
+import { Transaction, TransactionType } from '../models/Transaction';
 import { Wallet } from '../models/Wallet';
 import {
   Clock,
   Logger,
   NullLogger,
   PaystackClient,
+  RetryJobType,
   RetryQueue,
   RoundUpRuleRepository,
   SystemClock,
   TransactionRepository,
+  UnitOfWork,
 } from './types';
+import { ScreeningService } from './ScreeningService';
+import { StepUpService } from './StepUpService';
 import { TransactionService } from './TransactionService';
 import { WalletService } from './WalletService';
 import { calculateRoundUp as calculateRoundUpFromService } from './RoundUpService';
@@ -26,6 +35,7 @@ export interface MerchantPaymentRequest {
   paymentId: UUID;
   userId: UUID;
   amount: number; // cents
+  fee?: number; // cents, from the fee schedule
   merchantInfo: {
     name: string;
     tillNumber?: string | null;
@@ -45,7 +55,8 @@ export interface MerchantPaymentResult {
   status: 'success' | 'pending' | 'failed';
   paymentTransaction: Transaction;
   roundUpTransaction?: Transaction | null;
-  totalCharged: number;
+  totalCharged: number; // amount + fee + roundUp
+  fee: number;
   roundUpAmount: number;
   scheduledRetry?: { runAt: Date; retryCount: number };
   checkoutSession?: {
@@ -73,7 +84,8 @@ export interface PeerTransferRequest {
 }
 
 export interface PeerTransferResult {
-  status: 'success' | 'pending' | 'failed';
+  /** on_hold: the recipient matched the watchlist and the payout waits for an admin, unsent. */
+  status: 'success' | 'pending' | 'failed' | 'on_hold';
   transferTransaction: Transaction;
   roundUpTransaction?: Transaction | null;
   totalCharged: number;
@@ -83,6 +95,7 @@ export interface PeerTransferResult {
   estimatedCompletion?: Date;
   scheduledRetry?: { runAt: Date; retryCount: number };
   recipientCreated?: boolean;
+  screeningCaseId?: UUID;
 }
 
 export interface InternalTransferRequest {
@@ -90,6 +103,7 @@ export interface InternalTransferRequest {
   userId: UUID; // sender
   recipientUserId: UUID; // recipient (Zanari user)
   amount: number; // cents
+  fee?: number; // cents, from the fee schedule
   description?: string | null;
 }
 
@@ -98,9 +112,9 @@ export interface InternalTransferResult {
   senderTransaction: Transaction; // transfer_out
   recipientTransaction: Transaction; // transfer_in
   roundUpTransaction?: Transaction | null;
-  totalCharged: number; // amount + roundUp (no fee for wallet transfers)
+  totalCharged: number; // amount + fee + roundUp
   roundUpAmount: number;
-  fee: 0; // always 0 for internal wallet transfers
+  fee: number;
 }
 
 export interface DepositToRecipientRequest {
@@ -134,7 +148,22 @@ export interface DepositToRecipientResult {
   roundUpAmount: number;
 }
 
+export interface StepUpCheck {
+  userId: UUID;
+  deviceSessionId?: UUID | null;
+  transactionType: TransactionType;
+  amount: number; // cents
+  /** From merchantRecipientKey or userRecipientKey in models/PaymentIntent. */
+  recipientKey: string;
+  /** Challenge the user verified for this payment, when retrying it. */
+  challengeId?: UUID | null;
+}
+
 const RETRY_BACKOFF_MS = [1000, 2000, 4000];
+// Give customers time to finish checkout before asking Paystack what happened to a top-up
+const DEPOSIT_RECHECK_DELAY_MS = 15 * 60 * 1000;
+// A recipient paid within this window is not new
+const KNOWN_RECIPIENT_LOOKBACK_MS = 180 * 24 * 60 * 60 * 1000;
 
 export class PaymentService {
   private readonly transactionService: TransactionService;
@@ -143,6 +172,10 @@ export class PaymentService {
   private readonly paystackClient: PaystackClient;
   private readonly roundUpRuleRepository: RoundUpRuleRepository;
   private readonly retryQueue: RetryQueue;
+  private readonly unitOfWork: UnitOfWork;
+  private readonly stepUpService: StepUpService | null;
+  private readonly stepUpPolicy: StepUpPolicy;
+  private readonly screeningService: ScreeningService | null;
   private readonly clock: Clock;
   private readonly logger: Logger;
 
@@ -153,6 +186,12 @@ export class PaymentService {
     paystackClient: PaystackClient;
     roundUpRuleRepository: RoundUpRuleRepository;
     retryQueue: RetryQueue;
+    unitOfWork: UnitOfWork;
+    /** Without it no payment asks for step-up. */
+    stepUpService?: StepUpService;
+    stepUpPolicy?: StepUpPolicy;
+    /** Without it payout recipients are not screened against the watchlist. */
+    screeningService?: ScreeningService;
     clock?: Clock;
     logger?: Logger;
   }) {
@@ -162,18 +201,70 @@ export class PaymentService {
     this.paystackClient = options.paystackClient;
     this.roundUpRuleRepository = options.roundUpRuleRepository;
     this.retryQueue = options.retryQueue;
+    this.unitOfWork = options.unitOfWork;
+    this.stepUpService = options.stepUpService ?? null;
+    this.stepUpPolicy = options.stepUpPolicy ?? DEFAULT_STEP_UP_POLICY;
+    this.screeningService = options.screeningService ?? null;
     this.clock = options.clock ?? new SystemClock();
     this.logger = options.logger ?? NullLogger;
   }
 
+  /**
+   * Lets a payment through when the policy asks for nothing beyond the PIN, or when it comes with a
+   * challenge the user verified for this exact payment. Otherwise raises a challenge and throws
+   * STEP_UP_REQUIRED saying how it can be verified. A new recipient always needs an OTP; an amount
+   * above the threshold alone can also be confirmed with biometrics.
+   */
+  async authorizeStepUp(check: StepUpCheck): Promise<void> {
+    if (!this.stepUpService) {
+      return;
+    }
+
+    const reasons = await this.stepUpReasons(check);
+    if (reasons.length === 0) {
+      return;
+    }
+
+    if (check.challengeId) {
+      await this.stepUpService.consume({
+        userId: check.userId,
+        challengeId: check.challengeId,
+        transactionType: check.transactionType,
+        amount: check.amount,
+        recipientKey: check.recipientKey,
+      });
+      return;
+    }
+
+    const methods: StepUpMethod[] = reasons.includes('new_recipient') ? ['otp'] : ['otp', 'biometric'];
+    const challenge = await this.stepUpService.issue({
+      userId: check.userId,
+      deviceSessionId: check.deviceSessionId ?? null,
+      transactionType: check.transactionType,
+      amount: check.amount,
+      recipientKey: check.recipientKey,
+      reasons,
+      methods,
+    });
+
+    throw new ValidationError('Additional verification required', 'STEP_UP_REQUIRED', {
+      challenge_id: challenge.id,
+      reasons,
+      methods,
+      expires_at: challenge.expiresAt.toISOString(),
+    });
+  }
+
   async payMerchant(request: MerchantPaymentRequest): Promise<MerchantPaymentResult> {
     const currency = request.currency ?? 'KES';
     const roundUpRule = await this.roundUpRuleRepository.findByUserId(request.userId);
     let { roundUpAmount, incrementUsed } = this.calculateRoundUp(request.amount, roundUpRule);
 
+    const fee = request.fee ?? 0;
+
     const mainWallet = await this.requireMainWallet(request.userId);
-    if (mainWallet.availableBalance < request.amount + roundUpAmount) {
-      if (mainWallet.availableBalance >= request.amount) {
+    if (mainWallet.availableBalance < request.amount + fee + roundUpAmount) {
+      if (mainWallet.availableBalance >= request.amount + fee) {
         this.logger.warn('Skipping round-up due to insufficient funds', {
           userId: request.userId,
           requestedRoundUp: roundUpAmount,
@@ -202,119 +293,118 @@ export class PaymentService {
       channels: request.channels,
     });
 
-    await this.walletService.debit({ userId: request.userId, walletType: 'main', amount: request.amount });
-
-    let paymentRecord: Transaction | null = null;
-    let roundUpTransaction: Transaction | null = null;
-
+    // The hold, round-up and both transaction rows commit together, so a failure part-way
+    // leaves the wallets untouched and there is nothing to compensate. The held amount leaves the
+    // wallet when Paystack confirms the charge.
+    let recorded: { paymentRecord: Transaction; roundUpTransaction: Transaction | null };
     try {
-      if (roundUpAmount > 0) {
-        await this.walletService.transferRoundUp(request.userId, roundUpAmount);
-      }
-
-      const paymentTransaction = await this.transactionService.create({
-        id: request.paymentId,
-        userId: request.userId,
-        type: 'payment',
-        amount: request.amount,
-        category: 'groceries',
-        autoCategorized: false,
-        metadata: {
-          description: request.description ?? `Payment to ${request.merchantInfo.name}`,
-          merchantInfo: {
-            name: request.merchantInfo.name,
-            tillNumber: request.merchantInfo.tillNumber ?? null,
-            paybillNumber: request.merchantInfo.paybillNumber ?? null,
-            accountNumber: request.merchantInfo.accountNumber ?? null,
-          },
-        } as Partial<Transaction>,
-      });
+      recorded = await this.unitOfWork.run(async (scope) => {
+        const walletService = this.walletService.forScope(scope);
+        const transactionService = this.transactionService.forScope(scope);
 
-      paymentRecord = paymentTransaction;
+        await walletService.placeHold({
+          userId: request.userId,
+          walletType: 'main',
+          amount: request.amount,
+          fee,
+          transactionId: request.paymentId,
+          description: 'Merchant payment',
+        });
+        if (roundUpAmount > 0) {
+          await walletService.transferRoundUp(request.userId, roundUpAmount, request.paymentId);
+        }
 
-      if (roundUpAmount > 0) {
-        roundUpTransaction = await this.transactionService.create({
-          id: randomUUID(),
+        const paymentTransaction = await transactionService.create({
+          id: request.paymentId,
           userId: request.userId,
-          type: 'round_up',
-          amount: roundUpAmount,
-          category: 'savings',
-          autoCategorized: true,
+          type: 'payment',
+          amount: request.amount,
+          category: 'groceries',
+          autoCategorized: false,
           metadata: {
-            description: `Round-up savings for ${request.merchantInfo.name}`,
-            roundUpDetails: {
-              originalAmount: request.amount,
-              roundUpAmount,
-              roundUpRule: incrementUsed,
-              relatedTransactionId: paymentTransaction.id,
+            description: request.description ?? `Payment to ${request.merchantInfo.name}`,
+            fee,
+            merchantInfo: {
+              name: request.merchantInfo.name,
+              tillNumber: request.merchantInfo.tillNumber ?? null,
+              paybillNumber: request.merchantInfo.paybillNumber ?? null,
+              accountNumber: request.merchantInfo.accountNumber ?? null,
             },
           } as Partial<Transaction>,
         });
 
-        paymentRecord = await this.transactionRepository.update({
+        let roundUp: Transaction | null = null;
+        if (roundUpAmount > 0) {
+          roundUp = await transactionService.create({
+            id: randomUUID(),
+            userId: request.userId,
+            type: 'round_up',
+            amount: roundUpAmount,
+            category: 'savings',
+            autoCategorized: true,
+            metadata: {
+              description: `Round-up savings for ${request.merchantInfo.name}`,
+              roundUpDetails: {
+                originalAmount: request.amount,
+                roundUpAmount,
+                roundUpRule: incrementUsed,
+                relatedTransactionId: paymentTransaction.id,
+              },
+            } as Partial<Transaction>,
+          });
+        }
+
+        const record = await scope.transactionRepository.update({
           ...paymentTransaction,
-          roundUpDetails: {
-            originalAmount: request.amount,
-            roundUpAmount,
-            roundUpRule: incrementUsed,
-            relatedTransactionId: roundUpTransaction.id,
-          },
+          roundUpDetails: roundUp
+            ? {
+                originalAmount: request.amount,
+                roundUpAmount,
+                roundUpRule: incrementUsed,
+                relatedTransactionId: roundUp.id,
+              }
+            : paymentTransaction.roundUpDetails,
+          externalReference: paystackSession.reference,
+          externalTransactionId: paystackSession.accessCode,
+          paymentMethod: this.resolvePaymentMethod(request.channels),
           updatedAt: this.clock.now(),
         });
-      }
 
-      paymentRecord = await this.transactionRepository.update({
-        ...paymentRecord,
-        externalReference: paystackSession.reference,
-        externalTransactionId: paystackSession.accessCode,
-        paymentMethod: this.resolvePaymentMethod(request.channels),
-        updatedAt: this.clock.now(),
+        return { paymentRecord: record, roundUpTransaction: roundUp };
       });
-
-      return {
-        status: 'pending',
-        paymentTransaction: paymentRecord,
-        roundUpTransaction,
-        totalCharged: request.amount + roundUpAmount,
-        roundUpAmount,
-        checkoutSession: {
-          authorizationUrl: paystackSession.authorizationUrl,
-          accessCode: paystackSession.accessCode,
-          reference: paystackSession.reference,
-          status: paystackSession.status,
-          expiresAt: paystackSession.expiresAt,
-        },
-        scheduledRetry: undefined,
-      };
     } catch (error) {
-      await this.walletService.credit({ userId: request.userId, walletType: 'main', amount: request.amount });
-      if (roundUpAmount > 0) {
-        await this.walletService.debit({ userId: request.userId, walletType: 'savings', amount: roundUpAmount });
-        await this.walletService.credit({ userId: request.userId, walletType: 'main', amount: roundUpAmount });
-      }
-
-      if (paymentRecord) {
-        const failedRecord = await this.transactionService.markStatus(paymentRecord, 'failed');
-        const scheduledRetry = await this.scheduleRetry(failedRecord);
-        return {
-          status: 'failed',
-          paymentTransaction: failedRecord,
-          roundUpTransaction: null,
-          totalCharged: request.amount,
-          roundUpAmount: 0,
-          scheduledRetry: scheduledRetry ?? undefined,
-          checkoutSession: null,
-        };
-      }
-
+      this.logger.warn('Merchant payment not recorded; wallet left unchanged', {
+        paymentId: request.paymentId,
+        userId: request.userId,
+        reference: paystackSession.reference,
+        error: error instanceof Error ? error.message : error,
+      });
       throw error;
     }
+
+    return {
+      status: 'pending',
+      paymentTransaction: recorded.paymentRecord,
+      roundUpTransaction: recorded.roundUpTransaction,
+      totalCharged: request.amount + fee + roundUpAmount,
+      fee,
+      roundUpAmount,
+      checkoutSession: {
+        authorizationUrl: paystackSession.authorizationUrl,
+        accessCode: paystackSession.accessCode,
+        reference: paystackSession.reference,
+        status: paystackSession.status,
+        expiresAt: paystackSession.expiresAt,
+      },
+      scheduledRetry: undefined,
+    };
   }
 
   async initializeDeposit(request: {
     depositId: UUID;
     userId: UUID;
-    amount: number; // cents
+    amount: number; // cents, credited to the wallet
+    fee?: number; // cents, charged on top of amount
     description?: string | null;
     customerEmail: string;
     customerPhone?: string | null;
@@ -333,12 +423,13 @@ export class PaymentService {
     } | null;
   }> {
     const currency = request.currency ?? 'KES';
+    const fee = request.fee ?? 0;
 
     // For deposits (top-ups), we DO NOT check wallet balance or perform any wallet debits here.
     // We only initialize a Paystack checkout session and record a pending 'deposit' transaction.
     const paystackSession = await this.paystackClient.initializeTransaction({
       email: request.customerEmail,
-      amount: request.amount,
+      amount: request.amount + fee,
       currency,
       reference: request.depositId,
       callbackUrl: request.callbackUrl ?? undefined,
@@ -362,6 +453,7 @@ export class PaymentService {
         autoCategorized: false,
         metadata: {
           description: request.description ?? 'Wallet top-up',
+          fee,
         } as Partial<Transaction>,
       });
 
@@ -373,6 +465,11 @@ export class PaymentService {
         updatedAt: this.clock.now(),
       });
 
+      const scheduledCheck = await this.scheduleRetry(depositRecord, DEPOSIT_RECHECK_DELAY_MS);
+      if (scheduledCheck) {
+        depositRecord = (await this.transactionRepository.findById(depositRecord.id)) ?? depositRecord;
+      }
+
       return {
         status: 'pending',
         depositTransaction: depositRecord,
@@ -445,6 +542,7 @@ export class PaymentService {
       autoCategorized: false,
       metadata: {
         description: request.description ?? 'Transfer to Zanari user',
+        fee: request.fee,
         // Store metadata in the transaction's description for now
         // We'll encode recipient info that can be retrieved later
       },
@@ -521,16 +619,30 @@ export class PaymentService {
       }
     }
 
+    if (this.screeningService) {
+      const matches = this.screeningService.match({ name: request.recipient.name ?? '' });
+      if (matches.length > 0) {
+        return this.holdForScreening(this.screeningService, request, matches);
+      }
+    }
+
     const recipientCode = await this.createPaystackRecipient(request);
 
-    await this.walletService.debit({ userId: request.userId, walletType: 'main', amount: request.amount });
+    // Held until Paystack confirms the transfer
+    await this.walletService.placeHold({
+      userId: request.userId,
+      walletType: 'main',
+      amount: request.amount,
+      transactionId: request.transferId,
+      description: 'Bank transfer',
+    });
 
     let transferRecord: Transaction | null = null;
     let roundUpTransaction: Transaction | null = null;
 
     try {
       if (roundUpAmount > 0) {
-        await this.walletService.transferRoundUp(request.userId, roundUpAmount);
+        await this.walletService.transferRoundUp(request.userId, roundUpAmount, request.transferId);
       }
 
       const transferTransaction = await this.transactionService.create({
@@ -609,10 +721,16 @@ export class PaymentService {
 
         scheduledRetryInfo = await this.scheduleRetry(transferRecord);
 
-        await this.walletService.credit({ userId: request.userId, walletType: 'main', amount: request.amount });
+        await this.walletService.releaseHold(request.transferId);
         if (roundUpAmount > 0) {
-          await this.walletService.debit({ userId: request.userId, walletType: 'savings', amount: roundUpAmount });
-          await this.walletService.credit({ userId: request.userId, walletType: 'main', amount: roundUpAmount });
+          await this.walletService.transfer({
+            userId: request.userId,
+            fromWalletType: 'savings',
+            toWalletType: 'main',
+            amount: roundUpAmount,
+            transactionId: request.transferId,
+            description: 'Round-up reversed',
+          });
         }
       }
 
@@ -629,10 +747,16 @@ export class PaymentService {
         recipientCreated: recipientCode.created,
       };
     } catch (error) {
-      await this.walletService.credit({ userId: request.userId, walletType: 'main', amount: request.amount });
+      await this.walletService.releaseHold(request.transferId);
       if (roundUpAmount > 0) {
-        await this.walletService.debit({ userId: request.userId, walletType: 'savings', amount: roundUpAmount });
-        await this.walletService.credit({ userId: request.userId, walletType: 'main', amount: roundUpAmount });
+        await this.walletService.transfer({
+          userId: request.userId,
+          fromWalletType: 'savings',
+          toWalletType: 'main',
+          amount: roundUpAmount,
+          transactionId: request.transferId,
+          description: 'Round-up reversed',
+        });
       }
 
       if (transferRecord) {
@@ -656,6 +780,104 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Sends a payout held for screening once its case is cleared. When its funds are no longer on
+   * hold they are already back in the wallet, so the transfer fails instead.
+   */
+  async releaseScreenedPayout(screeningCase: ScreeningCase): Promise<Transaction> {
+    let transaction = await this.requireScreenedPayout(screeningCase);
+    if (transaction.status !== 'pending' || !transaction.heldForScreening) {
+      return transaction;
+    }
+
+    const hold = await this.walletService.getHold(transaction.id);
+    if (hold?.status === 'held') {
+      try {
+        const recipientCode = await this.createPaystackRecipient({
+          transferId: transaction.id,
+          recipient: screeningCase.payoutRecipient!,
+        });
+        const paystackTransfer = await this.paystackClient.initiateTransfer({
+          amount: transaction.amount,
+          recipient: recipientCode.recipientCode,
+          reference: transaction.id,
+          reason: 'Peer transfer',
+          currency: 'KES',
+        });
+        transaction = await this.transactionRepository.update({
+          ...transaction,
+          externalReference: paystackTransfer.reference,
+          externalTransactionId: paystackTransfer.transferCode,
+          heldForScreening: false,
+          updatedAt: this.clock.now(),
+        });
+        if (paystackTransfer.status !== 'failed') {
+          this.logger.info('Screened payout released', { transactionId: transaction.id, caseId: screeningCase.id });
+          return transaction;
+        }
+      } catch (error) {
+        this.logger.error('Screened payout could not be sent', {
+          transactionId: transaction.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      await this.walletService.releaseHold(transaction.id);
+    } else {
+      this.logger.warn('Screened payout has no funds on hold', { transactionId: transaction.id, caseId: screeningCase.id });
+    }
+    return this.transactionService.markStatus({ ...transaction, heldForScreening: false }, 'failed');
+  }
+
+  /** Cancels a payout held for screening once the match is confirmed, returning the funds to the wallet. */
+  async cancelScreenedPayout(screeningCase: ScreeningCase): Promise<Transaction> {
+    const transaction = await this.requireScreenedPayout(screeningCase);
+    if (transaction.status !== 'pending' || !transaction.heldForScreening) {
+      return transaction;
+    }
+
+    await this.walletService.releaseHold(transaction.id);
+    this.logger.warn('Screened payout cancelled', { transactionId: transaction.id, caseId: screeningCase.id });
+    return this.transactionService.markStatus({ ...transaction, heldForScreening: false }, 'cancelled');
+  }
+
+  /**
+   * Sends a pending withdrawal, whose funds are already on hold, to an M-Pesa number through
+   * Paystack. Returns null when Paystack rejects the transfer or cannot be reached; the caller
+   * settles that one as failed. The webhook or the reconciler settles a transfer that was accepted.
+   */
+  async sendWithdrawal(transaction: Transaction, mpesaPhone: string): Promise<Transaction | null> {
+    try {
+      const recipientCode = await this.createPaystackRecipient({
+        transferId: transaction.id,
+        recipient: { phone: mpesaPhone },
+      });
+      const paystackTransfer = await this.paystackClient.initiateTransfer({
+        amount: transaction.amount,
+        recipient: recipientCode.recipientCode,
+        reference: transaction.id,
+        reason: transaction.description ?? 'Withdrawal',
+        currency: 'KES',
+      });
+      const sent = await this.transactionRepository.update({
+        ...transaction,
+        externalReference: paystackTransfer.reference,
+        externalTransactionId: paystackTransfer.transferCode,
+        updatedAt: this.clock.now(),
+      });
+      if (paystackTransfer.status !== 'failed') {
+        this.logger.info('Withdrawal sent', { transactionId: sent.id });
+        return sent;
+      }
+      this.logger.warn('Withdrawal rejected by Paystack', { transactionId: sent.id });
+    } catch (error) {
+      this.logger.error('Withdrawal could not be sent', {
+        transactionId: transaction.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+    return null;
+  }
+
   /**
    * Transfer money between Zanari users (wallet-to-wallet, internal, FREE)
    * - No Paystack involvement
@@ -667,12 +889,13 @@ export class PaymentService {
     const roundUpRule = await this.roundUpRuleRepository.findByUserId(request.userId);
     let { roundUpAmount, incrementUsed } = this.calculateRoundUp(request.amount, roundUpRule);
 
-    // Check sender's wallet balance (amount + round-up, no fee for internal transfers)
+    // Check sender's wallet balance (amount + fee + round-up)
+    const fee = request.fee ?? 0;
     const senderWallet = await this.requireMainWallet(request.userId);
-    const totalRequired = request.amount + roundUpAmount;
+    const totalRequired = request.amount + fee + roundUpAmount;
 
     if (senderWallet.availableBalance < totalRequired) {
-      if (senderWallet.availableBalance >= request.amount) {
+      if (senderWallet.availableBalance >= request.amount + fee) {
         this.logger.warn('Skipping round-up for internal transfer due to insufficient funds', {
           userId: request.userId,
           requestedRoundUp: roundUpAmount,
@@ -685,165 +908,258 @@ export class PaymentService {
       }
     }
 
-    // Debit sender's wallet
-    await this.walletService.debit({ userId: request.userId, walletType: 'main', amount: request.amount });
-
-    let senderTx: Transaction;
-    let recipientTx: Transaction;
-    let roundUpTx: Transaction | null = null;
-
+    // Both wallets, the round-up and every transaction row commit together, so a failure part-way
+    // leaves nothing to roll back by hand
+    let transfer: { senderTx: Transaction; recipientTx: Transaction; roundUpTx: Transaction | null };
     try {
-      // Apply round-up if applicable
-      if (roundUpAmount > 0) {
-        await this.walletService.transferRoundUp(request.userId, roundUpAmount);
-      }
+      transfer = await this.unitOfWork.run(async (scope) => {
+        const walletService = this.walletService.forScope(scope);
+        const transactionService = this.transactionService.forScope(scope);
+        let senderTx: Transaction;
+        let recipientTx: Transaction;
+        let roundUpTx: Transaction | null = null;
+
+        // Debit sender's wallet
+        await walletService.debit({
+          userId: request.userId,
+          walletType: 'main',
+          amount: request.amount,
+          counterAccount: 'transfers_in_transit',
+          transactionId: request.transferId,
+          description: 'Transfer to Zanari user',
+        });
+        if (fee > 0) {
+          await walletService.debit({
+            userId: request.userId,
+            walletType: 'main',
+            amount: fee,
+            counterAccount: 'fees',
+            transactionId: request.transferId,
+            description: 'Transfer fee',
+          });
+        }
 
-      // Create sender's transfer_out transaction
-      senderTx = await this.transactionService.create({
-        id: request.transferId,
-        userId: request.userId,
-        type: 'transfer_out',
-        amount: request.amount,
-        category: 'transfer',
-        autoCategorized: false,
-        metadata: {
-          description: request.description ?? 'Transfer to Zanari user',
-        },
-      });
+        // Apply round-up if applicable
+        if (roundUpAmount > 0) {
+          await walletService.transferRoundUp(request.userId, roundUpAmount, request.transferId);
+        }
 
-      // Update with metadata
-      senderTx = await this.transactionRepository.update({
-        ...senderTx,
-        paymentMethod: 'internal',
-        externalReference: JSON.stringify({
-          recipientUserId: request.recipientUserId,
-          recipientName: request.recipientName || 'Zanari User',
-          transferType: 'internal',
-        }),
-        updatedAt: this.clock.now(),
-      });
+        // Create sender's transfer_out transaction
+        senderTx = await transactionService.create({
+          id: request.transferId,
+          userId: request.userId,
+          type: 'transfer_out',
+          amount: request.amount,
+          category: 'transfer',
+          autoCategorized: false,
+          metadata: {
+            description: request.description ?? 'Transfer to Zanari user',
+            fee,
+          },
+        });
 
-      // Credit recipient's wallet
-      await this.walletService.credit({ userId: request.recipientUserId, walletType: 'main', amount: request.amount });
+        // Update with metadata
+        senderTx = await scope.transactionRepository.update({
+          ...senderTx,
+          paymentMethod: 'internal',
+          externalReference: JSON.stringify({
+            recipientUserId: request.recipientUserId,
+            recipientName: request.recipientName || 'Zanari User',
+            transferType: 'internal',
+          }),
+          updatedAt: this.clock.now(),
+        });
 
-      // Create recipient's transfer_in transaction
-      const recipientTxId = randomUUID();
-      recipientTx = await this.transactionService.create({
-        id: recipientTxId,
-        userId: request.recipientUserId,
-        type: 'transfer_in',
-        amount: request.amount,
-        category: 'transfer',
-        autoCategorized: false,
-        metadata: {
-          description: request.description ?? 'Received from Zanari user',
-        },
-      });
+        // Credit recipient's wallet
+        await walletService.credit({
+          userId: request.recipientUserId,
+          walletType: 'main',
+          amount: request.amount,
+          counterAccount: 'transfers_in_transit',
+          transactionId: request.transferId,
+          description: 'Transfer from Zanari user',
+        });
 
-      // Update recipient tx with metadata
-      recipientTx = await this.transactionRepository.update({
-        ...recipientTx,
-        externalReference: JSON.stringify({
-          senderUserId: request.userId,
-          senderName: request.senderName || 'Zanari User',
-          relatedTransactionId: request.transferId,
-          transferType: 'internal',
-        }),
-        updatedAt: this.clock.now(),
-      });
+        // Create recipient's transfer_in transaction
+        const recipientTxId = randomUUID();
+        recipientTx = await transactionService.create({
+          id: recipientTxId,
+          userId: request.recipientUserId,
+          type: 'transfer_in',
+          amount: request.amount,
+          category: 'transfer',
+          autoCategorized: false,
+          metadata: {
+            description: request.description ?? 'Received from Zanari user',
+          },
+        });
 
-      // Link transactions
-      senderTx = await this.transactionRepository.update({
-        ...senderTx,
-        externalReference: JSON.stringify({
-          recipientUserId: request.recipientUserId,
-          recipientName: request.recipientName || 'Zanari User',
-          transferType: 'internal',
-          relatedTransactionId: recipientTxId,
-        }),
-        updatedAt: this.clock.now(),
-      });
+        // Update recipient tx with metadata
+        recipientTx = await scope.transactionRepository.update({
+          ...recipientTx,
+          externalReference: JSON.stringify({
+            senderUserId: request.userId,
+            senderName: request.senderName || 'Zanari User',
+            relatedTransactionId: request.transferId,
+            transferType: 'internal',
+          }),
+          updatedAt: this.clock.now(),
+        });
+
+        // Link transactions
+        senderTx = await scope.transactionRepository.update({
+          ...senderTx,
+          externalReference: JSON.stringify({
+            recipientUserId: request.recipientUserId,
+            recipientName: request.recipientName || 'Zanari User',
+            transferType: 'internal',
+            relatedTransactionId: recipientTxId,
+          }),
+          updatedAt: this.clock.now(),
+        });
 
-      // Mark both as completed (instant for internal transfers)
-      senderTx = await this.transactionService.markStatus(senderTx, 'completed');
-      recipientTx = await this.transactionService.markStatus(recipientTx, 'completed');
+        // Mark both as completed (instant for internal transfers)
+        senderTx = await transactionService.markStatus(senderTx, 'completed');
+        recipientTx = await transactionService.markStatus(recipientTx, 'completed');
 
-      // Create round-up transaction if applicable
-      if (roundUpAmount > 0) {
-        roundUpTx = await this.transactionService.create({
-          id: randomUUID(),
-          userId: request.userId,
-          type: 'round_up',
-          amount: roundUpAmount,
-          category: 'savings',
-          autoCategorized: true,
-          metadata: {
-            description: 'Round-up savings for internal transfer',
+        // Create round-up transaction if applicable
+        if (roundUpAmount > 0) {
+          roundUpTx = await transactionService.create({
+            id: randomUUID(),
+            userId: request.userId,
+            type: 'round_up',
+            amount: roundUpAmount,
+            category: 'savings',
+            autoCategorized: true,
+            metadata: {
+              description: 'Round-up savings for internal transfer',
+              roundUpDetails: {
+                originalAmount: request.amount,
+                roundUpAmount,
+                roundUpRule: incrementUsed,
+                relatedTransactionId: request.transferId,
+              },
+            } as Partial<Transaction>,
+          });
+
+          roundUpTx = await transactionService.markStatus(roundUpTx, 'completed');
+
+          // Update sender transaction with round-up details
+          senderTx = await scope.transactionRepository.update({
+            ...senderTx,
             roundUpDetails: {
               originalAmount: request.amount,
               roundUpAmount,
               roundUpRule: incrementUsed,
-              relatedTransactionId: request.transferId,
+              relatedTransactionId: roundUpTx.id,
             },
-          } as Partial<Transaction>,
-        });
-
-        roundUpTx = await this.transactionService.markStatus(roundUpTx, 'completed');
-
-        // Update sender transaction with round-up details
-        senderTx = await this.transactionRepository.update({
-          ...senderTx,
-          roundUpDetails: {
-            originalAmount: request.amount,
-            roundUpAmount,
-            roundUpRule: incrementUsed,
-            relatedTransactionId: roundUpTx.id,
-          },
-          updatedAt: this.clock.now(),
-        });
-      }
+            updatedAt: this.clock.now(),
+          });
+        }
 
-      this.logger.info('Internal peer transfer completed', {
+        return { senderTx, recipientTx, roundUpTx };
+      });
+    } catch (error) {
+      this.logger.error('Internal peer transfer failed', {
         userId: request.userId,
         recipientUserId: request.recipientUserId,
-        amount: request.amount,
-        roundUpAmount,
-        senderTxId: senderTx.id,
-        recipientTxId: recipientTx.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
 
-      return {
-        status: 'completed',
-        senderTransaction: senderTx,
-        recipientTransaction: recipientTx,
-        roundUpTransaction: roundUpTx,
-        totalCharged: request.amount + roundUpAmount,
-        roundUpAmount,
-        fee: 0,
-      };
-    } catch (error) {
-      // Rollback: credit sender's wallet back
-      await this.walletService.credit({ userId: request.userId, walletType: 'main', amount: request.amount });
+      throw error;
+    }
 
-      // Rollback: debit recipient if we credited them
-      if (recipientTx!) {
-        await this.walletService.debit({ userId: request.recipientUserId, walletType: 'main', amount: request.amount });
-      }
+    const { senderTx, recipientTx, roundUpTx } = transfer;
 
-      // Rollback: reverse round-up if applied
-      if (roundUpAmount > 0) {
-        await this.walletService.debit({ userId: request.userId, walletType: 'savings', amount: roundUpAmount });
-        await this.walletService.credit({ userId: request.userId, walletType: 'main', amount: roundUpAmount });
-      }
+    this.logger.info('Internal peer transfer completed', {
+      userId: request.userId,
+      recipientUserId: request.recipientUserId,
+      amount: request.amount,
+      roundUpAmount,
+      senderTxId: senderTx.id,
+      recipientTxId: recipientTx.id,
+    });
 
-      this.logger.error('Internal peer transfer failed', {
+    return {
+      status: 'completed',
+      senderTransaction: senderTx,
+      recipientTransaction: recipientTx,
+      roundUpTransaction: roundUpTx,
+      totalCharged: request.amount + fee + roundUpAmount,
+      roundUpAmount,
+      fee,
+    };
+  }
+
+  /**
+   * Reserves the payout's funds, without a round-up, and records the transfer as pending and held
+   * for screening without sending it to Paystack, then opens a case for an admin to rule on the
+   * recipient. The hold does not expire while the case is open.
+   */
+  private async holdForScreening(
+    screeningService: ScreeningService,
+    request: PeerTransferRequest,
+    matches: ScreeningMatch[],
+  ): Promise<PeerTransferResult> {
+    const recipient = {
+      name: request.recipient.name ?? null,
+      phone: request.recipient.phone ?? null,
+      email: request.recipient.email ?? null,
+    };
+
+    await this.walletService.placeHold({
+      userId: request.userId,
+      walletType: 'main',
+      amount: request.amount,
+      transactionId: request.transferId,
+      description: 'Bank transfer',
+      // Funds stay reserved until the case is decided, so the hold-expiry sweep never picks it up
+      expiresAt: null,
+    });
+
+    let transferTransaction: Transaction;
+    try {
+      transferTransaction = await this.transactionService.create({
+        id: request.transferId,
         userId: request.userId,
-        recipientUserId: request.recipientUserId,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        type: 'transfer_out',
+        amount: request.amount,
+        category: 'transfer',
+        autoCategorized: false,
+        metadata: {
+          description: request.description ?? 'Peer transfer',
+          recipient,
+          heldForScreening: true,
+        } as Partial<Transaction>,
       });
-
+    } catch (error) {
+      await this.walletService.releaseHold(request.transferId);
       throw error;
     }
+
+    const screeningCase = await screeningService.openPayoutCase({
+      userId: request.userId,
+      transactionId: request.transferId,
+      recipient,
+      matches,
+    });
+
+    return {
+      status: 'on_hold',
+      transferTransaction,
+      roundUpTransaction: null,
+      totalCharged: request.amount,
+      roundUpAmount: 0,
+      screeningCaseId: screeningCase.id,
+    };
+  }
+
+  private async requireScreenedPayout(screeningCase: ScreeningCase): Promise<Transaction> {
+    const transaction = screeningCase.transactionId ? await this.transactionRepository.findById(screeningCase.transactionId) : null;
+    if (!transaction) {
+      throw new Error('Held payout transaction not found');
+    }
+    return transaction;
   }
 
   private calculateRoundUp(amount: number, rule: RoundUpRule | null): { roundUpAmount: number; incrementUsed: string } {
@@ -863,14 +1179,23 @@ export class PaymentService {
     return wallet;
   }
 
-  private async scheduleRetry(transaction: Transaction): Promise<{ runAt: Date; retryCount: number } | null> {
+  private async scheduleRetry(
+    transaction: Transaction,
+    delayOverrideMs?: number,
+  ): Promise<{ runAt: Date; retryCount: number } | null> {
     const currentCount = transaction.retry.retryCount;
     if (currentCount >= RETRY_BACKOFF_MS.length) {
       this.logger.warn('Retry limit reached for transaction', { transactionId: transaction.id });
       return null;
     }
 
-    const delayMs = RETRY_BACKOFF_MS[currentCount];
+    const jobType = this.resolveRetryJobType(transaction);
+    if (!jobType) {
+      this.logger.warn('No retry handler for transaction type', { transactionId: transaction.id, type: transaction.type });
+      return null;
+    }
+
+    const delayMs = delayOverrideMs ?? RETRY_BACKOFF_MS[currentCount];
     if (delayMs === undefined) {
       this.logger.warn('Retry backoff missing for transaction', { transactionId: transaction.id, currentCount });
       return null;
@@ -892,6 +1217,7 @@ export class PaymentService {
       id: `retry_${transaction.id}_${currentCount + 1}`,
       runAt,
       payload: {
+        type: jobType,
         transactionId: transaction.id,
         userId: transaction.userId,
       },
@@ -899,6 +1225,7 @@ export class PaymentService {
 
     this.logger.info('Scheduled payment retry', {
       transactionId: transaction.id,
+      type: jobType,
       retryCount: currentCount + 1,
       runAt: runAt.toISOString(),
     });
@@ -906,7 +1233,22 @@ export class PaymentService {
     return { runAt, retryCount: currentCount + 1 };
   }
 
-  private async createPaystackRecipient(request: PeerTransferRequest): Promise<{ recipientCode: string; created: boolean }> {
+  private resolveRetryJobType(transaction: Transaction): RetryJobType | null {
+    switch (transaction.type) {
+      case 'payment':
+        return 'merchant_payment';
+      case 'transfer_out':
+        return 'transfer_verification';
+      case 'deposit':
+        return 'deposit_check';
+      default:
+        return null;
+    }
+  }
+
+  private async createPaystackRecipient(
+    request: Pick<PeerTransferRequest, 'transferId' | 'recipient' | 'currency'>,
+  ): Promise<{ recipientCode: string; created: boolean }> {
     const phone = request.recipient.phone ?? undefined;
     const email = request.recipient.email ?? undefined;
     const name = request.recipient.name ?? phone ?? email ?? 'Recipient';
@@ -931,6 +1273,23 @@ export class PaymentService {
     return { recipientCode: response.recipientCode, created: true };
   }
 
+  private async stepUpReasons(check: StepUpCheck): Promise<StepUpReason[]> {
+    const reasons: StepUpReason[] = [];
+    if (check.amount >= this.stepUpPolicy.amountThreshold) {
+      reasons.push('amount_threshold');
+    }
+    if (this.stepUpPolicy.newRecipients && !(await this.hasPaidRecipient(check.userId, check.recipientKey))) {
+      reasons.push('new_recipient');
+    }
+    return reasons;
+  }
+
+  private async hasPaidRecipient(userId: UUID, recipientKey: string): Promise<boolean> {
+    const since = new Date(this.clock.now().getTime() - KNOWN_RECIPIENT_LOOKBACK_MS);
+    const recent = await this.transactionRepository.listRecentTransactions(userId, since);
+    return recent.some((transaction) => transaction.status === 'completed' && recipientKeyOf(transaction) === recipientKey);
+  }
+
   private normalizePhone(phone: string): string {
     const digits = phone.replace(/[^0-9]/g, '');
 
@@ -995,3 +1354,33 @@ export class PaymentService {
     return null;
   }
 }
+
+function recipientKeyOf(transaction: Transaction): string | null {
+  if (transaction.type === 'payment' && transaction.merchantInfo) {
+    return merchantRecipientKey(transaction.merchantInfo);
+  }
+  if (transaction.type !== 'transfer_out') {
+    return null;
+  }
+
+  // Internal transfers keep the recipient in externalReference, external ones in externalTransactionId
+  for (const raw of [transaction.externalReference, transaction.externalTransactionId]) {
+    const recipientUserId = parseRecipientUserId(raw);
+    if (recipientUserId) {
+      return userRecipientKey(recipientUserId);
+    }
+  }
+  return null;
+}
+
+function parseRecipientUserId(raw: string | null | undefined): string | null {
+  if (!raw || !raw.startsWith('{')) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw) as { recipientUserId?: unknown };
+    return typeof parsed.recipientUserId === 'string' ? parsed.recipientUserId : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,667 @@
+/**
+ * PaymentSettlementService applies the final outcome of Paystack charges and transfers to
+ * transactions and wallets. It is shared by client-side verification, Paystack webhooks and the
+ * background retry and reconciliation jobs so every path produces the same wallet side effects and
+ * stays idempotent.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { systemAccountId } from '../models/LedgerEntry';
+import { Transaction } from '../models/Transaction';
+import {
+  Clock,
+  Logger,
+  NotificationService,
+  NullLogger,
+  SystemClock,
+  TransactionRepository,
+  UnitOfWork,
+} from './types';
+import { LedgerService } from './LedgerService';
+import { TransactionService } from './TransactionService';
+import { WalletService } from './WalletService';
+
+export interface ExternalTransferMetadata {
+  recipientUserId?: string;
+  recipientName?: string;
+  senderName?: string;
+  transferType?: string;
+  fee?: number;
+  totalCharged?: number;
+}
+
+export interface SettlementResult {
+  transaction: Transaction;
+  /** False when the transaction had already reached a final state and nothing was applied. */
+  applied: boolean;
+}
+
+export type TransferReversalStatus = Extract<Transaction['status'], 'failed' | 'cancelled'>;
+
+/** The repositories and services a settlement writes through, all inside its unit of work. */
+interface SettlementScope {
+  transactionRepository: TransactionRepository;
+  transactionService: TransactionService;
+  walletService: WalletService;
+  ledgerService: LedgerService;
+}
+
+/** A notification held back until the settlement has committed. */
+interface SettlementNotice {
+  userId: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export class PaymentSettlementService {
+  private readonly transactionRepository: TransactionRepository;
+  private readonly transactionService: TransactionService;
+  private readonly walletService: WalletService;
+  private readonly ledgerService: LedgerService;
+  private readonly unitOfWork: UnitOfWork;
+  private readonly notificationService: NotificationService | null;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    transactionRepository: TransactionRepository;
+    transactionService: TransactionService;
+    walletService: WalletService;
+    ledgerService: LedgerService;
+    unitOfWork: UnitOfWork;
+    notificationService?: NotificationService;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.transactionRepository = options.transactionRepository;
+    this.transactionService = options.transactionService;
+    this.walletService = options.walletService;
+    this.ledgerService = options.ledgerService;
+    this.unitOfWork = options.unitOfWork;
+    this.notificationService = options.notificationService ?? null;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  /**
+   * Locate the transaction a Paystack event refers to. Charges and transfers store the Paystack
+   * reference in externalReference; transfers also keep the transfer code in externalTransactionId.
+   */
+  async findByProviderReference(reference?: string | null, transferCode?: string | null): Promise<Transaction | null> {
+    if (reference) {
+      const byReference = await this.transactionRepository.findByExternalReference(reference);
+      if (byReference) {
+        return byReference;
+      }
+    }
+
+    if (transferCode) {
+      return this.transactionRepository.findByExternalTransactionId(transferCode);
+    }
+
+    return null;
+  }
+
+  /**
+   * Amount Paystack is expected to have collected for a charge-backed transaction.
+   */
+  expectedChargeAmount(transaction: Transaction): number {
+    const metadata = parseExternalTransferMetadata(transaction);
+    if (transaction.type === 'transfer_out' && metadata.transferType === 'external' && metadata.totalCharged) {
+      return metadata.totalCharged;
+    }
+    if (transaction.type === 'deposit') {
+      return transaction.amount + (transaction.fee ?? 0);
+    }
+    return transaction.amount;
+  }
+
+  /**
+   * Complete a pending Paystack charge: top-ups credit the payer, external transfers credit the
+   * recipient, and merchant payments capture the funds held at initiation and settle their round-up.
+   */
+  async completeCharge(transaction: Transaction): Promise<SettlementResult> {
+    const result = await this.settle(transaction, async (current, scoped, notices) => {
+      if (current.status !== 'pending') {
+        return null;
+      }
+
+      let completed = await scoped.transactionService.markStatus(current, 'completed');
+      const metadata = parseExternalTransferMetadata(current);
+
+      if (completed.type === 'transfer_out' && metadata.transferType === 'external' && metadata.recipientUserId) {
+        completed = await this.creditExternalTransferRecipient(scoped, completed, metadata, notices);
+        await this.recordChargedFee(scoped, completed, metadata.fee ?? 0);
+        notices.push({
+          userId: completed.userId,
+          title: 'Transfer sent',
+          body: `Your transfer to ${metadata.recipientName ?? 'a Zanari user'} was successful.`,
+          data: { transactionId: completed.id },
+        });
+      } else if (completed.type === 'deposit' && !metadata.recipientUserId) {
+        await scoped.walletService.credit({
+          userId: completed.userId,
+          walletType: 'main',
+          amount: completed.amount,
+          transactionId: completed.id,
+          description: 'Wallet top-up',
+        });
+        await this.recordChargedFee(scoped, completed, completed.fee ?? 0);
+        this.logger.info('Wallet top-up settled', { userId: completed.userId, amount: completed.amount, transactionId: completed.id });
+        notices.push({
+          userId: completed.userId,
+          title: 'Top-up successful',
+          body: 'Your wallet top-up has been credited.',
+          data: { transactionId: completed.id },
+        });
+      } else if (completed.type === 'payment') {
+        await this.captureWalletDebit(scoped, completed);
+        await this.settleRelatedRoundUp(scoped, completed, 'completed');
+        notices.push({
+          userId: completed.userId,
+          title: 'Payment successful',
+          body: `Your payment${completed.merchantInfo?.name ? ` to ${completed.merchantInfo.name}` : ''} was successful.`,
+          data: { transactionId: completed.id },
+        });
+      }
+      return completed;
+    });
+
+    if (!result.applied) {
+      this.logger.info('Charge already settled', { transactionId: result.transaction.id, status: result.transaction.status });
+    } else {
+      this.logger.info('Charge settled', { transactionId: result.transaction.id, type: result.transaction.type });
+    }
+    return result;
+  }
+
+  /**
+   * Complete a pending Paystack transfer, capturing the funds held when it was initiated.
+   */
+  async completeTransfer(transaction: Transaction): Promise<SettlementResult> {
+    const result = await this.settle(transaction, async (current, scoped, notices) => {
+      if (current.status !== 'pending') {
+        return null;
+      }
+
+      const completed = await scoped.transactionService.markStatus(current, 'completed');
+      await this.captureWalletDebit(scoped, completed);
+      await this.settleRelatedRoundUp(scoped, completed, 'completed');
+
+      notices.push({
+        userId: completed.userId,
+        title: 'Transfer completed',
+        body: 'Your transfer has been delivered.',
+        data: { transactionId: completed.id },
+      });
+      return completed;
+    });
+
+    if (!result.applied) {
+      this.logger.info('Transfer already settled', { transactionId: result.transaction.id, status: result.transaction.status });
+    } else {
+      this.logger.info('Transfer settled', { transactionId: result.transaction.id });
+    }
+    return result;
+  }
+
+  /**
+   * Undo a pending Paystack transfer that failed or was reversed: release the held amount, move any
+   * round-up back out of savings, and notify the sender.
+   */
+  async reverseTransfer(transaction: Transaction, status: TransferReversalStatus): Promise<SettlementResult> {
+    let refunded = 0;
+    const result = await this.settle(transaction, async (current, scoped, notices) => {
+      if (current.status !== 'pending') {
+        return null;
+      }
+
+      const reversed = await scoped.transactionService.markStatus(current, status);
+      refunded = await this.refundWalletDebit(scoped, reversed, status);
+
+      notices.push({
+        userId: reversed.userId,
+        title: status === 'cancelled' ? 'Transfer reversed' : 'Transfer failed',
+        body: `Your transfer could not be completed. KES ${(refunded / 100).toFixed(2)} has been returned to your wallet.`,
+        data: { transactionId: reversed.id, status },
+      });
+      return reversed;
+    });
+
+    if (!result.applied) {
+      this.logger.info('Transfer already settled; skipping reversal', {
+        transactionId: result.transaction.id,
+        status: result.transaction.status,
+      });
+    } else {
+      this.logger.warn('Transfer reversed', { transactionId: result.transaction.id, status, refunded });
+    }
+    return result;
+  }
+
+  /**
+   * Fail a pending Paystack charge that Paystack reports as failed or abandoned. Merchant payments
+   * release the funds held at initiation; top-ups and external transfers moved no wallet funds
+   * before the charge, so they are only marked failed.
+   */
+  async failCharge(transaction: Transaction): Promise<SettlementResult> {
+    const result = await this.settle(transaction, async (current, scoped, notices) => {
+      if (current.status !== 'pending') {
+        return null;
+      }
+
+      const failed = await scoped.transactionService.markStatus(current, 'failed');
+
+      if (failed.type === 'payment') {
+        const refunded = await this.refundWalletDebit(scoped, failed, 'failed');
+        notices.push({
+          userId: failed.userId,
+          title: 'Payment failed',
+          body: `Your payment could not be completed. KES ${(refunded / 100).toFixed(2)} has been returned to your wallet.`,
+          data: { transactionId: failed.id },
+        });
+      } else {
+        await this.settleRelatedRoundUp(scoped, failed, 'failed');
+        notices.push({
+          userId: failed.userId,
+          title: failed.type === 'deposit' ? 'Top-up failed' : 'Transfer failed',
+          body: 'Your payment was not completed. No money was taken from your wallet.',
+          data: { transactionId: failed.id },
+        });
+      }
+      return failed;
+    });
+
+    if (!result.applied) {
+      this.logger.info('Charge already settled; skipping failure', {
+        transactionId: result.transaction.id,
+        status: result.transaction.status,
+      });
+    } else {
+      this.logger.warn('Charge failed', { transactionId: result.transaction.id, type: result.transaction.type });
+    }
+    return result;
+  }
+
+  /**
+   * Settle a pending wallet withdrawal once the payout is confirmed, capturing the held funds.
+   */
+  async completeWithdrawal(transaction: Transaction): Promise<SettlementResult> {
+    const result = await this.settle(transaction, async (current, scoped, notices) => {
+      if (current.type !== 'withdrawal' || current.status !== 'pending') {
+        return null;
+      }
+
+      const completed = await scoped.transactionService.markStatus(current, 'completed');
+      await this.captureWalletDebit(scoped, completed);
+
+      notices.push({
+        userId: completed.userId,
+        title: 'Withdrawal completed',
+        body: `KES ${(completed.amount / 100).toFixed(2)} has been sent to your M-Pesa.`,
+        data: { transactionId: completed.id },
+      });
+      return completed;
+    });
+
+    if (!result.applied) {
+      this.logger.info('Withdrawal already settled', { transactionId: result.transaction.id, status: result.transaction.status });
+    } else {
+      this.logger.info('Withdrawal settled', { transactionId: result.transaction.id });
+    }
+    return result;
+  }
+
+  /**
+   * Fail a pending wallet withdrawal whose payout did not go through, releasing the held funds.
+   */
+  async failWithdrawal(transaction: Transaction): Promise<SettlementResult> {
+    const result = await this.settle(transaction, async (current, scoped, notices) => {
+      if (current.type !== 'withdrawal' || current.status !== 'pending') {
+        return null;
+      }
+
+      const failed = await scoped.transactionService.markStatus(current, 'failed');
+      const refunded = await this.refundWalletDebit(scoped, failed, 'failed');
+
+      notices.push({
+        userId: failed.userId,
+        title: 'Withdrawal failed',
+        body: `Your withdrawal could not be completed. KES ${(refunded / 100).toFixed(2)} is available in your wallet again.`,
+        data: { transactionId: failed.id },
+      });
+      return failed;
+    });
+
+    if (!result.applied) {
+      this.logger.info('Withdrawal already settled; skipping failure', {
+        transactionId: result.transaction.id,
+        status: result.transaction.status,
+      });
+    } else {
+      this.logger.warn('Withdrawal failed', { transactionId: result.transaction.id });
+    }
+    return result;
+  }
+
+  /**
+   * A payment or transfer marked failed locally can still have gone through at Paystack. Hold the
+   * amount in the main wallet again and return the transaction to pending so it settles through
+   * the normal path. The round-up is not reinstated; its funds were already returned.
+   */
+  async reinstateFailedDebit(transaction: Transaction): Promise<Transaction> {
+    const result = await this.settle(transaction, async (current, scoped) => {
+      if (current.status !== 'failed') {
+        return null;
+      }
+
+      await scoped.walletService.placeHold({
+        userId: current.userId,
+        walletType: 'main',
+        amount: current.amount,
+        transactionId: current.id,
+        description: 'Debit reinstated after Paystack success',
+      });
+      await this.settleRelatedRoundUp(scoped, current, 'failed');
+      return scoped.transactionService.markStatus(current, 'pending');
+    });
+
+    if (result.applied) {
+      this.logger.warn('Reinstated debit for transaction Paystack reports as successful', {
+        transactionId: result.transaction.id,
+        amount: result.transaction.amount,
+      });
+    }
+    return result.transaction;
+  }
+
+  /**
+   * Run a settlement as one unit of work against a fresh read of the transaction. The status change
+   * only commits while the transaction still has the status the unit read, so when the webhook,
+   * /payments/verify and the background jobs settle it at once the wallet effect is applied once;
+   * the others re-run, find it settled and apply nothing. `apply` returns null when the transaction
+   * is not in a state it settles. Notifications go out after the commit.
+   */
+  private async settle(
+    transaction: Transaction,
+    apply: (current: Transaction, scoped: SettlementScope, notices: SettlementNotice[]) => Promise<Transaction | null>,
+  ): Promise<SettlementResult> {
+    const outcome = await this.unitOfWork.run(async (scope) => {
+      const scoped: SettlementScope = {
+        transactionRepository: scope.transactionRepository,
+        transactionService: this.transactionService.forScope(scope),
+        walletService: this.walletService.forScope(scope),
+        ledgerService: this.ledgerService.forScope(scope),
+      };
+      const current = (await scope.transactionRepository.findById(transaction.id)) ?? transaction;
+      const notices: SettlementNotice[] = [];
+      const settled = await apply(current, scoped, notices);
+      return settled
+        ? { transaction: settled, applied: true, notices }
+        : { transaction: current, applied: false, notices: [] };
+    });
+
+    for (const { userId, ...payload } of outcome.notices) {
+      // eslint-disable-next-line no-await-in-loop
+      await this.notify(userId, payload);
+    }
+    return { transaction: outcome.transaction, applied: outcome.applied };
+  }
+
+  private async creditExternalTransferRecipient(
+    scoped: SettlementScope,
+    transaction: Transaction,
+    metadata: ExternalTransferMetadata,
+    notices: SettlementNotice[],
+  ): Promise<Transaction> {
+    const recipientUserId = metadata.recipientUserId as string;
+    const now = this.clock.now();
+
+    await scoped.walletService.credit({
+      userId: recipientUserId,
+      walletType: 'main',
+      amount: transaction.amount,
+      transactionId: transaction.id,
+      description: 'Transfer from Zanari user',
+    });
+
+    await scoped.transactionRepository.create({
+      id: randomUUID(),
+      userId: recipientUserId,
+      type: 'transfer_in',
+      amount: transaction.amount,
+      category: 'transfer',
+      status: 'completed',
+      autoCategorized: false,
+      description: transaction.description ?? 'Received from Zanari user',
+      externalReference: JSON.stringify({
+        senderUserId: transaction.userId,
+        senderName: metadata.senderName || 'Zanari User',
+        relatedTransactionId: transaction.id,
+        transferType: 'external',
+      }),
+      createdAt: now,
+      updatedAt: now,
+      completedAt: now,
+      retry: {
+        retryCount: 0,
+        lastRetryAt: null,
+        nextRetryAt: null,
+      },
+    });
+
+    notices.push({
+      userId: recipientUserId,
+      title: 'Money received',
+      body: `${metadata.senderName || 'A Zanari user'} sent you KES ${(transaction.amount / 100).toFixed(2)}.`,
+      data: { relatedTransactionId: transaction.id },
+    });
+
+    let updated = transaction;
+    const roundUpAmount = transaction.roundUpDetails?.roundUpAmount;
+    if (roundUpAmount && roundUpAmount > 0 && transaction.roundUpDetails) {
+      const roundUpTx = await scoped.transactionRepository.create({
+        id: randomUUID(),
+        userId: transaction.userId,
+        type: 'round_up',
+        amount: roundUpAmount,
+        category: 'savings',
+        status: 'completed',
+        autoCategorized: true,
+        description: 'Round-up savings for external transfer',
+        roundUpDetails: {
+          originalAmount: transaction.amount,
+          roundUpAmount,
+          roundUpRule: transaction.roundUpDetails.roundUpRule,
+          relatedTransactionId: transaction.id,
+        },
+        createdAt: now,
+        updatedAt: now,
+        completedAt: now,
+        retry: {
+          retryCount: 0,
+          lastRetryAt: null,
+          nextRetryAt: null,
+        },
+      });
+
+      await scoped.walletService.transferRoundUp(transaction.userId, roundUpAmount, roundUpTx.id);
+
+      updated = await scoped.transactionRepository.update({
+        ...transaction,
+        roundUpDetails: {
+          ...transaction.roundUpDetails,
+          relatedTransactionId: roundUpTx.id,
+        },
+        updatedAt: this.clock.now(),
+      });
+    }
+
+    this.logger.info('External transfer to recipient settled', {
+      senderId: transaction.userId,
+      recipientId: recipientUserId,
+      amount: transaction.amount,
+      transactionId: transaction.id,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Take the funds held for a settled transaction out of the wallet. A hold that expired before
+   * the transaction settled no longer reserves anything, so the amount is debited directly;
+   * transactions from before holds were debited at initiation and have nothing to capture.
+   */
+  private async captureWalletDebit(scoped: SettlementScope, transaction: Transaction): Promise<void> {
+    const { walletService } = scoped;
+    if (await walletService.captureHold(transaction.id)) {
+      return;
+    }
+
+    const hold = await walletService.getHold(transaction.id);
+    if (!hold || hold.status === 'captured') {
+      return;
+    }
+
+    const wallet = await walletService.requireWalletById(transaction.userId, hold.walletId);
+    this.logger.warn('Hold lapsed before its transaction settled; debiting directly', {
+      transactionId: transaction.id,
+      holdStatus: hold.status,
+      amount: hold.amount,
+    });
+    await walletService.debit({
+      userId: transaction.userId,
+      walletType: wallet.walletType,
+      amount: hold.amount,
+      transactionId: transaction.id,
+      description: hold.description,
+    });
+    if (hold.fee > 0) {
+      await walletService.debit({
+        userId: transaction.userId,
+        walletType: wallet.walletType,
+        amount: hold.fee,
+        counterAccount: 'fees',
+        transactionId: transaction.id,
+        description: 'Transaction fee',
+      });
+    }
+  }
+
+  /**
+   * A fee Paystack collected on top of the amount credited sits in Paystack clearing; move it to
+   * fee income.
+   */
+  private async recordChargedFee(scoped: SettlementScope, transaction: Transaction, fee: number): Promise<void> {
+    if (fee <= 0) {
+      return;
+    }
+
+    await scoped.ledgerService.post({
+      description: 'Transaction fee',
+      transactionId: transaction.id,
+      lines: [
+        { accountId: systemAccountId('paystack_clearing'), direction: 'debit', amount: fee },
+        { accountId: systemAccountId('fees'), direction: 'credit', amount: fee },
+      ],
+    });
+  }
+
+  /**
+   * Return a held or debited amount and its round-up to the main wallet. Returns the total
+   * refunded.
+   */
+  private async refundWalletDebit(
+    scoped: SettlementScope,
+    transaction: Transaction,
+    status: Transaction['status'],
+  ): Promise<number> {
+    const { walletService } = scoped;
+    const released = await walletService.releaseHold(transaction.id);
+    const hold = released ?? (await walletService.getHold(transaction.id));
+    // An expired hold already made the funds available again; only money that left the wallet,
+    // or was debited at initiation before holds existed, is credited back
+    if (!hold || hold.status === 'captured') {
+      const walletType = hold
+        ? (await walletService.requireWalletById(transaction.userId, hold.walletId)).walletType
+        : 'main';
+      await walletService.credit({
+        userId: transaction.userId,
+        walletType,
+        amount: transaction.amount,
+        transactionId: transaction.id,
+        description: 'Debit returned',
+      });
+    }
+
+    const roundUp = await this.settleRelatedRoundUp(scoped, transaction, status);
+    if (roundUp) {
+      await walletService.transfer({
+        userId: transaction.userId,
+        fromWalletType: 'savings',
+        toWalletType: 'main',
+        amount: roundUp.amount,
+        transactionId: roundUp.id,
+        description: 'Round-up reversed',
+      });
+    }
+
+    return transaction.amount + (roundUp?.amount ?? 0);
+  }
+
+  /**
+   * Move the pending round-up transaction linked to a payment or transfer into the same final
+   * state. Returns the round-up transaction when one was pending.
+   */
+  private async settleRelatedRoundUp(
+    scoped: SettlementScope,
+    transaction: Transaction,
+    status: Transaction['status'],
+  ): Promise<Transaction | null> {
+    const roundUpId = transaction.roundUpDetails?.relatedTransactionId;
+    if (!roundUpId) {
+      return null;
+    }
+
+    const roundUp = await scoped.transactionRepository.findById(roundUpId);
+    if (!roundUp || roundUp.type !== 'round_up' || roundUp.status !== 'pending') {
+      return null;
+    }
+
+    return scoped.transactionService.markStatus(roundUp, status);
+  }
+
+  private async notify(
+    userId: string,
+    payload: { title: string; body: string; data?: Record<string, unknown> },
+  ): Promise<void> {
+    if (!this.notificationService) {
+      return;
+    }
+
+    try {
+      await this.notificationService.notifyUser(userId, payload);
+    } catch (error) {
+      this.logger.warn('Failed to send settlement notification', {
+        userId,
+        title: payload.title,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+export function parseExternalTransferMetadata(transaction: Transaction): ExternalTransferMetadata {
+  if (!transaction.externalTransactionId) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(transaction.externalTransactionId) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as ExternalTransferMetadata) : {};
+  } catch {
+    return {};
+  }
+}
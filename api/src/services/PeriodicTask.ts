@@ -0,0 +1,65 @@
+/**
+ * PeriodicTask runs an async job on a fixed interval inside the API process. A run that is still
+ * in progress when the next tick fires is not overlapped; the tick is skipped instead.
+ */
+
+import { Logger, NullLogger } from './types';
+
+export class PeriodicTask {
+  private readonly name: string;
+  private readonly intervalMs: number;
+  private readonly run: () => Promise<unknown>;
+  private readonly logger: Logger;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(options: { name: string; intervalMs: number; run: () => Promise<unknown>; logger?: Logger }) {
+    if (!Number.isFinite(options.intervalMs) || options.intervalMs <= 0) {
+      throw new Error(`Interval for ${options.name} must be a positive number of milliseconds`);
+    }
+    this.name = options.name;
+    this.intervalMs = options.intervalMs;
+    this.run = options.run;
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.intervalMs);
+    // Background work must not keep the process alive on shutdown
+    (this.timer as { unref?: () => void }).unref?.();
+    this.logger.info('Periodic task started', { task: this.name, intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (!this.timer) {
+      return;
+    }
+    clearInterval(this.timer);
+    this.timer = null;
+    this.logger.info('Periodic task stopped', { task: this.name });
+  }
+
+  async tick(): Promise<void> {
+    if (this.running) {
+      this.logger.warn('Skipping periodic task run; previous run still in progress', { task: this.name });
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.run();
+    } catch (error) {
+      this.logger.error('Periodic task run failed', {
+        task: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Server-side copy of the app's PIN rules (`evaluatePinSecurity` in src/utils/pinSecurity.ts), so a
+ * client that skips them cannot set a guessable PIN. Keep the two lists in step.
+ */
+
+import { ValidationError } from '../models/base';
+
+const PIN_LENGTH = 4;
+
+const COMMON_PINS = new Set([
+  '0000', '1111', '2222', '3333', '4444', '5555', '6666', '7777', '8888', '9999',
+  '1234', '2345', '3456', '4567', '5678', '6789', '9876', '8765', '7654', '6543', '5432', '4321',
+  '1010', '2020', '9090', '1212', '1122', '2112', '2580', '0852',
+]);
+
+export interface PinEvaluation {
+  isValid: boolean;
+  errors: string[];
+}
+
+export function evaluatePin(pin: string): PinEvaluation {
+  const errors: string[] = [];
+
+  if (!/^\d+$/.test(pin)) {
+    errors.push('PIN must contain digits only');
+  }
+  if (pin.length !== PIN_LENGTH) {
+    errors.push(`PIN must be exactly ${PIN_LENGTH} digits`);
+  }
+
+  if (errors.length === 0) {
+    const digits = pin.split('').map(Number);
+    const ascending = digits.every((digit, index) => index === 0 || digit === digits[index - 1]! + 1);
+    const descending = digits.every((digit, index) => index === 0 || digit === digits[index - 1]! - 1);
+
+    if (ascending || descending) {
+      errors.push('Avoid sequential numbers (e.g., 1234)');
+    }
+    if (digits.every((digit) => digit === digits[0])) {
+      errors.push('Avoid repeating the same digit');
+    }
+    if (COMMON_PINS.has(pin)) {
+      errors.push('This PIN is too common. Choose a more secure one');
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/** Throws INVALID_PIN_FORMAT for anything but 4 digits and WEAK_PIN, with `reasons`, for a guessable PIN. */
+export function assertPinPolicy(pin: string): void {
+  if (!/^[0-9]{4}$/.test(pin)) {
+    throw new ValidationError('PIN must be a 4-digit numeric code', 'INVALID_PIN_FORMAT');
+  }
+
+  const evaluation = evaluatePin(pin);
+  if (!evaluation.isValid) {
+    throw new ValidationError(evaluation.errors[0]!, 'WEAK_PIN', { reasons: evaluation.errors });
+  }
+}
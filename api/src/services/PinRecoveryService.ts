@@ -0,0 +1,377 @@
+/**
+ * PinRecoveryService lets a user who forgot their PIN choose a new one. The user steps up with an
+ * OTP, KYC-approved users also give the last digits of their ID number, and the new PIN takes effect
+ * after a cooling-off period during which outgoing transfers are frozen.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { UUID, ValidationError } from '../models/base';
+import {
+  MAX_IDENTITY_ATTEMPTS,
+  PinRecovery,
+  PinRecoveryStatus,
+  createPinRecovery,
+  isPinRecoveryDue,
+  validatePinRecovery,
+} from '../models/PinRecovery';
+import { User } from '../models/User';
+import { AuthService, RequestOtpInput, RequestOtpResult } from './AuthService';
+import { assertPinPolicy } from './PinPolicy';
+import {
+  Clock,
+  KYCDocumentRepository,
+  Logger,
+  NotificationService,
+  NullLogger,
+  PinHasher,
+  PinRecoveryRepository,
+  SystemClock,
+  UserRepository,
+} from './types';
+
+export interface PinRecoveryIdentityCheck {
+  type: 'id_number_last_digits';
+  digits: number;
+}
+
+export interface VerifyPinRecoveryOtpResult {
+  recovery: PinRecovery;
+  /** What the user must answer before choosing a PIN; null when the OTP is enough. */
+  identityCheck: PinRecoveryIdentityCheck | null;
+}
+
+export interface CompletePinRecoveryInput {
+  recoveryId: UUID;
+  newPin: string;
+  idNumberLastDigits?: string;
+}
+
+const IDENTITY_DIGITS = 4;
+const RECOVERY_TTL_SECONDS = 15 * 60;
+const DEFAULT_COOLING_OFF_SECONDS = 24 * 60 * 60;
+// After too many wrong identity answers, no new recovery can start for this long
+const FAILED_RECOVERY_LOCKOUT_SECONDS = 24 * 60 * 60;
+// Wrong identity answers add up across the recoveries started within this window
+const IDENTITY_ATTEMPT_WINDOW_SECONDS = 24 * 60 * 60;
+const DEFAULT_COMPLETION_BATCH_SIZE = 100;
+
+const recoveryClosed = (status?: PinRecoveryStatus): ValidationError =>
+  new ValidationError('PIN recovery is no longer open', 'RECOVERY_CLOSED', status ? { status } : undefined);
+
+const recoveryLocked = (now: Date): ValidationError =>
+  new ValidationError('PIN reset is temporarily locked', 'RECOVERY_LOCKED', {
+    retry_after: new Date(now.getTime() + FAILED_RECOVERY_LOCKOUT_SECONDS * 1000).toISOString(),
+  });
+
+export class PinRecoveryService {
+  private readonly authService: AuthService;
+  private readonly userRepository: UserRepository;
+  private readonly kycDocumentRepository: KYCDocumentRepository;
+  private readonly pinRecoveryRepository: PinRecoveryRepository;
+  private readonly pinHasher: PinHasher;
+  private readonly notificationService: NotificationService;
+  private readonly coolingOffSeconds: number;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    authService: AuthService;
+    userRepository: UserRepository;
+    kycDocumentRepository: KYCDocumentRepository;
+    pinRecoveryRepository: PinRecoveryRepository;
+    pinHasher: PinHasher;
+    notificationService: NotificationService;
+    /** How long after choosing it the new PIN takes effect, with transfers frozen meanwhile. */
+    coolingOffSeconds?: number;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.authService = options.authService;
+    this.userRepository = options.userRepository;
+    this.kycDocumentRepository = options.kycDocumentRepository;
+    this.pinRecoveryRepository = options.pinRecoveryRepository;
+    this.pinHasher = options.pinHasher;
+    this.notificationService = options.notificationService;
+    this.coolingOffSeconds = options.coolingOffSeconds ?? DEFAULT_COOLING_OFF_SECONDS;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  /** Sends the OTP through the same session machinery as signing in. */
+  async start(input: RequestOtpInput): Promise<RequestOtpResult> {
+    return this.authService.requestOtp(input);
+  }
+
+  /**
+   * Uses up the OTP session and opens a recovery. A recovery still waiting for its PIN is replaced;
+   * one cooling off, or one that failed its identity check recently, blocks a new one.
+   */
+  async verifyOtp(input: { sessionId: string; otpCode: string }): Promise<VerifyPinRecoveryOtpResult> {
+    const user = await this.authService.verifyOtpChallenge(input);
+    if (user.status !== 'active') {
+      throw new ValidationError('Account is not active', 'ACCOUNT_INACTIVE');
+    }
+    if (!user.pinHash) {
+      throw new ValidationError('PIN not set', 'PIN_NOT_SET');
+    }
+
+    const now = this.clock.now();
+    const latest = await this.pinRecoveryRepository.findLatestByUser(user.id);
+    if (latest && isPinRecoveryDue(latest, now)) {
+      await this.applyNewPin(latest, now);
+    } else if (latest?.status === 'cooling_off') {
+      throw new ValidationError('A PIN reset is already in progress', 'RECOVERY_IN_PROGRESS', {
+        effective_at: latest.effectiveAt!.toISOString(),
+      });
+    } else if (latest?.status === 'failed') {
+      const retryAt = new Date(latest.updatedAt.getTime() + FAILED_RECOVERY_LOCKOUT_SECONDS * 1000);
+      if (retryAt.getTime() > now.getTime()) {
+        throw new ValidationError('PIN reset is temporarily locked', 'RECOVERY_LOCKED', {
+          retry_after: retryAt.toISOString(),
+        });
+      }
+    } else if (latest?.status === 'verified') {
+      await this.pinRecoveryRepository.updateIfStatus({ ...latest, status: 'cancelled', cancelledAt: now, updatedAt: now }, 'verified');
+    }
+
+    const identityCheckRequired = (await this.expectedIdentityAnswer(user)) !== null;
+    const recovery = await this.pinRecoveryRepository.create(
+      createPinRecovery({
+        id: randomUUID(),
+        userId: user.id,
+        identityCheckRequired,
+        expiresAt: new Date(now.getTime() + RECOVERY_TTL_SECONDS * 1000),
+        now,
+      }),
+    );
+
+    this.logger.info('PIN recovery opened', { userId: user.id, recoveryId: recovery.id, identityCheckRequired });
+    return {
+      recovery,
+      identityCheck: identityCheckRequired ? { type: 'id_number_last_digits', digits: IDENTITY_DIGITS } : null,
+    };
+  }
+
+  /**
+   * Checks the identity answer when one is required and schedules the new PIN. Each answer is
+   * counted before it is checked, together with those given in the user's other recent recoveries,
+   * so neither parallel requests nor starting over earn more guesses; after the last wrong one the
+   * recovery fails and the user has to wait before trying again.
+   */
+  async complete(input: CompletePinRecoveryInput): Promise<PinRecovery> {
+    assertPinPolicy(input.newPin);
+
+    const recovery = await this.requireOpenRecovery(input.recoveryId);
+    const user = await this.requireUser(recovery.userId);
+    const now = this.clock.now();
+
+    if (recovery.identityCheckRequired) {
+      const answer = input.idNumberLastDigits?.trim().toUpperCase();
+      if (!answer) {
+        throw new ValidationError('Identity check answer is required', 'IDENTITY_CHECK_REQUIRED');
+      }
+
+      const counted = await this.pinRecoveryRepository.recordIdentityAttempt(recovery.id, {
+        since: new Date(now.getTime() - IDENTITY_ATTEMPT_WINDOW_SECONDS * 1000),
+        maxAttempts: MAX_IDENTITY_ATTEMPTS,
+        now,
+      });
+      if (!counted) {
+        throw recoveryClosed();
+      }
+      if (counted.recovery.status === 'failed') {
+        throw recoveryLocked(now);
+      }
+
+      const expected = await this.expectedIdentityAnswer(user);
+      if (expected === null || answer !== expected) {
+        await this.recordFailedIdentityCheck(counted.recovery, counted.attemptsInWindow);
+      }
+    }
+
+    const effectiveAt = new Date(now.getTime() + this.coolingOffSeconds * 1000);
+    const scheduled: PinRecovery = {
+      ...recovery,
+      status: 'cooling_off',
+      newPinHash: await this.pinHasher.hash(input.newPin),
+      effectiveAt,
+      updatedAt: now,
+    };
+    validatePinRecovery(scheduled);
+    const saved = await this.pinRecoveryRepository.updateIfStatus(scheduled, 'verified');
+    if (!saved) {
+      throw recoveryClosed();
+    }
+    await this.userRepository.update(user.id, { transfersFrozenUntil: effectiveAt, updatedAt: now });
+
+    await this.notify(user.id, {
+      title: 'PIN reset requested',
+      body: `Your new Zanari PIN takes effect on ${effectiveAt.toUTCString()}. Outgoing transfers are paused until then. If this wasn't you, cancel the reset from a signed-in device.`,
+      data: { type: 'pin_recovery_started', recovery_id: saved.id, effective_at: effectiveAt.toISOString() },
+    });
+
+    this.logger.info('PIN recovery cooling off', { userId: user.id, recoveryId: saved.id, effectiveAt: effectiveAt.toISOString() });
+    return saved;
+  }
+
+  /** The recovery as it stands, with its new PIN applied if the cooling-off period is over. */
+  async getStatus(recoveryId: UUID): Promise<PinRecovery> {
+    const recovery = await this.pinRecoveryRepository.findById(recoveryId);
+    if (!recovery) {
+      throw new ValidationError('PIN recovery not found', 'RECOVERY_NOT_FOUND');
+    }
+    const now = this.clock.now();
+    if (isPinRecoveryDue(recovery, now)) {
+      return (await this.applyNewPin(recovery, now)) ?? recovery;
+    }
+    return recovery;
+  }
+
+  /** Cancels the user's open recovery and lifts the transfer freeze it put in place. */
+  async cancel(userId: UUID): Promise<PinRecovery> {
+    const latest = await this.pinRecoveryRepository.findLatestByUser(userId);
+    const now = this.clock.now();
+    if (!latest || (latest.status !== 'verified' && latest.status !== 'cooling_off') || isPinRecoveryDue(latest, now)) {
+      throw new ValidationError('No PIN reset in progress', 'RECOVERY_NOT_FOUND');
+    }
+
+    const cancelled = await this.pinRecoveryRepository.updateIfStatus(
+      { ...latest, status: 'cancelled', cancelledAt: now, updatedAt: now },
+      latest.status,
+    );
+    if (!cancelled) {
+      throw new ValidationError('No PIN reset in progress', 'RECOVERY_NOT_FOUND');
+    }
+    if (latest.status === 'cooling_off') {
+      await this.userRepository.update(userId, { transfersFrozenUntil: null, updatedAt: now });
+    }
+
+    this.logger.warn('PIN recovery cancelled', { userId, recoveryId: cancelled.id });
+    return cancelled;
+  }
+
+  /** Applies every new PIN whose cooling-off period is over; run periodically. */
+  async completeDueRecoveries(options: { now?: Date; limit?: number } = {}): Promise<PinRecovery[]> {
+    const now = options.now ?? this.clock.now();
+    const due = await this.pinRecoveryRepository.listDue(now, { limit: options.limit ?? DEFAULT_COMPLETION_BATCH_SIZE });
+
+    const completed: PinRecovery[] = [];
+    for (const candidate of due) {
+      // eslint-disable-next-line no-await-in-loop
+      const recovery = await this.applyNewPin(candidate, now);
+      if (recovery) {
+        completed.push(recovery);
+      }
+    }
+    return completed;
+  }
+
+  private async applyNewPin(candidate: PinRecovery, now: Date): Promise<PinRecovery | null> {
+    // Re-read so a reset cancelled since it was listed is not applied
+    const recovery = await this.pinRecoveryRepository.findById(candidate.id);
+    if (!recovery || !isPinRecoveryDue(recovery, now)) {
+      return null;
+    }
+
+    // Only the request that completes the recovery applies its PIN; a cancelled one is left alone
+    const completed = await this.pinRecoveryRepository.updateIfStatus(
+      { ...recovery, status: 'completed', completedAt: now, updatedAt: now },
+      'cooling_off',
+    );
+    if (!completed) {
+      return null;
+    }
+    await this.userRepository.update(recovery.userId, {
+      pinHash: recovery.newPinHash,
+      pinSetAt: now,
+      failedPinAttempts: 0,
+      lastFailedAttemptAt: null,
+      transfersFrozenUntil: null,
+      updatedAt: now,
+    });
+
+    await this.notify(recovery.userId, {
+      title: 'Your new PIN is active',
+      body: 'Your Zanari PIN was reset and transfers are available again.',
+      data: { type: 'pin_recovery_completed', recovery_id: recovery.id },
+    });
+
+    this.logger.info('PIN recovery completed', { userId: recovery.userId, recoveryId: recovery.id });
+    return completed;
+  }
+
+  private async requireOpenRecovery(recoveryId: UUID): Promise<PinRecovery> {
+    const recovery = await this.pinRecoveryRepository.findById(recoveryId);
+    if (!recovery) {
+      throw new ValidationError('PIN recovery not found', 'RECOVERY_NOT_FOUND');
+    }
+    if (recovery.status !== 'verified') {
+      throw recoveryClosed(recovery.status);
+    }
+
+    const now = this.clock.now();
+    if (recovery.expiresAt.getTime() <= now.getTime()) {
+      await this.pinRecoveryRepository.updateIfStatus({ ...recovery, status: 'cancelled', cancelledAt: now, updatedAt: now }, 'verified');
+      throw new ValidationError('PIN recovery expired', 'RECOVERY_EXPIRED');
+    }
+    return recovery;
+  }
+
+  private async recordFailedIdentityCheck(recovery: PinRecovery, attemptsInWindow: number): Promise<never> {
+    const now = this.clock.now();
+    const failed = attemptsInWindow >= MAX_IDENTITY_ATTEMPTS;
+    if (failed) {
+      await this.pinRecoveryRepository.updateIfStatus({ ...recovery, status: 'failed', updatedAt: now }, 'verified');
+    }
+
+    this.logger.warn('PIN recovery identity check failed', {
+      userId: recovery.userId,
+      recoveryId: recovery.id,
+      identityAttempts: recovery.identityAttempts,
+      attemptsInWindow,
+    });
+    if (failed) {
+      throw recoveryLocked(now);
+    }
+    throw new ValidationError('Identity check failed', 'IDENTITY_CHECK_FAILED', {
+      attempts_remaining: MAX_IDENTITY_ATTEMPTS - attemptsInWindow,
+    });
+  }
+
+  /**
+   * The last digits of the ID number read from the user's approved KYC documents. Users who are not
+   * KYC-approved, or whose documents carry no ID number, have no identity question.
+   */
+  private async expectedIdentityAnswer(user: User): Promise<string | null> {
+    if (user.kycStatus !== 'approved') {
+      return null;
+    }
+
+    const documents = await this.kycDocumentRepository.listByUser(user.id);
+    const idNumber = documents.find((document) => document.status === 'approved' && document.extractedData?.idNumber)
+      ?.extractedData?.idNumber;
+    const normalized = idNumber?.replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+    return normalized && normalized.length >= IDENTITY_DIGITS ? normalized.slice(-IDENTITY_DIGITS) : null;
+  }
+
+  private async requireUser(userId: UUID): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new ValidationError('User not found', 'USER_NOT_FOUND');
+    }
+    return user;
+  }
+
+  private async notify(userId: UUID, notification: { title: string; body: string; data: Record<string, unknown> }): Promise<void> {
+    try {
+      await this.notificationService.notifyUser(userId, notification);
+    } catch (error) {
+      this.logger.warn('Failed to send PIN recovery notification', {
+        userId,
+        type: notification.data.type,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
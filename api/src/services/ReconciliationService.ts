@@ -0,0 +1,258 @@
+/**
+ * ReconciliationService sweeps transactions that have stayed pending past a threshold, asks
+ * Paystack for their real state and settles them through PaymentSettlementService, so money still
+ * moves when both the client callback and the webhook were lost. Every disagreement found is
+ * appended to the day's reconciliation report.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import {
+  ReconciliationMismatch,
+  ReconciliationReport,
+  createReconciliationReport,
+  reconciliationReportDate,
+} from '../models/ReconciliationReport';
+import { Transaction, TransactionType } from '../models/Transaction';
+import { PaymentSettlementService, parseExternalTransferMetadata } from './PaymentSettlementService';
+import {
+  Clock,
+  Logger,
+  NullLogger,
+  PaystackClient,
+  ReconciliationReportRepository,
+  SystemClock,
+  TransactionRepository,
+} from './types';
+
+const DEFAULT_PENDING_THRESHOLD_MS = 30 * 60 * 1000;
+const DEFAULT_ABANDON_AFTER_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 100;
+const RECONCILED_TYPES: TransactionType[] = ['deposit', 'payment', 'transfer_out', 'withdrawal'];
+
+export interface ReconciliationSweepResult {
+  checked: number;
+  resolved: number;
+  mismatches: ReconciliationMismatch[];
+  report: ReconciliationReport;
+}
+
+type MismatchDraft = Pick<ReconciliationMismatch, 'providerStatus' | 'providerAmount' | 'reason' | 'action' | 'detail'>;
+
+export class ReconciliationService {
+  private readonly transactionRepository: TransactionRepository;
+  private readonly paystackClient: PaystackClient;
+  private readonly settlementService: PaymentSettlementService;
+  private readonly reportRepository: ReconciliationReportRepository;
+  private readonly pendingThresholdMs: number;
+  private readonly abandonAfterMs: number;
+  private readonly batchSize: number;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    transactionRepository: TransactionRepository;
+    paystackClient: PaystackClient;
+    settlementService: PaymentSettlementService;
+    reportRepository: ReconciliationReportRepository;
+    pendingThresholdMs?: number;
+    abandonAfterMs?: number;
+    batchSize?: number;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.transactionRepository = options.transactionRepository;
+    this.paystackClient = options.paystackClient;
+    this.settlementService = options.settlementService;
+    this.reportRepository = options.reportRepository;
+    this.pendingThresholdMs = options.pendingThresholdMs ?? DEFAULT_PENDING_THRESHOLD_MS;
+    this.abandonAfterMs = options.abandonAfterMs ?? DEFAULT_ABANDON_AFTER_MS;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  /**
+   * Check pending transactions older than the threshold (overridable per run) against Paystack.
+   */
+  async sweep(options: { olderThanMs?: number } = {}): Promise<ReconciliationSweepResult> {
+    const now = this.clock.now();
+    const cutoff = new Date(now.getTime() - (options.olderThanMs ?? this.pendingThresholdMs));
+    const pending = await this.transactionRepository.listPendingCreatedBefore(cutoff, {
+      types: RECONCILED_TYPES,
+      limit: this.batchSize,
+    });
+
+    const mismatches: ReconciliationMismatch[] = [];
+    let resolved = 0;
+
+    for (const transaction of pending) {
+      // eslint-disable-next-line no-await-in-loop
+      const draft = await this.reconcile(transaction, now);
+      if (!draft) {
+        continue;
+      }
+      if (draft.action !== 'none') {
+        resolved += 1;
+      }
+      mismatches.push({
+        transactionId: transaction.id,
+        userId: transaction.userId,
+        transactionType: transaction.type,
+        reference: transaction.externalReference ?? null,
+        localStatus: transaction.status,
+        expectedAmount: this.settlementService.expectedChargeAmount(transaction),
+        detectedAt: now,
+        ...draft,
+      });
+    }
+
+    const report = await this.appendToReport(now, { checked: pending.length, resolved, mismatches });
+
+    this.logger.info('Reconciliation sweep finished', {
+      checked: pending.length,
+      resolved,
+      mismatches: mismatches.length,
+      reportDate: report.reportDate,
+    });
+
+    return { checked: pending.length, resolved, mismatches, report };
+  }
+
+  async getReport(reportDate: string): Promise<ReconciliationReport | null> {
+    return this.reportRepository.findByDate(reportDate);
+  }
+
+  /**
+   * Returns null when local state agrees with Paystack (the transaction is still in flight).
+   */
+  private async reconcile(transaction: Transaction, now: Date): Promise<MismatchDraft | null> {
+    const isPaystackTransfer =
+      transaction.type === 'withdrawal' ||
+      (transaction.type === 'transfer_out' && parseExternalTransferMetadata(transaction).transferType !== 'external');
+
+    // A transfer gets its transfer code once Paystack accepts it; one without, or a payout still
+    // held for screening, was never sent, so Paystack has nothing to report on it yet
+    if (transaction.heldForScreening || (isPaystackTransfer && !transaction.externalTransactionId)) {
+      return null;
+    }
+
+    try {
+      return isPaystackTransfer
+        ? await this.reconcileTransfer(transaction)
+        : await this.reconcileCharge(transaction, now);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error('Failed to reconcile transaction', { transactionId: transaction.id, error: detail });
+      return { providerStatus: null, providerAmount: null, reason: 'provider_error', action: 'none', detail };
+    }
+  }
+
+  private async reconcileCharge(transaction: Transaction, now: Date): Promise<MismatchDraft | null> {
+    const verification = await this.paystackClient.verifyTransaction(this.providerReference(transaction));
+    const observed = { providerStatus: verification.status, providerAmount: verification.amount };
+
+    if (verification.status === 'abandoned') {
+      if (now.getTime() - transaction.createdAt.getTime() < this.abandonAfterMs) {
+        return null;
+      }
+      return this.apply(observed, 'abandoned_checkout', 'failed', () => this.settlementService.failCharge(transaction));
+    }
+
+    if (verification.status === 'failed') {
+      return this.apply(observed, 'missed_settlement', 'failed', () => this.settlementService.failCharge(transaction));
+    }
+
+    const expected = this.settlementService.expectedChargeAmount(transaction);
+    if (verification.amount < expected) {
+      return {
+        ...observed,
+        reason: 'amount_mismatch',
+        action: 'none',
+        detail: `Paystack collected ${verification.amount} but ${expected} was expected`,
+      };
+    }
+
+    return this.apply(observed, 'missed_settlement', 'completed', () => this.settlementService.completeCharge(transaction));
+  }
+
+  private async reconcileTransfer(transaction: Transaction): Promise<MismatchDraft | null> {
+    const verification = await this.paystackClient.verifyTransfer(this.providerReference(transaction));
+    const observed = { providerStatus: verification.status, providerAmount: null };
+
+    if (transaction.type === 'withdrawal') {
+      switch (verification.status) {
+        case 'pending':
+          return null;
+        case 'success':
+          return this.apply(observed, 'missed_settlement', 'completed', () =>
+            this.settlementService.completeWithdrawal(transaction),
+          );
+        case 'failed':
+        case 'reversed':
+          return this.apply(observed, 'missed_settlement', 'failed', () =>
+            this.settlementService.failWithdrawal(transaction),
+          );
+      }
+    }
+
+    switch (verification.status) {
+      case 'pending':
+        return null;
+      case 'success':
+        return this.apply(observed, 'missed_settlement', 'completed', () =>
+          this.settlementService.completeTransfer(transaction),
+        );
+      case 'failed':
+        return this.apply(observed, 'missed_settlement', 'failed', () =>
+          this.settlementService.reverseTransfer(transaction, 'failed'),
+        );
+      case 'reversed':
+        return this.apply(observed, 'missed_settlement', 'cancelled', () =>
+          this.settlementService.reverseTransfer(transaction, 'cancelled'),
+        );
+    }
+  }
+
+  private async apply(
+    observed: Pick<MismatchDraft, 'providerStatus' | 'providerAmount'>,
+    reason: ReconciliationMismatch['reason'],
+    action: Exclude<ReconciliationMismatch['action'], 'none'>,
+    settle: () => Promise<unknown>,
+  ): Promise<MismatchDraft> {
+    try {
+      await settle();
+      return { ...observed, reason, action, detail: null };
+    } catch (error) {
+      return {
+        ...observed,
+        reason: 'settlement_error',
+        action: 'none',
+        detail: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private async appendToReport(
+    now: Date,
+    run: { checked: number; resolved: number; mismatches: ReconciliationMismatch[] },
+  ): Promise<ReconciliationReport> {
+    const reportDate = reconciliationReportDate(now);
+    const existing =
+      (await this.reportRepository.findByDate(reportDate)) ??
+      createReconciliationReport({ id: randomUUID(), reportDate, now });
+
+    return this.reportRepository.save({
+      ...existing,
+      sweeps: existing.sweeps + 1,
+      checked: existing.checked + run.checked,
+      resolved: existing.resolved + run.resolved,
+      mismatches: [...existing.mismatches, ...run.mismatches],
+      updatedAt: now,
+    });
+  }
+
+  private providerReference(transaction: Transaction): string {
+    return transaction.externalReference ?? transaction.id;
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * RefundService returns money from completed merchant payments to the payer's main wallet and
+ * tracks disputes raised against those payments. Back-office refunds, Paystack refund events and
+ * accepted disputes all go through refundPayment, so each produces the same linked refund
+ * transaction and wallet credit.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { UUID, ValidationError } from '../models/base';
+import { DisputeStatus, Transaction } from '../models/Transaction';
+import {
+  Clock,
+  Logger,
+  NotificationService,
+  NullLogger,
+  SystemClock,
+  TransactionRepository,
+  UnitOfWork,
+  UnitOfWorkScope,
+} from './types';
+import { TransactionService } from './TransactionService';
+import { WalletService } from './WalletService';
+
+export interface RefundPaymentInput {
+  transactionId: UUID;
+  /** Defaults to everything that has not been refunded yet. */
+  amount?: number;
+  /** Defaults to true once the payment is refunded in full. */
+  returnRoundUp?: boolean;
+  reason?: string | null;
+  /** Paystack refund or dispute identifier; a repeated reference is not refunded twice. */
+  providerReference?: string | null;
+}
+
+export interface RefundResult {
+  payment: Transaction;
+  refund: Transaction;
+  roundUpReturned: number;
+  /** False when the provider reference had already been refunded and nothing was applied. */
+  applied: boolean;
+}
+
+export type DisputeResolution = Extract<DisputeStatus, 'accepted' | 'declined'>;
+
+export class RefundService {
+  private readonly transactionRepository: TransactionRepository;
+  private readonly transactionService: TransactionService;
+  private readonly walletService: WalletService;
+  private readonly notificationService: NotificationService | null;
+  private readonly unitOfWork: UnitOfWork;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    transactionRepository: TransactionRepository;
+    transactionService: TransactionService;
+    walletService: WalletService;
+    notificationService?: NotificationService;
+    unitOfWork: UnitOfWork;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.transactionRepository = options.transactionRepository;
+    this.transactionService = options.transactionService;
+    this.walletService = options.walletService;
+    this.notificationService = options.notificationService ?? null;
+    this.unitOfWork = options.unitOfWork;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  /**
+   * Locate the payment a Paystack refund or dispute event refers to.
+   */
+  async findPaymentByReference(reference: string): Promise<Transaction | null> {
+    const transaction =
+      (await this.transactionRepository.findByExternalReference(reference)) ??
+      (await this.transactionRepository.findById(reference));
+    return transaction && transaction.type === 'payment' ? transaction : null;
+  }
+
+  /**
+   * Refund all or part of a completed merchant payment: record a completed refund transaction
+   * linked to the payment, credit the main wallet and, when asked, move the payment's round-up
+   * back out of savings.
+   */
+  async refundPayment(input: RefundPaymentInput): Promise<RefundResult> {
+    const providerReference = input.providerReference ? `refund:${input.providerReference}` : null;
+    if (providerReference) {
+      const existing = await this.transactionRepository.findByExternalReference(providerReference);
+      if (existing) {
+        this.logger.info('Refund already recorded', { refundId: existing.id, providerReference });
+        const payment = await this.requirePayment(existing.relatedTransactionId ?? input.transactionId);
+        return { payment, refund: existing, roundUpReturned: 0, applied: false };
+      }
+    }
+
+    // The refund row, the wallet credit, any returned round-up and the payment's refunded amount
+    // commit together; the payment is re-read if a wallet changes underneath the unit
+    const { payment, refund, amount, roundUpReturned, fullyRefunded, updatedPayment } = await this.unitOfWork.run(
+      async (scope) => {
+        const payment = await this.requirePayment(input.transactionId, scope.transactionRepository);
+        if (payment.status !== 'completed') {
+          throw new ValidationError('Only completed payments can be refunded', 'PAYMENT_NOT_REFUNDABLE');
+        }
+
+        const refundable = payment.amount - (payment.refundedAmount ?? 0);
+        const amount = input.amount ?? refundable;
+        if (!Number.isInteger(amount) || amount <= 0) {
+          throw new ValidationError('Refund amount must be a positive amount in cents', 'INVALID_AMOUNT');
+        }
+        if (amount > refundable) {
+          throw new ValidationError(
+            `Refund of ${amount} exceeds the ${refundable} still refundable on this payment`,
+            'REFUND_EXCEEDS_REFUNDABLE',
+          );
+        }
+
+        const now = this.clock.now();
+        const fullyRefunded = amount === refundable;
+        const refund = await this.transactionService.forScope(scope).create({
+          id: randomUUID(),
+          userId: payment.userId,
+          type: 'refund',
+          amount,
+          category: payment.category,
+          autoCategorized: false,
+          status: 'completed',
+          skipLimits: true,
+          metadata: {
+            relatedTransactionId: payment.id,
+            externalReference: providerReference,
+            merchantInfo: payment.merchantInfo ?? null,
+            description:
+              input.reason?.trim() ||
+              `Refund${payment.merchantInfo?.name ? ` from ${payment.merchantInfo.name}` : ''}`,
+            completedAt: now,
+          },
+        });
+
+        await this.walletService.forScope(scope).credit({
+          userId: payment.userId,
+          walletType: 'main',
+          amount,
+          transactionId: refund.id,
+          description: 'Payment refund',
+        });
+
+        const roundUpReturned = (input.returnRoundUp ?? fullyRefunded) ? await this.returnRoundUp(scope, payment) : 0;
+
+        const updatedPayment = await scope.transactionRepository.update({
+          ...payment,
+          refundedAmount: (payment.refundedAmount ?? 0) + amount,
+          updatedAt: now,
+        });
+
+        return { payment, refund, amount, roundUpReturned, fullyRefunded, updatedPayment };
+      },
+    );
+
+    await this.notify(payment.userId, {
+      title: 'Refund received',
+      body: `KES ${((amount + roundUpReturned) / 100).toFixed(2)}${
+        payment.merchantInfo?.name ? ` from ${payment.merchantInfo.name}` : ''
+      } has been returned to your wallet.`,
+      data: { transactionId: refund.id, relatedTransactionId: payment.id },
+    });
+
+    this.logger.info('Payment refunded', {
+      paymentId: payment.id,
+      refundId: refund.id,
+      amount,
+      roundUpReturned,
+      fullyRefunded,
+    });
+
+    return { payment: updatedPayment, refund, roundUpReturned, applied: true };
+  }
+
+  /**
+   * Record a dispute against a completed payment. Moving an open dispute to under_review is the
+   * only transition allowed once a dispute exists; resolved disputes are left unchanged.
+   */
+  async openDispute(transactionId: UUID, status: Extract<DisputeStatus, 'open' | 'under_review'> = 'open'): Promise<Transaction> {
+    const payment = await this.requirePayment(transactionId);
+    if (payment.status !== 'completed') {
+      throw new ValidationError('Only completed payments can be disputed', 'PAYMENT_NOT_DISPUTABLE');
+    }
+
+    const current = payment.disputeStatus ?? null;
+    if (current === status || current === 'under_review' || current === 'accepted' || current === 'declined') {
+      return payment;
+    }
+
+    const updated = await this.transactionRepository.update({
+      ...payment,
+      disputeStatus: status,
+      updatedAt: this.clock.now(),
+    });
+    this.logger.warn('Payment dispute recorded', { paymentId: payment.id, from: current, to: status });
+    return updated;
+  }
+
+  /**
+   * Close a dispute. Accepted disputes refund the given amount (everything still refundable by
+   * default) through refundPayment.
+   */
+  async resolveDispute(input: {
+    transactionId: UUID;
+    resolution: DisputeResolution;
+    refundAmount?: number;
+    providerReference?: string | null;
+  }): Promise<{ payment: Transaction; refund: RefundResult | null }> {
+    let payment = await this.requirePayment(input.transactionId);
+    if (payment.disputeStatus === 'accepted' || payment.disputeStatus === 'declined') {
+      this.logger.info('Dispute already resolved', { paymentId: payment.id, disputeStatus: payment.disputeStatus });
+      return { payment, refund: null };
+    }
+
+    let refund: RefundResult | null = null;
+    const refundable = payment.amount - (payment.refundedAmount ?? 0);
+    if (input.resolution === 'accepted' && refundable > 0) {
+      refund = await this.refundPayment({
+        transactionId: payment.id,
+        amount: input.refundAmount ? Math.min(input.refundAmount, refundable) : undefined,
+        reason: 'Dispute resolved in your favour',
+        providerReference: input.providerReference ? `dispute:${input.providerReference}` : null,
+      });
+      payment = refund.payment;
+    }
+
+    const resolved = await this.transactionRepository.update({
+      ...payment,
+      disputeStatus: input.resolution,
+      updatedAt: this.clock.now(),
+    });
+    this.logger.warn('Payment dispute resolved', { paymentId: payment.id, resolution: input.resolution });
+    return { payment: resolved, refund };
+  }
+
+  /**
+   * Move a completed round-up back to the main wallet and cancel its transaction. Skipped when the
+   * savings wallet no longer holds the amount. Returns the amount moved.
+   */
+  private async returnRoundUp(scope: UnitOfWorkScope, payment: Transaction): Promise<number> {
+    const roundUpId = payment.roundUpDetails?.relatedTransactionId;
+    if (!roundUpId) {
+      return 0;
+    }
+
+    const roundUp = await scope.transactionRepository.findById(roundUpId);
+    if (!roundUp || roundUp.type !== 'round_up' || roundUp.status !== 'completed') {
+      return 0;
+    }
+
+    const walletService = this.walletService.forScope(scope);
+    const savings = await walletService.getWallet(payment.userId, 'savings');
+    if (!savings || savings.availableBalance < roundUp.amount) {
+      this.logger.warn('Round-up not returned; savings balance too low', {
+        paymentId: payment.id,
+        roundUpId: roundUp.id,
+        roundUpAmount: roundUp.amount,
+      });
+      return 0;
+    }
+
+    await walletService.transfer({
+      userId: payment.userId,
+      fromWalletType: 'savings',
+      toWalletType: 'main',
+      amount: roundUp.amount,
+      transactionId: roundUp.id,
+      description: 'Round-up returned with refund',
+    });
+    await this.transactionService.forScope(scope).markStatus(roundUp, 'cancelled');
+    return roundUp.amount;
+  }
+
+  private async requirePayment(
+    transactionId: UUID,
+    transactionRepository: TransactionRepository = this.transactionRepository,
+  ): Promise<Transaction> {
+    const transaction = await transactionRepository.findById(transactionId);
+    if (!transaction || transaction.type !== 'payment') {
+      throw new ValidationError('Payment not found', 'PAYMENT_NOT_FOUND');
+    }
+    return transaction;
+  }
+
+  private async notify(
+    userId: string,
+    payload: { title: string; body: string; data?: Record<string, unknown> },
+  ): Promise<void> {
+    if (!this.notificationService) {
+      return;
+    }
+
+    try {
+      await this.notificationService.notifyUser(userId, payload);
+    } catch (error) {
+      this.logger.warn('Failed to send refund notification', {
+        userId,
+        title: payload.title,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
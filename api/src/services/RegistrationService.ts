@@ -1,6 +1,7 @@
 import { ValidationError } from '../models/base';
 import { createUser, User } from '../models/User';
 import { AuthService } from './AuthService';
+import { ScreeningService } from './ScreeningService';
 import { IdentityProvider, UserRepository } from './types';
 
 export interface RegistrationInput {
@@ -23,6 +24,8 @@ export class RegistrationService {
       userRepository: UserRepository;
       identityProvider: IdentityProvider;
       authService: AuthService;
+      /** Without it new customers are not screened against the watchlist. */
+      screeningService?: ScreeningService;
     },
   ) {}
 
@@ -69,6 +72,14 @@ export class RegistrationService {
 
     const savedUser = await userRepository.create(user);
 
+    // A possible watchlist match still registers the customer, with the account on hold, so the
+    // response gives nothing away
+    await this.dependencies.screeningService?.screenCustomer({
+      userId: savedUser.id,
+      trigger: 'registration',
+      subject: { name: `${firstName} ${lastName}`, dateOfBirth: savedUser.dateOfBirth },
+    });
+
     const otpResult = await authService.requestOtp({ phone });
 
     return {
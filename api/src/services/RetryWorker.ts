@@ -0,0 +1,289 @@
+/**
+ * RetryWorker drains the retry_jobs queue. Each run leases due jobs, asks Paystack for the current
+ * state of the transaction a job refers to, settles it through PaymentSettlementService, and keeps
+ * the transaction's RetryInfo in step with the queue. Jobs that run out of attempts are
+ * dead-lettered and left for an operator.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { Transaction } from '../models/Transaction';
+import { PaymentSettlementService, parseExternalTransferMetadata } from './PaymentSettlementService';
+import {
+  Clock,
+  Logger,
+  NullLogger,
+  PaystackClient,
+  RetryJob,
+  RetryJobType,
+  RetryQueue,
+  SystemClock,
+  TransactionRepository,
+} from './types';
+
+const DEFAULT_LEASE_MS = 2 * 60 * 1000;
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_BACKOFF_MS = [60_000, 5 * 60_000, 15 * 60_000, 60 * 60_000];
+
+/**
+ * - resolved: nothing left to do for this job
+ * - retry: the provider has no final answer yet; try again later
+ */
+type RetryHandlerOutcome = { outcome: 'resolved' } | { outcome: 'retry'; reason: string };
+
+/**
+ * Thrown by handlers when a job can never succeed, so it is dead-lettered without burning the
+ * remaining attempts.
+ */
+export class PermanentRetryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentRetryError';
+  }
+}
+
+export interface RetryRunSummary {
+  claimed: number;
+  resolved: number;
+  rescheduled: number;
+  deadLettered: number;
+}
+
+export class RetryWorker {
+  private readonly retryQueue: RetryQueue;
+  private readonly transactionRepository: TransactionRepository;
+  private readonly paystackClient: PaystackClient;
+  private readonly settlementService: PaymentSettlementService;
+  private readonly workerId: string;
+  private readonly leaseMs: number;
+  private readonly batchSize: number;
+  private readonly backoffMs: number[];
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    retryQueue: RetryQueue;
+    transactionRepository: TransactionRepository;
+    paystackClient: PaystackClient;
+    settlementService: PaymentSettlementService;
+    workerId?: string;
+    leaseMs?: number;
+    batchSize?: number;
+    backoffMs?: number[];
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.retryQueue = options.retryQueue;
+    this.transactionRepository = options.transactionRepository;
+    this.paystackClient = options.paystackClient;
+    this.settlementService = options.settlementService;
+    this.workerId = options.workerId ?? `retry-worker-${randomUUID()}`;
+    this.leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.backoffMs = options.backoffMs && options.backoffMs.length > 0 ? options.backoffMs : DEFAULT_BACKOFF_MS;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  async runOnce(): Promise<RetryRunSummary> {
+    const jobs = await this.retryQueue.claimDue({
+      workerId: this.workerId,
+      now: this.clock.now(),
+      leaseMs: this.leaseMs,
+      limit: this.batchSize,
+    });
+
+    const summary: RetryRunSummary = { claimed: jobs.length, resolved: 0, rescheduled: 0, deadLettered: 0 };
+    for (const job of jobs) {
+      const result = await this.processJob(job);
+      summary[result] += 1;
+    }
+
+    if (jobs.length > 0) {
+      this.logger.info('Retry worker run finished', { workerId: this.workerId, ...summary });
+    }
+    return summary;
+  }
+
+  private async processJob(job: RetryJob): Promise<'resolved' | 'rescheduled' | 'deadLettered'> {
+    const transactionId = typeof job.payload.transactionId === 'string' ? job.payload.transactionId : null;
+    let outcome: RetryHandlerOutcome;
+
+    try {
+      if (!transactionId) {
+        throw new PermanentRetryError('Retry job has no transactionId');
+      }
+      const transaction = await this.transactionRepository.findById(transactionId);
+      if (!transaction) {
+        throw new PermanentRetryError(`Transaction ${transactionId} not found`);
+      }
+      outcome = await this.dispatch(this.resolveJobType(job, transaction), transaction);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (error instanceof PermanentRetryError) {
+        return this.deadLetter(job, transactionId, message);
+      }
+      outcome = { outcome: 'retry', reason: message };
+    }
+
+    if (outcome.outcome === 'resolved') {
+      await this.retryQueue.complete(job.id, this.workerId);
+      await this.recordRetry(transactionId, null);
+      return 'resolved';
+    }
+
+    if (job.attempts >= job.maxAttempts) {
+      return this.deadLetter(job, transactionId, outcome.reason);
+    }
+
+    const delayMs = this.backoffMs[Math.min(job.attempts - 1, this.backoffMs.length - 1)] ?? 0;
+    const runAt = new Date(this.clock.now().getTime() + delayMs);
+    await this.retryQueue.reschedule(job.id, this.workerId, { runAt, error: outcome.reason });
+    await this.recordRetry(transactionId, runAt);
+    this.logger.info('Retry job rescheduled', { jobId: job.id, transactionId, attempts: job.attempts, runAt: runAt.toISOString() });
+    return 'rescheduled';
+  }
+
+  private async deadLetter(job: RetryJob, transactionId: string | null, error: string): Promise<'deadLettered'> {
+    await this.retryQueue.deadLetter(job.id, this.workerId, { error });
+    await this.recordRetry(transactionId, null);
+    this.logger.error('Retry job dead-lettered', { jobId: job.id, transactionId, attempts: job.attempts, error });
+    return 'deadLettered';
+  }
+
+  /**
+   * Jobs enqueued before payloads carried a type are routed by transaction type.
+   */
+  private resolveJobType(job: RetryJob, transaction: Transaction): RetryJobType {
+    const type = job.payload.type;
+    if (type === 'merchant_payment' || type === 'transfer_verification' || type === 'deposit_check') {
+      return type;
+    }
+    if (type !== undefined) {
+      throw new PermanentRetryError(`Unknown retry job type: ${String(type)}`);
+    }
+
+    switch (transaction.type) {
+      case 'payment':
+        return 'merchant_payment';
+      case 'transfer_out':
+        return 'transfer_verification';
+      case 'deposit':
+        return 'deposit_check';
+      default:
+        throw new PermanentRetryError(`No retry handler for ${transaction.type} transactions`);
+    }
+  }
+
+  private dispatch(type: RetryJobType, transaction: Transaction): Promise<RetryHandlerOutcome> {
+    switch (type) {
+      case 'merchant_payment':
+        return this.retryMerchantPayment(transaction);
+      case 'transfer_verification':
+        return this.reverifyTransfer(transaction);
+      case 'deposit_check':
+        return this.recheckDeposit(transaction);
+    }
+  }
+
+  /**
+   * The Paystack checkout survives a local failure, so the customer may still have paid. Settle
+   * the payment if they did; a failed charge needs no further work because the wallet was refunded.
+   */
+  private async retryMerchantPayment(transaction: Transaction): Promise<RetryHandlerOutcome> {
+    this.assertType(transaction, 'payment');
+    if (transaction.status === 'completed' || transaction.status === 'cancelled') {
+      return { outcome: 'resolved' };
+    }
+
+    const verification = await this.paystackClient.verifyTransaction(this.providerReference(transaction));
+    if (verification.status === 'abandoned') {
+      return { outcome: 'retry', reason: 'Checkout not completed yet' };
+    }
+    if (verification.status === 'failed') {
+      // Payments that already failed locally were refunded then; failCharge skips them
+      await this.settlementService.failCharge(transaction);
+      return { outcome: 'resolved' };
+    }
+
+    this.assertChargeAmount(transaction, verification.amount);
+    const pending = await this.settlementService.reinstateFailedDebit(transaction);
+    await this.settlementService.completeCharge(pending);
+    return { outcome: 'resolved' };
+  }
+
+  private async reverifyTransfer(transaction: Transaction): Promise<RetryHandlerOutcome> {
+    this.assertType(transaction, 'transfer_out');
+    if (parseExternalTransferMetadata(transaction).transferType === 'external') {
+      throw new PermanentRetryError('External transfers are settled by their Paystack charge');
+    }
+    if (transaction.status === 'completed' || transaction.status === 'cancelled') {
+      return { outcome: 'resolved' };
+    }
+
+    const verification = await this.paystackClient.verifyTransfer(this.providerReference(transaction));
+    switch (verification.status) {
+      case 'pending':
+        return { outcome: 'retry', reason: 'Transfer still pending at Paystack' };
+      case 'success': {
+        const pending = await this.settlementService.reinstateFailedDebit(transaction);
+        await this.settlementService.completeTransfer(pending);
+        return { outcome: 'resolved' };
+      }
+      case 'failed':
+      case 'reversed':
+        // Already-failed transfers were refunded when they failed; reverseTransfer skips them
+        await this.settlementService.reverseTransfer(transaction, verification.status === 'reversed' ? 'cancelled' : 'failed');
+        return { outcome: 'resolved' };
+    }
+  }
+
+  private async recheckDeposit(transaction: Transaction): Promise<RetryHandlerOutcome> {
+    this.assertType(transaction, 'deposit');
+    if (transaction.status !== 'pending') {
+      return { outcome: 'resolved' };
+    }
+
+    const verification = await this.paystackClient.verifyTransaction(this.providerReference(transaction));
+    switch (verification.status) {
+      case 'abandoned':
+        return { outcome: 'retry', reason: 'Checkout not completed yet' };
+      case 'failed':
+        await this.settlementService.failCharge(transaction);
+        return { outcome: 'resolved' };
+      case 'success':
+        this.assertChargeAmount(transaction, verification.amount);
+        await this.settlementService.completeCharge(transaction);
+        return { outcome: 'resolved' };
+    }
+  }
+
+  /**
+   * Keep RetryInfo on the transaction in step with the queue: every run counts as a retry, and
+   * nextRetryAt is cleared once no further run is planned.
+   */
+  private async recordRetry(transactionId: string | null, nextRetryAt: Date | null): Promise<void> {
+    if (!transactionId) {
+      return;
+    }
+
+    await this.transactionRepository.recordRetry(transactionId, { lastRetryAt: this.clock.now(), nextRetryAt });
+  }
+
+  private providerReference(transaction: Transaction): string {
+    return transaction.externalReference ?? transaction.id;
+  }
+
+  private assertType(transaction: Transaction, expected: Transaction['type']): void {
+    if (transaction.type !== expected) {
+      throw new PermanentRetryError(`Expected a ${expected} transaction but ${transaction.id} is ${transaction.type}`);
+    }
+  }
+
+  private assertChargeAmount(transaction: Transaction, amount: number): void {
+    const expected = this.settlementService.expectedChargeAmount(transaction);
+    if (amount < expected) {
+      throw new PermanentRetryError(`Paystack collected ${amount} but ${expected} was expected`);
+    }
+  }
+}
@@ -94,10 +94,18 @@ export class SavingsInvestmentService {
       throw new Error('Insufficient funds in savings wallet');
     }
 
-    await this.walletService.debit({ userId, walletType: 'savings', amount });
+    const transactionId = randomUUID();
+    await this.walletService.debit({
+      userId,
+      walletType: 'savings',
+      amount,
+      counterAccount: 'investment_pool',
+      transactionId,
+      description: 'Allocation to Zanari Yield Pool',
+    });
 
     await this.transactionService.create({
-      id: randomUUID(),
+      id: transactionId,
       userId,
       type: 'investment_allocation',
       amount,
@@ -132,10 +140,18 @@ export class SavingsInvestmentService {
     };
     await this.positionRepository.save(updatedPosition);
 
-    await this.walletService.credit({ userId, walletType: 'savings', amount });
+    const transactionId = randomUUID();
+    await this.walletService.credit({
+      userId,
+      walletType: 'savings',
+      amount,
+      counterAccount: 'investment_pool',
+      transactionId,
+      description: 'Redemption from Zanari Yield Pool',
+    });
 
     await this.transactionService.create({
-      id: randomUUID(),
+      id: transactionId,
       userId,
       type: 'investment_redemption',
       amount,
@@ -168,10 +184,18 @@ export class SavingsInvestmentService {
       updatedAt: this.clock.now(),
     };
     await this.positionRepository.save(updatedPosition);
-    await this.walletService.credit({ userId, walletType: 'savings', amount: payout });
+    const transactionId = randomUUID();
+    await this.walletService.credit({
+      userId,
+      walletType: 'savings',
+      amount: payout,
+      counterAccount: 'interest_expense',
+      transactionId,
+      description: 'Interest payout from Zanari Yield Pool',
+    });
 
     await this.transactionService.create({
-      id: randomUUID(),
+      id: transactionId,
       userId,
       type: 'interest_payout',
       amount: payout,
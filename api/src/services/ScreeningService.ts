@@ -0,0 +1,201 @@
+/**
+ * ScreeningService checks customers and payout recipients against the sanctions and PEP watchlist.
+ * Customers are screened when they register and again when a KYC document is approved, with the
+ * name and date of birth read off it; payout recipients before money leaves for them. A possible
+ * match opens a case for the back office: a customer's account goes on hold, which refuses outgoing
+ * money until an admin clears it, while a payout hit only holds that payout. Nothing is said to the
+ * customer about why.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { UUID, ValidationError } from '../models/base';
+import {
+  createScreeningCase,
+  PayoutRecipient,
+  ScreeningCase,
+  ScreeningCaseStatus,
+  ScreeningDecision,
+  ScreeningMatch,
+} from '../models/ScreeningCase';
+import { dateOfBirthMatches, nameSimilarity, WatchlistEntry } from '../models/Watchlist';
+import { Clock, Logger, NullLogger, ScreeningCaseRepository, SystemClock, UserRepository } from './types';
+
+/** Names at least this alike are a possible match, unless the dates of birth disagree. */
+export const DEFAULT_NAME_MATCH_THRESHOLD = 0.9;
+
+export interface ScreeningSubject {
+  name: string;
+  dateOfBirth?: Date | null;
+}
+
+export class ScreeningService {
+  private readonly watchlist: WatchlistEntry[];
+  private readonly caseRepository: ScreeningCaseRepository;
+  private readonly userRepository: UserRepository;
+  private readonly nameMatchThreshold: number;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    watchlist: WatchlistEntry[];
+    caseRepository: ScreeningCaseRepository;
+    userRepository: UserRepository;
+    nameMatchThreshold?: number;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.watchlist = options.watchlist;
+    this.caseRepository = options.caseRepository;
+    this.userRepository = options.userRepository;
+    this.nameMatchThreshold = options.nameMatchThreshold ?? DEFAULT_NAME_MATCH_THRESHOLD;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  /**
+   * Watchlist entries whose name or one of its aliases scores at least the threshold against the
+   * subject's name, best first. A date of birth that disagrees rules an entry out; an unknown one
+   * does not.
+   */
+  match(subject: ScreeningSubject): ScreeningMatch[] {
+    const matches: ScreeningMatch[] = [];
+    for (const entry of this.watchlist) {
+      let best = { name: entry.name, score: 0 };
+      for (const name of [entry.name, ...entry.aliases]) {
+        const score = nameSimilarity(subject.name, name);
+        if (score > best.score) {
+          best = { name, score };
+        }
+      }
+      if (best.score < this.nameMatchThreshold) {
+        continue;
+      }
+
+      const dateOfBirthMatch = dateOfBirthMatches(entry, subject.dateOfBirth);
+      if (dateOfBirthMatch === false) {
+        continue;
+      }
+      matches.push({
+        entryId: entry.id,
+        listName: entry.listName,
+        category: entry.category,
+        matchedName: best.name,
+        score: Math.round(best.score * 1000) / 1000,
+        dateOfBirthMatch,
+      });
+    }
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  /** Screens a customer and, on a possible match, opens a case and puts their account on hold. */
+  async screenCustomer(input: {
+    userId: UUID;
+    trigger: 'registration' | 'kyc_approval';
+    subject: ScreeningSubject;
+  }): Promise<ScreeningCase | null> {
+    const matches = this.match(input.subject);
+    if (matches.length === 0) {
+      return null;
+    }
+
+    const now = this.clock.now();
+    const screeningCase = await this.caseRepository.create(
+      createScreeningCase({
+        id: randomUUID(),
+        userId: input.userId,
+        trigger: input.trigger,
+        subjectName: input.subject.name,
+        subjectDateOfBirth: input.subject.dateOfBirth ?? null,
+        matches,
+        now,
+      }),
+    );
+    await this.setHold(input.userId, true, now);
+
+    this.logger.warn('Watchlist match put account on hold', {
+      userId: input.userId,
+      caseId: screeningCase.id,
+      trigger: input.trigger,
+      entryIds: matches.map((match) => match.entryId),
+    });
+    return screeningCase;
+  }
+
+  /** Opens a case for a payout whose recipient matched; the caller holds the payout itself. */
+  async openPayoutCase(input: {
+    userId: UUID;
+    transactionId: UUID;
+    recipient: PayoutRecipient;
+    matches: ScreeningMatch[];
+  }): Promise<ScreeningCase> {
+    const screeningCase = await this.caseRepository.create(
+      createScreeningCase({
+        id: randomUUID(),
+        userId: input.userId,
+        trigger: 'payout',
+        subjectName: input.recipient.name ?? '',
+        transactionId: input.transactionId,
+        payoutRecipient: input.recipient,
+        matches: input.matches,
+        now: this.clock.now(),
+      }),
+    );
+
+    this.logger.warn('Watchlist match held payout', {
+      userId: input.userId,
+      caseId: screeningCase.id,
+      transactionId: input.transactionId,
+      entryIds: input.matches.map((match) => match.entryId),
+    });
+    return screeningCase;
+  }
+
+  /** Cases in the given status, oldest first. */
+  async listCases(input: { status: ScreeningCaseStatus; limit: number; offset: number }): Promise<ScreeningCase[]> {
+    return this.caseRepository.listByStatus(input.status, { limit: input.limit, offset: input.offset });
+  }
+
+  /**
+   * Records the admin's decision. Clearing the last open case about a customer lifts their account
+   * hold, unless an earlier match was confirmed. What happens to a held payout is up to the caller.
+   */
+  async resolveCase(input: {
+    adminId: string;
+    caseId: UUID;
+    decision: ScreeningDecision;
+    notes?: string | null;
+  }): Promise<ScreeningCase> {
+    const screeningCase = await this.caseRepository.findById(input.caseId);
+    if (!screeningCase) {
+      throw new ValidationError('Screening case not found', 'SCREENING_CASE_NOT_FOUND');
+    }
+    if (screeningCase.status !== 'open') {
+      throw new ValidationError('Screening case has already been resolved', 'SCREENING_CASE_ALREADY_RESOLVED', {
+        status: screeningCase.status,
+      });
+    }
+
+    const now = this.clock.now();
+    const resolved = await this.caseRepository.update({
+      ...screeningCase,
+      status: input.decision === 'clear' ? 'cleared' : 'confirmed',
+      resolvedBy: input.adminId,
+      resolutionNotes: input.notes?.trim() || null,
+      resolvedAt: now,
+      updatedAt: now,
+    });
+
+    if (resolved.trigger !== 'payout' && resolved.status === 'cleared') {
+      const customerCases = (await this.caseRepository.listByUser(resolved.userId)).filter((other) => other.trigger !== 'payout');
+      if (customerCases.every((other) => other.status === 'cleared')) {
+        await this.setHold(resolved.userId, false, now);
+      }
+    }
+    return resolved;
+  }
+
+  private async setHold(userId: UUID, held: boolean, now: Date): Promise<void> {
+    await this.userRepository.setComplianceHold(userId, 'sanctions_screening', held, now);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * SessionService keeps track of the devices a user is signed in on, signs devices out and warns the
+ * user when a device they have not used before signs in.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { UUID, ValidationError } from '../models/base';
+import {
+  DeviceInfo,
+  DeviceSession,
+  approximateIpAddress,
+  createDeviceSession,
+  isDeviceSessionActive,
+  isSameDevice,
+  validateDeviceSession,
+} from '../models/DeviceSession';
+import {
+  Clock,
+  DeviceSessionRepository,
+  Logger,
+  NotificationService,
+  NullLogger,
+  RefreshTokenRepository,
+  SystemClock,
+} from './types';
+
+const DEFAULT_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export class SessionService {
+  private readonly deviceSessionRepository: DeviceSessionRepository;
+  private readonly refreshTokenRepository: RefreshTokenRepository;
+  private readonly notificationService: NotificationService;
+  private readonly sessionTtlSeconds: number;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    deviceSessionRepository: DeviceSessionRepository;
+    refreshTokenRepository: RefreshTokenRepository;
+    notificationService: NotificationService;
+    /** How long a session lasts without a refresh; match the refresh token lifetime. */
+    sessionTtlSeconds?: number;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.deviceSessionRepository = options.deviceSessionRepository;
+    this.refreshTokenRepository = options.refreshTokenRepository;
+    this.notificationService = options.notificationService;
+    this.sessionTtlSeconds = options.sessionTtlSeconds ?? DEFAULT_SESSION_TTL_SECONDS;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  /**
+   * Records a sign-in. When the user has signed in before but never from this platform and app
+   * version, they are sent a security notification.
+   */
+  async startSession(userId: UUID, device: DeviceInfo): Promise<DeviceSession> {
+    const now = this.clock.now();
+    const previous = await this.deviceSessionRepository.listByUser(userId);
+    const session = await this.deviceSessionRepository.create(
+      createDeviceSession({ id: randomUUID(), userId, device, expiresAt: this.expiryFrom(now), now }),
+    );
+
+    if (previous.length > 0 && !previous.some((candidate) => isSameDevice(candidate, device))) {
+      await this.notifyNewDevice(session);
+    }
+
+    this.logger.info('Device session started', { userId, sessionId: session.id, clientPlatform: session.clientPlatform });
+    return session;
+  }
+
+  /** Marks the session as seen from the device now and extends it, as happens on every refresh. */
+  async recordActivity(sessionId: UUID, device: DeviceInfo): Promise<DeviceSession | null> {
+    const session = await this.deviceSessionRepository.findById(sessionId);
+    const now = this.clock.now();
+    if (!session || !isDeviceSessionActive(session, now)) {
+      return null;
+    }
+
+    const updated: DeviceSession = {
+      ...session,
+      clientVersion: device.clientVersion ?? session.clientVersion,
+      ipAddress: approximateIpAddress(device.ipAddress) ?? session.ipAddress,
+      lastSeenAt: now,
+      expiresAt: this.expiryFrom(now),
+      updatedAt: now,
+    };
+    validateDeviceSession(updated);
+    return this.deviceSessionRepository.update(updated);
+  }
+
+  async isActive(sessionId: UUID): Promise<boolean> {
+    const session = await this.deviceSessionRepository.findById(sessionId);
+    return session !== null && isDeviceSessionActive(session, this.clock.now());
+  }
+
+  /** Sessions the user is still signed in on, most recently seen first. */
+  async listSessions(userId: UUID): Promise<DeviceSession[]> {
+    const now = this.clock.now();
+    const sessions = await this.deviceSessionRepository.listByUser(userId);
+    return sessions.filter((session) => isDeviceSessionActive(session, now));
+  }
+
+  async revokeSession(userId: UUID, sessionId: UUID): Promise<DeviceSession> {
+    const session = await this.deviceSessionRepository.findById(sessionId);
+    if (!session || session.userId !== userId || !isDeviceSessionActive(session, this.clock.now())) {
+      throw new ValidationError('Session not found', 'SESSION_NOT_FOUND');
+    }
+    return this.revoke(session);
+  }
+
+  /** Signs the session out, e.g. on logout; sessions that already ended are left alone. */
+  async endSession(sessionId: UUID): Promise<void> {
+    const session = await this.deviceSessionRepository.findById(sessionId);
+    if (session && isDeviceSessionActive(session, this.clock.now())) {
+      await this.revoke(session);
+    }
+  }
+
+  /** Signs out every other device of the user and returns how many were signed out. */
+  async revokeOtherSessions(userId: UUID, currentSessionId: UUID): Promise<number> {
+    const others = (await this.listSessions(userId)).filter((session) => session.id !== currentSessionId);
+    for (const session of others) {
+      await this.revoke(session);
+    }
+    return others.length;
+  }
+
+  /** Signs the user out everywhere, e.g. when the account closes, and returns how many were signed out. */
+  async revokeAllSessions(userId: UUID): Promise<number> {
+    const sessions = await this.listSessions(userId);
+    for (const session of sessions) {
+      await this.revoke(session);
+    }
+    return sessions.length;
+  }
+
+  /**
+   * Forgets the network and client of every session the user ever had, e.g. when a closed account is
+   * anonymised. The sessions themselves stay, so signed-out devices remain signed out.
+   */
+  async scrubSessions(userId: UUID): Promise<number> {
+    const now = this.clock.now();
+    const sessions = await this.deviceSessionRepository.listByUser(userId);
+    for (const session of sessions) {
+      await this.deviceSessionRepository.update({
+        ...session,
+        clientPlatform: null,
+        clientVersion: null,
+        ipAddress: null,
+        updatedAt: now,
+      });
+    }
+    return sessions.length;
+  }
+
+  private async revoke(session: DeviceSession): Promise<DeviceSession> {
+    const now = this.clock.now();
+    const revoked = await this.deviceSessionRepository.update({ ...session, revokedAt: now, updatedAt: now });
+    // Access tokens stop working through the session check; the refresh tokens have to go as well
+    await this.refreshTokenRepository.revokeFamily(session.id, now);
+    this.logger.info('Device session revoked', { userId: session.userId, sessionId: session.id });
+    return revoked;
+  }
+
+  private async notifyNewDevice(session: DeviceSession): Promise<void> {
+    const device = [session.clientPlatform, session.clientVersion].filter(Boolean).join(' ') || 'an unknown device';
+    try {
+      await this.notificationService.notifyUser(session.userId, {
+        title: 'New sign-in to your account',
+        body: `Your Zanari account was signed in on ${device}. If this wasn't you, sign out the device from Settings.`,
+        data: {
+          type: 'new_device_sign_in',
+          session_id: session.id,
+          client_platform: session.clientPlatform,
+          client_version: session.clientVersion,
+          ip_address: session.ipAddress,
+        },
+      });
+    } catch (error) {
+      this.logger.warn('Failed to send new device notification', {
+        userId: session.userId,
+        sessionId: session.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private expiryFrom(now: Date): Date {
+    return new Date(now.getTime() + this.sessionTtlSeconds * 1000);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * SignedDocumentUrls issues expiring links for sending a KYC file to the API and fetching it back.
+ * The link itself is the credential: an HMAC-SHA256 over the action, document id and expiry, so it
+ * cannot be reused for another document, turned from a download into an upload, or extended.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+import { UUID, ValidationError } from '../models/base';
+import { Clock, SystemClock } from './types';
+
+export type DocumentUrlAction = 'upload' | 'download';
+
+export interface SignedDocumentUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+export const DEFAULT_DOCUMENT_URL_TTL_SECONDS = 600;
+const MIN_SECRET_LENGTH = 32;
+
+export class SignedDocumentUrls {
+  private readonly secret: string;
+  private readonly baseUrl: string;
+  readonly ttlSeconds: number;
+  private readonly clock: Clock;
+
+  constructor(options: { secret: string; baseUrl: string; ttlSeconds?: number; clock?: Clock }) {
+    if (options.secret.length < MIN_SECRET_LENGTH) {
+      throw new Error(`Document URL signing secret must be at least ${MIN_SECRET_LENGTH} characters`);
+    }
+    this.secret = options.secret;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_DOCUMENT_URL_TTL_SECONDS;
+    this.clock = options.clock ?? new SystemClock();
+  }
+
+  /** Where the client PUTs the file's bytes. */
+  uploadUrl(documentId: UUID): SignedDocumentUrl {
+    return this.issue('upload', documentId, `/kyc/uploads/${documentId}`);
+  }
+
+  downloadUrl(documentId: UUID): SignedDocumentUrl {
+    return this.issue('download', documentId, `/kyc/documents/${documentId}/file`);
+  }
+
+  /** Throws INVALID_SIGNATURE for a forged or altered link and URL_EXPIRED once it has run out. */
+  verify(action: DocumentUrlAction, documentId: string, query: { expires?: string; signature?: string }): void {
+    const expires = Number(query.expires);
+    if (!query.signature || !Number.isInteger(expires)) {
+      throw new ValidationError('Document link is not signed', 'INVALID_SIGNATURE');
+    }
+
+    const expected = Buffer.from(this.sign(action, documentId, expires));
+    const provided = Buffer.from(query.signature);
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      throw new ValidationError('Document link signature is invalid', 'INVALID_SIGNATURE');
+    }
+    if (expires * 1000 <= this.clock.now().getTime()) {
+      throw new ValidationError('Document link has expired', 'URL_EXPIRED');
+    }
+  }
+
+  private issue(action: DocumentUrlAction, documentId: UUID, path: string): SignedDocumentUrl {
+    const expires = Math.floor(this.clock.now().getTime() / 1000) + this.ttlSeconds;
+    const signature = this.sign(action, documentId, expires);
+    return { url: `${this.baseUrl}${path}?expires=${expires}&signature=${signature}`, expiresAt: new Date(expires * 1000) };
+  }
+
+  private sign(action: DocumentUrlAction, documentId: string, expires: number): string {
+    return createHmac('sha256', this.secret).update(`${action}:${documentId}:${expires}`).digest('base64url');
+  }
+}
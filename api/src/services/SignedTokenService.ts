@@ -0,0 +1,183 @@
+/**
+ * SignedTokenService issues short-lived access tokens signed with HMAC-SHA256 (HS256 JWTs) and
+ * long-lived refresh tokens that are stored hashed and rotated on every use. Both belong to a
+ * device session: access tokens carry it as `sid` and it is the family id of the refresh tokens.
+ */
+
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+
+import { UUID } from '../models/base';
+import { createRefreshToken } from '../models/RefreshToken';
+import { User } from '../models/User';
+import {
+  AccessTokenClaims,
+  Clock,
+  Logger,
+  NullLogger,
+  RefreshTokenRepository,
+  RefreshTokenRotation,
+  SystemClock,
+  TokenService,
+} from './types';
+
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const DEFAULT_REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+const MIN_SECRET_LENGTH = 32;
+const ISSUER = 'zanari-api';
+// Tokens must carry exactly this header, so an attacker cannot pick the algorithm (e.g. "none")
+const JWT_HEADER = encodeJson({ alg: 'HS256', typ: 'JWT' });
+
+interface AccessTokenPayload {
+  iss?: unknown;
+  sub?: unknown;
+  sid?: unknown;
+  iat?: unknown;
+  exp?: unknown;
+}
+
+export class SignedTokenService implements TokenService {
+  private readonly secret: string;
+  private readonly refreshTokenRepository: RefreshTokenRepository;
+  private readonly accessTokenTtlSeconds: number;
+  private readonly refreshTokenTtlSeconds: number;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    secret: string;
+    refreshTokenRepository: RefreshTokenRepository;
+    accessTokenTtlSeconds?: number;
+    refreshTokenTtlSeconds?: number;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    if (options.secret.length < MIN_SECRET_LENGTH) {
+      throw new Error(`Token signing secret must be at least ${MIN_SECRET_LENGTH} characters`);
+    }
+
+    this.secret = options.secret;
+    this.refreshTokenRepository = options.refreshTokenRepository;
+    this.accessTokenTtlSeconds = options.accessTokenTtlSeconds ?? DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+    this.refreshTokenTtlSeconds = options.refreshTokenTtlSeconds ?? DEFAULT_REFRESH_TOKEN_TTL_SECONDS;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  async issueAccessToken(user: User, deviceSessionId: UUID): Promise<string> {
+    const issuedAt = Math.floor(this.clock.now().getTime() / 1000);
+    const payload = encodeJson({
+      iss: ISSUER,
+      sub: user.id,
+      sid: deviceSessionId,
+      iat: issuedAt,
+      exp: issuedAt + this.accessTokenTtlSeconds,
+      jti: randomUUID(),
+    });
+    const signingInput = `${JWT_HEADER}.${payload}`;
+    return `${signingInput}.${this.sign(signingInput)}`;
+  }
+
+  async verifyAccessToken(accessToken: string): Promise<AccessTokenClaims | null> {
+    const parts = accessToken.split('.');
+    if (parts.length !== 3 || parts[0] !== JWT_HEADER) {
+      return null;
+    }
+
+    const [header, payload, signature] = parts as [string, string, string];
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const provided = Buffer.from(signature);
+    if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+      return null;
+    }
+
+    let claims: AccessTokenPayload;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as AccessTokenPayload;
+    } catch {
+      return null;
+    }
+
+    if (
+      claims.iss !== ISSUER ||
+      typeof claims.sub !== 'string' ||
+      typeof claims.sid !== 'string' ||
+      typeof claims.iat !== 'number' ||
+      typeof claims.exp !== 'number'
+    ) {
+      return null;
+    }
+
+    const expiresAt = new Date(claims.exp * 1000);
+    if (expiresAt.getTime() <= this.clock.now().getTime()) {
+      return null;
+    }
+
+    return { userId: claims.sub, deviceSessionId: claims.sid, issuedAt: new Date(claims.iat * 1000), expiresAt };
+  }
+
+  async issueRefreshToken(user: User, deviceSessionId: UUID): Promise<string> {
+    return this.storeRefreshToken(user.id, deviceSessionId);
+  }
+
+  async rotateRefreshToken(refreshToken: string): Promise<RefreshTokenRotation> {
+    const now = this.clock.now();
+    const stored = await this.refreshTokenRepository.findByTokenHash(hashToken(refreshToken));
+    if (!stored || stored.revokedAt) {
+      return { status: 'invalid' };
+    }
+
+    // A rotated token only comes back if someone kept a copy: sign the whole family out
+    if (stored.rotatedAt || !(await this.refreshTokenRepository.markRotated(stored.id, now))) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId, now);
+      this.logger.warn('Refresh token reused; revoked its family', { userId: stored.userId, familyId: stored.familyId });
+      return { status: 'reused', userId: stored.userId, deviceSessionId: stored.familyId };
+    }
+
+    if (stored.expiresAt.getTime() <= now.getTime()) {
+      return { status: 'invalid' };
+    }
+
+    return {
+      status: 'rotated',
+      userId: stored.userId,
+      deviceSessionId: stored.familyId,
+      refreshToken: await this.storeRefreshToken(stored.userId, stored.familyId),
+    };
+  }
+
+  async revokeRefreshToken(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokenRepository.findByTokenHash(hashToken(refreshToken));
+    if (stored) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId, this.clock.now());
+    }
+  }
+
+  private async storeRefreshToken(userId: UUID, familyId: UUID): Promise<string> {
+    const now = this.clock.now();
+    const refreshToken = randomBytes(32).toString('base64url');
+    await this.refreshTokenRepository.create(
+      createRefreshToken({
+        id: randomUUID(),
+        userId,
+        familyId,
+        tokenHash: hashToken(refreshToken),
+        expiresAt: new Date(now.getTime() + this.refreshTokenTtlSeconds * 1000),
+        now,
+      }),
+    );
+    return refreshToken;
+  }
+
+  private sign(signingInput: string): string {
+    return createHmac('sha256', this.secret).update(signingInput).digest('base64url');
+  }
+}
+
+function encodeJson(value: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// Refresh tokens carry 256 random bits, so a plain digest is enough to keep them out of storage
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
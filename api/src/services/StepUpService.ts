@@ -0,0 +1,215 @@
+/**
+ * StepUpService runs the extra verification PaymentService asks for on risky payments. It raises a
+ * challenge bound to the payment, verifies it with an OTP or a biometric confirmation from the device
+ * it was raised on, and lets one retry of that same payment use it.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { UUID, ValidationError } from '../models/base';
+import {
+  StepUpChallenge,
+  StepUpMethod,
+  StepUpReason,
+  createStepUpChallenge,
+  validateStepUpChallenge,
+} from '../models/StepUpChallenge';
+import { TransactionType } from '../models/Transaction';
+import { AuthService, RequestOtpResult } from './AuthService';
+import { Clock, Logger, NullLogger, StepUpChallengeRepository, SystemClock, UserRepository } from './types';
+
+export interface IssueStepUpInput {
+  userId: UUID;
+  deviceSessionId?: UUID | null;
+  transactionType: TransactionType;
+  amount: number;
+  recipientKey: string;
+  reasons: StepUpReason[];
+  methods: StepUpMethod[];
+}
+
+export interface VerifyStepUpInput {
+  userId: UUID;
+  challengeId: UUID;
+  method: StepUpMethod;
+  /** Device session the request came from; biometric confirmation must come from the challenge's. */
+  deviceSessionId?: UUID | null;
+  otpCode?: string;
+}
+
+export interface ConsumeStepUpInput {
+  userId: UUID;
+  challengeId: UUID;
+  transactionType: TransactionType;
+  amount: number;
+  recipientKey: string;
+}
+
+const DEFAULT_CHALLENGE_TTL_SECONDS = 10 * 60;
+
+export class StepUpService {
+  private readonly authService: AuthService;
+  private readonly userRepository: UserRepository;
+  private readonly stepUpChallengeRepository: StepUpChallengeRepository;
+  private readonly challengeTtlSeconds: number;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    authService: AuthService;
+    userRepository: UserRepository;
+    stepUpChallengeRepository: StepUpChallengeRepository;
+    /** How long the user has to verify a challenge and retry the payment. */
+    challengeTtlSeconds?: number;
+    clock?: Clock;
+    logger?: Logger;
+  }) {
+    this.authService = options.authService;
+    this.userRepository = options.userRepository;
+    this.stepUpChallengeRepository = options.stepUpChallengeRepository;
+    this.challengeTtlSeconds = options.challengeTtlSeconds ?? DEFAULT_CHALLENGE_TTL_SECONDS;
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  async issue(input: IssueStepUpInput): Promise<StepUpChallenge> {
+    const now = this.clock.now();
+    const challenge = await this.stepUpChallengeRepository.create(
+      createStepUpChallenge({
+        id: randomUUID(),
+        userId: input.userId,
+        deviceSessionId: input.deviceSessionId ?? null,
+        transactionType: input.transactionType,
+        amount: input.amount,
+        recipientKey: input.recipientKey,
+        reasons: input.reasons,
+        methods: input.methods,
+        expiresAt: new Date(now.getTime() + this.challengeTtlSeconds * 1000),
+        now,
+      }),
+    );
+
+    this.logger.info('Step-up challenge issued', {
+      userId: input.userId,
+      challengeId: challenge.id,
+      transactionType: input.transactionType,
+      reasons: input.reasons,
+    });
+    return challenge;
+  }
+
+  /**
+   * Sends an OTP for the challenge to the user's phone, or their email when they have no phone.
+   * Sending again replaces the earlier code.
+   */
+  async sendOtp(userId: UUID, challengeId: UUID): Promise<Omit<RequestOtpResult, 'sessionId'>> {
+    const challenge = await this.requirePendingChallenge(userId, challengeId);
+    if (!challenge.methods.includes('otp')) {
+      throw new ValidationError('This challenge cannot be verified with an OTP', 'STEP_UP_METHOD_NOT_ALLOWED');
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new ValidationError('User not found', 'USER_NOT_FOUND');
+    }
+
+    const result = await this.authService.requestOtp(user.phone ? { phone: user.phone } : { email: user.email });
+    await this.stepUpChallengeRepository.update({
+      ...challenge,
+      otpSessionId: result.sessionId,
+      updatedAt: this.clock.now(),
+    });
+
+    return { message: result.message, deliveryChannel: result.deliveryChannel };
+  }
+
+  async verify(input: VerifyStepUpInput): Promise<StepUpChallenge> {
+    const challenge = await this.requirePendingChallenge(input.userId, input.challengeId);
+    if (!challenge.methods.includes(input.method)) {
+      throw new ValidationError(`This challenge cannot be verified with ${input.method}`, 'STEP_UP_METHOD_NOT_ALLOWED', {
+        methods: challenge.methods,
+      });
+    }
+
+    if (input.method === 'otp') {
+      if (!challenge.otpSessionId) {
+        throw new ValidationError('Request a code before verifying', 'STEP_UP_OTP_NOT_SENT');
+      }
+      const user = await this.authService.verifyOtpChallenge({
+        sessionId: challenge.otpSessionId,
+        otpCode: input.otpCode ?? '',
+      });
+      if (user.id !== challenge.userId) {
+        throw new ValidationError('Invalid OTP', 'INVALID_OTP');
+      }
+    } else if (!challenge.deviceSessionId || challenge.deviceSessionId !== input.deviceSessionId) {
+      // The app confirms biometrics on the device, so only the device that was challenged can vouch for it
+      throw new ValidationError('Confirm on the device that started the payment', 'STEP_UP_DEVICE_MISMATCH');
+    }
+
+    const now = this.clock.now();
+    const verified: StepUpChallenge = {
+      ...challenge,
+      status: 'verified',
+      verifiedMethod: input.method,
+      verifiedAt: now,
+      updatedAt: now,
+    };
+    validateStepUpChallenge(verified);
+    const saved = await this.stepUpChallengeRepository.update(verified);
+
+    this.logger.info('Step-up challenge verified', {
+      userId: input.userId,
+      challengeId: challenge.id,
+      method: input.method,
+    });
+    return saved;
+  }
+
+  /** Uses up a verified challenge for the payment it was raised for. */
+  async consume(input: ConsumeStepUpInput): Promise<StepUpChallenge> {
+    const challenge = await this.requireChallenge(input.userId, input.challengeId);
+    const now = this.clock.now();
+
+    if (challenge.status === 'consumed') {
+      throw new ValidationError('Step-up challenge already used', 'STEP_UP_ALREADY_USED');
+    }
+    if (challenge.expiresAt.getTime() <= now.getTime()) {
+      throw new ValidationError('Step-up challenge expired', 'STEP_UP_EXPIRED');
+    }
+    if (challenge.status !== 'verified') {
+      throw new ValidationError('Step-up challenge not verified', 'STEP_UP_NOT_VERIFIED');
+    }
+    if (
+      challenge.transactionType !== input.transactionType ||
+      challenge.amount !== input.amount ||
+      challenge.recipientKey !== input.recipientKey
+    ) {
+      throw new ValidationError('Step-up challenge was verified for a different payment', 'STEP_UP_MISMATCH');
+    }
+
+    const consumed: StepUpChallenge = { ...challenge, status: 'consumed', consumedAt: now, updatedAt: now };
+    validateStepUpChallenge(consumed);
+    return this.stepUpChallengeRepository.update(consumed);
+  }
+
+  private async requirePendingChallenge(userId: UUID, challengeId: UUID): Promise<StepUpChallenge> {
+    const challenge = await this.requireChallenge(userId, challengeId);
+    if (challenge.status !== 'pending') {
+      throw new ValidationError('Step-up challenge already verified', 'STEP_UP_ALREADY_VERIFIED');
+    }
+    if (challenge.expiresAt.getTime() <= this.clock.now().getTime()) {
+      throw new ValidationError('Step-up challenge expired', 'STEP_UP_EXPIRED');
+    }
+    return challenge;
+  }
+
+  private async requireChallenge(userId: UUID, challengeId: UUID): Promise<StepUpChallenge> {
+    const challenge = await this.stepUpChallengeRepository.findById(challengeId);
+    // Another user's challenge is reported as missing rather than confirming it exists
+    if (!challenge || challenge.userId !== userId) {
+      throw new ValidationError('Step-up challenge not found', 'STEP_UP_NOT_FOUND');
+    }
+    return challenge;
+  }
+}
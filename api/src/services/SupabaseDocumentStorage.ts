@@ -0,0 +1,43 @@
+/**
+ * DocumentStorage backed by a private Supabase Storage bucket. Only the API's service role touches
+ * the bucket; clients upload and download through the API's signed URLs.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+import { DocumentStorage } from './types';
+
+export class SupabaseDocumentStorage implements DocumentStorage {
+  private readonly client: SupabaseClient;
+  private readonly bucket: string;
+
+  constructor(options: { client: SupabaseClient; bucket: string }) {
+    this.client = options.client;
+    this.bucket = options.bucket;
+  }
+
+  async put(path: string, content: Buffer, contentType: string): Promise<void> {
+    const { error } = await this.client.storage.from(this.bucket).upload(path, content, { contentType, upsert: true });
+    if (error) {
+      throw new Error(`Failed to store document: ${error.message}`);
+    }
+  }
+
+  async get(path: string): Promise<Buffer | null> {
+    const { data, error } = await this.client.storage.from(this.bucket).download(path);
+    if (error) {
+      if ((error as { status?: number }).status === 404 || /not found/i.test(error.message)) {
+        return null;
+      }
+      throw new Error(`Failed to read document: ${error.message}`);
+    }
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async delete(path: string): Promise<void> {
+    const { error } = await this.client.storage.from(this.bucket).remove([path]);
+    if (error) {
+      throw new Error(`Failed to delete document: ${error.message}`);
+    }
+  }
+}
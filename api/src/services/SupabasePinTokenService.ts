@@ -6,6 +6,7 @@ import { PinTokenService } from './types';
 interface PinTokenRow {
   token: string;
   user_id: UUID;
+  intent_hash: string | null;
   expires_at: string;
   created_at: string;
 }
@@ -13,11 +14,12 @@ interface PinTokenRow {
 export class SupabasePinTokenService implements PinTokenService {
   constructor(private readonly client: SupabaseClient) {}
 
-  async issue(userId: UUID, token: string, ttlSeconds: number): Promise<void> {
+  async issue(userId: UUID, token: string, ttlSeconds: number, intentHash: string | null = null): Promise<void> {
     const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
     const row: PinTokenRow = {
       token,
       user_id: userId,
+      intent_hash: intentHash,
       expires_at: expiresAt.toISOString(),
       created_at: new Date().toISOString(),
     };
@@ -31,7 +33,7 @@ export class SupabasePinTokenService implements PinTokenService {
     }
   }
 
-  async validate(userId: UUID, token: string): Promise<boolean> {
+  async validate(userId: UUID, token: string, intentHash: string | null = null): Promise<boolean> {
     const { data, error } = await this.client
       .from('pin_tokens')
       .select('*')
@@ -47,7 +49,7 @@ export class SupabasePinTokenService implements PinTokenService {
     }
 
     const row = data as PinTokenRow;
-    if (row.user_id !== userId) {
+    if (row.user_id !== userId || (row.intent_hash ?? null) !== intentHash) {
       return false;
     }
 
@@ -60,6 +62,24 @@ export class SupabasePinTokenService implements PinTokenService {
     return true;
   }
 
+  async consume(userId: UUID, token: string, intentHash: string | null = null): Promise<boolean> {
+    // A conditional delete, so two requests racing with the same token cannot both succeed
+    let query = this.client
+      .from('pin_tokens')
+      .delete()
+      .eq('token', token)
+      .eq('user_id', userId)
+      .gt('expires_at', new Date().toISOString());
+    query = intentHash === null ? query.is('intent_hash', null) : query.eq('intent_hash', intentHash);
+
+    const { data, error } = await query.select('token');
+    if (error) {
+      throw new Error(`Failed to consume PIN token: ${error.message}`);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
   async invalidate(token: string): Promise<void> {
     const { error } = await this.client
       .from('pin_tokens')
@@ -1,23 +1,56 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 
-import { RetryQueue } from './types';
+import { RetryJob, RetryJobStatus, RetryQueue } from './types';
+
+const DEFAULT_MAX_ATTEMPTS = 5;
 
 interface RetryJobRow {
   id: string;
   run_at: string;
   payload: Record<string, unknown>;
+  status: RetryJobStatus;
+  attempts: number;
+  max_attempts: number;
+  locked_by: string | null;
+  locked_until: string | null;
+  last_error: string | null;
   created_at: string;
+  updated_at: string;
+}
+
+function fromRow(row: RetryJobRow): RetryJob {
+  return {
+    id: row.id,
+    runAt: new Date(row.run_at),
+    payload: row.payload ?? {},
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    lockedBy: row.locked_by ?? null,
+    lockedUntil: row.locked_until ? new Date(row.locked_until) : null,
+    lastError: row.last_error ?? null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
 }
 
 export class SupabaseRetryQueue implements RetryQueue {
   constructor(private readonly client: SupabaseClient) {}
 
-  async enqueue(job: { id: string; runAt: Date; payload: Record<string, unknown> }): Promise<void> {
+  async enqueue(job: { id: string; runAt: Date; payload: Record<string, unknown>; maxAttempts?: number }): Promise<void> {
+    const now = new Date().toISOString();
     const row: RetryJobRow = {
       id: job.id,
       run_at: job.runAt.toISOString(),
       payload: job.payload,
-      created_at: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      max_attempts: job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      locked_by: null,
+      locked_until: null,
+      last_error: null,
+      created_at: now,
+      updated_at: now,
     };
 
     const { error } = await this.client
@@ -28,4 +61,82 @@ export class SupabaseRetryQueue implements RetryQueue {
       throw new Error(`Failed to enqueue retry job: ${error.message}`);
     }
   }
+
+  async claimDue(options: { workerId: string; now: Date; leaseMs: number; limit: number }): Promise<RetryJob[]> {
+    const nowIso = options.now.toISOString();
+    const { data, error } = await this.client
+      .from('retry_jobs')
+      .select('*')
+      .or(`and(status.eq.pending,run_at.lte.${nowIso}),and(status.eq.running,locked_until.lt.${nowIso})`)
+      .order('run_at', { ascending: true })
+      .limit(options.limit);
+
+    if (error) {
+      throw new Error(`Failed to load due retry jobs: ${error.message}`);
+    }
+
+    const lockedUntil = new Date(options.now.getTime() + options.leaseMs).toISOString();
+    const claimed: RetryJob[] = [];
+
+    for (const candidate of (data ?? []) as RetryJobRow[]) {
+      // Guard on the attempt counter so only one worker wins a race for the same row
+      const { data: updated, error: claimError } = await this.client
+        .from('retry_jobs')
+        .update({
+          status: 'running',
+          attempts: candidate.attempts + 1,
+          locked_by: options.workerId,
+          locked_until: lockedUntil,
+          updated_at: nowIso,
+        })
+        .eq('id', candidate.id)
+        .eq('status', candidate.status)
+        .eq('attempts', candidate.attempts)
+        .select('*')
+        .maybeSingle();
+
+      if (claimError) {
+        throw new Error(`Failed to claim retry job: ${claimError.message}`);
+      }
+
+      if (updated) {
+        claimed.push(fromRow(updated as RetryJobRow));
+      }
+    }
+
+    return claimed;
+  }
+
+  async complete(jobId: string, workerId: string): Promise<void> {
+    await this.release(jobId, workerId, { status: 'completed' });
+  }
+
+  async reschedule(jobId: string, workerId: string, options: { runAt: Date; error: string }): Promise<void> {
+    await this.release(jobId, workerId, {
+      status: 'pending',
+      run_at: options.runAt.toISOString(),
+      last_error: options.error,
+    });
+  }
+
+  async deadLetter(jobId: string, workerId: string, options: { error: string }): Promise<void> {
+    await this.release(jobId, workerId, { status: 'dead', last_error: options.error });
+  }
+
+  private async release(jobId: string, workerId: string, changes: Partial<RetryJobRow>): Promise<void> {
+    const { error } = await this.client
+      .from('retry_jobs')
+      .update({
+        ...changes,
+        locked_by: null,
+        locked_until: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId)
+      .eq('locked_by', workerId);
+
+    if (error) {
+      throw new Error(`Failed to update retry job: ${error.message}`);
+    }
+  }
 }
@@ -1,5 +1,6 @@
 /**
- * TransactionService enforces transaction limits and lifecycle transitions.
+ * TransactionService enforces transaction limits and lifecycle transitions. Limits come from the
+ * LimitService, so they follow the user's KYC tier.
  */
 
 import { UUID } from '../models/base';
@@ -11,10 +12,8 @@ import {
   createTransaction,
   validateTransaction,
 } from '../models/Transaction';
-import { Clock, Logger, NullLogger, SystemClock, TransactionRepository } from './types';
-
-const SINGLE_TRANSACTION_LIMIT = 500_000; // KES 5,000 in cents
-const DAILY_TRANSACTION_LIMIT = 2_000_000; // KES 20,000 in cents
+import { LimitService } from './LimitService';
+import { Clock, Logger, NullLogger, SystemClock, TransactionRepository, UnitOfWorkScope } from './types';
 
 export interface CreateTransactionOptions {
   id: UUID;
@@ -49,29 +48,42 @@ export interface ListTransactionsResult {
 
 export class TransactionService {
   private readonly transactionRepository: TransactionRepository;
+  private readonly limitService: LimitService;
   private readonly clock: Clock;
   private readonly logger: Logger;
 
   constructor(options: {
     transactionRepository: TransactionRepository;
+    limitService: LimitService;
     clock?: Clock;
     logger?: Logger;
   }) {
     this.transactionRepository = options.transactionRepository;
+    this.limitService = options.limitService;
     this.clock = options.clock ?? new SystemClock();
     this.logger = options.logger ?? NullLogger;
   }
 
+  /** The same service writing into an open unit of work. */
+  forScope(scope: UnitOfWorkScope): TransactionService {
+    return new TransactionService({
+      transactionRepository: scope.transactionRepository,
+      limitService: this.limitService,
+      clock: this.clock,
+      logger: this.logger,
+    });
+  }
+
   async create(options: CreateTransactionOptions): Promise<Transaction> {
     if (!options.skipLimits) {
-      this.assertWithinSingleLimit(options.amount);
-
-      const now = this.clock.now();
-      const dayStart = this.startOfDay(now);
-      const dayTotal = await this.transactionRepository.sumUserTransactionsForDay(options.userId, dayStart);
-      if (dayTotal + options.amount > DAILY_TRANSACTION_LIMIT) {
-        throw new Error('Daily transaction limit exceeded');
+      if (!Number.isInteger(options.amount)) {
+        throw new Error('Transaction amount must be expressed in cents');
       }
+      await this.limitService.assertWithinLimits({
+        userId: options.userId,
+        transactionType: options.type,
+        amount: options.amount,
+      });
     }
 
     const transaction = createTransaction({
@@ -163,19 +175,4 @@ export class TransactionService {
 
     return saved;
   }
-
-  private assertWithinSingleLimit(amount: number): void {
-    if (!Number.isInteger(amount)) {
-      throw new Error('Transaction amount must be expressed in cents');
-    }
-    if (amount > SINGLE_TRANSACTION_LIMIT) {
-      throw new Error('Single transaction limit exceeded');
-    }
-  }
-
-  private startOfDay(date: Date): Date {
-    const start = new Date(date);
-    start.setHours(0, 0, 0, 0);
-    return start;
-  }
 }
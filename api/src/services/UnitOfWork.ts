@@ -0,0 +1,325 @@
+/**
+ * Unit of work for money movements. Work runs against scoped repositories that hold writes back
+ * and hand them to a UnitOfWorkCommitter in one go once the work resolves, so wallet balances,
+ * ledger entries and the Transaction rows that explain them land together or not at all. When a
+ * wallet was saved by another request in the meantime, or a transaction the unit read has since
+ * moved to another status, the commit fails with ConcurrencyError and the work is re-run against
+ * fresh reads.
+ */
+
+import { ConcurrencyError, UUID } from '../models/base';
+import { FundHold } from '../models/FundHold';
+import { LedgerEntry } from '../models/LedgerEntry';
+import { Transaction, TransactionCategory, TransactionStatus, TransactionType } from '../models/Transaction';
+import { Wallet, WalletType } from '../models/Wallet';
+import {
+  FundHoldRepository,
+  LedgerRepository,
+  Logger,
+  NullLogger,
+  TransactionCursor,
+  TransactionRepository,
+  UnitOfWork,
+  UnitOfWorkChanges,
+  UnitOfWorkCommitter,
+  UnitOfWorkScope,
+  WalletRepository,
+} from './types';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export class BufferedUnitOfWork implements UnitOfWork {
+  private readonly walletRepository: WalletRepository;
+  private readonly transactionRepository: TransactionRepository;
+  private readonly ledgerRepository: LedgerRepository;
+  private readonly fundHoldRepository: FundHoldRepository;
+  private readonly committer: UnitOfWorkCommitter;
+  private readonly maxAttempts: number;
+  private readonly logger: Logger;
+
+  constructor(options: {
+    walletRepository: WalletRepository;
+    transactionRepository: TransactionRepository;
+    ledgerRepository: LedgerRepository;
+    fundHoldRepository: FundHoldRepository;
+    committer: UnitOfWorkCommitter;
+    /** How many times work is run before a ConcurrencyError is given up on. */
+    maxAttempts?: number;
+    logger?: Logger;
+  }) {
+    this.walletRepository = options.walletRepository;
+    this.transactionRepository = options.transactionRepository;
+    this.ledgerRepository = options.ledgerRepository;
+    this.fundHoldRepository = options.fundHoldRepository;
+    this.committer = options.committer;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.logger = options.logger ?? NullLogger;
+  }
+
+  /**
+   * Work may be run more than once, so it must only read and write through the scope it is given.
+   */
+  async run<T>(work: (scope: UnitOfWorkScope) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt += 1) {
+      const wallets = new ScopedWalletRepository(this.walletRepository);
+      const transactions = new ScopedTransactionRepository(this.transactionRepository);
+      const ledger = new ScopedLedgerRepository(this.ledgerRepository);
+      const holds = new ScopedFundHoldRepository(this.fundHoldRepository);
+
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const result = await work({
+          walletRepository: wallets,
+          transactionRepository: transactions,
+          ledgerRepository: ledger,
+          fundHoldRepository: holds,
+        });
+        const changes: UnitOfWorkChanges = {
+          wallets: wallets.pendingWrites(),
+          transactions: transactions.pendingWrites(),
+          ledgerEntries: ledger.pendingWrites(),
+          fundHolds: holds.pendingWrites(),
+        };
+        if (
+          changes.wallets.length > 0 ||
+          changes.transactions.length > 0 ||
+          changes.ledgerEntries.length > 0 ||
+          changes.fundHolds.length > 0
+        ) {
+          // eslint-disable-next-line no-await-in-loop
+          await this.committer.commit(changes);
+        }
+        return result;
+      } catch (error) {
+        if (!(error instanceof ConcurrencyError) || attempt >= this.maxAttempts) {
+          throw error;
+        }
+        this.logger.warn('Unit of work hit a concurrent update; retrying', { attempt, error: error.message });
+      }
+    }
+  }
+}
+
+/**
+ * Runs work inside a unit that is already open, so services called from within a unit of work add
+ * their writes to it instead of committing on their own.
+ */
+export function joinUnitOfWork(scope: UnitOfWorkScope): UnitOfWork {
+  return {
+    run: <T>(work: (scope: UnitOfWorkScope) => Promise<T>) => work(scope),
+  };
+}
+
+const cloneWallet = (wallet: Wallet): Wallet => ({
+  ...wallet,
+  withdrawalRestrictions: wallet.withdrawalRestrictions ? { ...wallet.withdrawalRestrictions } : null,
+});
+
+/**
+ * Reads see the unit's own pending saves. Saves are checked against the version the unit is
+ * holding; the check against storage happens at commit.
+ */
+class ScopedWalletRepository implements WalletRepository {
+  private readonly pending = new Map<UUID, { wallet: Wallet; expectedVersion: number }>();
+
+  constructor(private readonly base: WalletRepository) {}
+
+  async findById(walletId: UUID): Promise<Wallet | null> {
+    const pending = this.pending.get(walletId);
+    return pending ? cloneWallet(pending.wallet) : this.base.findById(walletId);
+  }
+
+  async findByUserAndType(userId: UUID, walletType: WalletType): Promise<Wallet | null> {
+    for (const { wallet } of this.pending.values()) {
+      if (wallet.userId === userId && wallet.walletType === walletType) {
+        return cloneWallet(wallet);
+      }
+    }
+    return this.base.findByUserAndType(userId, walletType);
+  }
+
+  async listByUser(userId: UUID): Promise<Wallet[]> {
+    const wallets = await this.base.listByUser(userId);
+    return wallets.map((wallet) => {
+      const pending = this.pending.get(wallet.id);
+      return pending ? cloneWallet(pending.wallet) : wallet;
+    });
+  }
+
+  async save(wallet: Wallet): Promise<Wallet> {
+    const pending = this.pending.get(wallet.id);
+    if (pending && pending.wallet.version !== wallet.version) {
+      throw new ConcurrencyError(`Wallet ${wallet.id} changed since version ${wallet.version} was read`);
+    }
+
+    const saved = cloneWallet({ ...wallet, version: wallet.version + 1 });
+    this.pending.set(wallet.id, { wallet: saved, expectedVersion: pending?.expectedVersion ?? wallet.version });
+    return cloneWallet(saved);
+  }
+
+  pendingWrites(): UnitOfWorkChanges['wallets'] {
+    return [...this.pending.values()].map(({ wallet, expectedVersion }) => ({ wallet: cloneWallet(wallet), expectedVersion }));
+  }
+}
+
+/**
+ * Lookups by id or reference see the unit's pending rows; listings and totals only see committed
+ * rows. A stored row read through a lookup is only updated at commit if it still has the status it
+ * was read with, so two units cannot both move the same transaction on from pending.
+ */
+class ScopedTransactionRepository implements TransactionRepository {
+  private readonly pending = new Map<UUID, { transaction: Transaction; isNew: boolean }>();
+  private readonly readStatuses = new Map<UUID, TransactionStatus>();
+
+  constructor(private readonly base: TransactionRepository) {}
+
+  async create(transaction: Transaction): Promise<Transaction> {
+    this.pending.set(transaction.id, { transaction: { ...transaction }, isNew: true });
+    return { ...transaction };
+  }
+
+  async update(transaction: Transaction): Promise<Transaction> {
+    const isNew = this.pending.get(transaction.id)?.isNew ?? false;
+    this.pending.set(transaction.id, { transaction: { ...transaction }, isNew });
+    return { ...transaction };
+  }
+
+  /** Retry bookkeeping is not part of the unit's money movements, so it is written straight away. */
+  recordRetry(transactionId: UUID, retry: { lastRetryAt: Date; nextRetryAt: Date | null }): Promise<Transaction | null> {
+    return this.base.recordRetry(transactionId, retry);
+  }
+
+  sumUserTransactionsByType(userId: UUID, since: Date): Promise<Partial<Record<TransactionType, number>>> {
+    return this.base.sumUserTransactionsByType(userId, since);
+  }
+
+  listRecentTransactions(userId: UUID, since: Date): Promise<Transaction[]> {
+    return this.base.listRecentTransactions(userId, since);
+  }
+
+  listByUser(
+    userId: UUID,
+    options: { limit: number; offset: number; type?: TransactionType; category?: TransactionCategory },
+  ): Promise<Transaction[]> {
+    return this.base.listByUser(userId, options);
+  }
+
+  countByUser(userId: UUID, options: { type?: TransactionType; category?: TransactionCategory }): Promise<number> {
+    return this.base.countByUser(userId, options);
+  }
+
+  async findById(transactionId: UUID): Promise<Transaction | null> {
+    const pending = this.pending.get(transactionId);
+    return pending ? { ...pending.transaction } : this.remember(await this.base.findById(transactionId));
+  }
+
+  async findByExternalReference(reference: string): Promise<Transaction | null> {
+    const pending = this.findPending((transaction) => transaction.externalReference === reference);
+    return pending ?? this.remember(await this.base.findByExternalReference(reference));
+  }
+
+  async findByExternalTransactionId(externalTransactionId: string): Promise<Transaction | null> {
+    const pending = this.findPending((transaction) => transaction.externalTransactionId === externalTransactionId);
+    return pending ?? this.remember(await this.base.findByExternalTransactionId(externalTransactionId));
+  }
+
+  listPendingCreatedBefore(cutoff: Date, options: { types: TransactionType[]; limit: number }): Promise<Transaction[]> {
+    return this.base.listPendingCreatedBefore(cutoff, options);
+  }
+
+  listCompletedAfter(cursor: TransactionCursor, options: { limit: number }): Promise<Transaction[]> {
+    return this.base.listCompletedAfter(cursor, options);
+  }
+
+  listCompletedByUser(userId: UUID, since: Date): Promise<Transaction[]> {
+    return this.base.listCompletedByUser(userId, since);
+  }
+
+  pendingWrites(): UnitOfWorkChanges['transactions'] {
+    return [...this.pending.values()].map(({ transaction, isNew }) => ({
+      transaction: { ...transaction },
+      isNew,
+      expectedStatus: isNew ? null : this.readStatuses.get(transaction.id) ?? null,
+    }));
+  }
+
+  /** Keeps the status a stored row was first read with in this unit. */
+  private remember(transaction: Transaction | null): Transaction | null {
+    if (transaction && !this.readStatuses.has(transaction.id)) {
+      this.readStatuses.set(transaction.id, transaction.status);
+    }
+    return transaction;
+  }
+
+  private findPending(predicate: (transaction: Transaction) => boolean): Transaction | null {
+    for (const { transaction } of this.pending.values()) {
+      if (predicate(transaction)) {
+        return { ...transaction };
+      }
+    }
+    return null;
+  }
+}
+
+/** Balances and listings only see committed entries. */
+class ScopedLedgerRepository implements LedgerRepository {
+  private readonly pending: LedgerEntry[] = [];
+
+  constructor(private readonly base: LedgerRepository) {}
+
+  async append(entry: LedgerEntry): Promise<LedgerEntry> {
+    this.pending.push(entry);
+    return entry;
+  }
+
+  listByAccount(accountId: string, options: { asOf?: Date; limit: number }): Promise<LedgerEntry[]> {
+    return this.base.listByAccount(accountId, options);
+  }
+
+  totalsForAccount(accountId: string, asOf?: Date): Promise<{ debits: number; credits: number }> {
+    return this.base.totalsForAccount(accountId, asOf);
+  }
+
+  pendingWrites(): LedgerEntry[] {
+    return [...this.pending];
+  }
+}
+
+const cloneHold = (hold: FundHold): FundHold => ({ ...hold });
+
+/** Lookups by transaction see the unit's pending holds; expiry listings only see committed holds. */
+class ScopedFundHoldRepository implements FundHoldRepository {
+  private readonly pending = new Map<UUID, { hold: FundHold; isNew: boolean }>();
+
+  constructor(private readonly base: FundHoldRepository) {}
+
+  async create(hold: FundHold): Promise<FundHold> {
+    this.pending.set(hold.id, { hold: cloneHold(hold), isNew: true });
+    return cloneHold(hold);
+  }
+
+  async update(hold: FundHold): Promise<FundHold> {
+    const isNew = this.pending.get(hold.id)?.isNew ?? false;
+    this.pending.set(hold.id, { hold: cloneHold(hold), isNew });
+    return cloneHold(hold);
+  }
+
+  async findLatestByTransactionId(transactionId: UUID): Promise<FundHold | null> {
+    // A hold placed in this unit is newer than anything stored
+    const placed = [...this.pending.values()].filter(({ hold, isNew }) => isNew && hold.transactionId === transactionId);
+    if (placed.length > 0) {
+      return cloneHold(placed[placed.length - 1]!.hold);
+    }
+
+    const stored = await this.base.findLatestByTransactionId(transactionId);
+    return stored ? cloneHold(this.pending.get(stored.id)?.hold ?? stored) : null;
+  }
+
+  listExpired(now: Date, options: { limit: number }): Promise<FundHold[]> {
+    return this.base.listExpired(now, options);
+  }
+
+  pendingWrites(): UnitOfWorkChanges['fundHolds'] {
+    return [...this.pending.values()].map(({ hold, isNew }) => ({ hold: cloneHold(hold), isNew }));
+  }
+}
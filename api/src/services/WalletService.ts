@@ -1,38 +1,118 @@
 /**
- * WalletService manages balance operations and ensures financial integrity.
+ * WalletService manages balance operations and ensures financial integrity. Every balance change
+ * is also posted to the double-entry ledger, with the wallet on one side and the wallet or
+ * system account the money came from or went to on the other. Each operation runs as a unit of
+ * work, so wallet saves and their ledger entry commit together and a wallet changed by a
+ * concurrent request is re-read rather than overwritten.
+ *
+ * Pending payments, transfers and withdrawals reserve funds with holds: a hold lowers
+ * availableBalance only, and the balance (and ledger) move when the hold is captured.
  */
 
+import { randomUUID } from 'node:crypto';
+
 import { UUID } from '../models/base';
+import { FundHold, createFundHold, validateFundHold } from '../models/FundHold';
+import { LedgerLine, SystemLedgerAccount, systemAccountId, walletAccountId } from '../models/LedgerEntry';
 import { Wallet, WalletType, validateWallet } from '../models/Wallet';
-import { Clock, Logger, NullLogger, SystemClock, WalletRepository } from './types';
+import { LedgerService } from './LedgerService';
+import { joinUnitOfWork } from './UnitOfWork';
+import {
+  Clock,
+  FundHoldRepository,
+  Logger,
+  NullLogger,
+  SystemClock,
+  UnitOfWork,
+  UnitOfWorkScope,
+  WalletRepository,
+} from './types';
+
+// Longer than reconciliation takes to give up on a pending charge, so expiry is only a backstop
+const DEFAULT_HOLD_TTL_MS = 72 * 60 * 60 * 1000;
+const DEFAULT_EXPIRY_BATCH_SIZE = 100;
 
 export interface CreditOptions {
   userId: UUID;
   walletType: WalletType;
   amount: number;
+  /** Where the money comes from. Defaults to Paystack clearing. */
+  counterAccount?: SystemLedgerAccount;
+  transactionId?: UUID | null;
+  description?: string;
 }
 
 export interface DebitOptions {
   userId: UUID;
   walletType: WalletType;
   amount: number;
+  /** Where the money goes. Defaults to Paystack clearing. */
+  counterAccount?: SystemLedgerAccount;
+  transactionId?: UUID | null;
+  description?: string;
+}
+
+export interface TransferOptions {
+  userId: UUID;
+  fromWalletType: WalletType;
+  toWalletType: WalletType;
+  amount: number;
+  transactionId?: UUID | null;
+  description?: string;
+}
+
+export interface PlaceHoldOptions {
+  userId: UUID;
+  walletType: WalletType;
+  amount: number;
+  /** Fee income taken with the amount on capture; held alongside it until then. */
+  fee?: number;
+  transactionId: UUID;
+  /** Ledger description for the debit posted when the hold is captured. */
+  description: string;
+  /** Null keeps the hold until its transaction settles; without it the hold expires after 72 hours. */
+  expiresAt?: Date | null;
 }
 
 export class WalletService {
   private readonly walletRepository: WalletRepository;
+  private readonly fundHoldRepository: FundHoldRepository;
+  private readonly ledgerService: LedgerService;
+  private readonly unitOfWork: UnitOfWork;
   private readonly clock: Clock;
   private readonly logger: Logger;
 
   constructor(options: {
     walletRepository: WalletRepository;
+    fundHoldRepository: FundHoldRepository;
+    ledgerService: LedgerService;
+    unitOfWork: UnitOfWork;
     clock?: Clock;
     logger?: Logger;
   }) {
     this.walletRepository = options.walletRepository;
+    this.fundHoldRepository = options.fundHoldRepository;
+    this.ledgerService = options.ledgerService;
+    this.unitOfWork = options.unitOfWork;
     this.clock = options.clock ?? new SystemClock();
     this.logger = options.logger ?? NullLogger;
   }
 
+  /**
+   * The same service working inside an open unit of work, for callers that need wallet movements
+   * to commit together with their own writes.
+   */
+  forScope(scope: UnitOfWorkScope): WalletService {
+    return new WalletService({
+      walletRepository: scope.walletRepository,
+      fundHoldRepository: scope.fundHoldRepository,
+      ledgerService: this.ledgerService.forScope(scope),
+      unitOfWork: joinUnitOfWork(scope),
+      clock: this.clock,
+      logger: this.logger,
+    });
+  }
+
   async getWallet(userId: UUID, walletType: WalletType): Promise<Wallet | null> {
     return this.walletRepository.findByUserAndType(userId, walletType);
   }
@@ -50,78 +130,82 @@ export class WalletService {
   }
 
   async credit(options: CreditOptions): Promise<Wallet> {
-    const wallet = await this.requireWallet(options.userId, options.walletType);
-    const now = this.clock.now();
+    const saved = await this.unitOfWork.run(async (scope) => {
+      const wallet = await this.requireWallet(scope.walletRepository, options.userId, options.walletType);
+      const now = this.clock.now();
 
-    wallet.balance += options.amount;
-    wallet.availableBalance += options.amount;
-    wallet.lastTransactionAt = now;
-    wallet.updatedAt = now;
-    validateWallet(wallet);
+      wallet.balance += options.amount;
+      wallet.availableBalance += options.amount;
+      wallet.lastTransactionAt = now;
+      wallet.updatedAt = now;
+      validateWallet(wallet);
+
+      const updated = await scope.walletRepository.save(wallet);
+      await this.postEntry(scope, options.description ?? 'Wallet credit', options.transactionId, [
+        { accountId: systemAccountId(options.counterAccount ?? 'paystack_clearing'), direction: 'debit', amount: options.amount },
+        { accountId: walletAccountId(wallet.id), direction: 'credit', amount: options.amount },
+      ]);
+      return updated;
+    });
 
-    const saved = await this.walletRepository.save(wallet);
     this.logger.info('Wallet credited', {
       userId: options.userId,
       walletType: options.walletType,
       amount: options.amount,
-      newBalance: wallet.balance,
+      newBalance: saved.balance,
     });
     return saved;
   }
 
   async debit(options: DebitOptions): Promise<Wallet> {
-    const wallet = await this.requireWallet(options.userId, options.walletType);
-    if (wallet.availableBalance < options.amount) {
-      throw new Error('Insufficient funds');
-    }
+    const saved = await this.unitOfWork.run(async (scope) => {
+      const wallet = await this.requireWallet(scope.walletRepository, options.userId, options.walletType);
+      if (wallet.availableBalance < options.amount) {
+        throw new Error('Insufficient funds');
+      }
 
-    const now = this.clock.now();
-    wallet.balance -= options.amount;
-    wallet.availableBalance -= options.amount;
-    wallet.lastTransactionAt = now;
-    wallet.updatedAt = now;
-    validateWallet(wallet);
+      const now = this.clock.now();
+      wallet.balance -= options.amount;
+      wallet.availableBalance -= options.amount;
+      wallet.lastTransactionAt = now;
+      wallet.updatedAt = now;
+      validateWallet(wallet);
+
+      const updated = await scope.walletRepository.save(wallet);
+      await this.postEntry(scope, options.description ?? 'Wallet debit', options.transactionId, [
+        { accountId: walletAccountId(wallet.id), direction: 'debit', amount: options.amount },
+        { accountId: systemAccountId(options.counterAccount ?? 'paystack_clearing'), direction: 'credit', amount: options.amount },
+      ]);
+      return updated;
+    });
 
-    const saved = await this.walletRepository.save(wallet);
     this.logger.info('Wallet debited', {
       userId: options.userId,
       walletType: options.walletType,
       amount: options.amount,
-      newBalance: wallet.balance,
+      newBalance: saved.balance,
     });
     return saved;
   }
 
-  async transferRoundUp(userId: UUID, roundUpAmount: number): Promise<{ mainWallet: Wallet; savingsWallet: Wallet }> {
+  async transferRoundUp(
+    userId: UUID,
+    roundUpAmount: number,
+    transactionId?: UUID | null,
+  ): Promise<{ mainWallet: Wallet; savingsWallet: Wallet }> {
     if (!Number.isInteger(roundUpAmount) || roundUpAmount <= 0) {
       throw new Error('Round-up amount must be positive integer (cents)');
     }
 
-    const mainWallet = await this.requireWallet(userId, 'main');
-    if (mainWallet.availableBalance < roundUpAmount) {
-      throw new Error('Insufficient funds for round-up');
-    }
-
-    const savingsWallet = await this.requireWallet(userId, 'savings');
-    const now = this.clock.now();
-
-    mainWallet.balance -= roundUpAmount;
-    mainWallet.availableBalance -= roundUpAmount;
-    mainWallet.lastTransactionAt = now;
-    mainWallet.updatedAt = now;
+    const [updatedMain, updatedSavings] = await this.unitOfWork.run(async (scope) => {
+      const mainWallet = await this.requireWallet(scope.walletRepository, userId, 'main');
+      if (mainWallet.availableBalance < roundUpAmount) {
+        throw new Error('Insufficient funds for round-up');
+      }
 
-    savingsWallet.balance += roundUpAmount;
-    savingsWallet.availableBalance += roundUpAmount;
-    savingsWallet.lastTransactionAt = now;
-    savingsWallet.updatedAt = now;
-
-    validateWallet(mainWallet);
-    validateWallet(savingsWallet);
-
-    const [updatedMain, updatedSavings] = await Promise.all([
-      this.walletRepository.save(mainWallet),
-      this.walletRepository.save(savingsWallet),
-    ]);
+      const savingsWallet = await this.requireWallet(scope.walletRepository, userId, 'savings');
+      return this.moveBetween(scope, mainWallet, savingsWallet, roundUpAmount, 'Round-up to savings', transactionId);
+    });
 
     this.logger.info('Round-up transfer completed', {
       userId,
@@ -133,8 +217,276 @@ export class WalletService {
     return { mainWallet: updatedMain, savingsWallet: updatedSavings };
   }
 
-  private async requireWallet(userId: UUID, walletType: WalletType): Promise<Wallet> {
-    const wallet = await this.walletRepository.findByUserAndType(userId, walletType);
+  /**
+   * Moves money between two of a user's own wallets as a single ledger entry.
+   */
+  async transfer(options: TransferOptions): Promise<{ fromWallet: Wallet; toWallet: Wallet }> {
+    if (!Number.isInteger(options.amount) || options.amount <= 0) {
+      throw new Error('Transfer amount must be positive integer (cents)');
+    }
+    if (options.fromWalletType === options.toWalletType) {
+      throw new Error('Cannot transfer between the same wallet');
+    }
+
+    const [updatedFrom, updatedTo] = await this.unitOfWork.run(async (scope) => {
+      const fromWallet = await this.requireWallet(scope.walletRepository, options.userId, options.fromWalletType);
+      if (fromWallet.availableBalance < options.amount) {
+        throw new Error('Insufficient funds');
+      }
+
+      const toWallet = await this.requireWallet(scope.walletRepository, options.userId, options.toWalletType);
+      return this.moveBetween(
+        scope,
+        fromWallet,
+        toWallet,
+        options.amount,
+        options.description ?? `Transfer from ${options.fromWalletType} to ${options.toWalletType}`,
+        options.transactionId,
+      );
+    });
+
+    this.logger.info('Wallet transfer completed', {
+      userId: options.userId,
+      fromWalletType: options.fromWalletType,
+      toWalletType: options.toWalletType,
+      amount: options.amount,
+    });
+
+    return { fromWallet: updatedFrom, toWallet: updatedTo };
+  }
+
+  /**
+   * Reserve funds for a pending transaction. The amount stays in the balance but is no longer
+   * available to spend until the hold is captured, released or expires.
+   */
+  async placeHold(options: PlaceHoldOptions): Promise<FundHold> {
+    const hold = await this.unitOfWork.run(async (scope) => {
+      const existing = await scope.fundHoldRepository.findLatestByTransactionId(options.transactionId);
+      if (existing?.status === 'held') {
+        throw new Error('Transaction already has funds on hold');
+      }
+
+      const wallet = await this.requireWallet(scope.walletRepository, options.userId, options.walletType);
+      const fee = options.fee ?? 0;
+      if (wallet.availableBalance < options.amount + fee) {
+        throw new Error('Insufficient funds');
+      }
+
+      const now = this.clock.now();
+      const placed = createFundHold({
+        id: randomUUID(),
+        walletId: wallet.id,
+        userId: options.userId,
+        transactionId: options.transactionId,
+        amount: options.amount,
+        fee,
+        description: options.description,
+        expiresAt: options.expiresAt === undefined ? new Date(now.getTime() + DEFAULT_HOLD_TTL_MS) : options.expiresAt,
+        now,
+      });
+
+      wallet.availableBalance -= options.amount + fee;
+      wallet.updatedAt = now;
+      validateWallet(wallet);
+
+      await scope.walletRepository.save(wallet);
+      return scope.fundHoldRepository.create(placed);
+    });
+
+    this.logger.info('Funds placed on hold', {
+      userId: options.userId,
+      walletType: options.walletType,
+      amount: options.amount,
+      fee: hold.fee,
+      transactionId: options.transactionId,
+      expiresAt: hold.expiresAt?.toISOString() ?? null,
+    });
+    return hold;
+  }
+
+  /**
+   * Take held funds out of the wallet now that the transaction settled. Returns null when the
+   * transaction has no hold still held.
+   */
+  async captureHold(transactionId: UUID, options: { counterAccount?: SystemLedgerAccount } = {}): Promise<FundHold | null> {
+    const captured = await this.unitOfWork.run(async (scope) => {
+      const hold = await scope.fundHoldRepository.findLatestByTransactionId(transactionId);
+      if (!hold || hold.status !== 'held') {
+        return null;
+      }
+
+      const wallet = await this.requireHeldWallet(scope.walletRepository, hold);
+      const now = this.clock.now();
+      wallet.balance -= hold.amount + hold.fee;
+      wallet.lastTransactionAt = now;
+      wallet.updatedAt = now;
+      validateWallet(wallet);
+
+      await scope.walletRepository.save(wallet);
+      const lines: LedgerLine[] = [
+        { accountId: walletAccountId(wallet.id), direction: 'debit', amount: hold.amount + hold.fee },
+        { accountId: systemAccountId(options.counterAccount ?? 'paystack_clearing'), direction: 'credit', amount: hold.amount },
+      ];
+      if (hold.fee > 0) {
+        lines.push({ accountId: systemAccountId('fees'), direction: 'credit', amount: hold.fee });
+      }
+      await this.postEntry(scope, hold.description, transactionId, lines);
+      return this.settleHold(scope, hold, 'captured', now);
+    });
+
+    if (captured) {
+      this.logger.info('Held funds captured', {
+        transactionId,
+        amount: captured.amount,
+        fee: captured.fee,
+        walletId: captured.walletId,
+      });
+    }
+    return captured;
+  }
+
+  /**
+   * Make held funds spendable again because the transaction failed or was reversed. Returns null
+   * when the transaction has no hold still held.
+   */
+  async releaseHold(transactionId: UUID): Promise<FundHold | null> {
+    const released = await this.unitOfWork.run(async (scope) => {
+      const hold = await scope.fundHoldRepository.findLatestByTransactionId(transactionId);
+      if (!hold || hold.status !== 'held') {
+        return null;
+      }
+      return this.releaseHeldFunds(scope, hold, 'released');
+    });
+
+    if (released) {
+      this.logger.info('Held funds released', { transactionId, amount: released.amount, walletId: released.walletId });
+    }
+    return released;
+  }
+
+  async getHold(transactionId: UUID): Promise<FundHold | null> {
+    return this.fundHoldRepository.findLatestByTransactionId(transactionId);
+  }
+
+  /**
+   * Release holds whose transaction never settled before they expired, so the money does not stay
+   * stuck. A payout held for screening keeps its funds reserved until an admin decides it. Returns
+   * the holds that were expired.
+   */
+  async expireHolds(options: { now?: Date; limit?: number } = {}): Promise<FundHold[]> {
+    const now = options.now ?? this.clock.now();
+    const candidates = await this.fundHoldRepository.listExpired(now, { limit: options.limit ?? DEFAULT_EXPIRY_BATCH_SIZE });
+
+    const expired: FundHold[] = [];
+    for (const candidate of candidates) {
+      // eslint-disable-next-line no-await-in-loop
+      const hold = await this.unitOfWork.run(async (scope) => {
+        const current = await scope.fundHoldRepository.findLatestByTransactionId(candidate.transactionId);
+        if (!current || current.id !== candidate.id || current.status !== 'held') {
+          return null;
+        }
+        if ((await scope.transactionRepository.findById(current.transactionId))?.heldForScreening) {
+          return null;
+        }
+        return this.releaseHeldFunds(scope, current, 'expired');
+      });
+
+      if (hold) {
+        this.logger.warn('Expired hold released', {
+          holdId: hold.id,
+          transactionId: hold.transactionId,
+          amount: hold.amount,
+          expiresAt: hold.expiresAt?.toISOString() ?? null,
+        });
+        expired.push(hold);
+      }
+    }
+    return expired;
+  }
+
+  private async releaseHeldFunds(
+    scope: UnitOfWorkScope,
+    hold: FundHold,
+    status: Extract<FundHold['status'], 'released' | 'expired'>,
+  ): Promise<FundHold> {
+    const wallet = await this.requireHeldWallet(scope.walletRepository, hold);
+    const now = this.clock.now();
+    wallet.availableBalance += hold.amount + hold.fee;
+    wallet.updatedAt = now;
+    validateWallet(wallet);
+
+    await scope.walletRepository.save(wallet);
+    return this.settleHold(scope, hold, status, now);
+  }
+
+  private async settleHold(
+    scope: UnitOfWorkScope,
+    hold: FundHold,
+    status: Exclude<FundHold['status'], 'held'>,
+    now: Date,
+  ): Promise<FundHold> {
+    const settled: FundHold = { ...hold, status, settledAt: now, updatedAt: now };
+    validateFundHold(settled);
+    return scope.fundHoldRepository.update(settled);
+  }
+
+  private async moveBetween(
+    scope: UnitOfWorkScope,
+    fromWallet: Wallet,
+    toWallet: Wallet,
+    amount: number,
+    description: string,
+    transactionId?: UUID | null,
+  ): Promise<[Wallet, Wallet]> {
+    const now = this.clock.now();
+
+    fromWallet.balance -= amount;
+    fromWallet.availableBalance -= amount;
+    fromWallet.lastTransactionAt = now;
+    fromWallet.updatedAt = now;
+
+    toWallet.balance += amount;
+    toWallet.availableBalance += amount;
+    toWallet.lastTransactionAt = now;
+    toWallet.updatedAt = now;
+
+    validateWallet(fromWallet);
+    validateWallet(toWallet);
+
+    const saved: [Wallet, Wallet] = [
+      await scope.walletRepository.save(fromWallet),
+      await scope.walletRepository.save(toWallet),
+    ];
+    await this.postEntry(scope, description, transactionId, [
+      { accountId: walletAccountId(fromWallet.id), direction: 'debit', amount },
+      { accountId: walletAccountId(toWallet.id), direction: 'credit', amount },
+    ]);
+    return saved;
+  }
+
+  /**
+   * Posted into the same unit of work as the wallet saves, so the entry and the balances it
+   * explains commit together.
+   */
+  private async postEntry(
+    scope: UnitOfWorkScope,
+    description: string,
+    transactionId: UUID | null | undefined,
+    lines: LedgerLine[],
+  ): Promise<void> {
+    await this.ledgerService.forScope(scope).post({ description, transactionId, lines });
+  }
+
+  private async requireHeldWallet(walletRepository: WalletRepository, hold: FundHold): Promise<Wallet> {
+    const wallet = await walletRepository.findById(hold.walletId);
+    if (!wallet) {
+      throw new Error(`Wallet ${hold.walletId} for hold ${hold.id} not found`);
+    }
+    return wallet;
+  }
+
+  private async requireWallet(walletRepository: WalletRepository, userId: UUID, walletType: WalletType): Promise<Wallet> {
+    const wallet = await walletRepository.findByUserAndType(userId, walletType);
     if (!wallet) {
       throw new Error(`Wallet not found for type ${walletType}`);
     }
@@ -2,15 +2,30 @@
  * Shared service interfaces and abstractions decoupling domain logic from infrastructure.
  */
 
+import { AmlAlert, AmlAlertStatus } from '../models/AmlAlert';
 import { AuthSession } from '../models/AuthSession';
-import { User } from '../models/User';
+import { ComplianceHold, User } from '../models/User';
 import { Wallet, WalletType } from '../models/Wallet';
-import { Transaction, TransactionCategory, TransactionType } from '../models/Transaction';
+import { Transaction, TransactionCategory, TransactionStatus, TransactionType } from '../models/Transaction';
 import { SavingsGoal } from '../models/SavingsGoal';
 import { SavingsInvestmentPreference } from '../models/SavingsInvestmentPreference';
 import { SavingsInvestmentPosition } from '../models/SavingsInvestmentPosition';
 import { RoundUpRule } from '../models/RoundUpRule';
-import { KYCDocument, KYCDocumentType } from '../models/KYCDocument';
+import { ExtractedData, KYCDocument, KYCDocumentStatus, KYCDocumentType } from '../models/KYCDocument';
+import { KYCUploadAttempt } from '../models/KYCUploadAttempt';
+import { KYCReviewCase, KYCReviewCaseStatus } from '../models/KYCReviewCase';
+import { ScreeningCase, ScreeningCaseStatus } from '../models/ScreeningCase';
+import { WebhookEvent, WebhookEventStatus } from '../models/WebhookEvent';
+import { ReconciliationReport } from '../models/ReconciliationReport';
+import { IdempotencyRecord } from '../models/IdempotencyRecord';
+import { LedgerEntry } from '../models/LedgerEntry';
+import { FundHold } from '../models/FundHold';
+import { RefreshToken } from '../models/RefreshToken';
+import { DeviceSession } from '../models/DeviceSession';
+import { PinRecovery, PinRecoveryStatus } from '../models/PinRecovery';
+import { AccountClosure } from '../models/AccountClosure';
+import { StepUpChallenge } from '../models/StepUpChallenge';
+import { AdminAuditEntry, AdminAuditTargetType } from '../models/AdminAuditEntry';
 import { UUID } from '../models/base';
 
 export interface Clock {
@@ -29,6 +44,13 @@ export interface UserRepository {
   findByEmail(email: string): Promise<User | null>;
   findByPhone(phone: string): Promise<User | null>;
   update(userId: UUID, update: Partial<User>): Promise<User>;
+  /**
+   * Places or lifts one compliance hold in a single write, so a review changing another hold at the
+   * same time is not undone. Null when the user does not exist.
+   */
+  setComplianceHold(userId: UUID, hold: ComplianceHold, held: boolean, now: Date): Promise<User | null>;
+  /** Users whose email, phone or name contains the query, case-insensitively, for back-office lookup. */
+  search(query: string, options: { limit: number }): Promise<User[]>;
 }
 
 export interface IdentityProvider {
@@ -39,13 +61,23 @@ export interface WalletRepository {
   findById(walletId: UUID): Promise<Wallet | null>;
   findByUserAndType(userId: UUID, walletType: WalletType): Promise<Wallet | null>;
   listByUser(userId: UUID): Promise<Wallet[]>;
+  /**
+   * Compare-and-swap: saves only while the stored version still equals wallet.version and returns
+   * the wallet with its version bumped. Throws ConcurrencyError when someone else saved first.
+   */
   save(wallet: Wallet): Promise<Wallet>;
 }
 
 export interface TransactionRepository {
   create(transaction: Transaction): Promise<Transaction>;
   update(transaction: Transaction): Promise<Transaction>;
-  sumUserTransactionsForDay(userId: UUID, dayStart: Date): Promise<number>;
+  /**
+   * Count one more retry and set its times, writing only the retry columns, so a settlement that
+   * lands meanwhile is kept. Returns null when the transaction does not exist.
+   */
+  recordRetry(transactionId: UUID, retry: { lastRetryAt: Date; nextRetryAt: Date | null }): Promise<Transaction | null>;
+  /** Amounts of the user's transactions created since a time, totalled by type; failed and cancelled ones are left out. */
+  sumUserTransactionsByType(userId: UUID, since: Date): Promise<Partial<Record<TransactionType, number>>>;
   listRecentTransactions(userId: UUID, since: Date): Promise<Transaction[]>;
   listByUser(
     userId: UUID,
@@ -62,6 +94,16 @@ export interface TransactionRepository {
   ): Promise<number>;
   findById(transactionId: UUID): Promise<Transaction | null>;
   findByExternalReference(reference: string): Promise<Transaction | null>;
+  findByExternalTransactionId(externalTransactionId: string): Promise<Transaction | null>;
+  /** Oldest first, so a sweep that hits the limit picks up where it stopped on the next run. */
+  listPendingCreatedBefore(
+    cutoff: Date,
+    options: { types: TransactionType[]; limit: number },
+  ): Promise<Transaction[]>;
+  /** Completed transactions of any user after the cursor, in (updated_at, id) order. */
+  listCompletedAfter(cursor: TransactionCursor, options: { limit: number }): Promise<Transaction[]>;
+  /** The user's completed transactions created at or after a time, oldest first. */
+  listCompletedByUser(userId: UUID, since: Date): Promise<Transaction[]>;
 }
 
 export interface SavingsGoalRepository {
@@ -91,9 +133,179 @@ export interface RoundUpRuleRepository {
 export interface KYCDocumentRepository {
   create(document: KYCDocument): Promise<KYCDocument>;
   update(document: KYCDocument): Promise<KYCDocument>;
+  /** The user's most recently uploaded document of the type, whatever its status; renewals leave the older ones in place. */
   findByUserAndType(userId: UUID, type: KYCDocumentType): Promise<KYCDocument | null>;
   findById(documentId: UUID): Promise<KYCDocument | null>;
   listByUser(userId: UUID): Promise<KYCDocument[]>;
+  /** Documents of every user in the given statuses, oldest upload first, for the review queue. */
+  listByStatus(
+    statuses: KYCDocumentStatus[],
+    options: { documentType?: KYCDocumentType; limit: number; offset: number },
+  ): Promise<KYCDocument[]>;
+  /** Approved documents expiring before the cutoff, soonest first, for the expiry monitor. */
+  listApprovedExpiringBefore(cutoff: Date, options: { limit: number }): Promise<KYCDocument[]>;
+}
+
+/** Where KYC document files are kept. Paths are relative to the store, e.g. `kyc/<user>/<document>/<file>`. */
+export interface DocumentStorage {
+  /** Stores the bytes at the path, replacing anything already there. */
+  put(path: string, content: Buffer, contentType: string): Promise<void>;
+  /** Null when nothing is stored at the path. */
+  get(path: string): Promise<Buffer | null>;
+  delete(path: string): Promise<void>;
+}
+
+export interface KYCUploadAttemptRepository {
+  find(userId: UUID, documentType: KYCDocumentType): Promise<KYCUploadAttempt | null>;
+  listByUser(userId: UUID): Promise<KYCUploadAttempt[]>;
+  /** Inserts or replaces the record for the user and document type. */
+  save(attempt: KYCUploadAttempt): Promise<KYCUploadAttempt>;
+}
+
+export interface KYCReviewCaseRepository {
+  create(reviewCase: KYCReviewCase): Promise<KYCReviewCase>;
+  update(reviewCase: KYCReviewCase): Promise<KYCReviewCase>;
+  findById(caseId: UUID): Promise<KYCReviewCase | null>;
+  /** At most one case is open per user and document type. */
+  findOpen(userId: UUID, documentType: KYCDocumentType): Promise<KYCReviewCase | null>;
+  /** Oldest first. */
+  listByStatus(status: KYCReviewCaseStatus, options: { limit: number; offset: number }): Promise<KYCReviewCase[]>;
+}
+
+export interface ScreeningCaseRepository {
+  create(screeningCase: ScreeningCase): Promise<ScreeningCase>;
+  update(screeningCase: ScreeningCase): Promise<ScreeningCase>;
+  findById(caseId: UUID): Promise<ScreeningCase | null>;
+  /** Every case about the user or their payouts, oldest first. */
+  listByUser(userId: UUID): Promise<ScreeningCase[]>;
+  /** Oldest first. */
+  listByStatus(status: ScreeningCaseStatus, options: { limit: number; offset: number }): Promise<ScreeningCase[]>;
+}
+
+/** A position in the feed of completed transactions: last updated at, ties broken by id. */
+export interface TransactionCursor {
+  updatedAt: Date;
+  id: UUID;
+}
+
+export interface AmlScanCursorRepository {
+  /** Where the AML scan got to, or null before its first run. */
+  find(): Promise<TransactionCursor | null>;
+  save(cursor: TransactionCursor): Promise<void>;
+}
+
+export interface AmlAlertRepository {
+  /** Throws ConcurrencyError when the user already has an open alert for the rule. */
+  create(alert: AmlAlert): Promise<AmlAlert>;
+  update(alert: AmlAlert): Promise<AmlAlert>;
+  /**
+   * Compare-and-swap: saves only while the stored alert was last updated at `expectedUpdatedAt`.
+   * Throws ConcurrencyError when someone else saved it first.
+   */
+  updateIfUnchanged(alert: AmlAlert, expectedUpdatedAt: Date): Promise<AmlAlert>;
+  findById(alertId: UUID): Promise<AmlAlert | null>;
+  /** Every alert about the user, oldest first; at most one is open per rule. */
+  listByUser(userId: UUID): Promise<AmlAlert[]>;
+  /** Oldest first. */
+  listByStatus(status: AmlAlertStatus, options: { limit: number; offset: number }): Promise<AmlAlert[]>;
+}
+
+export interface KYCVerificationRequest {
+  document: KYCDocument;
+  user: User;
+  /** For a selfie, the user's identity document whose photo the face is compared with. */
+  identityDocument: KYCDocument | null;
+}
+
+export interface KYCVerificationResult {
+  /** Fields read off the document; null when nothing could be read. */
+  extractedData: ExtractedData | null;
+  /** Selfie-to-ID face match from 0 to 1; null for identity documents or when no comparison ran. */
+  faceMatchScore: number | null;
+  suggestedStatus: 'approved' | 'rejected' | 'manual_review';
+  /** Why the provider suggests rejecting or reviewing the document, in words a reviewer can act on. */
+  reasons: string[];
+}
+
+/** Reads identity documents (OCR) and matches selfies against them, e.g. a third-party KYC vendor. */
+export interface KYCVerificationProvider {
+  readonly name: string;
+  verify(request: KYCVerificationRequest): Promise<KYCVerificationResult>;
+}
+
+export interface WebhookEventRepository {
+  create(event: WebhookEvent): Promise<WebhookEvent>;
+  update(event: WebhookEvent): Promise<WebhookEvent>;
+  /** Returns the signature-verified event with this provider event id, if one was stored. */
+  findByEventId(eventId: string): Promise<WebhookEvent | null>;
+  listByStatus(status: WebhookEventStatus, options: { limit: number }): Promise<WebhookEvent[]>;
+}
+
+export interface ReconciliationReportRepository {
+  findByDate(reportDate: string): Promise<ReconciliationReport | null>;
+  /** Insert or replace the report for its reportDate. */
+  save(report: ReconciliationReport): Promise<ReconciliationReport>;
+}
+
+export interface IdempotencyKeyRepository {
+  /** Throws when a record for the same user and key already exists. */
+  create(record: IdempotencyRecord): Promise<IdempotencyRecord>;
+  update(record: IdempotencyRecord): Promise<IdempotencyRecord>;
+  findByKey(userId: UUID, key: string): Promise<IdempotencyRecord | null>;
+  delete(recordId: UUID): Promise<void>;
+  /** Removes records that expired before the given time. Returns how many were removed. */
+  deleteExpired(before: Date): Promise<number>;
+}
+
+export interface LedgerRepository {
+  /** Entries are append-only: they are never updated or deleted once written. */
+  append(entry: LedgerEntry): Promise<LedgerEntry>;
+  /** Entries with a line on the account, newest first, optionally posted at or before a time. */
+  listByAccount(accountId: string, options: { asOf?: Date; limit: number }): Promise<LedgerEntry[]>;
+  /** Debit and credit totals for the account, optionally counting only lines posted at or before a time. */
+  totalsForAccount(accountId: string, asOf?: Date): Promise<{ debits: number; credits: number }>;
+}
+
+export interface FundHoldRepository {
+  create(hold: FundHold): Promise<FundHold>;
+  update(hold: FundHold): Promise<FundHold>;
+  /** Most recently placed hold for the transaction, whatever its status. */
+  findLatestByTransactionId(transactionId: UUID): Promise<FundHold | null>;
+  /** Holds still held at or past their expiry, oldest expiry first. */
+  listExpired(now: Date, options: { limit: number }): Promise<FundHold[]>;
+}
+
+export interface UnitOfWorkScope {
+  walletRepository: WalletRepository;
+  transactionRepository: TransactionRepository;
+  ledgerRepository: LedgerRepository;
+  fundHoldRepository: FundHoldRepository;
+}
+
+export interface UnitOfWork {
+  /**
+   * Runs work against repositories whose writes are held back and committed together once it
+   * resolves; nothing is written when it throws. A wallet saved by someone else in the meantime
+   * fails the commit with ConcurrencyError.
+   */
+  run<T>(work: (scope: UnitOfWorkScope) => Promise<T>): Promise<T>;
+}
+
+export interface UnitOfWorkChanges {
+  /** Final wallet state (with its bumped version) and the version it must still have in storage. */
+  wallets: Array<{ wallet: Wallet; expectedVersion: number }>;
+  /**
+   * Transaction rows to write. An update carries the status the unit read the row with, which it
+   * must still have in storage; null for new rows and for rows the unit never read.
+   */
+  transactions: Array<{ transaction: Transaction; isNew: boolean; expectedStatus: TransactionStatus | null }>;
+  ledgerEntries: LedgerEntry[];
+  fundHolds: Array<{ hold: FundHold; isNew: boolean }>;
+}
+
+export interface UnitOfWorkCommitter {
+  /** Applies every change atomically, or none of them. */
+  commit(changes: UnitOfWorkChanges): Promise<void>;
 }
 
 export interface NotificationService {
@@ -107,20 +319,114 @@ export interface AuthSessionRepository {
   delete(sessionId: string): Promise<void>;
 }
 
+export interface RefreshTokenRepository {
+  create(token: RefreshToken): Promise<RefreshToken>;
+  findByTokenHash(tokenHash: string): Promise<RefreshToken | null>;
+  /**
+   * Marks the token rotated unless it already was, so only one of two concurrent refreshes with
+   * the same token wins. Returns false when the token had already been rotated.
+   */
+  markRotated(tokenId: UUID, at: Date): Promise<boolean>;
+  /** Revokes every token in the family that is not revoked yet. */
+  revokeFamily(familyId: UUID, at: Date): Promise<void>;
+}
+
 export interface OtpSender {
   sendEmailOtp(email: string, otpCode: string): Promise<void>;
   sendSmsOtp(phone: string, otpCode: string): Promise<void>;
 }
 
+export interface DeviceSessionRepository {
+  create(session: DeviceSession): Promise<DeviceSession>;
+  update(session: DeviceSession): Promise<DeviceSession>;
+  findById(sessionId: UUID): Promise<DeviceSession | null>;
+  /** Every session of the user, revoked and expired ones included, most recently seen first. */
+  listByUser(userId: UUID): Promise<DeviceSession[]>;
+}
+
+export interface PinRecoveryRepository {
+  create(recovery: PinRecovery): Promise<PinRecovery>;
+  /**
+   * Saves the recovery only while it is still in the expected status, so two requests cannot both
+   * move it on. Null when its status changed in the meantime. Identity attempts are left as stored.
+   */
+  updateIfStatus(recovery: PinRecovery, expected: PinRecoveryStatus): Promise<PinRecovery | null>;
+  findById(recoveryId: UUID): Promise<PinRecovery | null>;
+  /** The user's most recently started recovery, whatever its status. */
+  findLatestByUser(userId: UUID): Promise<PinRecovery | null>;
+  /**
+   * Counts one identity answer against a recovery that is still `verified`, in a single step per
+   * user. When the user's recoveries started at or after `since` already hold `maxAttempts` answers,
+   * the recovery is failed instead of counted. Returns the recovery as stored with the answers in
+   * the window, or null when the recovery is no longer open.
+   */
+  recordIdentityAttempt(
+    recoveryId: UUID,
+    options: { since: Date; maxAttempts: number; now: Date },
+  ): Promise<{ recovery: PinRecovery; attemptsInWindow: number } | null>;
+  /** Recoveries cooling off whose new PIN is due at or before now, earliest first. */
+  listDue(now: Date, options: { limit: number }): Promise<PinRecovery[]>;
+}
+
+export interface AccountClosureRepository {
+  create(closure: AccountClosure): Promise<AccountClosure>;
+  update(closure: AccountClosure): Promise<AccountClosure>;
+  /** A user closes their account at most once. */
+  findByUserId(userId: UUID): Promise<AccountClosure | null>;
+  /** Closures still holding personal data whose retention ended at or before now, earliest first. */
+  listDue(now: Date, options: { limit: number }): Promise<AccountClosure[]>;
+}
+
+export interface AdminAuditLogRepository {
+  append(entry: AdminAuditEntry): Promise<AdminAuditEntry>;
+  /** Newest first. */
+  listByTarget(targetType: AdminAuditTargetType, targetId: UUID, options: { limit: number }): Promise<AdminAuditEntry[]>;
+}
+
+export interface StepUpChallengeRepository {
+  create(challenge: StepUpChallenge): Promise<StepUpChallenge>;
+  update(challenge: StepUpChallenge): Promise<StepUpChallenge>;
+  findById(challengeId: UUID): Promise<StepUpChallenge | null>;
+}
+
+export interface AccessTokenClaims {
+  userId: UUID;
+  deviceSessionId: UUID;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * - rotated: the presented token is spent and `refreshToken` replaces it
+ * - reused: the token had already been rotated, so it was copied; its whole family is revoked
+ * - invalid: unknown, expired or revoked
+ */
+export type RefreshTokenRotation =
+  | { status: 'rotated'; userId: UUID; deviceSessionId: UUID; refreshToken: string }
+  | { status: 'reused'; userId: UUID; deviceSessionId: UUID }
+  | { status: 'invalid' };
+
 export interface TokenService {
-  issueAccessToken(user: User): Promise<string>;
-  issueRefreshToken(user: User): Promise<string>;
+  issueAccessToken(user: User, deviceSessionId: UUID): Promise<string>;
+  /** Claims of a genuine, unexpired access token; null for anything else. */
+  verifyAccessToken(accessToken: string): Promise<AccessTokenClaims | null>;
+  /** Starts the session's refresh token family. */
+  issueRefreshToken(user: User, deviceSessionId: UUID): Promise<string>;
+  /** Exchanges a refresh token for a new one in the same family. */
+  rotateRefreshToken(refreshToken: string): Promise<RefreshTokenRotation>;
+  /** Revokes the token and every token rotated from the same sign-in. */
   revokeRefreshToken(refreshToken: string): Promise<void>;
 }
 
+/**
+ * Tokens issued with an `intentHash` (see hashPaymentIntent) are only valid for that payment; tokens
+ * without one are only valid for actions that pass no hash.
+ */
 export interface PinTokenService {
-  issue(userId: UUID, token: string, ttlSeconds: number): Promise<void>;
-  validate(userId: UUID, token: string): Promise<boolean>;
+  issue(userId: UUID, token: string, ttlSeconds: number, intentHash?: string | null): Promise<void>;
+  validate(userId: UUID, token: string, intentHash?: string | null): Promise<boolean>;
+  /** Validates and invalidates the token in one step, so only one request can use it. */
+  consume(userId: UUID, token: string, intentHash?: string | null): Promise<boolean>;
   invalidate(token: string): Promise<void>;
 }
 
@@ -213,12 +519,52 @@ export interface TransactionClassifier {
   classify(input: TransactionClassificationInput): TransactionCategory;
 }
 
+/**
+ * - pending: waiting for runAt
+ * - running: claimed by a worker until lockedUntil; an expired lease makes it claimable again
+ * - completed: handler finished
+ * - dead: attempts ran out; kept for investigation
+ */
+/**
+ * Work a retry job asks for. Stored as `payload.type` alongside the transaction id.
+ * - merchant_payment: a merchant payment failed locally; ask Paystack whether the charge went through
+ * - transfer_verification: re-verify a Paystack transfer that failed or never reported back
+ * - deposit_check: re-check a top-up that has not been confirmed by the client or a webhook
+ */
+export type RetryJobType = 'merchant_payment' | 'transfer_verification' | 'deposit_check';
+
+export type RetryJobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export interface RetryJob {
+  id: string;
+  runAt: Date;
+  payload: Record<string, unknown>;
+  status: RetryJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lockedBy: string | null;
+  lockedUntil: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface RetryQueue {
   enqueue(job: {
     id: string;
     runAt: Date;
     payload: Record<string, unknown>;
+    maxAttempts?: number;
   }): Promise<void>;
+
+  /**
+   * Lease up to `limit` due jobs to `workerId`. Each claim counts as an attempt, so a job whose
+   * worker crashes mid-run still moves towards dead-lettering.
+   */
+  claimDue(options: { workerId: string; now: Date; leaseMs: number; limit: number }): Promise<RetryJob[]>;
+  complete(jobId: string, workerId: string): Promise<void>;
+  reschedule(jobId: string, workerId: string, options: { runAt: Date; error: string }): Promise<void>;
+  deadLetter(jobId: string, workerId: string, options: { error: string }): Promise<void>;
 }
 
 export interface Logger {
@@ -230,6 +576,8 @@ export interface Logger {
 export interface PinHasher {
   hash(pin: string): Promise<string>;
   compare(pin: string, hash: string): Promise<boolean>;
+  /** True when the hash uses an older format or cost, so it should be replaced after a successful compare. */
+  needsRehash(hash: string): boolean;
 }
 
 export const NullLogger: Logger = {
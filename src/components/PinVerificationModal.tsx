@@ -11,6 +11,7 @@ import {
 import Icon from 'react-native-vector-icons/MaterialIcons';
 
 import PINInput from '@/components/PINInput';
+import { PaymentIntentPayload } from '@/services/api';
 import { useAuthStore } from '@/store/authStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { biometricAuthService } from '@/services/biometricAuth';
@@ -25,6 +26,7 @@ interface PinVerificationModalProps {
   onSuccess: (token: string) => void;
   onCancel: () => void;
   onPinEntered?: (pin: string) => void; // Callback to capture PIN before verification
+  intent?: PaymentIntentPayload; // Binds the issued token to this payment
 }
 
 const LOCK_REFRESH_INTERVAL = 1000;
@@ -37,6 +39,7 @@ const PinVerificationModal: React.FC<PinVerificationModalProps> = ({
   onSuccess,
   onCancel,
   onPinEntered,
+  intent,
 }) => {
   const { theme } = useTheme();
   // Auth store
@@ -161,7 +164,7 @@ const PinVerificationModal: React.FC<PinVerificationModalProps> = ({
           }
 
           // Verify PIN with backend to get a real token
-          const token = await verifyPin({ pin: storedPin });
+          const token = await verifyPin({ pin: storedPin, intent });
           onSuccess(token);
         } catch (pinError) {
           // PIN verification failed or retrieval failed
@@ -220,7 +223,7 @@ const PinVerificationModal: React.FC<PinVerificationModalProps> = ({
         onPinEntered(enteredPin);
       }
 
-      const token = await verifyPin({ pin: enteredPin });
+      const token = await verifyPin({ pin: enteredPin, intent });
       onSuccess(token);
     } catch (error) {
       if (error instanceof PinLockError) {
@@ -0,0 +1,348 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Platform,
+  KeyboardAvoidingView,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+
+import apiClient, { ApiError, StepUpChallengeResponse } from '@/services/api';
+import { useAuthStore } from '@/store/authStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { biometricAuthService } from '@/services/biometricAuth';
+import { useTheme } from '@/contexts/ThemeContext';
+
+interface StepUpVerificationModalProps {
+  visible: boolean;
+  /** Challenge from the STEP_UP_REQUIRED error of the payment being retried. */
+  challenge: StepUpChallengeResponse | null;
+  onVerified: (challengeId: string) => void;
+  onCancel: () => void;
+}
+
+/** Codes after which the challenge cannot be verified any more; the payment has to be started again. */
+const TERMINAL_ERROR_CODES = ['STEP_UP_EXPIRED', 'STEP_UP_NOT_FOUND', 'STEP_UP_ALREADY_VERIFIED'];
+
+const describeReasons = (challenge: StepUpChallengeResponse) => {
+  if (challenge.reasons.includes('new_recipient')) {
+    return "You haven't paid this recipient before. Confirm it's you with a code we'll send you.";
+  }
+  return 'This is a large payment. Confirm it\'s you before we send it.';
+};
+
+const StepUpVerificationModal: React.FC<StepUpVerificationModalProps> = ({
+  visible,
+  challenge,
+  onVerified,
+  onCancel,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+  const user = useAuthStore((state) => state.user);
+  const isBiometricEnabled = useSettingsStore((state) => state.isBiometricEnabled);
+
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [codeSentTo, setCodeSentTo] = useState<'email' | 'sms' | null>(null);
+  const [otpCode, setOtpCode] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [isClosed, setIsClosed] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setCodeSentTo(null);
+      setOtpCode('');
+      setErrorMessage(null);
+      setIsClosed(false);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    const checkBiometric = async () => {
+      if (!visible || !user?.id || !challenge?.methods.includes('biometric') || !isBiometricEnabled(user.id)) {
+        setBiometricAvailable(false);
+        return;
+      }
+      try {
+        setBiometricAvailable(await biometricAuthService.canUseBiometrics());
+      } catch {
+        setBiometricAvailable(false);
+      }
+    };
+
+    checkBiometric();
+  }, [visible, user?.id, challenge]);
+
+  const handleError = (error: unknown, fallback: string) => {
+    if (error instanceof ApiError && TERMINAL_ERROR_CODES.includes(error.code ?? '')) {
+      setIsClosed(true);
+      setErrorMessage('This verification has expired. Cancel and try the payment again.');
+      return;
+    }
+    setErrorMessage(error instanceof ApiError ? error.message : fallback);
+  };
+
+  const verify = async (method: 'otp' | 'biometric') => {
+    if (!challenge) return;
+
+    setIsBusy(true);
+    setErrorMessage(null);
+    try {
+      await apiClient.verifyStepUp(challenge.challenge_id, { method, otpCode: method === 'otp' ? otpCode : undefined });
+      onVerified(challenge.challenge_id);
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 'INVALID_OTP') {
+        setOtpCode('');
+      }
+      handleError(error, 'Unable to verify. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleBiometric = async () => {
+    if (!user?.id || isBusy) return;
+
+    try {
+      const success = await biometricAuthService.authenticate(user.id, {
+        promptMessage: 'Confirm this payment',
+        cancelLabel: 'Use a code',
+        fallbackLabel: 'Use a code instead',
+      });
+      if (success) {
+        await verify('biometric');
+      } else {
+        setErrorMessage('Biometric confirmation cancelled. You can use a code instead.');
+      }
+    } catch (error) {
+      setErrorMessage('Biometric confirmation failed. You can use a code instead.');
+    }
+  };
+
+  const handleSendCode = async () => {
+    if (!challenge) return;
+
+    setIsBusy(true);
+    setErrorMessage(null);
+    try {
+      const response = await apiClient.sendStepUpOtp(challenge.challenge_id);
+      setCodeSentTo(response.delivery_channel);
+      setOtpCode('');
+    } catch (error) {
+      handleError(error, 'Unable to send a code. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const canVerifyOtp = otpCode.length === 6 && !isBusy && !isClosed;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.overlay}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+          style={styles.modalContainer}
+        >
+          <View style={styles.modalContent}>
+            <Text style={styles.title}>Confirm it's you</Text>
+            <Text style={styles.subtitle}>{challenge ? describeReasons(challenge) : ''}</Text>
+
+            {codeSentTo ? (
+              <View style={styles.codeSection}>
+                <Text style={styles.hintText}>
+                  Enter the 6-digit code we sent to your {codeSentTo === 'sms' ? 'phone' : 'email'}.
+                </Text>
+                <TextInput
+                  style={styles.codeInput}
+                  value={otpCode}
+                  onChangeText={(text) => setOtpCode(text.replace(/[^0-9]/g, '').slice(0, 6))}
+                  placeholder="000000"
+                  placeholderTextColor={theme.colors.textTertiary}
+                  keyboardType="number-pad"
+                  maxLength={6}
+                  editable={!isClosed}
+                  autoFocus
+                />
+                <TouchableOpacity onPress={handleSendCode} disabled={isBusy || isClosed}>
+                  <Text style={styles.linkText}>Send a new code</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              biometricAvailable && (
+                <TouchableOpacity
+                  style={[styles.button, styles.biometricButton, styles.fullWidthButton]}
+                  onPress={handleBiometric}
+                  disabled={isBusy || isClosed}
+                >
+                  <Icon name="fingerprint" size={20} color="#40916C" />
+                  <Text style={[styles.buttonText, styles.biometricButtonText]}>Confirm with biometrics</Text>
+                </TouchableOpacity>
+              )
+            )}
+
+            {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.button, styles.cancelButton]}
+                onPress={onCancel}
+                disabled={isBusy}
+              >
+                <Text style={[styles.buttonText, styles.cancelButtonText]}>Cancel</Text>
+              </TouchableOpacity>
+              {codeSentTo ? (
+                <TouchableOpacity
+                  style={[styles.button, styles.primaryButton, !canVerifyOtp && styles.disabledButton]}
+                  onPress={() => verify('otp')}
+                  disabled={!canVerifyOtp}
+                >
+                  {isBusy ? (
+                    <ActivityIndicator color={theme.colors.surface} />
+                  ) : (
+                    <Text style={[styles.buttonText, styles.primaryButtonText]}>Verify</Text>
+                  )}
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.button, styles.primaryButton, (isBusy || isClosed) && styles.disabledButton]}
+                  onPress={handleSendCode}
+                  disabled={isBusy || isClosed}
+                >
+                  {isBusy ? (
+                    <ActivityIndicator color={theme.colors.surface} />
+                  ) : (
+                    <Text style={[styles.buttonText, styles.primaryButtonText]}>Send code</Text>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 24,
+  },
+  modalContainer: {
+    width: '100%',
+  },
+  modalContent: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 16,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 6 },
+    shadowOpacity: 0.2,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: theme.colors.textPrimary,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginBottom: 24,
+  },
+  codeSection: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  hintText: {
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  codeInput: {
+    width: '100%',
+    height: 56,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.gray300,
+    textAlign: 'center',
+    fontSize: 24,
+    letterSpacing: 8,
+    color: theme.colors.textPrimary,
+    marginBottom: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.colors.accent,
+  },
+  errorText: {
+    fontSize: 13,
+    color: theme.colors.error,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  button: {
+    minWidth: 100,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  fullWidthButton: {
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  biometricButton: {
+    flexDirection: 'row',
+    gap: 6,
+    backgroundColor: theme.isDark ? 'rgba(82, 183, 136, 0.2)' : '#D8F3DC',
+  },
+  biometricButtonText: {
+    color: theme.colors.accent,
+  },
+  primaryButton: {
+    backgroundColor: theme.colors.accent,
+  },
+  primaryButtonText: {
+    color: theme.colors.surface,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  cancelButton: {
+    backgroundColor: theme.isDark ? 'rgba(255, 255, 255, 0.1)' : '#F1F3F5',
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cancelButtonText: {
+    color: theme.colors.textPrimary,
+  },
+});
+
+export default StepUpVerificationModal;
@@ -158,7 +158,7 @@ export interface Database {
           id: string;
           user_id: string;
           document_type: 'national_id' | 'passport' | 'driving_license' | 'selfie';
-          file_path: string;
+          file_path: string | null;
           file_name: string;
           file_size: number;
           mime_type: string;
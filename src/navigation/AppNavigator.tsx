@@ -4,6 +4,8 @@ import { createStackNavigator } from '@react-navigation/stack';
 import { useAuthStore } from '@/store/authStore';
 import PINEntryScreen from '@/screens/auth/PINEntryScreen';
 import PINSetupScreen from '@/screens/auth/PINSetupScreen';
+import ForgotPINScreen from '@/screens/auth/ForgotPINScreen';
+import PinRecoveryScreen from '@/screens/auth/PinRecoveryScreen';
 import KYCUploadScreen from '@/screens/kyc/KYCUploadScreen';
 import { AuthNavigator } from './AuthNavigator';
 import { MainNavigator } from './MainNavigator';
@@ -14,6 +16,8 @@ export type RootStackParamList = {
   Auth: undefined;
   PinSetup: undefined;
   PinEntry: undefined;
+  ForgotPIN: { identifier?: string } | undefined;
+  PinRecovery: { sessionId: string; identifier: string; method: 'email' | 'phone' };
   KYC: { isOnboarding: boolean };
   Main: undefined;
 };
@@ -42,7 +46,11 @@ const AppNavigator: React.FC = () => {
       ) : !isPinSet ? (
         <Stack.Screen name="PinSetup" component={PINSetupScreen} />
       ) : !isPinVerified ? (
-        <Stack.Screen name="PinEntry" component={PINEntryScreen} />
+        <>
+          <Stack.Screen name="PinEntry" component={PINEntryScreen} />
+          <Stack.Screen name="ForgotPIN" component={ForgotPINScreen} />
+          <Stack.Screen name="PinRecovery" component={PinRecoveryScreen} />
+        </>
       ) : isKycRequired ? (
         <Stack.Screen 
           name="KYC" 
@@ -9,6 +9,8 @@ import LoginScreen from '@/screens/auth/LoginScreen';
 import OTPScreen from '@/screens/auth/OTPScreen';
 import PINSetupScreen from '@/screens/auth/PINSetupScreen';
 import PINEntryScreen from '@/screens/auth/PINEntryScreen';
+import ForgotPINScreen from '@/screens/auth/ForgotPINScreen';
+import PinRecoveryScreen from '@/screens/auth/PinRecoveryScreen';
 import KYCUploadScreen from '@/screens/kyc/KYCUploadScreen';
 
 const Stack = createStackNavigator();
@@ -27,6 +29,14 @@ export type AuthStackParamList = {
   PINEntry: {
     returnScreen?: keyof AuthStackParamList;
   } | undefined;
+  ForgotPIN: {
+    identifier?: string;
+  } | undefined;
+  PinRecovery: {
+    sessionId: string;
+    identifier: string;
+    method: 'email' | 'phone';
+  };
   KYCUpload: {
     isOnboarding: boolean;
   };
@@ -89,6 +99,22 @@ export const AuthNavigator: React.FC = () => {
           gestureEnabled: false, // Security: must enter PIN
         }}
       />
+      <Stack.Screen 
+        name="ForgotPIN" 
+        component={ForgotPINScreen}
+        options={{
+          title: 'Forgot PIN',
+          gestureEnabled: true,
+        }}
+      />
+      <Stack.Screen 
+        name="PinRecovery" 
+        component={PinRecoveryScreen}
+        options={{
+          title: 'Reset PIN',
+          gestureEnabled: false, // Prevent going back mid-recovery
+        }}
+      />
       <Stack.Screen 
         name="KYCUpload" 
         component={KYCUploadScreen}
@@ -14,6 +14,7 @@ import SettingsScreen from '@/screens/settings/SettingsScreen';
 import ChangePINScreen from '@/screens/settings/ChangePINScreen';
 import EditProfileScreen from '@/screens/settings/EditProfileScreen';
 import RoundUpSettingsScreen from '@/screens/settings/RoundUpSettingsScreen';
+import DevicesScreen from '@/screens/settings/DevicesScreen';
 import KYCUploadScreen from '@/screens/kyc/KYCUploadScreen';
 import SavingsInsightsScreen from '@/screens/savings/SavingsInsightsScreen';
 import { GlassmorphismTabBar } from '@/components/GlassmorphismTabBar';
@@ -39,6 +40,7 @@ export type MainStackParamList = {
   ChangePIN: undefined;
   EditProfile: undefined;
   RoundUpSettings: undefined;
+  Devices: undefined;
   SavingsInsights: undefined;
 } & MainTabParamList;
 
@@ -173,6 +175,14 @@ export const MainNavigator: React.FC = () => {
           presentation: 'modal',
         }}
       />
+      <Stack.Screen
+        name="Devices"
+        component={DevicesScreen}
+        options={{
+          headerShown: false,
+          presentation: 'modal',
+        }}
+      />
       <Stack.Screen
         name="SavingsInsights"
         component={SavingsInsightsScreen}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  StatusBar,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import apiClient, { ApiError } from '@/services/api';
+import { useTheme } from '@/contexts/ThemeContext';
+import { formatPhoneNumber, isValidKenyanNumber } from '@/utils/phoneFormatting';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface RouteParams {
+  identifier?: string;
+}
+
+const ForgotPINScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+  const route = useRoute();
+  const { identifier: initialIdentifier } = (route.params as RouteParams) || {};
+
+  const [identifier, setIdentifier] = useState(initialIdentifier ?? '');
+  const [isSending, setIsSending] = useState(false);
+
+  const trimmed = identifier.trim();
+  const isEmail = trimmed.includes('@');
+  const contact = isEmail ? trimmed.toLowerCase() : formatPhoneNumber(trimmed);
+  const isValid = isEmail ? EMAIL_REGEX.test(contact) : isValidKenyanNumber(contact);
+
+  const handleSendCode = async () => {
+    if (!isValid) {
+      Alert.alert('Check Your Details', 'Enter the email address or phone number on your account.');
+      return;
+    }
+
+    const method = isEmail ? 'email' : 'phone';
+
+    setIsSending(true);
+    try {
+      const response = await apiClient.startPinRecovery(isEmail ? { email: contact } : { phone: contact });
+      navigation.navigate('PinRecovery', { sessionId: response.session_id, identifier: contact, method });
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Unable to send a code. Please try again.';
+      Alert.alert('Unable to Send Code', message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <>
+      <StatusBar barStyle={theme.colors.statusBarStyle} backgroundColor={theme.colors.surface} />
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <KeyboardAvoidingView
+          style={styles.keyboardContainer}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+              <Icon name="arrow-back" size={24} color={theme.colors.textPrimary} />
+            </TouchableOpacity>
+            <Text style={styles.headerTitle}>Forgot PIN</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+
+          <View style={styles.content}>
+            <View style={styles.titleSection}>
+              <Icon name="lock-reset" size={48} color={theme.colors.accent} />
+              <Text style={styles.title}>Reset your PIN</Text>
+              <Text style={styles.subtitle}>
+                We'll send a verification code to the email or phone number on your account. For your
+                security, a new PIN takes effect after 24 hours and transfers are paused until then.
+              </Text>
+            </View>
+
+            <TextInput
+              style={styles.input}
+              value={identifier}
+              onChangeText={setIdentifier}
+              placeholder="Email or phone number"
+              placeholderTextColor={theme.colors.textTertiary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType={isEmail ? 'email-address' : 'default'}
+              autoFocus={!initialIdentifier}
+            />
+          </View>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.primaryButton, (!isValid || isSending) && styles.primaryButtonDisabled]}
+              onPress={handleSendCode}
+              disabled={!isValid || isSending}
+              activeOpacity={0.8}
+            >
+              {isSending ? (
+                <ActivityIndicator color={theme.colors.surface} />
+              ) : (
+                <Text style={styles.primaryButtonText}>Send Code</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  keyboardContainer: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.base,
+    paddingVertical: theme.spacing.md,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: theme.fontSizes.lg,
+    fontFamily: theme.fonts.bold,
+    color: theme.colors.textPrimary,
+    textAlign: 'center',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 48,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: theme.spacing.base,
+    paddingTop: theme.spacing.xl,
+  },
+  titleSection: {
+    alignItems: 'center',
+    marginBottom: theme.spacing['2xl'],
+  },
+  title: {
+    fontSize: theme.fontSizes['3xl'],
+    fontFamily: theme.fonts.bold,
+    color: theme.colors.textPrimary,
+    marginTop: theme.spacing.base,
+    marginBottom: theme.spacing.sm,
+  },
+  subtitle: {
+    fontSize: theme.fontSizes.base,
+    fontFamily: theme.fonts.regular,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  input: {
+    height: 56,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.gray300,
+    paddingHorizontal: theme.spacing.base,
+    fontSize: theme.fontSizes.base,
+    fontFamily: theme.fonts.regular,
+    color: theme.colors.textPrimary,
+  },
+  footer: {
+    paddingHorizontal: theme.spacing.base,
+    paddingBottom: theme.spacing.base,
+    paddingTop: theme.spacing.sm,
+  },
+  primaryButton: {
+    backgroundColor: theme.colors.accent,
+    height: 56,
+    borderRadius: theme.borderRadius.xl,
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...theme.shadows.sm,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: theme.colors.surface,
+    fontSize: theme.fontSizes.base,
+    fontFamily: theme.fonts.bold,
+  },
+});
+
+export default ForgotPINScreen;
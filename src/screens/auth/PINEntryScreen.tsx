@@ -242,21 +242,7 @@ const PINEntryScreen: React.FC = () => {
   };
 
   const handleForgotPin = () => {
-    Alert.alert(
-      'Reset PIN',
-      'To reset your PIN, you need to log out and log back in. This will verify your identity with OTP. Continue?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Log Out',
-          style: 'destructive',
-          onPress: async () => {
-            await clearAuth();
-            // The AppNavigator will automatically redirect to Auth screens
-          },
-        },
-      ],
-    );
+    navigation.navigate('ForgotPIN', { identifier: user?.email });
   };
 
   return (
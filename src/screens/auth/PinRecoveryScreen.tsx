@@ -0,0 +1,369 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  StatusBar,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import apiClient, { ApiError, PinRecoveryResponse } from '@/services/api';
+import PINInput from '@/components/PINInput';
+import { useTheme } from '@/contexts/ThemeContext';
+import { formatDateTime } from '@/utils/formatters';
+
+interface RouteParams {
+  sessionId: string;
+  identifier: string;
+  method: 'email' | 'phone';
+}
+
+type Step = 'otp' | 'pin' | 'done';
+
+/** Codes that close the recovery for good; the user has to start over from the beginning. */
+const TERMINAL_ERROR_CODES = ['RECOVERY_LOCKED', 'RECOVERY_EXPIRED', 'RECOVERY_CLOSED', 'RECOVERY_NOT_FOUND'];
+
+const PinRecoveryScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+  const route = useRoute();
+  const { sessionId, identifier, method } = (route.params as RouteParams) || {
+    sessionId: '',
+    identifier: '',
+    method: 'phone',
+  };
+
+  const [step, setStep] = useState<Step>('otp');
+  const [otpCode, setOtpCode] = useState('');
+  const [recovery, setRecovery] = useState<PinRecoveryResponse | null>(null);
+  const [idDigits, setIdDigits] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const identityCheck = recovery?.identity_check ?? null;
+  const canVerifyOtp = otpCode.length === 6 && !isSubmitting;
+  const canComplete =
+    newPin.length === 4 &&
+    confirmPin.length === 4 &&
+    (!identityCheck || idDigits.length === identityCheck.digits) &&
+    !isSubmitting;
+
+  const handleTerminalError = (error: ApiError) => {
+    Alert.alert('PIN Reset Unavailable', error.message, [
+      { text: 'OK', onPress: () => navigation.popToTop() },
+    ]);
+  };
+
+  const handleVerifyOtp = async () => {
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const response = await apiClient.verifyPinRecoveryOtp(sessionId, otpCode);
+      setRecovery(response);
+      setStep('pin');
+    } catch (error) {
+      if (error instanceof ApiError && TERMINAL_ERROR_CODES.concat('RECOVERY_IN_PROGRESS').includes(error.code ?? '')) {
+        handleTerminalError(error);
+      } else {
+        setErrorMessage(error instanceof ApiError ? error.message : 'Unable to verify the code. Please try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleComplete = async () => {
+    if (!recovery) {
+      return;
+    }
+    if (newPin !== confirmPin) {
+      setErrorMessage('PINs do not match. Please try again.');
+      setConfirmPin('');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+    try {
+      const response = await apiClient.completePinRecovery({
+        recoveryId: recovery.recovery_id,
+        newPin,
+        confirmPin,
+        idNumberLastDigits: identityCheck ? idDigits : undefined,
+      });
+      setRecovery(response);
+      setStep('done');
+    } catch (error) {
+      if (error instanceof ApiError && TERMINAL_ERROR_CODES.includes(error.code ?? '')) {
+        handleTerminalError(error);
+      } else if (error instanceof ApiError && error.code === 'IDENTITY_CHECK_FAILED') {
+        setIdDigits('');
+        setErrorMessage("Those digits don't match your ID. Please check and try again.");
+      } else {
+        setErrorMessage(error instanceof ApiError ? error.message : 'Unable to reset your PIN. Please try again.');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderOtpStep = () => (
+    <>
+      <View style={styles.titleSection}>
+        <Text style={styles.title}>Enter the code</Text>
+        <Text style={styles.subtitle}>
+          We sent a 6-digit code to your {method === 'email' ? 'email' : 'phone'}
+          {'\n'}
+          <Text style={styles.identifier}>{identifier}</Text>
+        </Text>
+      </View>
+      <TextInput
+        style={[styles.input, styles.codeInput]}
+        value={otpCode}
+        onChangeText={(text) => setOtpCode(text.replace(/[^0-9]/g, '').slice(0, 6))}
+        placeholder="000000"
+        placeholderTextColor={theme.colors.textTertiary}
+        keyboardType="number-pad"
+        maxLength={6}
+        autoFocus
+      />
+    </>
+  );
+
+  const renderPinStep = () => (
+    <>
+      <View style={styles.titleSection}>
+        <Text style={styles.title}>Choose a new PIN</Text>
+        <Text style={styles.subtitle}>Your new PIN takes effect 24 hours after you confirm it.</Text>
+      </View>
+
+      {identityCheck && (
+        <View style={styles.fieldSection}>
+          <Text style={styles.label}>Last {identityCheck.digits} digits of your ID number</Text>
+          <TextInput
+            style={styles.input}
+            value={idDigits}
+            onChangeText={(text) => setIdDigits(text.replace(/[^0-9a-zA-Z]/g, '').slice(0, identityCheck.digits))}
+            placeholder={'•'.repeat(identityCheck.digits)}
+            placeholderTextColor={theme.colors.textTertiary}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={identityCheck.digits}
+          />
+        </View>
+      )}
+
+      <View style={styles.fieldSection}>
+        <Text style={styles.label}>New PIN</Text>
+        <PINInput value={newPin} onChangeText={setNewPin} secureTextEntry variant="outline" />
+      </View>
+      <View style={styles.fieldSection}>
+        <Text style={styles.label}>Confirm new PIN</Text>
+        <PINInput value={confirmPin} onChangeText={setConfirmPin} secureTextEntry variant="outline" />
+      </View>
+    </>
+  );
+
+  const renderDoneStep = () => (
+    <View style={styles.titleSection}>
+      <Icon name="schedule" size={56} color={theme.colors.accent} />
+      <Text style={styles.title}>PIN reset scheduled</Text>
+      <Text style={styles.subtitle}>
+        Your new PIN takes effect on{' '}
+        <Text style={styles.identifier}>
+          {recovery?.effective_at ? formatDateTime(recovery.effective_at) : 'the next day'}
+        </Text>
+        . Until then your current PIN keeps working and outgoing transfers are paused.
+        {'\n\n'}
+        Didn't request this? Sign in and cancel the reset from Settings.
+      </Text>
+    </View>
+  );
+
+  const footerAction =
+    step === 'otp'
+      ? { label: 'Verify Code', onPress: handleVerifyOtp, enabled: canVerifyOtp }
+      : step === 'pin'
+        ? { label: 'Reset PIN', onPress: handleComplete, enabled: canComplete }
+        : { label: 'Done', onPress: () => navigation.popToTop(), enabled: true };
+
+  return (
+    <>
+      <StatusBar barStyle={theme.colors.statusBarStyle} backgroundColor={theme.colors.surface} />
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <KeyboardAvoidingView
+          style={styles.keyboardContainer}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            {step === 'done' ? (
+              <View style={styles.headerSpacer} />
+            ) : (
+              <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+                <Icon name="arrow-back" size={24} color={theme.colors.textPrimary} />
+              </TouchableOpacity>
+            )}
+            <Text style={styles.headerTitle}>Reset PIN</Text>
+            <View style={styles.headerSpacer} />
+          </View>
+
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.content}
+            keyboardShouldPersistTaps="handled"
+          >
+            {step === 'otp' && renderOtpStep()}
+            {step === 'pin' && renderPinStep()}
+            {step === 'done' && renderDoneStep()}
+            {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.primaryButton, !footerAction.enabled && styles.primaryButtonDisabled]}
+              onPress={footerAction.onPress}
+              disabled={!footerAction.enabled}
+              activeOpacity={0.8}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color={theme.colors.surface} />
+              ) : (
+                <Text style={styles.primaryButtonText}>{footerAction.label}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  keyboardContainer: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.base,
+    paddingVertical: theme.spacing.md,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: theme.fontSizes.lg,
+    fontFamily: theme.fonts.bold,
+    color: theme.colors.textPrimary,
+    textAlign: 'center',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 48,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: theme.spacing.base,
+    paddingTop: theme.spacing.xl,
+    paddingBottom: theme.spacing.xl,
+  },
+  titleSection: {
+    alignItems: 'center',
+    marginBottom: theme.spacing['2xl'],
+  },
+  title: {
+    fontSize: theme.fontSizes['3xl'],
+    fontFamily: theme.fonts.bold,
+    color: theme.colors.textPrimary,
+    marginTop: theme.spacing.base,
+    marginBottom: theme.spacing.sm,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: theme.fontSizes.base,
+    fontFamily: theme.fonts.regular,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  identifier: {
+    fontFamily: theme.fonts.semiBold,
+    color: theme.colors.textPrimary,
+  },
+  fieldSection: {
+    marginBottom: theme.spacing.xl,
+  },
+  label: {
+    fontSize: theme.fontSizes.sm,
+    fontFamily: theme.fonts.medium,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.sm,
+  },
+  input: {
+    height: 56,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.gray300,
+    paddingHorizontal: theme.spacing.base,
+    fontSize: theme.fontSizes.base,
+    fontFamily: theme.fonts.regular,
+    color: theme.colors.textPrimary,
+  },
+  codeInput: {
+    textAlign: 'center',
+    fontSize: theme.fontSizes['2xl'],
+    letterSpacing: 8,
+  },
+  errorText: {
+    fontSize: theme.fontSizes.sm,
+    fontFamily: theme.fonts.medium,
+    color: theme.colors.error,
+    textAlign: 'center',
+    marginTop: theme.spacing.base,
+  },
+  footer: {
+    paddingHorizontal: theme.spacing.base,
+    paddingBottom: theme.spacing.base,
+    paddingTop: theme.spacing.sm,
+  },
+  primaryButton: {
+    backgroundColor: theme.colors.accent,
+    height: 56,
+    borderRadius: theme.borderRadius.xl,
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...theme.shadows.sm,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: theme.colors.surface,
+    fontSize: theme.fontSizes.base,
+    fontFamily: theme.fonts.bold,
+  },
+});
+
+export default PinRecoveryScreen;
@@ -59,7 +59,7 @@ const documentTypes: DocumentType[] = [
   },
 ];
 
-type KYCDocumentStatus = 'uploaded' | 'processing' | 'approved' | 'rejected';
+type KYCDocumentStatus = 'uploaded' | 'processing' | 'approved' | 'rejected' | 'expired';
 
 interface KYCDocument {
   document_id: string;
@@ -70,7 +70,8 @@ interface KYCDocument {
   uploaded_at: string;
   processed_at: string | null;
   verification_notes: string | null;
-  secure_download_url: string;
+  // Null until the file itself has reached the server
+  secure_download_url: string | null;
   expires_in_seconds: number;
   extracted_data: {
     full_name: string | null;
@@ -79,6 +80,9 @@ interface KYCDocument {
     issue_date: string | null;
     expiry_date: string | null;
   } | null;
+  expires_at: string | null;
+  expiry_state: 'valid' | 'expiring_soon' | 'expired' | null;
+  days_until_expiry: number | null;
   next_allowed_upload_at: string | null;
   remaining_retries: number;
 }
@@ -88,6 +92,8 @@ interface ListDocumentsResponse {
   review_estimate_minutes: number;
   remaining_attempts: Record<string, number>;
   kyc_status: 'not_started' | 'pending' | 'approved' | 'rejected';
+  // An identity document has expired or is about to, and no replacement has been uploaded yet
+  reverification_required: boolean;
 }
 
 const KYCUploadScreen: React.FC = () => {
@@ -111,6 +117,7 @@ const KYCUploadScreen: React.FC = () => {
     kycStatus === 'approved' ? 'approved' : kycStatus === 'rejected' ? 'rejected' : kycStatus === 'pending' ? 'under_review' : 'draft'
   );
   const [remainingAttempts, setRemainingAttempts] = useState<Record<string, number>>({});
+  const [reverificationRequired, setReverificationRequired] = useState(false);
   
   // Fetch KYC documents on mount
   useEffect(() => {
@@ -122,10 +129,11 @@ const KYCUploadScreen: React.FC = () => {
       const response = await apiClient.get<ListDocumentsResponse>('/kyc/documents');
       setDocuments(response.documents);
       setRemainingAttempts(response.remaining_attempts);
+      setReverificationRequired(response.reverification_required);
 
       const hasSelfieDoc = response.documents.some(doc => doc.document_type === 'selfie');
       const hasIdOrPassportDoc = response.documents.some(
-        doc => doc.document_type === 'national_id' || doc.document_type === 'passport'
+        doc => (doc.document_type === 'national_id' || doc.document_type === 'passport') && doc.status !== 'expired'
       );
       const meetsMinimumDocRequirement = hasSelfieDoc && hasIdOrPassportDoc;
 
@@ -186,11 +194,16 @@ const KYCUploadScreen: React.FC = () => {
     return documents.filter(doc => doc.document_type === type);
   };
 
-  const hasSelfieUploaded = (): boolean => getDocumentsByType('selfie').length > 0;
+  // Expired documents stay listed but no longer count towards verification
+  const getCurrentDocumentsByType = (type: string): KYCDocument[] => {
+    return getDocumentsByType(type).filter(doc => doc.status !== 'expired');
+  };
+
+  const hasSelfieUploaded = (): boolean => getCurrentDocumentsByType('selfie').length > 0;
 
   const hasIdOrPassportUploaded = (): boolean => {
-    const hasNationalId = getDocumentsByType('national_id').length > 0;
-    const hasPassport = getDocumentsByType('passport').length > 0;
+    const hasNationalId = getCurrentDocumentsByType('national_id').length > 0;
+    const hasPassport = getCurrentDocumentsByType('passport').length > 0;
     return hasNationalId || hasPassport;
   };
 
@@ -218,6 +231,15 @@ const KYCUploadScreen: React.FC = () => {
     return formatAbsoluteDate(isoDate);
   };
 
+  const getExpiryText = (doc: KYCDocument): string | null => {
+    if (!doc.expires_at) return null;
+    if (doc.expiry_state === 'expired') return `Expired ${formatDate(doc.expires_at)}`;
+    if (doc.expiry_state === 'expiring_soon' && doc.days_until_expiry !== null) {
+      return `Expires in ${doc.days_until_expiry} day${doc.days_until_expiry === 1 ? '' : 's'}`;
+    }
+    return `Expires ${formatDate(doc.expires_at)}`;
+  };
+
   // Event handlers
   const handleDocumentUpload = async (documentType: string) => {
     Alert.alert(
@@ -287,8 +309,10 @@ const KYCUploadScreen: React.FC = () => {
       const asset = result.assets[0]!;
       const uri = asset.uri;
       const fileName = asset.fileName || `${documentType}_${Date.now()}.jpg`;
-      const fileSize = asset.fileSize ?? 1_000_000;
-      const mimeType = asset.type === 'image' ? 'image/jpeg' : 'application/octet-stream';
+      // Read the file up front: the server checks the bytes it receives against the declared size and type
+      const file = await (await fetch(uri)).blob();
+      const fileSize = file.size;
+      const mimeType = asset.mimeType ?? (file.type || 'image/jpeg');
 
       // Step 3: Get signed upload URL from backend
       const uploadResponse = await apiClient.post<
@@ -296,7 +320,8 @@ const KYCUploadScreen: React.FC = () => {
           upload_id: string;
           document_id: string;
           signed_upload_url: string;
-          upload_headers?: Record<string, string>;
+          upload_method: 'PUT';
+          upload_headers: Record<string, string>;
         }
       >('/kyc/documents', {
         document_type: documentType,
@@ -308,12 +333,17 @@ const KYCUploadScreen: React.FC = () => {
         },
       });
 
-      // Note: The current backend issues a logical "signed" URL for storage,
-      // but there is no storage service behind https://storage.supabase.io in this setup.
-      // For now we treat creation of the KYC document record as success and
-      // rely on future work to wire actual binary uploads.
+      // Step 4: Send the file to the signed link; the document is only reviewed once this succeeds
+      const putResponse = await fetch(uploadResponse.signed_upload_url, {
+        method: uploadResponse.upload_method,
+        headers: uploadResponse.upload_headers,
+        body: file,
+      });
+      if (!putResponse.ok) {
+        throw new Error(`File upload failed with status ${putResponse.status}`);
+      }
 
-      // Step 4: Refresh documents list to reflect the new record
+      // Step 5: Refresh documents list to reflect the new record
       await loadDocuments();
       Alert.alert('Success', 'Document uploaded successfully! It will be reviewed shortly.');
     } catch (error) {
@@ -386,6 +416,7 @@ const KYCUploadScreen: React.FC = () => {
       case 'approved':
         return '#52B788';
       case 'rejected':
+      case 'expired':
         return '#FF6B6B';
       case 'uploaded':
       case 'processing':
@@ -403,6 +434,8 @@ const KYCUploadScreen: React.FC = () => {
         return '✓ Approved';
       case 'rejected':
         return '✗ Rejected';
+      case 'expired':
+        return '⌛ Expired';
       case 'uploaded':
       case 'processing':
         return '⏳ Pending';
@@ -457,6 +490,16 @@ const KYCUploadScreen: React.FC = () => {
                     <Text style={styles.fileSize}>{formatFileSize(doc.file_size)}</Text>
                     <Text style={styles.uploadDate}>{formatDate(doc.uploaded_at)}</Text>
                   </View>
+                  {getExpiryText(doc) && (
+                    <Text
+                      style={[
+                        styles.uploadDate,
+                        doc.expiry_state !== 'valid' && { color: getStatusColor(doc.expiry_state === 'expired' ? 'expired' : 'processing') },
+                      ]}
+                    >
+                      {getExpiryText(doc)}
+                    </Text>
+                  )}
                 </View>
                 <View style={styles.documentActions}>
                   <View style={[styles.statusBadge, { backgroundColor: getStatusColor(doc.status) + '20' }]}>
@@ -550,6 +593,15 @@ const KYCUploadScreen: React.FC = () => {
         </View>
       )}
 
+      {/* Re-verification prompt */}
+      {reverificationRequired && (
+        <View style={[styles.statusBanner, { backgroundColor: getStatusColor('expired') + '20' }]}>
+          <Text style={[styles.statusBannerText, { color: getStatusColor('expired') }]}>
+            ⌛ Your ID document has expired or expires soon - upload a new one to keep your full limits
+          </Text>
+        </View>
+      )}
+
       {/* Content */}
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         {/* Information Section */}
@@ -16,11 +16,12 @@ import { useNavigation, useRoute } from '@react-navigation/native';
 import { usePaystack } from 'react-native-paystack-webview';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import PinVerificationModal from '@/components/PinVerificationModal';
+import StepUpVerificationModal from '@/components/StepUpVerificationModal';
 import { useWalletStore } from '@/store/walletStore';
 import { useAuthStore } from '@/store/authStore';
 import { formatCurrency } from '@/utils/formatters';
 import { useTheme } from '@/contexts/ThemeContext';
-import api from '../../services/api';
+import api, { ApiError, PaymentIntentPayload, StepUpChallengeResponse } from '../../services/api';
 
 interface PaymentScreenProps {}
 
@@ -60,11 +61,16 @@ const PaymentScreen: React.FC<PaymentScreenProps> = () => {
   const [description, setDescription] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [pinModalVisible, setPinModalVisible] = useState(false);
+  const [pinIntent, setPinIntent] = useState<PaymentIntentPayload | undefined>(undefined);
   const pinRequestRef = useRef<{ resolve: (token: string) => void; reject: (error: Error) => void } | null>(null);
+  const [stepUpChallenge, setStepUpChallenge] = useState<StepUpChallengeResponse | null>(null);
+  const stepUpRequestRef = useRef<((challengeId: string | null) => void) | null>(null);
 
-  const requestPinToken = () =>
+  // The token is bound to the intent, so it only authorises the payment about to be sent
+  const requestPinToken = (intent?: PaymentIntentPayload) =>
     new Promise<string>((resolve, reject) => {
       pinRequestRef.current = { resolve, reject };
+      setPinIntent(intent);
       setPinModalVisible(true);
     });
 
@@ -83,12 +89,26 @@ const PaymentScreen: React.FC<PaymentScreenProps> = () => {
     }
     setPinModalVisible(false);
   };
+
+  // Resolves with the verified challenge ID, or null when the user cancels
+  const requestStepUp = (challenge: StepUpChallengeResponse) =>
+    new Promise<string | null>((resolve) => {
+      stepUpRequestRef.current = resolve;
+      setStepUpChallenge(challenge);
+    });
+
+  const finishStepUp = (challengeId: string | null) => {
+    stepUpRequestRef.current?.(challengeId);
+    stepUpRequestRef.current = null;
+    setStepUpChallenge(null);
+  };
   
   // Fetch wallets on mount to get current balance
   useEffect(() => {
     refreshWallets();
 
     return () => {
+      stepUpRequestRef.current?.(null);
       if (pinRequestRef.current) {
         pinRequestRef.current.reject(new Error('PIN entry cancelled'));
         pinRequestRef.current = null;
@@ -217,9 +237,21 @@ const PaymentScreen: React.FC<PaymentScreenProps> = () => {
       return;
     }
 
+    // Simple validation: if numeric, treat as till_number
+    const tillNumber = merchantCode.trim();
+    if (mode === 'payment' && !/^\d{4,10}$/.test(tillNumber)) {
+      Alert.alert(
+        'Invalid Merchant Code',
+        'Please enter a valid till number (4-10 digits) or paybill number.\n\nExample: 123456'
+      );
+      return;
+    }
+
     let pinToken: string;
     try {
-      pinToken = await requestPinToken();
+      pinToken = await requestPinToken(
+        mode === 'payment' ? { type: 'merchant_payment', amount: amountInCents, till_number: tillNumber } : undefined,
+      );
     } catch {
       return;
     }
@@ -240,27 +272,29 @@ const PaymentScreen: React.FC<PaymentScreenProps> = () => {
         });
       } else {
         // Merchant payment: Deduct from wallet and pay merchant
-        const merchantInfo: any = { name: 'Merchant payment' };
-        const code = merchantCode.trim();
+        const merchantInfo = { name: `Merchant ${tillNumber}`, till_number: tillNumber };
 
-        // Simple validation: if numeric, treat as till_number
-        if (/^\d{4,10}$/.test(code)) {
-          merchantInfo.till_number = code;
-          merchantInfo.name = `Merchant ${code}`; // Auto-generate name from till
-        } else {
-          Alert.alert(
-            'Invalid Merchant Code',
-            'Please enter a valid till number (4-10 digits) or paybill number.\n\nExample: 123456'
-          );
-          return;
-        }
-
-        response = await api.post('/payments/merchant', {
+        const payMerchant = (stepUpChallengeId?: string) => api.post('/payments/merchant', {
           amount: amountInCents,
           pin_token: pinToken,
           merchant_info: merchantInfo,
           description: description || undefined,
+          step_up_challenge_id: stepUpChallengeId,
         });
+
+        try {
+          response = await payMerchant();
+        } catch (error) {
+          if (!(error instanceof ApiError) || error.code !== 'STEP_UP_REQUIRED' || !error.details) {
+            throw error;
+          }
+          // Verified step-up lets the same payment through with the same PIN token
+          const challengeId = await requestStepUp(error.details as unknown as StepUpChallengeResponse);
+          if (!challengeId) {
+            return;
+          }
+          response = await payMerchant(challengeId);
+        }
       }
 
       // Extract Paystack data from response
@@ -602,9 +636,16 @@ const PaymentScreen: React.FC<PaymentScreenProps> = () => {
               ? 'Enter your PIN to authorize this wallet top-up'
               : 'Enter your PIN to authorize this payment'
           }
+          intent={pinIntent}
           onSuccess={handlePinModalSuccess}
           onCancel={handlePinModalCancel}
         />
+        <StepUpVerificationModal
+          visible={stepUpChallenge !== null}
+          challenge={stepUpChallenge}
+          onVerified={finishStepUp}
+          onCancel={() => finishStepUp(null)}
+        />
       </SafeAreaView>
     </>
   );
@@ -18,13 +18,14 @@ import { useNavigation } from '@react-navigation/native';
 import { usePaystack } from 'react-native-paystack-webview';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import PinVerificationModal from '@/components/PinVerificationModal';
+import StepUpVerificationModal from '@/components/StepUpVerificationModal';
 import { useAuthStore } from '@/store/authStore';
 import { useWalletStore } from '@/store/walletStore';
 import { useTransactionStore } from '@/store/transactionStore';
 import { useRoundUpStore } from '@/store/roundUpStore';
 import { formatCurrency, parseCentsFromInput } from '@/utils/formatters';
 import { calculateRoundUp, getRoundUpDescription } from '@/utils/roundUpCalculator';
-import api, { ApiError } from '@/services/api';
+import api, { ApiError, PaymentIntentPayload, StepUpChallengeResponse } from '@/services/api';
 import { useTheme } from '@/contexts/ThemeContext';
 
 interface TransferScreenProps {}
@@ -41,12 +42,15 @@ const TransferScreen: React.FC<TransferScreenProps> = () => {
   const [message, setMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [pinModalVisible, setPinModalVisible] = useState(false);
+  const [pinIntent, setPinIntent] = useState<PaymentIntentPayload | undefined>(undefined);
   const [paymentMethod, setPaymentMethod] = useState<'wallet' | 'savings' | 'mpesa' | 'card'>('wallet');
   const [recipientUser, setRecipientUser] = useState<{ exists: boolean; user_id?: string; name?: string } | null>(null);
   const [isValidatingRecipient, setIsValidatingRecipient] = useState(false);
   const [fee, setFee] = useState(0);
   const [showPaymentMethodModal, setShowPaymentMethodModal] = useState(false);
   const pinRequestRef = useRef<{ resolve: (token: string) => void; reject: (error: Error) => void } | null>(null);
+  const [stepUpChallenge, setStepUpChallenge] = useState<StepUpChallengeResponse | null>(null);
+  const stepUpRequestRef = useRef<((challengeId: string | null) => void) | null>(null);
   const validationTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Zustand stores
@@ -124,9 +128,11 @@ const TransferScreen: React.FC<TransferScreenProps> = () => {
     return kenyanRegex.test(number);
   };
 
-  const requestPinToken = () =>
+  // The token is bound to the intent, so it only authorises the payment about to be sent
+  const requestPinToken = (intent?: PaymentIntentPayload) =>
     new Promise<string>((resolve, reject) => {
       pinRequestRef.current = { resolve, reject };
+      setPinIntent(intent);
       setPinModalVisible(true);
     });
 
@@ -146,7 +152,21 @@ const TransferScreen: React.FC<TransferScreenProps> = () => {
     setPinModalVisible(false);
   };
 
+  // Resolves with the verified challenge ID, or null when the user cancels
+  const requestStepUp = (challenge: StepUpChallengeResponse) =>
+    new Promise<string | null>((resolve) => {
+      stepUpRequestRef.current = resolve;
+      setStepUpChallenge(challenge);
+    });
+
+  const finishStepUp = (challengeId: string | null) => {
+    stepUpRequestRef.current?.(challengeId);
+    stepUpRequestRef.current = null;
+    setStepUpChallenge(null);
+  };
+
   useEffect(() => () => {
+    stepUpRequestRef.current?.(null);
     if (pinRequestRef.current) {
       pinRequestRef.current.reject(new Error('PIN entry cancelled'));
       pinRequestRef.current = null;
@@ -262,7 +282,7 @@ const TransferScreen: React.FC<TransferScreenProps> = () => {
 
     let pinToken: string;
     try {
-      pinToken = await requestPinToken();
+      pinToken = await requestPinToken({ type: 'transfer', amount: amountCents, recipient_user_id: recipientUser.user_id });
     } catch {
       return;
     }
@@ -272,7 +292,7 @@ const TransferScreen: React.FC<TransferScreenProps> = () => {
     try {
       const trimmedMessage = message.trim();
 
-      const response = await api.post<{
+      const postTransfer = (stepUpChallengeId?: string) => api.post<{
         status: 'completed' | 'pending';
         transfer_transaction_id: string;
         recipient_transaction_id?: string;
@@ -290,8 +310,24 @@ const TransferScreen: React.FC<TransferScreenProps> = () => {
         recipient_user_id: recipientUser.user_id,
         description: trimmedMessage || undefined,
         payment_method: paymentMethod,
+        step_up_challenge_id: stepUpChallengeId,
       });
 
+      let response: Awaited<ReturnType<typeof postTransfer>>;
+      try {
+        response = await postTransfer();
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.code !== 'STEP_UP_REQUIRED' || !error.details) {
+          throw error;
+        }
+        // Verified step-up lets the same transfer through with the same PIN token
+        const challengeId = await requestStepUp(error.details as unknown as StepUpChallengeResponse);
+        if (!challengeId) {
+          return;
+        }
+        response = await postTransfer(challengeId);
+      }
+
       if (response.status === 'pending' && response.paystack_reference) {
         // External payment - open Paystack checkout
         const paystackReference = response.paystack_reference;
@@ -761,9 +797,16 @@ const TransferScreen: React.FC<TransferScreenProps> = () => {
         visible={pinModalVisible}
         title="Authorize Transfer"
         subtitle="Enter your PIN to send money"
+        intent={pinIntent}
         onSuccess={handlePinModalSuccess}
         onCancel={handlePinModalCancel}
       />
+      <StepUpVerificationModal
+        visible={stepUpChallenge !== null}
+        challenge={stepUpChallenge}
+        onVerified={finishStepUp}
+        onCancel={() => finishStepUp(null)}
+      />
     </>
   );
 };
@@ -0,0 +1,325 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  StatusBar,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import apiClient, { DeviceSessionResponse } from '@/services/api';
+import { formatDateTime, formatRelativeDate } from '@/utils/formatters';
+import { useTheme } from '@/contexts/ThemeContext';
+
+const PLATFORM_LABELS: Record<string, { label: string; icon: string }> = {
+  ios: { label: 'iPhone', icon: 'phone-iphone' },
+  android: { label: 'Android', icon: 'phone-android' },
+  web: { label: 'Web browser', icon: 'computer' },
+};
+
+const describePlatform = (platform: string | null) =>
+  (platform && PLATFORM_LABELS[platform]) || { label: 'Unknown device', icon: 'devices-other' };
+
+const DevicesScreen = () => {
+  const { theme } = useTheme();
+  const navigation = useNavigation();
+  const [sessions, setSessions] = useState<DeviceSessionResponse[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      const response = await apiClient.listSessions();
+      setSessions(response.sessions);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      Alert.alert('Error', 'Failed to load your signed-in devices');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = (session: DeviceSessionResponse) => {
+    Alert.alert(
+      'Sign Out Device',
+      `Sign out ${describePlatform(session.client_platform).label}? It will need to sign in again with a one-time code.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingId(session.id);
+            try {
+              await apiClient.revokeSession(session.id);
+              setSessions((current) => current.filter((candidate) => candidate.id !== session.id));
+            } catch (error) {
+              const errorMessage = error instanceof Error ? error.message : 'Failed to sign out device';
+              Alert.alert('Error', errorMessage);
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert('Sign Out Other Devices', 'Every device except this one will be signed out.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out All',
+        style: 'destructive',
+        onPress: async () => {
+          setRevokingId('others');
+          try {
+            await apiClient.revokeOtherSessions();
+            setSessions((current) => current.filter((session) => session.current));
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Failed to sign out other devices';
+            Alert.alert('Error', errorMessage);
+          } finally {
+            setRevokingId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const styles = createStyles(theme);
+
+  const renderSession = (session: DeviceSessionResponse) => {
+    const platform = describePlatform(session.client_platform);
+
+    return (
+      <View key={session.id} style={styles.sessionCard}>
+        <View style={styles.sessionIcon}>
+          <Icon name={platform.icon} size={24} color={theme.colors.accent} />
+        </View>
+        <View style={styles.sessionInfo}>
+          <View style={styles.sessionTitleRow}>
+            <Text style={styles.sessionTitle}>{platform.label}</Text>
+            {session.current && (
+              <View style={styles.currentTag}>
+                <Text style={styles.currentTagText}>This device</Text>
+              </View>
+            )}
+          </View>
+          {session.client_version && (
+            <Text style={styles.sessionDetail}>App version {session.client_version}</Text>
+          )}
+          {session.ip_address && <Text style={styles.sessionDetail}>Network {session.ip_address}</Text>}
+          <Text style={styles.sessionDetail}>
+            Active {formatRelativeDate(session.last_seen_at).toLowerCase()} · Signed in {formatDateTime(session.first_seen_at)}
+          </Text>
+        </View>
+        {!session.current && (
+          <TouchableOpacity
+            style={styles.revokeButton}
+            onPress={() => handleRevoke(session)}
+            disabled={revokingId !== null}
+          >
+            {revokingId === session.id ? (
+              <ActivityIndicator size="small" color={theme.colors.error} />
+            ) : (
+              <Icon name="logout" size={22} color={theme.colors.error} />
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.colors.accent} />
+          <Text style={styles.loadingText}>Loading devices...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <>
+      <StatusBar barStyle={theme.colors.statusBarStyle} backgroundColor={theme.colors.surface} />
+      <SafeAreaView style={styles.container} edges={['top']}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+            <Icon name="arrow-back" size={24} color={theme.colors.textPrimary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Signed-in Devices</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Where you're signed in</Text>
+            <Text style={styles.sectionSubtitle}>
+              If you don't recognise a device, sign it out and change your PIN.
+            </Text>
+            {sessions.map(renderSession)}
+          </View>
+
+          {hasOtherSessions && (
+            <View style={styles.section}>
+              <TouchableOpacity
+                style={styles.revokeOthersButton}
+                onPress={handleRevokeOthers}
+                disabled={revokingId !== null}
+              >
+                {revokingId === 'others' ? (
+                  <ActivityIndicator size="small" color={theme.colors.surface} />
+                ) : (
+                  <Text style={styles.revokeOthersText}>Sign Out Other Devices</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: theme.spacing.md,
+    fontSize: theme.fontSizes.base,
+    fontFamily: theme.fonts.regular,
+    color: theme.colors.textSecondary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.base,
+    paddingVertical: theme.spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray200,
+  },
+  backButton: {
+    width: 48,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: theme.fontSizes.lg,
+    fontFamily: theme.fonts.bold,
+    color: theme.colors.textPrimary,
+    textAlign: 'center',
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 48,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    padding: theme.spacing.base,
+  },
+  sectionTitle: {
+    fontSize: theme.fontSizes.base,
+    fontFamily: theme.fonts.semiBold,
+    color: theme.colors.textPrimary,
+    marginBottom: theme.spacing.xs,
+  },
+  sectionSubtitle: {
+    fontSize: theme.fontSizes.sm,
+    fontFamily: theme.fonts.regular,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.md,
+  },
+  sessionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.gray50,
+    marginBottom: theme.spacing.sm,
+  },
+  sessionIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: theme.colors.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: theme.spacing.md,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  sessionTitle: {
+    fontSize: theme.fontSizes.base,
+    fontFamily: theme.fonts.semiBold,
+    color: theme.colors.textPrimary,
+  },
+  currentTag: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: theme.colors.accent,
+    marginLeft: theme.spacing.sm,
+  },
+  currentTagText: {
+    fontSize: theme.fontSizes.xs,
+    fontFamily: theme.fonts.bold,
+    color: theme.colors.surface,
+  },
+  sessionDetail: {
+    fontSize: theme.fontSizes.sm,
+    fontFamily: theme.fonts.regular,
+    color: theme.colors.textSecondary,
+  },
+  revokeButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  revokeOthersButton: {
+    height: 48,
+    backgroundColor: theme.colors.error,
+    borderRadius: theme.borderRadius.DEFAULT,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  revokeOthersText: {
+    fontSize: theme.fontSizes.base,
+    fontFamily: theme.fonts.semiBold,
+    color: theme.colors.surface,
+  },
+});
+
+export default DevicesScreen;
@@ -6,6 +6,7 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
+  Share,
   Switch,
   StatusBar,
 } from 'react-native';
@@ -19,9 +20,11 @@ import { useTransactionStore } from '@/store/transactionStore';
 import { useSavingsStore } from '@/store/savingsStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { biometricAuthService } from '@/services/biometricAuth';
+import apiClient, { ApiError } from '@/services/api';
 import PinVerificationModal from '@/components/PinVerificationModal';
 import { useTheme } from '@/contexts/ThemeContext';
 import { ThemeMode } from '@/theme';
+import { formatDateTime } from '@/utils/formatters';
 
 const SettingsScreen: React.FC = () => {
   // Theme
@@ -55,7 +58,9 @@ const SettingsScreen: React.FC = () => {
   // Biometric state
   const [biometricCapable, setBiometricCapable] = useState(false);
   const [biometricType, setBiometricType] = useState<string>('');
+  const [transfersFrozenUntil, setTransfersFrozenUntil] = useState<string | null>(null);
   const [pinModalVisible, setPinModalVisible] = useState(false);
+  const [pinPrompt, setPinPrompt] = useState('Verify your PIN to enable biometric authentication');
   const pinRequestRef = useRef<{
     resolve: (token: string) => void;
     reject: () => void;
@@ -153,6 +158,47 @@ const SettingsScreen: React.FC = () => {
     checkCapability();
   }, [checkBiometricCapability]);
 
+  // A pending PIN reset freezes outgoing transfers; surface it so the user can cancel an unexpected one
+  useEffect(() => {
+    apiClient
+      .getLimits()
+      .then((limits) => setTransfersFrozenUntil(limits.transfers_frozen_until))
+      .catch(() => setTransfersFrozenUntil(null));
+  }, []);
+
+  const handleCancelPinReset = () => {
+    Alert.alert(
+      'Cancel PIN Reset',
+      'Your current PIN will stay in place and transfers will be resumed. Cancel the pending reset?',
+      [
+        { text: 'Keep Reset', style: 'cancel' },
+        {
+          text: 'Cancel Reset',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await apiClient.cancelPinRecovery();
+              setTransfersFrozenUntil(null);
+            } catch (error) {
+              const message = error instanceof ApiError ? error.message : 'Failed to cancel the PIN reset';
+              Alert.alert('Error', message);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const signOutAndClear = async () => {
+    await logout();
+    useWalletStore.getState().reset();
+    useTransactionStore.getState().resetTransactions();
+    useSavingsStore.getState().resetGoals();
+    if (user?.id) {
+      useSettingsStore.getState().clearUserSettings(user.id);
+    }
+  };
+
   const handleLogout = () => {
     Alert.alert(
       'Sign Out',
@@ -164,13 +210,7 @@ const SettingsScreen: React.FC = () => {
           style: 'destructive',
           onPress: async () => {
             try {
-              await logout();
-              useWalletStore.getState().reset();
-              useTransactionStore.getState().resetTransactions();
-              useSavingsStore.getState().resetGoals();
-              if (user?.id) {
-                useSettingsStore.getState().clearUserSettings(user.id);
-              }
+              await signOutAndClear();
             } catch (error) {
               Alert.alert('Error', 'Failed to sign out');
             }
@@ -196,6 +236,44 @@ const SettingsScreen: React.FC = () => {
       setPinModalVisible(true);
     });
 
+  const handleExportData = async () => {
+    try {
+      const archive = await apiClient.exportAccountData();
+      await Share.share({ title: 'My Zanari data', message: JSON.stringify(archive, null, 2) });
+    } catch (error) {
+      const message = error instanceof ApiError ? error.message : 'Failed to export your data';
+      Alert.alert('Error', message);
+    }
+  };
+
+  // Any remaining balance is paid out to the user's M-Pesa number as part of closing
+  const closeAccount = async () => {
+    try {
+      setPinPrompt('Verify your PIN to close your account');
+      const pinToken = await requestPinToken();
+      await apiClient.closeAccount({ pinToken, mpesaPhone: user?.phone ?? undefined });
+      setCapturedPin(null);
+      await signOutAndClear();
+      Alert.alert('Account Closed', 'Your Zanari account is closed. Any remaining balance is on its way to M-Pesa.');
+    } catch (error) {
+      setCapturedPin(null);
+      if (error instanceof ApiError) {
+        Alert.alert('Unable to Close Account', error.message);
+      }
+    }
+  };
+
+  const handleCloseAccount = () => {
+    Alert.alert(
+      'Close Account',
+      'Closing your account signs you out on every device and cannot be undone. Download your data first if you need it.',
+      [
+        { text: 'Keep Account', style: 'cancel' },
+        { text: 'Close Account', style: 'destructive', onPress: closeAccount },
+      ],
+    );
+  };
+
   // Handle biometric toggle
   const handleBiometricToggle = async (newValue: boolean) => {
     if (!user?.id) {
@@ -217,6 +295,7 @@ const SettingsScreen: React.FC = () => {
       try {
         // Step 1: Verify PIN and capture it
         setCapturedPin(null); // Reset
+        setPinPrompt('Verify your PIN to enable biometric authentication');
         await requestPinToken();
 
         // Wait for PIN to be captured
@@ -408,6 +487,28 @@ const SettingsScreen: React.FC = () => {
               undefined,
               () => navigation.navigate('ChangePIN')
             )}
+            {transfersFrozenUntil && (
+              <>
+                <View style={styles.divider} />
+                {renderSettingRow(
+                  'lock-reset',
+                  'Cancel PIN Reset',
+                  `Transfers paused until ${formatDateTime(transfersFrozenUntil)}`,
+                  'arrow',
+                  undefined,
+                  handleCancelPinReset
+                )}
+              </>
+            )}
+            <View style={styles.divider} />
+            {renderSettingRow(
+              'devices',
+              'Signed-in Devices',
+              'See where you are signed in',
+              'arrow',
+              undefined,
+              () => navigation.navigate('Devices')
+            )}
             <View style={styles.divider} />
             {renderSettingRow(
               'verified-user',
@@ -482,6 +583,24 @@ const SettingsScreen: React.FC = () => {
               undefined,
               () => Alert.alert('Connected Devices', 'Feature coming soon')
             )}
+            <View style={styles.divider} />
+            {renderSettingRow(
+              'file-download',
+              'Download My Data',
+              'Profile, wallets, transactions and more',
+              'arrow',
+              undefined,
+              handleExportData
+            )}
+            <View style={styles.divider} />
+            {renderSettingRow(
+              'no-accounts',
+              'Close Account',
+              'Pay out your balance and close Zanari',
+              'arrow',
+              undefined,
+              handleCloseAccount
+            )}
           </View>
 
           {/* Notifications Section */}
@@ -570,7 +689,7 @@ const SettingsScreen: React.FC = () => {
           </View>
         </ScrollView>
 
-        {/* PIN Verification Modal for enabling biometric */}
+        {/* PIN Verification Modal for enabling biometric and closing the account */}
         <PinVerificationModal
           visible={pinModalVisible}
           onSuccess={(token) => {
@@ -592,7 +711,7 @@ const SettingsScreen: React.FC = () => {
             // Capture PIN for biometric storage
             setCapturedPin(pin);
           }}
-          message="Verify your PIN to enable biometric authentication"
+          message={pinPrompt}
         />
       </SafeAreaView>
     </>
@@ -45,6 +45,8 @@ export interface ApiClientConfig {
 }
 
 type UnauthorizedHandler = () => void;
+/** Renews the session and returns the new access token, or null when it cannot be renewed. */
+type SessionRefreshHandler = () => Promise<string | null>;
 
 const DEFAULT_TIMEOUT_MS = 15_000;
 
@@ -68,6 +70,8 @@ const resolveApiBaseUrl = (): string => {
 
 const API_BASE_URL = resolveApiBaseUrl();
 
+const isPinVerificationPath = (path: string): boolean => (path.startsWith('/') ? path : `/${path}`) === '/auth/verify-pin';
+
 const buildQueryString = (params?: RequestOptions['searchParams']): string => {
   if (!params) return '';
 
@@ -103,6 +107,8 @@ class ApiClient {
   private defaultTimeout: number;
   private accessToken: string | null = null;
   private unauthorizedHandler: UnauthorizedHandler | null = null;
+  private sessionRefreshHandler: SessionRefreshHandler | null = null;
+  private refreshInFlight: Promise<string | null> | null = null;
 
   constructor(config?: ApiClientConfig) {
     this.baseUrl = (config?.baseUrl ?? API_BASE_URL).replace(/\/$/, '');
@@ -121,7 +127,54 @@ class ApiClient {
     this.unauthorizedHandler = null;
   }
 
+  public setSessionRefreshHandler(handler: SessionRefreshHandler) {
+    this.sessionRefreshHandler = handler;
+  }
+
+  /**
+   * Concurrent 401s share one refresh: refresh tokens rotate on use, so sending the same one twice
+   * would look like a stolen token and sign the user out.
+   */
+  private refreshAccessToken(): Promise<string | null> {
+    if (!this.sessionRefreshHandler) {
+      return Promise.resolve(null);
+    }
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.sessionRefreshHandler().finally(() => {
+        this.refreshInFlight = null;
+      });
+    }
+    return this.refreshInFlight;
+  }
+
   public async request<TResponse, TBody = unknown>(method: HttpMethod, path: string, options?: RequestOptions<TBody>): Promise<TResponse> {
+    try {
+      return await this.send<TResponse, TBody>(method, path, options);
+    } catch (error) {
+      // Don't trigger unauthorized handler for PIN verification endpoints
+      // Users are already authenticated, they're just verifying their PIN
+      if (!(error instanceof ApiError) || error.status !== 401 || isPinVerificationPath(path)) {
+        throw error;
+      }
+
+      // Access tokens are short-lived: renew once with the refresh token before ending the session
+      if (!options?.skipAuth && (await this.refreshAccessToken())) {
+        try {
+          return await this.send<TResponse, TBody>(method, path, options);
+        } catch (retryError) {
+          if (retryError instanceof ApiError && retryError.status === 401) {
+            this.unauthorizedHandler?.();
+          }
+          throw retryError;
+        }
+      }
+
+      this.unauthorizedHandler?.();
+      throw error;
+    }
+  }
+
+  private async send<TResponse, TBody = unknown>(method: HttpMethod, path: string, options?: RequestOptions<TBody>): Promise<TResponse> {
     const normalizedPath = path.startsWith('/') ? path : `/${path}`;
     const requestOptions: RequestOptions<TBody> = {
       ...(options ?? {}),
@@ -209,18 +262,12 @@ class ApiClient {
       responseContext.payload = payload as TResponse;
 
       if (!response.ok) {
-        // Don't trigger unauthorized handler for PIN verification endpoints
-        // Users are already authenticated, they're just verifying their PIN
-        const isPinVerification = normalizedPath === '/auth/verify-pin';
-
-        if (response.status === 401 && this.unauthorizedHandler && !isPinVerification) {
-          this.unauthorizedHandler();
-        }
-
         let apiError: ApiError;
         if (payload && typeof payload === 'object') {
-          const { error, message, code, details } = payload as ApiErrorPayload;
-          apiError = new ApiError(response.status, message || error || 'Unexpected API error', code, details ?? null);
+          const { error, message, code, details, ...rest } = payload as ApiErrorPayload & Record<string, unknown>;
+          // The API spreads error details next to the code, so fall back to those fields
+          const errorDetails = details ?? (Object.keys(rest).length > 0 ? rest : null);
+          apiError = new ApiError(response.status, message || error || 'Unexpected API error', code, errorDetails);
         } else {
           apiError = new ApiError(response.status, typeof payload === 'string' && payload ? payload : 'Unexpected API error');
         }
@@ -388,6 +435,84 @@ class ApiClient {
     });
   }
 
+  // Transaction Limits Method
+  async getLimits(): Promise<TransactionLimitsResponse> {
+    return this.get('/limits');
+  }
+
+  // Device Session Methods
+  async listSessions(): Promise<{ sessions: DeviceSessionResponse[] }> {
+    return this.get('/sessions');
+  }
+
+  async revokeSession(sessionId: string): Promise<{ session_id: string; revoked: boolean }> {
+    return this.delete(`/sessions/${sessionId}`);
+  }
+
+  async revokeOtherSessions(): Promise<{ revoked_count: number }> {
+    return this.post('/sessions/revoke-others');
+  }
+
+  // Account Methods
+  async exportAccountData(): Promise<AccountDataExportResponse> {
+    return this.post('/account/export');
+  }
+
+  async closeAccount(payload: { pinToken: string; mpesaPhone?: string; reason?: string }): Promise<AccountClosureResponse> {
+    return this.post('/account/close', {
+      pin_token: payload.pinToken,
+      mpesa_phone: payload.mpesaPhone,
+      reason: payload.reason,
+    });
+  }
+
+  // Forgot-PIN Recovery Methods (the user cannot unlock the app, so these skip auth)
+  async startPinRecovery(contact: { email?: string; phone?: string }): Promise<{
+    message: string;
+    session_id: string;
+    delivery_channel: 'email' | 'sms';
+  }> {
+    return this.post('/auth/pin-recovery/start', contact, { skipAuth: true });
+  }
+
+  async verifyPinRecoveryOtp(sessionId: string, otpCode: string): Promise<PinRecoveryResponse> {
+    return this.post('/auth/pin-recovery/verify-otp', { session_id: sessionId, otp_code: otpCode }, { skipAuth: true });
+  }
+
+  async completePinRecovery(payload: {
+    recoveryId: string;
+    newPin: string;
+    confirmPin: string;
+    idNumberLastDigits?: string;
+  }): Promise<PinRecoveryResponse> {
+    return this.post(
+      '/auth/pin-recovery/complete',
+      {
+        recovery_id: payload.recoveryId,
+        new_pin: payload.newPin,
+        confirm_pin: payload.confirmPin,
+        id_number_last_digits: payload.idNumberLastDigits,
+      },
+      { skipAuth: true },
+    );
+  }
+
+  async cancelPinRecovery(): Promise<PinRecoveryResponse> {
+    return this.post('/auth/pin-recovery/cancel');
+  }
+
+  // Step-Up Verification Methods
+  async sendStepUpOtp(challengeId: string): Promise<{ message: string; delivery_channel: 'email' | 'sms' }> {
+    return this.post(`/auth/step-up/${challengeId}/otp`);
+  }
+
+  async verifyStepUp(
+    challengeId: string,
+    payload: { method: StepUpMethod; otpCode?: string },
+  ): Promise<StepUpChallengeResponse> {
+    return this.post(`/auth/step-up/${challengeId}/verify`, { method: payload.method, otp_code: payload.otpCode });
+  }
+
   // Round-Up Rules Methods
   async getRoundUpRule(): Promise<{
     rule: {
@@ -494,6 +619,86 @@ export interface SavingsInvestmentSummaryResponse {
   };
 }
 
+export interface LimitUsageResponse {
+  limit: number;
+  used: number;
+  remaining: number;
+}
+
+export interface TransactionLimitsResponse {
+  tier: 'basic' | 'verified';
+  kyc_status: string;
+  balance: LimitUsageResponse;
+  limits: Array<{
+    transaction_type: 'payment' | 'bill_payment' | 'transfer_out' | 'withdrawal' | 'deposit';
+    per_transaction: number;
+    daily: LimitUsageResponse;
+    monthly: LimitUsageResponse;
+    available_now: number;
+  }>;
+  /** Set while outgoing transfers are frozen, e.g. during a PIN reset. */
+  transfers_frozen_until: string | null;
+}
+
+export interface AccountDataExportResponse {
+  format_version: number;
+  generated_at: string;
+  profile: Record<string, unknown>;
+  wallets: Record<string, unknown>[];
+  transactions: Record<string, unknown>[];
+  savings_goals: Record<string, unknown>[];
+  round_up_rule: Record<string, unknown> | null;
+  investment: { position: Record<string, unknown> | null; preference: Record<string, unknown> | null };
+  kyc_documents: Record<string, unknown>[];
+}
+
+export interface AccountClosureResponse {
+  closure_id: string;
+  status: 'closed';
+  closed_at: string;
+  payout_transaction_ids: string[];
+  anonymise_after: string;
+}
+
+export interface DeviceSessionResponse {
+  id: string;
+  client_platform: string | null;
+  client_version: string | null;
+  /** Network the device was last seen from, e.g. "197.232.61.0/24". */
+  ip_address: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  current: boolean;
+}
+
+export interface PinRecoveryResponse {
+  recovery_id: string;
+  status: 'verified' | 'cooling_off' | 'completed' | 'cancelled' | 'failed';
+  identity_check_required: boolean;
+  /** Only returned when the OTP is verified. */
+  identity_check?: { type: 'id_number_last_digits'; digits: number } | null;
+  expires_at: string;
+  /** When the new PIN takes effect; outgoing transfers are frozen until then. */
+  effective_at: string | null;
+}
+
+export type StepUpMethod = 'otp' | 'biometric';
+
+/** Returned in the details of a STEP_UP_REQUIRED error and by the verify endpoint. */
+export interface StepUpChallengeResponse {
+  challenge_id: string;
+  reasons: Array<'amount_threshold' | 'new_recipient'>;
+  methods: StepUpMethod[];
+  expires_at: string;
+  status?: 'pending' | 'verified' | 'consumed';
+  verified_method?: StepUpMethod | null;
+}
+
+/** The payment a PIN token is requested for; the token then only authorises that payment. */
+export type PaymentIntentPayload =
+  | { type: 'transfer'; amount: number; recipient_user_id: string }
+  | { type: 'merchant_payment'; amount: number; till_number?: string; paybill_number?: string; account_number?: string };
+
 export interface SavingsInvestmentPreferencePayload {
   autoInvestEnabled?: boolean;
   targetAllocationPct?: number;
@@ -507,4 +712,8 @@ export const setUnauthorizedHandler = (handler: UnauthorizedHandler) => {
   apiClient.setUnauthorizedHandler(handler);
 };
 
+export const setSessionRefreshHandler = (handler: SessionRefreshHandler) => {
+  apiClient.setSessionRefreshHandler(handler);
+};
+
 export default apiClient;
@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { createJSONStorage, persist } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import apiClient, { ApiError, setUnauthorizedHandler } from '@/services/api';
+import apiClient, { ApiError, PaymentIntentPayload, setSessionRefreshHandler, setUnauthorizedHandler } from '@/services/api';
 import {
   computeLockExpiration,
   evaluatePinSecurity,
@@ -56,6 +56,12 @@ interface VerifyOtpResponse {
   user: AuthUser;
 }
 
+interface RefreshSessionResponse {
+  access_token: string;
+  refresh_token: string;
+  user: AuthUser;
+}
+
 interface VerifyPinResponse {
   verified: boolean;
   token: string;
@@ -109,8 +115,9 @@ interface AuthState {
   register: (payload: { firstName: string; lastName: string; email: string; phone: string }) => Promise<void>;
   verifyOtp: (payload: { sessionId: string; otpCode: string }) => Promise<{ requiresPinSetup: boolean }>;
   setupPin: (payload: { pin: string; confirmPin: string }) => Promise<void>;
-  verifyPin: (payload: { pin: string }) => Promise<string>;
+  verifyPin: (payload: { pin: string; intent?: PaymentIntentPayload }) => Promise<string>;
   updateProfile: (payload: { firstName: string; lastName: string; email: string; phone: string }) => Promise<void>;
+  refreshSession: () => Promise<string | null>;
   logout: () => Promise<void>;
   getIsSessionExpired: () => boolean;
   getIsPinLocked: () => boolean;
@@ -355,7 +362,7 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
-      verifyPin: async ({ pin }) => {
+      verifyPin: async ({ pin, intent }) => {
         if (!/^[0-9]{4}$/.test(pin)) {
           throw new Error('PIN must be exactly 4 digits');
         }
@@ -399,7 +406,7 @@ export const useAuthStore = create<AuthState>()(
 
         set({ isVerifyingPin: true, isLoading: true });
         try {
-          const response = await apiClient.post<VerifyPinResponse>('/auth/verify-pin', { pin });
+          const response = await apiClient.post<VerifyPinResponse>('/auth/verify-pin', intent ? { pin, intent } : { pin });
 
           set({
             pinVerificationToken: response.token,
@@ -470,7 +477,35 @@ export const useAuthStore = create<AuthState>()(
         }
       },
 
+      refreshSession: async () => {
+        const { refreshToken, setTokens, setUser } = get();
+        if (!refreshToken) {
+          return null;
+        }
+
+        try {
+          const response = await apiClient.post<RefreshSessionResponse>(
+            '/auth/refresh',
+            { refresh_token: refreshToken },
+            { skipAuth: true },
+          );
+          setTokens(response.access_token, response.refresh_token);
+          setUser(response.user);
+          return response.access_token;
+        } catch (error) {
+          return null;
+        }
+      },
+
       logout: async () => {
+        if (get().accessToken) {
+          try {
+            // Revokes this device's session so its refresh token cannot be used again
+            await apiClient.post('/auth/logout');
+          } catch (error) {
+            // The device is signed out locally either way
+          }
+        }
         await get().clearAuth();
       },
 
@@ -550,6 +585,8 @@ setUnauthorizedHandler(() => {
   void clearAuth();
 });
 
+setSessionRefreshHandler(() => useAuthStore.getState().refreshSession());
+
 export const useAuthStatus = () => {
   const { isAuthenticated, isPinSet, isPinVerified, user } = useAuthStore();
   const isKycCompliant = user?.kyc_status === 'approved' || user?.kyc_status === 'pending';
@@ -13,7 +13,8 @@ export type TransactionType =
   | 'deposit'
   | 'investment_allocation'
   | 'investment_redemption'
-  | 'interest_payout';
+  | 'interest_payout'
+  | 'refund';
 
 export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
 
@@ -50,6 +51,8 @@ export interface Transaction {
     related_transaction_id: string;
   } | null;
   parent_transaction_id?: string | null;
+  refunded_amount?: number;
+  dispute_status?: 'open' | 'under_review' | 'accepted' | 'declined' | null;
   savings_goal_id?: string | null;
   paystack_reference?: string | null;
   paystack_transaction_id?: string | null;
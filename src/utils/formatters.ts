@@ -100,7 +100,7 @@ export const formatDateTime = (isoDate: string): string => {
  * @returns UI transaction type ('credit' or 'debit')
  */
 export const mapTransactionType = (backendType: string): 'credit' | 'debit' => {
-  const creditTypes = ['deposit', 'transfer_in'];
+  const creditTypes = ['deposit', 'transfer_in', 'refund'];
   const debitTypes = ['payment', 'transfer_out', 'withdrawal', 'bill_payment'];
 
   if (creditTypes.includes(backendType)) return 'credit';
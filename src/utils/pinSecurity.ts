@@ -8,6 +8,7 @@ const PROGRESSIVE_DELAYS_SECONDS = [0, 30, 120, 300, 900];
 const FALLBACK_DELAY_SECONDS = 900;
 export const MAX_PIN_ATTEMPTS = PROGRESSIVE_DELAYS_SECONDS.length - 1;
 
+// The API enforces the same rules in api/src/services/PinPolicy.ts; keep the two in step.
 const COMMON_PIN_PATTERNS = new Set([
   '0000',
   '1111',
@@ -0,0 +1,27 @@
+-- Durable store of payment-provider webhook deliveries for idempotency and replay
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL DEFAULT 'paystack',
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  reference TEXT,
+  payload JSONB NOT NULL,
+  signature_valid BOOLEAN NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processed', 'failed', 'ignored', 'rejected')),
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  last_error TEXT,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Only verified deliveries take part in de-duplication; forged payloads must not
+-- be able to claim an event id ahead of the genuine event.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_event_id
+  ON webhook_events(provider, event_id)
+  WHERE signature_valid;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_reference ON webhook_events(reference);
@@ -0,0 +1,14 @@
+-- Track retry job attempts and worker leases so the retry worker can drain retry_jobs safely
+
+ALTER TABLE retry_jobs
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'dead')),
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_retry_jobs_status_run_at ON retry_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_retry_jobs_locked_until ON retry_jobs(locked_until) WHERE status = 'running';
@@ -0,0 +1,17 @@
+-- Daily reports of pending transactions that disagreed with Paystack during reconciliation sweeps
+
+CREATE TABLE IF NOT EXISTS reconciliation_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_date DATE NOT NULL UNIQUE,
+  sweeps INTEGER NOT NULL DEFAULT 0 CHECK (sweeps >= 0),
+  checked INTEGER NOT NULL DEFAULT 0 CHECK (checked >= 0),
+  resolved INTEGER NOT NULL DEFAULT 0 CHECK (resolved >= 0),
+  mismatches JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The sweeper looks up pending transactions by age
+CREATE INDEX IF NOT EXISTS idx_transactions_pending_created_at
+  ON transactions(created_at)
+  WHERE status = 'pending';
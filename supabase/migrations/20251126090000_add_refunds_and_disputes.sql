@@ -0,0 +1,17 @@
+-- Refunds of merchant payments and dispute tracking on the original payment
+
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'refund';
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS related_transaction_id UUID REFERENCES transactions(id),
+  ADD COLUMN IF NOT EXISTS refunded_amount BIGINT NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0),
+  ADD COLUMN IF NOT EXISTS dispute_status TEXT
+    CHECK (dispute_status IN ('open', 'under_review', 'accepted', 'declined'));
+
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_refunded_amount_within_amount CHECK (refunded_amount <= amount);
+
+-- Refunds are listed alongside the payment they reverse
+CREATE INDEX IF NOT EXISTS idx_transactions_related_transaction_id
+  ON transactions(related_transaction_id)
+  WHERE related_transaction_id IS NOT NULL;
@@ -0,0 +1,58 @@
+-- Append-only double-entry ledger beneath wallet balances. Each entry's lines balance: total
+-- debits equal total credits. Wallet accounts are "wallet:<wallet id>"; the other side of a
+-- movement is a wallet or a "system:<name>" account (Paystack clearing, fees, interest expense, ...)
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY,
+  transaction_id UUID,
+  description TEXT NOT NULL CHECK (char_length(trim(description)) > 0),
+  posted_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ledger_lines (
+  entry_id UUID NOT NULL REFERENCES ledger_entries(id),
+  line_number INTEGER NOT NULL CHECK (line_number >= 1),
+  account_id TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount BIGINT NOT NULL CHECK (amount > 0),
+  -- Copied from the entry so balances as of a point in time need no join
+  posted_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (entry_id, line_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction_id ON ledger_entries(transaction_id) WHERE transaction_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_account_posted_at ON ledger_lines(account_id, posted_at);
+
+-- The ledger is append-only: corrections are new entries, never edits
+CREATE OR REPLACE FUNCTION reject_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Ledger tables are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON ledger_entries;
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW EXECUTE FUNCTION reject_ledger_changes();
+
+DROP TRIGGER IF EXISTS ledger_lines_append_only ON ledger_lines;
+CREATE TRIGGER ledger_lines_append_only
+  BEFORE UPDATE OR DELETE ON ledger_lines
+  FOR EACH ROW EXECUTE FUNCTION reject_ledger_changes();
+
+-- Balances held before the ledger existed enter it as opening balances
+WITH opening AS (
+  SELECT gen_random_uuid() AS entry_id, id AS wallet_id, balance
+  FROM wallets
+  WHERE balance > 0
+), entries AS (
+  INSERT INTO ledger_entries (id, description, posted_at)
+  SELECT entry_id, 'Opening balance', NOW() FROM opening
+  RETURNING id
+)
+INSERT INTO ledger_lines (entry_id, line_number, account_id, direction, amount, posted_at)
+SELECT opening.entry_id, 1, 'system:opening_balances', 'debit', opening.balance, NOW() FROM opening
+UNION ALL
+SELECT opening.entry_id, 2, 'wallet:' || opening.wallet_id, 'credit', opening.balance, NOW() FROM opening;
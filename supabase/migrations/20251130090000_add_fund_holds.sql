@@ -0,0 +1,127 @@
+-- Funds reserved against a wallet's available balance while a payment, transfer or withdrawal is
+-- pending. A hold is captured when the transaction settles (the balance drops), or released when
+-- it fails, is reversed or expires (the available balance is restored).
+
+CREATE TABLE IF NOT EXISTS fund_holds (
+  id UUID PRIMARY KEY,
+  wallet_id UUID NOT NULL REFERENCES wallets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  transaction_id UUID NOT NULL,
+  amount BIGINT NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'captured', 'released', 'expired')),
+  description TEXT NOT NULL CHECK (char_length(trim(description)) > 0),
+  expires_at TIMESTAMPTZ NOT NULL,
+  settled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((status = 'held') = (settled_at IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_fund_holds_transaction_id ON fund_holds(transaction_id, created_at DESC);
+-- A transaction holds funds at most once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fund_holds_active_transaction ON fund_holds(transaction_id) WHERE status = 'held';
+CREATE INDEX IF NOT EXISTS idx_fund_holds_expires_at ON fund_holds(expires_at) WHERE status = 'held';
+
+-- commit_unit_of_work gains the holds placed or settled by the unit
+DROP FUNCTION IF EXISTS commit_unit_of_work(JSONB, JSONB, JSONB, JSONB);
+
+-- p_wallets:        [{ "expected_version": n, "row": <wallets row with the new version> }]
+-- p_transactions:   [{ "is_new": bool, "row": <transactions row> }]
+-- p_ledger_entries: [<ledger_entries row>]
+-- p_ledger_lines:   [<ledger_lines row>]
+-- p_fund_holds:     [{ "is_new": bool, "row": <fund_holds row> }]
+--
+-- Raises WALLET_VERSION_CONFLICT (SQLSTATE 40001) when any wallet moved past the version the unit
+-- read; nothing is written in that case and the caller re-runs the unit.
+CREATE OR REPLACE FUNCTION commit_unit_of_work(
+  p_wallets JSONB,
+  p_transactions JSONB,
+  p_ledger_entries JSONB,
+  p_ledger_lines JSONB,
+  p_fund_holds JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  wallet_change JSONB;
+  wallet_row wallets%ROWTYPE;
+BEGIN
+  FOR wallet_change IN SELECT * FROM jsonb_array_elements(COALESCE(p_wallets, '[]'::jsonb))
+  LOOP
+    wallet_row := jsonb_populate_record(NULL::wallets, wallet_change->'row');
+
+    UPDATE wallets
+    SET balance = wallet_row.balance,
+        available_balance = wallet_row.available_balance,
+        last_transaction_at = wallet_row.last_transaction_at,
+        withdrawal_restrictions = wallet_row.withdrawal_restrictions,
+        updated_at = wallet_row.updated_at,
+        version = wallet_row.version
+    WHERE id = wallet_row.id
+      AND version = (wallet_change->>'expected_version')::BIGINT;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'WALLET_VERSION_CONFLICT: wallet % changed since version % was read',
+        wallet_row.id, wallet_change->>'expected_version'
+        USING ERRCODE = '40001';
+    END IF;
+  END LOOP;
+
+  INSERT INTO transactions
+  SELECT (jsonb_populate_record(NULL::transactions, change->'row')).*
+  FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::jsonb)) AS change
+  WHERE (change->>'is_new')::BOOLEAN;
+
+  UPDATE transactions AS t
+  SET status = changed.status,
+      amount = changed.amount,
+      fee = changed.fee,
+      from_wallet_id = changed.from_wallet_id,
+      to_wallet_id = changed.to_wallet_id,
+      external_transaction_id = changed.external_transaction_id,
+      external_reference = changed.external_reference,
+      payment_method = changed.payment_method,
+      merchant_info = changed.merchant_info,
+      round_up_details = changed.round_up_details,
+      related_transaction_id = changed.related_transaction_id,
+      refunded_amount = changed.refunded_amount,
+      dispute_status = changed.dispute_status,
+      category = changed.category,
+      auto_categorized = changed.auto_categorized,
+      description = changed.description,
+      updated_at = changed.updated_at,
+      completed_at = changed.completed_at,
+      retry_count = changed.retry_count,
+      last_retry_at = changed.last_retry_at,
+      next_retry_at = changed.next_retry_at
+  FROM (
+    SELECT (jsonb_populate_record(NULL::transactions, change->'row')).*
+    FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::jsonb)) AS change
+    WHERE NOT (change->>'is_new')::BOOLEAN
+  ) AS changed
+  WHERE t.id = changed.id;
+
+  INSERT INTO ledger_entries (id, transaction_id, description, posted_at, created_at)
+  SELECT id, transaction_id, description, posted_at, created_at
+  FROM jsonb_populate_recordset(NULL::ledger_entries, COALESCE(p_ledger_entries, '[]'::jsonb));
+
+  INSERT INTO ledger_lines (entry_id, line_number, account_id, direction, amount, posted_at)
+  SELECT entry_id, line_number, account_id, direction, amount, posted_at
+  FROM jsonb_populate_recordset(NULL::ledger_lines, COALESCE(p_ledger_lines, '[]'::jsonb));
+
+  INSERT INTO fund_holds
+  SELECT (jsonb_populate_record(NULL::fund_holds, change->'row')).*
+  FROM jsonb_array_elements(COALESCE(p_fund_holds, '[]'::jsonb)) AS change
+  WHERE (change->>'is_new')::BOOLEAN;
+
+  UPDATE fund_holds AS h
+  SET status = changed.status,
+      settled_at = changed.settled_at,
+      updated_at = changed.updated_at
+  FROM (
+    SELECT (jsonb_populate_record(NULL::fund_holds, change->'row')).*
+    FROM jsonb_array_elements(COALESCE(p_fund_holds, '[]'::jsonb)) AS change
+    WHERE NOT (change->>'is_new')::BOOLEAN
+  ) AS changed
+  WHERE h.id = changed.id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,5 @@
+-- Fees from the fee schedule are held with the amount they are charged on and taken when the hold
+-- is captured, so a failed or expired transaction charges no fee.
+
+ALTER TABLE fund_holds
+  ADD COLUMN IF NOT EXISTS fee BIGINT NOT NULL DEFAULT 0 CHECK (fee >= 0);
@@ -0,0 +1,6 @@
+-- Transaction limits now follow the user's KYC tier and are enforced by the API's LimitService.
+-- The trigger applied the unverified limits (KES 5,000 per transaction, KES 20,000 per day) to
+-- everyone, so it would refuse transactions that verified users are allowed to make.
+
+DROP TRIGGER IF EXISTS validate_transaction_limits_trigger ON transactions;
+DROP FUNCTION IF EXISTS validate_transaction_limits();
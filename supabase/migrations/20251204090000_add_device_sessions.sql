@@ -0,0 +1,23 @@
+-- One row per signed-in device. A session's id is the family id of its refresh tokens and the
+-- `sid` claim of its access tokens, so revoking it signs the device out. Refresh tokens issued
+-- before this table existed have no session and stop refreshing: those users sign in again.
+
+CREATE TABLE IF NOT EXISTS device_sessions (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  client_platform VARCHAR(64),
+  client_version VARCHAR(64),
+  -- Network of the client (/24 or /48), never the full address
+  ip_address TEXT,
+  first_seen_at TIMESTAMPTZ NOT NULL,
+  last_seen_at TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (last_seen_at >= first_seen_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_sessions_user_last_seen ON device_sessions(user_id, last_seen_at DESC);
+
+ALTER TABLE device_sessions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,26 @@
+-- Forgot-PIN recovery. A recovery opens after an OTP step-up; the chosen PIN is stored hashed and
+-- only replaces the user's PIN once the cooling-off period ends. Outgoing transfers stay frozen
+-- until then through users.transfers_frozen_until.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS transfers_frozen_until TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS pin_recoveries (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('verified', 'cooling_off', 'completed', 'cancelled', 'failed')),
+  identity_check_required BOOLEAN NOT NULL DEFAULT FALSE,
+  identity_attempts INTEGER NOT NULL DEFAULT 0 CHECK (identity_attempts >= 0),
+  new_pin_hash TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  effective_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (status NOT IN ('cooling_off', 'completed') OR (new_pin_hash IS NOT NULL AND effective_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pin_recoveries_user_created ON pin_recoveries(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pin_recoveries_due ON pin_recoveries(effective_at) WHERE status = 'cooling_off';
+
+ALTER TABLE pin_recoveries ENABLE ROW LEVEL SECURITY;
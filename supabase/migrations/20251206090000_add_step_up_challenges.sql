@@ -0,0 +1,28 @@
+-- Step-up verification for risky payments. A challenge is raised when a payment is above the
+-- step-up threshold or goes to a new recipient, verified with an OTP or biometric confirmation, and
+-- used once by a retry of the same payment (same type, amount and recipient).
+
+CREATE TABLE IF NOT EXISTS step_up_challenges (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device_session_id UUID REFERENCES device_sessions(id) ON DELETE SET NULL,
+  transaction_type VARCHAR(30) NOT NULL,
+  amount BIGINT NOT NULL CHECK (amount > 0),
+  recipient_key TEXT NOT NULL,
+  reasons TEXT[] NOT NULL CHECK (cardinality(reasons) > 0),
+  methods TEXT[] NOT NULL CHECK (cardinality(methods) > 0 AND methods <@ ARRAY['otp', 'biometric']),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'verified', 'consumed')),
+  otp_session_id UUID,
+  verified_method VARCHAR(20) CHECK (verified_method IN ('otp', 'biometric')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  verified_at TIMESTAMPTZ,
+  consumed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (status = 'pending' OR (verified_method IS NOT NULL AND verified_at IS NOT NULL)),
+  CHECK (status <> 'consumed' OR consumed_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_step_up_challenges_user_created ON step_up_challenges(user_id, created_at DESC);
+
+ALTER TABLE step_up_challenges ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,4 @@
+-- PIN tokens issued for a payment carry the hash of that payment's type, amount and recipient,
+-- and are only accepted for it. Tokens without a hash authorise the other PIN-gated actions.
+
+ALTER TABLE pin_tokens ADD COLUMN IF NOT EXISTS intent_hash TEXT;
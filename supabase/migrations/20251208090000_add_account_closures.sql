@@ -0,0 +1,21 @@
+-- Account closure. Closing sets users.status to 'closed', which blocks signing in; the closure row
+-- keeps when the user's personal data is due to be anonymised once the retention period is over.
+
+CREATE TABLE IF NOT EXISTS account_closures (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('closed', 'anonymised')),
+  reason VARCHAR(500),
+  payout_transaction_ids UUID[] NOT NULL DEFAULT '{}',
+  closed_at TIMESTAMPTZ NOT NULL,
+  anonymise_after TIMESTAMPTZ NOT NULL,
+  anonymised_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (anonymise_after >= closed_at),
+  CHECK (status <> 'anonymised' OR anonymised_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_closures_due ON account_closures(anonymise_after) WHERE status = 'closed';
+
+ALTER TABLE account_closures ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,29 @@
+-- Back-office audit trail. Every admin action on KYC documents and user accounts is recorded with
+-- the acting admin; rows are only ever inserted.
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY,
+  admin_id VARCHAR(100) NOT NULL,
+  action VARCHAR(50) NOT NULL CHECK (action IN (
+    'kyc_document_approved',
+    'kyc_document_rejected',
+    'kyc_extracted_data_updated',
+    'user_kyc_status_changed',
+    'user_suspended',
+    'user_reactivated',
+    'users_searched',
+    'user_viewed'
+  )),
+  target_type VARCHAR(20) NOT NULL CHECK (target_type IN ('kyc_document', 'user')),
+  target_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_type, target_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_admin ON admin_audit_log(admin_id, created_at DESC);
+
+-- The review queue lists documents by status, oldest upload first, across all users
+CREATE INDEX IF NOT EXISTS idx_kyc_docs_status_uploaded_at ON kyc_documents(status, uploaded_at);
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,5 @@
+-- Selfie-to-ID face match score reported by the KYC verification provider, from 0 to 1. Null for
+-- identity documents and for documents no provider has checked.
+
+ALTER TABLE kyc_documents
+  ADD COLUMN IF NOT EXISTS face_match_score NUMERIC(4, 3) CHECK (face_match_score IS NULL OR (face_match_score >= 0 AND face_match_score <= 1));
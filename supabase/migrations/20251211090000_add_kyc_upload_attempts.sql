@@ -0,0 +1,51 @@
+-- KYC upload attempts per user and document type, replacing the API's in-process counter so the
+-- limit survives restarts and holds across instances. Using the last attempt blocks uploads of that
+-- type and opens a review case for the back office.
+
+CREATE TABLE IF NOT EXISTS kyc_upload_attempts (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  document_type VARCHAR(20) NOT NULL CHECK (document_type IN ('national_id', 'passport', 'driving_license', 'selfie')),
+  attempts INTEGER NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  last_attempt_at TIMESTAMPTZ,
+  blocked_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, document_type)
+);
+
+CREATE TABLE IF NOT EXISTS kyc_review_cases (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  document_type VARCHAR(20) NOT NULL CHECK (document_type IN ('national_id', 'passport', 'driving_license', 'selfie')),
+  reason VARCHAR(40) NOT NULL CHECK (reason IN ('upload_attempts_exhausted')),
+  status VARCHAR(20) NOT NULL CHECK (status IN ('open', 'resolved')),
+  retry_at TIMESTAMPTZ NOT NULL,
+  resolved_by VARCHAR(100),
+  resolution_notes VARCHAR(500),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (status <> 'resolved' OR (resolved_by IS NOT NULL AND resolved_at IS NOT NULL))
+);
+
+-- One open case per user and document type
+CREATE UNIQUE INDEX IF NOT EXISTS idx_kyc_review_cases_open ON kyc_review_cases(user_id, document_type) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_kyc_review_cases_status ON kyc_review_cases(status, created_at);
+
+ALTER TABLE admin_audit_log DROP CONSTRAINT IF EXISTS admin_audit_log_action_check;
+ALTER TABLE admin_audit_log ADD CONSTRAINT admin_audit_log_action_check CHECK (action IN (
+  'kyc_document_approved',
+  'kyc_document_rejected',
+  'kyc_extracted_data_updated',
+  'kyc_review_case_resolved',
+  'user_kyc_status_changed',
+  'user_suspended',
+  'user_reactivated',
+  'users_searched',
+  'user_viewed'
+));
+ALTER TABLE admin_audit_log DROP CONSTRAINT IF EXISTS admin_audit_log_target_type_check;
+ALTER TABLE admin_audit_log ADD CONSTRAINT admin_audit_log_target_type_check
+  CHECK (target_type IN ('kyc_document', 'kyc_review_case', 'user'));
+
+ALTER TABLE kyc_upload_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE kyc_review_cases ENABLE ROW LEVEL SECURITY;
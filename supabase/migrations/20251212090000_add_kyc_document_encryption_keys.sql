@@ -0,0 +1,13 @@
+-- Per-document data key for KYC files encrypted at rest. The API generates a fresh AES-256 key for
+-- every upload, encrypts the file with it and stores the key here wrapped with KYC_DOCUMENT_MASTER_KEY.
+-- Null until the file has been received and checked, so it doubles as the "upload confirmed" marker.
+--
+-- The files themselves live in a private Storage bucket (KYC_STORAGE_BUCKET, kyc-documents by default)
+-- that only the service role can read; clients upload and download through signed API links.
+
+ALTER TABLE kyc_documents
+  ADD COLUMN IF NOT EXISTS encrypted_data_key TEXT;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('kyc-documents', 'kyc-documents', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
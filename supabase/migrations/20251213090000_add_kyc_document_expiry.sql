@@ -0,0 +1,19 @@
+-- KYC document expiry monitoring. Approved documents are warned about 30 and 7 days before
+-- expires_at and marked 'expired' on the day; an expired identity document drops the user back to
+-- kyc_status 'pending' until a replacement is approved.
+
+ALTER TYPE kyc_document_status ADD VALUE IF NOT EXISTS 'expired';
+
+-- The last warning sent, in days before expiry (30, then 7). Null until the first one goes out.
+ALTER TABLE kyc_documents
+  ADD COLUMN IF NOT EXISTS expiry_warning_days SMALLINT CHECK (expiry_warning_days IS NULL OR expiry_warning_days > 0);
+
+-- expires_at now follows the expiry date read off the document; fill it in for documents checked before
+UPDATE kyc_documents
+SET expires_at = (extracted_data->>'expiry_date')::DATE
+WHERE expires_at IS NULL
+  AND extracted_data->>'expiry_date' IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_kyc_docs_approved_expiry
+  ON kyc_documents(expires_at)
+  WHERE status = 'approved' AND expires_at IS NOT NULL;
@@ -0,0 +1,52 @@
+-- Sanctions and PEP screening. Customers are screened at registration and KYC approval, payout
+-- recipients before the transfer goes out. A possible match opens a screening case; a customer hit
+-- holds the account through users.compliance_hold, a payout hit holds that transfer_out until an
+-- admin clears or confirms the case.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS compliance_hold VARCHAR(30) CHECK (compliance_hold IS NULL OR compliance_hold IN ('sanctions_screening'));
+
+CREATE TABLE IF NOT EXISTS screening_cases (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('registration', 'kyc_approval', 'payout')),
+  subject_name VARCHAR(200) NOT NULL,
+  subject_date_of_birth DATE,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  -- {name, phone, email} of a held payout's recipient
+  payout_recipient JSONB,
+  -- [{entry_id, list_name, category, matched_name, score, date_of_birth_match}]
+  matches JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('open', 'cleared', 'confirmed')),
+  resolved_by VARCHAR(100),
+  resolution_notes VARCHAR(500),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (jsonb_array_length(matches) > 0),
+  CHECK (trigger <> 'payout' OR (transaction_id IS NOT NULL AND payout_recipient IS NOT NULL)),
+  CHECK (status = 'open' OR (resolved_by IS NOT NULL AND resolved_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_screening_cases_status ON screening_cases(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_screening_cases_user ON screening_cases(user_id, created_at);
+
+ALTER TABLE admin_audit_log DROP CONSTRAINT IF EXISTS admin_audit_log_action_check;
+ALTER TABLE admin_audit_log ADD CONSTRAINT admin_audit_log_action_check CHECK (action IN (
+  'kyc_document_approved',
+  'kyc_document_rejected',
+  'kyc_extracted_data_updated',
+  'kyc_review_case_resolved',
+  'screening_case_cleared',
+  'screening_case_confirmed',
+  'user_kyc_status_changed',
+  'user_suspended',
+  'user_reactivated',
+  'users_searched',
+  'user_viewed'
+));
+ALTER TABLE admin_audit_log DROP CONSTRAINT IF EXISTS admin_audit_log_target_type_check;
+ALTER TABLE admin_audit_log ADD CONSTRAINT admin_audit_log_target_type_check
+  CHECK (target_type IN ('kyc_document', 'kyc_review_case', 'screening_case', 'user'));
+
+ALTER TABLE screening_cases ENABLE ROW LEVEL SECURITY;
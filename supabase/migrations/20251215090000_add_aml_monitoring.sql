@@ -0,0 +1,66 @@
+-- Transaction monitoring. A periodic scan runs the AML rules over newly completed transactions and
+-- raises an alert per rule hit for the back office. A high-severity alert freezes the user's outgoing
+-- transfers until an admin clears it, so an account can now be held for more than one reason at once:
+-- users.compliance_hold becomes users.compliance_holds, and each review lifts only its own hold.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS compliance_holds TEXT[] NOT NULL DEFAULT '{}'
+  CHECK (compliance_holds <@ ARRAY['sanctions_screening', 'aml_alert']::TEXT[]);
+
+UPDATE users SET compliance_holds = ARRAY[compliance_hold]::TEXT[] WHERE compliance_hold IS NOT NULL;
+
+ALTER TABLE users DROP COLUMN IF EXISTS compliance_hold;
+
+-- The scan picks up transactions by when they completed
+CREATE INDEX IF NOT EXISTS idx_transactions_completed_updated_at
+  ON transactions(updated_at)
+  WHERE status = 'completed';
+
+CREATE TABLE IF NOT EXISTS aml_alerts (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  rule_id VARCHAR(100) NOT NULL,
+  rule_kind VARCHAR(30) NOT NULL CHECK (rule_kind IN ('structuring', 'rapid_movement', 'distinct_senders', 'volume_spike')),
+  severity VARCHAR(10) NOT NULL CHECK (severity IN ('low', 'medium', 'high')),
+  summary VARCHAR(500) NOT NULL,
+  -- [{id, type, amount, occurred_at}], oldest first
+  transactions JSONB NOT NULL,
+  -- The rule's figures, e.g. {count, total}
+  details JSONB NOT NULL DEFAULT '{}',
+  freezes_account BOOLEAN NOT NULL DEFAULT FALSE,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('open', 'cleared', 'confirmed')),
+  resolved_by VARCHAR(100),
+  resolution_notes VARCHAR(500),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (jsonb_array_length(transactions) > 0),
+  CHECK (status = 'open' OR (resolved_by IS NOT NULL AND resolved_at IS NOT NULL))
+);
+
+-- Later hits of a rule add to its open alert instead of raising another
+CREATE UNIQUE INDEX IF NOT EXISTS idx_aml_alerts_open_rule ON aml_alerts(user_id, rule_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_aml_alerts_status ON aml_alerts(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_aml_alerts_user ON aml_alerts(user_id, created_at);
+
+ALTER TABLE admin_audit_log DROP CONSTRAINT IF EXISTS admin_audit_log_action_check;
+ALTER TABLE admin_audit_log ADD CONSTRAINT admin_audit_log_action_check CHECK (action IN (
+  'aml_alert_cleared',
+  'aml_alert_confirmed',
+  'kyc_document_approved',
+  'kyc_document_rejected',
+  'kyc_extracted_data_updated',
+  'kyc_review_case_resolved',
+  'screening_case_cleared',
+  'screening_case_confirmed',
+  'user_kyc_status_changed',
+  'user_suspended',
+  'user_reactivated',
+  'users_searched',
+  'user_viewed'
+));
+ALTER TABLE admin_audit_log DROP CONSTRAINT IF EXISTS admin_audit_log_target_type_check;
+ALTER TABLE admin_audit_log ADD CONSTRAINT admin_audit_log_target_type_check
+  CHECK (target_type IN ('aml_alert', 'kyc_document', 'kyc_review_case', 'screening_case', 'user'));
+
+ALTER TABLE aml_alerts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,138 @@
+-- A payout to a recipient who matches the sanctions and PEP watchlist is recorded as a pending
+-- transfer_out that has not been sent to Paystack. Mark it, so the reconciliation sweeper and hold
+-- expiry leave it alone until an admin sends or cancels it.
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS held_for_screening BOOLEAN NOT NULL DEFAULT FALSE;
+
+UPDATE transactions AS t
+SET held_for_screening = TRUE
+FROM screening_cases AS c
+WHERE c.transaction_id = t.id
+  AND c.status = 'open'
+  AND t.status = 'pending';
+
+-- commit_unit_of_work as before, now also writing held_for_screening on updated rows
+
+-- p_wallets:        [{ "expected_version": n, "row": <wallets row with the new version> }]
+-- p_transactions:   [{ "is_new": bool, "expected_status": <status or null>, "row": <transactions row> }]
+-- p_ledger_entries: [<ledger_entries row>]
+-- p_ledger_lines:   [<ledger_lines row>]
+-- p_fund_holds:     [{ "is_new": bool, "row": <fund_holds row> }]
+--
+-- Raises WALLET_VERSION_CONFLICT (SQLSTATE 40001) when any wallet moved past the version the unit
+-- read, and TRANSACTION_STATUS_CONFLICT (SQLSTATE 40001) when a transaction it read has since moved
+-- to another status; nothing is written in either case and the caller re-runs the unit.
+CREATE OR REPLACE FUNCTION commit_unit_of_work(
+  p_wallets JSONB,
+  p_transactions JSONB,
+  p_ledger_entries JSONB,
+  p_ledger_lines JSONB,
+  p_fund_holds JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  wallet_change JSONB;
+  wallet_row wallets%ROWTYPE;
+  transaction_change JSONB;
+BEGIN
+  FOR wallet_change IN SELECT * FROM jsonb_array_elements(COALESCE(p_wallets, '[]'::jsonb))
+  LOOP
+    wallet_row := jsonb_populate_record(NULL::wallets, wallet_change->'row');
+
+    UPDATE wallets
+    SET balance = wallet_row.balance,
+        available_balance = wallet_row.available_balance,
+        last_transaction_at = wallet_row.last_transaction_at,
+        withdrawal_restrictions = wallet_row.withdrawal_restrictions,
+        updated_at = wallet_row.updated_at,
+        version = wallet_row.version
+    WHERE id = wallet_row.id
+      AND version = (wallet_change->>'expected_version')::BIGINT;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'WALLET_VERSION_CONFLICT: wallet % changed since version % was read',
+        wallet_row.id, wallet_change->>'expected_version'
+        USING ERRCODE = '40001';
+    END IF;
+  END LOOP;
+
+  -- The row lock holds off a concurrent unit until this one commits; that unit then sees the new
+  -- status and conflicts
+  FOR transaction_change IN SELECT * FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::jsonb))
+  LOOP
+    CONTINUE WHEN (transaction_change->>'is_new')::BOOLEAN OR transaction_change->>'expected_status' IS NULL;
+
+    PERFORM 1
+    FROM transactions
+    WHERE id = (transaction_change->'row'->>'id')::UUID
+      AND status = transaction_change->>'expected_status'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'TRANSACTION_STATUS_CONFLICT: transaction % is no longer %',
+        transaction_change->'row'->>'id', transaction_change->>'expected_status'
+        USING ERRCODE = '40001';
+    END IF;
+  END LOOP;
+
+  INSERT INTO transactions
+  SELECT (jsonb_populate_record(NULL::transactions, change->'row')).*
+  FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::jsonb)) AS change
+  WHERE (change->>'is_new')::BOOLEAN;
+
+  UPDATE transactions AS t
+  SET status = changed.status,
+      amount = changed.amount,
+      fee = changed.fee,
+      from_wallet_id = changed.from_wallet_id,
+      to_wallet_id = changed.to_wallet_id,
+      external_transaction_id = changed.external_transaction_id,
+      external_reference = changed.external_reference,
+      payment_method = changed.payment_method,
+      merchant_info = changed.merchant_info,
+      round_up_details = changed.round_up_details,
+      related_transaction_id = changed.related_transaction_id,
+      refunded_amount = changed.refunded_amount,
+      dispute_status = changed.dispute_status,
+      held_for_screening = changed.held_for_screening,
+      category = changed.category,
+      auto_categorized = changed.auto_categorized,
+      description = changed.description,
+      updated_at = changed.updated_at,
+      completed_at = changed.completed_at,
+      retry_count = changed.retry_count,
+      last_retry_at = changed.last_retry_at,
+      next_retry_at = changed.next_retry_at
+  FROM (
+    SELECT (jsonb_populate_record(NULL::transactions, change->'row')).*
+    FROM jsonb_array_elements(COALESCE(p_transactions, '[]'::jsonb)) AS change
+    WHERE NOT (change->>'is_new')::BOOLEAN
+  ) AS changed
+  WHERE t.id = changed.id;
+
+  INSERT INTO ledger_entries (id, transaction_id, description, posted_at, created_at)
+  SELECT id, transaction_id, description, posted_at, created_at
+  FROM jsonb_populate_recordset(NULL::ledger_entries, COALESCE(p_ledger_entries, '[]'::jsonb));
+
+  INSERT INTO ledger_lines (entry_id, line_number, account_id, direction, amount, posted_at)
+  SELECT entry_id, line_number, account_id, direction, amount, posted_at
+  FROM jsonb_populate_recordset(NULL::ledger_lines, COALESCE(p_ledger_lines, '[]'::jsonb));
+
+  INSERT INTO fund_holds
+  SELECT (jsonb_populate_record(NULL::fund_holds, change->'row')).*
+  FROM jsonb_array_elements(COALESCE(p_fund_holds, '[]'::jsonb)) AS change
+  WHERE (change->>'is_new')::BOOLEAN;
+
+  UPDATE fund_holds AS h
+  SET status = changed.status,
+      settled_at = changed.settled_at,
+      updated_at = changed.updated_at
+  FROM (
+    SELECT (jsonb_populate_record(NULL::fund_holds, change->'row')).*
+    FROM jsonb_array_elements(COALESCE(p_fund_holds, '[]'::jsonb)) AS change
+    WHERE NOT (change->>'is_new')::BOOLEAN
+  ) AS changed
+  WHERE h.id = changed.id;
+END;
+$$ LANGUAGE plpgsql;
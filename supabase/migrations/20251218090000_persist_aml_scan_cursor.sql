@@ -0,0 +1,18 @@
+-- The AML scan keeps its place in the feed of completed transactions here instead of in memory, so
+-- a restart or a second API instance picks up where the last scan stopped. The feed is paged by
+-- (updated_at, id), so a batch of transactions sharing one updated_at still moves the cursor on.
+
+CREATE TABLE IF NOT EXISTS aml_scan_cursor (
+  -- A single row
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  scanned_until TIMESTAMPTZ NOT NULL,
+  last_transaction_id UUID NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP INDEX IF EXISTS idx_transactions_completed_updated_at;
+CREATE INDEX IF NOT EXISTS idx_transactions_completed_updated_at_id
+  ON transactions(updated_at, id)
+  WHERE status = 'completed';
+
+ALTER TABLE aml_scan_cursor ENABLE ROW LEVEL SECURITY;
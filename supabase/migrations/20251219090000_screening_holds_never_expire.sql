@@ -0,0 +1,13 @@
+-- A payout held for screening keeps its funds reserved until an admin decides its case. Its hold now
+-- has no expires_at instead of a 30-day one, so the hold-expiry sweep, which takes the oldest expired
+-- holds first, never fetches it: enough screening holds past a fixed expiry would otherwise fill
+-- every batch and stop other holds from expiring.
+
+ALTER TABLE fund_holds ALTER COLUMN expires_at DROP NOT NULL;
+
+UPDATE fund_holds AS h
+SET expires_at = NULL, updated_at = NOW()
+FROM transactions AS t
+WHERE t.id = h.transaction_id
+  AND t.held_for_screening
+  AND h.status = 'held';
@@ -0,0 +1,53 @@
+-- Identity answers in a PIN recovery are counted in the database, one answer per user at a time, so
+-- parallel requests can neither overwrite each other's count nor all read the same count and get
+-- more guesses than the limit allows.
+
+-- Returns { "recovery": <pin_recoveries row>, "attempts_in_window": n } after counting the answer,
+-- or NULL when the recovery is not `verified` any more. When the user's recoveries started at or
+-- after p_since already hold p_max_attempts answers, the recovery is failed instead of counted.
+CREATE OR REPLACE FUNCTION record_pin_recovery_identity_attempt(
+  p_recovery_id UUID,
+  p_since TIMESTAMPTZ,
+  p_max_attempts INTEGER,
+  p_now TIMESTAMPTZ
+)
+RETURNS JSONB AS $$
+DECLARE
+  recovery_user_id UUID;
+  attempts_in_window INTEGER;
+  recovery_row pin_recoveries%ROWTYPE;
+BEGIN
+  SELECT user_id INTO recovery_user_id FROM pin_recoveries WHERE id = p_recovery_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Answers in any of the user's recoveries wait for this one, so the window sum below is current
+  PERFORM 1 FROM users WHERE id = recovery_user_id FOR UPDATE;
+
+  SELECT * INTO recovery_row FROM pin_recoveries WHERE id = p_recovery_id AND status = 'verified';
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(identity_attempts), 0) INTO attempts_in_window
+  FROM pin_recoveries
+  WHERE user_id = recovery_user_id
+    AND created_at >= p_since;
+
+  IF attempts_in_window >= p_max_attempts THEN
+    UPDATE pin_recoveries
+    SET status = 'failed', updated_at = p_now
+    WHERE id = p_recovery_id
+    RETURNING * INTO recovery_row;
+  ELSE
+    UPDATE pin_recoveries
+    SET identity_attempts = identity_attempts + 1, updated_at = p_now
+    WHERE id = p_recovery_id
+    RETURNING * INTO recovery_row;
+    attempts_in_window := attempts_in_window + 1;
+  END IF;
+
+  RETURN jsonb_build_object('recovery', to_jsonb(recovery_row), 'attempts_in_window', attempts_in_window);
+END;
+$$ LANGUAGE plpgsql;
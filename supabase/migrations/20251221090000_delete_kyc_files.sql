@@ -0,0 +1,4 @@
+-- KYC document files can now be deleted from storage, e.g. once a newer document of the same type is
+-- approved. The record stays, with no file path and no data key.
+
+ALTER TABLE kyc_documents ALTER COLUMN file_path DROP NOT NULL;
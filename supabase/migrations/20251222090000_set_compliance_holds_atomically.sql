@@ -0,0 +1,22 @@
+-- Sanctions screening and AML monitoring each place and lift their own entry in users.compliance_holds.
+-- Changing one entry in a single UPDATE, instead of writing back the whole array read earlier, keeps
+-- a review that runs at the same time from undoing the other's hold.
+
+-- Returns the updated users row, or no row when the user does not exist.
+CREATE OR REPLACE FUNCTION set_compliance_hold(
+  p_user_id UUID,
+  p_hold TEXT,
+  p_held BOOLEAN,
+  p_now TIMESTAMPTZ
+)
+RETURNS SETOF users AS $$
+  UPDATE users
+  SET compliance_holds = CASE
+        WHEN NOT p_held THEN array_remove(compliance_holds, p_hold)
+        WHEN p_hold = ANY(compliance_holds) THEN compliance_holds
+        ELSE array_append(compliance_holds, p_hold)
+      END,
+      updated_at = p_now
+  WHERE id = p_user_id
+  RETURNING *;
+$$ LANGUAGE sql;
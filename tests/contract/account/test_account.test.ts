@@ -0,0 +1,113 @@
+/**
+ * Contract Test: Account export and closure
+ *
+ * POST /account/export and POST /account/close, plus signing in to a closed
+ * account through POST /auth/login.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createTransaction } from '../../../api/src/models/Transaction';
+import { ContractTestEnvironment, createContractTestEnvironment } from '../helpers/environment';
+
+describe('Account Contract Tests', () => {
+  let ctx: ContractTestEnvironment;
+
+  beforeEach(async () => {
+    ctx = await createContractTestEnvironment();
+  });
+
+  describe('POST /account/export', () => {
+    it('should return a versioned archive of the user\'s data', async () => {
+      const payment = await ctx.integration.repositories.transactionRepository.create(
+        createTransaction({ id: randomUUID(), userId: ctx.userId, type: 'payment', amount: 12_500, category: 'groceries' }),
+      );
+      await ctx.integration.helpers.createSavingsGoal({ name: 'School fees', targetAmount: 200_000 });
+
+      const response = await ctx.executeAsUser(ctx.routes.account.exportData);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        format_version: 1,
+        profile: { id: ctx.userId, email: ctx.integration.user.email, date_of_birth: null },
+        round_up_rule: { id: ctx.integration.roundUpRule.id },
+        investment: { position: null, preference: null },
+        kyc_documents: [],
+      });
+      expect(new Date(response.body.generated_at).toISOString()).toBe(response.body.generated_at);
+      expect(response.body.wallets).toHaveLength(2);
+      expect(response.body.transactions).toEqual([expect.objectContaining({ id: payment.id, amount: 12_500 })]);
+      expect(response.body.savings_goals).toEqual([expect.objectContaining({ name: 'School fees' })]);
+    });
+
+    it('should require authentication', async () => {
+      const response = await ctx.execute(ctx.routes.account.exportData);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('POST /account/close', () => {
+    it('should close an empty account and block signing in', async () => {
+      const pinToken = await ctx.integration.helpers.issuePinToken('4826');
+
+      const response = await ctx.executeAsUser(ctx.routes.account.close, {
+        body: { pin_token: pinToken, reason: 'No longer needed' },
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ status: 'closed', payout_transaction_ids: [] });
+      expect(new Date(response.body.anonymise_after).getTime()).toBeGreaterThan(new Date(response.body.closed_at).getTime());
+
+      const login = await ctx.execute(ctx.routes.auth.login, { body: { email: ctx.integration.user.email } });
+      expect(login.status).toBe(403);
+      expect(login.body.code).toBe('ACCOUNT_CLOSED');
+    });
+
+    it('should pay out the remaining balance when an M-Pesa number is given', async () => {
+      await ctx.integration.helpers.topUpMainWallet(50_000);
+      const pinToken = await ctx.integration.helpers.issuePinToken('4826');
+
+      const response = await ctx.executeAsUser(ctx.routes.account.close, {
+        body: { pin_token: pinToken, mpesa_phone: '254712345678' },
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body.payout_transaction_ids).toHaveLength(1);
+    });
+
+    it('should refuse to close an account with a balance and no payout', async () => {
+      await ctx.integration.helpers.topUpMainWallet(50_000);
+      const pinToken = await ctx.integration.helpers.issuePinToken('4826');
+
+      const response = await ctx.executeAsUser(ctx.routes.account.close, { body: { pin_token: pinToken } });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toMatchObject({ code: 'ACCOUNT_HAS_BALANCE', balances: { main: 50_000 } });
+      // The PIN token is only used up once the account actually closes
+      await expect(ctx.integration.services.authService.validatePinToken(ctx.userId, pinToken)).resolves.toBe(true);
+    });
+
+    it('should require a valid PIN token', async () => {
+      const missing = await ctx.executeAsUser(ctx.routes.account.close, { body: {} });
+      expect(missing.status).toBe(400);
+      expect(missing.body.code).toBe('MISSING_PIN_TOKEN');
+
+      const expired = await ctx.executeAsUser(ctx.routes.account.close, { body: { pin_token: 'txn_unknown123' } });
+      expect(expired.status).toBe(401);
+      expect(expired.body.code).toBe('PIN_TOKEN_EXPIRED');
+    });
+
+    it('should reject an invalid payout phone number', async () => {
+      const pinToken = await ctx.integration.helpers.issuePinToken('4826');
+
+      const response = await ctx.executeAsUser(ctx.routes.account.close, {
+        body: { pin_token: pinToken, mpesa_phone: '0712' },
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('INVALID_PHONE');
+    });
+  });
+});
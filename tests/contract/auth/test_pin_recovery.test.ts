@@ -0,0 +1,117 @@
+/**
+ * Contract Test: Forgot-PIN recovery
+ *
+ * POST /auth/pin-recovery/start, /verify-otp, /complete and /cancel, and
+ * GET /auth/pin-recovery/:recoveryId.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import { ContractTestEnvironment, createContractTestEnvironment } from '../helpers/environment';
+
+describe('PIN recovery Contract Tests', () => {
+  let ctx: ContractTestEnvironment;
+
+  beforeEach(async () => {
+    ctx = await createContractTestEnvironment();
+    await ctx.integration.helpers.ensurePin('4826');
+  });
+
+  const verifyOtp = async () => {
+    const start = await ctx.execute(ctx.routes.pinRecovery.start, { body: { email: ctx.integration.user.email } });
+    return ctx.execute(ctx.routes.pinRecovery.verifyOtp, {
+      body: { session_id: start.body.session_id, otp_code: ctx.integration.stubs.otpSender.lastEmailOtp!.otp },
+    });
+  };
+
+  it('should send an OTP for the account', async () => {
+    const response = await ctx.execute(ctx.routes.pinRecovery.start, { body: { email: ctx.integration.user.email } });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      message: 'OTP sent to your email',
+      session_id: expect.any(String),
+      delivery_channel: 'email',
+    });
+  });
+
+  it('should open a recovery once the OTP is verified', async () => {
+    const response = await verifyOtp();
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      recovery_id: expect.any(String),
+      status: 'verified',
+      identity_check_required: false,
+      identity_check: null,
+      expires_at: expect.any(String),
+      effective_at: null,
+    });
+  });
+
+  it('should schedule the new PIN and report when it takes effect', async () => {
+    const opened = await verifyOtp();
+
+    const response = await ctx.execute(ctx.routes.pinRecovery.complete, {
+      body: { recovery_id: opened.body.recovery_id, new_pin: '3917', confirm_pin: '3917' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ recovery_id: opened.body.recovery_id, status: 'cooling_off' });
+    expect(new Date(response.body.effective_at).getTime()).toBeGreaterThan(Date.now());
+
+    const status = await ctx.execute(ctx.routes.pinRecovery.getStatus, { params: { recoveryId: opened.body.recovery_id } });
+    expect(status.body).toMatchObject({ status: 'cooling_off', effective_at: response.body.effective_at });
+
+    const limits = await ctx.executeAsUser(ctx.routes.limits.getLimits);
+    expect(limits.body.transfers_frozen_until).toBe(response.body.effective_at);
+  });
+
+  it('should refuse a second recovery while one is cooling off', async () => {
+    const opened = await verifyOtp();
+    await ctx.execute(ctx.routes.pinRecovery.complete, {
+      body: { recovery_id: opened.body.recovery_id, new_pin: '3917', confirm_pin: '3917' },
+    });
+
+    const response = await verifyOtp();
+
+    expect(response.status).toBe(409);
+    expect(response.body).toMatchObject({ code: 'RECOVERY_IN_PROGRESS', effective_at: expect.any(String) });
+  });
+
+  it('should reject mismatched PINs', async () => {
+    const opened = await verifyOtp();
+
+    const response = await ctx.execute(ctx.routes.pinRecovery.complete, {
+      body: { recovery_id: opened.body.recovery_id, new_pin: '3917', confirm_pin: '9875' },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('PIN_MISMATCH');
+  });
+
+  it('should return 404 for unknown recoveries', async () => {
+    const response = await ctx.execute(ctx.routes.pinRecovery.getStatus, {
+      params: { recoveryId: '00000000-0000-4000-8000-000000000000' },
+    });
+
+    expect(response.status).toBe(404);
+    expect(response.body.code).toBe('RECOVERY_NOT_FOUND');
+  });
+
+  it('should let the signed-in user cancel the reset', async () => {
+    const opened = await verifyOtp();
+    await ctx.execute(ctx.routes.pinRecovery.complete, {
+      body: { recovery_id: opened.body.recovery_id, new_pin: '3917', confirm_pin: '3917' },
+    });
+
+    const unauthenticated = await ctx.execute(ctx.routes.pinRecovery.cancel);
+    const response = await ctx.executeAsUser(ctx.routes.pinRecovery.cancel);
+
+    expect(unauthenticated.status).toBe(401);
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ recovery_id: opened.body.recovery_id, status: 'cancelled' });
+    const limits = await ctx.executeAsUser(ctx.routes.limits.getLimits);
+    expect(limits.body.transfers_frozen_until).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Contract Test: POST /auth/refresh
+ *
+ * This test validates the token refresh endpoint contract.
+ * It ensures refresh tokens rotate on every use and that replaying a rotated
+ * token signs out every session rotated from the same sign-in.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import { ContractTestEnvironment, createContractTestEnvironment } from '../helpers/environment';
+
+describe('POST /auth/refresh Contract Tests', () => {
+  let ctx: ContractTestEnvironment;
+
+  beforeEach(async () => {
+    ctx = await createContractTestEnvironment();
+  });
+
+  const signIn = async () => {
+    const { sessionId } = await ctx.integration.services.authService.requestOtp({ email: ctx.integration.user.email });
+    const otpCode = ctx.integration.stubs.otpSender.lastEmailOtp!.otp;
+    return ctx.integration.services.authService.verifyOtp({ sessionId, otpCode });
+  };
+
+  const refresh = (refreshToken?: string) =>
+    ctx.execute(ctx.routes.auth.refresh, { body: refreshToken === undefined ? {} : { refresh_token: refreshToken } });
+
+  it('should return a new access token and a rotated refresh token', async () => {
+    const session = await signIn();
+
+    const response = await refresh(session.refreshToken);
+
+    expect(response.status).toBe(200);
+    expect(response.body.refresh_token).not.toBe(session.refreshToken);
+    expect(response.body.user).toMatchObject({ id: ctx.userId });
+    await expect(ctx.integration.services.tokenService.verifyAccessToken(response.body.access_token)).resolves.toMatchObject({
+      userId: ctx.userId,
+    });
+  });
+
+  it('should sign out the session when a rotated refresh token is replayed', async () => {
+    const session = await signIn();
+    const first = await refresh(session.refreshToken);
+
+    const replay = await refresh(session.refreshToken);
+
+    expect(replay.status).toBe(401);
+    expect(replay.body).toEqual({ error: 'Refresh token has already been used', code: 'REFRESH_TOKEN_REUSED' });
+    const afterReplay = await refresh(first.body.refresh_token);
+    expect(afterReplay.status).toBe(401);
+    expect(afterReplay.body.code).toBe('INVALID_REFRESH_TOKEN');
+  });
+
+  it('should not renew sessions of suspended users', async () => {
+    const session = await signIn();
+    await ctx.integration.repositories.userRepository.update(ctx.userId, { status: 'suspended', updatedAt: new Date() });
+
+    const response = await refresh(session.refreshToken);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('INVALID_REFRESH_TOKEN');
+  });
+
+  it('should reject unknown refresh tokens', async () => {
+    const response = await refresh('unknown-refresh-token');
+
+    expect(response.status).toBe(401);
+    expect(response.body).toEqual({ error: 'Invalid refresh token', code: 'INVALID_REFRESH_TOKEN' });
+  });
+
+  it('should require a refresh token', async () => {
+    const response = await refresh();
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'refresh_token is required', code: 'INVALID_REFRESH_TOKEN' });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Contract Test: Device sessions
+ *
+ * GET /sessions, DELETE /sessions/:sessionId, POST /sessions/revoke-others and
+ * POST /auth/logout.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import { ContractTestEnvironment, createContractTestEnvironment } from '../helpers/environment';
+
+describe('Device session Contract Tests', () => {
+  let ctx: ContractTestEnvironment;
+
+  beforeEach(async () => {
+    ctx = await createContractTestEnvironment();
+  });
+
+  // Signs in through the route so the device headers are read the way the app sends them
+  const signIn = async (platform: string) => {
+    const { sessionId } = await ctx.integration.services.authService.requestOtp({ email: ctx.integration.user.email });
+    const response = await ctx.execute(ctx.routes.auth.verifyOtp, {
+      body: { session_id: sessionId, otp_code: ctx.integration.stubs.otpSender.lastEmailOtp!.otp },
+      headers: { 'x-client-platform': platform, 'x-client-version': '1.4.0' },
+      ipAddress: '197.232.61.17',
+    });
+    const claims = await ctx.integration.services.tokenService.verifyAccessToken(response.body.access_token);
+    return { deviceSessionId: claims!.deviceSessionId, refreshToken: response.body.refresh_token as string };
+  };
+
+  it('should list active sessions and mark the current one', async () => {
+    const phone = await signIn('ios');
+    const tablet = await signIn('android');
+
+    const response = await ctx.executeAsUser(ctx.routes.sessions.listSessions, { deviceSessionId: phone.deviceSessionId });
+
+    expect(response.status).toBe(200);
+    expect(response.body.sessions).toHaveLength(2);
+    expect(response.body.sessions).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ id: phone.deviceSessionId, client_platform: 'ios', current: true }),
+        expect.objectContaining({
+          id: tablet.deviceSessionId,
+          client_platform: 'android',
+          client_version: '1.4.0',
+          ip_address: '197.232.61.0/24',
+          current: false,
+        }),
+      ]),
+    );
+    expect(new Date(response.body.sessions[0].last_seen_at).toISOString()).toBe(response.body.sessions[0].last_seen_at);
+  });
+
+  it('should revoke one of the user\'s sessions', async () => {
+    await signIn('ios');
+    const tablet = await signIn('android');
+
+    const response = await ctx.executeAsUser(ctx.routes.sessions.revokeSession, {
+      params: { sessionId: tablet.deviceSessionId },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ session_id: tablet.deviceSessionId, revoked: true });
+    const list = await ctx.executeAsUser(ctx.routes.sessions.listSessions);
+    expect(list.body.sessions.map((session: { id: string }) => session.id)).not.toContain(tablet.deviceSessionId);
+  });
+
+  it('should not reveal or revoke sessions of other users', async () => {
+    const tablet = await signIn('android');
+
+    const response = await ctx.execute(ctx.routes.sessions.revokeSession, {
+      userId: '9b1f4c1e-0000-4000-8000-000000000001',
+      params: { sessionId: tablet.deviceSessionId },
+    });
+
+    expect(response.status).toBe(404);
+    expect(response.body.code).toBe('SESSION_NOT_FOUND');
+    expect(await ctx.integration.services.sessionService.isActive(tablet.deviceSessionId)).toBe(true);
+  });
+
+  it('should reject malformed session ids', async () => {
+    const response = await ctx.executeAsUser(ctx.routes.sessions.revokeSession, { params: { sessionId: 'abc' } });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('INVALID_SESSION_ID');
+  });
+
+  it('should revoke every other session', async () => {
+    const phone = await signIn('ios');
+    await signIn('android');
+    await signIn('web');
+
+    const response = await ctx.executeAsUser(ctx.routes.sessions.revokeOtherSessions, {
+      deviceSessionId: phone.deviceSessionId,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ revoked_count: 2 });
+    const remaining = await ctx.integration.services.sessionService.listSessions(ctx.userId);
+    expect(remaining.map((session) => session.id)).toEqual([phone.deviceSessionId]);
+  });
+
+  it('should require the current session to revoke the others', async () => {
+    const response = await ctx.executeAsUser(ctx.routes.sessions.revokeOtherSessions);
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('SESSION_REQUIRED');
+  });
+
+  it('should sign the current device out on logout', async () => {
+    const phone = await signIn('ios');
+
+    const response = await ctx.executeAsUser(ctx.routes.auth.logout, { deviceSessionId: phone.deviceSessionId });
+
+    expect(response.status).toBe(200);
+    expect(await ctx.integration.services.sessionService.isActive(phone.deviceSessionId)).toBe(false);
+    const refresh = await ctx.execute(ctx.routes.auth.refresh, { body: { refresh_token: phone.refreshToken } });
+    expect(refresh.status).toBe(401);
+  });
+
+  it('should require authentication', async () => {
+    const response = await ctx.execute(ctx.routes.sessions.listSessions);
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('AUTH_REQUIRED');
+  });
+});
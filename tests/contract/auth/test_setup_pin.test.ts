@@ -19,7 +19,7 @@ describe('POST /auth/setup-pin Contract Tests', () => {
 
   it('should accept matching 4-digit PINs and complete setup', async () => {
     const response = await ctx.executeAsUser(ctx.routes.auth.setupPin, {
-      body: { pin: '1234', confirm_pin: '1234' },
+      body: { pin: '4826', confirm_pin: '4826' },
     });
 
     expect(response.status).toBe(200);
@@ -32,7 +32,7 @@ describe('POST /auth/setup-pin Contract Tests', () => {
 
   it('should reject mismatched PIN values', async () => {
     const response = await ctx.executeAsUser(ctx.routes.auth.setupPin, {
-      body: { pin: '1234', confirm_pin: '5678' },
+      body: { pin: '4826', confirm_pin: '5678' },
     });
 
     expect(response.status).toBe(400);
@@ -52,9 +52,21 @@ describe('POST /auth/setup-pin Contract Tests', () => {
     });
   });
 
+  it('should reject sequential, repeated and common PINs', async () => {
+    const response = await ctx.executeAsUser(ctx.routes.auth.setupPin, {
+      body: { pin: '1234', confirm_pin: '1234' },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({
+      code: 'WEAK_PIN',
+      reasons: expect.arrayContaining(['Avoid sequential numbers (e.g., 1234)']),
+    });
+  });
+
   it('should require authentication', async () => {
     const response = await ctx.execute(ctx.routes.auth.setupPin, {
-      body: { pin: '1234', confirm_pin: '1234' },
+      body: { pin: '4826', confirm_pin: '4826' },
     });
 
     expect(response.status).toBe(401);
@@ -65,7 +77,7 @@ describe('POST /auth/setup-pin Contract Tests', () => {
 
   it('should require confirm_pin field', async () => {
     const response = await ctx.executeAsUser(ctx.routes.auth.setupPin, {
-      body: { pin: '1234' },
+      body: { pin: '4826' },
     });
 
     expect(response.status).toBe(400);
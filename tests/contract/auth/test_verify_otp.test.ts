@@ -32,9 +32,12 @@ describe('POST /auth/verify-otp Contract Tests', () => {
       requires_pin_setup: true,
     });
     expect(typeof response.body.access_token).toBe('string');
-    expect(response.body.access_token).toContain('access-');
+    expect(response.body.access_token.split('.')).toHaveLength(3);
+    await expect(ctx.integration.services.tokenService.verifyAccessToken(response.body.access_token)).resolves.toMatchObject({
+      userId: ctx.integration.user.id,
+    });
     expect(typeof response.body.refresh_token).toBe('string');
-    expect(response.body.refresh_token).toContain('refresh-');
+    expect(response.body.refresh_token.length).toBeGreaterThanOrEqual(43);
     expect(response.body.user).toMatchObject({
       id: ctx.integration.user.id,
       email: ctx.integration.user.email,
@@ -42,7 +45,7 @@ describe('POST /auth/verify-otp Contract Tests', () => {
   });
 
   it('should return requires_pin_setup=false for users with an existing PIN', async () => {
-    await ctx.integration.helpers.ensurePin('1234');
+    await ctx.integration.helpers.ensurePin('4826');
     const { sessionId, otp } = await createOtpSession();
 
     const response = await ctx.execute(ctx.routes.auth.verifyOtp, {
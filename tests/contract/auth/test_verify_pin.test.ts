@@ -8,6 +8,9 @@
  */
 
 import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { userRecipientKey } from '../../../api/src/models/PaymentIntent';
 import { ContractTestEnvironment, createContractTestEnvironment } from '../helpers/environment';
 
 describe('POST /auth/verify-pin Contract Tests', () => {
@@ -15,12 +18,12 @@ describe('POST /auth/verify-pin Contract Tests', () => {
 
   beforeEach(async () => {
     ctx = await createContractTestEnvironment();
-    await ctx.integration.helpers.ensurePin('1234');
+    await ctx.integration.helpers.ensurePin('4826');
   });
 
   it('should verify correct PIN and return transaction token', async () => {
     const response = await ctx.executeAsUser(ctx.routes.auth.verifyPin, {
-      body: { pin: '1234' },
+      body: { pin: '4826' },
     });
 
     expect(response.status).toBe(200);
@@ -67,9 +70,44 @@ describe('POST /auth/verify-pin Contract Tests', () => {
     });
   });
 
+  it('should bind the token to the payment intent it was issued for', async () => {
+    const recipientUserId = randomUUID();
+    const intent = { type: 'transfer', amount: 20_000, recipient_user_id: recipientUserId };
+    const response = await ctx.executeAsUser(ctx.routes.auth.verifyPin, {
+      body: { pin: '4826', intent },
+    });
+
+    expect(response.status).toBe(200);
+    const { authService } = ctx.integration.services;
+    const boundIntent = { transactionType: 'transfer_out' as const, amount: 20_000, recipientKey: userRecipientKey(recipientUserId) };
+    await expect(authService.validatePinToken(ctx.userId, response.body.token)).resolves.toBe(false);
+    await expect(
+      authService.validatePinToken(ctx.userId, response.body.token, { ...boundIntent, amount: 20_100 }),
+    ).resolves.toBe(false);
+    await expect(authService.consumePinToken(ctx.userId, response.body.token, boundIntent)).resolves.toBe(true);
+    await expect(authService.consumePinToken(ctx.userId, response.body.token, boundIntent)).resolves.toBe(false);
+  });
+
+  it('should validate the payment intent', async () => {
+    const invalidIntents = [
+      { type: 'withdrawal', amount: 20_000 },
+      { type: 'transfer', amount: 0, recipient_user_id: randomUUID() },
+      { type: 'transfer', amount: 20_000 },
+      { type: 'merchant_payment', amount: 20_000, paybill_number: '400200' },
+    ];
+
+    for (const intent of invalidIntents) {
+      const response = await ctx.executeAsUser(ctx.routes.auth.verifyPin, {
+        body: { pin: '4826', intent },
+      });
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ code: 'INVALID_PAYMENT_INTENT' });
+    }
+  });
+
   it('should require authentication', async () => {
     const response = await ctx.execute(ctx.routes.auth.verifyPin, {
-      body: { pin: '1234' },
+      body: { pin: '4826' },
     });
 
     expect(response.status).toBe(401);
@@ -8,6 +8,12 @@ import { createSavingsGoalRoutes } from '../../../api/src/routes/savings-goals';
 import { createRoundUpRuleRoutes } from '../../../api/src/routes/round-up-rules';
 import { createKYCRoutes } from '../../../api/src/routes/kyc';
 import { createTransactionRoutes } from '../../../api/src/routes/transactions';
+import { createFeeRoutes } from '../../../api/src/routes/fees';
+import { createLimitRoutes } from '../../../api/src/routes/limits';
+import { createSessionRoutes } from '../../../api/src/routes/sessions';
+import { createPinRecoveryRoutes } from '../../../api/src/routes/pin-recovery';
+import { createStepUpRoutes } from '../../../api/src/routes/step-up';
+import { createAccountRoutes } from '../../../api/src/routes/account';
 
 export interface RouteInvocationOptions<
   TBody = unknown,
@@ -19,6 +25,8 @@ export interface RouteInvocationOptions<
   query?: TQuery;
   headers?: Record<string, string | undefined>;
   userId?: string;
+  deviceSessionId?: string;
+  ipAddress?: string;
 }
 
 export interface ContractTestEnvironment {
@@ -32,6 +40,12 @@ export interface ContractTestEnvironment {
     roundUp: ReturnType<typeof createRoundUpRuleRoutes>;
     kyc: ReturnType<typeof createKYCRoutes>;
     transactions: ReturnType<typeof createTransactionRoutes>;
+    fees: ReturnType<typeof createFeeRoutes>;
+    limits: ReturnType<typeof createLimitRoutes>;
+    sessions: ReturnType<typeof createSessionRoutes>;
+    pinRecovery: ReturnType<typeof createPinRecoveryRoutes>;
+    stepUp: ReturnType<typeof createStepUpRoutes>;
+    account: ReturnType<typeof createAccountRoutes>;
   };
   execute<TRequest extends HttpRequest = HttpRequest>(
     handler: RouteHandler<TRequest>,
@@ -56,6 +70,8 @@ function buildHttpRequest(
     query: (options.query ?? {}) as Record<string, string | undefined>,
     headers: { ...(options.headers ?? {}) },
     ...(options.userId ? { userId: options.userId } : {}),
+    ...(options.deviceSessionId ? { deviceSessionId: options.deviceSessionId } : {}),
+    ...(options.ipAddress ? { ipAddress: options.ipAddress } : {}),
   };
 }
 
@@ -72,11 +88,16 @@ export async function createContractTestEnvironment(): Promise<ContractTestEnvir
       transactionService: integration.services.transactionService,
       authService: integration.services.authService,
       savingsInvestmentService: integration.services.savingsInvestmentService,
+      feeService: integration.services.feeService,
+      unitOfWork: integration.services.unitOfWork,
     }),
     payments: createPaymentRoutes({
       paymentService: integration.services.paymentService,
+      settlementService: integration.services.settlementService,
       authService: integration.services.authService,
       walletService: integration.services.walletService,
+      feeService: integration.services.feeService,
+      limitService: integration.services.limitService,
       userRepository: integration.repositories.userRepository,
       transactionRepository: integration.repositories.transactionRepository,
       roundUpRuleRepository: integration.repositories.roundUpRuleRepository,
@@ -92,12 +113,32 @@ export async function createContractTestEnvironment(): Promise<ContractTestEnvir
     }),
     kyc: createKYCRoutes({
       kycService: integration.services.kycService,
+      documentUrls: integration.services.documentUrls,
     }),
     transactions: createTransactionRoutes({
       transactionService: integration.services.transactionService,
       categorizationService: integration.services.categorizationService,
       transactionRepository: integration.repositories.transactionRepository,
     }),
+    fees: createFeeRoutes({
+      feeService: integration.services.feeService,
+    }),
+    limits: createLimitRoutes({
+      limitService: integration.services.limitService,
+    }),
+    sessions: createSessionRoutes({
+      sessionService: integration.services.sessionService,
+    }),
+    pinRecovery: createPinRecoveryRoutes({
+      pinRecoveryService: integration.services.pinRecoveryService,
+    }),
+    stepUp: createStepUpRoutes({
+      stepUpService: integration.services.stepUpService,
+    }),
+    account: createAccountRoutes({
+      accountService: integration.services.accountService,
+      authService: integration.services.authService,
+    }),
   };
 
   const executeWithRequest = async <TRequest extends HttpRequest = HttpRequest>(
@@ -20,7 +20,7 @@ interface DocumentSummary {
   uploaded_at: string;
   processed_at: string | null;
   verification_notes: string | null;
-  secure_download_url: string;
+  secure_download_url: string | null;
   expires_in_seconds: number;
   extracted_data: {
     full_name: string | null;
@@ -48,6 +48,18 @@ interface ErrorResponse {
 
 const defaultFile = () => `front_${randomUUID()}.jpg`;
 
+const MAGIC_BYTES: Record<string, number[]> = {
+  'image/jpeg': [0xff, 0xd8, 0xff, 0xe0],
+  'image/png': [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  'application/pdf': [0x25, 0x50, 0x44, 0x46, 0x2d],
+};
+
+const fileContent = (mimeType: string, size: number) => {
+  const content = Buffer.alloc(size);
+  Buffer.from(MAGIC_BYTES[mimeType] ?? []).copy(content);
+  return content;
+};
+
 describe('GET /kyc/documents Contract Tests', () => {
   let ctx: ContractTestEnvironment;
 
@@ -64,19 +76,24 @@ describe('GET /kyc/documents Contract Tests', () => {
     verificationNotes?: string | null;
     extractedData?: ExtractedDataPayload | null;
   }) => {
-    const document = await ctx.integration.services.kycService.uploadDocument({
+    const kycService = ctx.integration.services.kycService;
+    const fileSize = options.fileSize ?? 1_200_000;
+    const mimeType = options.mimeType ?? 'image/jpeg';
+    const document = await kycService.uploadDocument({
       userId: ctx.userId,
       documentType: options.documentType ?? 'national_id',
       filePath: `kyc/${ctx.userId}/${randomUUID()}/${options.fileName ?? defaultFile()}`,
       fileName: options.fileName ?? defaultFile(),
-      fileSize: options.fileSize ?? 1_200_000,
-      mimeType: options.mimeType ?? 'image/jpeg',
-      encrypted: true,
+      fileSize,
+      mimeType,
+      encrypted: false,
       accessHash: randomUUID().replace(/-/g, ''),
     });
 
+    // Anything past uploaded has had its file received, which is what moves it to processing
     if (options.status && options.status !== 'uploaded') {
-      await ctx.integration.services.kycService.updateStatus({
+      await kycService.confirmUpload(document.id, fileContent(mimeType, fileSize));
+      await kycService.updateStatus({
         documentId: document.id,
         status: options.status,
         verificationNotes: options.verificationNotes ?? null,
@@ -84,7 +101,7 @@ describe('GET /kyc/documents Contract Tests', () => {
       });
     }
 
-    return ctx.integration.services.kycService.getDocument(document.id);
+    return kycService.getDocument(document.id);
   };
 
   const listDocuments = (query: Record<string, string | undefined> = {}) =>
@@ -119,8 +136,9 @@ describe('GET /kyc/documents Contract Tests', () => {
 
       const approvedSummary = body.documents.find((doc) => doc.document_id === approved.id)!;
       expect(approvedSummary.status).toBe('approved');
-      expect(approvedSummary.secure_download_url).toMatch(/^https:\/\/storage\.supabase\.io\//);
-      expect(approvedSummary.secure_download_url).toContain('signed=true');
+      expect(approvedSummary.secure_download_url).toMatch(
+        new RegExp(`^https://api\\.zanari\\.test/kyc/documents/${approved.id}/file\\?expires=\\d+&signature=[\\w-]+$`),
+      );
       expect(approvedSummary.expires_in_seconds).toBe(600);
       expect(approvedSummary.extracted_data).toEqual({
         full_name: 'Sarah Wambui',
@@ -135,6 +153,18 @@ describe('GET /kyc/documents Contract Tests', () => {
       expect(selfieSummary.extracted_data).toBeNull();
     });
 
+    it('has no download link until the file itself has been received', async () => {
+      const pending = await seedDocument({ documentType: 'passport' });
+
+      const response = await listDocuments();
+
+      expect(response.status).toBe(200);
+      const body = response.body as ListDocumentsResponse;
+      const summary = body.documents.find((doc) => doc.document_id === pending.id)!;
+      expect(summary.status).toBe('uploaded');
+      expect(summary.secure_download_url).toBeNull();
+    });
+
     it('includes rejection feedback and retry window for rejected documents', async () => {
       const rejected = await seedDocument({
         documentType: 'passport',
@@ -24,6 +24,7 @@ interface UploadInitiatedResponse {
   upload_id: string;
   document_id: string;
   signed_upload_url: string;
+  upload_method: 'PUT';
   upload_headers: Record<string, string>;
   max_bytes: number;
   expires_in_seconds: number;
@@ -44,16 +45,6 @@ interface UploadInitiatedResponse {
   };
 }
 
-interface UploadQueuedResponse {
-  upload_id: string;
-  document_id: string;
-  status: 'processing';
-  queued_at: string;
-  estimated_completion_minutes: number;
-  next_status_check_after_seconds: number;
-  remaining_attempts: number;
-  manual_review_threshold: number;
-}
 
 interface ErrorResponse {
   error: string;
@@ -61,7 +52,7 @@ interface ErrorResponse {
   [key: string]: unknown;
 }
 
-type UploadResponseBody = UploadInitiatedResponse | UploadQueuedResponse | ErrorResponse;
+type UploadResponseBody = UploadInitiatedResponse | ErrorResponse;
 
 const MAX_BYTES = 10_000_000;
 
@@ -110,10 +101,12 @@ describe('POST /kyc/documents Contract Tests', () => {
       expect(body.status).toBe('pending_upload');
   expect(body.upload_id).toMatch(/^upload_national_id_/);
   expect(body.document_id).toMatch(/^[0-9a-f-]{8}-[0-9a-f-]{4}-[0-9a-f-]{4}-[0-9a-f-]{4}-[0-9a-f-]{12}$/);
-      expect(body.signed_upload_url).toMatch(/^https:\/\/storage\.supabase\.io\//);
-      expect(body.signed_upload_url).toContain('token=');
-      expect(body.signed_upload_url).toContain('expires=600');
-      expect(body.upload_headers).toMatchObject({ 'Content-Type': 'image/jpeg', 'x-upsert': 'true' });
+      expect(body.signed_upload_url).toMatch(
+        new RegExp(`^https://api\\.zanari\\.test/kyc/uploads/${body.document_id}\\?expires=\\d+&signature=[\\w-]+$`),
+      );
+      expect(body.upload_method).toBe('PUT');
+      expect(body.upload_headers).toEqual({ 'Content-Type': 'image/jpeg' });
+      expect(body.expires_in_seconds).toBe(600);
       expect(body.encryption_required).toBe(true);
       expect(body.max_bytes).toBe(MAX_BYTES);
   expect(body.remaining_attempts).toBe(2);
@@ -125,7 +118,8 @@ describe('POST /kyc/documents Contract Tests', () => {
         id: body.document_id,
         documentType: 'national_id',
         status: 'uploaded',
-        encrypted: true,
+        encrypted: false,
+        encryptedDataKey: null,
       });
     });
 
@@ -205,7 +199,7 @@ describe('POST /kyc/documents Contract Tests', () => {
   });
 
   describe('Processing Lifecycle', () => {
-    it('queues large or PDF uploads for async processing', async () => {
+    it('keeps large and PDF documents uploaded until the file itself is received', async () => {
       const response = await initiateUpload(
         buildRequest({
           document_type: 'passport',
@@ -215,15 +209,13 @@ describe('POST /kyc/documents Contract Tests', () => {
         }),
       );
 
-      expect(response.status).toBe(202);
-      const body = response.body as UploadQueuedResponse;
-      expect(body.status).toBe('processing');
-      expect(body.estimated_completion_minutes).toBe(90);
-      expect(body.next_status_check_after_seconds).toBe(300);
-      expect(body.remaining_attempts).toBe(2);
+      expect(response.status).toBe(201);
+      const body = response.body as UploadInitiatedResponse;
+      expect(body.status).toBe('pending_upload');
+      expect(body.upload_headers).toEqual({ 'Content-Type': 'application/pdf' });
 
       const stored = await ctx.integration.services.kycService.getDocument(body.document_id);
-      expect(stored.status).toBe('processing');
+      expect(stored.status).toBe('uploaded');
     });
 
     it('captures audit trail metadata when provided', async () => {
@@ -9,6 +9,7 @@
 import { beforeEach, describe, expect, it } from '@jest/globals';
 import { randomUUID } from 'node:crypto';
 
+import { userRecipientKey } from '../../../api/src/models/PaymentIntent';
 import { createUser } from '../../../api/src/models/User';
 import { ContractTestEnvironment, createContractTestEnvironment } from '../helpers/environment';
 
@@ -32,8 +33,14 @@ describe('POST /payments/transfer (External) Contract Tests', () => {
     await ctx.integration.repositories.userRepository.create(recipientUser);
   });
 
-  async function issuePinToken(pin = '1234') {
-    return ctx.integration.helpers.issuePinToken(pin);
+  /** Issues a PIN token bound to a transfer of `amount` to the given user, or an unbound one. */
+  async function issuePinToken(transfer?: { amount: number; recipient_user_id: string }) {
+    const intent = transfer && {
+      transactionType: 'transfer_out' as const,
+      amount: transfer.amount,
+      recipientKey: userRecipientKey(transfer.recipient_user_id),
+    };
+    return ctx.integration.helpers.issuePinToken('4826', intent);
   }
 
   async function transferPeer(
@@ -47,8 +54,8 @@ describe('POST /payments/transfer (External) Contract Tests', () => {
   }
 
   it('should initialize external transfer via M-Pesa', async () => {
-    const pinToken = await issuePinToken();
     const amount = 50_000; // KES 500.00
+    const pinToken = await issuePinToken({ amount, recipient_user_id: recipientId });
 
     const response = await transferPeer({
       amount,
@@ -78,8 +85,8 @@ describe('POST /payments/transfer (External) Contract Tests', () => {
   });
 
   it('should initialize external transfer with round-up', async () => {
-    const pinToken = await issuePinToken();
     const amount = 50_050; // KES 500.50
+    const pinToken = await issuePinToken({ amount, recipient_user_id: recipientId });
 
     const response = await transferPeer({
       amount,
@@ -0,0 +1,80 @@
+/**
+ * Contract Test: GET /fees/schedule
+ *
+ * This test validates the fee schedule endpoint contract.
+ * It ensures that the API publishes its fee bands per transaction type and
+ * payment method, and quotes a single amount when asked.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import { ContractTestEnvironment, createContractTestEnvironment } from '../helpers/environment';
+
+describe('GET /fees/schedule Contract Tests', () => {
+  let ctx: ContractTestEnvironment;
+
+  beforeEach(async () => {
+    ctx = await createContractTestEnvironment();
+  });
+
+  it('should return the fee schedule', async () => {
+    const response = await ctx.executeAsUser(ctx.routes.fees.getSchedule);
+
+    expect(response.status).toBe(200);
+    expect(response.body.quote).toBeNull();
+    expect(Array.isArray(response.body.promotions)).toBe(true);
+
+    const withdrawal = response.body.rules.find(
+      (rule: { transaction_type: string; payment_method: string }) =>
+        rule.transaction_type === 'withdrawal' && rule.payment_method === 'mpesa',
+    );
+    expect(withdrawal.bands).toEqual([
+      { min_amount: 0, max_amount: 10_000, flat_fee: 0, percentage_bps: 0 },
+      { min_amount: 10_001, max_amount: 100_000, flat_fee: 700, percentage_bps: 0 },
+      { min_amount: 100_001, max_amount: null, flat_fee: 1_500, percentage_bps: 0 },
+    ]);
+  });
+
+  it('should quote a fee for an amount', async () => {
+    const response = await ctx.executeAsUser(ctx.routes.fees.getSchedule, {
+      query: { amount: '50000', transaction_type: 'withdrawal', payment_method: 'mpesa' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.quote).toEqual({
+      transaction_type: 'withdrawal',
+      payment_method: 'mpesa',
+      amount: 50_000,
+      fee: 700,
+      standard_fee: 700,
+      total: 50_700,
+      band: { min_amount: 10_001, max_amount: 100_000, flat_fee: 700, percentage_bps: 0 },
+      promotion: null,
+    });
+  });
+
+  it('should reject an incomplete quote request', async () => {
+    const response = await ctx.executeAsUser(ctx.routes.fees.getSchedule, {
+      query: { amount: '50000', transaction_type: 'withdrawal' },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ code: 'INVALID_PAYMENT_METHOD' });
+  });
+
+  it('should reject a malformed amount', async () => {
+    const response = await ctx.executeAsUser(ctx.routes.fees.getSchedule, {
+      query: { amount: '12.5', transaction_type: 'transfer', payment_method: 'card' },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ code: 'INVALID_AMOUNT_FORMAT' });
+  });
+
+  it('should require authentication', async () => {
+    const response = await ctx.execute(ctx.routes.fees.getSchedule);
+
+    expect(response.status).toBe(401);
+    expect(response.body).toMatchObject({ code: 'AUTH_REQUIRED' });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Contract Test: GET /limits
+ *
+ * This test validates the transaction limits endpoint contract.
+ * It ensures that the API reports the user's KYC tier and the headroom left
+ * per transaction type so the app can show it before a payment fails.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createTransaction } from '../../../api/src/models/Transaction';
+import { ContractTestEnvironment, createContractTestEnvironment } from '../helpers/environment';
+
+describe('GET /limits Contract Tests', () => {
+  let ctx: ContractTestEnvironment;
+
+  beforeEach(async () => {
+    ctx = await createContractTestEnvironment();
+  });
+
+  const findLimit = (body: any, transactionType: string) =>
+    body.limits.find((entry: { transaction_type: string }) => entry.transaction_type === transactionType);
+
+  it('should report basic tier headroom for an unverified user', async () => {
+    await ctx.integration.helpers.topUpMainWallet(300_000);
+    await ctx.integration.repositories.transactionRepository.create(
+      createTransaction({
+        id: randomUUID(),
+        userId: ctx.userId,
+        type: 'payment',
+        amount: 1_800_000,
+        category: 'groceries',
+      }),
+    );
+
+    const response = await ctx.executeAsUser(ctx.routes.limits.getLimits);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      tier: 'basic',
+      kyc_status: 'not_started',
+      balance: { limit: 5_000_000, used: 300_000, remaining: 4_700_000 },
+    });
+    expect(findLimit(response.body, 'payment')).toEqual({
+      transaction_type: 'payment',
+      per_transaction: 500_000,
+      daily: { limit: 2_000_000, used: 1_800_000, remaining: 200_000 },
+      monthly: { limit: 5_000_000, used: 1_800_000, remaining: 3_200_000 },
+      available_now: 200_000,
+    });
+    expect(findLimit(response.body, 'transfer_out').available_now).toBe(500_000);
+  });
+
+  it('should report higher limits once KYC is approved', async () => {
+    await ctx.integration.repositories.userRepository.update(ctx.userId, { kycStatus: 'approved', updatedAt: new Date() });
+
+    const response = await ctx.executeAsUser(ctx.routes.limits.getLimits);
+
+    expect(response.status).toBe(200);
+    expect(response.body.tier).toBe('verified');
+    expect(response.body.balance.limit).toBe(50_000_000);
+    expect(findLimit(response.body, 'withdrawal').per_transaction).toBe(15_000_000);
+  });
+
+  it('should require authentication', async () => {
+    const response = await ctx.execute(ctx.routes.limits.getLimits);
+
+    expect(response.status).toBe(401);
+    expect(response.body).toMatchObject({ code: 'AUTH_REQUIRED' });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Contract Test: Idempotency-Key on money-moving POST routes
+ *
+ * A retried request with the same Idempotency-Key and body gets the first response back without
+ * moving money again; reusing a key with a different body is rejected with 422.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import { InMemoryIdempotencyKeyRepository } from '../../../api/src/dev/inMemoryAppContainer';
+import { merchantRecipientKey } from '../../../api/src/models/PaymentIntent';
+import { IdempotencyGuard, createIdempotencyGuard } from '../../../api/src/routes/idempotency';
+import { HttpRequest } from '../../../api/src/routes/types';
+import { ContractTestEnvironment, createContractTestEnvironment } from '../helpers/environment';
+
+describe('Idempotency-Key Contract Tests', () => {
+  let ctx: ContractTestEnvironment;
+  let repository: InMemoryIdempotencyKeyRepository;
+  let idempotent: IdempotencyGuard;
+
+  beforeEach(async () => {
+    ctx = await createContractTestEnvironment();
+    repository = new InMemoryIdempotencyKeyRepository();
+    idempotent = createIdempotencyGuard({ repository });
+    await ctx.integration.helpers.topUpMainWallet(100_000);
+  });
+
+  const payMerchant = async (body: Record<string, unknown>, key?: string) =>
+    ctx.executeAsUser(idempotent('POST /payments/merchant', ctx.routes.payments.payMerchant), {
+      body,
+      headers: key ? { 'idempotency-key': key } : {},
+    });
+
+  const merchantBody = async (amount: number) => ({
+    amount,
+    pin_token: await ctx.integration.helpers.issuePinToken('4826', {
+      transactionType: 'payment',
+      amount,
+      recipientKey: merchantRecipientKey({ tillNumber: '123456' }),
+    }),
+    merchant_info: { name: 'Java House', till_number: '123456' },
+  });
+
+  const payments = async () =>
+    (await ctx.integration.helpers.refreshTransactions()).filter((transaction) => transaction.type === 'payment');
+
+  it('replays the first response when the same request is retried', async () => {
+    const body = await merchantBody(23_450);
+
+    const first = await payMerchant(body, 'idem-retry-1');
+    const retried = await payMerchant(body, 'idem-retry-1');
+
+    expect(first.status).toBe(200);
+    expect(retried.status).toBe(200);
+    expect(retried.body).toEqual(first.body);
+    expect(retried.headers).toEqual({ 'Idempotent-Replayed': 'true' });
+    expect(await payments()).toHaveLength(1);
+    expect((await ctx.integration.helpers.refreshWallet('main')).availableBalance).toBe(100_000 - first.body.total_charged);
+  });
+
+  it('rejects a reused key sent with a different body', async () => {
+    await payMerchant(await merchantBody(23_450), 'idem-reuse');
+
+    const response = await payMerchant(await merchantBody(10_000), 'idem-reuse');
+
+    expect(response.status).toBe(422);
+    expect(response.body).toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' });
+    expect(await payments()).toHaveLength(1);
+  });
+
+  it('treats body field order as the same request', async () => {
+    const body = await merchantBody(5_000);
+    await payMerchant(body, 'idem-order');
+
+    const reordered = await payMerchant(
+      { merchant_info: { till_number: '123456', name: 'Java House' }, pin_token: body.pin_token, amount: 5_000 },
+      'idem-order',
+    );
+
+    expect(reordered.status).toBe(200);
+    expect(await payments()).toHaveLength(1);
+  });
+
+  it('replays client errors but lets server errors be retried', async () => {
+    const rejected = await payMerchant({ amount: 50 }, 'idem-invalid');
+    const rejectedAgain = await payMerchant({ amount: 50 }, 'idem-invalid');
+    expect(rejected.status).toBe(400);
+    expect(rejectedAgain).toMatchObject({ status: 400, body: rejected.body, headers: { 'Idempotent-Replayed': 'true' } });
+
+    let calls = 0;
+    const flaky = idempotent('POST /flaky', async (_request: HttpRequest) => {
+      calls += 1;
+      if (calls === 1) {
+        throw new Error('database unavailable');
+      }
+      return { status: 201, body: { ok: true } };
+    });
+
+    const failed = await ctx.executeAsUser(flaky, { body: {}, headers: { 'idempotency-key': 'idem-flaky' } });
+    const retried = await ctx.executeAsUser(flaky, { body: {}, headers: { 'idempotency-key': 'idem-flaky' } });
+    expect(failed.status).toBe(500);
+    expect(retried).toMatchObject({ status: 201, body: { ok: true } });
+    expect(calls).toBe(2);
+  });
+
+  it('rejects a retry while the first request is still running', async () => {
+    let release: () => void = () => undefined;
+    let markStarted: () => void = () => undefined;
+    const started = new Promise<void>((resolve) => {
+      markStarted = resolve;
+    });
+    const slow = idempotent('POST /slow', async (_request: HttpRequest) => {
+      markStarted();
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      return { status: 200, body: { done: true } };
+    });
+
+    const first = ctx.executeAsUser(slow, { body: {}, headers: { 'idempotency-key': 'idem-slow' } });
+    await started;
+    const concurrent = await ctx.executeAsUser(slow, { body: {}, headers: { 'idempotency-key': 'idem-slow' } });
+    release();
+
+    expect(concurrent.status).toBe(409);
+    expect(concurrent.body).toMatchObject({ code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS' });
+    expect((await first).status).toBe(200);
+  });
+
+  it('leaves requests without a key unprotected', async () => {
+    // PIN tokens are single-use, so each payment gets its own
+    await payMerchant(await merchantBody(5_000));
+    await payMerchant(await merchantBody(5_000));
+
+    expect(await payments()).toHaveLength(2);
+  });
+});
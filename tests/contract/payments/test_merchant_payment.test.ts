@@ -11,6 +11,7 @@
 import { beforeEach, describe, expect, it, jest } from '@jest/globals';
 import { randomUUID } from 'node:crypto';
 
+import { merchantRecipientKey } from '../../../api/src/models/PaymentIntent';
 import { createTransaction } from '../../../api/src/models/Transaction';
 import { ContractTestEnvironment, createContractTestEnvironment } from '../helpers/environment';
 
@@ -22,8 +23,23 @@ describe('POST /payments/merchant Contract Tests', () => {
   await ctx.integration.helpers.setRoundUpIncrement('100');
   });
 
-  async function issuePinToken(pin = '1234') {
-    return ctx.integration.helpers.issuePinToken(pin);
+  /** Issues a PIN token bound to a payment of `amount` to the given merchant, or an unbound one. */
+  async function issuePinToken(merchant?: {
+    amount: number;
+    till_number?: string;
+    paybill_number?: string;
+    account_number?: string;
+  }) {
+    const intent = merchant && {
+      transactionType: 'payment' as const,
+      amount: merchant.amount,
+      recipientKey: merchantRecipientKey({
+        tillNumber: merchant.till_number,
+        paybillNumber: merchant.paybill_number,
+        accountNumber: merchant.account_number,
+      }),
+    };
+    return ctx.integration.helpers.issuePinToken('4826', intent);
   }
 
   async function payMerchant(
@@ -52,7 +68,7 @@ describe('POST /payments/merchant Contract Tests', () => {
     it('should process payment to merchant with till number and round-up', async () => {
       const startingBalance = 100_000;
       await ctx.integration.helpers.topUpMainWallet(startingBalance);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 23_450, till_number: '123456' });
 
       const response = await payMerchant({
         amount: 23_450,
@@ -89,12 +105,12 @@ describe('POST /payments/merchant Contract Tests', () => {
 
     it('should handle payment with round-up satisfying validation rules', async () => {
       await ctx.integration.helpers.topUpMainWallet(20_000);
-      const pinToken = await issuePinToken();
 
       // Amount must be >= roundUpAmount due to Transaction model validation
       // With increment '100' (10000 cents), target is next 10000.
       // If amount = 5000, target = 10000, roundUp = 5000. 5000 <= 5000. OK.
       const amount = 5000;
+      const pinToken = await issuePinToken({ amount, till_number: '654321' });
       const response = await payMerchant({
         amount,
         pin_token: pinToken,
@@ -112,7 +128,7 @@ describe('POST /payments/merchant Contract Tests', () => {
 
     it('should handle maximum single payment amount without round-up', async () => {
       await ctx.integration.helpers.topUpMainWallet(600_000);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 500_000, till_number: '999999' });
 
       const response = await payMerchant({
         amount: 500_000,
@@ -133,7 +149,7 @@ describe('POST /payments/merchant Contract Tests', () => {
   describe('Successful Paybill Payments', () => {
     it('should process payment to paybill with account number', async () => {
       await ctx.integration.helpers.topUpMainWallet(200_000);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 150_000, paybill_number: '400200', account_number: 'ACC001' });
 
       const response = await payMerchant({
         amount: 150_000,
@@ -160,7 +176,7 @@ describe('POST /payments/merchant Contract Tests', () => {
 
   describe('Amount Validation', () => {
     it('should reject payment below minimum amount', async () => {
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 50, till_number: '123456' });
 
       const response = await payMerchant({
         amount: 50,
@@ -174,8 +190,8 @@ describe('POST /payments/merchant Contract Tests', () => {
       expectErrorResponse(response, 400, 'AMOUNT_TOO_LOW');
     });
 
-    it('should reject payment above maximum amount', async () => {
-      const pinToken = await issuePinToken();
+    it('should reject payment above the single transaction limit for the KYC tier', async () => {
+      const pinToken = await issuePinToken({ amount: 600_000, till_number: '123456' });
 
       const response = await payMerchant({
         amount: 600_000,
@@ -185,7 +201,8 @@ describe('POST /payments/merchant Contract Tests', () => {
           till_number: '123456',
         },
       });
-      expectErrorResponse(response, 400, 'AMOUNT_TOO_HIGH');
+      expectErrorResponse(response, 400, 'SINGLE_TRANSACTION_LIMIT_EXCEEDED');
+      expect(response.body).toMatchObject({ tier: 'basic', transaction_limit: 500_000 });
 
     });
 
@@ -333,7 +350,7 @@ describe('POST /payments/merchant Contract Tests', () => {
       await ctx.integration.repositories.transactionRepository.create(existing);
 
       await ctx.integration.helpers.topUpMainWallet(300_000);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 200_000, till_number: '112233' });
 
       const response = await payMerchant({
         amount: 200_000,
@@ -354,7 +371,7 @@ describe('POST /payments/merchant Contract Tests', () => {
   describe('Balance Handling', () => {
     it('should reject payments exceeding available balance', async () => {
       await ctx.integration.helpers.topUpMainWallet(10_000);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 20_000, till_number: '123456' });
 
       const response = await payMerchant({
         amount: 20_000,
@@ -372,7 +389,7 @@ describe('POST /payments/merchant Contract Tests', () => {
 
     it('should skip round-up when funds cover only the payment amount', async () => {
       await ctx.integration.helpers.topUpMainWallet(46_500);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 46_500, till_number: '777777' });
 
       const response = await payMerchant({
         amount: 46_500,
@@ -394,7 +411,7 @@ describe('POST /payments/merchant Contract Tests', () => {
   describe('Paystack Integration', () => {
     it('should handle Paystack service unavailable', async () => {
       await ctx.integration.helpers.topUpMainWallet(80_000);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 50_000, till_number: '123456' });
 
       jest
         .spyOn(ctx.integration.stubs.paystackClient, 'initializeTransaction')
@@ -418,7 +435,7 @@ describe('POST /payments/merchant Contract Tests', () => {
 
     it('should return Paystack metadata in successful response', async () => {
       await ctx.integration.helpers.topUpMainWallet(60_000);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 30_000, till_number: '789012' });
 
       const response = await payMerchant({
         amount: 30_000,
@@ -440,7 +457,7 @@ describe('POST /payments/merchant Contract Tests', () => {
 
   describe('Authentication', () => {
     it('should require authentication header', async () => {
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 10_000, till_number: '445566' });
 
       const response = await payMerchant({
         amount: 10_000,
@@ -458,7 +475,7 @@ describe('POST /payments/merchant Contract Tests', () => {
   describe('Response Schema Validation', () => {
     it('should return response matching OpenAPI schema expectations', async () => {
       await ctx.integration.helpers.topUpMainWallet(80_000);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 23_450, till_number: '888888' });
 
       const response = await payMerchant({
         amount: 23_450,
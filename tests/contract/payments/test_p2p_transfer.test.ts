@@ -11,6 +11,7 @@
 import { beforeEach, describe, expect, it, jest } from '@jest/globals';
 import { randomUUID } from 'node:crypto';
 
+import { userRecipientKey } from '../../../api/src/models/PaymentIntent';
 import { createTransaction } from '../../../api/src/models/Transaction';
 import { createUser } from '../../../api/src/models/User';
 import { createWallet } from '../../../api/src/models/Wallet';
@@ -46,8 +47,14 @@ describe('POST /payments/transfer Contract Tests', () => {
     await ctx.integration.repositories.walletRepository.insert(recipientWallet);
   });
 
-  async function issuePinToken(pin = '1234') {
-    return ctx.integration.helpers.issuePinToken(pin);
+  /** Issues a PIN token bound to a transfer of `amount` to the given user, or an unbound one. */
+  async function issuePinToken(transfer?: { amount: number; recipient_user_id: string }) {
+    const intent = transfer && {
+      transactionType: 'transfer_out' as const,
+      amount: transfer.amount,
+      recipientKey: userRecipientKey(transfer.recipient_user_id),
+    };
+    return ctx.integration.helpers.issuePinToken('4826', intent);
   }
 
   async function transferPeer(
@@ -74,7 +81,7 @@ describe('POST /payments/transfer Contract Tests', () => {
     it('should process internal transfer to another user with round-up', async () => {
       const startingBalance = 150_000;
       await ctx.integration.helpers.topUpMainWallet(startingBalance);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 50_050, recipient_user_id: recipientId });
 
       const response = await transferPeer({
         amount: 50_050,
@@ -106,7 +113,7 @@ describe('POST /payments/transfer Contract Tests', () => {
 
     it('should handle transfer with no round-up when amount is already rounded', async () => {
       await ctx.integration.helpers.topUpMainWallet(120_000);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 100_000, recipient_user_id: recipientId });
 
       const response = await transferPeer({
         amount: 100_000,
@@ -124,7 +131,7 @@ describe('POST /payments/transfer Contract Tests', () => {
 
   describe('Amount validation', () => {
     it('should reject transfer below minimum amount', async () => {
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 50, recipient_user_id: recipientId });
       const response = await transferPeer({
         amount: 50,
         pin_token: pinToken,
@@ -134,15 +141,15 @@ describe('POST /payments/transfer Contract Tests', () => {
       expectErrorResponse(response, 400, 'AMOUNT_TOO_LOW');
     });
 
-    it('should reject transfer above maximum amount', async () => {
-      const pinToken = await issuePinToken();
+    it('should reject transfer above the single transaction limit for the KYC tier', async () => {
+      const pinToken = await issuePinToken({ amount: 600_000, recipient_user_id: recipientId });
       const response = await transferPeer({
         amount: 600_000,
         pin_token: pinToken,
         recipient_user_id: recipientId,
       });
 
-      expectErrorResponse(response, 400, 'AMOUNT_TOO_HIGH');
+      expectErrorResponse(response, 400, 'SINGLE_TRANSACTION_LIMIT_EXCEEDED');
     });
 
     it('should enforce integer amount format', async () => {
@@ -176,7 +183,7 @@ describe('POST /payments/transfer Contract Tests', () => {
       await ctx.integration.repositories.transactionRepository.create(existing);
 
       await ctx.integration.helpers.topUpMainWallet(400_000);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 200_000, recipient_user_id: recipientId });
 
       const response = await transferPeer({
         amount: 200_000,
@@ -256,12 +263,60 @@ describe('POST /payments/transfer Contract Tests', () => {
 
       expectErrorResponse(response, 401, 'PIN_TOKEN_EXPIRED');
     });
+
+    it('should reject a PIN token issued without a payment intent', async () => {
+      await ctx.integration.helpers.topUpMainWallet(60_000);
+      const pinToken = await issuePinToken();
+
+      const response = await transferPeer({
+        amount: 20_000,
+        pin_token: pinToken,
+        recipient_user_id: recipientId,
+      });
+
+      expectErrorResponse(response, 401, 'PIN_TOKEN_EXPIRED');
+    });
+
+    it('should reject a PIN token bound to a different amount or recipient', async () => {
+      await ctx.integration.helpers.topUpMainWallet(60_000);
+      const otherRecipientId = randomUUID();
+      const pinToken = await issuePinToken({ amount: 20_000, recipient_user_id: otherRecipientId });
+      const recipientToken = await issuePinToken({ amount: 20_000, recipient_user_id: recipientId });
+
+      const wrongRecipient = await transferPeer({
+        amount: 20_000,
+        pin_token: pinToken,
+        recipient_user_id: recipientId,
+      });
+      const wrongAmount = await transferPeer({
+        amount: 50_000,
+        pin_token: recipientToken,
+        recipient_user_id: recipientId,
+      });
+
+      expectErrorResponse(wrongRecipient, 401, 'PIN_TOKEN_EXPIRED');
+      expectErrorResponse(wrongAmount, 401, 'PIN_TOKEN_EXPIRED');
+      const wallet = await ctx.integration.helpers.refreshWallet('main');
+      expect(wallet.availableBalance).toBe(60_000);
+    });
+
+    it('should accept a PIN token only once', async () => {
+      await ctx.integration.helpers.topUpMainWallet(60_000);
+      const pinToken = await issuePinToken({ amount: 20_000, recipient_user_id: recipientId });
+      const body = { amount: 20_000, pin_token: pinToken, recipient_user_id: recipientId };
+
+      const first = await transferPeer(body);
+      const second = await transferPeer(body);
+
+      expect(first.status).toBe(200);
+      expectErrorResponse(second, 401, 'PIN_TOKEN_EXPIRED');
+    });
   });
 
   describe('Balance handling', () => {
     it('should reject transfers exceeding available balance', async () => {
       await ctx.integration.helpers.topUpMainWallet(10_000);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 20_000, recipient_user_id: recipientId });
 
       const response = await transferPeer({
         amount: 20_000,
@@ -276,7 +331,7 @@ describe('POST /payments/transfer Contract Tests', () => {
 
     it('should skip round-up when funds cover only the transfer amount', async () => {
       await ctx.integration.helpers.topUpMainWallet(49_950);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 49_950, recipient_user_id: recipientId });
 
       const response = await transferPeer({
         amount: 49_950,
@@ -293,7 +348,7 @@ describe('POST /payments/transfer Contract Tests', () => {
 
   describe('Authentication', () => {
     it('should require authentication', async () => {
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 20_000, recipient_user_id: recipientId });
       const response = await transferPeer({
         amount: 20_000,
         pin_token: pinToken,
@@ -307,7 +362,7 @@ describe('POST /payments/transfer Contract Tests', () => {
   describe('Response schema validation', () => {
     it('should return response matching contract expectations', async () => {
       await ctx.integration.helpers.topUpMainWallet(120_000);
-      const pinToken = await issuePinToken();
+      const pinToken = await issuePinToken({ amount: 50_050, recipient_user_id: recipientId });
 
       const response = await transferPeer({
         amount: 50_050,
@@ -0,0 +1,155 @@
+/**
+ * Contract Test: Step-up verification
+ *
+ * POST /payments/transfer answering 403 STEP_UP_REQUIRED, POST /auth/step-up/:challengeId/otp
+ * and /verify, and the retry with step_up_challenge_id.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { userRecipientKey } from '../../../api/src/models/PaymentIntent';
+import { createUser } from '../../../api/src/models/User';
+import { createWallet } from '../../../api/src/models/Wallet';
+import { createPaymentRoutes } from '../../../api/src/routes/payments';
+import { PaymentService } from '../../../api/src/services/PaymentService';
+import { ContractTestEnvironment, createContractTestEnvironment } from '../helpers/environment';
+
+describe('Step-up Contract Tests', () => {
+  let ctx: ContractTestEnvironment;
+  let payments: ReturnType<typeof createPaymentRoutes>;
+  let recipientId: string;
+  let deviceSessionId: string;
+
+  beforeEach(async () => {
+    ctx = await createContractTestEnvironment();
+    const { services, repositories, stubs } = ctx.integration;
+    deviceSessionId = randomUUID();
+
+    const paymentService = new PaymentService({
+      transactionService: services.transactionService,
+      transactionRepository: repositories.transactionRepository,
+      walletService: services.walletService,
+      paystackClient: stubs.paystackClient,
+      roundUpRuleRepository: repositories.roundUpRuleRepository,
+      retryQueue: stubs.retryQueue,
+      unitOfWork: services.unitOfWork,
+      stepUpService: services.stepUpService,
+      stepUpPolicy: { amountThreshold: 1_000_000, newRecipients: true },
+    });
+    payments = createPaymentRoutes({
+      paymentService,
+      settlementService: services.settlementService,
+      authService: services.authService,
+      walletService: services.walletService,
+      feeService: services.feeService,
+      limitService: services.limitService,
+      userRepository: repositories.userRepository,
+      transactionRepository: repositories.transactionRepository,
+      roundUpRuleRepository: repositories.roundUpRuleRepository,
+    });
+
+    recipientId = randomUUID();
+    await repositories.userRepository.create(
+      createUser({
+        id: recipientId,
+        email: 'recipient@zanari.app',
+        phone: '254711223344',
+        firstName: 'John',
+        lastName: 'Doe',
+      }),
+    );
+    await repositories.walletRepository.insert(
+      createWallet({ id: randomUUID(), userId: recipientId, walletType: 'main', balance: 0, availableBalance: 0 }),
+    );
+    await ctx.integration.helpers.topUpMainWallet(50_000);
+  });
+
+  const issuePinToken = () =>
+    ctx.integration.helpers.issuePinToken('4826', {
+      transactionType: 'transfer_out',
+      amount: 10_000,
+      recipientKey: userRecipientKey(recipientId),
+    });
+
+  const transfer = (body: Record<string, unknown>) =>
+    ctx.executeAsUser(payments.transferPeer, {
+      body: { amount: 10_000, recipient_user_id: recipientId, ...body },
+      deviceSessionId,
+    });
+
+  it('should answer 403 STEP_UP_REQUIRED with the challenge for a new recipient', async () => {
+    const pinToken = await issuePinToken();
+
+    const response = await transfer({ pin_token: pinToken });
+
+    expect(response.status).toBe(403);
+    expect(response.body).toEqual({
+      error: 'Additional verification required',
+      code: 'STEP_UP_REQUIRED',
+      challenge_id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      reasons: ['new_recipient'],
+      methods: ['otp'],
+      expires_at: expect.any(String),
+    });
+    const mainWallet = await ctx.integration.helpers.refreshWallet('main');
+    expect(mainWallet.availableBalance).toBe(50_000);
+  });
+
+  it('should complete the transfer when retried with a verified challenge', async () => {
+    const pinToken = await issuePinToken();
+    const required = await transfer({ pin_token: pinToken });
+    const challengeId = required.body.challenge_id;
+
+    const sent = await ctx.executeAsUser(ctx.routes.stepUp.sendOtp, { params: { challengeId } });
+    expect(sent.status).toBe(200);
+    expect(sent.body).toEqual({ message: expect.any(String), delivery_channel: 'sms' });
+
+    const verified = await ctx.executeAsUser(ctx.routes.stepUp.verify, {
+      params: { challengeId },
+      body: { method: 'otp', otp_code: ctx.integration.stubs.otpSender.lastSmsOtp!.otp },
+    });
+    expect(verified.status).toBe(200);
+    expect(verified.body).toMatchObject({ challenge_id: challengeId, status: 'verified', verified_method: 'otp' });
+
+    const response = await transfer({ pin_token: pinToken, step_up_challenge_id: challengeId });
+    expect(response.status).toBe(200);
+    expect(response.body.status).toBe('completed');
+  });
+
+  it('should reject a retry whose challenge is not verified', async () => {
+    const pinToken = await issuePinToken();
+    const required = await transfer({ pin_token: pinToken });
+
+    const response = await transfer({ pin_token: pinToken, step_up_challenge_id: required.body.challenge_id });
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('STEP_UP_NOT_VERIFIED');
+  });
+
+  it('should reject biometric verification when the challenge needs an OTP', async () => {
+    const required = await transfer({ pin_token: await issuePinToken() });
+
+    const response = await ctx.executeAsUser(ctx.routes.stepUp.verify, {
+      params: { challengeId: required.body.challenge_id },
+      body: { method: 'biometric' },
+      deviceSessionId,
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ code: 'STEP_UP_METHOD_NOT_ALLOWED', methods: ['otp'] });
+  });
+
+  it('should return 404 for an unknown challenge', async () => {
+    const response = await ctx.executeAsUser(ctx.routes.stepUp.sendOtp, { params: { challengeId: randomUUID() } });
+
+    expect(response.status).toBe(404);
+    expect(response.body.code).toBe('STEP_UP_NOT_FOUND');
+  });
+
+  it('should require authentication', async () => {
+    const response = await ctx.execute(ctx.routes.stepUp.sendOtp, { params: { challengeId: randomUUID() } });
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -13,7 +13,7 @@ describe('POST /payments/topup Contract Tests', () => {
     ctx = await createContractTestEnvironment();
   });
 
-  async function issuePinToken(pin = '1234') {
+  async function issuePinToken(pin = '4826') {
     return ctx.integration.helpers.issuePinToken(pin);
   }
 
@@ -19,7 +19,7 @@ describe('POST /wallets/{walletId}/withdraw Contract Tests', () => {
     mainWalletId = ctx.integration.mainWallet.id;
   });
 
-  async function createPinToken(pin = '1234') {
+  async function createPinToken(pin = '4826') {
     return ctx.integration.helpers.issuePinToken(pin);
   }
 
@@ -36,9 +36,10 @@ describe('POST /wallets/{walletId}/withdraw Contract Tests', () => {
     expect(response.body.transaction_id).toMatch(/^[a-f0-9-]{36}$/);
     expect(typeof response.body.settlement_delay_minutes).toBe('number');
     expect(typeof response.body.estimated_completion).toBe('string');
+    expect(response.body).toMatchObject({ amount: 50_000, fee: 700 });
 
     const wallet = await ctx.integration.helpers.refreshWallet('main');
-    expect(wallet.availableBalance).toBe(50_000);
+    expect(wallet.availableBalance).toBe(100_000 - 50_000 - 700);
   });
 
   it('should reject withdrawal below minimum amount', async () => {
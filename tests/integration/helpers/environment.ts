@@ -1,20 +1,29 @@
-import { randomUUID, createHash } from 'node:crypto';
+import { randomBytes, randomUUID, createHash } from 'node:crypto';
 import { AuthService } from '../../../api/src/services/AuthService';
 import { WalletService } from '../../../api/src/services/WalletService';
 import { TransactionService } from '../../../api/src/services/TransactionService';
 import { PaymentService } from '../../../api/src/services/PaymentService';
+import { PaymentSettlementService } from '../../../api/src/services/PaymentSettlementService';
+import { RefundService } from '../../../api/src/services/RefundService';
+import { LedgerService } from '../../../api/src/services/LedgerService';
+import { FeeService } from '../../../api/src/services/FeeService';
+import { LimitService } from '../../../api/src/services/LimitService';
+import { BufferedUnitOfWork } from '../../../api/src/services/UnitOfWork';
 import { SavingsGoalService } from '../../../api/src/services/SavingsGoalService';
 import { AutoAnalyzeService } from '../../../api/src/services/AutoAnalyzeService';
 import { CategorizationService } from '../../../api/src/services/CategorizationService';
 import { KYCService } from '../../../api/src/services/KYCService';
-import { createUser, User } from '../../../api/src/models/User';
+import { KYCDocumentVault } from '../../../api/src/services/KYCDocumentVault';
+import { SignedDocumentUrls } from '../../../api/src/services/SignedDocumentUrls';
+import { ComplianceHold, createUser, setComplianceHold, User } from '../../../api/src/models/User';
 import { createWallet, Wallet } from '../../../api/src/models/Wallet';
 import { createRoundUpRule, RoundUpRule } from '../../../api/src/models/RoundUpRule';
 import { createSavingsGoal, SavingsGoal } from '../../../api/src/models/SavingsGoal';
-import { createKYCDocument, KYCDocument } from '../../../api/src/models/KYCDocument';
+import { createKYCDocument, KYCDocument, KYCDocumentStatus, KYCDocumentType } from '../../../api/src/models/KYCDocument';
 import { AuthSession } from '../../../api/src/models/AuthSession';
-import { Transaction } from '../../../api/src/models/Transaction';
-import { UUID } from '../../../api/src/models/base';
+import { PaymentIntent } from '../../../api/src/models/PaymentIntent';
+import { Transaction, TransactionStatus, TransactionType } from '../../../api/src/models/Transaction';
+import { ConcurrencyError, UUID } from '../../../api/src/models/base';
 import { createDefaultPreference, SavingsInvestmentPreference } from '../../../api/src/models/SavingsInvestmentPreference';
 import { createSavingsInvestmentPosition, SavingsInvestmentPosition } from '../../../api/src/models/SavingsInvestmentPosition';
 import {
@@ -26,14 +35,13 @@ import {
   PinHasher,
   PinTokenService,
   RateLimiter,
-  RetryQueue,
   SavingsGoalRepository,
   RoundUpRuleRepository,
   KYCDocumentRepository,
   SavingsInvestmentPreferenceRepository,
   SavingsInvestmentPositionRepository,
-  TokenService,
   TransactionClassificationInput,
+  TransactionCursor,
   TransactionRepository,
   UserRepository,
   WalletRepository,
@@ -42,6 +50,34 @@ import {
 import { RegistrationService } from '../../../api/src/services/RegistrationService';
 import { InMemoryIdentityProvider } from '../../../api/src/services/IdentityProvider';
 import { SavingsInvestmentService } from '../../../api/src/services/SavingsInvestmentService';
+import { SignedTokenService } from '../../../api/src/services/SignedTokenService';
+import { SessionService } from '../../../api/src/services/SessionService';
+import { PinRecoveryService } from '../../../api/src/services/PinRecoveryService';
+import { AccountService } from '../../../api/src/services/AccountService';
+import { AdminService } from '../../../api/src/services/AdminService';
+import { AmlMonitoringService } from '../../../api/src/services/AmlMonitoringService';
+import { StepUpService } from '../../../api/src/services/StepUpService';
+import { ScreeningService } from '../../../api/src/services/ScreeningService';
+import { WatchlistEntry } from '../../../api/src/models/Watchlist';
+import {
+  InMemoryDeviceSessionRepository,
+  InMemoryFundHoldRepository,
+  InMemoryLedgerRepository,
+  InMemoryPinRecoveryRepository,
+  InMemoryAccountClosureRepository,
+  InMemoryAdminAuditLogRepository,
+  InMemoryAmlAlertRepository,
+  InMemoryAmlScanCursorRepository,
+  InMemoryDocumentStorage,
+  InMemoryKYCReviewCaseRepository,
+  InMemoryKYCUploadAttemptRepository,
+  InMemoryRefreshTokenRepository,
+  InMemoryUnitOfWorkCommitter,
+  InMemoryRetryQueue,
+  InMemoryScreeningCaseRepository,
+  InMemoryStepUpChallengeRepository,
+  InMemoryWebhookEventRepository,
+} from '../../../api/src/dev/inMemoryAppContainer';
 
 interface CloneOptions<T> {
   transform?: (value: T) => T;
@@ -59,6 +95,7 @@ function cloneUser(user: User): User {
     kycApprovedAt: cloneDate(user.kycApprovedAt),
     pinSetAt: cloneDate(user.pinSetAt),
     lastFailedAttemptAt: cloneDate(user.lastFailedAttemptAt),
+    transfersFrozenUntil: cloneDate(user.transfersFrozenUntil),
     notificationPreferences: { ...user.notificationPreferences },
   };
 }
@@ -184,6 +221,24 @@ class InMemoryUserRepository implements UserRepository {
     return cloneUser(merged);
   }
 
+  async setComplianceHold(userId: UUID, hold: ComplianceHold, held: boolean, now: Date): Promise<User | null> {
+    const existing = this.users.get(userId);
+    if (!existing) {
+      return null;
+    }
+    const updated: User = cloneUser({ ...existing, complianceHolds: setComplianceHold(existing, hold, held), updatedAt: now });
+    this.users.set(userId, updated);
+    return cloneUser(updated);
+  }
+
+  async search(query: string, options: { limit: number }): Promise<User[]> {
+    const term = query.toLowerCase();
+    return [...this.users.values()]
+      .filter((user) => [user.email, user.phone, user.firstName, user.lastName].some((value) => value?.toLowerCase().includes(term)))
+      .slice(0, options.limit)
+      .map(cloneUser);
+  }
+
   list(): User[] {
     return [...this.users.values()].map(cloneUser);
   }
@@ -217,10 +272,22 @@ class InMemoryWalletRepository implements WalletRepository {
   }
 
   async save(wallet: Wallet): Promise<Wallet> {
-    const copy = cloneWallet(wallet);
+    const existing = this.wallets.get(wallet.id);
+    if (existing && existing.version !== wallet.version) {
+      throw new ConcurrencyError(`Wallet ${wallet.id} changed since version ${wallet.version} was read`);
+    }
+    const copy = cloneWallet({ ...wallet, version: wallet.version + 1 });
     this.wallets.set(copy.id, copy);
     return cloneWallet(copy);
   }
+
+  versionOf(walletId: UUID): number | null {
+    return this.wallets.get(walletId)?.version ?? null;
+  }
+
+  upsert(wallet: Wallet): void {
+    this.wallets.set(wallet.id, cloneWallet(wallet));
+  }
 }
 
 class InMemoryTransactionRepository implements TransactionRepository {
@@ -238,14 +305,41 @@ class InMemoryTransactionRepository implements TransactionRepository {
     return cloneTransaction(copy);
   }
 
-  async sumUserTransactionsForDay(userId: UUID, dayStart: Date): Promise<number> {
-    let sum = 0;
+  async recordRetry(transactionId: UUID, retry: { lastRetryAt: Date; nextRetryAt: Date | null }): Promise<Transaction | null> {
+    const stored = this.transactions.get(transactionId);
+    if (!stored) {
+      return null;
+    }
+    stored.retry = {
+      retryCount: stored.retry.retryCount + 1,
+      lastRetryAt: cloneDate(retry.lastRetryAt),
+      nextRetryAt: cloneDate(retry.nextRetryAt),
+    };
+    stored.updatedAt = cloneDate(retry.lastRetryAt)!;
+    return cloneTransaction(stored);
+  }
+
+  upsert(transaction: Transaction): void {
+    this.transactions.set(transaction.id, cloneTransaction(transaction));
+  }
+
+  statusOf(transactionId: UUID): TransactionStatus | null {
+    return this.transactions.get(transactionId)?.status ?? null;
+  }
+
+  async sumUserTransactionsByType(userId: UUID, since: Date): Promise<Partial<Record<TransactionType, number>>> {
+    const totals: Partial<Record<TransactionType, number>> = {};
     for (const transaction of this.transactions.values()) {
-      if (transaction.userId === userId && transaction.createdAt >= dayStart) {
-        sum += transaction.amount;
+      if (
+        transaction.userId === userId &&
+        transaction.createdAt >= since &&
+        transaction.status !== 'failed' &&
+        transaction.status !== 'cancelled'
+      ) {
+        totals[transaction.type] = (totals[transaction.type] ?? 0) + transaction.amount;
       }
     }
-    return sum;
+    return totals;
   }
 
   async listRecentTransactions(userId: UUID, since: Date): Promise<Transaction[]> {
@@ -296,6 +390,51 @@ class InMemoryTransactionRepository implements TransactionRepository {
     }
     return null;
   }
+
+  async findByExternalTransactionId(externalTransactionId: string): Promise<Transaction | null> {
+    for (const transaction of this.transactions.values()) {
+      if (transaction.externalTransactionId === externalTransactionId) {
+        return cloneTransaction(transaction);
+      }
+    }
+    return null;
+  }
+
+  async listPendingCreatedBefore(
+    cutoff: Date,
+    options: { types: TransactionType[]; limit: number },
+  ): Promise<Transaction[]> {
+    return [...this.transactions.values()]
+      .filter(
+        (transaction) =>
+          transaction.status === 'pending' &&
+          options.types.includes(transaction.type) &&
+          transaction.createdAt.getTime() <= cutoff.getTime(),
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, options.limit)
+      .map(cloneTransaction);
+  }
+
+  async listCompletedAfter(cursor: TransactionCursor, options: { limit: number }): Promise<Transaction[]> {
+    const byPosition = (a: TransactionCursor, b: TransactionCursor) =>
+      a.updatedAt.getTime() - b.updatedAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+    return [...this.transactions.values()]
+      .filter((transaction) => transaction.status === 'completed' && byPosition(transaction, cursor) > 0)
+      .sort(byPosition)
+      .slice(0, options.limit)
+      .map(cloneTransaction);
+  }
+
+  async listCompletedByUser(userId: UUID, since: Date): Promise<Transaction[]> {
+    return [...this.transactions.values()]
+      .filter(
+        (transaction) =>
+          transaction.userId === userId && transaction.status === 'completed' && transaction.createdAt.getTime() >= since.getTime(),
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(cloneTransaction);
+  }
 }
 
 class InMemorySavingsGoalRepository implements SavingsGoalRepository {
@@ -410,12 +549,14 @@ class InMemoryKYCDocumentRepository implements KYCDocumentRepository {
   }
 
   async findByUserAndType(userId: UUID, type: KYCDocument['documentType']): Promise<KYCDocument | null> {
-    for (const document of this.documents.values()) {
-      if (document.userId === userId && document.documentType === type) {
-        return cloneDocument(document);
-      }
-    }
-    return null;
+    // Insertion order breaks ties between documents created in the same millisecond
+    const latest = [...this.documents.values()]
+      .filter((document) => document.userId === userId && document.documentType === type)
+      .reduce<KYCDocument | null>(
+        (current, document) => (!current || document.createdAt.getTime() >= current.createdAt.getTime() ? document : current),
+        null,
+      );
+    return latest ? cloneDocument(latest) : null;
   }
 
   async findById(documentId: UUID): Promise<KYCDocument | null> {
@@ -426,6 +567,26 @@ class InMemoryKYCDocumentRepository implements KYCDocumentRepository {
   async listByUser(userId: UUID): Promise<KYCDocument[]> {
     return [...this.documents.values()].filter((document) => document.userId === userId).map(cloneDocument);
   }
+
+  async listByStatus(
+    statuses: KYCDocumentStatus[],
+    options: { documentType?: KYCDocumentType; limit: number; offset: number },
+  ): Promise<KYCDocument[]> {
+    return [...this.documents.values()]
+      .filter((document) => statuses.includes(document.status))
+      .filter((document) => !options.documentType || document.documentType === options.documentType)
+      .sort((a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime())
+      .slice(options.offset, options.offset + options.limit)
+      .map(cloneDocument);
+  }
+
+  async listApprovedExpiringBefore(cutoff: Date, options: { limit: number }): Promise<KYCDocument[]> {
+    return [...this.documents.values()]
+      .filter((document) => document.status === 'approved' && document.expiresAt && document.expiresAt.getTime() < cutoff.getTime())
+      .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime())
+      .slice(0, options.limit)
+      .map(cloneDocument);
+  }
 }
 
 class InMemoryAuthSessionRepository implements AuthSessionRepository {
@@ -466,20 +627,6 @@ class TestOtpSender implements OtpSender {
   }
 }
 
-class TestTokenService implements TokenService {
-  async issueAccessToken(user: User): Promise<string> {
-    return `access-${user.id}-${Date.now()}`;
-  }
-
-  async issueRefreshToken(user: User): Promise<string> {
-    return `refresh-${user.id}-${Date.now()}`;
-  }
-
-  async revokeRefreshToken(): Promise<void> {
-    // noop
-  }
-}
-
 class TestPinHasher implements PinHasher {
   async hash(pin: string): Promise<string> {
     return createHash('sha256').update(`test-salt-${pin}`).digest('hex');
@@ -489,28 +636,42 @@ class TestPinHasher implements PinHasher {
     const expected = await this.hash(pin);
     return hash === expected;
   }
+
+  needsRehash(): boolean {
+    return false;
+  }
 }
 
 interface PinTokenRecord {
   userId: UUID;
+  intentHash: string | null;
   expiresAt: Date;
 }
 
 class TestPinTokenService implements PinTokenService {
   private readonly tokens = new Map<string, PinTokenRecord>();
 
-  async issue(userId: UUID, token: string, ttlSeconds: number): Promise<void> {
-    this.tokens.set(token, { userId, expiresAt: new Date(Date.now() + ttlSeconds * 1000) });
+  async issue(userId: UUID, token: string, ttlSeconds: number, intentHash: string | null = null): Promise<void> {
+    this.tokens.set(token, { userId, intentHash, expiresAt: new Date(Date.now() + ttlSeconds * 1000) });
   }
 
-  async validate(userId: UUID, token: string): Promise<boolean> {
+  async validate(userId: UUID, token: string, intentHash: string | null = null): Promise<boolean> {
     const record = this.tokens.get(token);
     if (!record) return false;
     if (record.userId !== userId) return false;
+    if (record.intentHash !== intentHash) return false;
     if (record.expiresAt.getTime() < Date.now()) return false;
     return true;
   }
 
+  async consume(userId: UUID, token: string, intentHash: string | null = null): Promise<boolean> {
+    const valid = await this.validate(userId, token, intentHash);
+    if (valid) {
+      this.tokens.delete(token);
+    }
+    return valid;
+  }
+
   async invalidate(token: string): Promise<void> {
     this.tokens.delete(token);
   }
@@ -550,6 +711,11 @@ class TestPaystackClient implements PaystackClient {
     email?: string;
   }> = [];
   private recipientDirectory = new Map<string, { phone?: string; email?: string; name?: string }>();
+  /** Outcomes reported by verifyTransaction / verifyTransfer per reference; defaults to success. */
+  public chargeOutcomes = new Map<string, 'success' | 'failed' | 'abandoned'>();
+  public transferOutcomes = new Map<string, 'success' | 'failed' | 'pending' | 'reversed'>();
+  /** References whose transfer initiation Paystack rejects. */
+  public rejectedTransfers = new Set<string>();
 
   async initializeTransaction(payload: {
     email: string;
@@ -602,7 +768,7 @@ class TestPaystackClient implements PaystackClient {
   }> {
     const charge = this.charges.find((item) => item.reference === reference);
     return {
-      status: 'success',
+      status: this.chargeOutcomes.get(reference) ?? 'success',
       amount: charge?.amount ?? 0,
       currency: charge?.currency ?? 'KES',
       paidAt: new Date(),
@@ -677,7 +843,7 @@ class TestPaystackClient implements PaystackClient {
     });
 
     return {
-      status: 'success',
+      status: this.rejectedTransfers.has(payload.reference) ? 'failed' : 'success',
       transferCode: `TRF_${payload.reference}`,
       reference: payload.reference,
       raw: {
@@ -693,7 +859,7 @@ class TestPaystackClient implements PaystackClient {
     raw: Record<string, unknown>;
   }> {
     return {
-      status: 'success',
+      status: this.transferOutcomes.get(reference) ?? 'success',
       transferCode: `TRF_${reference}`,
       raw: { reference },
     };
@@ -713,20 +879,6 @@ class TestNotificationService implements NotificationService {
   }
 }
 
-interface RetryJob {
-  id: string;
-  runAt: Date;
-  payload: Record<string, unknown>;
-}
-
-class TestRetryQueue implements RetryQueue {
-  public jobs: RetryJob[] = [];
-
-  async enqueue(job: RetryJob): Promise<void> {
-    this.jobs.push({ ...job, runAt: new Date(job.runAt.getTime()) });
-  }
-}
-
 export interface IntegrationTestEnvironment {
   user: User;
   mainWallet: Wallet;
@@ -739,38 +891,69 @@ export interface IntegrationTestEnvironment {
     savingsGoalRepository: InMemorySavingsGoalRepository;
     roundUpRuleRepository: InMemoryRoundUpRuleRepository;
     kycDocumentRepository: InMemoryKYCDocumentRepository;
+    kycUploadAttemptRepository: InMemoryKYCUploadAttemptRepository;
+    kycReviewCaseRepository: InMemoryKYCReviewCaseRepository;
+    screeningCaseRepository: InMemoryScreeningCaseRepository;
+    amlAlertRepository: InMemoryAmlAlertRepository;
+    amlScanCursorRepository: InMemoryAmlScanCursorRepository;
     authSessionRepository: InMemoryAuthSessionRepository;
     savingsInvestmentPreferenceRepository: InMemorySavingsInvestmentPreferenceRepository;
     savingsInvestmentPositionRepository: InMemorySavingsInvestmentPositionRepository;
+    webhookEventRepository: InMemoryWebhookEventRepository;
+    ledgerRepository: InMemoryLedgerRepository;
+    fundHoldRepository: InMemoryFundHoldRepository;
+    refreshTokenRepository: InMemoryRefreshTokenRepository;
+    deviceSessionRepository: InMemoryDeviceSessionRepository;
+    pinRecoveryRepository: InMemoryPinRecoveryRepository;
+    stepUpChallengeRepository: InMemoryStepUpChallengeRepository;
+    accountClosureRepository: InMemoryAccountClosureRepository;
+    adminAuditLogRepository: InMemoryAdminAuditLogRepository;
   };
   services: {
     authService: AuthService;
+    tokenService: SignedTokenService;
+    sessionService: SessionService;
+    pinRecoveryService: PinRecoveryService;
+    stepUpService: StepUpService;
     registrationService: RegistrationService;
+    ledgerService: LedgerService;
+    unitOfWork: BufferedUnitOfWork;
     walletService: WalletService;
     transactionService: TransactionService;
     paymentService: PaymentService;
+    settlementService: PaymentSettlementService;
+    refundService: RefundService;
     savingsGoalService: SavingsGoalService;
     autoAnalyzeService: AutoAnalyzeService;
     categorizationService: CategorizationService;
     kycService: KYCService;
+    documentVault: KYCDocumentVault;
+    documentUrls: SignedDocumentUrls;
+    screeningService: ScreeningService;
+    amlMonitoringService: AmlMonitoringService;
     savingsInvestmentService: SavingsInvestmentService;
+    feeService: FeeService;
+    limitService: LimitService;
+    accountService: AccountService;
+    adminService: AdminService;
   };
   stubs: {
     otpSender: TestOtpSender;
-    tokenService: TestTokenService;
     pinHasher: TestPinHasher;
     pinTokenService: TestPinTokenService;
     rateLimiter: AllowAllRateLimiter;
     paystackClient: TestPaystackClient;
     notificationService: TestNotificationService;
-    retryQueue: TestRetryQueue;
+    retryQueue: InMemoryRetryQueue;
+    documentStorage: InMemoryDocumentStorage;
   };
   helpers: {
     refreshUser(): Promise<User>;
     refreshWallet(type: Wallet['walletType']): Promise<Wallet>;
     refreshTransactions(): Promise<Transaction[]>;
     ensurePin(pin?: string): Promise<void>;
-    issuePinToken(pin?: string): Promise<string>;
+    /** Pass the payment for merchant payments and transfers, which only accept tokens bound to it. */
+    issuePinToken(pin?: string, intent?: PaymentIntent): Promise<string>;
     topUpMainWallet(amount: number): Promise<void>;
     topUpSavingsWallet(amount: number): Promise<void>;
     setRoundUpIncrement(increment: RoundUpRule['incrementType']): Promise<void>;
@@ -781,6 +964,26 @@ export interface IntegrationTestEnvironment {
   };
 }
 
+/** Fictional people; nobody else the tests create comes close to them. */
+export const TEST_WATCHLIST: WatchlistEntry[] = [
+  {
+    id: 'UN-QDi.901',
+    name: 'Ivan Petrovich Volkov',
+    aliases: ['Ivan Volkoff'],
+    dateOfBirth: '1961-04-12',
+    listName: 'UN Consolidated',
+    category: 'sanctions',
+  },
+  {
+    id: 'PEP-KE-0042',
+    name: 'Halima Wanjiku Barasa',
+    aliases: [],
+    dateOfBirth: '1970',
+    listName: 'Kenya PEP register',
+    category: 'pep',
+  },
+];
+
 const DEFAULT_USER_EMAIL = 'sarah.test@zanari.app';
 const DEFAULT_USER_PHONE = '254712345678';
 
@@ -791,38 +994,91 @@ export async function createIntegrationTestEnvironment(): Promise<IntegrationTes
   const savingsGoalRepository = new InMemorySavingsGoalRepository();
   const roundUpRuleRepository = new InMemoryRoundUpRuleRepository();
   const kycDocumentRepository = new InMemoryKYCDocumentRepository();
+  const kycUploadAttemptRepository = new InMemoryKYCUploadAttemptRepository();
+  const kycReviewCaseRepository = new InMemoryKYCReviewCaseRepository();
+  const screeningCaseRepository = new InMemoryScreeningCaseRepository();
+  const amlAlertRepository = new InMemoryAmlAlertRepository();
+  const amlScanCursorRepository = new InMemoryAmlScanCursorRepository();
   const authSessionRepository = new InMemoryAuthSessionRepository();
   const savingsInvestmentPreferenceRepository = new InMemorySavingsInvestmentPreferenceRepository();
   const savingsInvestmentPositionRepository = new InMemorySavingsInvestmentPositionRepository();
+  const webhookEventRepository = new InMemoryWebhookEventRepository();
+  const ledgerRepository = new InMemoryLedgerRepository();
+  const fundHoldRepository = new InMemoryFundHoldRepository();
 
   const otpSender = new TestOtpSender();
-  const tokenService = new TestTokenService();
+  const refreshTokenRepository = new InMemoryRefreshTokenRepository();
+  const deviceSessionRepository = new InMemoryDeviceSessionRepository();
+  const pinRecoveryRepository = new InMemoryPinRecoveryRepository();
+  const stepUpChallengeRepository = new InMemoryStepUpChallengeRepository();
+  const accountClosureRepository = new InMemoryAccountClosureRepository();
+  const adminAuditLogRepository = new InMemoryAdminAuditLogRepository();
+  const tokenService = new SignedTokenService({
+    secret: 'integration-test-signing-secret-0123456789',
+    refreshTokenRepository,
+  });
   const pinHasher = new TestPinHasher();
   const pinTokenService = new TestPinTokenService();
   const rateLimiter = new AllowAllRateLimiter();
   const paystackClient = new TestPaystackClient();
   const notificationService = new TestNotificationService();
-  const retryQueue = new TestRetryQueue();
+  const retryQueue = new InMemoryRetryQueue();
+  const sessionService = new SessionService({ deviceSessionRepository, refreshTokenRepository, notificationService });
 
   const authService = new AuthService({
     userRepository,
     authSessionRepository,
     otpSender,
     tokenService,
+    sessionService,
     pinHasher,
     pinTokenService,
     rateLimiter,
   });
 
+  const pinRecoveryService = new PinRecoveryService({
+    authService,
+    userRepository,
+    kycDocumentRepository,
+    pinRecoveryRepository,
+    pinHasher,
+    notificationService,
+  });
+
+  const stepUpService = new StepUpService({ authService, userRepository, stepUpChallengeRepository });
+
+  const screeningService = new ScreeningService({ watchlist: TEST_WATCHLIST, caseRepository: screeningCaseRepository, userRepository });
+  const amlMonitoringService = new AmlMonitoringService({
+    alertRepository: amlAlertRepository,
+    cursorRepository: amlScanCursorRepository,
+    transactionRepository,
+    userRepository,
+  });
+
   const identityProvider: IdentityProvider = new InMemoryIdentityProvider();
   const registrationService = new RegistrationService({
     userRepository,
     identityProvider,
     authService,
+    screeningService,
   });
 
-  const walletService = new WalletService({ walletRepository });
-  const transactionService = new TransactionService({ transactionRepository });
+  const ledgerService = new LedgerService({ ledgerRepository });
+  const unitOfWork = new BufferedUnitOfWork({
+    walletRepository,
+    transactionRepository,
+    ledgerRepository,
+    fundHoldRepository,
+    committer: new InMemoryUnitOfWorkCommitter({
+      wallets: walletRepository,
+      transactions: transactionRepository,
+      ledger: ledgerRepository,
+      holds: fundHoldRepository,
+    }),
+  });
+  const walletService = new WalletService({ walletRepository, fundHoldRepository, ledgerService, unitOfWork });
+  const limitService = new LimitService({ userRepository, walletRepository, transactionRepository });
+  const transactionService = new TransactionService({ transactionRepository, limitService });
   const paymentService = new PaymentService({
     transactionService,
     transactionRepository,
@@ -830,17 +1086,78 @@ export async function createIntegrationTestEnvironment(): Promise<IntegrationTes
     paystackClient,
     roundUpRuleRepository,
     retryQueue,
+    unitOfWork,
+    screeningService,
+  });
+  const settlementService = new PaymentSettlementService({
+    transactionRepository,
+    transactionService,
+    walletService,
+    ledgerService,
+    unitOfWork,
+    notificationService,
+  });
+  const refundService = new RefundService({
+    transactionRepository,
+    transactionService,
+    walletService,
+    notificationService,
+    unitOfWork,
   });
   const savingsGoalService = new SavingsGoalService({ repository: savingsGoalRepository, notificationService });
   const autoAnalyzeService = new AutoAnalyzeService({ transactionRepository, roundUpRuleRepository });
   const categorizationService = new CategorizationService({ transactionRepository });
-  const kycService = new KYCService({ repository: kycDocumentRepository, notificationService });
+  const documentStorage = new InMemoryDocumentStorage();
+  const documentVault = new KYCDocumentVault({ storage: documentStorage, masterKey: randomBytes(32) });
+  const documentUrls = new SignedDocumentUrls({ secret: randomBytes(32).toString('hex'), baseUrl: 'https://api.zanari.test' });
+  const kycService = new KYCService({
+    repository: kycDocumentRepository,
+    uploadAttemptRepository: kycUploadAttemptRepository,
+    reviewCaseRepository: kycReviewCaseRepository,
+    userRepository,
+    documentVault,
+    notificationService,
+    screeningService,
+  });
+  const feeService = new FeeService();
   const savingsInvestmentService = new SavingsInvestmentService({
     walletService,
     transactionService,
     preferenceRepository: savingsInvestmentPreferenceRepository,
     positionRepository: savingsInvestmentPositionRepository,
   });
+  const accountService = new AccountService({
+    userRepository,
+    walletRepository,
+    transactionRepository,
+    savingsGoalRepository,
+    roundUpRuleRepository,
+    positionRepository: savingsInvestmentPositionRepository,
+    preferenceRepository: savingsInvestmentPreferenceRepository,
+    kycDocumentRepository,
+    accountClosureRepository,
+    documentVault,
+    walletService,
+    transactionService,
+    paymentService,
+    settlementService,
+    sessionService,
+    notificationService,
+    unitOfWork,
+  });
+  const adminService = new AdminService({
+    userRepository,
+    walletRepository,
+    transactionRepository,
+    kycDocumentRepository,
+    kycReviewCaseRepository,
+    auditLogRepository: adminAuditLogRepository,
+    kycService,
+    screeningService,
+    paymentService,
+    amlMonitoringService,
+    sessionService,
+  });
 
   const userId = randomUUID();
   const baseUser = createUser({
@@ -879,31 +1196,61 @@ export async function createIntegrationTestEnvironment(): Promise<IntegrationTes
       savingsGoalRepository,
       roundUpRuleRepository,
       kycDocumentRepository,
+      kycUploadAttemptRepository,
+      kycReviewCaseRepository,
+      screeningCaseRepository,
+      amlAlertRepository,
+      amlScanCursorRepository,
       authSessionRepository,
       savingsInvestmentPreferenceRepository,
       savingsInvestmentPositionRepository,
+      webhookEventRepository,
+      ledgerRepository,
+      fundHoldRepository,
+      refreshTokenRepository,
+      deviceSessionRepository,
+      pinRecoveryRepository,
+      stepUpChallengeRepository,
+      accountClosureRepository,
+      adminAuditLogRepository,
     },
     services: {
       authService,
+      tokenService,
+      sessionService,
+      pinRecoveryService,
+      stepUpService,
       registrationService,
+      ledgerService,
+      unitOfWork,
       walletService,
       transactionService,
       paymentService,
+      settlementService,
+      refundService,
       savingsGoalService,
       autoAnalyzeService,
       categorizationService,
       kycService,
+      documentVault,
+      documentUrls,
+      screeningService,
+      amlMonitoringService,
       savingsInvestmentService,
+      feeService,
+      limitService,
+      accountService,
+      adminService,
     },
     stubs: {
       otpSender,
-      tokenService,
       pinHasher,
       pinTokenService,
       rateLimiter,
       paystackClient,
       notificationService,
       retryQueue,
+      documentStorage,
     },
     helpers: {
       async refreshUser() {
@@ -925,7 +1272,7 @@ export async function createIntegrationTestEnvironment(): Promise<IntegrationTes
       async refreshTransactions() {
         return transactionRepository.listByUser(userId, { limit: 100, offset: 0 });
       },
-      async ensurePin(pin = '1234') {
+      async ensurePin(pin = '4826') {
         const user = await userRepository.findById(userId);
         if (!user) throw new Error('User not found');
         if (!user.pinHash) {
@@ -933,9 +1280,9 @@ export async function createIntegrationTestEnvironment(): Promise<IntegrationTes
           await environment.helpers.refreshUser();
         }
       },
-      async issuePinToken(pin = '1234') {
+      async issuePinToken(pin = '4826', intent?: PaymentIntent) {
         await environment.helpers.ensurePin(pin);
-        const result = await authService.verifyPin(userId, pin);
+        const result = await authService.verifyPin(userId, pin, intent);
         if (!result.verified || !result.token) {
           throw new Error('Failed to verify PIN');
         }
@@ -0,0 +1,265 @@
+/**
+ * Integration Scenario: Account Closure and Data Export
+ *
+ * A user downloads everything stored about them and closes their account.
+ * Closing needs empty wallets or a final payout that Paystack accepts, signs every device out and
+ * blocks signing in; personal data is anonymised once the retention period
+ * is over while the financial records stay.
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createSavingsInvestmentPosition } from '../../api/src/models/SavingsInvestmentPosition';
+import { AccountService } from '../../api/src/services/AccountService';
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+
+const RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Integration: Account Closure', () => {
+  let env: IntegrationTestEnvironment;
+  let now: Date;
+  let accountService: AccountService;
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    now = new Date();
+    accountService = new AccountService({
+      userRepository: env.repositories.userRepository,
+      walletRepository: env.repositories.walletRepository,
+      transactionRepository: env.repositories.transactionRepository,
+      savingsGoalRepository: env.repositories.savingsGoalRepository,
+      roundUpRuleRepository: env.repositories.roundUpRuleRepository,
+      positionRepository: env.repositories.savingsInvestmentPositionRepository,
+      preferenceRepository: env.repositories.savingsInvestmentPreferenceRepository,
+      kycDocumentRepository: env.repositories.kycDocumentRepository,
+      accountClosureRepository: env.repositories.accountClosureRepository,
+      documentVault: env.services.documentVault,
+      walletService: env.services.walletService,
+      transactionService: env.services.transactionService,
+      paymentService: env.services.paymentService,
+      settlementService: env.services.settlementService,
+      sessionService: env.services.sessionService,
+      notificationService: env.stubs.notificationService,
+      unitOfWork: env.services.unitOfWork,
+      retentionDays: RETENTION_DAYS,
+      clock: { now: () => now },
+    });
+  });
+
+  const signIn = async () => {
+    const { sessionId } = await env.services.authService.requestOtp({ email: env.user.email });
+    return env.services.authService.verifyOtp({ sessionId, otpCode: env.stubs.otpSender.lastEmailOtp!.otp });
+  };
+
+  const uploadApprovedId = async () => {
+    const document = await env.services.kycService.uploadDocument({
+      userId: env.user.id,
+      documentType: 'national_id',
+      filePath: `/tmp/${randomUUID()}.jpg`,
+      fileName: 'sarah-mutindi-id.jpg',
+      fileSize: 256_000,
+      mimeType: 'image/jpeg',
+      encrypted: true,
+      accessHash: 'mock-access-hash',
+      expiresAt: null,
+    });
+    const approved = await env.helpers.approveKyc(document.id, 'Matches selfie');
+    return env.repositories.kycDocumentRepository.update({
+      ...approved,
+      extractedData: { fullName: 'Sarah Mutindi', idNumber: '12345678' },
+    });
+  };
+
+  it('exports the profile, wallets, every transaction, goals, round-up rule, investments and KYC documents', async () => {
+    await env.helpers.topUpMainWallet(50_000);
+    await env.helpers.topUpSavingsWallet(20_000);
+    const goal = await env.helpers.createSavingsGoal({ name: 'Emergency fund', targetAmount: 100_000 });
+    const document = await uploadApprovedId();
+
+    const archive = await accountService.exportData(env.user.id);
+
+    expect(archive.generatedAt).toEqual(now);
+    expect(archive.user).toMatchObject({ id: env.user.id, email: env.user.email });
+    expect(archive.wallets.map((wallet) => wallet.walletType).sort()).toEqual(['main', 'savings']);
+    expect(archive.transactions).toHaveLength((await env.helpers.refreshTransactions()).length);
+    expect(archive.savingsGoals.map((saved) => saved.id)).toEqual([goal.id]);
+    expect(archive.roundUpRule?.id).toBe(env.roundUpRule.id);
+    expect(archive.investmentPosition).toBeNull();
+    expect(archive.kycDocuments.map((saved) => saved.id)).toEqual([document.id]);
+  });
+
+  it('refuses to close an account that still holds money unless it is paid out', async () => {
+    await env.helpers.topUpMainWallet(50_000);
+
+    await expect(accountService.close({ userId: env.user.id })).rejects.toMatchObject({
+      code: 'ACCOUNT_HAS_BALANCE',
+      details: { balances: { main: 50_000 } },
+    });
+    expect((await env.helpers.refreshUser()).status).toBe('active');
+  });
+
+  it('pays the remaining balances out fee-free and closes the account', async () => {
+    await env.helpers.topUpMainWallet(50_000);
+    await env.helpers.topUpSavingsWallet(20_000);
+
+    const closure = await accountService.close({
+      userId: env.user.id,
+      reason: 'Moving abroad',
+      finalPayout: { mpesaPhone: '254712345678' },
+    });
+
+    expect(closure).toMatchObject({ status: 'closed', reason: 'Moving abroad' });
+    expect(closure.payoutTransactionIds).toHaveLength(2);
+    expect(closure.anonymiseAfter).toEqual(new Date(now.getTime() + RETENTION_DAYS * DAY_MS));
+
+    const payouts = await Promise.all(
+      closure.payoutTransactionIds.map((id) => env.repositories.transactionRepository.findById(id)),
+    );
+    expect(payouts.map((payout) => [payout!.type, payout!.status, payout!.amount, payout!.fee]).sort()).toEqual([
+      ['withdrawal', 'pending', 20_000, 0],
+      ['withdrawal', 'pending', 50_000, 0],
+    ]);
+    expect(env.stubs.paystackClient.transfers.map(({ amount, reference, recipient }) => [amount, reference, recipient.phone])).toEqual(
+      expect.arrayContaining(payouts.map((payout) => [payout!.amount, payout!.id, '254712345678'])),
+    );
+    expect(payouts.every((payout) => payout!.externalTransactionId === `TRF_${payout!.id}`)).toBe(true);
+    expect((await env.helpers.refreshWallet('main')).availableBalance).toBe(0);
+    expect((await env.helpers.refreshWallet('savings')).availableBalance).toBe(0);
+    expect((await env.helpers.refreshUser()).status).toBe('closed');
+    expect(env.helpers.listNotifications()).toContainEqual(
+      expect.objectContaining({
+        userId: env.user.id,
+        payload: expect.objectContaining({ data: expect.objectContaining({ type: 'account_closed' }) }),
+      }),
+    );
+  });
+
+  it('pays out balances above the per-transaction limit of the user\'s tier', async () => {
+    await env.helpers.topUpMainWallet(1_200_000);
+    await expect(
+      env.services.limitService.assertWithinLimits({ userId: env.user.id, transactionType: 'withdrawal', amount: 1_200_000 }),
+    ).rejects.toMatchObject({ code: 'SINGLE_TRANSACTION_LIMIT_EXCEEDED' });
+
+    const closure = await accountService.close({ userId: env.user.id, finalPayout: { mpesaPhone: '254712345678' } });
+
+    expect(closure.status).toBe('closed');
+    const [payout] = await Promise.all(closure.payoutTransactionIds.map((id) => env.repositories.transactionRepository.findById(id)));
+    expect(payout).toMatchObject({ type: 'withdrawal', status: 'pending', amount: 1_200_000 });
+    expect(env.stubs.paystackClient.transfers.map(({ amount }) => amount)).toEqual([1_200_000]);
+  });
+
+  it('keeps the account open and the money in the wallet when Paystack does not accept the payout', async () => {
+    await env.helpers.topUpMainWallet(50_000);
+    jest.spyOn(env.stubs.paystackClient, 'initiateTransfer').mockRejectedValueOnce(new Error('Paystack unavailable'));
+
+    await expect(
+      accountService.close({ userId: env.user.id, finalPayout: { mpesaPhone: '254712345678' } }),
+    ).rejects.toMatchObject({ code: 'PAYOUT_FAILED' });
+
+    expect((await env.helpers.refreshUser()).status).toBe('active');
+    expect(await env.helpers.refreshWallet('main')).toMatchObject({ balance: 50_000, availableBalance: 50_000 });
+    const payout = (await env.helpers.refreshTransactions()).find((transaction) => transaction.type === 'withdrawal');
+    expect(payout?.status).toBe('failed');
+  });
+
+  it('waits for held funds to settle before closing', async () => {
+    await env.helpers.topUpMainWallet(50_000);
+    await env.services.walletService.placeHold({
+      userId: env.user.id,
+      walletType: 'main',
+      amount: 10_000,
+      transactionId: randomUUID(),
+      description: 'Pending payment',
+    });
+
+    await expect(
+      accountService.close({ userId: env.user.id, finalPayout: { mpesaPhone: '254712345678' } }),
+    ).rejects.toMatchObject({ code: 'FUNDS_ON_HOLD', details: { wallets: ['main'] } });
+  });
+
+  it('waits for invested savings to be redeemed before closing', async () => {
+    await env.repositories.savingsInvestmentPositionRepository.save(
+      createSavingsInvestmentPosition({ id: randomUUID(), userId: env.user.id, investedAmount: 5_000, accruedInterest: 120 }),
+    );
+
+    await expect(accountService.close({ userId: env.user.id })).rejects.toMatchObject({
+      code: 'INVESTMENT_NOT_REDEEMED',
+      details: { invested_amount: 5_000, accrued_interest: 120 },
+    });
+  });
+
+  it('signs every device out and blocks signing in again', async () => {
+    const first = await signIn();
+    await signIn();
+
+    await accountService.close({ userId: env.user.id });
+
+    expect(await env.services.sessionService.listSessions(env.user.id)).toHaveLength(0);
+    await expect(env.services.authService.refreshSession(first.refreshToken)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+    await expect(env.services.authService.requestOtp({ email: env.user.email })).rejects.toMatchObject({
+      code: 'ACCOUNT_CLOSED',
+    });
+    await expect(accountService.close({ userId: env.user.id })).rejects.toMatchObject({ code: 'ACCOUNT_ALREADY_CLOSED' });
+  });
+
+  it('refuses a sign-in code requested before the account closed', async () => {
+    const { sessionId } = await env.services.authService.requestOtp({ email: env.user.email });
+    const otpCode = env.stubs.otpSender.lastEmailOtp!.otp;
+
+    await accountService.close({ userId: env.user.id });
+
+    await expect(env.services.authService.verifyOtp({ sessionId, otpCode })).rejects.toMatchObject({ code: 'ACCOUNT_CLOSED' });
+  });
+
+  it('anonymises personal data once the retention period is over and keeps the transactions', async () => {
+    await env.helpers.ensurePin('4826');
+    await env.helpers.topUpMainWallet(50_000);
+    const document = await uploadApprovedId();
+    const { encryptedDataKey } = await env.services.documentVault.store(document.filePath!, Buffer.from('ID scan'), 'image/jpeg');
+    await env.repositories.kycDocumentRepository.update({ ...document, encryptedDataKey });
+    const { sessionId } = await env.services.authService.requestOtp({ email: env.user.email });
+    await env.services.authService.verifyOtp({
+      sessionId,
+      otpCode: env.stubs.otpSender.lastEmailOtp!.otp,
+      device: { clientPlatform: 'ios', clientVersion: '2.4.0', ipAddress: '203.0.113.7' },
+    });
+    const closure = await accountService.close({ userId: env.user.id, finalPayout: { mpesaPhone: '254712345678' } });
+
+    now = new Date(now.getTime() + (RETENTION_DAYS - 1) * DAY_MS);
+    await expect(accountService.anonymiseDueAccounts()).resolves.toHaveLength(0);
+
+    now = new Date(now.getTime() + DAY_MS);
+    const [anonymised] = await accountService.anonymiseDueAccounts();
+    expect(anonymised).toMatchObject({ id: closure.id, status: 'anonymised', anonymisedAt: now });
+
+    const user = await env.helpers.refreshUser();
+    expect(user).toMatchObject({
+      email: `deleted-${env.user.id}@anonymised.invalid`,
+      phone: null,
+      firstName: 'Deleted',
+      lastName: 'User',
+      pinHash: null,
+      status: 'closed',
+    });
+    expect(await env.repositories.userRepository.findByEmail('sarah.test@zanari.app')).toBeNull();
+
+    const scrubbed = await env.repositories.kycDocumentRepository.findById(document.id);
+    expect(scrubbed).toMatchObject({
+      extractedData: null,
+      verificationNotes: null,
+      fileName: `national_id-${document.id}`,
+      filePath: null,
+      encryptedDataKey: null,
+    });
+    await expect(env.stubs.documentStorage.get(document.filePath!)).resolves.toBeNull();
+    const sessions = await env.repositories.deviceSessionRepository.listByUser(env.user.id);
+    expect(sessions.map(({ clientPlatform, clientVersion, ipAddress }) => ({ clientPlatform, clientVersion, ipAddress }))).toEqual([
+      { clientPlatform: null, clientVersion: null, ipAddress: null },
+    ]);
+    await expect(env.repositories.transactionRepository.findById(closure.payoutTransactionIds[0]!)).resolves.not.toBeNull();
+
+    await expect(accountService.anonymiseDueAccounts()).resolves.toHaveLength(0);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Integration Scenario: Admin Back Office
+ *
+ * 1. Admins work through a queue of KYC documents waiting for review, filtered by status and type
+ * 2. Documents are approved or rejected with notes, and misread fields can be corrected
+ * 3. Admins set a user's KYC status, look users up and view their wallets and transactions
+ * 4. Suspending a user signs them out everywhere and blocks signing in until they are reactivated
+ * 5. Every action is audit-logged with the acting admin
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { KYCDocumentType } from '../../api/src/models/KYCDocument';
+import { createTransaction } from '../../api/src/models/Transaction';
+import { createAdminRoutes } from '../../api/src/routes/admin';
+import { executeRoute } from '../../api/src/routes/handler';
+import { HttpResponse, RouteHandler } from '../../api/src/routes/types';
+
+describe('Integration: Admin Back Office', () => {
+  let env: IntegrationTestEnvironment;
+  let adminRoutes: ReturnType<typeof createAdminRoutes>;
+
+  const call = (
+    handler: keyof ReturnType<typeof createAdminRoutes>,
+    options: { body?: unknown; params?: Record<string, string>; query?: Record<string, string> } = {},
+    adminId: string | null = 'alice',
+  ): Promise<HttpResponse<any>> =>
+    executeRoute(adminRoutes[handler] as RouteHandler, {
+      body: options.body,
+      params: options.params ?? {},
+      query: options.query ?? {},
+      headers: {},
+      adminId: adminId ?? undefined,
+    });
+
+  const upload = async (documentType: KYCDocumentType, uploadedAt: Date) => {
+    const document = await env.services.kycService.uploadDocument({
+      userId: env.user.id,
+      documentType,
+      filePath: `/tmp/${randomUUID()}.jpg`,
+      fileName: `${documentType}.jpg`,
+      fileSize: 256_000,
+      mimeType: 'image/jpeg',
+      encrypted: true,
+      accessHash: 'mock-access-hash',
+    });
+    return env.repositories.kycDocumentRepository.update({ ...document, uploadedAt });
+  };
+
+  const signIn = async () => {
+    const { sessionId } = await env.services.authService.requestOtp({ email: env.user.email });
+    return env.services.authService.verifyOtp({ sessionId, otpCode: env.stubs.otpSender.lastEmailOtp!.otp });
+  };
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    adminRoutes = createAdminRoutes({ adminService: env.services.adminService });
+  });
+
+  it('lists documents waiting for review oldest first, filtered by status and type', async () => {
+    const selfie = await upload('selfie', new Date('2025-01-02T08:00:00Z'));
+    const nationalId = await upload('national_id', new Date('2025-01-01T08:00:00Z'));
+    const passport = await upload('passport', new Date('2025-01-03T08:00:00Z'));
+    await env.helpers.approveKyc(passport.id);
+
+    const queue = await call('listKycQueue');
+    expect(queue.status).toBe(200);
+    expect(queue.body.documents.map((document: { id: string }) => document.id)).toEqual([nationalId.id, selfie.id]);
+
+    const selfies = await call('listKycQueue', { query: { document_type: 'selfie' } });
+    expect(selfies.body.documents).toEqual([expect.objectContaining({ id: selfie.id, user_id: env.user.id })]);
+
+    const approved = await call('listKycQueue', { query: { status: 'approved' } });
+    expect(approved.body.documents).toEqual([expect.objectContaining({ id: passport.id, status: 'approved' })]);
+
+    const invalid = await call('listKycQueue', { query: { status: 'archived' } });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.code).toBe('INVALID_STATUS');
+  });
+
+  it('refuses requests without an admin key', async () => {
+    const queue = await call('listKycQueue', {}, null);
+    const search = await call('searchUsers', { query: { q: 'sarah' } }, null);
+
+    expect(queue.status).toBe(401);
+    expect(search.status).toBe(401);
+    expect(search.body.code).toBe('ADMIN_AUTH_REQUIRED');
+  });
+
+  it('approves a document once and records the reviewing admin', async () => {
+    const document = await upload('national_id', new Date());
+
+    const response = await call('reviewKycDocument', {
+      params: { documentId: document.id },
+      body: { decision: 'approve', notes: 'Matches selfie' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.document).toMatchObject({ status: 'approved', verification_notes: 'Matches selfie' });
+    expect(env.helpers.listNotifications()).toContainEqual(
+      expect.objectContaining({ userId: env.user.id, payload: expect.objectContaining({ title: 'KYC Approved' }) }),
+    );
+
+    const again = await call('reviewKycDocument', { params: { documentId: document.id }, body: { decision: 'reject', notes: 'Blurry' } });
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('DOCUMENT_ALREADY_REVIEWED');
+
+    const audit = await call('listAuditLog', { query: { target_type: 'kyc_document', target_id: document.id } });
+    expect(audit.body.entries).toEqual([
+      expect.objectContaining({
+        admin_id: 'alice',
+        action: 'kyc_document_approved',
+        details: expect.objectContaining({ user_id: env.user.id, previous_status: 'uploaded', notes: 'Matches selfie' }),
+      }),
+    ]);
+  });
+
+  it('needs notes to reject a document', async () => {
+    const document = await upload('national_id', new Date());
+
+    const withoutNotes = await call('reviewKycDocument', { params: { documentId: document.id }, body: { decision: 'reject' } });
+    expect(withoutNotes.status).toBe(400);
+    expect(withoutNotes.body.code).toBe('REJECTION_NOTES_REQUIRED');
+
+    const rejected = await call('reviewKycDocument', {
+      params: { documentId: document.id },
+      body: { decision: 'reject', notes: 'The photo is blurry' },
+    });
+    expect(rejected.body.document).toMatchObject({ status: 'rejected', verification_notes: 'The photo is blurry' });
+
+    const missing = await call('reviewKycDocument', { params: { documentId: randomUUID() }, body: { decision: 'approve' } });
+    expect(missing.status).toBe(404);
+  });
+
+  it('corrects extracted data and logs which fields changed but not their values', async () => {
+    const document = await upload('national_id', new Date());
+    await env.repositories.kycDocumentRepository.update({
+      ...document,
+      extractedData: { fullName: 'Sara Mutndi', idNumber: '12345678' },
+    });
+
+    const response = await call('updateExtractedData', {
+      params: { documentId: document.id },
+      body: { full_name: 'Sarah Mutindi', date_of_birth: '1994-06-15' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.document).toMatchObject({
+      status: 'uploaded',
+      extracted_data: { full_name: 'Sarah Mutindi', id_number: '12345678', date_of_birth: '1994-06-15' },
+    });
+
+    const [entry] = env.repositories.adminAuditLogRepository.list();
+    expect(entry).toMatchObject({ action: 'kyc_extracted_data_updated', details: { fields: ['fullName', 'dateOfBirth'] } });
+    expect(JSON.stringify(entry!.details)).not.toContain('Sarah');
+
+    const invalid = await call('updateExtractedData', { params: { documentId: document.id }, body: { expiry_date: '15/06/2030' } });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.code).toBe('INVALID_EXTRACTED_DATA');
+  });
+
+  it("sets a user's KYC status", async () => {
+    const response = await call('setUserKycStatus', {
+      params: { userId: env.user.id },
+      body: { kyc_status: 'approved', reason: 'Documents verified in branch' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.user).toMatchObject({ id: env.user.id, kyc_status: 'approved' });
+    const user = await env.helpers.refreshUser();
+    expect(user.kycApprovedAt).toBeInstanceOf(Date);
+    expect(user.kycSubmittedAt).toBeInstanceOf(Date);
+
+    const [entry] = await env.services.adminService.listAuditLog({ targetType: 'user', targetId: env.user.id, limit: 10 });
+    expect(entry).toMatchObject({
+      adminId: 'alice',
+      action: 'user_kyc_status_changed',
+      details: { previous_status: 'not_started', status: 'approved', reason: 'Documents verified in branch' },
+    });
+  });
+
+  it('finds users by email, id or a phone number written the local way', async () => {
+    const byEmail = await call('searchUsers', { query: { q: 'SARAH.TEST' } });
+    const byPhone = await call('searchUsers', { query: { q: '0712345678' } });
+    const byId = await call('searchUsers', { query: { q: env.user.id } });
+    const none = await call('searchUsers', { query: { q: 'nobody' } });
+
+    expect(byEmail.body.users).toEqual([expect.objectContaining({ id: env.user.id })]);
+    expect(byPhone.body.users).toEqual([expect.objectContaining({ id: env.user.id })]);
+    expect(byId.body.users).toEqual([expect.objectContaining({ id: env.user.id })]);
+    expect(none.body.users).toEqual([]);
+
+    const tooShort = await call('searchUsers', { query: { q: 'sa' } });
+    expect(tooShort.status).toBe(400);
+    expect(tooShort.body.code).toBe('QUERY_TOO_SHORT');
+
+    expect(env.repositories.adminAuditLogRepository.list().filter((entry) => entry.action === 'users_searched')).toHaveLength(4);
+  });
+
+  it("shows a user's wallets and transactions read-only", async () => {
+    await env.helpers.topUpMainWallet(50_000);
+    const payment = await env.repositories.transactionRepository.create(
+      createTransaction({ id: randomUUID(), userId: env.user.id, type: 'payment', amount: 12_500, category: 'groceries' }),
+    );
+
+    const response = await call('getUser', { params: { userId: env.user.id } });
+
+    expect(response.status).toBe(200);
+    expect(response.body.user).toMatchObject({ id: env.user.id, status: 'active' });
+    expect(response.body.wallets).toEqual(
+      expect.arrayContaining([expect.objectContaining({ wallet_type: 'main', balance: 50_000 })]),
+    );
+    expect(response.body.transactions).toEqual([expect.objectContaining({ id: payment.id, amount: 12_500 })]);
+    expect(response.body.pagination).toMatchObject({ total: 1 });
+
+    const [entry] = await env.services.adminService.listAuditLog({ targetType: 'user', targetId: env.user.id, limit: 10 });
+    expect(entry).toMatchObject({ adminId: 'alice', action: 'user_viewed' });
+
+    const missing = await call('getUser', { params: { userId: randomUUID() } });
+    expect(missing.status).toBe(404);
+  });
+
+  it('suspends a user, signing them out and blocking sign-in until reactivated', async () => {
+    const { refreshToken } = await signIn();
+
+    const missingReason = await call('suspendUser', { params: { userId: env.user.id }, body: {} });
+    expect(missingReason.status).toBe(400);
+
+    const suspended = await call('suspendUser', { params: { userId: env.user.id }, body: { reason: 'Suspected account takeover' } });
+    expect(suspended.status).toBe(200);
+    expect(suspended.body.user.status).toBe('suspended');
+
+    expect(await env.services.sessionService.listSessions(env.user.id)).toHaveLength(0);
+    await expect(env.services.authService.refreshSession(refreshToken)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+    await expect(env.services.authService.requestOtp({ email: env.user.email })).rejects.toMatchObject({
+      code: 'ACCOUNT_SUSPENDED',
+    });
+
+    const again = await call('suspendUser', { params: { userId: env.user.id }, body: { reason: 'Twice' } });
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('USER_NOT_ACTIVE');
+
+    const reactivated = await call('reactivateUser', { params: { userId: env.user.id }, body: { reason: 'Identity confirmed by phone' } }, 'bob');
+    expect(reactivated.body.user.status).toBe('active');
+    await expect(signIn()).resolves.toMatchObject({ accessToken: expect.any(String) });
+
+    const audit = await call('listAuditLog', { query: { target_type: 'user', target_id: env.user.id } });
+    expect(audit.body.entries.map((entry: { admin_id: string; action: string }) => [entry.admin_id, entry.action])).toEqual([
+      ['bob', 'user_reactivated'],
+      ['alice', 'user_suspended'],
+    ]);
+    expect(audit.body.entries[1].details).toEqual({ reason: 'Suspected account takeover', sessions_revoked: 1 });
+
+    const notSuspended = await call('reactivateUser', { params: { userId: env.user.id } });
+    expect(notSuspended.status).toBe(409);
+    expect(notSuspended.body.code).toBe('USER_NOT_SUSPENDED');
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Integration Scenario: AML Transaction Monitoring
+ *
+ * 1. Three transfers just under the per-transaction limit in a day raise a high-severity alert
+ * 2. The alert freezes outgoing money, without saying why, until an admin clears it
+ * 3. Scanning the same transactions again raises nothing new
+ * 4. A top-up sent straight back out raises a medium alert for review without freezing the account
+ * 5. Lifting the freeze while a watchlist match puts the account on hold keeps the screening hold
+ * 6. Scans running at the same time raise one alert per rule between them
+ * 7. A restarted scan carries on from the stored cursor, even inside a batch completed at one instant
+ * 8. A transaction that commits after a later one was scanned is still picked up
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { createTransaction, Transaction } from '../../api/src/models/Transaction';
+import { createAdminRoutes } from '../../api/src/routes/admin';
+import { executeRoute } from '../../api/src/routes/handler';
+import { HttpResponse, RouteHandler } from '../../api/src/routes/types';
+import { AmlMonitoringService } from '../../api/src/services/AmlMonitoringService';
+
+describe('Integration: AML Transaction Monitoring', () => {
+  let env: IntegrationTestEnvironment;
+  let adminRoutes: ReturnType<typeof createAdminRoutes>;
+
+  const call = (
+    handler: keyof ReturnType<typeof createAdminRoutes>,
+    options: { body?: unknown; params?: Record<string, string>; query?: Record<string, string> } = {},
+  ): Promise<HttpResponse<any>> =>
+    executeRoute(adminRoutes[handler] as RouteHandler, {
+      body: options.body,
+      params: options.params ?? {},
+      query: options.query ?? {},
+      headers: {},
+      adminId: 'alice',
+    });
+
+  const transfer = async (amount: number) => {
+    const pinToken = await env.helpers.issuePinToken('4826');
+    return env.services.paymentService.transferPeer({
+      transferId: randomUUID(),
+      userId: env.user.id,
+      amount,
+      recipient: { phone: '254712345679', name: 'Brian Otieno' },
+      description: 'Stock for the shop',
+      pinToken,
+    });
+  };
+
+  const settledTransfer = async (amount: number) => {
+    const result = await transfer(amount);
+    const { transaction } = await env.services.settlementService.completeTransfer(result.transferTransaction);
+    return transaction;
+  };
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    adminRoutes = createAdminRoutes({ adminService: env.services.adminService });
+  });
+
+  it('freezes outgoing money after structured transfers until an admin clears the alert', async () => {
+    await env.helpers.topUpMainWallet(2_000_000);
+    const structured = [await settledTransfer(480_000), await settledTransfer(460_000), await settledTransfer(495_000)];
+
+    const { alerts } = await env.services.amlMonitoringService.scan();
+    expect(alerts).toEqual([
+      expect.objectContaining({
+        userId: env.user.id,
+        ruleId: 'structuring_near_limit',
+        severity: 'high',
+        freezesAccount: true,
+        details: { count: 3, total_amount: 1_435_000 },
+      }),
+    ]);
+    expect(alerts[0]!.transactions.map((transaction) => transaction.id)).toEqual(structured.map((transaction) => transaction.id));
+    expect((await env.helpers.refreshUser()).complianceHolds).toEqual(['aml_alert']);
+
+    const refused = transfer(10_000);
+    await expect(refused).rejects.toMatchObject({ code: 'ACCOUNT_ON_HOLD' });
+    await expect(refused).rejects.toThrow('Account is on hold pending review');
+
+    expect((await env.services.amlMonitoringService.scan()).alerts).toEqual([]);
+
+    const open = await call('listAmlAlerts');
+    expect(open.status).toBe(200);
+    expect(open.body.alerts).toEqual([
+      expect.objectContaining({ user_id: env.user.id, rule_id: 'structuring_near_limit', severity: 'high', freezes_account: true }),
+    ]);
+    expect(open.body.alerts[0].transactions).toHaveLength(3);
+
+    const missingNotes = await call('resolveAmlAlert', { params: { alertId: alerts[0]!.id }, body: { decision: 'clear' } });
+    expect(missingNotes.status).toBe(400);
+    expect(missingNotes.body.code).toBe('RESOLUTION_NOTES_REQUIRED');
+
+    const cleared = await call('resolveAmlAlert', {
+      params: { alertId: alerts[0]!.id },
+      body: { decision: 'clear', notes: 'Wholesale stock payments, invoices on file' },
+    });
+    expect(cleared.status).toBe(200);
+    expect(cleared.body.alert).toMatchObject({ status: 'cleared', resolved_by: 'alice' });
+    expect((await env.helpers.refreshUser()).complianceHolds).toEqual([]);
+    expect((await transfer(10_000)).status).toBe('pending');
+
+    const again = await call('resolveAmlAlert', { params: { alertId: alerts[0]!.id }, body: { decision: 'confirm', notes: 'Second look' } });
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('AML_ALERT_ALREADY_RESOLVED');
+
+    const [entry] = await env.services.adminService.listAuditLog({ targetType: 'aml_alert', targetId: alerts[0]!.id, limit: 10 });
+    expect(entry).toMatchObject({
+      adminId: 'alice',
+      action: 'aml_alert_cleared',
+      details: expect.objectContaining({
+        user_id: env.user.id,
+        rule_id: 'structuring_near_limit',
+        transaction_ids: structured.map((transaction) => transaction.id),
+      }),
+    });
+  });
+
+  it('raises a medium alert for a top-up sent straight back out without freezing the account', async () => {
+    const deposit = await env.services.paymentService.initializeDeposit({
+      depositId: randomUUID(),
+      userId: env.user.id,
+      amount: 400_000,
+      customerEmail: env.user.email,
+    });
+    await env.services.settlementService.completeCharge(deposit.depositTransaction);
+    await settledTransfer(350_000);
+
+    const { alerts } = await env.services.amlMonitoringService.scan();
+    expect(alerts).toEqual([
+      expect.objectContaining({
+        ruleId: 'top_up_then_withdraw',
+        severity: 'medium',
+        freezesAccount: false,
+        details: { incoming_amount: 400_000, outgoing_amount: 350_000 },
+      }),
+    ]);
+    expect((await env.helpers.refreshUser()).complianceHolds).toEqual([]);
+
+    const confirmed = await call('resolveAmlAlert', {
+      params: { alertId: alerts[0]!.id },
+      body: { decision: 'confirm', notes: 'Reported to the FRC' },
+    });
+    expect(confirmed.status).toBe(200);
+    expect(confirmed.body.alert.status).toBe('confirmed');
+    expect((await call('listAmlAlerts', { query: { status: 'confirmed' } })).body.alerts).toHaveLength(1);
+    expect((await call('listAmlAlerts')).body.alerts).toEqual([]);
+  });
+
+  it('keeps a screening hold placed while the AML freeze is being lifted', async () => {
+    await env.helpers.topUpMainWallet(2_000_000);
+    for (const amount of [480_000, 460_000, 495_000]) {
+      // eslint-disable-next-line no-await-in-loop
+      await settledTransfer(amount);
+    }
+    const { alerts } = await env.services.amlMonitoringService.scan();
+    expect((await env.helpers.refreshUser()).complianceHolds).toEqual(['aml_alert']);
+
+    // Reads of the user come back slowly, so both reviews have read it before either writes
+    const { userRepository } = env.repositories;
+    const findUser = userRepository.findById.bind(userRepository);
+    jest.spyOn(userRepository, 'findById').mockImplementation(async (userId) => {
+      const user = await findUser(userId);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return user;
+    });
+
+    await Promise.all([
+      env.services.amlMonitoringService.resolveAlert({
+        alertId: alerts[0]!.id,
+        adminId: 'alice',
+        decision: 'clear',
+        notes: 'Wholesale stock payments, invoices on file',
+      }),
+      env.services.screeningService.screenCustomer({
+        userId: env.user.id,
+        trigger: 'kyc_approval',
+        subject: { name: 'Ivan Petrovich Volkov', dateOfBirth: null },
+      }),
+    ]);
+
+    expect((await env.helpers.refreshUser()).complianceHolds).toEqual(['sanctions_screening']);
+  });
+
+  it('raises a single alert when two scans find the same structured transfers', async () => {
+    await env.helpers.topUpMainWallet(2_000_000);
+    for (const amount of [480_000, 460_000, 495_000]) {
+      // eslint-disable-next-line no-await-in-loop
+      await settledTransfer(amount);
+    }
+
+    const [first, second] = await Promise.all([env.services.amlMonitoringService.scan(), env.services.amlMonitoringService.scan()]);
+
+    expect([...first.alerts, ...second.alerts].map((alert) => alert.ruleId)).toEqual(['structuring_near_limit']);
+    const alerts = await env.repositories.amlAlertRepository.listByUser(env.user.id);
+    expect(alerts).toEqual([expect.objectContaining({ ruleId: 'structuring_near_limit', status: 'open' })]);
+    expect(alerts[0]!.transactions).toHaveLength(3);
+    expect((await env.helpers.refreshUser()).complianceHolds).toEqual(['aml_alert']);
+  });
+
+  describe('scan cursor', () => {
+    let now: Date;
+
+    const scanner = (batchSize = 500) =>
+      new AmlMonitoringService({
+        alertRepository: env.repositories.amlAlertRepository,
+        cursorRepository: env.repositories.amlScanCursorRepository,
+        transactionRepository: env.repositories.transactionRepository,
+        userRepository: env.repositories.userRepository,
+        batchSize,
+        clock: { now: () => now },
+      });
+
+    const completedAt = (updatedAt: Date) =>
+      env.repositories.transactionRepository.create({
+        ...createTransaction({ id: randomUUID(), userId: env.user.id, type: 'transfer_out', amount: 5_000, category: 'transfer' }),
+        status: 'completed',
+        completedAt: updatedAt,
+        createdAt: updatedAt,
+        updatedAt,
+      });
+
+    const scannedIds = async (service: AmlMonitoringService): Promise<string[]> => {
+      const listed = jest.spyOn(env.repositories.transactionRepository, 'listCompletedAfter');
+      await service.scan();
+      const transactions = (await listed.mock.results[0]!.value) as Transaction[];
+      listed.mockRestore();
+      return transactions.map((transaction) => transaction.id);
+    };
+
+    beforeEach(() => {
+      now = new Date();
+    });
+
+    it('carries on from the stored cursor after a restart, through transactions completed at one instant', async () => {
+      const at = new Date(now.getTime() - 60_000);
+      const ids = (await Promise.all([completedAt(at), completedAt(at), completedAt(at)])).map((transaction) => transaction.id).sort();
+
+      expect(await scannedIds(scanner(2))).toEqual(ids.slice(0, 2));
+      // A new instance stands in for a restart; only the stored cursor carries over
+      expect(await scannedIds(scanner(2))).toEqual(ids.slice(2));
+    });
+
+    it('picks up a transaction that commits after a later one was scanned', async () => {
+      const later = await completedAt(new Date(now.getTime() - 30_000));
+      expect(await scannedIds(scanner())).toEqual([later.id]);
+
+      // Stamped a minute ago but only committed now
+      const late = await completedAt(new Date(now.getTime() - 60_000));
+      expect(await scannedIds(scanner())).toEqual([late.id, later.id]);
+
+      now = new Date(now.getTime() + 10 * 60_000);
+      expect(await scannedIds(scanner())).toEqual([late.id, later.id]);
+      expect(await scannedIds(scanner())).toEqual([]);
+    });
+  });
+});
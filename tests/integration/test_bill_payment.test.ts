@@ -40,8 +40,8 @@ describe('Integration: Bill Payment (T030)', () => {
     };
     await repositories.roundUpRuleRepository.save(autoRule);
 
-    await helpers.ensurePin('1234');
-    const pinToken = await helpers.issuePinToken('1234');
+    await helpers.ensurePin('4826');
+    const pinToken = await helpers.issuePinToken('4826');
 
     const billAmount = 149_000; // KES 1,490.00
     const paymentResult = await services.paymentService.payMerchant({
@@ -69,7 +69,8 @@ describe('Integration: Bill Payment (T030)', () => {
 
     const mainWallet = await helpers.refreshWallet('main');
     const savingsWallet = await helpers.refreshWallet('savings');
-    expect(mainWallet.balance).toBe(250_000 - paymentResult.totalCharged);
+    expect(mainWallet.availableBalance).toBe(250_000 - paymentResult.totalCharged);
+    expect(mainWallet.balance).toBe(250_000 - 1_000);
     expect(savingsWallet.balance).toBe(1_000);
 
     const transactions = await helpers.refreshTransactions();
@@ -0,0 +1,103 @@
+/**
+ * Integration Scenario: Device Sessions
+ *
+ * Every OTP sign-in starts a device session. Signing in from a device the user
+ * has not used before sends a security notification, and revoking a session
+ * stops both its access token and its refresh token.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import { DeviceInfo } from '../../api/src/models/DeviceSession';
+import { createRequestAuthenticator } from '../../api/src/routes/authentication';
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+
+const IPHONE: DeviceInfo = { clientPlatform: 'ios', clientVersion: '1.4.0', ipAddress: '197.232.61.17' };
+const ANDROID: DeviceInfo = { clientPlatform: 'android', clientVersion: '1.4.0', ipAddress: '2001:db8:85a3:12::8a2e' };
+
+describe('Integration: Device Sessions', () => {
+  let env: IntegrationTestEnvironment;
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+  });
+
+  const signIn = async (device: DeviceInfo) => {
+    const { sessionId } = await env.services.authService.requestOtp({ email: env.user.email });
+    const otpCode = env.stubs.otpSender.lastEmailOtp!.otp;
+    return env.services.authService.verifyOtp({ sessionId, otpCode, device });
+  };
+
+  const newDeviceNotifications = () =>
+    env.helpers.listNotifications().filter((notification) => notification.payload.data?.type === 'new_device_sign_in');
+
+  it('records the device with an approximate address', async () => {
+    await signIn(IPHONE);
+    await signIn(ANDROID);
+
+    const sessions = await env.services.sessionService.listSessions(env.user.id);
+
+    expect(sessions.map((session) => [session.clientPlatform, session.ipAddress])).toEqual(
+      expect.arrayContaining([
+        ['ios', '197.232.61.0/24'],
+        ['android', '2001:db8:85a3::/48'],
+      ]),
+    );
+  });
+
+  it('notifies the user when a new device signs in, but not on the first sign-in or a known device', async () => {
+    await signIn(IPHONE);
+    expect(newDeviceNotifications()).toHaveLength(0);
+
+    await signIn(IPHONE);
+    expect(newDeviceNotifications()).toHaveLength(0);
+
+    const android = await signIn(ANDROID);
+    const notifications = newDeviceNotifications();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({
+      userId: env.user.id,
+      payload: {
+        data: { client_platform: 'android', client_version: '1.4.0', ip_address: '2001:db8:85a3::/48' },
+      },
+    });
+    const claims = await env.services.tokenService.verifyAccessToken(android.accessToken);
+    expect(notifications[0]!.payload.data?.session_id).toBe(claims?.deviceSessionId);
+  });
+
+  it('signs a revoked device out of both its access and refresh tokens', async () => {
+    const authenticate = createRequestAuthenticator({
+      tokenService: env.services.tokenService,
+      sessionService: env.services.sessionService,
+    });
+    const phone = await signIn(IPHONE);
+    const tablet = await signIn(ANDROID);
+    const headers = { authorization: `Bearer ${tablet.accessToken}` };
+    const identity = await authenticate(headers);
+    expect(identity).toMatchObject({ userId: env.user.id });
+
+    await env.services.sessionService.revokeSession(env.user.id, identity!.deviceSessionId!);
+
+    await expect(authenticate(headers)).resolves.toBeUndefined();
+    await expect(env.services.authService.refreshSession(tablet.refreshToken)).rejects.toMatchObject({
+      code: 'INVALID_REFRESH_TOKEN',
+    });
+    await expect(env.services.authService.refreshSession(phone.refreshToken)).resolves.toMatchObject({
+      user: { id: env.user.id },
+    });
+  });
+
+  it('keeps a session alive and up to date on refresh', async () => {
+    const session = await signIn(IPHONE);
+
+    await env.services.authService.refreshSession(session.refreshToken, {
+      ...IPHONE,
+      clientVersion: '1.5.0',
+      ipAddress: '41.90.4.200',
+    });
+
+    const [current] = await env.services.sessionService.listSessions(env.user.id);
+    expect(current).toMatchObject({ clientVersion: '1.5.0', ipAddress: '41.90.4.0/24' });
+    expect(current!.lastSeenAt.getTime()).toBeGreaterThanOrEqual(current!.firstSeenAt.getTime());
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Integration Scenario: Fee Schedule
+ *
+ * 1. Fees are priced by band, with promotions waiving them for a window of time
+ * 2. A withdrawal fee is held with the amount and taken into the fees account on capture
+ * 3. Releasing a hold returns the fee as well as the amount
+ * 4. A fee collected with a top-up is moved from Paystack clearing into the fees account
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { DEFAULT_FEE_SCHEDULE, FeeSchedule } from '../../api/src/models/FeeSchedule';
+import { systemAccountId } from '../../api/src/models/LedgerEntry';
+import { FeeService } from '../../api/src/services/FeeService';
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Integration: Fee Schedule', () => {
+  let env: IntegrationTestEnvironment;
+
+  const feesCollected = () => env.services.ledgerService.getAccountBalance(systemAccountId('fees'));
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    await env.helpers.topUpMainWallet(100_000);
+  });
+
+  it('prices amounts by band and waives fees during a promotion', () => {
+    const now = new Date();
+    const schedule: FeeSchedule = {
+      rules: [
+        ...DEFAULT_FEE_SCHEDULE.rules,
+        {
+          transactionType: 'merchant_payment',
+          paymentMethod: 'card',
+          bands: [
+            { minAmount: 0, maxAmount: 50_000, flatFee: 0, percentageBps: 150 },
+            { minAmount: 50_001, maxAmount: null, flatFee: 500, percentageBps: 100 },
+          ],
+        },
+      ],
+      promotions: [
+        {
+          name: 'December free withdrawals',
+          transactionTypes: ['withdrawal'],
+          paymentMethods: ['mpesa'],
+          startsAt: new Date(now.getTime() - DAY),
+          endsAt: new Date(now.getTime() + DAY),
+        },
+      ],
+    };
+    const feeService = new FeeService({ schedule, clock: { now: () => now } });
+
+    expect(feeService.quote({ transactionType: 'withdrawal', paymentMethod: 'mpesa', amount: 10_000 }).fee).toBe(0);
+    expect(feeService.quote({ transactionType: 'merchant_payment', paymentMethod: 'card', amount: 40_000 }).fee).toBe(600);
+    expect(feeService.quote({ transactionType: 'merchant_payment', paymentMethod: 'card', amount: 80_000 }).fee).toBe(1_300);
+    expect(feeService.quote({ transactionType: 'top_up', paymentMethod: 'wallet', amount: 80_000 }).fee).toBe(0);
+    expect(feeService.quote({ transactionType: 'withdrawal', paymentMethod: 'mpesa', amount: 50_000 })).toMatchObject({
+      fee: 0,
+      standardFee: 700,
+      promotion: 'December free withdrawals',
+    });
+
+    const afterPromotion = new FeeService({ schedule, clock: { now: () => new Date(now.getTime() + 2 * DAY) } });
+    expect(afterPromotion.quote({ transactionType: 'withdrawal', paymentMethod: 'mpesa', amount: 50_000 }).fee).toBe(700);
+    expect(afterPromotion.listCurrentPromotions()).toEqual([]);
+  });
+
+  it('rejects schedules whose bands leave a gap', () => {
+    expect(
+      () =>
+        new FeeService({
+          schedule: {
+            rules: [
+              {
+                transactionType: 'withdrawal',
+                paymentMethod: 'mpesa',
+                bands: [
+                  { minAmount: 0, maxAmount: 10_000, flatFee: 0, percentageBps: 0 },
+                  { minAmount: 20_000, maxAmount: null, flatFee: 700, percentageBps: 0 },
+                ],
+              },
+            ],
+            promotions: [],
+          },
+        }),
+    ).toThrow('Fee rule withdrawal:mpesa bands must be in ascending order without gaps or overlaps');
+  });
+
+  it('holds a withdrawal fee with the amount and books it as fee income on capture', async () => {
+    const { services, user } = env;
+    const { fee } = services.feeService.quote({ transactionType: 'withdrawal', paymentMethod: 'mpesa', amount: 50_000 });
+    const transactionId = randomUUID();
+
+    await services.walletService.placeHold({
+      userId: user.id,
+      walletType: 'main',
+      amount: 50_000,
+      fee,
+      transactionId,
+      description: 'Withdrawal to 254712345678',
+    });
+    const withdrawal = await services.transactionService.create({
+      id: transactionId,
+      userId: user.id,
+      type: 'withdrawal',
+      amount: 50_000,
+      category: 'transfer',
+      metadata: { fee },
+    });
+
+    let main = await env.helpers.refreshWallet('main');
+    expect(main.availableBalance).toBe(100_000 - 50_700);
+
+    await services.settlementService.completeWithdrawal(withdrawal);
+
+    main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(49_300);
+    expect(await services.ledgerService.getWalletBalance(main.id)).toBe(49_300);
+    expect(await feesCollected()).toBe(700);
+  });
+
+  it('returns the fee when a withdrawal hold is released', async () => {
+    const { services, user } = env;
+    const transactionId = randomUUID();
+    await services.walletService.placeHold({
+      userId: user.id,
+      walletType: 'main',
+      amount: 50_000,
+      fee: 700,
+      transactionId,
+      description: 'Withdrawal to 254712345678',
+    });
+
+    await services.walletService.releaseHold(transactionId);
+
+    const main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(100_000);
+    expect(main.availableBalance).toBe(100_000);
+    expect(await feesCollected()).toBe(0);
+  });
+
+  it('moves a top-up fee from Paystack clearing into the fees account', async () => {
+    const { services, user } = env;
+    const deposit = await services.paymentService.initializeDeposit({
+      depositId: randomUUID(),
+      userId: user.id,
+      amount: 20_000,
+      fee: 300,
+      customerEmail: user.email,
+    });
+
+    expect(deposit.depositTransaction.fee).toBe(300);
+    await services.settlementService.completeCharge(deposit.depositTransaction);
+
+    const main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(120_000);
+    expect(await feesCollected()).toBe(300);
+    // Clearing holds the 100_000 opening top-up plus the 20_300 charged for this one
+    expect(await services.ledgerService.getAccountBalance(systemAccountId('paystack_clearing'))).toBe(120_300);
+  });
+});
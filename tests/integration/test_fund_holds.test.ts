@@ -0,0 +1,161 @@
+/**
+ * Integration Scenario: Fund Holds for Pending Payments, Transfers and Withdrawals
+ *
+ * 1. A hold lowers the available balance only; the balance moves when the hold is captured
+ * 2. Settling a merchant payment captures its hold and posts the debit to the ledger
+ * 3. A failed payment or withdrawal releases its hold
+ * 4. Expired holds are released, and a transaction settling afterwards is debited directly
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Integration: Fund Holds', () => {
+  let env: IntegrationTestEnvironment;
+
+  const ledgerBalance = (walletId: string) => env.services.ledgerService.getWalletBalance(walletId);
+
+  const payMerchant = async (amount: number) => {
+    const { services, helpers, user } = env;
+    return services.paymentService.payMerchant({
+      paymentId: randomUUID(),
+      userId: user.id,
+      amount,
+      pinToken: await helpers.issuePinToken('4826'),
+      merchantInfo: { name: 'Java House' },
+      customerEmail: user.email,
+    });
+  };
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    await env.helpers.topUpMainWallet(100_000);
+  });
+
+  it('reserves available funds without touching the balance or the ledger', async () => {
+    const { services, user } = env;
+    const transactionId = randomUUID();
+
+    const hold = await services.walletService.placeHold({
+      userId: user.id,
+      walletType: 'main',
+      amount: 70_000,
+      transactionId,
+      description: 'Withdrawal to 254712345678',
+    });
+
+    expect(hold).toMatchObject({ status: 'held', amount: 70_000, transactionId, settledAt: null });
+    const main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(100_000);
+    expect(main.availableBalance).toBe(30_000);
+    expect(await ledgerBalance(main.id)).toBe(100_000);
+
+    await expect(
+      services.walletService.debit({ userId: user.id, walletType: 'main', amount: 40_000 }),
+    ).rejects.toThrow('Insufficient funds');
+    await expect(
+      services.walletService.placeHold({
+        userId: user.id,
+        walletType: 'main',
+        amount: 1_000,
+        transactionId,
+        description: 'Withdrawal to 254712345678',
+      }),
+    ).rejects.toThrow('Transaction already has funds on hold');
+  });
+
+  it('captures the hold when a merchant payment settles', async () => {
+    const { services } = env;
+    const payment = await payMerchant(48_200);
+
+    let main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(100_000 - 800);
+    expect(main.availableBalance).toBe(100_000 - 49_000);
+
+    await services.settlementService.completeCharge(payment.paymentTransaction);
+
+    main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(51_000);
+    expect(main.availableBalance).toBe(51_000);
+    expect(await ledgerBalance(main.id)).toBe(51_000);
+    expect(await services.walletService.getHold(payment.paymentTransaction.id)).toMatchObject({
+      status: 'captured',
+      settledAt: expect.any(Date),
+    });
+
+    // Settling again neither captures twice nor debits directly
+    await services.settlementService.completeCharge(payment.paymentTransaction);
+    expect((await env.helpers.refreshWallet('main')).balance).toBe(51_000);
+  });
+
+  it('releases the hold when a merchant payment fails', async () => {
+    const { services } = env;
+    const payment = await payMerchant(48_200);
+
+    await services.settlementService.failCharge(payment.paymentTransaction);
+
+    const main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(100_000);
+    expect(main.availableBalance).toBe(100_000);
+    expect(await ledgerBalance(main.id)).toBe(100_000);
+    expect((await services.walletService.getHold(payment.paymentTransaction.id))?.status).toBe('released');
+  });
+
+  it('captures or releases withdrawal holds as the payout settles', async () => {
+    const { services, user } = env;
+    const withdraw = async (amount: number) => {
+      const transactionId = randomUUID();
+      await services.walletService.placeHold({
+        userId: user.id,
+        walletType: 'main',
+        amount,
+        transactionId,
+        description: 'Withdrawal to 254712345678',
+      });
+      return services.transactionService.create({
+        id: transactionId,
+        userId: user.id,
+        type: 'withdrawal',
+        amount,
+        category: 'transfer',
+      });
+    };
+
+    const paidOut = await withdraw(30_000);
+    const bounced = await withdraw(20_000);
+    await services.settlementService.completeWithdrawal(paidOut);
+    await services.settlementService.failWithdrawal(bounced);
+
+    const main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(70_000);
+    expect(main.availableBalance).toBe(70_000);
+    expect(await ledgerBalance(main.id)).toBe(70_000);
+    const transactions = await env.helpers.refreshTransactions();
+    expect(transactions.find((transaction) => transaction.id === paidOut.id)?.status).toBe('completed');
+    expect(transactions.find((transaction) => transaction.id === bounced.id)?.status).toBe('failed');
+  });
+
+  it('releases expired holds and debits directly if the payment settles afterwards', async () => {
+    const { services } = env;
+    const payment = await payMerchant(48_200);
+
+    expect(await services.walletService.expireHolds({ now: new Date(Date.now() + HOUR) })).toHaveLength(0);
+    const expired = await services.walletService.expireHolds({ now: new Date(Date.now() + 73 * HOUR) });
+
+    expect(expired.map((hold) => hold.transactionId)).toEqual([payment.paymentTransaction.id]);
+    expect(expired[0]?.status).toBe('expired');
+    let main = await env.helpers.refreshWallet('main');
+    expect(main.availableBalance).toBe(main.balance);
+
+    await services.settlementService.completeCharge(payment.paymentTransaction);
+
+    main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(51_000);
+    expect(main.availableBalance).toBe(51_000);
+    expect(await ledgerBalance(main.id)).toBe(51_000);
+  });
+});
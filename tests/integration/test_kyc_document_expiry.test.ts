@@ -0,0 +1,205 @@
+/**
+ * Integration Scenario: KYC Document Expiry
+ *
+ * 1. Approving a document records the expiry date read off it
+ * 2. The scheduled check warns the user once at 30 days and once at 7 days before expiry
+ * 3. On expiry the document is marked expired and the user drops back to pending, with basic limits
+ * 4. GET /kyc/documents reports the expiry state and asks for a new document
+ * 5. A replacement can be uploaded ahead of time, and approving it restores the user's verification
+ * 6. The same document can be renewed again once its replacement nears expiry
+ * 7. A notification that cannot be sent does not stop the check for other documents
+ */
+
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { executeRoute } from '../../api/src/routes/handler';
+import { createKYCRoutes } from '../../api/src/routes/kyc';
+import { HttpResponse, RouteHandler } from '../../api/src/routes/types';
+import { KYCService } from '../../api/src/services/KYCService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PASSPORT_EXPIRY = new Date('2026-06-01T00:00:00.000Z');
+
+describe('Integration: KYC Document Expiry', () => {
+  let env: IntegrationTestEnvironment;
+  let now: Date;
+  let kycService: KYCService;
+  let routes: ReturnType<typeof createKYCRoutes>;
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    now = new Date('2026-03-02T09:00:00.000Z');
+    const clock = { now: () => now };
+    kycService = new KYCService({
+      repository: env.repositories.kycDocumentRepository,
+      uploadAttemptRepository: env.repositories.kycUploadAttemptRepository,
+      reviewCaseRepository: env.repositories.kycReviewCaseRepository,
+      userRepository: env.repositories.userRepository,
+      documentVault: env.services.documentVault,
+      notificationService: env.stubs.notificationService,
+      clock,
+    });
+    routes = createKYCRoutes({ kycService, documentUrls: env.services.documentUrls, clock });
+    await env.repositories.userRepository.update(env.user.id, { kycStatus: 'approved', kycApprovedAt: now });
+  });
+
+  const approvePassport = async (expiryDate: Date, documentType: 'passport' | 'national_id' = 'passport') => {
+    const document = await kycService.uploadDocument({
+      userId: env.user.id,
+      documentType,
+      filePath: `kyc/${env.user.id}/${randomUUID()}/${documentType}.jpg`,
+      fileName: `${documentType}.jpg`,
+      fileSize: 256_000,
+      mimeType: 'image/jpeg',
+      encrypted: true,
+      accessHash: randomUUID().replace(/-/g, ''),
+    });
+    return kycService.updateStatus({
+      documentId: document.id,
+      status: 'approved',
+      extractedData: { fullName: 'Sarah Wambui', idNumber: 'A1234567', expiryDate },
+    });
+  };
+
+  const checkOn = (date: string) => {
+    now = new Date(date);
+    return kycService.checkDocumentExpiry();
+  };
+
+  const listDocuments = (): Promise<HttpResponse<any>> =>
+    executeRoute(routes.listDocuments as RouteHandler, { body: undefined, params: {}, query: {}, headers: {}, userId: env.user.id });
+
+  const expiryNotifications = () =>
+    env.helpers
+      .listNotifications()
+      .map((entry) => entry.payload.data as Record<string, unknown> | undefined)
+      .filter((data) => data?.type === 'kyc_document_expiring' || data?.type === 'kyc_document_expired');
+
+  it('warns at 30 and 7 days, then expires the document and drops the user to pending', async () => {
+    const passport = await approvePassport(PASSPORT_EXPIRY);
+    expect(passport.expiresAt).toEqual(PASSPORT_EXPIRY);
+
+    expect(await checkOn('2026-04-20T09:00:00.000Z')).toEqual({ warned: [], expired: [] });
+
+    const first = await checkOn('2026-05-05T09:00:00.000Z');
+    expect(first.warned.map((doc) => doc.expiryWarningDays)).toEqual([30]);
+    expect((await checkOn('2026-05-06T09:00:00.000Z')).warned).toHaveLength(0);
+
+    const second = await checkOn('2026-05-27T09:00:00.000Z');
+    expect(second.warned.map((doc) => doc.expiryWarningDays)).toEqual([7]);
+    expect((await checkOn('2026-05-28T09:00:00.000Z')).warned).toHaveLength(0);
+
+    const expiring = await listDocuments();
+    expect(expiring.body.documents[0]).toMatchObject({
+      status: 'approved',
+      expires_at: '2026-06-01',
+      expiry_state: 'expiring_soon',
+      days_until_expiry: 4,
+    });
+    expect(expiring.body.reverification_required).toBe(true);
+
+    const expiry = await checkOn('2026-06-01T00:30:00.000Z');
+    expect(expiry.expired.map((doc) => doc.id)).toEqual([passport.id]);
+    expect(await kycService.getDocument(passport.id)).toMatchObject({ status: 'expired', verificationNotes: 'Expired on 2026-06-01' });
+    expect(await env.helpers.refreshUser()).toMatchObject({ kycStatus: 'pending', kycApprovedAt: null });
+
+    expect(expiryNotifications()).toEqual([
+      expect.objectContaining({ type: 'kyc_document_expiring', daysLeft: 27 }),
+      expect.objectContaining({ type: 'kyc_document_expiring', daysLeft: 5 }),
+      expect.objectContaining({ type: 'kyc_document_expired', documentId: passport.id, limitsReduced: true }),
+    ]);
+
+    const expired = await listDocuments();
+    expect(expired.body.documents[0]).toMatchObject({ status: 'expired', expiry_state: 'expired', days_until_expiry: null });
+    expect(expired.body.reverification_required).toBe(true);
+    expect(expired.body.kyc_status).toBe('pending');
+
+    expect((await checkOn('2026-06-02T09:00:00.000Z')).expired).toHaveLength(0);
+  });
+
+  it('lets a replacement be uploaded early and keeps the user verified when it is approved in time', async () => {
+    await approvePassport(PASSPORT_EXPIRY);
+
+    const upload = () =>
+      executeRoute(routes.initiateUpload as RouteHandler, {
+        body: { document_type: 'passport', file_name: 'new-passport.jpg', file_size: 300_000, mime_type: 'image/jpeg' },
+        params: {},
+        query: {},
+        headers: {},
+        userId: env.user.id,
+      }) as Promise<HttpResponse<any>>;
+
+    const tooEarly = await upload();
+    expect(tooEarly.status).toBe(409);
+    expect(tooEarly.body.code).toBe('DOCUMENT_TYPE_LOCKED');
+
+    now = new Date('2026-05-10T09:00:00.000Z');
+    const replacement = await upload();
+    expect(replacement.status).toBe(201);
+    expect((await listDocuments()).body.reverification_required).toBe(false);
+
+    await kycService.updateStatus({
+      documentId: replacement.body.document_id,
+      status: 'approved',
+      extractedData: { fullName: 'Sarah Wambui', expiryDate: new Date(PASSPORT_EXPIRY.getTime() + 3650 * DAY_MS) },
+    });
+
+    await checkOn('2026-06-01T09:00:00.000Z');
+    expect(await env.helpers.refreshUser()).toMatchObject({ kycStatus: 'approved' });
+    expect(expiryNotifications().at(-1)).toMatchObject({ type: 'kyc_document_expired', limitsReduced: false });
+
+    const documents = await listDocuments();
+    expect(documents.body.kyc_status).toBe('approved');
+    expect(documents.body.reverification_required).toBe(false);
+  });
+
+  it('restores the user to approved once a replacement for an expired document is approved', async () => {
+    await approvePassport(PASSPORT_EXPIRY);
+    await checkOn('2026-06-01T09:00:00.000Z');
+    expect((await env.helpers.refreshUser()).kycStatus).toBe('pending');
+
+    const replacement = await approvePassport(new Date('2036-06-01T00:00:00.000Z'));
+
+    expect(replacement.expiresAt).toEqual(new Date('2036-06-01T00:00:00.000Z'));
+    expect(await env.helpers.refreshUser()).toMatchObject({ kycStatus: 'approved', kycApprovedAt: now });
+  });
+
+  it('renews the same document a second time once the first replacement nears expiry', async () => {
+    await approvePassport(PASSPORT_EXPIRY);
+
+    now = new Date('2026-05-10T09:00:00.000Z');
+    const firstRenewal = await approvePassport(new Date('2031-06-01T00:00:00.000Z'));
+    expect(firstRenewal.status).toBe('approved');
+
+    now = new Date('2026-05-11T09:00:00.000Z');
+    await expect(approvePassport(new Date('2036-06-01T00:00:00.000Z'))).rejects.toThrow(
+      'An approved document already exists for this type',
+    );
+
+    now = new Date('2031-05-10T09:00:00.000Z');
+    const secondRenewal = await approvePassport(new Date('2036-06-01T00:00:00.000Z'));
+    expect(secondRenewal).toMatchObject({ status: 'approved', expiresAt: new Date('2036-06-01T00:00:00.000Z') });
+
+    await checkOn('2031-06-01T09:00:00.000Z');
+    expect(await env.helpers.refreshUser()).toMatchObject({ kycStatus: 'approved' });
+    expect((await listDocuments()).body.reverification_required).toBe(false);
+  });
+
+  it('keeps checking other documents when an expiry notification cannot be sent', async () => {
+    const passport = await approvePassport(PASSPORT_EXPIRY);
+    const nationalId = await approvePassport(PASSPORT_EXPIRY, 'national_id');
+    const notifyUser = jest.spyOn(env.stubs.notificationService, 'notifyUser');
+
+    notifyUser.mockRejectedValueOnce(new Error('Push service unavailable'));
+    const warning = await checkOn('2026-05-05T09:00:00.000Z');
+    expect(warning.warned.map((doc) => doc.id).sort()).toEqual([passport.id, nationalId.id].sort());
+
+    notifyUser.mockRejectedValueOnce(new Error('Push service unavailable'));
+    const expiry = await checkOn('2026-06-01T00:30:00.000Z');
+    expect(expiry.expired.map((doc) => doc.id).sort()).toEqual([passport.id, nationalId.id].sort());
+    expect(await env.helpers.refreshUser()).toMatchObject({ kycStatus: 'pending' });
+    expect(expiryNotifications()).toHaveLength(2);
+  });
+});
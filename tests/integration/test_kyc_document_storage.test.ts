@@ -0,0 +1,158 @@
+/**
+ * Integration Scenario: KYC Document Storage
+ *
+ * 1. Starting an upload returns a signed, expiring link; the document waits in uploaded until the file arrives
+ * 2. The file must match the declared size and type, then it is encrypted at rest and the document moves to processing
+ * 3. The signed download link serves the decrypted file back
+ * 4. Altered, misused and expired links are refused
+ * 5. Approving a replacement deletes the file of the document it replaces
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { executeRoute } from '../../api/src/routes/handler';
+import { createKYCRoutes } from '../../api/src/routes/kyc';
+import { HttpResponse, RouteHandler } from '../../api/src/routes/types';
+import { SignedDocumentUrls } from '../../api/src/services/SignedDocumentUrls';
+
+const JPEG_MAGIC = [0xff, 0xd8, 0xff, 0xe0];
+const PNG_MAGIC = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const imageBytes = (magic: number[], size: number) => {
+  const content = Buffer.alloc(size, 'ZANARI-ID-SCAN ');
+  Buffer.from(magic).copy(content);
+  return content;
+};
+
+describe('Integration: KYC Document Storage', () => {
+  let env: IntegrationTestEnvironment;
+  let now: Date;
+  let routes: ReturnType<typeof createKYCRoutes>;
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    now = new Date('2026-03-02T09:00:00.000Z');
+    const clock = { now: () => now };
+    const documentUrls = new SignedDocumentUrls({ secret: 'kyc-link-secret-for-integration-tests', baseUrl: 'https://api.zanari.test', clock });
+    routes = createKYCRoutes({ kycService: env.services.kycService, documentUrls, clock });
+  });
+
+  const initiate = async (fileSize: number): Promise<{ documentId: string; uploadUrl: string }> => {
+    const response: HttpResponse<any> = await executeRoute(routes.initiateUpload as RouteHandler, {
+      body: { document_type: 'national_id', file_name: 'front of id.jpg', file_size: fileSize, mime_type: 'image/jpeg' },
+      params: {},
+      query: {},
+      headers: {},
+      userId: env.user.id,
+    });
+    expect(response.status).toBe(201);
+    return { documentId: response.body.document_id, uploadUrl: response.body.signed_upload_url };
+  };
+
+  // Splits a signed link into the route params and query Express would hand the handler
+  const follow = (handler: RouteHandler, link: string, body?: Buffer): Promise<HttpResponse<any>> => {
+    const url = new URL(link);
+    return executeRoute(handler, {
+      body,
+      params: { documentId: url.pathname.split('/')[3]! },
+      query: Object.fromEntries(url.searchParams),
+      headers: {},
+    });
+  };
+
+  const listDocuments = (): Promise<HttpResponse<any>> =>
+    executeRoute(routes.listDocuments as RouteHandler, { body: undefined, params: {}, query: {}, headers: {}, userId: env.user.id });
+
+  it('encrypts the uploaded file, moves the document to processing and serves it back', async () => {
+    const { documentId, uploadUrl } = await initiate(4096);
+    expect((await env.services.kycService.getDocument(documentId)).status).toBe('uploaded');
+    expect((await listDocuments()).body.documents[0].secure_download_url).toBeNull();
+
+    const content = imageBytes(JPEG_MAGIC, 4096);
+    const uploaded = await follow(routes.uploadDocumentFile as RouteHandler, uploadUrl, content);
+
+    expect(uploaded.status).toBe(200);
+    expect(uploaded.body).toMatchObject({ document_id: documentId, status: 'processing' });
+
+    const document = await env.services.kycService.getDocument(documentId);
+    expect(document).toMatchObject({ status: 'processing', encrypted: true, encryptedDataKey: expect.any(String) });
+    expect(document.filePath).toMatch(new RegExp(`^kyc/${env.user.id}/[^/]+/front_of_id\\.jpg$`));
+
+    const stored = await env.stubs.documentStorage.get(document.filePath!);
+    expect(stored).not.toBeNull();
+    expect(stored!.includes(Buffer.from('ZANARI-ID-SCAN'))).toBe(false);
+
+    const downloadUrl = (await listDocuments()).body.documents[0].secure_download_url;
+    expect(downloadUrl).toMatch(new RegExp(`^https://api\\.zanari\\.test/kyc/documents/${documentId}/file\\?`));
+
+    const downloaded = await follow(routes.downloadDocumentFile as RouteHandler, downloadUrl);
+    expect(downloaded.status).toBe(200);
+    expect(downloaded.headers).toMatchObject({ 'Content-Type': 'image/jpeg', 'Cache-Control': 'private, no-store' });
+    expect(Buffer.compare(downloaded.body, content)).toBe(0);
+
+    const again = await follow(routes.uploadDocumentFile as RouteHandler, uploadUrl, content);
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('UPLOAD_ALREADY_RECEIVED');
+  });
+
+  it('rejects files whose size or content does not match what was declared', async () => {
+    const { documentId, uploadUrl } = await initiate(4096);
+
+    const truncated = await follow(routes.uploadDocumentFile as RouteHandler, uploadUrl, imageBytes(JPEG_MAGIC, 2048));
+    expect(truncated.status).toBe(400);
+    expect(truncated.body).toMatchObject({ code: 'FILE_SIZE_MISMATCH', declared_bytes: 4096, received_bytes: 2048 });
+
+    const png = await follow(routes.uploadDocumentFile as RouteHandler, uploadUrl, imageBytes(PNG_MAGIC, 4096));
+    expect(png.status).toBe(400);
+    expect(png.body).toMatchObject({ code: 'FILE_TYPE_MISMATCH', declared_mime_type: 'image/jpeg', detected_mime_type: 'image/png' });
+
+    const document = await env.services.kycService.getDocument(documentId);
+    expect(document).toMatchObject({ status: 'uploaded', encrypted: false, encryptedDataKey: null });
+    expect(await env.stubs.documentStorage.get(document.filePath!)).toBeNull();
+  });
+
+  it('refuses altered, misused and expired links', async () => {
+    const first = await initiate(4096);
+    const second = await initiate(4096);
+    const content = imageBytes(JPEG_MAGIC, 4096);
+
+    const tampered = first.uploadUrl.slice(0, -1) + (first.uploadUrl.endsWith('A') ? 'B' : 'A');
+    const otherDocument = second.uploadUrl.replace(second.documentId, first.documentId);
+    const asDownload = first.uploadUrl.replace(`/kyc/uploads/${first.documentId}`, `/kyc/documents/${first.documentId}/file`);
+
+    for (const link of [tampered, otherDocument]) {
+      const response = await follow(routes.uploadDocumentFile as RouteHandler, link, content);
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('INVALID_SIGNATURE');
+    }
+    const download = await follow(routes.downloadDocumentFile as RouteHandler, asDownload);
+    expect(download.status).toBe(403);
+    expect(download.body.code).toBe('INVALID_SIGNATURE');
+
+    now = new Date(now.getTime() + 601_000);
+    const expired = await follow(routes.uploadDocumentFile as RouteHandler, first.uploadUrl, content);
+    expect(expired.status).toBe(403);
+    expect(expired.body.code).toBe('URL_EXPIRED');
+    expect((await env.services.kycService.getDocument(first.documentId)).status).toBe('uploaded');
+  });
+
+  it('deletes the file of an earlier document once its replacement is approved', async () => {
+    const first = await initiate(4096);
+    await follow(routes.uploadDocumentFile as RouteHandler, first.uploadUrl, imageBytes(JPEG_MAGIC, 4096));
+    const replaced = await env.services.kycService.getDocument(first.documentId);
+    const second = await initiate(4096);
+    await follow(routes.uploadDocumentFile as RouteHandler, second.uploadUrl, imageBytes(JPEG_MAGIC, 4096));
+
+    await env.helpers.approveKyc(second.documentId);
+
+    await expect(env.services.kycService.getDocument(first.documentId)).resolves.toMatchObject({
+      status: 'processing',
+      filePath: null,
+      encryptedDataKey: null,
+    });
+    await expect(env.stubs.documentStorage.get(replaced.filePath!)).resolves.toBeNull();
+    await expect(env.services.kycService.readDocumentFile(first.documentId)).resolves.toBeNull();
+    await expect(env.services.kycService.readDocumentFile(second.documentId)).resolves.not.toBeNull();
+  });
+});
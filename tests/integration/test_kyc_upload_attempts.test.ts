@@ -0,0 +1,132 @@
+/**
+ * Integration Scenario: KYC Upload Attempt Limits
+ *
+ * 1. Upload attempts per document type are stored, so the limit holds across restarts and instances
+ * 2. Using the last attempt blocks the type, opens a review case and tells the user when to retry
+ * 3. The count starts again once the block runs out
+ * 4. An admin resolving the case lets the user upload again straight away
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { KYCDocumentType } from '../../api/src/models/KYCDocument';
+import { createAdminRoutes } from '../../api/src/routes/admin';
+import { executeRoute } from '../../api/src/routes/handler';
+import { createKYCRoutes } from '../../api/src/routes/kyc';
+import { HttpResponse, RouteHandler } from '../../api/src/routes/types';
+import { KYCService } from '../../api/src/services/KYCService';
+
+describe('Integration: KYC Upload Attempt Limits', () => {
+  let env: IntegrationTestEnvironment;
+  let now: Date;
+
+  // A fresh service and routes per call stand in for separate API instances or restarts
+  const kycRoutes = () => {
+    const clock = { now: () => now };
+    const kycService = new KYCService({
+      repository: env.repositories.kycDocumentRepository,
+      uploadAttemptRepository: env.repositories.kycUploadAttemptRepository,
+      reviewCaseRepository: env.repositories.kycReviewCaseRepository,
+      userRepository: env.repositories.userRepository,
+      documentVault: env.services.documentVault,
+      notificationService: env.stubs.notificationService,
+      clock,
+    });
+    return createKYCRoutes({ kycService, documentUrls: env.services.documentUrls, clock });
+  };
+
+  const upload = (documentType: KYCDocumentType = 'national_id'): Promise<HttpResponse<any>> =>
+    executeRoute(kycRoutes().initiateUpload as RouteHandler, {
+      body: { document_type: documentType, file_name: `${documentType}.jpg`, file_size: 500_000, mime_type: 'image/jpeg' },
+      params: {},
+      query: {},
+      headers: {},
+      userId: env.user.id,
+    });
+
+  const admin = (handler: 'listKycReviewCases' | 'resolveKycReviewCase', params: Record<string, string> = {}, body?: unknown) =>
+    executeRoute(createAdminRoutes({ adminService: env.services.adminService })[handler] as RouteHandler, {
+      body,
+      params,
+      query: {},
+      headers: {},
+      adminId: 'alice',
+    }) as Promise<HttpResponse<any>>;
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    now = new Date('2026-03-02T09:00:00Z');
+  });
+
+  it('blocks the document type after the last attempt, across instances, and opens a review case', async () => {
+    expect((await upload()).body.remaining_attempts).toBe(2);
+    expect((await upload()).body.remaining_attempts).toBe(1);
+    expect((await upload()).body.remaining_attempts).toBe(0);
+
+    const blocked = await upload();
+    expect(blocked.status).toBe(429);
+    expect(blocked.body).toMatchObject({ code: 'MAX_ATTEMPTS_REACHED', retry_at: '2026-03-04T09:00:00.000Z' });
+    expect((await upload('passport')).status).toBe(201);
+
+    const notification = env.helpers.listNotifications().find((entry) => entry.payload.title === 'KYC upload limit reached');
+    expect(notification?.payload.body).toContain('Wed, 04 Mar 2026 09:00:00 GMT');
+    expect(notification?.payload.data).toMatchObject({ documentType: 'national_id', retryAt: '2026-03-04T09:00:00.000Z' });
+
+    const cases = await admin('listKycReviewCases');
+    expect(cases.body.cases).toEqual([
+      expect.objectContaining({
+        user_id: env.user.id,
+        document_type: 'national_id',
+        reason: 'upload_attempts_exhausted',
+        status: 'open',
+        retry_at: '2026-03-04T09:00:00.000Z',
+      }),
+    ]);
+
+    const documents = await executeRoute(kycRoutes().listDocuments as RouteHandler, {
+      body: undefined,
+      params: {},
+      query: {},
+      headers: {},
+      userId: env.user.id,
+    });
+    expect((documents.body as { remaining_attempts: Record<string, number> }).remaining_attempts).toMatchObject({
+      national_id: 0,
+      passport: 2,
+    });
+  });
+
+  it('starts counting again once the block runs out', async () => {
+    await upload();
+    await upload();
+    await upload();
+
+    now = new Date('2026-03-04T09:00:01Z');
+    const retried = await upload();
+
+    expect(retried.status).toBe(201);
+    expect(retried.body.remaining_attempts).toBe(2);
+  });
+
+  it('lets the user upload again as soon as an admin resolves the case', async () => {
+    await upload();
+    await upload();
+    await upload();
+    const [openCase] = (await admin('listKycReviewCases')).body.cases;
+
+    const resolved = await admin('resolveKycReviewCase', { caseId: openCase.id }, { notes: 'Talked the user through taking a sharp photo' });
+    expect(resolved.status).toBe(200);
+    expect(resolved.body.case).toMatchObject({ status: 'resolved', resolved_by: 'alice' });
+
+    expect((await upload()).body.remaining_attempts).toBe(2);
+    expect((await admin('listKycReviewCases')).body.cases).toEqual([]);
+
+    const again = await admin('resolveKycReviewCase', { caseId: openCase.id });
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('REVIEW_CASE_ALREADY_RESOLVED');
+
+    const [entry] = env.repositories.adminAuditLogRepository.list();
+    expect(entry).toMatchObject({ action: 'kyc_review_case_resolved', targetType: 'kyc_review_case', targetId: openCase.id });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Integration Scenario: Automatic KYC Verification
+ *
+ * 1. A document reaching processing is handed to the verification provider
+ * 2. A readable document carrying the user's own name is approved with its fields filled in
+ * 3. Unreadable and expired documents are rejected with the provider's reasons
+ * 4. Name mismatches, weak selfie matches and provider errors are held in processing for an admin
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { extractedNameMatches, KYCDocumentType } from '../../api/src/models/KYCDocument';
+import { FakeKYCVerificationProvider } from '../../api/src/services/FakeKYCVerificationProvider';
+import { KYCService } from '../../api/src/services/KYCService';
+import { KYCVerificationProvider } from '../../api/src/services/types';
+
+describe('Integration: Automatic KYC Verification', () => {
+  let env: IntegrationTestEnvironment;
+  let kycService: KYCService;
+
+  const useProvider = (verificationProvider: KYCVerificationProvider) => {
+    kycService = new KYCService({
+      repository: env.repositories.kycDocumentRepository,
+      uploadAttemptRepository: env.repositories.kycUploadAttemptRepository,
+      reviewCaseRepository: env.repositories.kycReviewCaseRepository,
+      userRepository: env.repositories.userRepository,
+      documentVault: env.services.documentVault,
+      notificationService: env.stubs.notificationService,
+      verificationProvider,
+    });
+  };
+
+  const submit = async (documentType: KYCDocumentType, fileName = `${documentType}.jpg`) => {
+    const document = await kycService.uploadDocument({
+      userId: env.user.id,
+      documentType,
+      filePath: `/tmp/${randomUUID()}.jpg`,
+      fileName,
+      fileSize: 256_000,
+      mimeType: 'image/jpeg',
+      encrypted: true,
+      accessHash: 'mock-access-hash',
+    });
+    return kycService.updateStatus({ documentId: document.id, status: 'processing' });
+  };
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    useProvider(new FakeKYCVerificationProvider());
+  });
+
+  it("approves an ID carrying the user's name and fills in what was read off it", async () => {
+    const document = await submit('national_id');
+
+    expect(document.status).toBe('approved');
+    expect(document.extractedData).toMatchObject({
+      fullName: `${env.user.firstName} ${env.user.lastName}`,
+      idNumber: expect.stringMatching(/^\d{8}$/),
+      expiryDate: null,
+    });
+    expect(env.helpers.listNotifications()).toContainEqual(
+      expect.objectContaining({ userId: env.user.id, payload: expect.objectContaining({ title: 'KYC Approved' }) }),
+    );
+  });
+
+  it('holds a document with someone else’s name for manual review', async () => {
+    const document = await submit('national_id', 'national_id_mismatch.jpg');
+
+    expect(document.status).toBe('processing');
+    expect(document.extractedData?.fullName).toBe('John Kamau');
+    expect(document.verificationNotes).toBe('Manual review: Name on the document does not match the profile');
+    expect(env.helpers.listNotifications()).toHaveLength(0);
+
+    const [queued] = await env.services.adminService.listReviewQueue({ limit: 10, offset: 0 });
+    expect(queued?.id).toBe(document.id);
+  });
+
+  it('rejects unreadable and expired documents with the reasons', async () => {
+    const unreadable = await submit('national_id', 'unreadable.jpg');
+    const expired = await submit('passport', 'passport_expired.jpg');
+
+    expect(unreadable).toMatchObject({ status: 'rejected', verificationNotes: expect.stringContaining('could not be read') });
+    expect(expired).toMatchObject({ status: 'rejected', verificationNotes: 'The document has expired' });
+    expect(env.helpers.listNotifications()).toContainEqual(
+      expect.objectContaining({ payload: expect.objectContaining({ title: 'KYC Requires Attention', body: 'The document has expired' }) }),
+    );
+  });
+
+  it('approves a matching selfie and holds a weak match or a selfie without an ID', async () => {
+    const lonely = await submit('selfie');
+    expect(lonely).toMatchObject({
+      status: 'processing',
+      verificationNotes: 'Manual review: No identity document to compare the selfie with',
+    });
+
+    await submit('national_id');
+    const weak = await submit('selfie', 'selfie_lowmatch.jpg');
+    expect(weak).toMatchObject({ status: 'processing', faceMatchScore: 0.42 });
+    expect(weak.verificationNotes).toContain('Face match score 0.42 is below 0.8');
+
+    const matching = await submit('selfie');
+    expect(matching).toMatchObject({ status: 'approved', faceMatchScore: 0.97 });
+  });
+
+  it('holds the document for review when the provider fails', async () => {
+    useProvider({
+      name: 'broken',
+      verify: async () => {
+        throw new Error('Vendor timed out');
+      },
+    });
+
+    const document = await submit('national_id');
+
+    expect(document).toMatchObject({ status: 'processing', verificationNotes: 'Manual review: Automatic verification failed' });
+  });
+
+  it('compares names ignoring case, accents and extra names on the document', () => {
+    expect(extractedNameMatches('SARAH WANJIKU MUTINDI', 'Sarah', 'Mutindi')).toBe(true);
+    expect(extractedNameMatches('Zoë Ochieng', 'Zoe', 'Ochieng')).toBe(true);
+    expect(extractedNameMatches('Sarah Mwangi', 'Sarah', 'Mutindi')).toBe(false);
+  });
+});
@@ -39,8 +39,8 @@ describe('Integration: P2P Transfer (T029)', () => {
     };
     await repositories.roundUpRuleRepository.save(autoRule);
 
-    await helpers.ensurePin('1234');
-    const pinToken = await helpers.issuePinToken('1234');
+    await helpers.ensurePin('4826');
+    const pinToken = await helpers.issuePinToken('4826');
 
   const transferAmount = 48_200; // KES 482.00
     const recipientPhone = '254712345679';
@@ -66,8 +66,9 @@ describe('Integration: P2P Transfer (T029)', () => {
 
     const mainWallet = await helpers.refreshWallet('main');
     const savingsWallet = await helpers.refreshWallet('savings');
-    expect(mainWallet.balance).toBe(80_000 - transferResult.totalCharged);
-    expect(mainWallet.availableBalance).toBe(mainWallet.balance);
+    expect(mainWallet.availableBalance).toBe(80_000 - transferResult.totalCharged);
+    // The transfer stays in the balance, on hold, until Paystack confirms it
+    expect(mainWallet.balance).toBe(mainWallet.availableBalance + transferAmount);
   expect(savingsWallet.balance).toBe(transferResult.roundUpAmount);
   expect(savingsWallet.availableBalance).toBe(transferResult.roundUpAmount);
 
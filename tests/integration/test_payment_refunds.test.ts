@@ -0,0 +1,197 @@
+/**
+ * Integration Scenario: Merchant Payment Refunds and Disputes
+ *
+ * 1. Admins refund completed payments in full or in part; each refund is a linked transaction
+ * 2. Full refunds return the round-up from savings unless told otherwise
+ * 3. Refunds cannot exceed what is still refundable on the payment
+ * 4. refund.processed webhooks go through the same workflow and are applied once
+ * 5. Dispute webhooks track the dispute on the payment; accepted disputes are refunded
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { createHmac, randomUUID } from 'node:crypto';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { createRefundRoutes } from '../../api/src/routes/refunds';
+import { createWebhookRoutes } from '../../api/src/routes/webhooks';
+import { executeRoute } from '../../api/src/routes/handler';
+import { HttpRequest, RouteHandler } from '../../api/src/routes/types';
+
+const WEBHOOK_SECRET = 'sk_test_webhook_secret';
+
+describe('Integration: Payment Refunds and Disputes', () => {
+  let env: IntegrationTestEnvironment;
+  let refundRoutes: ReturnType<typeof createRefundRoutes>;
+  let webhookRoutes: ReturnType<typeof createWebhookRoutes>;
+
+  const completedPayment = async (amount: number) => {
+    const { services, helpers, user } = env;
+    await helpers.topUpMainWallet(100_000);
+
+    const result = await services.paymentService.payMerchant({
+      paymentId: randomUUID(),
+      userId: user.id,
+      amount,
+      pinToken: await helpers.issuePinToken('4826'),
+      merchantInfo: { name: 'Java House' },
+      customerEmail: user.email,
+    });
+    await services.settlementService.completeCharge(result.paymentTransaction);
+    return result;
+  };
+
+  const refund = (transactionId: string, body: Record<string, unknown> = {}, adminId: string | null = 'ops') =>
+    executeRoute(refundRoutes.refundPayment as RouteHandler, {
+      body,
+      params: { transactionId },
+      query: {},
+      headers: {},
+      adminId: adminId ?? undefined,
+    });
+
+  const deliver = (event: string, data: Record<string, unknown>) => {
+    const rawBody = JSON.stringify({ event, data });
+    const request: HttpRequest = {
+      body: { event, data },
+      params: {},
+      query: {},
+      headers: { 'x-paystack-signature': createHmac('sha512', WEBHOOK_SECRET).update(rawBody).digest('hex') },
+      rawBody,
+    };
+    return executeRoute(webhookRoutes.handlePaystackWebhook as RouteHandler, request);
+  };
+
+  const balances = async () => ({
+    main: (await env.helpers.refreshWallet('main')).balance,
+    savings: (await env.helpers.refreshWallet('savings')).balance,
+  });
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    refundRoutes = createRefundRoutes({ refundService: env.services.refundService });
+    webhookRoutes = createWebhookRoutes({
+      settlementService: env.services.settlementService,
+      refundService: env.services.refundService,
+      webhookEventRepository: env.repositories.webhookEventRepository,
+      webhookSecret: WEBHOOK_SECRET,
+    });
+  });
+
+  it('refunds a payment in full and returns its round-up from savings', async () => {
+    const payment = await completedPayment(48_200);
+    expect(payment.roundUpAmount).toBe(800);
+    expect(await balances()).toEqual({ main: 51_000, savings: 800 });
+
+    const response = await refund(payment.paymentTransaction.id, { reason: 'Order cancelled' });
+
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({
+      refund: {
+        type: 'refund',
+        status: 'completed',
+        amount: 48_200,
+        description: 'Order cancelled',
+        parent_transaction_id: payment.paymentTransaction.id,
+      },
+      payment: { id: payment.paymentTransaction.id, refunded_amount: 48_200 },
+      round_up_returned: 800,
+      refundable_amount: 0,
+    });
+    expect(await balances()).toEqual({ main: 100_000, savings: 0 });
+
+    const roundUp = await env.repositories.transactionRepository.findById(payment.roundUpTransaction!.id);
+    expect(roundUp?.status).toBe('cancelled');
+    expect(env.helpers.listNotifications().some((entry) => entry.payload.title === 'Refund received')).toBe(true);
+  });
+
+  it('supports partial refunds up to the amount paid', async () => {
+    const payment = await completedPayment(48_200);
+
+    const first = await refund(payment.paymentTransaction.id, { amount: 20_000 });
+    expect(first.body).toMatchObject({ round_up_returned: 0, refundable_amount: 28_200 });
+
+    const excessive = await refund(payment.paymentTransaction.id, { amount: 30_000 });
+    expect(excessive.status).toBe(409);
+    expect(excessive.body).toMatchObject({ code: 'REFUND_EXCEEDS_REFUNDABLE' });
+
+    // The last partial refund keeps the round-up in savings when asked to
+    const last = await refund(payment.paymentTransaction.id, { return_round_up: false });
+    expect(last.body).toMatchObject({ refund: { amount: 28_200 }, round_up_returned: 0, refundable_amount: 0 });
+    expect(await balances()).toEqual({ main: 99_200, savings: 800 });
+
+    const refunds = (await env.helpers.refreshTransactions()).filter((transaction) => transaction.type === 'refund');
+    expect(refunds).toHaveLength(2);
+    expect(refunds.every((entry) => entry.relatedTransactionId === payment.paymentTransaction.id)).toBe(true);
+  });
+
+  it('rejects refunds of pending payments and requests without an admin', async () => {
+    const { services, helpers, user } = env;
+    await helpers.topUpMainWallet(100_000);
+    const pending = await services.paymentService.payMerchant({
+      paymentId: randomUUID(),
+      userId: user.id,
+      amount: 10_000,
+      pinToken: await helpers.issuePinToken('4826'),
+      merchantInfo: { name: 'Java House' },
+      customerEmail: user.email,
+    });
+
+    expect((await refund(pending.paymentTransaction.id)).body).toMatchObject({ code: 'PAYMENT_NOT_REFUNDABLE' });
+    expect((await refund(randomUUID())).status).toBe(404);
+    expect((await refund(pending.paymentTransaction.id, {}, null)).status).toBe(401);
+  });
+
+  it('applies refund.processed webhooks once per Paystack refund', async () => {
+    const payment = await completedPayment(48_200);
+    const reference = payment.paymentTransaction.externalReference;
+
+    await deliver('refund.processed', { id: 9001, transaction_reference: reference, amount: 10_000, status: 'processed' });
+    // A replay under a different delivery id still maps to the same Paystack refund
+    await env.services.refundService.refundPayment({
+      transactionId: payment.paymentTransaction.id,
+      amount: 10_000,
+      providerReference: '9001',
+    });
+
+    const updated = await env.repositories.transactionRepository.findById(payment.paymentTransaction.id);
+    expect(updated?.refundedAmount).toBe(10_000);
+    expect((await balances()).main).toBe(61_000);
+  });
+
+  it('tracks disputes and refunds the payment when the dispute is accepted', async () => {
+    const payment = await completedPayment(48_200);
+    const transaction = { reference: payment.paymentTransaction.externalReference };
+
+    await deliver('charge.dispute.create', { id: 31, status: 'awaiting-merchant-feedback', transaction });
+    expect((await env.repositories.transactionRepository.findById(payment.paymentTransaction.id))?.disputeStatus).toBe('open');
+
+    await deliver('charge.dispute.remind', { id: 31, status: 'awaiting-bank-feedback', transaction });
+    expect((await env.repositories.transactionRepository.findById(payment.paymentTransaction.id))?.disputeStatus).toBe(
+      'under_review',
+    );
+
+    const resolved = await deliver('charge.dispute.resolve', {
+      id: 31,
+      resolution: 'merchant-accepted',
+      refund_amount: 48_200,
+      transaction,
+    });
+    expect(resolved.body).toEqual({ received: true });
+
+    const updated = await env.repositories.transactionRepository.findById(payment.paymentTransaction.id);
+    expect(updated).toMatchObject({ disputeStatus: 'accepted', refundedAmount: 48_200 });
+    expect(await balances()).toEqual({ main: 100_000, savings: 0 });
+  });
+
+  it('leaves the payment standing when a dispute is declined', async () => {
+    const payment = await completedPayment(48_200);
+    const transaction = { reference: payment.paymentTransaction.externalReference };
+
+    await deliver('charge.dispute.create', { id: 44, status: 'awaiting-merchant-feedback', transaction });
+    await deliver('charge.dispute.resolve', { id: 44, resolution: 'declined', transaction });
+
+    const updated = await env.repositories.transactionRepository.findById(payment.paymentTransaction.id);
+    expect(updated).toMatchObject({ disputeStatus: 'declined', refundedAmount: 0, status: 'completed' });
+    expect(await balances()).toEqual({ main: 51_000, savings: 800 });
+  });
+});
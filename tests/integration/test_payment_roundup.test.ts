@@ -42,8 +42,8 @@ describe('Integration: Payment with Round-up (T027)', () => {
     await repositories.roundUpRuleRepository.save(autoRule);
 
     // Authenticate the transaction with a valid PIN token.
-    await helpers.ensurePin('1234');
-    const pinToken = await helpers.issuePinToken('1234');
+    await helpers.ensurePin('4826');
+    const pinToken = await helpers.issuePinToken('4826');
 
     // Execute a merchant payment of KES 230.00 (23,000 cents).
     const paymentAmount = 23_000;
@@ -70,11 +70,12 @@ describe('Integration: Payment with Round-up (T027)', () => {
     expect(paymentResult.totalCharged).toBe(paymentAmount + paymentResult.roundUpAmount);
     expect(paymentResult.roundUpTransaction).not.toBeNull();
 
-    // Wallet balances should reflect the deduction and savings transfer.
+    // Wallet balances should reflect the held payment and savings transfer.
     const mainWallet = await helpers.refreshWallet('main');
     const savingsWallet = await helpers.refreshWallet('savings');
-    expect(mainWallet.balance).toBe(100_000 - paymentResult.totalCharged);
-    expect(mainWallet.availableBalance).toBe(mainWallet.balance);
+    expect(mainWallet.availableBalance).toBe(100_000 - paymentResult.totalCharged);
+    // The payment stays in the balance, on hold, until Paystack confirms the charge
+    expect(mainWallet.balance).toBe(mainWallet.availableBalance + paymentAmount);
     expect(savingsWallet.balance).toBe(paymentResult.roundUpAmount);
     expect(savingsWallet.availableBalance).toBe(paymentResult.roundUpAmount);
 
@@ -0,0 +1,283 @@
+/**
+ * Integration Scenario: Paystack Reconciliation Sweeper
+ *
+ * Runs the sweeper against the in-memory app container with a scripted Paystack client:
+ * 1. Pending transactions older than the threshold are settled from Paystack's verify APIs
+ * 2. Failed charges and reversed transfers return wallet debits
+ * 3. Amount mismatches are reported and left pending
+ * 4. Abandoned checkouts are only failed after the abandonment window
+ * 5. Mismatches accumulate in the day's report, readable through the admin routes
+ * 6. Transfers never sent to Paystack, such as payouts held for screening, are left alone
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createInMemoryAppContainer, InMemoryPaystackClient } from '../../api/src/dev/inMemoryAppContainer';
+import { executeRoute } from '../../api/src/routes/handler';
+import { RouteHandler } from '../../api/src/routes/types';
+import { NullLogger } from '../../api/src/services/types';
+
+const HOUR = 60 * 60 * 1000;
+
+class ScriptedPaystackClient extends InMemoryPaystackClient {
+  public chargeOutcomes = new Map<string, { status: 'success' | 'failed' | 'abandoned'; amount?: number }>();
+  public transferOutcomes = new Map<string, 'success' | 'failed' | 'pending' | 'reversed'>();
+
+  async verifyTransaction(reference: string) {
+    const base = await super.verifyTransaction(reference);
+    const outcome = this.chargeOutcomes.get(reference);
+    if (!outcome) {
+      throw new Error(`Transaction reference not found: ${reference}`);
+    }
+    return { ...base, status: outcome.status, amount: outcome.amount ?? base.amount };
+  }
+
+  async verifyTransfer(reference: string) {
+    const base = await super.verifyTransfer(reference);
+    return { ...base, status: this.transferOutcomes.get(reference) ?? 'pending' };
+  }
+}
+
+describe('Integration: Paystack Reconciliation', () => {
+  let paystack: ScriptedPaystackClient;
+  let container: ReturnType<typeof createInMemoryAppContainer>;
+  let userId: string;
+
+  const backdate = async (transactionId: string, ageMs: number) => {
+    const { transactionRepository } = container.repositories;
+    const transaction = await transactionRepository.findById(transactionId);
+    await transactionRepository.update({ ...transaction!, createdAt: new Date(Date.now() - ageMs) });
+  };
+
+  const balance = async (walletType: 'main' | 'savings') =>
+    (await container.services.walletService.getWallet(userId, walletType))!.balance;
+  const available = async (walletType: 'main' | 'savings') =>
+    (await container.services.walletService.getWallet(userId, walletType))!.availableBalance;
+
+  const startDeposit = async (amount: number) => {
+    const depositId = randomUUID();
+    await container.services.paymentService.initializeDeposit({
+      depositId,
+      userId,
+      amount,
+      customerEmail: container.seedUser.email,
+    });
+    return depositId;
+  };
+
+  beforeEach(async () => {
+    paystack = new ScriptedPaystackClient();
+    container = createInMemoryAppContainer({ logger: NullLogger, paystackClient: paystack });
+    const user = await container.repositories.userRepository.findByEmail(container.seedUser.email);
+    userId = user!.id;
+  });
+
+  it('credits a lost top-up that Paystack reports as paid', async () => {
+    const depositId = await startDeposit(25_000);
+    await backdate(depositId, HOUR);
+    paystack.chargeOutcomes.set(depositId, { status: 'success' });
+
+    const result = await container.services.reconciliationService.sweep();
+
+    expect(result).toMatchObject({ checked: 1, resolved: 1 });
+    expect(result.mismatches).toEqual([
+      expect.objectContaining({
+        transactionId: depositId,
+        localStatus: 'pending',
+        providerStatus: 'success',
+        reason: 'missed_settlement',
+        action: 'completed',
+      }),
+    ]);
+    expect(await balance('main')).toBe(275_000);
+    expect((await container.repositories.transactionRepository.findById(depositId))?.status).toBe('completed');
+
+    // Settled transactions are no longer pending, so a second sweep finds nothing
+    expect(await container.services.reconciliationService.sweep()).toMatchObject({ checked: 0, resolved: 0 });
+  });
+
+  it('leaves transactions younger than the threshold alone', async () => {
+    const depositId = await startDeposit(25_000);
+    paystack.chargeOutcomes.set(depositId, { status: 'success' });
+
+    expect(await container.services.reconciliationService.sweep()).toMatchObject({ checked: 0 });
+    expect((await container.repositories.transactionRepository.findById(depositId))?.status).toBe('pending');
+  });
+
+  it('refunds a merchant payment whose charge failed', async () => {
+    const paymentId = randomUUID();
+    const payment = await container.services.paymentService.payMerchant({
+      paymentId,
+      userId,
+      amount: 48_200,
+      pinToken: 'unused',
+      merchantInfo: { name: 'Java House' },
+      customerEmail: container.seedUser.email,
+    });
+    expect(payment.roundUpAmount).toBe(800);
+    expect(await available('main')).toBe(250_000 - 49_000);
+
+    await backdate(paymentId, HOUR);
+    paystack.chargeOutcomes.set(paymentId, { status: 'failed' });
+
+    const result = await container.services.reconciliationService.sweep();
+
+    expect(result.mismatches[0]).toMatchObject({ reason: 'missed_settlement', action: 'failed' });
+    expect(await balance('main')).toBe(250_000);
+    expect(await balance('savings')).toBe(75_000);
+    expect((await container.repositories.transactionRepository.findById(paymentId))?.status).toBe('failed');
+  });
+
+  it('reports amount mismatches and provider errors without settling', async () => {
+    const shortPaid = await startDeposit(25_000);
+    const unknown = await startDeposit(10_000);
+    await backdate(shortPaid, 2 * HOUR);
+    await backdate(unknown, HOUR);
+    paystack.chargeOutcomes.set(shortPaid, { status: 'success', amount: 2_500 });
+
+    const result = await container.services.reconciliationService.sweep();
+
+    expect(result).toMatchObject({ checked: 2, resolved: 0 });
+    expect(result.mismatches).toEqual([
+      expect.objectContaining({
+        transactionId: shortPaid,
+        reason: 'amount_mismatch',
+        action: 'none',
+        expectedAmount: 25_000,
+        providerAmount: 2_500,
+      }),
+      expect.objectContaining({
+        transactionId: unknown,
+        reason: 'provider_error',
+        action: 'none',
+        detail: `Transaction reference not found: ${unknown}`,
+      }),
+    ]);
+    expect(await balance('main')).toBe(250_000);
+  });
+
+  it('only fails abandoned checkouts once the abandonment window has passed', async () => {
+    const stale = await startDeposit(25_000);
+    const recent = await startDeposit(10_000);
+    await backdate(stale, 25 * HOUR);
+    await backdate(recent, HOUR);
+    paystack.chargeOutcomes.set(stale, { status: 'abandoned' });
+    paystack.chargeOutcomes.set(recent, { status: 'abandoned' });
+
+    const result = await container.services.reconciliationService.sweep();
+
+    expect(result.mismatches).toEqual([
+      expect.objectContaining({ transactionId: stale, reason: 'abandoned_checkout', action: 'failed' }),
+    ]);
+    expect((await container.repositories.transactionRepository.findById(stale))?.status).toBe('failed');
+    expect((await container.repositories.transactionRepository.findById(recent))?.status).toBe('pending');
+  });
+
+  it('settles peer transfers from the transfer verify API', async () => {
+    const transfer = async () =>
+      container.services.paymentService.transferPeer({
+        transferId: randomUUID(),
+        userId,
+        amount: 30_000,
+        recipient: { phone: '254712345679', name: 'Brian Otieno' },
+        pinToken: 'unused',
+      });
+    const reversed = await transfer();
+    const inFlight = await transfer();
+    await backdate(reversed.transferTransaction.id, HOUR);
+    await backdate(inFlight.transferTransaction.id, HOUR);
+    paystack.transferOutcomes.set(reversed.transferTransaction.id, 'reversed');
+
+    const result = await container.services.reconciliationService.sweep();
+
+    expect(result).toMatchObject({ checked: 2, resolved: 1 });
+    expect(result.mismatches).toEqual([
+      expect.objectContaining({
+        transactionId: reversed.transferTransaction.id,
+        providerStatus: 'reversed',
+        action: 'cancelled',
+      }),
+    ]);
+    // The in-flight transfer is still held, so only the available balance is reduced
+    expect(await available('main')).toBe(250_000 - inFlight.totalCharged);
+    expect(await balance('main')).toBe(250_000);
+  });
+
+  it('leaves a transfer that was never sent to Paystack alone', async () => {
+    // What a payout held for screening looks like: funds held, recorded as pending, not yet sent
+    const transferId = randomUUID();
+    await container.services.walletService.placeHold({
+      userId,
+      walletType: 'main',
+      amount: 30_000,
+      transactionId: transferId,
+      description: 'Bank transfer',
+    });
+    await container.services.transactionService.create({
+      id: transferId,
+      userId,
+      type: 'transfer_out',
+      amount: 30_000,
+      category: 'transfer',
+    });
+    await backdate(transferId, HOUR);
+    paystack.transferOutcomes.set(transferId, 'success');
+
+    const result = await container.services.reconciliationService.sweep();
+
+    expect(result.mismatches).toEqual([]);
+    expect((await container.repositories.transactionRepository.findById(transferId))?.status).toBe('pending');
+    expect(await container.services.walletService.getHold(transferId)).toMatchObject({ status: 'held' });
+    expect(await balance('main')).toBe(250_000);
+  });
+
+  it('accumulates sweeps into a daily report readable by admins', async () => {
+    const first = await startDeposit(25_000);
+    await backdate(first, HOUR);
+    paystack.chargeOutcomes.set(first, { status: 'success' });
+    await container.services.reconciliationService.sweep();
+
+    const second = await startDeposit(10_000);
+    paystack.chargeOutcomes.set(second, { status: 'failed' });
+    const manual = await executeRoute(container.routes.reconciliation.runSweep as RouteHandler, {
+      body: { older_than_minutes: 0 },
+      params: {},
+      query: {},
+      headers: {},
+      adminId: 'ops',
+    });
+    expect(manual.status).toBe(200);
+    expect(manual.body).toMatchObject({ checked: 1, resolved: 1 });
+
+    const reportDate = new Date().toISOString().slice(0, 10);
+    const report = await executeRoute(container.routes.reconciliation.getReport as RouteHandler, {
+      body: undefined,
+      params: { date: reportDate },
+      query: {},
+      headers: {},
+      adminId: 'ops',
+    });
+
+    expect(report.status).toBe(200);
+    expect(report.body).toMatchObject({
+      report_date: reportDate,
+      sweeps: 2,
+      checked: 2,
+      resolved: 2,
+      mismatches: [
+        expect.objectContaining({ transaction_id: first, action: 'completed' }),
+        expect.objectContaining({ transaction_id: second, action: 'failed' }),
+      ],
+    });
+
+    const unauthenticated = await executeRoute(container.routes.reconciliation.runSweep as RouteHandler, {
+      body: {},
+      params: {},
+      query: {},
+      headers: {},
+      userId,
+    });
+    expect(unauthenticated.status).toBe(401);
+  });
+});
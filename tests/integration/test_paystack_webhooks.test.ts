@@ -0,0 +1,353 @@
+/**
+ * Integration Scenario: Paystack Webhook Reconciliation
+ *
+ * Verifies that signed Paystack events settle the transactions they reference:
+ * 1. charge.success completes a pending top-up and credits the wallet exactly once
+ * 2. transfer.success completes a pending peer transfer and its round-up
+ * 3. transfer.failed / transfer.reversed return the debit and round-up to the main wallet
+ * 4. A final account payout is settled as a withdrawal by the same transfer events
+ * 5. Events with an invalid signature are ignored
+ * 6. Every delivery is stored; resent events are skipped and failed ones can be replayed
+ * 7. An event left `received` by a crash is handled again once its lease has passed
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { createHmac, randomUUID } from 'node:crypto';
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { createWebhookEvent } from '../../api/src/models/WebhookEvent';
+import { createWebhookRoutes } from '../../api/src/routes/webhooks';
+import { executeRoute } from '../../api/src/routes/handler';
+import { HttpRequest, RouteHandler } from '../../api/src/routes/types';
+
+const WEBHOOK_SECRET = 'sk_test_webhook_secret';
+
+describe('Integration: Paystack Webhooks', () => {
+  let env: IntegrationTestEnvironment;
+  let routes: ReturnType<typeof createWebhookRoutes>;
+
+  const deliver = async (event: string, data: Record<string, unknown>, options: { signature?: string } = {}) => {
+    // Paystack formatting differs from JSON.stringify, so sign the raw payload exactly as sent
+    const rawBody = JSON.stringify({ event, data }, null, 2);
+    const signature = options.signature ?? createHmac('sha512', WEBHOOK_SECRET).update(rawBody).digest('hex');
+    const request: HttpRequest = {
+      body: { event, data },
+      params: {},
+      query: {},
+      headers: { 'x-paystack-signature': signature },
+      rawBody,
+    };
+    return executeRoute(routes.handlePaystackWebhook as RouteHandler, request);
+  };
+
+  const startPeerTransfer = async (amount: number) => {
+    const { services, helpers, user } = env;
+    await helpers.topUpMainWallet(100_000);
+    await helpers.setRoundUpIncrement('100');
+    const pinToken = await helpers.issuePinToken('4826');
+
+    return services.paymentService.transferPeer({
+      transferId: randomUUID(),
+      userId: user.id,
+      amount,
+      recipient: { phone: '254712345679', name: 'Brian Otieno' },
+      pinToken,
+    });
+  };
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    routes = createWebhookRoutes({
+      settlementService: env.services.settlementService,
+      refundService: env.services.refundService,
+      webhookEventRepository: env.repositories.webhookEventRepository,
+      webhookSecret: WEBHOOK_SECRET,
+    });
+  });
+
+  it('credits a pending top-up once on charge.success', async () => {
+    const { services, helpers, user } = env;
+    const depositId = randomUUID();
+    await services.paymentService.initializeDeposit({
+      depositId,
+      userId: user.id,
+      amount: 25_000,
+      customerEmail: user.email,
+    });
+
+    const first = await deliver('charge.success', { reference: depositId, amount: 25_000, status: 'success' });
+    const duplicate = await deliver('charge.success', { reference: depositId, amount: 25_000, status: 'success' });
+
+    expect(first.status).toBe(200);
+    expect(first.body).toEqual({ received: true });
+    expect(duplicate.body).toEqual({ received: true, duplicate: true });
+
+    const mainWallet = await helpers.refreshWallet('main');
+    expect(mainWallet.balance).toBe(25_000);
+
+    const deposit = await env.repositories.transactionRepository.findById(depositId);
+    expect(deposit?.status).toBe('completed');
+    expect(deposit?.completedAt).toBeInstanceOf(Date);
+    expect(helpers.listNotifications().filter((entry) => entry.payload.title === 'Top-up successful')).toHaveLength(1);
+  });
+
+  it('does not settle a charge when Paystack collected less than expected', async () => {
+    const { services, helpers, user } = env;
+    const depositId = randomUUID();
+    await services.paymentService.initializeDeposit({
+      depositId,
+      userId: user.id,
+      amount: 25_000,
+      customerEmail: user.email,
+    });
+
+    const response = await deliver('charge.success', { reference: depositId, amount: 2_500, status: 'success' });
+
+    expect(response.body).toEqual({ received: true, processing_error: true });
+    expect((await helpers.refreshWallet('main')).balance).toBe(0);
+    expect((await env.repositories.transactionRepository.findById(depositId))?.status).toBe('pending');
+  });
+
+  it('completes a pending transfer and its round-up on transfer.success', async () => {
+    const result = await startPeerTransfer(48_200);
+
+    await deliver('transfer.success', {
+      reference: result.transferTransaction.id,
+      transfer_code: result.paystackTransferReference,
+    });
+
+    const transfer = await env.repositories.transactionRepository.findById(result.transferTransaction.id);
+    const roundUp = await env.repositories.transactionRepository.findById(result.roundUpTransaction!.id);
+    expect(transfer?.status).toBe('completed');
+    expect(roundUp?.status).toBe('completed');
+    expect((await env.helpers.refreshWallet('main')).balance).toBe(100_000 - result.totalCharged);
+  });
+
+  it('finds transfers by transfer code and reverses them on transfer.failed', async () => {
+    const result = await startPeerTransfer(48_200);
+    expect(result.roundUpAmount).toBe(1_800);
+
+    const response = await deliver('transfer.failed', { transfer_code: result.paystackTransferReference });
+    expect(response.body).toEqual({ received: true });
+
+    const mainWallet = await env.helpers.refreshWallet('main');
+    const savingsWallet = await env.helpers.refreshWallet('savings');
+    expect(mainWallet.balance).toBe(100_000);
+    expect(mainWallet.availableBalance).toBe(100_000);
+    expect(savingsWallet.balance).toBe(0);
+
+    const transfer = await env.repositories.transactionRepository.findById(result.transferTransaction.id);
+    const roundUp = await env.repositories.transactionRepository.findById(result.roundUpTransaction!.id);
+    expect(transfer?.status).toBe('failed');
+    expect(roundUp?.status).toBe('failed');
+
+    const notification = env.helpers.listNotifications().find((entry) => entry.payload.title === 'Transfer failed');
+    expect(notification?.userId).toBe(env.user.id);
+
+    // A later duplicate must not refund the sender twice
+    const resent = await deliver('transfer.failed', { transfer_code: result.paystackTransferReference });
+    expect(resent.body).toEqual({ received: true, duplicate: true });
+    expect((await env.helpers.refreshWallet('main')).balance).toBe(100_000);
+  });
+
+  it('cancels and refunds a transfer on transfer.reversed', async () => {
+    const result = await startPeerTransfer(30_000);
+
+    await deliver('transfer.reversed', { reference: result.transferTransaction.id });
+
+    const transfer = await env.repositories.transactionRepository.findById(result.transferTransaction.id);
+    expect(transfer?.status).toBe('cancelled');
+    expect((await env.helpers.refreshWallet('main')).balance).toBe(100_000);
+    expect(env.helpers.listNotifications().some((entry) => entry.payload.title === 'Transfer reversed')).toBe(true);
+  });
+
+  it('settles final account payouts as withdrawals on transfer.success and transfer.failed', async () => {
+    await env.helpers.topUpMainWallet(50_000);
+    await env.helpers.topUpSavingsWallet(20_000);
+    const closure = await env.services.accountService.close({ userId: env.user.id, finalPayout: { mpesaPhone: '254712345678' } });
+    const payouts = await Promise.all(
+      closure.payoutTransactionIds.map((id) => env.repositories.transactionRepository.findById(id)),
+    );
+    const paidOut = payouts.find((payout) => payout!.amount === 50_000)!;
+    const bounced = payouts.find((payout) => payout!.amount === 20_000)!;
+
+    await deliver('transfer.success', { reference: paidOut.id, transfer_code: paidOut.externalTransactionId });
+    await deliver('transfer.failed', { transfer_code: bounced.externalTransactionId });
+
+    expect((await env.repositories.transactionRepository.findById(paidOut.id))?.status).toBe('completed');
+    expect((await env.repositories.transactionRepository.findById(bounced.id))?.status).toBe('failed');
+    expect(await env.helpers.refreshWallet('main')).toMatchObject({ balance: 0, availableBalance: 0 });
+    expect(await env.helpers.refreshWallet('savings')).toMatchObject({ balance: 20_000, availableBalance: 20_000 });
+    expect(env.helpers.listNotifications().some((entry) => entry.payload.title === 'Withdrawal failed')).toBe(true);
+  });
+
+  it('ignores events whose signature does not match the raw body', async () => {
+    const result = await startPeerTransfer(30_000);
+
+    const response = await deliver(
+      'transfer.failed',
+      { reference: result.transferTransaction.id },
+      { signature: createHmac('sha512', 'wrong-secret').update('{}').digest('hex') },
+    );
+
+    expect(response.body).toEqual({ received: false, reason: 'Invalid signature' });
+    const transfer = await env.repositories.transactionRepository.findById(result.transferTransaction.id);
+    expect(transfer?.status).toBe('pending');
+  });
+
+  describe('event store', () => {
+    it('records processed events and skips resent deliveries by event id', async () => {
+      const { services, helpers, user, repositories } = env;
+      const depositId = randomUUID();
+      await services.paymentService.initializeDeposit({
+        depositId,
+        userId: user.id,
+        amount: 10_000,
+        customerEmail: user.email,
+      });
+
+      const data = { id: 302961, reference: depositId, amount: 10_000, status: 'success' };
+      await deliver('charge.success', data);
+      const resent = await deliver('charge.success', data);
+
+      expect(resent.body).toEqual({ received: true, duplicate: true });
+      expect((await helpers.refreshWallet('main')).balance).toBe(10_000);
+
+      const stored = await repositories.webhookEventRepository.findByEventId('charge.success:302961');
+      expect(stored).toMatchObject({
+        eventType: 'charge.success',
+        reference: depositId,
+        signatureValid: true,
+        status: 'processed',
+        attempts: 1,
+        lastError: null,
+      });
+      expect(stored?.payload).toEqual(data);
+    });
+
+    it('stores rejected deliveries without letting them claim the event id', async () => {
+      const { services, helpers, user, repositories } = env;
+      const depositId = randomUUID();
+      await services.paymentService.initializeDeposit({
+        depositId,
+        userId: user.id,
+        amount: 10_000,
+        customerEmail: user.email,
+      });
+      const data = { id: 55, reference: depositId, amount: 10_000 };
+
+      await deliver('charge.success', data, { signature: 'forged' });
+      expect(await repositories.webhookEventRepository.listByStatus('rejected', { limit: 10 })).toHaveLength(1);
+
+      const genuine = await deliver('charge.success', data);
+      expect(genuine.body).toEqual({ received: true });
+      expect((await helpers.refreshWallet('main')).balance).toBe(10_000);
+    });
+
+    it('keeps failed events for admins to list and replay', async () => {
+      const { services, helpers, user, repositories } = env;
+      const depositId = randomUUID();
+
+      // The charge arrives before the pending deposit exists, so processing fails
+      const failed = await deliver('charge.success', { id: 77, reference: depositId, amount: 10_000 });
+      expect(failed.body).toEqual({ received: true, processing_error: true });
+
+      const listed = await executeRoute(routes.listWebhookEvents as RouteHandler, {
+        body: undefined,
+        params: {},
+        query: { status: 'failed' },
+        headers: {},
+        adminId: 'ops',
+      });
+      expect(listed.status).toBe(200);
+      expect((listed.body as { events: Array<Record<string, unknown>> }).events).toEqual([
+        expect.objectContaining({
+          event_id: 'charge.success:77',
+          status: 'failed',
+          attempts: 1,
+          last_error: expect.stringContaining(depositId),
+        }),
+      ]);
+
+      await services.paymentService.initializeDeposit({
+        depositId,
+        userId: user.id,
+        amount: 10_000,
+        customerEmail: user.email,
+      });
+
+      const replay = await executeRoute(routes.replayFailedEvents as RouteHandler, {
+        body: {},
+        params: {},
+        query: {},
+        headers: {},
+        adminId: 'ops',
+      });
+
+      expect(replay.status).toBe(200);
+      expect(replay.body).toEqual({
+        replayed: [{ event_id: 'charge.success:77', status: 'processed', attempts: 2, error: null }],
+      });
+      expect((await helpers.refreshWallet('main')).balance).toBe(10_000);
+      expect(await repositories.webhookEventRepository.listByStatus('failed', { limit: 10 })).toHaveLength(0);
+    });
+
+    it('handles an event again once it has been left received past its lease', async () => {
+      const { services, helpers, user, repositories } = env;
+      const [redelivered, replayed] = [randomUUID(), randomUUID()];
+      for (const depositId of [redelivered, replayed]) {
+        // eslint-disable-next-line no-await-in-loop
+        await services.paymentService.initializeDeposit({ depositId, userId: user.id, amount: 10_000, customerEmail: user.email });
+        // The process stopped after storing the delivery, before recording an outcome
+        // eslint-disable-next-line no-await-in-loop
+        await repositories.webhookEventRepository.create(
+          createWebhookEvent({
+            id: randomUUID(),
+            eventId: `charge.success:${depositId}`,
+            eventType: 'charge.success',
+            reference: depositId,
+            payload: { reference: depositId, amount: 10_000 },
+            signatureValid: true,
+          }),
+        );
+      }
+      const replay = () =>
+        executeRoute(routes.replayFailedEvents as RouteHandler, { body: {}, params: {}, query: {}, headers: {}, adminId: 'ops' });
+
+      // Within the lease the event may still be in hand
+      expect((await deliver('charge.success', { reference: redelivered, amount: 10_000 })).body).toEqual({
+        received: true,
+        duplicate: true,
+      });
+      expect((await replay()).body).toEqual({ replayed: [] });
+
+      const later = new Date(Date.now() + 6 * 60 * 1000);
+      routes = createWebhookRoutes({
+        settlementService: services.settlementService,
+        refundService: services.refundService,
+        webhookEventRepository: repositories.webhookEventRepository,
+        webhookSecret: WEBHOOK_SECRET,
+        clock: { now: () => later },
+      });
+
+      expect((await deliver('charge.success', { reference: redelivered, amount: 10_000 })).body).toEqual({ received: true });
+      expect((await replay()).body).toEqual({
+        replayed: [{ event_id: `charge.success:${replayed}`, status: 'processed', attempts: 1, error: null }],
+      });
+      expect((await helpers.refreshWallet('main')).balance).toBe(20_000);
+      expect(await repositories.webhookEventRepository.listByStatus('received', { limit: 10 })).toHaveLength(0);
+    });
+
+    it('requires admin authentication to replay events', async () => {
+      const response = await executeRoute(routes.replayFailedEvents as RouteHandler, {
+        body: {},
+        params: {},
+        query: {},
+        headers: {},
+        userId: env.user.id,
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toMatchObject({ code: 'ADMIN_AUTH_REQUIRED' });
+    });
+  });
+});
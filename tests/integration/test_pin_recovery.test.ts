@@ -0,0 +1,204 @@
+/**
+ * Integration Scenario: Forgot-PIN Recovery
+ *
+ * A user who forgot their PIN steps up with an OTP, KYC-approved users also
+ * answer an identity question, and the new PIN only takes effect after a
+ * cooling-off period during which outgoing transfers are frozen.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { PinRecoveryService } from '../../api/src/services/PinRecoveryService';
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+
+const COOLING_OFF_SECONDS = 24 * 60 * 60;
+
+describe('Integration: PIN Recovery', () => {
+  let env: IntegrationTestEnvironment;
+  let now: Date;
+  let pinRecoveryService: PinRecoveryService;
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    await env.helpers.ensurePin('4826');
+    now = new Date();
+    pinRecoveryService = new PinRecoveryService({
+      authService: env.services.authService,
+      userRepository: env.repositories.userRepository,
+      kycDocumentRepository: env.repositories.kycDocumentRepository,
+      pinRecoveryRepository: env.repositories.pinRecoveryRepository,
+      pinHasher: env.stubs.pinHasher,
+      notificationService: env.stubs.notificationService,
+      coolingOffSeconds: COOLING_OFF_SECONDS,
+      clock: { now: () => now },
+    });
+  });
+
+  const verifyOtp = async () => {
+    const { sessionId } = await pinRecoveryService.start({ email: env.user.email });
+    const otpCode = env.stubs.otpSender.lastEmailOtp!.otp;
+    return pinRecoveryService.verifyOtp({ sessionId, otpCode });
+  };
+
+  const approveKycWithIdNumber = async (idNumber: string) => {
+    const document = await env.services.kycService.uploadDocument({
+      userId: env.user.id,
+      documentType: 'national_id',
+      filePath: `/tmp/${randomUUID()}.jpg`,
+      fileName: 'national-id.jpg',
+      fileSize: 256_000,
+      mimeType: 'image/jpeg',
+      encrypted: true,
+      accessHash: 'mock-access-hash',
+      expiresAt: null,
+    });
+    const approved = await env.helpers.approveKyc(document.id);
+    await env.repositories.kycDocumentRepository.update({ ...approved, extractedData: { idNumber } });
+    await env.repositories.userRepository.update(env.user.id, { kycStatus: 'approved', kycApprovedAt: now, updatedAt: now });
+  };
+
+  const advance = (seconds: number) => {
+    now = new Date(now.getTime() + seconds * 1000);
+  };
+
+  it('freezes outgoing transfers while the new PIN cools off and applies it afterwards', async () => {
+    const { recovery, identityCheck } = await verifyOtp();
+    expect(identityCheck).toBeNull();
+
+    const scheduled = await pinRecoveryService.complete({ recoveryId: recovery.id, newPin: '3917' });
+    expect(scheduled.status).toBe('cooling_off');
+    expect(scheduled.effectiveAt).toEqual(new Date(now.getTime() + COOLING_OFF_SECONDS * 1000));
+
+    await expect(
+      env.services.limitService.assertWithinLimits({ userId: env.user.id, transactionType: 'transfer_out', amount: 10_000 }),
+    ).rejects.toMatchObject({ code: 'TRANSFERS_FROZEN', details: { frozen_until: scheduled.effectiveAt!.toISOString() } });
+    await expect(
+      env.services.limitService.assertWithinLimits({ userId: env.user.id, transactionType: 'deposit', amount: 10_000 }),
+    ).resolves.toBeUndefined();
+    await expect(env.services.limitService.getLimits(env.user.id)).resolves.toMatchObject({
+      transfersFrozenUntil: scheduled.effectiveAt,
+    });
+
+    // The old PIN keeps working until the cooling-off period ends
+    await expect(env.services.authService.verifyPin(env.user.id, '4826')).resolves.toMatchObject({ verified: true });
+    await expect(pinRecoveryService.completeDueRecoveries()).resolves.toHaveLength(0);
+
+    advance(COOLING_OFF_SECONDS);
+    const completed = await pinRecoveryService.completeDueRecoveries();
+
+    expect(completed.map((entry) => entry.status)).toEqual(['completed']);
+    await expect(env.services.authService.verifyPin(env.user.id, '3917')).resolves.toMatchObject({ verified: true });
+    await expect(env.helpers.refreshUser()).resolves.toMatchObject({ transfersFrozenUntil: null, failedPinAttempts: 0 });
+    const types = env.helpers.listNotifications().map((notification) => notification.payload.data?.type);
+    expect(types).toEqual(expect.arrayContaining(['pin_recovery_started', 'pin_recovery_completed']));
+  });
+
+  it('asks KYC-approved users for the last digits of their ID number', async () => {
+    await approveKycWithIdNumber('12 345 678');
+
+    const { recovery, identityCheck } = await verifyOtp();
+
+    expect(identityCheck).toEqual({ type: 'id_number_last_digits', digits: 4 });
+    await expect(pinRecoveryService.complete({ recoveryId: recovery.id, newPin: '3917' })).rejects.toMatchObject({
+      code: 'IDENTITY_CHECK_REQUIRED',
+    });
+    await expect(
+      pinRecoveryService.complete({ recoveryId: recovery.id, newPin: '3917', idNumberLastDigits: '1111' }),
+    ).rejects.toMatchObject({ code: 'IDENTITY_CHECK_FAILED', details: { attempts_remaining: 2 } });
+    await expect(
+      pinRecoveryService.complete({ recoveryId: recovery.id, newPin: '3917', idNumberLastDigits: '5678' }),
+    ).resolves.toMatchObject({ status: 'cooling_off' });
+  });
+
+  it('fails the recovery after too many wrong answers and locks new ones for a day', async () => {
+    await approveKycWithIdNumber('12345678');
+    const { recovery } = await verifyOtp();
+
+    for (const answer of ['0000', '1111']) {
+      // eslint-disable-next-line no-await-in-loop
+      await expect(
+        pinRecoveryService.complete({ recoveryId: recovery.id, newPin: '3917', idNumberLastDigits: answer }),
+      ).rejects.toMatchObject({ code: 'IDENTITY_CHECK_FAILED' });
+    }
+    await expect(
+      pinRecoveryService.complete({ recoveryId: recovery.id, newPin: '3917', idNumberLastDigits: '2222' }),
+    ).rejects.toMatchObject({ code: 'RECOVERY_LOCKED' });
+
+    await expect(pinRecoveryService.complete({ recoveryId: recovery.id, newPin: '3917', idNumberLastDigits: '5678' })).rejects.toMatchObject({
+      code: 'RECOVERY_CLOSED',
+    });
+    await expect(verifyOtp()).rejects.toMatchObject({ code: 'RECOVERY_LOCKED' });
+    await expect(env.helpers.refreshUser()).resolves.toMatchObject({ transfersFrozenUntil: null });
+  });
+
+  it('counts answers given in parallel one at a time so they cannot get past the limit', async () => {
+    await approveKycWithIdNumber('12345678');
+    const { recovery } = await verifyOtp();
+
+    const answers = ['0000', '1111', '2222', '3333', '5678', '4444'];
+    const results = await Promise.allSettled(
+      answers.map((answer) => pinRecoveryService.complete({ recoveryId: recovery.id, newPin: '3917', idNumberLastDigits: answer })),
+    );
+
+    const codes = results.map((result) => (result.status === 'rejected' ? (result.reason as { code: string }).code : 'scheduled'));
+    expect(codes.filter((code) => code === 'IDENTITY_CHECK_FAILED')).toHaveLength(2);
+    expect(codes).not.toContain('scheduled');
+    expect(codes.slice(2).every((code) => code === 'RECOVERY_LOCKED' || code === 'RECOVERY_CLOSED')).toBe(true);
+    await expect(pinRecoveryService.getStatus(recovery.id)).resolves.toMatchObject({ status: 'failed', identityAttempts: 3 });
+    await expect(verifyOtp()).rejects.toMatchObject({ code: 'RECOVERY_LOCKED' });
+    await expect(env.helpers.refreshUser()).resolves.toMatchObject({ transfersFrozenUntil: null });
+  });
+
+  it('carries wrong answers over when the user starts the recovery again', async () => {
+    await approveKycWithIdNumber('12345678');
+    const first = await verifyOtp();
+    for (const answer of ['0000', '1111']) {
+      // eslint-disable-next-line no-await-in-loop
+      await expect(
+        pinRecoveryService.complete({ recoveryId: first.recovery.id, newPin: '3917', idNumberLastDigits: answer }),
+      ).rejects.toMatchObject({ code: 'IDENTITY_CHECK_FAILED' });
+    }
+
+    advance(60);
+    const restarted = await verifyOtp();
+    await expect(
+      pinRecoveryService.complete({ recoveryId: restarted.recovery.id, newPin: '3917', idNumberLastDigits: '2222' }),
+    ).rejects.toMatchObject({ code: 'RECOVERY_LOCKED' });
+    await expect(verifyOtp()).rejects.toMatchObject({ code: 'RECOVERY_LOCKED' });
+
+    // Answers older than the window no longer count
+    advance(24 * 60 * 60 + 60);
+    const later = await verifyOtp();
+    await expect(
+      pinRecoveryService.complete({ recoveryId: later.recovery.id, newPin: '3917', idNumberLastDigits: '3333' }),
+    ).rejects.toMatchObject({ code: 'IDENTITY_CHECK_FAILED', details: { attempts_remaining: 2 } });
+  });
+
+  it('lets the signed-in user cancel the reset and lifts the freeze', async () => {
+    const { recovery } = await verifyOtp();
+    await pinRecoveryService.complete({ recoveryId: recovery.id, newPin: '3917' });
+    await expect(verifyOtp()).rejects.toMatchObject({ code: 'RECOVERY_IN_PROGRESS' });
+
+    const cancelled = await pinRecoveryService.cancel(env.user.id);
+
+    expect(cancelled.status).toBe('cancelled');
+    await expect(
+      env.services.limitService.assertWithinLimits({ userId: env.user.id, transactionType: 'transfer_out', amount: 10_000 }),
+    ).resolves.toBeUndefined();
+    advance(COOLING_OFF_SECONDS);
+    await expect(pinRecoveryService.completeDueRecoveries()).resolves.toHaveLength(0);
+    await expect(env.services.authService.verifyPin(env.user.id, '4826')).resolves.toMatchObject({ verified: true });
+  });
+
+  it('expires recoveries that are not completed in time', async () => {
+    const { recovery } = await verifyOtp();
+
+    advance(16 * 60);
+
+    await expect(pinRecoveryService.complete({ recoveryId: recovery.id, newPin: '3917' })).rejects.toMatchObject({
+      code: 'RECOVERY_EXPIRED',
+    });
+    await expect(pinRecoveryService.getStatus(recovery.id)).resolves.toMatchObject({ status: 'cancelled' });
+  });
+});
@@ -7,6 +7,10 @@
  */
 
 import { beforeEach, describe, expect, it } from '@jest/globals';
+import { pbkdf2Sync, randomBytes } from 'node:crypto';
+
+import { AuthService } from '../../api/src/services/AuthService';
+import { CryptoPinHasher } from '../../api/src/services/CryptoPinHasher';
 import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
 
 describe('Integration: PIN Security (T033)', () => {
@@ -20,7 +24,7 @@ describe('Integration: PIN Security (T033)', () => {
     const { services, repositories, helpers, user } = env;
     const { authService } = services;
 
-    await helpers.ensurePin('1234');
+    await helpers.ensurePin('4826');
 
     const fastForward = async (failedAttempts: number, secondsAgo: number) => {
       const now = Date.now();
@@ -65,7 +69,7 @@ describe('Integration: PIN Security (T033)', () => {
     await fastForward(5, 901);
 
     // Correct PIN after lockout expires should succeed and reset counters.
-    const success = await authService.verifyPin(user.id, '1234');
+    const success = await authService.verifyPin(user.id, '4826');
     expect(success.verified).toBe(true);
     expect(success.token).toMatch(/^txn_/);
     expect(success.attemptsRemaining).toBe(5);
@@ -87,4 +91,46 @@ describe('Integration: PIN Security (T033)', () => {
     const bogusToken = await authService.validatePinToken(user.id, 'txn_invalid');
     expect(bogusToken).toBe(false);
   });
+
+  it('should refuse weak PINs at setup', async () => {
+    const { authService } = env.services;
+
+    for (const pin of ['1234', '9999', '2580']) {
+      await expect(authService.setupPin(env.user.id, pin)).rejects.toMatchObject({ code: 'WEAK_PIN' });
+    }
+    const user = await env.helpers.refreshUser();
+    expect(user.pinHash ?? null).toBeNull();
+  });
+
+  it('should upgrade a legacy PIN hash after a successful verification', async () => {
+    const { repositories, services, stubs, user } = env;
+    const pinHasher = new CryptoPinHasher({ pepper: 'integration-test-pin-pepper-0123456789' });
+    const authService = new AuthService({
+      userRepository: repositories.userRepository,
+      authSessionRepository: repositories.authSessionRepository,
+      otpSender: stubs.otpSender,
+      tokenService: services.tokenService,
+      sessionService: services.sessionService,
+      pinHasher,
+      pinTokenService: stubs.pinTokenService,
+    });
+
+    // A weak PIN set before the policy existed keeps working
+    const salt = randomBytes(16);
+    const legacyHash = `pbkdf2$120000$${salt.toString('hex')}$${pbkdf2Sync('1234', salt, 120_000, 32, 'sha256').toString('hex')}`;
+    await repositories.userRepository.update(user.id, { pinHash: legacyHash, pinSetAt: new Date() });
+
+    const failed = await authService.verifyPin(user.id, '4826');
+    expect(failed.verified).toBe(false);
+    expect((await repositories.userRepository.findById(user.id))?.pinHash).toBe(legacyHash);
+
+    await repositories.userRepository.update(user.id, { failedPinAttempts: 0, lastFailedAttemptAt: null });
+    const verified = await authService.verifyPin(user.id, '1234');
+    expect(verified.verified).toBe(true);
+
+    const upgraded = (await repositories.userRepository.findById(user.id))!.pinHash!;
+    expect(upgraded).toMatch(/^v2\$scrypt\$/);
+    expect(pinHasher.needsRehash(upgraded)).toBe(false);
+    await expect(authService.verifyPin(user.id, '1234')).resolves.toMatchObject({ verified: true });
+  });
 });
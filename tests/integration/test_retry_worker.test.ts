@@ -0,0 +1,243 @@
+/**
+ * Integration Scenario: Retry Worker
+ *
+ * Verifies that the retry worker drains jobs scheduled by PaymentService:
+ * 1. Rejected transfers are re-verified and left refunded when Paystack confirms the failure
+ * 2. A transfer Paystack later reports as successful is debited again and completed
+ * 3. Jobs without a final answer are rescheduled with backoff and dead-lettered when attempts run out
+ * 4. Pending top-ups are re-checked and credited once the customer pays
+ * 5. Leases expire so a job held by a crashed worker is picked up again
+ * 6. Recording a retry never undoes a settlement that lands at the same moment
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { RetryWorker } from '../../api/src/services/RetryWorker';
+
+const MINUTE = 60 * 1000;
+
+describe('Integration: Retry Worker', () => {
+  let env: IntegrationTestEnvironment;
+  let now: Date;
+  let worker: RetryWorker;
+
+  const advance = (ms: number) => {
+    now = new Date(now.getTime() + ms);
+  };
+
+  const createWorker = (workerId: string) =>
+    new RetryWorker({
+      retryQueue: env.stubs.retryQueue,
+      transactionRepository: env.repositories.transactionRepository,
+      paystackClient: env.stubs.paystackClient,
+      settlementService: env.services.settlementService,
+      workerId,
+      backoffMs: [MINUTE, 5 * MINUTE],
+      clock: { now: () => new Date(now.getTime()) },
+    });
+
+  const startRejectedTransfer = async (amount: number) => {
+    const { services, helpers, user, stubs } = env;
+    await helpers.topUpMainWallet(100_000);
+    await helpers.setRoundUpIncrement('100');
+    const pinToken = await helpers.issuePinToken('4826');
+    const transferId = randomUUID();
+    stubs.paystackClient.rejectedTransfers.add(transferId);
+
+    const result = await services.paymentService.transferPeer({
+      transferId,
+      userId: user.id,
+      amount,
+      recipient: { phone: '254712345679', name: 'Brian Otieno' },
+      pinToken,
+    });
+    expect(result.status).toBe('failed');
+    return result;
+  };
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    now = new Date();
+    worker = createWorker('worker-a');
+  });
+
+  it('leaves a rejected transfer refunded when Paystack confirms the failure', async () => {
+    const result = await startRejectedTransfer(48_200);
+    const transferId = result.transferTransaction.id;
+    env.stubs.paystackClient.transferOutcomes.set(transferId, 'failed');
+
+    const [job] = env.stubs.retryQueue.list();
+    expect(job).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(job?.payload).toMatchObject({ type: 'transfer_verification', transactionId: transferId });
+
+    // Not due until the backoff scheduled by PaymentService has passed
+    expect((await worker.runOnce()).claimed).toBe(0);
+
+    advance(5_000);
+    const summary = await worker.runOnce();
+    expect(summary).toEqual({ claimed: 1, resolved: 1, rescheduled: 0, deadLettered: 0 });
+
+    expect(env.stubs.retryQueue.list()[0]).toMatchObject({ status: 'completed', attempts: 1, lockedBy: null });
+    const transfer = await env.repositories.transactionRepository.findById(transferId);
+    expect(transfer?.status).toBe('failed');
+    expect(transfer?.retry).toMatchObject({ retryCount: 2, nextRetryAt: null });
+    expect((await env.helpers.refreshWallet('main')).balance).toBe(100_000);
+  });
+
+  it('debits and completes a rejected transfer that Paystack reports as delivered', async () => {
+    const result = await startRejectedTransfer(30_000);
+    const transferId = result.transferTransaction.id;
+    env.stubs.paystackClient.transferOutcomes.set(transferId, 'success');
+
+    advance(5_000);
+    await worker.runOnce();
+
+    const transfer = await env.repositories.transactionRepository.findById(transferId);
+    expect(transfer?.status).toBe('completed');
+    expect((await env.helpers.refreshWallet('main')).balance).toBe(70_000);
+    expect((await env.helpers.refreshWallet('savings')).balance).toBe(0);
+    expect(env.helpers.listNotifications().some((entry) => entry.payload.title === 'Transfer completed')).toBe(true);
+  });
+
+  it('reschedules jobs with backoff and dead-letters them when attempts run out', async () => {
+    const result = await startRejectedTransfer(30_000);
+    const transferId = result.transferTransaction.id;
+    env.stubs.paystackClient.transferOutcomes.set(transferId, 'pending');
+
+    advance(5_000);
+    expect(await worker.runOnce()).toMatchObject({ rescheduled: 1 });
+
+    const [rescheduled] = env.stubs.retryQueue.list();
+    expect(rescheduled).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Transfer still pending at Paystack' });
+    expect(rescheduled?.runAt.getTime()).toBe(now.getTime() + MINUTE);
+    const afterFirstRun = await env.repositories.transactionRepository.findById(transferId);
+    expect(afterFirstRun?.retry).toMatchObject({ retryCount: 2, nextRetryAt: new Date(now.getTime() + MINUTE) });
+
+    for (let attempt = 2; attempt <= 5; attempt += 1) {
+      advance(10 * MINUTE);
+      await worker.runOnce();
+    }
+
+    const [dead] = env.stubs.retryQueue.list();
+    expect(dead).toMatchObject({ status: 'dead', attempts: 5 });
+    const transfer = await env.repositories.transactionRepository.findById(transferId);
+    expect(transfer?.retry.nextRetryAt).toBeNull();
+
+    advance(60 * MINUTE);
+    expect((await worker.runOnce()).claimed).toBe(0);
+  });
+
+  it('re-checks a pending top-up until the customer pays', async () => {
+    const { services, user, stubs, helpers } = env;
+    const depositId = randomUUID();
+    await services.paymentService.initializeDeposit({
+      depositId,
+      userId: user.id,
+      amount: 25_000,
+      customerEmail: user.email,
+    });
+    stubs.paystackClient.chargeOutcomes.set(depositId, 'abandoned');
+
+    const [job] = stubs.retryQueue.list();
+    expect(job?.payload).toMatchObject({ type: 'deposit_check', transactionId: depositId });
+
+    advance(16 * MINUTE);
+    expect(await worker.runOnce()).toMatchObject({ rescheduled: 1 });
+    expect((await helpers.refreshWallet('main')).balance).toBe(0);
+
+    stubs.paystackClient.chargeOutcomes.set(depositId, 'success');
+    advance(2 * MINUTE);
+    expect(await worker.runOnce()).toMatchObject({ resolved: 1 });
+
+    expect((await helpers.refreshWallet('main')).balance).toBe(25_000);
+    const deposit = await env.repositories.transactionRepository.findById(depositId);
+    expect(deposit?.status).toBe('completed');
+    expect(deposit?.retry.nextRetryAt).toBeNull();
+  });
+
+  it('keeps a top-up settled by the webhook while the worker records its retry', async () => {
+    const { services, user, stubs, helpers } = env;
+    const { depositTransaction } = await services.paymentService.initializeDeposit({
+      depositId: randomUUID(),
+      userId: user.id,
+      amount: 25_000,
+      customerEmail: user.email,
+    });
+    // Paystack has not caught up yet, so the worker reschedules
+    stubs.paystackClient.chargeOutcomes.set(depositTransaction.id, 'abandoned');
+
+    // Once the worker has its answer, the webhook settles the top-up while the worker's next
+    // repository call is in flight
+    let settling = false;
+    const repository = env.repositories.transactionRepository;
+    const racingRepository = new Proxy(repository, {
+      get(target, property, receiver) {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof value !== 'function') {
+          return value;
+        }
+        return async (...args: unknown[]) => {
+          const call = value.apply(target, args);
+          if (settling) {
+            settling = false;
+            await services.settlementService.completeCharge(depositTransaction);
+          }
+          return call;
+        };
+      },
+    });
+    const verifyTransaction = stubs.paystackClient.verifyTransaction.bind(stubs.paystackClient);
+    stubs.paystackClient.verifyTransaction = async (reference: string) => {
+      settling = true;
+      return verifyTransaction(reference);
+    };
+
+    const racingWorker = new RetryWorker({
+      retryQueue: stubs.retryQueue,
+      transactionRepository: racingRepository,
+      paystackClient: stubs.paystackClient,
+      settlementService: services.settlementService,
+      workerId: 'worker-a',
+      backoffMs: [MINUTE, 5 * MINUTE],
+      clock: { now: () => new Date(now.getTime()) },
+    });
+
+    advance(16 * MINUTE);
+    expect(await racingWorker.runOnce()).toMatchObject({ rescheduled: 1 });
+
+    const deposit = await repository.findById(depositTransaction.id);
+    expect(deposit?.status).toBe('completed');
+    expect(deposit?.retry).toMatchObject({ retryCount: 2, nextRetryAt: new Date(now.getTime() + MINUTE) });
+    expect((await helpers.refreshWallet('main')).balance).toBe(25_000);
+  });
+
+  it('dead-letters jobs for unknown transactions without retrying', async () => {
+    await env.stubs.retryQueue.enqueue({
+      id: 'retry_missing_1',
+      runAt: now,
+      payload: { type: 'deposit_check', transactionId: randomUUID() },
+    });
+
+    expect(await worker.runOnce()).toMatchObject({ claimed: 1, deadLettered: 1 });
+    expect(env.stubs.retryQueue.list()[0]).toMatchObject({ status: 'dead', attempts: 1 });
+  });
+
+  it('hands a job to another worker once the lease expires', async () => {
+    const queue = env.stubs.retryQueue;
+    await queue.enqueue({ id: 'retry_lease_1', runAt: now, payload: { type: 'deposit_check' } });
+
+    const [claimed] = await queue.claimDue({ workerId: 'crashed-worker', now, leaseMs: MINUTE, limit: 10 });
+    expect(claimed).toMatchObject({ status: 'running', lockedBy: 'crashed-worker', attempts: 1 });
+    expect(await queue.claimDue({ workerId: 'worker-b', now, leaseMs: MINUTE, limit: 10 })).toHaveLength(0);
+
+    advance(MINUTE + 1);
+    const [reclaimed] = await queue.claimDue({ workerId: 'worker-b', now, leaseMs: MINUTE, limit: 10 });
+    expect(reclaimed).toMatchObject({ lockedBy: 'worker-b', attempts: 2 });
+
+    // The original worker finishing late must not overwrite the new owner's lease
+    await queue.complete('retry_lease_1', 'crashed-worker');
+    expect(queue.list()[0]).toMatchObject({ status: 'running', lockedBy: 'worker-b' });
+  });
+});
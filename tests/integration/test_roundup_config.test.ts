@@ -21,8 +21,8 @@ describe('Integration: Round-up Configuration (T032)', () => {
     const { services, repositories, helpers, user } = env;
 
     await helpers.topUpMainWallet(600_000); // KES 6,000.00 to cover multiple payments
-    await helpers.ensurePin('1234');
-    const pinToken = await helpers.issuePinToken('1234');
+    await helpers.ensurePin('4826');
+    const pinToken = await helpers.issuePinToken('4826');
 
     const rule = await repositories.roundUpRuleRepository.findByUserId(user.id);
     if (!rule) {
@@ -0,0 +1,223 @@
+/**
+ * Integration Scenario: Sanctions and PEP Screening
+ *
+ * 1. A customer whose name matches the watchlist registers as usual, with the account on hold
+ * 2. Approving an identity document screens the name and date of birth read off it
+ * 3. A held account cannot send money, and says nothing about why, until an admin clears the case
+ * 4. A payout to a listed recipient is held until an admin clears it (sent) or confirms it (cancelled)
+ * 5. Hold expiry leaves the held payout's funds reserved while its case is open
+ * 6. Held payouts never crowd other holds out of the hold-expiry sweep
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { createAdminRoutes } from '../../api/src/routes/admin';
+import { executeRoute } from '../../api/src/routes/handler';
+import { HttpResponse, RouteHandler } from '../../api/src/routes/types';
+
+describe('Integration: Sanctions and PEP Screening', () => {
+  let env: IntegrationTestEnvironment;
+  let adminRoutes: ReturnType<typeof createAdminRoutes>;
+
+  const call = (
+    handler: keyof ReturnType<typeof createAdminRoutes>,
+    options: { body?: unknown; params?: Record<string, string>; query?: Record<string, string> } = {},
+  ): Promise<HttpResponse<any>> =>
+    executeRoute(adminRoutes[handler] as RouteHandler, {
+      body: options.body,
+      params: options.params ?? {},
+      query: options.query ?? {},
+      headers: {},
+      adminId: 'alice',
+    });
+
+  const transferTo = async (name: string, amount: number) => {
+    const pinToken = await env.helpers.issuePinToken('4826');
+    return env.services.paymentService.transferPeer({
+      transferId: randomUUID(),
+      userId: env.user.id,
+      amount,
+      recipient: { phone: '254712345679', name },
+      description: 'School fees',
+      pinToken,
+    });
+  };
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    adminRoutes = createAdminRoutes({ adminService: env.services.adminService });
+  });
+
+  it('holds a newly registered customer who matches the watchlist until an admin clears them', async () => {
+    const { user } = await env.services.registrationService.register({
+      firstName: 'Ivan',
+      lastName: 'Volkov',
+      email: 'ivan.volkov@example.com',
+      phone: '254700111222',
+    });
+    const { user: unlisted } = await env.services.registrationService.register({
+      firstName: 'Brian',
+      lastName: 'Otieno',
+      email: 'brian.otieno@example.com',
+      phone: '254700333444',
+    });
+
+    expect((await env.repositories.userRepository.findById(user.id))?.complianceHolds).toEqual(['sanctions_screening']);
+    expect((await env.repositories.userRepository.findById(unlisted.id))?.complianceHolds).toEqual([]);
+
+    const open = await call('listScreeningCases');
+    expect(open.status).toBe(200);
+    expect(open.body.cases).toEqual([
+      expect.objectContaining({
+        user_id: user.id,
+        trigger: 'registration',
+        subject_name: 'Ivan Volkov',
+        matches: [expect.objectContaining({ entry_id: 'UN-QDi.901', category: 'sanctions', date_of_birth_match: null })],
+      }),
+    ]);
+
+    const missingNotes = await call('resolveScreeningCase', { params: { caseId: open.body.cases[0].id }, body: { decision: 'clear' } });
+    expect(missingNotes.status).toBe(400);
+    expect(missingNotes.body.code).toBe('RESOLUTION_NOTES_REQUIRED');
+
+    const cleared = await call('resolveScreeningCase', {
+      params: { caseId: open.body.cases[0].id },
+      body: { decision: 'clear', notes: 'Different date of birth on the ID' },
+    });
+    expect(cleared.status).toBe(200);
+    expect(cleared.body.case).toMatchObject({ status: 'cleared', resolved_by: 'alice' });
+    expect(cleared.body.payout).toBeNull();
+    expect((await env.repositories.userRepository.findById(user.id))?.complianceHolds).toEqual([]);
+
+    const again = await call('resolveScreeningCase', {
+      params: { caseId: open.body.cases[0].id },
+      body: { decision: 'confirm', notes: 'Second look' },
+    });
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe('SCREENING_CASE_ALREADY_RESOLVED');
+
+    const [entry] = await env.services.adminService.listAuditLog({ targetType: 'screening_case', targetId: open.body.cases[0].id, limit: 10 });
+    expect(entry).toMatchObject({
+      adminId: 'alice',
+      action: 'screening_case_cleared',
+      details: expect.objectContaining({ user_id: user.id, trigger: 'registration', entry_ids: ['UN-QDi.901'] }),
+    });
+  });
+
+  it('screens the name read off an approved ID and refuses outgoing money while the match is confirmed', async () => {
+    await env.helpers.topUpMainWallet(50_000);
+    const document = await env.services.kycService.uploadDocument({
+      userId: env.user.id,
+      documentType: 'national_id',
+      filePath: `kyc/${env.user.id}/${randomUUID()}/national_id.jpg`,
+      fileName: 'national_id.jpg',
+      fileSize: 256_000,
+      mimeType: 'image/jpeg',
+      encrypted: true,
+      accessHash: randomUUID().replace(/-/g, ''),
+    });
+    await env.services.kycService.updateStatus({
+      documentId: document.id,
+      status: 'approved',
+      extractedData: { fullName: 'BARASA Halima Wanjiku', idNumber: '23456789', dateOfBirth: new Date('1970-06-15') },
+    });
+
+    const [screeningCase] = await env.services.screeningService.listCases({ status: 'open', limit: 10, offset: 0 });
+    expect(screeningCase).toMatchObject({
+      userId: env.user.id,
+      trigger: 'kyc_approval',
+      matches: [expect.objectContaining({ entryId: 'PEP-KE-0042', category: 'pep', score: 1, dateOfBirthMatch: true })],
+    });
+
+    const confirmed = await call('resolveScreeningCase', {
+      params: { caseId: screeningCase!.id },
+      body: { decision: 'confirm', notes: 'Sitting county official' },
+    });
+    expect(confirmed.status).toBe(200);
+    expect(confirmed.body.case.status).toBe('confirmed');
+
+    const refused = transferTo('Brian Otieno', 10_000);
+    await expect(refused).rejects.toMatchObject({ code: 'ACCOUNT_ON_HOLD' });
+    await expect(refused).rejects.toThrow('Account is on hold pending review');
+    expect(env.stubs.paystackClient.transfers).toHaveLength(0);
+    expect((await env.helpers.refreshWallet('main')).availableBalance).toBe(50_000);
+  });
+
+  it('holds a payout to a listed recipient until an admin clears or confirms it', async () => {
+    await env.helpers.topUpMainWallet(80_000);
+
+    const held = await transferTo('Ivan Volkoff', 20_000);
+    expect(held.status).toBe('on_hold');
+    expect(held.roundUpAmount).toBe(0);
+    expect(held.screeningCaseId).toBeTruthy();
+    expect(held.transferTransaction.status).toBe('pending');
+    expect(env.stubs.paystackClient.transfers).toHaveLength(0);
+    expect((await env.helpers.refreshWallet('main')).availableBalance).toBe(60_000);
+
+    const cancelled = await call('resolveScreeningCase', {
+      params: { caseId: held.screeningCaseId! },
+      body: { decision: 'confirm', notes: 'Recipient is the listed person' },
+    });
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.payout).toMatchObject({ id: held.transferTransaction.id, status: 'cancelled' });
+    expect((await env.helpers.refreshWallet('main')).availableBalance).toBe(80_000);
+    // A payout hit holds the payout, not the sender
+    expect((await env.helpers.refreshUser()).complianceHolds).toEqual([]);
+
+    const second = await transferTo('Ivan Volkov', 15_000);
+    expect(second.status).toBe('on_hold');
+
+    const sent = await call('resolveScreeningCase', {
+      params: { caseId: second.screeningCaseId! },
+      body: { decision: 'clear', notes: 'Namesake, confirmed by phone' },
+    });
+    expect(sent.status).toBe(200);
+    expect(sent.body.payout).toMatchObject({ id: second.transferTransaction.id, status: 'pending' });
+    expect(env.stubs.paystackClient.transfers).toEqual([
+      expect.objectContaining({ amount: 15_000, reference: second.transferTransaction.id }),
+    ]);
+    expect((await env.helpers.refreshWallet('main')).availableBalance).toBe(65_000);
+  });
+
+  it('keeps the funds of a held payout reserved past hold expiry until its case is decided', async () => {
+    await env.helpers.topUpMainWallet(80_000);
+    const held = await transferTo('Ivan Volkov', 20_000);
+    expect((await env.repositories.transactionRepository.findById(held.transferTransaction.id))?.heldForScreening).toBe(true);
+
+    const later = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000);
+    expect(await env.services.walletService.expireHolds({ now: later })).toEqual([]);
+    expect((await env.helpers.refreshWallet('main')).availableBalance).toBe(60_000);
+
+    const sent = await call('resolveScreeningCase', {
+      params: { caseId: held.screeningCaseId! },
+      body: { decision: 'clear', notes: 'Namesake, confirmed by phone' },
+    });
+    expect(sent.body.payout).toMatchObject({ id: held.transferTransaction.id, status: 'pending' });
+    const transaction = await env.repositories.transactionRepository.findById(held.transferTransaction.id);
+    expect(transaction).toMatchObject({ heldForScreening: false, externalTransactionId: expect.any(String) });
+    expect(env.stubs.paystackClient.transfers).toHaveLength(1);
+  });
+
+  it('still expires other holds when more payouts are held for screening than the sweep takes at once', async () => {
+    await env.helpers.topUpMainWallet(80_000);
+    for (let index = 0; index < 3; index += 1) {
+      // eslint-disable-next-line no-await-in-loop
+      await transferTo('Ivan Volkov', 10_000);
+    }
+    const abandoned = await env.services.walletService.placeHold({
+      userId: env.user.id,
+      walletType: 'main',
+      amount: 5_000,
+      transactionId: randomUUID(),
+      description: 'Merchant payment',
+      expiresAt: new Date(Date.now() + 40 * 24 * 60 * 60 * 1000),
+    });
+
+    const later = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000);
+    const expired = await env.services.walletService.expireHolds({ now: later, limit: 2 });
+    expect(expired.map((hold) => hold.id)).toEqual([abandoned.id]);
+    expect((await env.helpers.refreshWallet('main')).availableBalance).toBe(50_000);
+  });
+});
@@ -24,8 +24,8 @@ describe('Integration: Savings Withdrawal (T031)', () => {
     const savingsBefore = await helpers.refreshWallet('savings');
     expect(savingsBefore.balance).toBe(130_000);
 
-    await helpers.ensurePin('1234');
-    const pinToken = await helpers.issuePinToken('1234');
+    await helpers.ensurePin('4826');
+    const pinToken = await helpers.issuePinToken('4826');
     expect(pinToken).toBeTruthy();
 
     const withdrawalAmount = 20_000; // KES 200.00
@@ -48,7 +48,7 @@ describe('Integration: Savings Withdrawal (T031)', () => {
       ...lockedWallet.withdrawalRestrictions,
       lockedUntil: settlementEta,
     };
-    await repositories.walletRepository.save(lockedWallet);
+    const savedLock = await repositories.walletRepository.save(lockedWallet);
 
     const lockedState = await helpers.refreshWallet('savings');
     expect(lockedState.withdrawalRestrictions?.lockedUntil?.getTime()).toBeGreaterThan(Date.now());
@@ -89,8 +89,10 @@ describe('Integration: Savings Withdrawal (T031)', () => {
     expect(stubs.paystackClient.transfers).toHaveLength(1);
 
     // Settlement completes; unlock funds and mark transaction completed.
-    lockedWallet.withdrawalRestrictions.lockedUntil = null;
-    await repositories.walletRepository.save(lockedWallet);
+    await repositories.walletRepository.save({
+      ...savedLock,
+      withdrawalRestrictions: { ...lockedWallet.withdrawalRestrictions, lockedUntil: null },
+    });
 
     const completedTransaction = await services.transactionService.markStatus(withdrawalTransaction, 'completed');
     expect(completedTransaction.status).toBe('completed');
@@ -0,0 +1,175 @@
+/**
+ * Integration Scenario: Step-Up Verification
+ *
+ * Payments above the step-up threshold or to a recipient the user has not paid
+ * before need an OTP or biometric confirmation on top of the PIN. The verified
+ * challenge only authorises one retry of the payment it was raised for.
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { ValidationError } from '../../api/src/models/base';
+import { userRecipientKey } from '../../api/src/models/PaymentIntent';
+import { createUser } from '../../api/src/models/User';
+import { createWallet } from '../../api/src/models/Wallet';
+import { PaymentService, StepUpCheck } from '../../api/src/services/PaymentService';
+import { StepUpService } from '../../api/src/services/StepUpService';
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+
+const THRESHOLD = 1_000_000;
+
+describe('Integration: Step-Up Verification', () => {
+  let env: IntegrationTestEnvironment;
+  let now: Date;
+  let stepUpService: StepUpService;
+  let paymentService: PaymentService;
+  let recipientId: string;
+  let deviceSessionId: string;
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    now = new Date();
+    deviceSessionId = randomUUID();
+    stepUpService = new StepUpService({
+      authService: env.services.authService,
+      userRepository: env.repositories.userRepository,
+      stepUpChallengeRepository: env.repositories.stepUpChallengeRepository,
+      clock: { now: () => now },
+    });
+    paymentService = new PaymentService({
+      transactionService: env.services.transactionService,
+      transactionRepository: env.repositories.transactionRepository,
+      walletService: env.services.walletService,
+      paystackClient: env.stubs.paystackClient,
+      roundUpRuleRepository: env.repositories.roundUpRuleRepository,
+      retryQueue: env.stubs.retryQueue,
+      unitOfWork: env.services.unitOfWork,
+      stepUpService,
+      stepUpPolicy: { amountThreshold: THRESHOLD, newRecipients: true },
+    });
+
+    recipientId = randomUUID();
+    await env.repositories.userRepository.create(
+      createUser({
+        id: recipientId,
+        email: 'recipient@zanari.app',
+        phone: '254722222222',
+        firstName: 'Recipient',
+        lastName: 'User',
+      }),
+    );
+    await env.repositories.walletRepository.insert(
+      createWallet({ id: randomUUID(), userId: recipientId, walletType: 'main', balance: 0, availableBalance: 0 }),
+    );
+  });
+
+  const transferCheck = (amount: number, challengeId?: string): StepUpCheck => ({
+    userId: env.user.id,
+    deviceSessionId,
+    transactionType: 'transfer_out',
+    amount,
+    recipientKey: userRecipientKey(recipientId),
+    challengeId,
+  });
+
+  const requireStepUp = async (check: StepUpCheck) => {
+    const error = await paymentService.authorizeStepUp(check).then(
+      () => null,
+      (caught: unknown) => caught,
+    );
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).code).toBe('STEP_UP_REQUIRED');
+    return (error as ValidationError).details as { challenge_id: string; reasons: string[]; methods: string[] };
+  };
+
+  const payRecipientOnce = async () => {
+    await env.helpers.topUpMainWallet(10_000);
+    await paymentService.transferPeerInternal({
+      transferId: randomUUID(),
+      userId: env.user.id,
+      recipientUserId: recipientId,
+      amount: 5_000,
+      senderName: 'Sarah',
+      recipientName: 'Recipient',
+    });
+  };
+
+  it('asks for an OTP before paying a recipient for the first time', async () => {
+    const details = await requireStepUp(transferCheck(5_000));
+    expect(details.reasons).toEqual(['new_recipient']);
+    expect(details.methods).toEqual(['otp']);
+
+    await expect(
+      stepUpService.verify({ userId: env.user.id, challengeId: details.challenge_id, method: 'biometric', deviceSessionId }),
+    ).rejects.toMatchObject({ code: 'STEP_UP_METHOD_NOT_ALLOWED' });
+    await expect(
+      stepUpService.verify({ userId: env.user.id, challengeId: details.challenge_id, method: 'otp', otpCode: '000000' }),
+    ).rejects.toMatchObject({ code: 'STEP_UP_OTP_NOT_SENT' });
+
+    await stepUpService.sendOtp(env.user.id, details.challenge_id);
+    const otpCode = env.stubs.otpSender.lastSmsOtp!.otp;
+    await expect(
+      stepUpService.verify({ userId: env.user.id, challengeId: details.challenge_id, method: 'otp', otpCode }),
+    ).resolves.toMatchObject({ status: 'verified', verifiedMethod: 'otp' });
+
+    await expect(paymentService.authorizeStepUp(transferCheck(5_000, details.challenge_id))).resolves.toBeUndefined();
+  });
+
+  it('lets small payments to a known recipient through on the PIN alone', async () => {
+    await payRecipientOnce();
+
+    await expect(paymentService.authorizeStepUp(transferCheck(5_000))).resolves.toBeUndefined();
+  });
+
+  it('accepts biometrics from the same device for an amount above the threshold', async () => {
+    await payRecipientOnce();
+
+    const details = await requireStepUp(transferCheck(THRESHOLD));
+    expect(details.reasons).toEqual(['amount_threshold']);
+    expect(details.methods).toEqual(['otp', 'biometric']);
+
+    await expect(
+      stepUpService.verify({
+        userId: env.user.id,
+        challengeId: details.challenge_id,
+        method: 'biometric',
+        deviceSessionId: randomUUID(),
+      }),
+    ).rejects.toMatchObject({ code: 'STEP_UP_DEVICE_MISMATCH' });
+    await stepUpService.verify({ userId: env.user.id, challengeId: details.challenge_id, method: 'biometric', deviceSessionId });
+
+    await expect(paymentService.authorizeStepUp(transferCheck(THRESHOLD, details.challenge_id))).resolves.toBeUndefined();
+  });
+
+  it('only authorises the payment the challenge was raised for, once', async () => {
+    await payRecipientOnce();
+    const details = await requireStepUp(transferCheck(THRESHOLD));
+    await stepUpService.verify({ userId: env.user.id, challengeId: details.challenge_id, method: 'biometric', deviceSessionId });
+
+    await expect(
+      paymentService.authorizeStepUp(transferCheck(THRESHOLD + 100, details.challenge_id)),
+    ).rejects.toMatchObject({ code: 'STEP_UP_MISMATCH' });
+
+    await paymentService.authorizeStepUp(transferCheck(THRESHOLD, details.challenge_id));
+    await expect(
+      paymentService.authorizeStepUp(transferCheck(THRESHOLD, details.challenge_id)),
+    ).rejects.toMatchObject({ code: 'STEP_UP_ALREADY_USED' });
+  });
+
+  it('refuses unverified, expired and other users\' challenges', async () => {
+    const details = await requireStepUp(transferCheck(THRESHOLD));
+
+    await expect(
+      paymentService.authorizeStepUp(transferCheck(THRESHOLD, details.challenge_id)),
+    ).rejects.toMatchObject({ code: 'STEP_UP_NOT_VERIFIED' });
+    await expect(stepUpService.sendOtp(recipientId, details.challenge_id)).rejects.toMatchObject({
+      code: 'STEP_UP_NOT_FOUND',
+    });
+
+    now = new Date(now.getTime() + 11 * 60 * 1000);
+    await expect(stepUpService.sendOtp(env.user.id, details.challenge_id)).rejects.toMatchObject({
+      code: 'STEP_UP_EXPIRED',
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Integration Scenario: KYC-Tiered Transaction Limits
+ *
+ * 1. Unverified users are held to the basic tier; approving KYC raises their limits
+ * 2. Daily and monthly totals are counted per transaction type, ignoring failed transactions
+ * 3. Days and months turn over at midnight in Nairobi, whatever the server's time zone
+ * 4. Top-ups and incoming transfers are refused above the tier's balance cap
+ * 5. Moves between the user's own wallets are not limited
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createTransaction, TransactionType } from '../../api/src/models/Transaction';
+import { createUser } from '../../api/src/models/User';
+import { createWallet } from '../../api/src/models/Wallet';
+import { LimitService } from '../../api/src/services/LimitService';
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+
+describe('Integration: Transaction Limits', () => {
+  let env: IntegrationTestEnvironment;
+
+  const recordPast = async (type: TransactionType, amount: number, options: { at?: Date; status?: 'failed' } = {}) => {
+    const createdAt = options.at ?? new Date();
+    const transaction = createTransaction({
+      id: randomUUID(),
+      userId: env.user.id,
+      type,
+      amount,
+      category: 'transfer',
+      status: options.status,
+    });
+    await env.repositories.transactionRepository.create({ ...transaction, createdAt });
+  };
+
+  const assertWithinLimits = (transactionType: TransactionType, amount: number, userId = env.user.id) =>
+    env.services.limitService.assertWithinLimits({ userId, transactionType, amount });
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+  });
+
+  it('raises the limits when KYC is approved', async () => {
+    await expect(assertWithinLimits('withdrawal', 600_000)).rejects.toMatchObject({
+      code: 'SINGLE_TRANSACTION_LIMIT_EXCEEDED',
+      details: { tier: 'basic', transaction_limit: 500_000 },
+    });
+
+    await env.repositories.userRepository.update(env.user.id, { kycStatus: 'approved', updatedAt: new Date() });
+
+    await expect(assertWithinLimits('withdrawal', 600_000)).resolves.toBeUndefined();
+    expect((await env.services.limitService.getLimits(env.user.id)).tier).toBe('verified');
+  });
+
+  it('counts daily totals per transaction type and ignores failed transactions', async () => {
+    await recordPast('withdrawal', 1_900_000);
+    await recordPast('payment', 400_000, { status: 'failed' });
+
+    await expect(assertWithinLimits('withdrawal', 200_000)).rejects.toMatchObject({
+      code: 'DAILY_LIMIT_EXCEEDED',
+      details: { daily_limit: 2_000_000, used_today: 1_900_000, available_today: 100_000 },
+    });
+    await expect(assertWithinLimits('payment', 500_000)).resolves.toBeUndefined();
+    // Round-ups and incoming transfers below the balance cap are not limited
+    await expect(assertWithinLimits('round_up', 10_000_000)).resolves.toBeUndefined();
+  });
+
+  it('enforces the monthly limit across days', async () => {
+    const now = new Date(2025, 5, 15, 12);
+    const limitService = new LimitService({
+      userRepository: env.repositories.userRepository,
+      walletRepository: env.repositories.walletRepository,
+      transactionRepository: env.repositories.transactionRepository,
+      clock: { now: () => now },
+    });
+    await recordPast('payment', 2_000_000, { at: new Date(2025, 4, 30, 12) });
+    await recordPast('payment', 2_000_000, { at: new Date(2025, 5, 3, 12) });
+    await recordPast('payment', 2_000_000, { at: new Date(2025, 5, 10, 12) });
+    await recordPast('payment', 800_000, { at: new Date(2025, 5, 12, 12) });
+
+    await expect(
+      limitService.assertWithinLimits({ userId: env.user.id, transactionType: 'payment', amount: 200_000 }),
+    ).resolves.toBeUndefined();
+    await expect(
+      limitService.assertWithinLimits({ userId: env.user.id, transactionType: 'payment', amount: 300_000 }),
+    ).rejects.toMatchObject({
+      code: 'MONTHLY_LIMIT_EXCEEDED',
+      details: { monthly_limit: 5_000_000, used_this_month: 4_800_000, available_this_month: 200_000 },
+    });
+  });
+
+  it('starts a new day and month at midnight in Nairobi', async () => {
+    // 00:30 on 1 July in Nairobi, still 30 June in UTC
+    const now = new Date('2025-06-30T21:30:00Z');
+    const limitService = new LimitService({
+      userRepository: env.repositories.userRepository,
+      walletRepository: env.repositories.walletRepository,
+      transactionRepository: env.repositories.transactionRepository,
+      clock: { now: () => now },
+    });
+    await recordPast('payment', 1_900_000, { at: new Date('2025-06-30T20:45:00Z') });
+    await recordPast('payment', 300_000, { at: new Date('2025-06-30T21:15:00Z') });
+
+    const payments = (await limitService.getLimits(env.user.id)).transactionTypes.find(
+      (headroom) => headroom.transactionType === 'payment',
+    );
+    expect(payments).toMatchObject({ daily: { used: 300_000 }, monthly: { used: 300_000 } });
+    await expect(
+      limitService.assertWithinLimits({ userId: env.user.id, transactionType: 'payment', amount: 500_000 }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('refuses top-ups and incoming transfers above the balance cap', async () => {
+    await env.helpers.topUpMainWallet(4_800_000);
+
+    await expect(assertWithinLimits('deposit', 300_000)).rejects.toMatchObject({
+      code: 'BALANCE_LIMIT_EXCEEDED',
+      details: { balance_limit: 5_000_000, balance: 4_800_000, available_to_receive: 200_000 },
+    });
+
+    const error = await assertWithinLimits('transfer_in', 300_000).catch((caught: unknown) => caught);
+    expect(error).toMatchObject({ code: 'RECIPIENT_LIMIT_EXCEEDED' });
+    expect((error as { details?: unknown }).details).toBeUndefined();
+  });
+
+  it('refuses an internal transfer the recipient cannot hold and moves nothing', async () => {
+    const { services, user } = env;
+    await env.helpers.topUpMainWallet(400_000);
+    const recipient = createUser({
+      id: randomUUID(),
+      email: 'full.wallet@zanari.app',
+      phone: '254700111222',
+      firstName: 'Full',
+      lastName: 'Wallet',
+    });
+    await env.repositories.userRepository.create(recipient);
+    await env.repositories.walletRepository.insert(
+      createWallet({ id: randomUUID(), userId: recipient.id, walletType: 'main', balance: 0, availableBalance: 0 }),
+    );
+    await services.walletService.credit({ userId: recipient.id, walletType: 'main', amount: 4_900_000 });
+
+    await expect(
+      services.paymentService.transferPeerInternal({
+        transferId: randomUUID(),
+        userId: user.id,
+        recipientUserId: recipient.id,
+        amount: 200_000,
+      }),
+    ).rejects.toThrow('Recipient cannot receive this amount');
+
+    expect((await env.helpers.refreshWallet('main')).balance).toBe(400_000);
+  });
+
+  it('does not limit moves between the user\'s own wallets', async () => {
+    await recordPast('deposit', 2_000_000);
+    await recordPast('withdrawal', 2_000_000);
+    await env.helpers.topUpMainWallet(300_000);
+
+    const { services, user } = env;
+    const transaction = await services.transactionService.create({
+      id: randomUUID(),
+      userId: user.id,
+      type: 'deposit',
+      amount: 300_000,
+      category: 'savings',
+      skipLimits: true,
+    });
+
+    expect(transaction.amount).toBe(300_000);
+    await expect(
+      services.transactionService.create({
+        id: randomUUID(),
+        userId: user.id,
+        type: 'deposit',
+        amount: 300_000,
+        category: 'savings',
+      }),
+    ).rejects.toThrow('Daily transaction limit exceeded');
+  });
+});
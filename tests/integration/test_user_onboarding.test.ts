@@ -31,11 +31,11 @@ describe('Integration: User Onboarding Flow (T026)', () => {
     const verifyResult = await services.authService.verifyOtp({ sessionId: otpResponse.sessionId, otpCode });
     expect(verifyResult.user.id).toBe(user.id);
     expect(verifyResult.requiresPinSetup).toBe(true);
-    expect(verifyResult.accessToken).toContain('access-');
-    expect(verifyResult.refreshToken).toContain('refresh-');
+    expect((await services.tokenService.verifyAccessToken(verifyResult.accessToken))?.userId).toBe(user.id);
+    expect(verifyResult.refreshToken.length).toBeGreaterThan(0);
 
     // Step 3: set up a 4-digit PIN for secure access.
-    await services.authService.setupPin(user.id, '1234');
+    await services.authService.setupPin(user.id, '4826');
     const userAfterPin = await helpers.refreshUser();
     expect(userAfterPin.pinHash).toBeDefined();
     expect(userAfterPin.pinSetAt).not.toBeNull();
@@ -0,0 +1,216 @@
+/**
+ * Integration Scenario: Concurrent Wallet Updates and Atomic Money Movements
+ *
+ * 1. Concurrent debits against the same wallet never overwrite each other; losers re-read and retry
+ * 2. Retries re-check balances, so racing debits cannot overdraw a wallet
+ * 3. A save against a stale wallet version is rejected
+ * 4. A unit of work that fails part-way leaves wallets, transactions and the ledger untouched
+ * 5. A transaction another request moved on since the unit read it is not overwritten
+ * 6. A charge settled twice at once (webhook and /payments/verify) credits the wallet once
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { ConcurrencyError } from '../../api/src/models/base';
+import { InMemoryUnitOfWorkCommitter } from '../../api/src/dev/inMemoryAppContainer';
+import { BufferedUnitOfWork } from '../../api/src/services/UnitOfWork';
+
+describe('Integration: Wallet Concurrency', () => {
+  let env: IntegrationTestEnvironment;
+
+  const ledgerBalance = (walletId: string) => env.services.ledgerService.getWalletBalance(walletId);
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+  });
+
+  it('applies every concurrent debit when a round-up races a goal deposit', async () => {
+    const { services, user } = env;
+    await env.helpers.topUpMainWallet(10_000);
+    await env.helpers.topUpSavingsWallet(5_000);
+
+    await Promise.all([
+      services.walletService.transferRoundUp(user.id, 700),
+      services.walletService.debit({ userId: user.id, walletType: 'savings', amount: 3_000, counterAccount: 'savings_goals' }),
+      services.walletService.debit({ userId: user.id, walletType: 'main', amount: 4_000 }),
+    ]);
+
+    const main = await env.helpers.refreshWallet('main');
+    const savings = await env.helpers.refreshWallet('savings');
+    expect(main.balance).toBe(10_000 - 700 - 4_000);
+    expect(savings.balance).toBe(5_000 + 700 - 3_000);
+    expect(await ledgerBalance(main.id)).toBe(main.balance);
+    expect(await ledgerBalance(savings.id)).toBe(savings.balance);
+  });
+
+  it('re-checks funds on retry so racing debits cannot overdraw the wallet', async () => {
+    const { services, user } = env;
+    await env.helpers.topUpMainWallet(10_000);
+
+    const results = await Promise.allSettled(
+      [1, 2, 3].map(() => services.walletService.debit({ userId: user.id, walletType: 'main', amount: 4_000 })),
+    );
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(2);
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rejected).toHaveLength(1);
+    expect((rejected[0]?.reason as Error).message).toBe('Insufficient funds');
+
+    const main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(2_000);
+    expect(await ledgerBalance(main.id)).toBe(2_000);
+  });
+
+  it('rejects a save made against a stale wallet version', async () => {
+    const { repositories } = env;
+    const stale = await env.helpers.refreshWallet('main');
+    await env.helpers.topUpMainWallet(1_000);
+
+    await expect(repositories.walletRepository.save({ ...stale, balance: 99_999, availableBalance: 99_999 })).rejects.toThrow(
+      ConcurrencyError,
+    );
+    expect((await env.helpers.refreshWallet('main')).balance).toBe(1_000);
+  });
+
+  it('gives up with ConcurrencyError once its attempts are used up', async () => {
+    const { repositories, services, user } = env;
+    await env.helpers.topUpMainWallet(10_000);
+    const unitOfWork = new BufferedUnitOfWork({
+      walletRepository: repositories.walletRepository,
+      transactionRepository: repositories.transactionRepository,
+      ledgerRepository: repositories.ledgerRepository,
+      fundHoldRepository: repositories.fundHoldRepository,
+      committer: new InMemoryUnitOfWorkCommitter({
+        wallets: repositories.walletRepository,
+        transactions: repositories.transactionRepository,
+        ledger: repositories.ledgerRepository,
+        holds: repositories.fundHoldRepository,
+      }),
+      maxAttempts: 2,
+    });
+
+    let attempts = 0;
+    const unit = unitOfWork.run(async (scope) => {
+      attempts += 1;
+      await services.walletService.forScope(scope).debit({ userId: user.id, walletType: 'main', amount: 1_000 });
+      // Another request commits first every time
+      await services.walletService.credit({ userId: user.id, walletType: 'main', amount: 500 });
+    });
+
+    await expect(unit).rejects.toThrow(ConcurrencyError);
+    expect(attempts).toBe(2);
+    const main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(11_000);
+    expect(await ledgerBalance(main.id)).toBe(11_000);
+  });
+
+  it('re-runs a unit whose transaction another request moved on since it was read', async () => {
+    const { services, user } = env;
+    const deposit = await services.transactionService.create({
+      id: randomUUID(),
+      userId: user.id,
+      type: 'deposit',
+      amount: 25_000,
+      category: 'transfer',
+      skipLimits: true,
+    });
+
+    let attempts = 0;
+    const outcome = await services.unitOfWork.run(async (scope) => {
+      attempts += 1;
+      const current = await scope.transactionRepository.findById(deposit.id);
+      if (current?.status !== 'pending') {
+        return 'already settled';
+      }
+      await services.walletService
+        .forScope(scope)
+        .credit({ userId: user.id, walletType: 'main', amount: 25_000, transactionId: deposit.id });
+      await services.transactionService.forScope(scope).markStatus(current, 'completed');
+      if (attempts === 1) {
+        // Another request settles it first
+        await services.transactionService.markStatus(current, 'failed');
+      }
+      return 'credited';
+    });
+
+    expect(outcome).toBe('already settled');
+    expect(attempts).toBe(2);
+    expect((await env.repositories.transactionRepository.findById(deposit.id))?.status).toBe('failed');
+    expect((await env.helpers.refreshWallet('main')).balance).toBe(0);
+  });
+
+  it('credits a top-up once when the same charge is settled twice at once', async () => {
+    const { services, user } = env;
+    const { depositTransaction } = await services.paymentService.initializeDeposit({
+      depositId: randomUUID(),
+      userId: user.id,
+      amount: 25_000,
+      customerEmail: user.email,
+    });
+
+    const results = await Promise.all([
+      services.settlementService.completeCharge(depositTransaction),
+      services.settlementService.completeCharge(depositTransaction),
+    ]);
+
+    expect(results.map((result) => result.applied).sort()).toEqual([false, true]);
+    expect(results.map((result) => result.transaction.status)).toEqual(['completed', 'completed']);
+    const main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(25_000);
+    expect(await ledgerBalance(main.id)).toBe(25_000);
+  });
+
+  it('leaves nothing behind when a unit of work fails part-way', async () => {
+    const { repositories, services, user } = env;
+    await env.helpers.topUpMainWallet(10_000);
+    const transactionId = randomUUID();
+
+    await expect(
+      services.unitOfWork.run(async (scope) => {
+        await services.walletService.forScope(scope).transfer({
+          userId: user.id,
+          fromWalletType: 'main',
+          toWalletType: 'savings',
+          amount: 6_000,
+          transactionId,
+        });
+        await services.transactionService.forScope(scope).create({
+          id: transactionId,
+          userId: user.id,
+          type: 'deposit',
+          amount: 6_000,
+          category: 'savings',
+        });
+        throw new Error('Downstream failure');
+      }),
+    ).rejects.toThrow('Downstream failure');
+
+    expect((await env.helpers.refreshWallet('main')).balance).toBe(10_000);
+    expect((await env.helpers.refreshWallet('savings')).balance).toBe(0);
+    expect(await repositories.transactionRepository.findById(transactionId)).toBeNull();
+    expect(await services.ledgerService.listWalletEntries(env.savingsWallet.id, { limit: 10 })).toHaveLength(0);
+  });
+
+  it('does not debit the wallet when a merchant payment cannot be recorded', async () => {
+    const { services, helpers, user } = env;
+    await env.helpers.topUpMainWallet(600_000);
+
+    await expect(
+      services.paymentService.payMerchant({
+        paymentId: randomUUID(),
+        userId: user.id,
+        amount: 550_000,
+        pinToken: await helpers.issuePinToken('4826'),
+        merchantInfo: { name: 'Carrefour' },
+        customerEmail: user.email,
+      }),
+    ).rejects.toThrow('Single transaction limit exceeded');
+
+    const main = await env.helpers.refreshWallet('main');
+    expect(main.balance).toBe(600_000);
+    expect((await env.helpers.refreshWallet('savings')).balance).toBe(0);
+    expect(await services.ledgerService.listWalletEntries(main.id, { limit: 10 })).toHaveLength(1);
+  });
+});
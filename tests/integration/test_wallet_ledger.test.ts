@@ -0,0 +1,158 @@
+/**
+ * Integration Scenario: Double-Entry Ledger Beneath Wallet Balances
+ *
+ * 1. Every wallet balance change posts a balanced journal entry against a wallet or system account
+ * 2. Wallet balances can be rebuilt from the ledger, now or as of an earlier point in time
+ * 3. Round-ups, refunds and P2P transfers net out across wallets and system accounts
+ * 4. A wallet balance changed outside WalletService shows up as a difference against the ledger
+ */
+
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { createIntegrationTestEnvironment, IntegrationTestEnvironment } from './helpers/environment';
+import { createUser } from '../../api/src/models/User';
+import { createWallet } from '../../api/src/models/Wallet';
+import { systemAccountId } from '../../api/src/models/LedgerEntry';
+import { createLedgerRoutes } from '../../api/src/routes/ledger';
+import { executeRoute } from '../../api/src/routes/handler';
+import { RouteHandler } from '../../api/src/routes/types';
+
+describe('Integration: Wallet Ledger', () => {
+  let env: IntegrationTestEnvironment;
+  let ledgerRoutes: ReturnType<typeof createLedgerRoutes>;
+
+  const getLedger = (walletId: string, query: Record<string, string> = {}, adminId: string | null = 'ops') =>
+    executeRoute(ledgerRoutes.getWalletLedger as RouteHandler, {
+      body: undefined,
+      params: { walletId },
+      query,
+      headers: {},
+      adminId: adminId ?? undefined,
+    });
+
+  const ledgerBalance = (walletId: string) => env.services.ledgerService.getWalletBalance(walletId);
+
+  const payMerchant = async (amount: number) => {
+    const { services, helpers, user } = env;
+    const result = await services.paymentService.payMerchant({
+      paymentId: randomUUID(),
+      userId: user.id,
+      amount,
+      pinToken: await helpers.issuePinToken('4826'),
+      merchantInfo: { name: 'Java House' },
+      customerEmail: user.email,
+    });
+    await services.settlementService.completeCharge(result.paymentTransaction);
+    return result;
+  };
+
+  beforeEach(async () => {
+    env = await createIntegrationTestEnvironment();
+    ledgerRoutes = createLedgerRoutes({
+      ledgerService: env.services.ledgerService,
+      walletRepository: env.repositories.walletRepository,
+    });
+  });
+
+  it('posts a balanced entry for each movement and keeps wallets in balance with the ledger', async () => {
+    await env.helpers.topUpMainWallet(100_000);
+    const payment = await payMerchant(48_200);
+
+    const main = await env.helpers.refreshWallet('main');
+    const savings = await env.helpers.refreshWallet('savings');
+    expect(main.balance).toBe(51_000);
+    expect(savings.balance).toBe(800);
+    expect(await ledgerBalance(main.id)).toBe(51_000);
+    expect(await ledgerBalance(savings.id)).toBe(800);
+
+    // Top-up in, payment out: Paystack clearing holds the difference
+    expect(await env.services.ledgerService.getAccountBalance(systemAccountId('paystack_clearing'))).toBe(100_000 - 48_200);
+
+    const entries = await env.services.ledgerService.listWalletEntries(main.id, { limit: 10 });
+    // The payment is posted when its hold is captured at settlement, after the round-up
+    expect(entries.map((entry) => entry.description)).toEqual(['Merchant payment', 'Round-up to savings', 'Wallet credit']);
+    expect(entries[0]?.transactionId).toBe(payment.paymentTransaction.id);
+    for (const entry of entries) {
+      const debits = entry.lines.filter((line) => line.direction === 'debit').reduce((sum, line) => sum + line.amount, 0);
+      const credits = entry.lines.filter((line) => line.direction === 'credit').reduce((sum, line) => sum + line.amount, 0);
+      expect(debits).toBe(credits);
+    }
+  });
+
+  it('explains a wallet balance as of an earlier point in time', async () => {
+    await env.helpers.topUpMainWallet(100_000);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const beforePayment = new Date();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await payMerchant(48_200);
+
+    const response = await getLedger(env.mainWallet.id, { as_of: beforePayment.toISOString() });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      wallet_id: env.mainWallet.id,
+      wallet_balance: 51_000,
+      ledger_balance: 51_000,
+      difference: 0,
+      as_of: beforePayment.toISOString(),
+      balance_as_of: 100_000,
+    });
+    const { entries } = response.body as { entries: unknown[] };
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      description: 'Wallet credit',
+      change: 100_000,
+      lines: [
+        { account_id: 'system:paystack_clearing', direction: 'debit', amount: 100_000 },
+        { account_id: `wallet:${env.mainWallet.id}`, direction: 'credit', amount: 100_000 },
+      ],
+    });
+  });
+
+  it('nets refunds, returned round-ups and P2P transfers out across accounts', async () => {
+    const { services, repositories, user } = env;
+    await env.helpers.topUpMainWallet(100_000);
+    const payment = await payMerchant(48_200);
+    await services.refundService.refundPayment({ transactionId: payment.paymentTransaction.id });
+
+    const recipientId = randomUUID();
+    await repositories.userRepository.create(
+      createUser({ id: recipientId, email: 'amani@zanari.app', phone: '254722222222', firstName: 'Amani', lastName: 'Otieno' }),
+    );
+    const recipientWallet = createWallet({ id: randomUUID(), userId: recipientId, walletType: 'main' });
+    await repositories.walletRepository.insert(recipientWallet);
+
+    await services.paymentService.transferPeerInternal({
+      transferId: randomUUID(),
+      userId: user.id,
+      recipientUserId: recipientId,
+      amount: 20_000,
+    });
+
+    const main = await env.helpers.refreshWallet('main');
+    const savings = await env.helpers.refreshWallet('savings');
+    for (const wallet of [main, savings, (await repositories.walletRepository.findById(recipientWallet.id))!]) {
+      expect((await services.ledgerService.checkWallet(wallet)).difference).toBe(0);
+    }
+    expect(await ledgerBalance(recipientWallet.id)).toBe(20_000);
+    expect(await services.ledgerService.getAccountBalance(systemAccountId('transfers_in_transit'))).toBe(0);
+    expect(await services.ledgerService.getAccountBalance(systemAccountId('paystack_clearing'))).toBe(100_000);
+  });
+
+  it('reports a wallet balance that no longer matches the ledger', async () => {
+    await env.helpers.topUpMainWallet(10_000);
+    const main = await env.helpers.refreshWallet('main');
+    await env.repositories.walletRepository.save({ ...main, balance: 12_500, availableBalance: 12_500 });
+
+    const response = await getLedger(main.id);
+
+    expect(response.body).toMatchObject({ wallet_balance: 12_500, ledger_balance: 10_000, difference: 2_500, as_of: null });
+  });
+
+  it('requires an admin, a known wallet and a valid as_of', async () => {
+    expect((await getLedger(env.mainWallet.id, {}, null)).status).toBe(401);
+    expect((await getLedger(randomUUID())).status).toBe(404);
+    expect((await getLedger(env.mainWallet.id, { as_of: 'yesterday' })).body).toMatchObject({ code: 'INVALID_AS_OF' });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from '@jest/globals';
 import apiClient from '../../src/services/api';
 import { PaymentService } from '../../api/src/services/PaymentService';
+import { LimitService } from '../../api/src/services/LimitService';
 import { TransactionService } from '../../api/src/services/TransactionService';
 
 const createPaymentService = () => {
@@ -85,13 +86,21 @@ const createPaymentService = () => {
 
 const createTransactionService = () => {
   const transactionRepository = {
-    sumUserTransactionsForDay: jest.fn().mockResolvedValue(250_000),
+    sumUserTransactionsByType: jest.fn().mockResolvedValue({ payment: 250_000 }),
     create: jest.fn().mockImplementation(async (tx) => tx),
   } as any;
+  const clock = { now: () => new Date('2025-01-01T08:00:00Z') };
+  const limitService = new LimitService({
+    userRepository: { findById: jest.fn().mockResolvedValue({ id: 'user-1', kycStatus: 'not_started' }) } as any,
+    walletRepository: { listByUser: jest.fn().mockResolvedValue([]) } as any,
+    transactionRepository,
+    clock,
+  });
 
   return new TransactionService({
     transactionRepository,
-    clock: { now: () => new Date('2025-01-01T08:00:00Z') },
+    limitService,
+    clock,
   } as any);
 };
 
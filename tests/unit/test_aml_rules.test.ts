@@ -0,0 +1,163 @@
+import { randomUUID } from 'node:crypto';
+
+import { AmlRule, DEFAULT_AML_RULES, evaluateAmlRule, fromJson } from '../../api/src/models/AmlRule';
+import { createTransaction, Transaction, TransactionStatus, TransactionType } from '../../api/src/models/Transaction';
+import { DEFAULT_LIMIT_TIERS } from '../../api/src/models/TransactionLimits';
+
+const NOW = new Date('2025-12-15T12:00:00Z').getTime();
+const MINUTE = 60_000;
+const userId = randomUUID();
+
+const rule = (id: string): AmlRule => DEFAULT_AML_RULES.find((candidate) => candidate.id === id)!;
+
+const completed = (
+  type: TransactionType,
+  amount: number,
+  minutesAgo: number,
+  options: { status?: TransactionStatus; senderUserId?: string } = {},
+): Transaction => {
+  const at = new Date(NOW - minutesAgo * MINUTE);
+  return {
+    ...createTransaction({
+      id: randomUUID(),
+      userId,
+      type,
+      amount,
+      category: 'transfer',
+      externalReference: options.senderUserId ? JSON.stringify({ senderUserId: options.senderUserId }) : null,
+    }),
+    status: options.status ?? 'completed',
+    completedAt: at,
+    createdAt: at,
+    updatedAt: at,
+  };
+};
+
+const evaluate = (id: string, transactions: Transaction[]) =>
+  evaluateAmlRule(rule(id), { transactions, tier: DEFAULT_LIMIT_TIERS.basic });
+
+describe('AML rules', () => {
+  describe('structuring', () => {
+    it('picks out three transactions within 10% of the per-transaction limit in a day', () => {
+      const nearLimit = [completed('transfer_out', 480_000, 600), completed('withdrawal', 495_000, 300), completed('deposit', 450_000, 10)];
+      const hit = evaluate('structuring_near_limit', [...nearLimit, completed('transfer_out', 400_000, 200)]);
+
+      expect(hit).toMatchObject({
+        summary: '3 transactions just under the per-transaction limit within a day',
+        details: { count: 3, total_amount: 1_425_000 },
+      });
+      expect(hit!.transactions.map((transaction) => transaction.id)).toEqual(nearLimit.map((transaction) => transaction.id));
+    });
+
+    it('ignores transactions spread over more than a day and ones that never completed', () => {
+      expect(
+        evaluate('structuring_near_limit', [
+          completed('transfer_out', 480_000, 1_500),
+          completed('transfer_out', 480_000, 300),
+          completed('transfer_out', 480_000, 10),
+        ]),
+      ).toBeNull();
+      expect(
+        evaluate('structuring_near_limit', [
+          completed('transfer_out', 480_000, 300),
+          completed('transfer_out', 480_000, 200, { status: 'failed' }),
+          completed('transfer_out', 480_000, 10),
+        ]),
+      ).toBeNull();
+    });
+  });
+
+  describe('rapid movement', () => {
+    it('flags a top-up that mostly leaves again within the hour', () => {
+      const hit = evaluate('top_up_then_withdraw', [
+        completed('deposit', 500_000, 90),
+        completed('withdrawal', 250_000, 70),
+        completed('transfer_out', 200_000, 40),
+      ]);
+
+      expect(hit).toMatchObject({
+        summary: '90% of an incoming deposit left within an hour',
+        details: { incoming_amount: 500_000, outgoing_amount: 450_000 },
+      });
+      expect(hit!.transactions).toHaveLength(3);
+    });
+
+    it('leaves money that stays, or leaves later, alone', () => {
+      expect(evaluate('top_up_then_withdraw', [completed('deposit', 500_000, 90), completed('withdrawal', 100_000, 60)])).toBeNull();
+      expect(evaluate('top_up_then_withdraw', [completed('deposit', 500_000, 180), completed('withdrawal', 500_000, 60)])).toBeNull();
+    });
+  });
+
+  describe('distinct senders', () => {
+    it('counts the Zanari users who sent money, not the transfers', () => {
+      const fromMany = Array.from({ length: 10 }, (_, index) => completed('transfer_in', 5_000, 60 * index, { senderUserId: randomUUID() }));
+      expect(evaluate('many_senders_in_a_day', fromMany)).toMatchObject({
+        summary: 'Transfers from 10 different senders within a day',
+        details: { senders: 10, total_amount: 50_000 },
+      });
+
+      const senders = [randomUUID(), randomUUID()];
+      const fromTwo = Array.from({ length: 12 }, (_, index) => completed('transfer_in', 5_000, 60 * index, { senderUserId: senders[index % 2] }));
+      expect(evaluate('many_senders_in_a_day', fromTwo)).toBeNull();
+    });
+  });
+
+  describe('volume spike', () => {
+    const history = (dailyAmount: number) =>
+      Array.from({ length: 30 }, (_, index) => completed('deposit', dailyAmount, (index + 2) * 24 * 60));
+
+    it("compares the day with the user's own average over the month before", () => {
+      const today = [completed('deposit', 1_500_000, 120), completed('transfer_out', 1_000_000, 30)];
+      expect(evaluate('daily_volume_spike', [...history(100_000), ...today])).toMatchObject({
+        summary: 'Moved KES 25000.00 within a day against a usual KES 1000.00',
+        details: { volume: 2_500_000, baseline_average: 100_000 },
+      });
+      expect(evaluate('daily_volume_spike', [...history(1_000_000), ...today])).toBeNull();
+    });
+
+    it('never counts a volume below the minimum as a spike', () => {
+      expect(evaluate('daily_volume_spike', [completed('deposit', 1_900_000, 30)])).toBeNull();
+    });
+  });
+
+  describe('fromJson', () => {
+    it('reads a snake_case rule set', () => {
+      expect(
+        fromJson({
+          rules: [
+            { id: 'quick_exit', kind: 'rapid_movement', severity: 'high', window_minutes: 30, min_amount: 100_000, min_outgoing_share: 0.5 },
+          ],
+        }),
+      ).toEqual([{ id: 'quick_exit', kind: 'rapid_movement', severity: 'high', windowMinutes: 30, minAmount: 100_000, minOutgoingShare: 0.5 }]);
+    });
+
+    it('rejects unknown kinds, repeated ids and thresholds out of range', () => {
+      expect(() => fromJson({ rules: [{ id: 'odd', kind: 'layering' as never, severity: 'low', window_minutes: 60 }] })).toThrow(
+        'AML rule odd has unknown kind layering',
+      );
+      expect(() =>
+        fromJson({
+          rules: [
+            { id: 'twice', kind: 'distinct_senders', severity: 'low', window_minutes: 60, min_senders: 5 },
+            { id: 'twice', kind: 'distinct_senders', severity: 'low', window_minutes: 60, min_senders: 5 },
+          ],
+        }),
+      ).toThrow('AML rule twice is defined more than once');
+      expect(() =>
+        fromJson({
+          rules: [
+            {
+              id: 'loose',
+              kind: 'structuring',
+              severity: 'high',
+              window_minutes: 60,
+              transaction_types: ['deposit'],
+              min_count: 3,
+              near_limit_ratio: 1.5,
+            },
+          ],
+        }),
+      ).toThrow('AML rule loose near-limit ratio must be above 0 and at most 1');
+    });
+  });
+});
@@ -4,6 +4,8 @@ import { randomUUID } from 'node:crypto';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
 import { AuthService } from '../../api/src/services/AuthService';
+import { SessionService } from '../../api/src/services/SessionService';
+import { InMemoryDeviceSessionRepository, InMemoryRefreshTokenRepository } from '../../api/src/dev/inMemoryAppContainer';
 import { SupabaseOtpSender } from '../../api/src/services/SupabaseOtpSender';
 import {
   AuthSessionRepository,
@@ -11,11 +13,12 @@ import {
   PinHasher,
   PinTokenService,
   RateLimiter,
+  RefreshTokenRotation,
   TokenService,
   UserRepository,
   NullLogger,
 } from '../../api/src/services/types';
-import { createUser, User } from '../../api/src/models/User';
+import { ComplianceHold, createUser, setComplianceHold, User } from '../../api/src/models/User';
 import { AuthSession, SUPABASE_EMAIL_OTP_CODE } from '../../api/src/models/AuthSession';
 import { ValidationError, UUID } from '../../api/src/models/base';
 
@@ -67,6 +70,24 @@ class InMemoryUserRepository implements UserRepository {
     this.users.set(userId, next);
     return { ...next };
   }
+
+  async setComplianceHold(userId: UUID, hold: ComplianceHold, held: boolean, now: Date): Promise<User | null> {
+    const current = this.users.get(userId);
+    if (!current) {
+      return null;
+    }
+    const next = { ...current, complianceHolds: setComplianceHold(current, hold, held), updatedAt: now } satisfies User;
+    this.users.set(userId, next);
+    return { ...next };
+  }
+
+  async search(query: string, options: { limit: number }): Promise<User[]> {
+    const term = query.toLowerCase();
+    return [...this.users.values()]
+      .filter((user) => user.email.includes(term) || user.phone?.includes(term))
+      .slice(0, options.limit)
+      .map((user) => ({ ...user }));
+  }
 }
 
 class InMemoryAuthSessionRepository implements AuthSessionRepository {
@@ -109,6 +130,10 @@ class StubPinHasher implements PinHasher {
   async compare(pin: string, hash: string): Promise<boolean> {
     return hash === `hash:${pin}`;
   }
+
+  needsRehash(): boolean {
+    return false;
+  }
 }
 
 class StubPinTokenService implements PinTokenService {
@@ -116,18 +141,29 @@ class StubPinTokenService implements PinTokenService {
   async validate(): Promise<boolean> {
     return true;
   }
+  async consume(): Promise<boolean> {
+    return true;
+  }
   async invalidate(): Promise<void> {}
 }
 
 class StaticTokenService implements TokenService {
-  async issueAccessToken(_user: User): Promise<string> {
+  async issueAccessToken(_user: User, _deviceSessionId: UUID): Promise<string> {
     return 'access-token';
   }
 
-  async issueRefreshToken(_user: User): Promise<string> {
+  async verifyAccessToken(_accessToken: string): Promise<null> {
+    return null;
+  }
+
+  async issueRefreshToken(_user: User, _deviceSessionId: UUID): Promise<string> {
     return 'refresh-token';
   }
 
+  async rotateRefreshToken(_refreshToken: string): Promise<RefreshTokenRotation> {
+    return { status: 'invalid' };
+  }
+
   async revokeRefreshToken(_refreshToken: string): Promise<void> {}
 }
 
@@ -173,6 +209,11 @@ describe('AuthService with Supabase email OTP', () => {
       authSessionRepository,
       otpSender,
       tokenService: new StaticTokenService(),
+      sessionService: new SessionService({
+        deviceSessionRepository: new InMemoryDeviceSessionRepository(),
+        refreshTokenRepository: new InMemoryRefreshTokenRepository(),
+        notificationService: { notifyUser: async () => {} },
+      }),
       pinHasher: new StubPinHasher(),
       pinTokenService: new StubPinTokenService(),
       rateLimiter: new AllowAllRateLimiter(),
@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { pbkdf2Sync, randomBytes } from 'node:crypto';
+
+import { CryptoPinHasher } from '../../api/src/services/CryptoPinHasher';
+import { assertPinPolicy, evaluatePin } from '../../api/src/services/PinPolicy';
+
+const PEPPER = 'unit-test-pin-pepper-0123456789abcdef';
+
+const legacyHash = (pin: string) => {
+  const salt = randomBytes(16);
+  const derived = pbkdf2Sync(pin, salt, 1_000, 32, 'sha256');
+  return `pbkdf2$1000$${salt.toString('hex')}$${derived.toString('hex')}`;
+};
+
+describe('CryptoPinHasher', () => {
+  const hasher = new CryptoPinHasher({ pepper: PEPPER });
+
+  it('hashes with peppered scrypt in the versioned format', async () => {
+    const hash = await hasher.hash('4826');
+
+    expect(hash).toMatch(/^v2\$scrypt\$32768:8:1\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(hasher.needsRehash(hash)).toBe(false);
+    await expect(hasher.compare('4826', hash)).resolves.toBe(true);
+    await expect(hasher.compare('4827', hash)).resolves.toBe(false);
+  });
+
+  it('does not verify hashes made with a different pepper', async () => {
+    const other = new CryptoPinHasher({ pepper: 'another-unit-test-pin-pepper-0123456789' });
+    const hash = await other.hash('4826');
+
+    await expect(hasher.compare('4826', hash)).resolves.toBe(false);
+  });
+
+  it('still verifies legacy PBKDF2 hashes and flags them for rehashing', async () => {
+    const hash = legacyHash('4826');
+
+    await expect(hasher.compare('4826', hash)).resolves.toBe(true);
+    await expect(hasher.compare('4827', hash)).resolves.toBe(false);
+    expect(hasher.needsRehash(hash)).toBe(true);
+    expect(hasher.needsRehash('v2$scrypt$16384:8:1$00$00')).toBe(true);
+  });
+
+  it('rejects malformed hashes and short peppers', async () => {
+    await expect(hasher.compare('4826', 'not-a-hash')).resolves.toBe(false);
+    await expect(hasher.compare('4826', 'v2$scrypt$x:8:1$aa$bb')).resolves.toBe(false);
+    expect(() => new CryptoPinHasher({ pepper: 'short' })).toThrow('at least 32 characters');
+  });
+});
+
+describe('PIN policy', () => {
+  it('accepts PINs that are not sequential, repeated or common', () => {
+    expect(evaluatePin('4826')).toEqual({ isValid: true, errors: [] });
+    expect(() => assertPinPolicy('3917')).not.toThrow();
+  });
+
+  it.each([
+    ['1234', 'Avoid sequential numbers (e.g., 1234)'],
+    ['8765', 'Avoid sequential numbers (e.g., 1234)'],
+    ['7777', 'Avoid repeating the same digit'],
+    ['2580', 'This PIN is too common. Choose a more secure one'],
+  ])('rejects %s as a weak PIN', (pin, reason) => {
+    expect(evaluatePin(pin).errors).toContain(reason);
+    expect(() => assertPinPolicy(pin)).toThrow(expect.objectContaining({ code: 'WEAK_PIN' }));
+  });
+
+  it('reports format problems separately', () => {
+    expect(evaluatePin('12a')).toEqual({
+      isValid: false,
+      errors: ['PIN must contain digits only', 'PIN must be exactly 4 digits'],
+    });
+    expect(() => assertPinPolicy('12345')).toThrow(expect.objectContaining({ code: 'INVALID_PIN_FORMAT' }));
+  });
+});
@@ -5,7 +5,7 @@ import { RegistrationService } from '../../api/src/services/RegistrationService'
 import { InMemoryIdentityProvider } from '../../api/src/services/IdentityProvider';
 import { AuthService } from '../../api/src/services/AuthService';
 import { ValidationError, UUID } from '../../api/src/models/base';
-import { createUser, User } from '../../api/src/models/User';
+import { ComplianceHold, createUser, setComplianceHold, User } from '../../api/src/models/User';
 import { AuthSession } from '../../api/src/models/AuthSession';
 import {
   AuthSessionRepository,
@@ -17,7 +17,10 @@ import {
   PinTokenService,
   UserRepository,
 } from '../../api/src/services/types';
-import { RandomTokenService } from '../../api/src/services/RandomTokenService';
+import { SignedTokenService } from '../../api/src/services/SignedTokenService';
+import { InMemoryDeviceSessionRepository, InMemoryRefreshTokenRepository } from '../../api/src/dev/inMemoryAppContainer';
+import { SessionService } from '../../api/src/services/SessionService';
+import { ConsoleNotificationService } from '../../api/src/services/ConsoleNotificationService';
 import { CryptoPinHasher } from '../../api/src/services/CryptoPinHasher';
 import { InMemoryRateLimiter } from '../../api/src/services/InMemoryRateLimiter';
 import { ConsoleOtpSender } from '../../api/src/services/ConsoleOtpSender';
@@ -63,6 +66,24 @@ class InMemoryUserRepo implements UserRepository {
     this.users.set(userId, next);
     return { ...next };
   }
+
+  async setComplianceHold(userId: UUID, hold: ComplianceHold, held: boolean, now: Date): Promise<User | null> {
+    const current = this.users.get(userId);
+    if (!current) {
+      return null;
+    }
+    const next = { ...current, complianceHolds: setComplianceHold(current, hold, held), updatedAt: now } satisfies User;
+    this.users.set(userId, next);
+    return { ...next };
+  }
+
+  async search(query: string, options: { limit: number }): Promise<User[]> {
+    const term = query.toLowerCase();
+    return [...this.users.values()]
+      .filter((user) => user.email.includes(term) || user.phone?.includes(term))
+      .slice(0, options.limit)
+      .map((user) => ({ ...user }));
+  }
 }
 
 class InMemoryAuthSessionRepo implements AuthSessionRepository {
@@ -93,6 +114,9 @@ class StubPinTokenService implements PinTokenService {
   async validate(): Promise<boolean> {
     return true;
   }
+  async consume(): Promise<boolean> {
+    return true;
+  }
   async invalidate(): Promise<void> {}
 }
 
@@ -100,8 +124,17 @@ const buildRegistrationService = () => {
   const userRepository = new InMemoryUserRepo();
   const authSessionRepository = new InMemoryAuthSessionRepo();
   const otpSender: OtpSender = new ConsoleOtpSender();
-  const tokenService: TokenService = new RandomTokenService();
-  const pinHasher: PinHasher = new CryptoPinHasher();
+  const refreshTokenRepository = new InMemoryRefreshTokenRepository();
+  const tokenService: TokenService = new SignedTokenService({
+    secret: 'registration-test-signing-secret-0123456789',
+    refreshTokenRepository,
+  });
+  const sessionService = new SessionService({
+    deviceSessionRepository: new InMemoryDeviceSessionRepository(),
+    refreshTokenRepository,
+    notificationService: new ConsoleNotificationService(),
+  });
+  const pinHasher: PinHasher = new CryptoPinHasher({ pepper: 'registration-test-pin-pepper-0123456789' });
   const pinTokenService: PinTokenService = new StubPinTokenService();
   const rateLimiter: RateLimiter = new InMemoryRateLimiter();
   const identityProvider: IdentityProvider = new InMemoryIdentityProvider();
@@ -111,6 +144,7 @@ const buildRegistrationService = () => {
     authSessionRepository,
     otpSender,
     tokenService,
+    sessionService,
     pinHasher,
     pinTokenService,
     rateLimiter,
@@ -71,6 +71,7 @@ const createPaymentServiceWithRule = (rule: Partial<RoundUpRule> | null) => {
       paystackClient: paystackClient as any,
       roundUpRuleRepository: roundUpRuleRepository as any,
       retryQueue: retryQueue as any,
+      unitOfWork: { run: jest.fn() } as any,
     }),
     transactionService,
     transactionRepository,
@@ -137,6 +137,9 @@ describe('SavingsInvestmentService', () => {
         userId,
         walletType: 'savings',
         amount: 5000,
+        counterAccount: 'investment_pool',
+        transactionId: expect.any(String),
+        description: 'Allocation to Zanari Yield Pool',
       });
 
       expect(transactionService.create).toHaveBeenCalledWith(expect.objectContaining({
@@ -196,6 +199,9 @@ describe('SavingsInvestmentService', () => {
         userId,
         walletType: 'savings',
         amount: 2000,
+        counterAccount: 'investment_pool',
+        transactionId: expect.any(String),
+        description: 'Redemption from Zanari Yield Pool',
       });
 
       expect(transactionService.create).toHaveBeenCalledWith(expect.objectContaining({
@@ -297,6 +303,9 @@ describe('SavingsInvestmentService', () => {
         userId,
         walletType: 'savings',
         amount: 5000,
+        counterAccount: 'investment_pool',
+        transactionId: expect.any(String),
+        description: 'Allocation to Zanari Yield Pool',
       });
 
       expect(transactionService.create).toHaveBeenCalledWith(expect.objectContaining({
@@ -403,6 +412,9 @@ describe('SavingsInvestmentService', () => {
         userId,
         walletType: 'savings',
         amount: 500,
+        counterAccount: 'interest_expense',
+        transactionId: expect.any(String),
+        description: 'Interest payout from Zanari Yield Pool',
       });
 
       expect(transactionService.create).toHaveBeenCalledWith(expect.objectContaining({
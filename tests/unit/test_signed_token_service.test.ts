@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { randomUUID } from 'node:crypto';
+
+import { InMemoryRefreshTokenRepository } from '../../api/src/dev/inMemoryAppContainer';
+import { createUser } from '../../api/src/models/User';
+import { createRequestAuthenticator } from '../../api/src/routes/authentication';
+import { SignedTokenService } from '../../api/src/services/SignedTokenService';
+
+const SECRET = 'unit-test-signing-secret-0123456789abcdef';
+
+describe('SignedTokenService', () => {
+  let now: Date;
+  let refreshTokenRepository: InMemoryRefreshTokenRepository;
+  let tokenService: SignedTokenService;
+
+  const user = createUser({
+    id: randomUUID(),
+    email: 'token.user@zanari.app',
+    phone: '254712000111',
+    firstName: 'Token',
+    lastName: 'User',
+  });
+
+  const sessionId = randomUUID();
+
+  const encode = (value: Record<string, unknown>) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+  beforeEach(() => {
+    now = new Date('2025-06-01T08:00:00Z');
+    refreshTokenRepository = new InMemoryRefreshTokenRepository();
+    tokenService = new SignedTokenService({
+      secret: SECRET,
+      refreshTokenRepository,
+      accessTokenTtlSeconds: 600,
+      clock: { now: () => now },
+    });
+  });
+
+  describe('access tokens', () => {
+    it('verifies its own tokens until they expire', async () => {
+      const accessToken = await tokenService.issueAccessToken(user, sessionId);
+
+      await expect(tokenService.verifyAccessToken(accessToken)).resolves.toEqual({
+        userId: user.id,
+        deviceSessionId: sessionId,
+        issuedAt: now,
+        expiresAt: new Date(now.getTime() + 600_000),
+      });
+
+      now = new Date(now.getTime() + 600_000);
+      await expect(tokenService.verifyAccessToken(accessToken)).resolves.toBeNull();
+    });
+
+    it('rejects tokens with a changed payload or signed with another secret', async () => {
+      const [header, , signature] = (await tokenService.issueAccessToken(user, sessionId)).split('.');
+      const forgedPayload = encode({ iss: 'zanari-api', sub: randomUUID(), sid: sessionId, iat: 0, exp: 4_000_000_000 });
+      await expect(tokenService.verifyAccessToken(`${header}.${forgedPayload}.${signature}`)).resolves.toBeNull();
+
+      const otherService = new SignedTokenService({ secret: `${SECRET}-other`, refreshTokenRepository });
+      await expect(tokenService.verifyAccessToken(await otherService.issueAccessToken(user, sessionId))).resolves.toBeNull();
+    });
+
+    it('rejects unsigned tokens and the old random token format', async () => {
+      const payload = encode({ iss: 'zanari-api', sub: user.id, sid: sessionId, iat: 0, exp: 4_000_000_000 });
+      await expect(tokenService.verifyAccessToken(`${encode({ alg: 'none', typ: 'JWT' })}.${payload}.`)).resolves.toBeNull();
+      await expect(tokenService.verifyAccessToken(`access-${user.id}-${randomUUID()}`)).resolves.toBeNull();
+    });
+
+    it('refuses short signing secrets', () => {
+      expect(() => new SignedTokenService({ secret: 'too-short', refreshTokenRepository })).toThrow(
+        'Token signing secret must be at least 32 characters',
+      );
+    });
+  });
+
+  describe('refresh tokens', () => {
+    it('rotates a refresh token into a new one for the same user and session', async () => {
+      const refreshToken = await tokenService.issueRefreshToken(user, sessionId);
+
+      const rotated = await tokenService.rotateRefreshToken(refreshToken);
+      if (rotated.status !== 'rotated') {
+        throw new Error(`Expected rotation, got ${rotated.status}`);
+      }
+
+      expect(rotated).toMatchObject({ userId: user.id, deviceSessionId: sessionId });
+      expect(rotated.refreshToken).not.toBe(refreshToken);
+      await expect(tokenService.rotateRefreshToken(rotated.refreshToken)).resolves.toMatchObject({ status: 'rotated' });
+    });
+
+    it('revokes the whole family when a rotated token is presented again', async () => {
+      const original = await tokenService.issueRefreshToken(user, sessionId);
+      const rotated = await tokenService.rotateRefreshToken(original);
+      const otherSignIn = await tokenService.issueRefreshToken(user, randomUUID());
+
+      await expect(tokenService.rotateRefreshToken(original)).resolves.toEqual({
+        status: 'reused',
+        userId: user.id,
+        deviceSessionId: sessionId,
+      });
+      await expect(
+        tokenService.rotateRefreshToken(rotated.status === 'rotated' ? rotated.refreshToken : ''),
+      ).resolves.toEqual({ status: 'invalid' });
+      // Sessions from other sign-ins are untouched
+      await expect(tokenService.rotateRefreshToken(otherSignIn)).resolves.toMatchObject({ status: 'rotated' });
+    });
+
+    it('lets only one of two concurrent refreshes with the same token win', async () => {
+      const refreshToken = await tokenService.issueRefreshToken(user, sessionId);
+
+      const results = await Promise.all([
+        tokenService.rotateRefreshToken(refreshToken),
+        tokenService.rotateRefreshToken(refreshToken),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['reused', 'rotated']);
+    });
+
+    it('rejects unknown, expired and revoked tokens', async () => {
+      await expect(tokenService.rotateRefreshToken('not-a-token')).resolves.toEqual({ status: 'invalid' });
+
+      const revoked = await tokenService.issueRefreshToken(user, randomUUID());
+      await tokenService.revokeRefreshToken(revoked);
+      await expect(tokenService.rotateRefreshToken(revoked)).resolves.toEqual({ status: 'invalid' });
+
+      const expiring = await tokenService.issueRefreshToken(user, randomUUID());
+      now = new Date(now.getTime() + 31 * 24 * 60 * 60 * 1000);
+      await expect(tokenService.rotateRefreshToken(expiring)).resolves.toEqual({ status: 'invalid' });
+    });
+  });
+
+  describe('request authentication', () => {
+    it('resolves the user and session from a Bearer access token only', async () => {
+      const authenticate = createRequestAuthenticator({ tokenService });
+      const accessToken = await tokenService.issueAccessToken(user, sessionId);
+
+      await expect(authenticate({ authorization: `Bearer ${accessToken}` })).resolves.toEqual({
+        userId: user.id,
+        deviceSessionId: sessionId,
+      });
+      await expect(authenticate({ authorization: 'Bearer forged' })).resolves.toBeUndefined();
+      await expect(authenticate({ 'x-user-id': user.id })).resolves.toBeUndefined();
+    });
+
+    it('trusts X-User-Id only in dev mode', async () => {
+      const authenticate = createRequestAuthenticator({ tokenService, trustUserIdHeader: true });
+
+      await expect(authenticate({ 'x-user-id': user.id })).resolves.toEqual({ userId: user.id });
+    });
+  });
+});
@@ -1,15 +1,24 @@
 import { describe, expect, it } from '@jest/globals';
+import { LimitService } from '../../api/src/services/LimitService';
 import { TransactionService } from '../../api/src/services/TransactionService';
 
-const createService = (overrides?: { dailyTotal?: number }) => {
+const createService = (overrides?: { dailyTotal?: number; kycStatus?: string }) => {
   const transactionRepository = {
-    sumUserTransactionsForDay: jest.fn().mockResolvedValue(overrides?.dailyTotal ?? 0),
+    sumUserTransactionsByType: jest.fn().mockResolvedValue({ payment: overrides?.dailyTotal ?? 0 }),
     create: jest.fn().mockImplementation(async (transaction) => transaction),
   } as any;
+  const userRepository = {
+    findById: jest.fn().mockResolvedValue({ id: 'user-1', kycStatus: overrides?.kycStatus ?? 'not_started' }),
+  } as any;
+  const walletRepository = {
+    listByUser: jest.fn().mockResolvedValue([]),
+  } as any;
+  const clock = { now: () => new Date('2025-01-01T08:00:00Z') };
 
   const service = new TransactionService({
     transactionRepository,
-    clock: { now: () => new Date('2025-01-01T08:00:00Z') },
+    limitService: new LimitService({ userRepository, walletRepository, transactionRepository, clock }),
+    clock,
   } as any);
 
   return { service, transactionRepository };
@@ -58,6 +67,20 @@ describe('Unit: Transaction validation (T095)', () => {
     ).rejects.toThrow('Daily transaction limit exceeded');
   });
 
+  it('raises the single transaction limit once KYC is approved', async () => {
+    const { service } = createService({ kycStatus: 'approved' });
+
+    const transaction = await service.create({
+      id: 'txn-5',
+      userId: 'user-1',
+      type: 'payment',
+      amount: 600_000,
+      category: 'groceries',
+    });
+
+    expect(transaction.amount).toBe(600_000);
+  });
+
   it('allows transaction when limits respected and persists via repository', async () => {
     const { service, transactionRepository } = createService({ dailyTotal: 500_000 });
 
@@ -0,0 +1,61 @@
+import { dateOfBirthMatches, fromCsv, fromJson, nameSimilarity, normalizeName } from '../../api/src/models/Watchlist';
+
+describe('Watchlist', () => {
+  describe('nameSimilarity', () => {
+    it('ignores case, accents, punctuation and word order', () => {
+      expect(normalizeName('  José  Núñez-Ortega ')).toBe('jose nunez ortega');
+      expect(nameSimilarity('NÚÑEZ ORTEGA, José', 'Jose Nunez Ortega')).toBe(1);
+    });
+
+    it('still matches a name with the middle name left out or spelt differently', () => {
+      expect(nameSimilarity('Ivan Volkov', 'Ivan Petrovich Volkov')).toBe(1);
+      expect(nameSimilarity('Ivan Volkoff', 'Ivan Volkov')).toBeGreaterThan(0.9);
+    });
+
+    it('does not match a lone first name or an unrelated name', () => {
+      expect(nameSimilarity('Ivan', 'Ivan Petrovich Volkov')).toBeLessThan(0.9);
+      expect(nameSimilarity('Sarah Mutindi', 'Ivan Petrovich Volkov')).toBeLessThan(0.6);
+      expect(nameSimilarity('', 'Ivan Volkov')).toBe(0);
+    });
+  });
+
+  describe('dateOfBirthMatches', () => {
+    const [entry] = fromJson([{ id: 'PEP-1', name: 'Halima Barasa', date_of_birth: '1970', list_name: 'PEP', category: 'pep' }]);
+
+    it('matches a year-only entry on the year and is unknown without a date', () => {
+      expect(dateOfBirthMatches(entry!, new Date('1970-06-15'))).toBe(true);
+      expect(dateOfBirthMatches(entry!, new Date('1971-06-15'))).toBe(false);
+      expect(dateOfBirthMatches(entry!, null)).toBeNull();
+    });
+  });
+
+  describe('fromCsv', () => {
+    it('reads quoted fields and semicolon-separated aliases in any column order', () => {
+      const entries = fromCsv(
+        [
+          'name,id,category,list_name,date_of_birth,aliases',
+          '"Volkov, Ivan Petrovich",UN-1,sanctions,UN Consolidated,1961-04-12,"Ivan Volkoff; I. P. ""Vanya"" Volkov"',
+          '',
+        ].join('\r\n'),
+      );
+
+      expect(entries).toEqual([
+        {
+          id: 'UN-1',
+          name: 'Volkov, Ivan Petrovich',
+          aliases: ['Ivan Volkoff', 'I. P. "Vanya" Volkov'],
+          dateOfBirth: '1961-04-12',
+          listName: 'UN Consolidated',
+          category: 'sanctions',
+        },
+      ]);
+    });
+
+    it('rejects files missing a column or with a bad entry', () => {
+      expect(() => fromCsv('id,name\nUN-1,Ivan Volkov')).toThrow('missing columns aliases, date_of_birth, list_name, category');
+      expect(() => fromCsv('id,name,aliases,date_of_birth,list_name,category\nUN-1,Ivan Volkov,,12/04/1961,UN,sanctions')).toThrow(
+        'date of birth must be YYYY-MM-DD or YYYY',
+      );
+    });
+  });
+});